@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "reports" ADD COLUMN     "last_run_error" TEXT,
+ADD COLUMN     "recipients" JSONB;
+
+-- CreateIndex
+CREATE INDEX "idx_reports_scheduled" ON "reports"("is_scheduled");
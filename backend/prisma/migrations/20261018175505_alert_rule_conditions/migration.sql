@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "alert_rules" ADD COLUMN     "condition_type" VARCHAR(30) NOT NULL DEFAULT 'THRESHOLD',
+ADD COLUMN     "lookback_days" INTEGER NOT NULL DEFAULT 7,
+ADD COLUMN     "scope" VARCHAR(20) NOT NULL DEFAULT 'CAMPAIGN';
+
+-- Presets created before rules carried a condition type encoded Overspend as
+-- a budget multiplier and CTR Drop as a ratio; move them onto the engine
+-- condition types
+UPDATE "alert_rules"
+SET "condition_type" = 'BUDGET_PERCENT', "operator" = 'gte', "threshold" = 110, "updated_at" = CURRENT_TIMESTAMP
+WHERE "alert_type" = 'preset' AND "condition_type" = 'THRESHOLD' AND "name" = 'Overspend';
+
+UPDATE "alert_rules"
+SET "condition_type" = 'DROP_PERCENT', "threshold" = 30, "updated_at" = CURRENT_TIMESTAMP
+WHERE "alert_type" = 'preset' AND "condition_type" = 'THRESHOLD' AND "name" = 'CTR Drop';
+
+UPDATE "alert_rules"
+SET "lookback_days" = 3, "updated_at" = CURRENT_TIMESTAMP
+WHERE "alert_type" = 'preset' AND "name" = 'Inactive Campaign' AND "lookback_days" = 7;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "notification_delivery_status" AS ENUM ('pending', 'sent', 'failed');
+
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "alert_id" UUID,
+    "alert_history_id" UUID,
+    "user_id" UUID,
+    "channel" "notification_channel" NOT NULL,
+    "recipient" VARCHAR(500) NOT NULL,
+    "status" "notification_delivery_status" NOT NULL DEFAULT 'pending',
+    "attempt_count" INTEGER NOT NULL DEFAULT 0,
+    "attempts" JSONB,
+    "last_error" TEXT,
+    "provider_message_id" VARCHAR(255),
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_notification_deliveries_tenant_created" ON "notification_deliveries"("tenant_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_notification_deliveries_alert" ON "notification_deliveries"("alert_id");
+
+-- CreateIndex
+CREATE INDEX "idx_notification_deliveries_status" ON "notification_deliveries"("status");
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_alert_id_fkey" FOREIGN KEY ("alert_id") REFERENCES "alerts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_alert_history_id_fkey" FOREIGN KEY ("alert_history_id") REFERENCES "alert_history"("id") ON DELETE SET NULL ON UPDATE CASCADE;
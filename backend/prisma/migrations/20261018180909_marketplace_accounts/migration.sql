@@ -0,0 +1,86 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "lazada_account_id" UUID,
+ADD COLUMN     "shopee_account_id" UUID;
+
+-- CreateTable
+CREATE TABLE "shopee_accounts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "shop_id" VARCHAR(255) NOT NULL,
+    "shop_name" VARCHAR(255),
+    "region" VARCHAR(10),
+    "access_token" TEXT NOT NULL,
+    "refresh_token" TEXT,
+    "token_expires_at" TIMESTAMP(3),
+    "refresh_token_expires_at" TIMESTAMP(3),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "last_sync_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shopee_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "lazada_accounts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "seller_id" VARCHAR(255) NOT NULL,
+    "account_name" VARCHAR(255),
+    "country" VARCHAR(5) NOT NULL DEFAULT 'th',
+    "access_token" TEXT NOT NULL,
+    "refresh_token" TEXT,
+    "token_expires_at" TIMESTAMP(3),
+    "refresh_token_expires_at" TIMESTAMP(3),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "last_sync_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lazada_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "marketplace_daily_sales" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "platform" "ad_platform" NOT NULL,
+    "account_id" VARCHAR(255) NOT NULL,
+    "date" DATE NOT NULL,
+    "orders" INTEGER NOT NULL DEFAULT 0,
+    "cancelled_orders" INTEGER NOT NULL DEFAULT 0,
+    "units_sold" INTEGER NOT NULL DEFAULT 0,
+    "gmv" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'THB',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "marketplace_daily_sales_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shopee_accounts_tenant_id_shop_id_key" ON "shopee_accounts"("tenant_id", "shop_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lazada_accounts_tenant_id_seller_id_key" ON "lazada_accounts"("tenant_id", "seller_id");
+
+-- CreateIndex
+CREATE INDEX "idx_marketplace_sales_tenant_date" ON "marketplace_daily_sales"("tenant_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "marketplace_daily_sales_tenant_id_platform_account_id_date_key" ON "marketplace_daily_sales"("tenant_id", "platform", "account_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "shopee_accounts" ADD CONSTRAINT "shopee_accounts_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lazada_accounts" ADD CONSTRAINT "lazada_accounts_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_shopee_account_id_fkey" FOREIGN KEY ("shopee_account_id") REFERENCES "shopee_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_lazada_account_id_fkey" FOREIGN KEY ("lazada_account_id") REFERENCES "lazada_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "marketplace_daily_sales" ADD CONSTRAINT "marketplace_daily_sales_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,125 @@
+-- CreateEnum
+CREATE TYPE "lead_stage" AS ENUM ('new', 'contacted', 'qualified', 'proposal', 'won', 'lost');
+
+-- CreateEnum
+CREATE TYPE "deal_status" AS ENUM ('open', 'won', 'lost');
+
+-- CreateTable
+CREATE TABLE "leads" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "campaign_id" UUID,
+    "owner_id" UUID,
+    "stage" "lead_stage" NOT NULL DEFAULT 'new',
+    "name" VARCHAR(255),
+    "email" VARCHAR(255),
+    "phone" VARCHAR(50),
+    "company" VARCHAR(255),
+    "source" VARCHAR(50) NOT NULL DEFAULT 'manual',
+    "external_id" VARCHAR(255),
+    "utm_source" VARCHAR(255),
+    "utm_medium" VARCHAR(255),
+    "utm_campaign" VARCHAR(255),
+    "value" DECIMAL(15,2),
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'THB',
+    "qualified_at" TIMESTAMP(3),
+    "won_at" TIMESTAMP(3),
+    "lost_at" TIMESTAMP(3),
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "leads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "deals" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "lead_id" UUID NOT NULL,
+    "campaign_id" UUID,
+    "owner_id" UUID,
+    "name" VARCHAR(255) NOT NULL,
+    "status" "deal_status" NOT NULL DEFAULT 'open',
+    "value" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'THB',
+    "expected_close_date" DATE,
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "deals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "lead_stage_changes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "lead_id" UUID NOT NULL,
+    "from_stage" "lead_stage",
+    "to_stage" "lead_stage" NOT NULL,
+    "changed_by_id" UUID,
+    "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lead_stage_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_leads_tenant_created" ON "leads"("tenant_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_leads_tenant_qualified" ON "leads"("tenant_id", "qualified_at");
+
+-- CreateIndex
+CREATE INDEX "idx_leads_tenant_stage" ON "leads"("tenant_id", "stage");
+
+-- CreateIndex
+CREATE INDEX "idx_leads_campaign" ON "leads"("campaign_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leads_tenant_id_source_external_id_key" ON "leads"("tenant_id", "source", "external_id");
+
+-- CreateIndex
+CREATE INDEX "idx_deals_tenant_created" ON "deals"("tenant_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_deals_tenant_status" ON "deals"("tenant_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_deals_lead" ON "deals"("lead_id");
+
+-- CreateIndex
+CREATE INDEX "idx_lead_stage_changes_tenant_changed" ON "lead_stage_changes"("tenant_id", "changed_at");
+
+-- CreateIndex
+CREATE INDEX "idx_lead_stage_changes_lead" ON "lead_stage_changes"("lead_id");
+
+-- AddForeignKey
+ALTER TABLE "leads" ADD CONSTRAINT "leads_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leads" ADD CONSTRAINT "leads_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leads" ADD CONSTRAINT "leads_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deals" ADD CONSTRAINT "deals_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deals" ADD CONSTRAINT "deals_lead_id_fkey" FOREIGN KEY ("lead_id") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deals" ADD CONSTRAINT "deals_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deals" ADD CONSTRAINT "deals_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_stage_changes" ADD CONSTRAINT "lead_stage_changes_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_stage_changes" ADD CONSTRAINT "lead_stage_changes_lead_id_fkey" FOREIGN KEY ("lead_id") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_stage_changes" ADD CONSTRAINT "lead_stage_changes_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
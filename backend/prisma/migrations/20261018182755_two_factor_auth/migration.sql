@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "two_factor_required" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "two_factor_enabled_at" TIMESTAMP(3),
+ADD COLUMN     "two_factor_last_used_step" INTEGER,
+ADD COLUMN     "two_factor_recovery_codes" JSONB,
+ADD COLUMN     "two_factor_secret" TEXT;
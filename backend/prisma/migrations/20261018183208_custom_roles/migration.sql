@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "custom_role_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "idx_users_custom_role" ON "users"("custom_role_id");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_custom_role_id_fkey" FOREIGN KEY ("custom_role_id") REFERENCES "roles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
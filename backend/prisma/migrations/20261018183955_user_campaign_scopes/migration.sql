@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "user_campaign_scopes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "campaign_id" UUID,
+    "platform" "ad_platform",
+    "account_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_campaign_scopes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_user_campaign_scopes_user" ON "user_campaign_scopes"("user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_user_campaign_scopes_tenant" ON "user_campaign_scopes"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "user_campaign_scopes" ADD CONSTRAINT "user_campaign_scopes_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_campaign_scopes" ADD CONSTRAINT "user_campaign_scopes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_campaign_scopes" ADD CONSTRAINT "user_campaign_scopes_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "sync_type" ADD VALUE 'backfill';
+
+-- CreateTable
+CREATE TABLE "sync_cursors" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "platform" "ad_platform" NOT NULL,
+    "account_id" UUID NOT NULL,
+    "high_water_mark" DATE NOT NULL,
+    "last_synced_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_cursors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_sync_cursors_tenant" ON "sync_cursors"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_cursors_platform_account_id_key" ON "sync_cursors"("platform", "account_id");
+
+-- AddForeignKey
+ALTER TABLE "sync_cursors" ADD CONSTRAINT "sync_cursors_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "campaign_change_status" AS ENUM ('pending', 'applying', 'applied', 'rejected', 'failed');
+
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "client_change_approval" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "campaign_change_requests" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "campaign_id" UUID NOT NULL,
+    "requested_by_id" UUID,
+    "reviewed_by_id" UUID,
+    "status" "campaign_change_status" NOT NULL DEFAULT 'pending',
+    "changes" JSONB NOT NULL,
+    "baseline" JSONB NOT NULL,
+    "error_message" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewed_at" TIMESTAMP(3),
+
+    CONSTRAINT "campaign_change_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_campaign_change_requests_tenant_status" ON "campaign_change_requests"("tenant_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_campaign_change_requests_campaign" ON "campaign_change_requests"("campaign_id");
+
+-- AddForeignKey
+ALTER TABLE "campaign_change_requests" ADD CONSTRAINT "campaign_change_requests_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_change_requests" ADD CONSTRAINT "campaign_change_requests_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_change_requests" ADD CONSTRAINT "campaign_change_requests_requested_by_id_fkey" FOREIGN KEY ("requested_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_change_requests" ADD CONSTRAINT "campaign_change_requests_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "line_ads_accounts" ADD COLUMN     "access_key" VARCHAR(255),
+ADD COLUMN     "secret_key" TEXT,
+ALTER COLUMN "access_token" DROP NOT NULL;
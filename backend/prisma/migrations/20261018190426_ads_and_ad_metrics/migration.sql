@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "ads" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "campaign_id" UUID NOT NULL,
+    "ad_group_id" UUID NOT NULL,
+    "external_id" VARCHAR(255),
+    "name" VARCHAR(255) NOT NULL,
+    "status" "ad_group_status" NOT NULL DEFAULT 'active',
+    "creative" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ad_metrics" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "campaign_id" UUID NOT NULL,
+    "ad_group_id" UUID NOT NULL,
+    "ad_id" UUID NOT NULL,
+    "platform" "ad_platform" NOT NULL,
+    "date" DATE NOT NULL,
+    "impressions" INTEGER NOT NULL DEFAULT 0,
+    "clicks" INTEGER NOT NULL DEFAULT 0,
+    "conversions" INTEGER NOT NULL DEFAULT 0,
+    "spend" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "revenue" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ad_metrics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_ads_campaign" ON "ads"("campaign_id");
+
+-- CreateIndex
+CREATE INDEX "idx_ads_ad_group" ON "ads"("ad_group_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ads_tenant_id_ad_group_id_external_id_key" ON "ads"("tenant_id", "ad_group_id", "external_id");
+
+-- CreateIndex
+CREATE INDEX "idx_ad_metrics_ad_group_date" ON "ad_metrics"("ad_group_id", "date" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_ad_metrics_campaign_date" ON "ad_metrics"("campaign_id", "date" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ad_metrics_ad_id_date_key" ON "ad_metrics"("ad_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "ads" ADD CONSTRAINT "ads_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ads" ADD CONSTRAINT "ads_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ads" ADD CONSTRAINT "ads_ad_group_id_fkey" FOREIGN KEY ("ad_group_id") REFERENCES "ad_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ad_metrics" ADD CONSTRAINT "ad_metrics_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ad_metrics" ADD CONSTRAINT "ad_metrics_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ad_metrics" ADD CONSTRAINT "ad_metrics_ad_group_id_fkey" FOREIGN KEY ("ad_group_id") REFERENCES "ad_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ad_metrics" ADD CONSTRAINT "ad_metrics_ad_id_fkey" FOREIGN KEY ("ad_id") REFERENCES "ads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "date" DATE NOT NULL,
+    "base_currency" VARCHAR(3) NOT NULL,
+    "quote_currency" VARCHAR(3) NOT NULL,
+    "rate" DECIMAL(20,10) NOT NULL,
+    "source" VARCHAR(50) NOT NULL DEFAULT 'manual',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_exchange_rates_pair_date" ON "exchange_rates"("base_currency", "quote_currency", "date" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_date_base_currency_quote_currency_key" ON "exchange_rates"("date", "base_currency", "quote_currency");
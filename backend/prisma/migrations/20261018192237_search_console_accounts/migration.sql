@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "search_console_accounts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "access_token" TEXT,
+    "refresh_token" TEXT NOT NULL,
+    "token_expires_at" TIMESTAMP(3),
+    "site_urls" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "last_sync_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "search_console_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "search_console_accounts_tenant_id_key" ON "search_console_accounts"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "search_console_accounts" ADD CONSTRAINT "search_console_accounts_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
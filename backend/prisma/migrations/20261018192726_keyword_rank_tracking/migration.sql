@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "tracked_keywords" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "keyword" VARCHAR(500) NOT NULL,
+    "target_url" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tracked_keywords_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "keyword_rank_history" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "tracked_keyword_id" UUID NOT NULL,
+    "date" DATE NOT NULL,
+    "position" DECIMAL(10,4) NOT NULL,
+    "clicks" INTEGER NOT NULL DEFAULT 0,
+    "impressions" INTEGER NOT NULL DEFAULT 0,
+    "ranking_url" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "keyword_rank_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_tracked_keywords_tenant" ON "tracked_keywords"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tracked_keywords_tenant_id_keyword_key" ON "tracked_keywords"("tenant_id", "keyword");
+
+-- CreateIndex
+CREATE INDEX "idx_keyword_rank_history_tenant_date" ON "keyword_rank_history"("tenant_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "keyword_rank_history_tracked_keyword_id_date_key" ON "keyword_rank_history"("tracked_keyword_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "tracked_keywords" ADD CONSTRAINT "tracked_keywords_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "keyword_rank_history" ADD CONSTRAINT "keyword_rank_history_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "keyword_rank_history" ADD CONSTRAINT "keyword_rank_history_tracked_keyword_id_fkey" FOREIGN KEY ("tracked_keyword_id") REFERENCES "tracked_keywords"("id") ON DELETE CASCADE ON UPDATE CASCADE;
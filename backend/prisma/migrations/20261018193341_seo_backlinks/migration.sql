@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "seo_backlinks" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "link_hash" CHAR(64) NOT NULL,
+    "source_url" TEXT NOT NULL,
+    "target_url" TEXT NOT NULL,
+    "source_domain" VARCHAR(255) NOT NULL,
+    "anchor_text" TEXT,
+    "domain_rating" DOUBLE PRECISION,
+    "url_rating" DOUBLE PRECISION,
+    "is_dofollow" BOOLEAN NOT NULL DEFAULT true,
+    "first_seen_at" DATE,
+    "found_at" DATE NOT NULL,
+    "last_seen_at" DATE NOT NULL,
+    "lost_at" DATE,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "seo_backlinks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "seo_referring_domains" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "domain" VARCHAR(255) NOT NULL,
+    "domain_rating" DOUBLE PRECISION,
+    "backlinks" INTEGER NOT NULL DEFAULT 0,
+    "dofollow_backlinks" INTEGER NOT NULL DEFAULT 0,
+    "first_seen_at" DATE,
+    "found_at" DATE NOT NULL,
+    "last_seen_at" DATE NOT NULL,
+    "lost_at" DATE,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "seo_referring_domains_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "seo_offpage_imports" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "type" VARCHAR(30) NOT NULL,
+    "source" VARCHAR(20) NOT NULL,
+    "date" DATE NOT NULL,
+    "file_name" VARCHAR(255),
+    "created_by" UUID,
+    "total_rows" INTEGER NOT NULL DEFAULT 0,
+    "imported_rows" INTEGER NOT NULL DEFAULT 0,
+    "duplicate_rows" INTEGER NOT NULL DEFAULT 0,
+    "skipped_rows" INTEGER NOT NULL DEFAULT 0,
+    "new_count" INTEGER NOT NULL DEFAULT 0,
+    "lost_count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "seo_offpage_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_seo_backlinks_tenant_lost" ON "seo_backlinks"("tenant_id", "lost_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seo_backlinks_tenant_id_link_hash_key" ON "seo_backlinks"("tenant_id", "link_hash");
+
+-- CreateIndex
+CREATE INDEX "idx_seo_ref_domains_tenant_lost" ON "seo_referring_domains"("tenant_id", "lost_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seo_referring_domains_tenant_id_domain_key" ON "seo_referring_domains"("tenant_id", "domain");
+
+-- CreateIndex
+CREATE INDEX "idx_seo_offpage_imports_tenant_type_date" ON "seo_offpage_imports"("tenant_id", "type", "date");
+
+-- AddForeignKey
+ALTER TABLE "seo_backlinks" ADD CONSTRAINT "seo_backlinks_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "seo_referring_domains" ADD CONSTRAINT "seo_referring_domains_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "seo_offpage_imports" ADD CONSTRAINT "seo_offpage_imports_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- AlterEnum
+ALTER TYPE "ad_platform" ADD VALUE 'offline';
+
+-- AlterTable
+ALTER TABLE "metrics" ADD COLUMN     "import_batch_id" UUID;
+
+-- CreateTable
+CREATE TABLE "metric_import_templates" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "mapping" JSONB NOT NULL,
+    "defaults" JSONB,
+    "created_by" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "metric_import_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "metric_import_batches" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "template_id" UUID,
+    "file_name" VARCHAR(255),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'completed',
+    "created_by" UUID,
+    "total_rows" INTEGER NOT NULL DEFAULT 0,
+    "created_rows" INTEGER NOT NULL DEFAULT 0,
+    "updated_rows" INTEGER NOT NULL DEFAULT 0,
+    "skipped_rows" INTEGER NOT NULL DEFAULT 0,
+    "replaced" JSONB,
+    "created_campaign_ids" UUID[] DEFAULT ARRAY[]::UUID[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rolled_back_at" TIMESTAMP(3),
+    "rolled_back_by" UUID,
+
+    CONSTRAINT "metric_import_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "metric_import_templates_tenant_id_name_key" ON "metric_import_templates"("tenant_id", "name");
+
+-- CreateIndex
+CREATE INDEX "idx_metric_import_batches_tenant_created" ON "metric_import_batches"("tenant_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_metrics_import_batch" ON "metrics"("import_batch_id");
+
+-- AddForeignKey
+ALTER TABLE "metrics" ADD CONSTRAINT "metrics_import_batch_id_fkey" FOREIGN KEY ("import_batch_id") REFERENCES "metric_import_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "metric_import_templates" ADD CONSTRAINT "metric_import_templates_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "metric_import_batches" ADD CONSTRAINT "metric_import_batches_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "metric_import_batches" ADD CONSTRAINT "metric_import_batches_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "metric_import_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "ad_platform" ADD VALUE 'search_console';
+
+-- AlterTable
+ALTER TABLE "google_ads_accounts" ALTER COLUMN "access_token" DROP NOT NULL,
+ALTER COLUMN "refresh_token" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "google_analytics_accounts" ALTER COLUMN "access_token" DROP NOT NULL,
+ALTER COLUMN "refresh_token" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "search_console_accounts" ALTER COLUMN "refresh_token" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "facebook_ads_accounts" ALTER COLUMN "access_token" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "tiktok_ads_accounts" ALTER COLUMN "access_token" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "shopee_accounts" ALTER COLUMN "access_token" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "lazada_accounts" ALTER COLUMN "access_token" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "platform_tokens" ADD COLUMN     "data_key" TEXT,
+ADD COLUMN     "key_id" VARCHAR(50),
+ADD COLUMN     "secret" TEXT,
+ALTER COLUMN "access_token" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "idx_platform_tokens_key" ON "platform_tokens"("key_id");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "platform_tokens" ADD COLUMN     "failure_reason" VARCHAR(20),
+ADD COLUMN     "reauth_notified_at" TIMESTAMP(3);
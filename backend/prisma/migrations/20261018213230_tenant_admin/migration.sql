@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "suspended_at" TIMESTAMP(3),
+ADD COLUMN     "suspended_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "tenant_impersonations" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "admin_user_id" UUID NOT NULL,
+    "reason" TEXT NOT NULL,
+    "ip_address" VARCHAR(45),
+    "user_agent" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+
+    CONSTRAINT "tenant_impersonations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_tenant_impersonations_tenant" ON "tenant_impersonations"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "idx_tenant_impersonations_admin" ON "tenant_impersonations"("admin_user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_tenants_deleted" ON "tenants"("deleted_at");
+
+-- AddForeignKey
+ALTER TABLE "tenant_impersonations" ADD CONSTRAINT "tenant_impersonations_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tenant_impersonations" ADD CONSTRAINT "tenant_impersonations_admin_user_id_fkey" FOREIGN KEY ("admin_user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "billing_customer_id" VARCHAR(255),
+ADD COLUMN     "subscription_reminder_days" INTEGER;
+
+-- CreateTable
+CREATE TABLE "billing_events" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "provider" VARCHAR(50) NOT NULL,
+    "event_id" VARCHAR(255) NOT NULL,
+    "type" VARCHAR(100) NOT NULL,
+    "tenant_id" UUID,
+    "payload" JSONB NOT NULL,
+    "occurred_at" TIMESTAMP(3),
+    "processed_at" TIMESTAMP(3),
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "billing_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_billing_events_tenant" ON "billing_events"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "billing_events_provider_event_id_key" ON "billing_events"("provider", "event_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenants_billing_customer_id_key" ON "tenants"("billing_customer_id");
+
+-- AddForeignKey
+ALTER TABLE "billing_events" ADD CONSTRAINT "billing_events_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "integration_limit_pauses" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tenant_id" UUID NOT NULL,
+    "platform" VARCHAR(50) NOT NULL,
+    "account_id" UUID NOT NULL,
+    "previous_status" VARCHAR(50) NOT NULL,
+    "paused_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "integration_limit_pauses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_integration_limit_pauses_tenant" ON "integration_limit_pauses"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "integration_limit_pauses_platform_account_id_key" ON "integration_limit_pauses"("platform", "account_id");
+
+-- AddForeignKey
+ALTER TABLE "integration_limit_pauses" ADD CONSTRAINT "integration_limit_pauses_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -353,8 +353,6 @@ async function main() {
       tenantId: tenant.id,
       customerId: '123-456-7890',
       accountName: 'RGA Main Account',
-      accessToken: 'mock_token',
-      refreshToken: 'mock_refresh',
     },
   });
 
@@ -374,7 +372,6 @@ async function main() {
       tenantId: tenant.id,
       accountId: 'act_123456789',
       accountName: 'RGA Facebook Main',
-      accessToken: 'mock_token',
     },
   });
 
@@ -384,7 +381,6 @@ async function main() {
       tenantId: tenant.id,
       advertiserId: '7123456789012345678',
       accountName: 'RGA TikTok Ads',
-      accessToken: 'mock_token',
     },
   });
 
@@ -394,7 +390,6 @@ async function main() {
       tenantId: tenant.id,
       channelId: '1654321098',
       channelName: 'RGA LINE Official',
-      accessToken: 'mock_token',
     },
   });
 
@@ -569,8 +564,6 @@ async function main() {
       tenantId: tenant.id,
       propertyId: 'GA4-987654321',
       propertyName: 'RGA Main Property',
-      accessToken: 'mock_ga_token',
-      refreshToken: 'mock_ga_refresh',
     },
   });
 
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { ResponseTransformInterceptor } from './common/interceptors/response-transform.interceptor';
+import { SubscriptionAccessInterceptor } from './common/interceptors/subscription-access.interceptor';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
 import { ScheduleModule } from '@nestjs/schedule';
 import { LoggerModule } from 'nestjs-pino';
@@ -11,9 +12,11 @@ import { AppService } from './app.service';
 import { PrismaModule } from './modules/prisma/prisma.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
+import { RolesModule } from './modules/roles/roles.module';
 import { CampaignsModule } from './modules/campaigns/campaigns.module';
 import { AdGroupsModule } from './modules/ad-groups/ad-groups.module';
 import { DashboardModule } from './modules/dashboard/dashboard.module';
+import { CrmModule } from './modules/crm/crm.module';
 import { GoogleAdsModule } from './modules/integrations/google-ads/google-ads.module';
 import { AuditLogsModule } from './modules/audit-logs/audit-logs.module';
 
@@ -22,6 +25,8 @@ import { FacebookAdsModule } from './modules/integrations/facebook/facebook-ads.
 import { GoogleAnalyticsModule } from './modules/integrations/google-analytics/google-analytics.module';
 import { TikTokAdsModule } from './modules/integrations/tiktok/tiktok-ads.module';
 import { LineAdsModule } from './modules/integrations/line-ads/line-ads.module';
+import { ShopeeModule } from './modules/integrations/shopee/shopee.module';
+import { LazadaModule } from './modules/integrations/lazada/lazada.module';
 import { AlertModule } from './modules/alerts/alert.module';
 import { SeoModule } from './modules/seo/seo.module';
 import { HealthModule } from './modules/health/health.module';
@@ -29,9 +34,16 @@ import { NotificationModule } from './modules/notification/notification.module';
 import { envValidationSchema } from './config/env.validation';
 import { CommonModule } from './common/common.module';
 import { EntitlementsModule } from './modules/entitlements/entitlements.module';
+import { SubscriptionModule } from './modules/subscription/subscription.module';
+import { CurrencyModule } from './modules/currency/currency.module';
 import { ChatModule } from './modules/chat/chat.module';
 import { AiModule } from './modules/ai/ai.module';
 import { IntegrationsSummaryModule } from './modules/integrations/integrations-summary.module';
+import { TokenHealthModule } from './modules/integrations/token-health/token-health.module';
+import { ReportsModule } from './modules/reports/reports.module';
+import { MetricImportsModule } from './modules/metric-imports/metric-imports.module';
+import { CredentialVaultModule } from './modules/credential-vault/credential-vault.module';
+import { AdminModule } from './modules/admin/admin.module';
 
 
 @Module({
@@ -76,9 +88,11 @@ import { IntegrationsSummaryModule } from './modules/integrations/integrations-s
     PrismaModule,
     AuthModule,
     UsersModule,
+    RolesModule,
     CampaignsModule,
     AdGroupsModule,
     DashboardModule,
+    CrmModule,
     GoogleAdsModule,
     AuditLogsModule,
     GoogleAnalyticsModule,
@@ -86,15 +100,24 @@ import { IntegrationsSummaryModule } from './modules/integrations/integrations-s
     FacebookAdsModule,
     TikTokAdsModule,
     LineAdsModule,
+    ShopeeModule,
+    LazadaModule,
     IntegrationsSummaryModule,
+    TokenHealthModule, // Token refresh & re-auth notices
     AlertModule, // Alert System
     SeoModule,
     HealthModule, // Health Check
     NotificationModule, // Notification System (Sprint 4)
     ChatModule, // Chat Persistence System
     AiModule, // AI Analytics & History
+    ReportsModule, // Scheduled Reports
     CommonModule, // Shared Services (Encryption, etc.)
+    CredentialVaultModule, // Encrypted platform tokens
+    AdminModule, // Super-admin tenant console
     EntitlementsModule,
+    SubscriptionModule, // Trial, expiry & billing webhooks
+    CurrencyModule,
+    MetricImportsModule,
 
     // eslint-disable-next-line @typescript-eslint/no-var-requires
     ...(process.env.NODE_ENV !== 'production' ? [require('./modules/debug/debug.module').DebugModule] : []),
@@ -110,6 +133,10 @@ import { IntegrationsSummaryModule } from './modules/integrations/integrations-s
       provide: APP_INTERCEPTOR,
       useClass: ResponseTransformInterceptor,
     },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: SubscriptionAccessInterceptor,
+    },
   ],
 })
 export class AppModule { }
@@ -1,10 +1,11 @@
 import { Global, Module } from '@nestjs/common';
 import { EncryptionService } from './services/encryption.service';
 import { MailService } from './services/mail.service';
+import { TenantTimezoneService } from './services/tenant-timezone.service';
 
 @Global()
 @Module({
-    providers: [EncryptionService, MailService],
-    exports: [EncryptionService, MailService],
+    providers: [EncryptionService, MailService, TenantTimezoneService],
+    exports: [EncryptionService, MailService, TenantTimezoneService],
 })
 export class CommonModule { }
@@ -27,6 +27,15 @@ export const SYNC_DEFAULTS = {
     PAGE_SIZE: 1000,
 } as const;
 
+// ============================================
+// Scheduled Jobs
+// ============================================
+/**
+ * Tenant ที่ job ตามตาราง (sync, refresh token, alert) ทำงานให้
+ * ข้าม tenant ที่ถูกลบหรือถูกระงับ - เมื่อยกเลิกการระงับ incremental sync จะดึงข้อมูลที่ขาดไปจาก cursor
+ */
+export const ACTIVE_TENANT_WHERE = { deletedAt: null, suspendedAt: null } as const;
+
 // ============================================
 // Health Check
 // ============================================
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_WHEN_READ_ONLY_KEY = 'allow_when_read_only';
+
+/**
+ * Let changes through while the tenant's subscription is read-only or lapsed
+ * (sign-in, security settings, billing)
+ */
+export const AllowWhenReadOnly = () => SetMetadata(ALLOW_WHEN_READ_ONLY_KEY, true);
@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { resolveCampaignScope } from '../utils/campaign-scope.util';
+
+/**
+ * Campaign filter for the current user (undefined = all tenant campaigns)
+ */
+export const CurrentCampaignScope = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+    return request.user ? resolveCampaignScope(request.user) : undefined;
+  },
+);
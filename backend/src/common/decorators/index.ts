@@ -1,3 +1,6 @@
 ﻿export * from './roles.decorator';
 export * from './current-user.decorator';
-
+export * from './require-permissions.decorator';
+export * from './campaign-scope.decorator';
+export * from './require-entitlements.decorator';
+export * from './allow-when-read-only.decorator';
@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Permission } from '../../modules/roles/permissions';
+
+export const REQUIRE_PERMISSIONS_KEY = 'require_permissions';
+
+export const REQUIRE_ANY_PERMISSION_KEY = 'require_any_permission';
+
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(REQUIRE_PERMISSIONS_KEY, permissions);
+
+/**
+ * Passes when the user holds at least one of the permissions
+ * (checked in addition to @RequirePermissions)
+ */
+export const RequireAnyPermission = (...permissions: Permission[]) =>
+  SetMetadata(REQUIRE_ANY_PERMISSION_KEY, permissions);
@@ -135,6 +135,8 @@ export class GlobalExceptionFilter implements ExceptionFilter {
                 return 'BAD_REQUEST';
             case HttpStatus.UNAUTHORIZED:
                 return 'UNAUTHORIZED';
+            case HttpStatus.PAYMENT_REQUIRED:
+                return 'PAYMENT_REQUIRED';
             case HttpStatus.FORBIDDEN:
                 return 'FORBIDDEN';
             case HttpStatus.NOT_FOUND:
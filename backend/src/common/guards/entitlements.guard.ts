@@ -1,7 +1,6 @@
 import {
   CanActivate,
   ExecutionContext,
-  ForbiddenException,
   Injectable,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
@@ -9,6 +8,10 @@ import { REQUIRE_ENTITLEMENTS_KEY } from '../decorators/require-entitlements.dec
 import type { EntitlementKey } from '../../modules/entitlements/entitlements.types';
 import { EntitlementsService } from '../../modules/entitlements/entitlements.service';
 
+/**
+ * Enforces @RequireEntitlements against the tenant's plan. Must run after the
+ * JWT guard; failures are structured 402 responses (see entitlements.exception).
+ */
 @Injectable()
 export class EntitlementsGuard implements CanActivate {
   constructor(
@@ -26,19 +29,11 @@ export class EntitlementsGuard implements CanActivate {
 
     const request = context.switchToHttp().getRequest();
     const user = request.user;
-    const tenant = user?.tenant;
 
-    const resolved = this.entitlements.buildEntitlements({
-      plan: tenant?.subscriptionPlan,
-      status: tenant?.subscriptionStatus,
-      endsAt: tenant?.subscriptionEndsAt,
-    });
-
-    const missing = required.filter((key) => !resolved.enabled[key]);
-    if (missing.length > 0) {
-      throw new ForbiddenException(`Missing entitlements: ${missing.join(', ')}`);
-    }
+    // Authentication is the JWT guard's job (optional-auth routes reject guests themselves)
+    if (!user) return true;
 
+    this.entitlements.assertEnabled(user.tenant, required);
     return true;
   }
 }
@@ -1,2 +1,3 @@
 ﻿export * from './roles.guard';
-
+export * from './permissions.guard';
+export * from './entitlements.guard';
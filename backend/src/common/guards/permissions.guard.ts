@@ -0,0 +1,41 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { REQUIRE_ANY_PERMISSION_KEY, REQUIRE_PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { Permission, resolvePermissions } from '../../modules/roles/permissions';
+
+/**
+ * Checks @RequirePermissions (all of) and @RequireAnyPermission (one of)
+ * against the user's custom role.
+ * Relies on JwtStrategy loading `customRole` onto request.user.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    const required = this.reflector.getAllAndOverride<Permission[]>(REQUIRE_PERMISSIONS_KEY, targets) ?? [];
+    const anyOf = this.reflector.getAllAndOverride<Permission[]>(REQUIRE_ANY_PERMISSION_KEY, targets) ?? [];
+
+    if (required.length === 0 && anyOf.length === 0) return true;
+
+    const { user } = context.switchToHttp().getRequest();
+    if (!user) return false;
+
+    const granted = resolvePermissions(user);
+    const missing = required.filter((permission) => !granted.has(permission));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Missing permissions: ${missing.join(', ')}`);
+    }
+    if (anyOf.length > 0 && !anyOf.some((permission) => granted.has(permission))) {
+      throw new ForbiddenException(`Missing permissions: one of ${anyOf.join(', ')}`);
+    }
+
+    return true;
+  }
+}
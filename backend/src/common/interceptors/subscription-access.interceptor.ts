@@ -0,0 +1,44 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '@prisma/client';
+import { Observable } from 'rxjs';
+import { ALLOW_WHEN_READ_ONLY_KEY } from '../decorators/allow-when-read-only.decorator';
+import { EntitlementsService } from '../../modules/entitlements/entitlements.service';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Read-only grace mode: once a tenant's subscription has ended, requests that
+ * change data are rejected with a 402 while reads keep working.
+ * Runs as an interceptor because global guards run before the JWT guard sets
+ * request.user.
+ */
+@Injectable()
+export class SubscriptionAccessInterceptor implements NestInterceptor {
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly entitlements: EntitlementsService,
+    ) { }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+        const request = context.switchToHttp().getRequest();
+        const user = request?.user;
+
+        // Guests, super admins and support sessions are not bound to the tenant's subscription
+        if (!user?.tenant || user.role === UserRole.SUPER_ADMIN || user.impersonation) {
+            return next.handle();
+        }
+        if (READ_METHODS.includes(request.method)) {
+            return next.handle();
+        }
+
+        const allowed = this.reflector.getAllAndOverride<boolean>(ALLOW_WHEN_READ_ONLY_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        if (!allowed) {
+            this.entitlements.assertWritable(user.tenant);
+        }
+        return next.handle();
+    }
+}
@@ -27,7 +27,12 @@ export class MailService {
     });
   }
 
-  async sendMail(params: { to: string; subject: string; html: string }) {
+  async sendMail(params: {
+    to: string;
+    subject: string;
+    html: string;
+    attachments?: Array<{ filename: string; content: Buffer; contentType?: string }>;
+  }) {
     const from = this.config.get<string>('SMTP_FROM') || this.config.get<string>('SMTP_USER');
     if (!from) {
       throw new Error('SMTP_FROM is not configured');
@@ -39,6 +44,7 @@ export class MailService {
       to: params.to,
       subject: params.subject,
       html: params.html,
+      attachments: params.attachments,
     });
 
     this.logger.log(`Email sent to ${params.to} (messageId=${info.messageId})`);
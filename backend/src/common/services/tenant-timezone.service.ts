@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../modules/prisma/prisma.service';
+import { TimezoneUtil } from '../utils/timezone.util';
+
+/**
+ * Resolves the timezone a tenant's dates are bucketed in (Tenant.timezone)
+ */
+@Injectable()
+export class TenantTimezoneService {
+    constructor(private readonly prisma: PrismaService) { }
+
+    /**
+     * The tenant's IANA timezone, or the default when unset or not recognised
+     */
+    async getTimezone(tenantId: string): Promise<string> {
+        const tenant = await this.prisma.tenant.findUnique({
+            where: { id: tenantId },
+            select: { timezone: true },
+        });
+        return TimezoneUtil.resolve(tenant?.timezone);
+    }
+}
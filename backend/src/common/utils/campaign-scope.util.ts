@@ -0,0 +1,102 @@
+import { AdPlatform, Campaign, Prisma, UserRole } from '@prisma/client';
+
+/**
+ * Campaign visibility for a user.
+ * `undefined` means unrestricted (tenant-wide); otherwise a Campaign filter to AND into queries.
+ */
+export type CampaignScope = Prisma.CampaignWhereInput | undefined;
+
+/** Roles that can be limited to a subset of campaigns / ad accounts */
+export const CAMPAIGN_SCOPED_ROLES: UserRole[] = [UserRole.CLIENT, UserRole.VIEWER];
+
+type CampaignAccountField =
+    | 'googleAdsAccountId'
+    | 'facebookAdsAccountId'
+    | 'tiktokAdsAccountId'
+    | 'lineAdsAccountId'
+    | 'shopeeAccountId'
+    | 'lazadaAccountId';
+
+/** Campaign column holding the ad account for each platform */
+export const ACCOUNT_FIELD_BY_PLATFORM: Partial<Record<AdPlatform, CampaignAccountField>> = {
+    [AdPlatform.GOOGLE_ADS]: 'googleAdsAccountId',
+    [AdPlatform.FACEBOOK]: 'facebookAdsAccountId',
+    [AdPlatform.TIKTOK]: 'tiktokAdsAccountId',
+    [AdPlatform.LINE_ADS]: 'lineAdsAccountId',
+    [AdPlatform.SHOPEE]: 'shopeeAccountId',
+    [AdPlatform.LAZADA]: 'lazadaAccountId',
+};
+
+export interface CampaignScopeEntry {
+    campaignId: string | null;
+    platform: AdPlatform | null;
+    accountId: string | null;
+}
+
+/**
+ * Build the campaign filter for an authenticated user (JwtStrategy loads `campaignScopes`)
+ */
+export function resolveCampaignScope(user: {
+    role: UserRole | string;
+    campaignScopes?: CampaignScopeEntry[] | null;
+}): CampaignScope {
+    const entries = user?.campaignScopes ?? [];
+    if (!CAMPAIGN_SCOPED_ROLES.includes(user?.role as UserRole) || entries.length === 0) {
+        return undefined;
+    }
+
+    const campaignIds = entries.filter((e) => e.campaignId).map((e) => e.campaignId as string);
+    const accountsByField = new Map<string, string[]>();
+    for (const entry of entries) {
+        const field = entry.platform && ACCOUNT_FIELD_BY_PLATFORM[entry.platform];
+        if (!field || !entry.accountId) continue;
+        accountsByField.set(field, [...(accountsByField.get(field) ?? []), entry.accountId]);
+    }
+
+    const or: Prisma.CampaignWhereInput[] = [];
+    if (campaignIds.length > 0) or.push({ id: { in: campaignIds } });
+    accountsByField.forEach((ids, field) => or.push({ [field]: { in: ids } }));
+
+    // Scope rows that no longer match anything must not widen access
+    return or.length > 0 ? { OR: or } : { id: { in: [] } };
+}
+
+export function scopeCampaignWhere(
+    where: Prisma.CampaignWhereInput,
+    scope: CampaignScope,
+): Prisma.CampaignWhereInput {
+    return scope ? { AND: [where, scope] } : where;
+}
+
+/**
+ * Spread into where clauses of campaign-level rows (metrics, alerts, ...) so only
+ * rows of in-scope campaigns match, e.g. `{ tenantId, ...campaignRelationScope(scope) }`
+ */
+export function campaignRelationScope(scope: CampaignScope): { campaign?: Prisma.CampaignWhereInput } {
+    return scope ? { campaign: scope } : {};
+}
+
+/**
+ * Users allowed to hear about a campaign (alert notifications, deliveries):
+ * unscoped users, plus scoped users assigned to the campaign or its ad account.
+ * A null campaign (tenant-level alert) only reaches unscoped users.
+ */
+export function campaignAudienceWhere(
+    campaign: Pick<Campaign, 'id' | CampaignAccountField> | null,
+): Prisma.UserWhereInput {
+    const matches: Prisma.UserCampaignScopeWhereInput[] = [];
+    if (campaign) {
+        matches.push({ campaignId: campaign.id });
+        for (const [platform, field] of Object.entries(ACCOUNT_FIELD_BY_PLATFORM)) {
+            if (campaign[field]) matches.push({ platform: platform as AdPlatform, accountId: campaign[field] });
+        }
+    }
+
+    return {
+        OR: [
+            { role: { notIn: CAMPAIGN_SCOPED_ROLES } },
+            { campaignScopes: { none: {} } },
+            ...(matches.length > 0 ? [{ campaignScopes: { some: { OR: matches } } }] : []),
+        ],
+    };
+}
@@ -0,0 +1,105 @@
+/**
+ * CSV helpers shared by the file imports (leads, SEO exports, offline metrics)
+ */
+
+const DELIMITERS = [',', '\t', ';'] as const;
+
+/**
+ * Decode an uploaded file. Honours UTF-16 byte order marks, which Ahrefs uses for
+ * its "Excel" exports; everything else is read as UTF-8.
+ */
+export function decodeCsvBuffer(buffer: Buffer): string {
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+        return buffer.subarray(2).toString('utf16le');
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+        // Node has no utf16be decoder: swap to little-endian first
+        const body = Buffer.from(buffer.subarray(2));
+        return body.swap16().toString('utf16le');
+    }
+    return buffer.toString('utf8');
+}
+
+/**
+ * Pick the delimiter that splits the header line into the most columns
+ */
+export function detectDelimiter(text: string): string {
+    const header = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] ?? '';
+    let best: string = ',';
+    let bestCount = 0;
+    for (const delimiter of DELIMITERS) {
+        const count = header.split(delimiter).length - 1;
+        if (count > bestCount) {
+            best = delimiter;
+            bestCount = count;
+        }
+    }
+    return best;
+}
+
+/**
+ * Normalize a header/field name: "Referring page URL" / "referringPageUrl" → "referring_page_url"
+ */
+export function normalizeFieldKey(key: string): string {
+    return key
+        .trim()
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_|_$/g, '');
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF).
+ * Returns one object per data row keyed by the header row. The delimiter is
+ * detected from the header unless given.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const content = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...data] = rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+    if (!header) return [];
+
+    return data.map((cells) =>
+        Object.fromEntries(header.map((key, index) => [key.trim(), cells[index] ?? ''])),
+    );
+}
@@ -0,0 +1,89 @@
+/**
+ * Tenant Calendar Date Range Unit Tests
+ * @module date-range.util.spec
+ * @description Day boundaries follow the tenant timezone, not the server clock:
+ *   - "Today" flips at local midnight in the tenant timezone
+ *   - Month periods use the tenant's current month
+ *   - Calendar bounds convert to the instants they start and end at (DST included)
+ *   - Instants are bucketed onto the tenant's calendar day
+ */
+
+import { DateRangeUtil } from './date-range.util';
+import { PeriodEnum } from '../../modules/dashboard/dto/dashboard-overview.dto';
+
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+describe('DateRangeUtil', () => {
+    describe('getDateRange', () => {
+        it('should end on today in the tenant timezone', () => {
+            // 2026-03-10 03:00 UTC is still 2026-03-09 in New York, already 2026-03-10 in Bangkok
+            const now = new Date('2026-03-10T03:00:00Z');
+
+            const ny = DateRangeUtil.getDateRange(7, 'America/New_York', now);
+            expect(day(ny.startDate)).toBe('2026-03-03');
+            expect(ny.endDate.toISOString()).toBe('2026-03-09T23:59:59.999Z');
+
+            const bkk = DateRangeUtil.getDateRange(7, 'Asia/Bangkok', now);
+            expect(day(bkk.startDate)).toBe('2026-03-04');
+            expect(day(bkk.endDate)).toBe('2026-03-10');
+        });
+
+        it('should default to Asia/Bangkok', () => {
+            const now = new Date('2026-03-09T17:00:00Z');
+
+            expect(day(DateRangeUtil.getDateRange(1, undefined, now).endDate)).toBe('2026-03-10');
+        });
+    });
+
+    describe('getDateRangeByPeriod', () => {
+        it('should use the tenant month on the first of the month', () => {
+            // 2026-04-01 02:00 UTC is 2026-03-31 in New York
+            const now = new Date('2026-04-01T02:00:00Z');
+
+            const thisMonth = DateRangeUtil.getDateRangeByPeriod(PeriodEnum.THIS_MONTH, 'America/New_York', now);
+            expect(day(thisMonth.startDate)).toBe('2026-03-01');
+            expect(day(thisMonth.endDate)).toBe('2026-03-31');
+
+            const lastMonth = DateRangeUtil.getDateRangeByPeriod(PeriodEnum.LAST_MONTH, 'America/New_York', now);
+            expect(day(lastMonth.startDate)).toBe('2026-02-01');
+            expect(day(lastMonth.endDate)).toBe('2026-02-28');
+
+            const bkk = DateRangeUtil.getDateRangeByPeriod(PeriodEnum.THIS_MONTH, 'Asia/Bangkok', now);
+            expect(day(bkk.startDate)).toBe('2026-04-01');
+        });
+    });
+
+    describe('toInstantRange', () => {
+        it('should map calendar bounds to local midnight instants', () => {
+            const range = DateRangeUtil.toInstantRange(
+                { startDate: new Date('2026-03-10T00:00:00Z'), endDate: new Date('2026-03-10T23:59:59.999Z') },
+                'Asia/Bangkok',
+            );
+
+            expect(range.startDate.toISOString()).toBe('2026-03-09T17:00:00.000Z');
+            expect(range.endDate.toISOString()).toBe('2026-03-10T16:59:59.999Z');
+        });
+
+        it('should follow the offset change on a DST day', () => {
+            // New York springs forward on 2026-03-08: EST (-05:00) before, EDT (-04:00) after
+            const range = DateRangeUtil.toInstantRange(
+                { startDate: new Date('2026-03-08T00:00:00Z'), endDate: new Date('2026-03-08T23:59:59.999Z') },
+                'America/New_York',
+            );
+
+            expect(range.startDate.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+            expect(range.endDate.toISOString()).toBe('2026-03-09T03:59:59.999Z');
+        });
+    });
+
+    describe('toDayKey', () => {
+        it('should bucket instants on the tenant calendar day', () => {
+            const instant = new Date('2026-03-10T16:59:59Z');
+
+            expect(DateRangeUtil.toDayKey(instant, 'Asia/Bangkok')).toBe('2026-03-10');
+            expect(DateRangeUtil.toDayKey(new Date('2026-03-10T17:00:00Z'), 'Asia/Bangkok')).toBe('2026-03-11');
+            expect(DateRangeUtil.toDayKey(instant, 'America/New_York')).toBe('2026-03-10');
+            expect(DateRangeUtil.toDayKey(new Date('2026-03-10T03:59:59Z'), 'America/New_York')).toBe('2026-03-09');
+        });
+    });
+});
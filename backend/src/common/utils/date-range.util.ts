@@ -1,30 +1,44 @@
 import { PeriodEnum } from '../../modules/dashboard/dto/dashboard-overview.dto';
+import { TimezoneUtil } from './timezone.util';
 
+/**
+ * Date ranges on the tenant's calendar.
+ *
+ * "Today" is the current date in `timezone` (default Asia/Bangkok), not the server's.
+ * Bounds are UTC midnight / 23:59:59.999 of those calendar days, which is how
+ * Prisma `@db.Date` columns are compared; use toInstantRange for DateTime columns.
+ */
 export class DateRangeUtil {
     /**
      * Get date range based on PeriodEnum (supports 7d, 30d, this_month, last_month)
      */
-    static getDateRangeByPeriod(period: PeriodEnum): { startDate: Date; endDate: Date } {
-        const now = new Date();
+    static getDateRangeByPeriod(
+        period: PeriodEnum,
+        timezone?: string | null,
+        now: Date = new Date(),
+    ): { startDate: Date; endDate: Date } {
+        const today = TimezoneUtil.getZonedToday(timezone, now);
+        const y = today.getUTCFullYear();
+        const m = today.getUTCMonth();
 
         switch (period) {
             case PeriodEnum.THIS_MONTH: {
                 // First day of current month to today
-                const startDate = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1, 0, 0, 0, 0));
-                const endDate = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999));
+                const startDate = new Date(Date.UTC(y, m, 1, 0, 0, 0, 0));
+                const endDate = new Date(Date.UTC(y, m, today.getUTCDate(), 23, 59, 59, 999));
                 return { startDate, endDate };
             }
             case PeriodEnum.LAST_MONTH: {
                 // First to last day of previous month
-                const startDate = new Date(Date.UTC(now.getFullYear(), now.getMonth() - 1, 1, 0, 0, 0, 0));
-                const endDate = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 0, 23, 59, 59, 999));
+                const startDate = new Date(Date.UTC(y, m - 1, 1, 0, 0, 0, 0));
+                const endDate = new Date(Date.UTC(y, m, 0, 23, 59, 59, 999));
                 return { startDate, endDate };
             }
             case PeriodEnum.THIRTY_DAYS:
-                return this.getDateRange(30);
+                return this.getDateRange(30, timezone, now);
             case PeriodEnum.SEVEN_DAYS:
             default:
-                return this.getDateRange(7);
+                return this.getDateRange(7, timezone, now);
         }
     }
 
@@ -63,19 +77,45 @@ export class DateRangeUtil {
     }
 
     /**
-     * Get start and end dates for a given number of days
+     * Get start and end dates for the last `days` days, ending today in the timezone
      * Uses UTC dates for consistent Prisma/PostgreSQL matching
      */
-    static getDateRange(days: number): { startDate: Date; endDate: Date } {
-        const now = new Date();
-        const endDate = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999));
+    static getDateRange(
+        days: number,
+        timezone?: string | null,
+        now: Date = new Date(),
+    ): { startDate: Date; endDate: Date } {
+        const today = TimezoneUtil.getZonedToday(timezone, now);
+        const endDate = new Date(today);
+        endDate.setUTCHours(23, 59, 59, 999);
 
-        const startDate = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0));
+        const startDate = new Date(today);
         startDate.setUTCDate(startDate.getUTCDate() - (days - 1));
 
         return { startDate, endDate };
     }
 
+    /**
+     * Convert calendar-day bounds (from the methods above) into the instants they
+     * start and end at in the timezone, for filtering DateTime columns
+     */
+    static toInstantRange(
+        range: { startDate: Date; endDate: Date },
+        timezone?: string | null,
+    ): { startDate: Date; endDate: Date } {
+        return {
+            startDate: TimezoneUtil.fromWallClock(range.startDate, timezone),
+            endDate: TimezoneUtil.fromWallClock(range.endDate, timezone),
+        };
+    }
+
+    /**
+     * Calendar day (YYYY-MM-DD) an instant falls on in the timezone
+     */
+    static toDayKey(instant: Date, timezone?: string | null): string {
+        return TimezoneUtil.getZonedToday(timezone, instant).toISOString().split('T')[0];
+    }
+
     /**
      * Get previous period date range for comparison
      */
@@ -0,0 +1,117 @@
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import { Agent } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+/**
+ * Guards for URLs the server calls on a tenant's behalf (alert webhooks)
+ *
+ * Only https is allowed, and the host must not resolve to loopback, private,
+ * link-local or other non-public addresses, so a configured URL cannot reach
+ * cloud metadata endpoints or services inside our network.
+ */
+
+/** Error code of connections refused by publicOnlyLookup */
+export const UNSAFE_ADDRESS_CODE = 'EUNSAFEADDRESS';
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], // "this" network
+    ['10.0.0.0', 8], // private
+    ['100.64.0.0', 10], // carrier-grade NAT
+    ['127.0.0.0', 8], // loopback
+    ['169.254.0.0', 16], // link-local, cloud metadata
+    ['172.16.0.0', 12], // private
+    ['192.0.0.0', 24], // IETF protocol assignments
+    ['192.168.0.0', 16], // private
+    ['198.18.0.0', 15], // benchmarking
+    ['224.0.0.0', 4], // multicast
+    ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128], // unspecified
+    ['::1', 128], // loopback
+    ['fc00::', 7], // unique local
+    ['fe80::', 10], // link-local
+    ['ff00::', 8], // multicast
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class UnsafeUrlError extends Error {
+    readonly code = UNSAFE_ADDRESS_CODE;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnsafeUrlError';
+    }
+}
+
+/**
+ * True for addresses that are not publicly routable (IPv4-mapped IPv6 included)
+ */
+export function isNonPublicAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) return true;
+    return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Checks that need no DNS: https scheme, no credentials, and no loopback or
+ * private host literal. Returns the parsed URL.
+ */
+export function assertPublicHttpsUrl(value: string): URL {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        throw new UnsafeUrlError('Invalid URL');
+    }
+
+    if (url.protocol !== 'https:') {
+        throw new UnsafeUrlError('URL must use https');
+    }
+    if (url.username || url.password) {
+        throw new UnsafeUrlError('URL must not contain credentials');
+    }
+
+    const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+        throw new UnsafeUrlError(`Host ${host} is not public`);
+    }
+    if (isIP(host) && isNonPublicAddress(host)) {
+        throw new UnsafeUrlError(`Address ${host} is not public`);
+    }
+
+    return url;
+}
+
+/**
+ * dns.lookup replacement for HTTP agents: fails when any resolved address is
+ * non-public. Runs when the connection is made, so a host that re-resolves to
+ * an internal address after validation is still refused.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+        if (error) {
+            callback(error, []);
+            return;
+        }
+
+        const blocked = addresses.find(({ address }) => isNonPublicAddress(address));
+        if (blocked) {
+            callback(new UnsafeUrlError(`${hostname} resolves to non-public address ${blocked.address}`), []);
+            return;
+        }
+
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+/** HTTPS agent that only connects to public addresses */
+export const publicHttpsAgent = new Agent({ lookup: publicOnlyLookup });
@@ -0,0 +1,101 @@
+/**
+ * Wall-clock parts of an instant as seen in a specific IANA timezone.
+ * `weekday` follows Date#getUTCDay (0 = Sunday).
+ */
+export interface ZonedDateParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    weekday: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+    Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+export class TimezoneUtil {
+    static readonly DEFAULT_TIMEZONE = 'Asia/Bangkok';
+
+    /**
+     * Return a usable IANA timezone, falling back to the default when the
+     * value is empty or not recognised by the runtime.
+     */
+    static resolve(timezone?: string | null): string {
+        if (!timezone) return this.DEFAULT_TIMEZONE;
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+            return timezone;
+        } catch {
+            return this.DEFAULT_TIMEZONE;
+        }
+    }
+
+    /**
+     * Break an instant into wall-clock parts for the given timezone
+     */
+    static getZonedParts(date: Date, timezone?: string | null): ZonedDateParts {
+        const formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: this.resolve(timezone),
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+            weekday: 'short',
+        });
+
+        const parts: Record<string, string> = {};
+        for (const part of formatter.formatToParts(date)) {
+            parts[part.type] = part.value;
+        }
+
+        return {
+            year: Number(parts.year),
+            month: Number(parts.month),
+            day: Number(parts.day),
+            hour: Number(parts.hour),
+            minute: Number(parts.minute),
+            second: Number(parts.second),
+            weekday: WEEKDAY_INDEX[parts.weekday] ?? 0,
+        };
+    }
+
+    /**
+     * Represent the timezone's wall-clock time as a UTC Date.
+     * Useful for calendar arithmetic: two values produced by this method
+     * can be compared and shifted with the setUTC* helpers.
+     */
+    static toWallClock(date: Date, timezone?: string | null): Date {
+        const p = this.getZonedParts(date, timezone);
+        return new Date(Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second));
+    }
+
+    /**
+     * Inverse of toWallClock: the instant at which the wall-clock time
+     * (expressed as a UTC Date) occurs in the timezone.
+     * Used to turn calendar-day bounds into timestamps for DateTime columns.
+     */
+    static fromWallClock(wallClock: Date, timezone?: string | null): Date {
+        const target = wallClock.getTime();
+        const offsetAt = (instant: number) =>
+            Math.round((this.toWallClock(new Date(instant), timezone).getTime() - instant) / 60000) * 60000;
+
+        // Second pass settles instants whose offset differs from the first guess (DST changes)
+        const first = target - offsetAt(target);
+        return new Date(target - offsetAt(first));
+    }
+
+    /**
+     * Today's calendar date in the timezone, as UTC midnight
+     * (the representation used by Prisma `@db.Date` columns)
+     */
+    static getZonedToday(timezone?: string | null, now: Date = new Date()): Date {
+        const p = this.getZonedParts(now, timezone);
+        return new Date(Date.UTC(p.year, p.month - 1, p.day));
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * XLSX Reader Unit Tests
+ * @module xlsx.util.spec
+ * @description Minimal zip / worksheet reader used by file imports:
+ *   - Shared and inline strings are read from the first worksheet
+ *   - Entries declaring more than the size cap are refused before inflating
+ *   - Entries that inflate past the cap are refused even when the declared size lies
+ */
+
+import { deflateRawSync } from 'zlib';
+import { MAX_XLSX_ENTRY_BYTES, parseXlsx } from './xlsx.util';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+interface ZipEntry {
+    name: string;
+    content: Buffer;
+    /** Override the uncompressed size written to the central directory */
+    declaredSize?: number;
+}
+
+/**
+ * Build a zip archive with deflated entries
+ */
+const buildZip = (entries: ZipEntry[]): Buffer => {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const { name, content, declaredSize } of entries) {
+        const nameBuffer = Buffer.from(name, 'utf8');
+        const data = deflateRawSync(content);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(content.length, 22);
+        local.writeUInt16LE(nameBuffer.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(declaredSize ?? content.length, 24);
+        central.writeUInt16LE(nameBuffer.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, nameBuffer, data);
+        centrals.push(central, nameBuffer);
+        offset += local.length + nameBuffer.length + data.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(entries.length, 8);
+    eocd.writeUInt16LE(entries.length, 10);
+    eocd.writeUInt32LE(directory.length, 12);
+    eocd.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, eocd]);
+};
+
+const sheet = (rows: string) => Buffer.from(`<worksheet><sheetData>${rows}</sheetData></worksheet>`);
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('xlsx.util', () => {
+    describe('parseXlsx', () => {
+        it('should read the first worksheet keyed by the header row', () => {
+            const file = buildZip([
+                { name: 'xl/sharedStrings.xml', content: Buffer.from('<sst><si><t>date</t></si><si><t>spend</t></si></sst>') },
+                {
+                    name: 'xl/worksheets/sheet1.xml',
+                    content: sheet(
+                        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>'
+                        + '<row r="2"><c r="A2" t="inlineStr"><is><t>2025-01-01</t></is></c><c r="B2"><v>12.5</v></c></row>',
+                    ),
+                },
+            ]);
+
+            expect(parseXlsx(file)).toEqual([{ date: '2025-01-01', spend: '12.5' }]);
+        });
+
+        it('should refuse entries that declare more than the size cap', () => {
+            const file = buildZip([
+                { name: 'xl/worksheets/sheet1.xml', content: sheet(''), declaredSize: MAX_XLSX_ENTRY_BYTES + 1 },
+            ]);
+
+            expect(() => parseXlsx(file)).toThrow('larger than');
+        });
+
+        it('should stop inflating entries that exceed the cap despite a small declared size', () => {
+            const file = buildZip([
+                { name: 'xl/worksheets/sheet1.xml', content: Buffer.alloc(MAX_XLSX_ENTRY_BYTES + 1, 0x20), declaredSize: 100 },
+            ]);
+
+            expect(() => parseXlsx(file)).toThrow('larger than');
+        });
+    });
+});
@@ -0,0 +1,181 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Minimal XLSX reader for file imports: first worksheet only, cell values as text.
+ *
+ * An .xlsx file is a zip of XML parts. We only need the shared string table and
+ * one sheet, so the zip central directory is read directly and entries are
+ * inflated with zlib. Formulas come back as their cached value; dates come back
+ * as Excel serial numbers (see excelSerialToDate).
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/** Largest uncompressed zip entry we inflate; guards against zip bombs */
+export const MAX_XLSX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * True when the buffer starts like a zip archive (xlsx, but also docx etc.)
+ */
+export function isXlsxBuffer(buffer: Buffer): boolean {
+    return buffer.length > 4 && buffer.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+}
+
+/**
+ * Read the first worksheet. Returns one object per data row keyed by the header
+ * row, the same shape as parseCsv().
+ */
+export function parseXlsx(buffer: Buffer): Record<string, string>[] {
+    const entries = readZipEntries(buffer);
+    const read = (name: string) => {
+        const entry = entries.get(name);
+        return entry ? entry().toString('utf8') : null;
+    };
+
+    const sheetPath = firstSheetPath(read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels'));
+    const sheet = read(sheetPath);
+    if (!sheet) {
+        throw new Error('The workbook has no worksheet');
+    }
+
+    const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+        .map(([, item]) => textOf(item));
+
+    const rows: string[][] = [];
+    for (const [, rowXml] of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+        const cells: string[] = [];
+        let next = 0;
+        for (const [, attrs, body = ''] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const ref = /\br="([A-Z]+)\d+"/.exec(attrs)?.[1];
+            const index = ref ? columnIndex(ref) : next;
+            const type = /\bt="(\w+)"/.exec(attrs)?.[1];
+            const value = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+            let text = '';
+            if (type === 's') {
+                text = sharedStrings[Number(value)] ?? '';
+            } else if (type === 'inlineStr') {
+                text = textOf(body);
+            } else if (value !== undefined) {
+                text = decodeXml(value);
+            }
+
+            while (cells.length < index) cells.push('');
+            cells[index] = text;
+            next = index + 1;
+        }
+        rows.push(cells);
+    }
+
+    const [header, ...data] = rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+    if (!header) return [];
+
+    return data.map((cells) =>
+        Object.fromEntries(header.map((key, index) => [key.trim(), cells[index] ?? ''])),
+    );
+}
+
+/**
+ * Excel stores dates as days since 1899-12-30 (the 1900 leap-year bug included)
+ */
+export function excelSerialToDate(serial: number): Date {
+    return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86_400_000);
+}
+
+// =============================================================================
+// Internals
+// =============================================================================
+
+/**
+ * Map of entry name → lazy reader, from the zip central directory
+ */
+function readZipEntries(buffer: Buffer): Map<string, () => Buffer> {
+    let eocd = -1;
+    // The end-of-central-directory record sits in the last 64KB (+22 bytes) of the file
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65_557); i--) {
+        if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) {
+        throw new Error('Not a valid .xlsx file');
+    }
+
+    const entries = new Map<string, () => Buffer>();
+    const count = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+
+    for (let i = 0; i < count; i++) {
+        if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+            throw new Error('Not a valid .xlsx file');
+        }
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const uncompressedSize = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+        const tooLarge = () => new Error(`The .xlsx entry ${name} is larger than ${MAX_XLSX_ENTRY_BYTES / 1024 / 1024}MB uncompressed`);
+
+        entries.set(name, () => {
+            if (uncompressedSize > MAX_XLSX_ENTRY_BYTES) throw tooLarge();
+
+            const start = localOffset + 30
+                + buffer.readUInt16LE(localOffset + 26)
+                + buffer.readUInt16LE(localOffset + 28);
+            const data = buffer.subarray(start, start + compressedSize);
+            if (method === 0) return data;
+            if (method === 8) {
+                // The declared size can lie, so the inflated output is capped as well
+                try {
+                    return inflateRawSync(data, { maxOutputLength: MAX_XLSX_ENTRY_BYTES });
+                } catch (error) {
+                    if (error.code === 'ERR_BUFFER_TOO_LARGE') throw tooLarge();
+                    throw error;
+                }
+            }
+            throw new Error(`Unsupported compression in .xlsx entry ${name}`);
+        });
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+function firstSheetPath(workbook: string | null, rels: string | null): string {
+    const relId = workbook && /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+    const target = relId && rels
+        ? new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*\\bTarget="([^"]+)"`).exec(rels)?.[1]
+            ?? new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${relId}"`).exec(rels)?.[1]
+        : undefined;
+    if (!target) return 'xl/worksheets/sheet1.xml';
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/** Concatenated <t> runs of a shared / inline string (rich text has several) */
+function textOf(xml: string): string {
+    return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(([, text]) => decodeXml(text)).join('');
+}
+
+function decodeXml(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return String.fromCodePoint(code);
+        }
+        return XML_ENTITIES[entity] ?? match;
+    });
+}
+
+/** "A" → 0, "Z" → 25, "AA" → 26 */
+function columnIndex(letters: string): number {
+    return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
@@ -40,6 +40,8 @@ export const envValidationSchema = Joi.object({
     JWT_REFRESH_EXPIRY: Joi.string().default('7d'),
     JWT_EXPIRES_IN: Joi.string().optional(),
     JWT_REFRESH_EXPIRES_IN: Joi.string().optional(),
+    TWO_FACTOR_CHALLENGE_EXPIRY: Joi.string().default('5m'),
+    TWO_FACTOR_ISSUER: Joi.string().default('RGA Dashboard'),
 
     // ============================================
     // Google OAuth (Required for integrations)
@@ -48,6 +50,7 @@ export const envValidationSchema = Joi.object({
     GOOGLE_CLIENT_SECRET: Joi.string().optional(),
     GOOGLE_REDIRECT_URI_ADS: Joi.string().optional(),
     GOOGLE_REDIRECT_URI_ANALYTICS: Joi.string().optional(),
+    GOOGLE_REDIRECT_URI_GSC: Joi.string().optional(),
     GOOGLE_ADS_DEVELOPER_TOKEN: Joi.string().optional(),
 
     // ============================================
@@ -73,6 +76,25 @@ export const envValidationSchema = Joi.object({
     LINE_CHANNEL_ID: Joi.string().optional(),
     LINE_CHANNEL_SECRET: Joi.string().optional(),
     LINE_CALLBACK_URL: Joi.string().uri().optional(),
+    LINE_ADS_API_BASE_URL: Joi.string().uri().optional(),
+    LINE_ADS_MAX_RETRIES: Joi.number().integer().min(0).optional(),
+
+    // ============================================
+    // Shopee / Lazada Open Platform (Optional)
+    // ============================================
+    SHOPEE_PARTNER_ID: Joi.string().optional(),
+    SHOPEE_PARTNER_KEY: Joi.string().optional(),
+    SHOPEE_REDIRECT_URI: Joi.string().uri().optional(),
+    SHOPEE_USE_SANDBOX: Joi.string().valid('true', 'false').optional(),
+    LAZADA_APP_KEY: Joi.string().optional(),
+    LAZADA_APP_SECRET: Joi.string().optional(),
+    LAZADA_REDIRECT_URI: Joi.string().uri().optional(),
+
+    // ============================================
+    // Credential Vault (platform token encryption)
+    // ============================================
+    CREDENTIAL_KEYS: Joi.string().optional(), // keyId:base64Key,... - falls back to a key derived from ENCRYPTION_KEY
+    CREDENTIAL_ACTIVE_KEY: Joi.string().optional(), // default: first CREDENTIAL_KEYS entry
 
     // ============================================
     // CORS & Security
@@ -103,6 +125,50 @@ export const envValidationSchema = Joi.object({
     SMTP_USER: Joi.string().optional(),
     SMTP_PASS: Joi.string().optional(),
     SMTP_FROM: Joi.string().optional(),
+
+    // ============================================
+    // Chat Assistant (rule-based unless provider=openai)
+    // ============================================
+    CHAT_ASSISTANT_PROVIDER: Joi.string().valid('rule_based', 'openai').default('rule_based'),
+    CHAT_ASSISTANT_API_KEY: Joi.string().optional(),
+    CHAT_ASSISTANT_MODEL: Joi.string().optional(),
+    CHAT_ASSISTANT_BASE_URL: Joi.string().uri().optional(),
+    CHAT_ASSISTANT_TIMEOUT_MS: Joi.number().optional(),
+
+    // ============================================
+    // Reports
+    // ============================================
+    REPORTS_STORAGE_DIR: Joi.string().optional(), // default: ./storage/reports
+
+    // ============================================
+    // Alert Delivery (email uses SMTP above)
+    // ============================================
+    ALERT_DELIVERY_MAX_ATTEMPTS: Joi.number().integer().min(1).max(10).default(3),
+    ALERT_DELIVERY_RETRY_DELAY_MS: Joi.number().min(0).default(1000),
+    ALERT_WEBHOOK_SECRET: Joi.string().optional(),
+    LINE_MESSAGING_ACCESS_TOKEN: Joi.string().optional(),
+    SMS_PROVIDER: Joi.string().valid('none', 'twilio').default('none'),
+    SMS_TWILIO_ACCOUNT_SID: Joi.string().optional(),
+    SMS_TWILIO_AUTH_TOKEN: Joi.string().optional(),
+    SMS_FROM: Joi.string().optional(),
+
+    // ============================================
+    // Platform Sync (incremental + backfill)
+    // ============================================
+    SYNC_LOOKBACK_DAYS: Joi.number().integer().min(0).max(90).default(3),
+    SYNC_INITIAL_DAYS: Joi.number().integer().min(1).default(30),
+    SYNC_BACKFILL_CHUNK_DAYS: Joi.number().integer().min(1).max(90).default(30),
+    SYNC_BACKFILL_MAX_DAYS: Joi.number().integer().min(1).default(730),
+
+    // ============================================
+    // Currency (daily FX rates)
+    // ============================================
+    FX_RATE_PROVIDER: Joi.string().valid('none', 'file', 'http').default('none'),
+    FX_RATES_FILE: Joi.string().optional(),
+    FX_RATES_URL: Joi.string().uri().optional(),
+    FX_BASE_CURRENCY: Joi.string().length(3).default('USD'),
+    FX_RATE_LOOKBACK_DAYS: Joi.number().integer().min(0).max(90).default(7),
+
     // ============================================
     // Rate Limiting
     // ============================================
@@ -121,8 +187,4 @@ export const envValidationSchema = Joi.object({
     SWAGGER_TITLE: Joi.string().optional(),
     SWAGGER_DESCRIPTION: Joi.string().optional(),
     SWAGGER_VERSION: Joi.string().optional(),
-
-    GSC_SERVICE_ACCOUNT_JSON: Joi.string().optional(),
-    GSC_SERVICE_ACCOUNT_KEY_FILE: Joi.string().optional(),
-    GSC_SITE_URL: Joi.string().optional(),
 });
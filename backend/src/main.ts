@@ -54,7 +54,8 @@ async function bootstrap() {
 
 
 
-  const app = await NestFactory.create(AppModule, { bufferLogs: true });
+  // rawBody: billing webhooks verify signatures over the exact request body
+  const app = await NestFactory.create(AppModule, { bufferLogs: true, rawBody: true });
 
   app.useLogger(app.get(Logger));
 
@@ -22,24 +22,31 @@ import {
 import { AuthGuard } from '@nestjs/passport';
 import { AdGroupsService } from './ad-groups.service';
 import { CreateAdGroupDto, UpdateAdGroupDto, QueryAdGroupsDto } from './dto';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
 
 @ApiTags('Ad Groups')
 @ApiBearerAuth()
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard('jwt'), PermissionsGuard)
 @Controller('ad-groups')
+@RequirePermissions('campaigns:read')
 export class AdGroupsController {
     constructor(private readonly adGroupsService: AdGroupsService) { }
 
     @Post()
+    @RequirePermissions('campaigns:write')
     @ApiOperation({ summary: 'Create a new ad group' })
     @ApiResponse({ status: 201, description: 'Ad group created successfully' })
     @ApiResponse({ status: 403, description: 'Campaign does not belong to tenant' })
     async create(
         @Request() req,
         @Body() createAdGroupDto: CreateAdGroupDto,
+        @CurrentCampaignScope() scope: CampaignScope,
     ) {
         const tenantId = req.user.tenantId;
-        return this.adGroupsService.create(tenantId, createAdGroupDto);
+        return this.adGroupsService.create(tenantId, createAdGroupDto, scope);
     }
 
     @Get()
@@ -49,9 +56,13 @@ export class AdGroupsController {
     @ApiQuery({ name: 'status', required: false, description: 'Filter by status' })
     @ApiQuery({ name: 'page', required: false, type: Number })
     @ApiQuery({ name: 'limit', required: false, type: Number })
-    async findAll(@Request() req, @Query() query: QueryAdGroupsDto) {
+    async findAll(
+        @Request() req,
+        @Query() query: QueryAdGroupsDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
         const tenantId = req.user.tenantId;
-        return this.adGroupsService.findAll(tenantId, query);
+        return this.adGroupsService.findAll(tenantId, query, scope);
     }
 
     @Get(':id')
@@ -62,12 +73,14 @@ export class AdGroupsController {
     async findOne(
         @Request() req,
         @Param('id', ParseUUIDPipe) id: string,
+        @CurrentCampaignScope() scope: CampaignScope,
     ) {
         const tenantId = req.user.tenantId;
-        return this.adGroupsService.findOne(tenantId, id);
+        return this.adGroupsService.findOne(tenantId, id, scope);
     }
 
     @Patch(':id')
+    @RequirePermissions('campaigns:write')
     @ApiOperation({ summary: 'Update an ad group' })
     @ApiParam({ name: 'id', description: 'Ad Group ID (UUID)' })
     @ApiResponse({ status: 200, description: 'Ad group updated successfully' })
@@ -76,12 +89,14 @@ export class AdGroupsController {
         @Request() req,
         @Param('id', ParseUUIDPipe) id: string,
         @Body() updateAdGroupDto: UpdateAdGroupDto,
+        @CurrentCampaignScope() scope: CampaignScope,
     ) {
         const tenantId = req.user.tenantId;
-        return this.adGroupsService.update(tenantId, id, updateAdGroupDto);
+        return this.adGroupsService.update(tenantId, id, updateAdGroupDto, scope);
     }
 
     @Delete(':id')
+    @RequirePermissions('campaigns:write')
     @ApiOperation({ summary: 'Delete an ad group (soft delete)' })
     @ApiParam({ name: 'id', description: 'Ad Group ID (UUID)' })
     @ApiResponse({ status: 200, description: 'Ad group deleted successfully' })
@@ -89,8 +104,9 @@ export class AdGroupsController {
     async remove(
         @Request() req,
         @Param('id', ParseUUIDPipe) id: string,
+        @CurrentCampaignScope() scope: CampaignScope,
     ) {
         const tenantId = req.user.tenantId;
-        return this.adGroupsService.remove(tenantId, id);
+        return this.adGroupsService.remove(tenantId, id, scope);
     }
 }
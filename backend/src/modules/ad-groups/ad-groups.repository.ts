@@ -1,7 +1,21 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { AdGroup, Prisma } from '@prisma/client';
+import { Ad, AdGroup, Prisma } from '@prisma/client';
 import { QueryAdGroupsDto } from './dto';
+import {
+    CampaignScope,
+    campaignRelationScope,
+    scopeCampaignWhere,
+} from '../../common/utils/campaign-scope.util';
+
+/** Summed ad_metrics row for one ad group or ad */
+export interface AdMetricTotals {
+    impressions: number | null;
+    clicks: number | null;
+    conversions: number | null;
+    spend: Prisma.Decimal | null;
+    revenue: Prisma.Decimal | null;
+}
 
 @Injectable()
 export class AdGroupsRepository {
@@ -22,12 +36,14 @@ export class AdGroupsRepository {
     async findAll(
         tenantId: string,
         query: QueryAdGroupsDto,
+        scope?: CampaignScope,
     ): Promise<[AdGroup[], number]> {
         const { page = 1, limit = 10, search, status, campaignId, sortBy, sortOrder } = query;
         const skip = (page - 1) * limit;
 
         const where: Prisma.AdGroupWhereInput = {
             tenantId,
+            ...campaignRelationScope(scope),
             // Exclude soft-deleted records by default (if needed)
             // status: { not: 'DELETED' }, 
         };
@@ -77,9 +93,9 @@ export class AdGroupsRepository {
         return [items, total];
     }
 
-    async findOne(tenantId: string, id: string): Promise<AdGroup | null> {
+    async findOne(tenantId: string, id: string, scope?: CampaignScope): Promise<AdGroup | null> {
         return this.prisma.adGroup.findFirst({
-            where: { id, tenantId },
+            where: { id, tenantId, ...campaignRelationScope(scope) },
             include: {
                 campaign: {
                     select: {
@@ -103,6 +119,46 @@ export class AdGroupsRepository {
         });
     }
 
+    async findAdsByAdGroupId(tenantId: string, adGroupId: string): Promise<Ad[]> {
+        return this.prisma.ad.findMany({
+            where: { tenantId, adGroupId },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Sum ad_metrics per ad group (or per ad within one ad group) over an optional date range
+     */
+    async sumAdMetrics(
+        tenantId: string,
+        by: 'adGroupId' | 'adId',
+        where: { campaignId?: string; adGroupId?: string },
+        startDate?: Date,
+        endDate?: Date,
+    ): Promise<Map<string, AdMetricTotals>> {
+        const date: Prisma.DateTimeFilter = {};
+        if (startDate) date.gte = startDate;
+        if (endDate) date.lte = endDate;
+
+        const rows = await this.prisma.adMetric.groupBy({
+            by: [by],
+            where: {
+                tenantId,
+                ...where,
+                ...(startDate || endDate ? { date } : {}),
+            },
+            _sum: {
+                impressions: true,
+                clicks: true,
+                conversions: true,
+                spend: true,
+                revenue: true,
+            },
+        });
+
+        return new Map(rows.map((row) => [row[by] as string, row._sum]));
+    }
+
     async update(
         tenantId: string,
         id: string,
@@ -138,14 +194,15 @@ export class AdGroupsRepository {
     }
 
     /**
-     * Verify campaign exists and belongs to the tenant
+     * Verify campaign exists, belongs to the tenant and is visible in the user's scope
      */
     async verifyCampaignOwnership(
         tenantId: string,
         campaignId: string,
+        scope?: CampaignScope,
     ): Promise<boolean> {
         const campaign = await this.prisma.campaign.findFirst({
-            where: { id: campaignId, tenantId },
+            where: scopeCampaignWhere({ id: campaignId, tenantId }, scope),
             select: { id: true },
         });
         return !!campaign;
@@ -3,10 +3,11 @@ import {
     NotFoundException,
     ForbiddenException,
 } from '@nestjs/common';
-import { AdGroupsRepository } from './ad-groups.repository';
+import { AdGroupsRepository, AdMetricTotals } from './ad-groups.repository';
 import { AuditLogsService } from '../audit-logs/audit-logs.service';
 import { CreateAdGroupDto, UpdateAdGroupDto, QueryAdGroupsDto } from './dto';
 import { AdGroup, Prisma } from '@prisma/client';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
 
 @Injectable()
 export class AdGroupsService {
@@ -17,14 +18,15 @@ export class AdGroupsService {
 
     /**
      * Create a new Ad Group
-     * - Validates that campaignId exists and belongs to the user's tenant
+     * - Validates that campaignId exists, belongs to the user's tenant and is in their campaign scope
      * - Automatically sets tenantId from user context
      */
-    async create(tenantId: string, dto: CreateAdGroupDto) {
+    async create(tenantId: string, dto: CreateAdGroupDto, scope?: CampaignScope) {
         // ✅ CRITICAL: Validate campaign ownership (Tenant Isolation)
         const campaignValid = await this.repository.verifyCampaignOwnership(
             tenantId,
             dto.campaignId,
+            scope,
         );
 
         if (!campaignValid) {
@@ -75,13 +77,13 @@ export class AdGroupsService {
     }
 
     /**
-     * Find all ad groups with filtering and pagination
+     * Find all ad groups with filtering and pagination (campaign-scoped users see their campaigns only)
      */
-    async findAll(tenantId: string, query: QueryAdGroupsDto) {
+    async findAll(tenantId: string, query: QueryAdGroupsDto, scope?: CampaignScope) {
         const page = Number(query.page) || 1;
         const limit = Number(query.limit) || 10;
 
-        const [items, total] = await this.repository.findAll(tenantId, query);
+        const [items, total] = await this.repository.findAll(tenantId, query, scope);
 
         const normalized = items.map((adGroup) => this.normalizeAdGroup(adGroup));
 
@@ -99,8 +101,8 @@ export class AdGroupsService {
     /**
      * Find one ad group by ID
      */
-    async findOne(tenantId: string, id: string) {
-        const adGroup = await this.repository.findOne(tenantId, id);
+    async findOne(tenantId: string, id: string, scope?: CampaignScope) {
+        const adGroup = await this.repository.findOne(tenantId, id, scope);
 
         if (!adGroup) {
             throw new NotFoundException('Ad Group not found');
@@ -116,9 +118,10 @@ export class AdGroupsService {
         tenantId: string,
         id: string,
         dto: UpdateAdGroupDto,
+        scope?: CampaignScope,
     ): Promise<{ id: string; name: string;[key: string]: unknown }> {
         // Check if ad group exists and belongs to tenant
-        await this.findOne(tenantId, id);
+        await this.findOne(tenantId, id, scope);
 
         const updateData: Prisma.AdGroupUpdateInput = {};
 
@@ -162,9 +165,9 @@ export class AdGroupsService {
     /**
      * Delete (soft delete) an ad group
      */
-    async remove(tenantId: string, id: string): Promise<{ message: string }> {
+    async remove(tenantId: string, id: string, scope?: CampaignScope): Promise<{ message: string }> {
         // Check if ad group exists
-        await this.findOne(tenantId, id);
+        await this.findOne(tenantId, id, scope);
 
         await this.repository.remove(tenantId, id);
 
@@ -205,6 +208,77 @@ export class AdGroupsService {
         return adGroups.map((adGroup) => this.normalizeAdGroup(adGroup));
     }
 
+    /**
+     * Ad groups of a campaign with their summed ad-level metrics
+     * Caller is responsible for checking the campaign is visible to the user.
+     */
+    async getCampaignAdGroupPerformance(
+        tenantId: string,
+        campaignId: string,
+        startDate?: Date,
+        endDate?: Date,
+    ) {
+        const [adGroups, totals] = await Promise.all([
+            this.repository.findByCampaignId(tenantId, campaignId),
+            this.repository.sumAdMetrics(tenantId, 'adGroupId', { campaignId }, startDate, endDate),
+        ]);
+
+        return adGroups.map((adGroup) => ({
+            ...this.normalizeAdGroup(adGroup),
+            metrics: this.toPerformance(totals.get(adGroup.id)),
+        }));
+    }
+
+    /**
+     * Ads (creatives) of one ad group of a campaign with their summed metrics
+     */
+    async getAdGroupAdPerformance(
+        tenantId: string,
+        campaignId: string,
+        adGroupId: string,
+        startDate?: Date,
+        endDate?: Date,
+    ) {
+        const adGroup = await this.repository.findOne(tenantId, adGroupId);
+        if (!adGroup || adGroup.campaignId !== campaignId) {
+            throw new NotFoundException('Ad Group not found');
+        }
+
+        const [ads, totals] = await Promise.all([
+            this.repository.findAdsByAdGroupId(tenantId, adGroupId),
+            this.repository.sumAdMetrics(tenantId, 'adId', { adGroupId }, startDate, endDate),
+        ]);
+
+        return {
+            adGroup: this.normalizeAdGroup(adGroup),
+            ads: ads.map((ad) => ({
+                ...ad,
+                metrics: this.toPerformance(totals.get(ad.id)),
+            })),
+        };
+    }
+
+    /**
+     * Summed metrics plus calculated CTR / CPC / ROAS (not stored in DB)
+     */
+    private toPerformance(totals?: AdMetricTotals) {
+        const impressions = totals?.impressions ?? 0;
+        const clicks = totals?.clicks ?? 0;
+        const spend = totals?.spend ? Number(totals.spend) : 0;
+        const revenue = totals?.revenue ? Number(totals.revenue) : 0;
+
+        return {
+            impressions,
+            clicks,
+            conversions: totals?.conversions ?? 0,
+            spend,
+            revenue,
+            ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
+            cpc: clicks > 0 ? spend / clicks : 0,
+            roas: spend > 0 ? revenue / spend : 0,
+        };
+    }
+
     /**
      * Normalize ad group for response
      */
@@ -0,0 +1,140 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    Req,
+    UseGuards,
+    ParseUUIDPipe,
+    DefaultValuePipe,
+    ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { Request } from 'express';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AdminTenantsService } from './admin-tenants.service';
+import { ImpersonationService } from './impersonation.service';
+import {
+    QueryTenantsDto,
+    CreateTenantDto,
+    UpdateTenantDto,
+    UpdateSubscriptionDto,
+    SuspendTenantDto,
+    ImpersonateTenantDto,
+} from './dto';
+
+@ApiTags('Admin - Tenants')
+@ApiBearerAuth()
+@Controller('admin/tenants')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN)
+export class AdminTenantsController {
+    constructor(
+        private readonly tenantsService: AdminTenantsService,
+        private readonly impersonationService: ImpersonationService,
+    ) { }
+
+    @Get()
+    @ApiOperation({ summary: 'List tenants with usage (SUPER_ADMIN)' })
+    findAll(@Query() query: QueryTenantsDto) {
+        return this.tenantsService.findAll(query);
+    }
+
+    @Post()
+    @ApiOperation({ summary: 'Create a tenant (SUPER_ADMIN)' })
+    create(@Body() dto: CreateTenantDto, @CurrentUser('id') userId: string) {
+        return this.tenantsService.create(dto, userId);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get a tenant with usage (SUPER_ADMIN)' })
+    @ApiParam({ name: 'id', description: 'Tenant ID (UUID)' })
+    findOne(@Param('id', ParseUUIDPipe) id: string) {
+        return this.tenantsService.findOne(id);
+    }
+
+    @Patch(':id')
+    @ApiOperation({ summary: 'Update tenant profile (SUPER_ADMIN)' })
+    @ApiParam({ name: 'id', description: 'Tenant ID (UUID)' })
+    update(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: UpdateTenantDto,
+        @CurrentUser('id') userId: string,
+    ) {
+        return this.tenantsService.update(id, dto, userId);
+    }
+
+    @Patch(':id/subscription')
+    @ApiOperation({ summary: 'Change subscription plan, status or end date (SUPER_ADMIN)' })
+    @ApiParam({ name: 'id', description: 'Tenant ID (UUID)' })
+    updateSubscription(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: UpdateSubscriptionDto,
+        @CurrentUser('id') userId: string,
+    ) {
+        return this.tenantsService.updateSubscription(id, dto, userId);
+    }
+
+    @Post(':id/suspend')
+    @ApiOperation({ summary: 'Suspend a tenant; its users can no longer sign in (SUPER_ADMIN)' })
+    @ApiParam({ name: 'id', description: 'Tenant ID (UUID)' })
+    suspend(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: SuspendTenantDto,
+        @CurrentUser() user: any,
+    ) {
+        return this.tenantsService.suspend(id, dto, user.id, user.tenantId);
+    }
+
+    @Post(':id/reactivate')
+    @ApiOperation({ summary: 'Lift a suspension (SUPER_ADMIN)' })
+    @ApiParam({ name: 'id', description: 'Tenant ID (UUID)' })
+    reactivate(@Param('id', ParseUUIDPipe) id: string, @CurrentUser('id') userId: string) {
+        return this.tenantsService.reactivate(id, userId);
+    }
+
+    @Delete(':id')
+    @ApiOperation({ summary: 'Soft-delete a tenant (SUPER_ADMIN)' })
+    @ApiParam({ name: 'id', description: 'Tenant ID (UUID)' })
+    remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+        return this.tenantsService.remove(id, user.id, user.tenantId);
+    }
+
+    @Get(':id/audit-logs')
+    @ApiOperation({ summary: 'Audit trail of a tenant, including impersonated requests (SUPER_ADMIN)' })
+    @ApiParam({ name: 'id', description: 'Tenant ID (UUID)' })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    getAuditLogs(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit: number,
+    ) {
+        return this.tenantsService.getAuditLogs(id, limit);
+    }
+
+    @Get(':id/impersonations')
+    @ApiOperation({ summary: 'Impersonation sessions of a tenant (SUPER_ADMIN)' })
+    @ApiParam({ name: 'id', description: 'Tenant ID (UUID)' })
+    findImpersonations(@Param('id', ParseUUIDPipe) id: string) {
+        return this.impersonationService.findSessions(id);
+    }
+
+    @Post(':id/impersonate')
+    @ApiOperation({ summary: 'Start acting as an ADMIN of the tenant; returns a 1-hour access token (SUPER_ADMIN)' })
+    @ApiParam({ name: 'id', description: 'Tenant ID (UUID)' })
+    impersonate(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: ImpersonateTenantDto,
+        @CurrentUser() user: any,
+        @Req() req: Request,
+    ) {
+        return this.impersonationService.start(id, user, dto.reason, req);
+    }
+}
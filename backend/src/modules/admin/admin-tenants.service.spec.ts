@@ -0,0 +1,205 @@
+/**
+ * Admin Tenants Unit Tests
+ * @module admin-tenants.service.spec
+ * @description Super-admin tenant console:
+ *   - Listing filters by lifecycle state and reports usage per tenant
+ *   - Subscription changes and suspensions are audited on the tenant
+ *   - Soft delete hides the tenant and ends open impersonation sessions
+ *   - Impersonation issues a session-bound token and audits start and end
+ */
+
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { SubscriptionPlan, SubscriptionStatus } from '@prisma/client';
+import { AdminTenantsService } from './admin-tenants.service';
+import { ImpersonationService } from './impersonation.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const ADMIN_ID = 'admin-001';
+const ADMIN_TENANT_ID = 'tenant-admin';
+const TENANT_ID = 'tenant-001';
+
+function tenant(overrides: Record<string, any> = {}) {
+    return {
+        id: TENANT_ID,
+        name: 'Acme',
+        slug: 'acme',
+        domain: null,
+        timezone: 'Asia/Bangkok',
+        currency: 'THB',
+        subscriptionPlan: SubscriptionPlan.BASIC,
+        subscriptionStatus: SubscriptionStatus.ACTIVE,
+        subscriptionEndsAt: null,
+        suspendedAt: null,
+        suspendedReason: null,
+        createdAt: new Date('2026-01-01'),
+        deletedAt: null,
+        _count: { users: 3, campaigns: 12, metrics: 480, integrations: 2 },
+        ...overrides,
+    };
+}
+
+function setup(current = tenant()) {
+    const prisma = {
+        tenant: {
+            findMany: jest.fn().mockResolvedValue([current]),
+            count: jest.fn().mockResolvedValue(1),
+            findUnique: jest.fn().mockResolvedValue(current),
+            create: jest.fn(),
+            // Prisma ignores undefined fields
+            update: jest.fn().mockImplementation(async ({ data }) => ({
+                ...current,
+                ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)),
+            })),
+        },
+        tenantImpersonation: {
+            create: jest.fn().mockResolvedValue({ id: 'session-001' }),
+            updateMany: jest.fn(),
+        },
+        syncLog: {
+            groupBy: jest.fn().mockResolvedValue([{ tenantId: TENANT_ID, _max: { completedAt: new Date('2026-10-01') } }]),
+        },
+        $transaction: jest.fn().mockResolvedValue([]),
+    };
+    const auditLogsService = { createLog: jest.fn() };
+    const subscriptionLifecycle = {
+        enforceIntegrationLimit: jest.fn().mockResolvedValue({ limit: 5, paused: [], resumed: [] }),
+    };
+    const service = new AdminTenantsService(prisma as any, auditLogsService as any, subscriptionLifecycle as any);
+
+    return { service, prisma, auditLogsService, subscriptionLifecycle };
+}
+
+describe('AdminTenantsService', () => {
+    describe('findAll', () => {
+        it('hides deleted tenants by default and reports usage', async () => {
+            const { service, prisma } = setup();
+
+            const result = await service.findAll({ search: 'acm', page: 1, limit: 20 });
+
+            const where = prisma.tenant.findMany.mock.calls[0][0].where;
+            expect(where.deletedAt).toBeNull();
+            expect(where.OR).toHaveLength(3);
+            expect(result.data[0].usage).toEqual({
+                users: 3,
+                integrations: 2,
+                campaigns: 12,
+                metricRows: 480,
+                lastSyncAt: new Date('2026-10-01'),
+            });
+            expect(result.meta).toEqual({ total: 1, page: 1, limit: 20, totalPages: 1 });
+        });
+
+        it('filters suspended tenants', async () => {
+            const { service, prisma } = setup();
+
+            await service.findAll({ state: 'suspended' });
+
+            expect(prisma.tenant.findMany.mock.calls[0][0].where).toMatchObject({
+                deletedAt: null,
+                suspendedAt: { not: null },
+            });
+        });
+    });
+
+    describe('updateSubscription', () => {
+        it('records the subscription before and after and applies the new plan\'s integration limit', async () => {
+            const { service, auditLogsService, subscriptionLifecycle } = setup();
+
+            await service.updateSubscription(TENANT_ID, { plan: SubscriptionPlan.ENTERPRISE, endsAt: '2027-01-01T00:00:00.000Z' }, ADMIN_ID);
+
+            expect(auditLogsService.createLog).toHaveBeenCalledWith(expect.objectContaining({
+                tenantId: TENANT_ID,
+                action: 'TENANT_SUBSCRIPTION_UPDATED',
+                details: {
+                    before: { plan: SubscriptionPlan.BASIC, status: SubscriptionStatus.ACTIVE, endsAt: null },
+                    after: { plan: SubscriptionPlan.ENTERPRISE, status: SubscriptionStatus.ACTIVE, endsAt: new Date('2027-01-01T00:00:00.000Z') },
+                },
+            }));
+            expect(subscriptionLifecycle.enforceIntegrationLimit).toHaveBeenCalledWith(TENANT_ID, ADMIN_ID);
+        });
+    });
+
+    describe('suspend', () => {
+        it('suspends with a reason', async () => {
+            const { service, prisma, auditLogsService } = setup();
+
+            await service.suspend(TENANT_ID, { reason: 'Unpaid invoice' }, ADMIN_ID, ADMIN_TENANT_ID);
+
+            expect(prisma.tenant.update).toHaveBeenCalledWith({
+                where: { id: TENANT_ID },
+                data: { suspendedAt: expect.any(Date), suspendedReason: 'Unpaid invoice' },
+            });
+            expect(auditLogsService.createLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'TENANT_SUSPENDED' }));
+        });
+
+        it('refuses the super admin\'s own tenant and already suspended tenants', async () => {
+            await expect(setup(tenant({ id: ADMIN_TENANT_ID })).service.suspend(ADMIN_TENANT_ID, { reason: 'test' }, ADMIN_ID, ADMIN_TENANT_ID))
+                .rejects.toThrow(BadRequestException);
+            await expect(setup(tenant({ suspendedAt: new Date() })).service.suspend(TENANT_ID, { reason: 'test' }, ADMIN_ID, ADMIN_TENANT_ID))
+                .rejects.toThrow(ConflictException);
+        });
+    });
+
+    describe('remove', () => {
+        it('soft-deletes the tenant and ends open impersonation sessions', async () => {
+            const { service, prisma, auditLogsService } = setup();
+
+            await service.remove(TENANT_ID, ADMIN_ID, ADMIN_TENANT_ID);
+
+            expect(prisma.tenant.update).toHaveBeenCalledWith({ where: { id: TENANT_ID }, data: { deletedAt: expect.any(Date) } });
+            expect(prisma.tenantImpersonation.updateMany).toHaveBeenCalledWith({
+                where: { tenantId: TENANT_ID, endedAt: null },
+                data: { endedAt: expect.any(Date) },
+            });
+            expect(auditLogsService.createLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'TENANT_DELETED' }));
+        });
+
+        it('treats deleted tenants as missing', async () => {
+            const { service } = setup(tenant({ deletedAt: new Date() }));
+
+            await expect(service.remove(TENANT_ID, ADMIN_ID, ADMIN_TENANT_ID)).rejects.toThrow(NotFoundException);
+        });
+    });
+});
+
+describe('ImpersonationService', () => {
+    const jwt = new JwtService({});
+    const config = new ConfigService({ JWT_SECRET: 'test-secret' });
+
+    it('issues a token bound to a new session and audits the start', async () => {
+        const { service: tenantsService, prisma, auditLogsService } = setup();
+        const impersonation = new ImpersonationService(prisma as any, jwt, config, auditLogsService as any, tenantsService);
+
+        const result = await impersonation.start(TENANT_ID, { id: ADMIN_ID, email: 'root@example.com' }, 'Ticket #1234');
+
+        const payload = await jwt.verifyAsync(result.accessToken, { secret: 'test-secret' });
+        expect(payload).toMatchObject({ sub: ADMIN_ID, imp: 'session-001' });
+        expect(result.user).toMatchObject({ id: ADMIN_ID, role: 'ADMIN', tenant: { id: TENANT_ID, name: 'Acme' } });
+        expect(prisma.tenantImpersonation.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ tenantId: TENANT_ID, adminUserId: ADMIN_ID, reason: 'Ticket #1234' }),
+        });
+        expect(auditLogsService.createLog).toHaveBeenCalledWith(expect.objectContaining({
+            tenantId: TENANT_ID,
+            action: 'IMPERSONATION_STARTED',
+            entityId: 'session-001',
+        }));
+    });
+
+    it('ends the session of the current impersonation token', async () => {
+        const { service: tenantsService, prisma, auditLogsService } = setup();
+        const impersonation = new ImpersonationService(prisma as any, jwt, config, auditLogsService as any, tenantsService);
+
+        await impersonation.end({ id: ADMIN_ID, tenantId: TENANT_ID, impersonation: { sessionId: 'session-001', adminTenantId: ADMIN_TENANT_ID } });
+
+        expect(prisma.tenantImpersonation.updateMany).toHaveBeenCalledWith({
+            where: { id: 'session-001', endedAt: null },
+            data: { endedAt: expect.any(Date) },
+        });
+        await expect(impersonation.end({ id: ADMIN_ID, tenantId: ADMIN_TENANT_ID })).rejects.toThrow(BadRequestException);
+    });
+});
@@ -0,0 +1,370 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { Prisma, SyncStatus, Tenant } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { SubscriptionLifecycleService } from '../subscription/subscription-lifecycle.service';
+import {
+    QueryTenantsDto,
+    CreateTenantDto,
+    UpdateTenantDto,
+    UpdateSubscriptionDto,
+    SuspendTenantDto,
+} from './dto';
+
+const TENANT_USAGE_COUNTS = {
+    users: true,
+    campaigns: true,
+    metrics: true,
+    integrations: { where: { isActive: true } },
+} satisfies Prisma.TenantCountOutputTypeSelect;
+
+type TenantWithCounts = Tenant & {
+    _count: { users: number; campaigns: number; metrics: number; integrations: number };
+};
+
+/**
+ * Super-admin tenant management: lifecycle, subscription and usage across tenants
+ */
+@Injectable()
+export class AdminTenantsService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly auditLogsService: AuditLogsService,
+        private readonly subscriptionLifecycle: SubscriptionLifecycleService,
+    ) { }
+
+    async findAll(query: QueryTenantsDto) {
+        const page = query.page ?? 1;
+        const limit = query.limit ?? 20;
+        const where = this.buildWhere(query);
+
+        const [tenants, total] = await Promise.all([
+            this.prisma.tenant.findMany({
+                where,
+                include: { _count: { select: TENANT_USAGE_COUNTS } },
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            this.prisma.tenant.count({ where }),
+        ]);
+
+        const lastSyncs = await this.lastSyncByTenant(tenants.map((t) => t.id));
+
+        return {
+            data: tenants.map((tenant) => this.toResponse(tenant, lastSyncs.get(tenant.id) ?? null)),
+            meta: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    async findOne(id: string) {
+        const tenant = await this.prisma.tenant.findUnique({
+            where: { id },
+            include: { _count: { select: TENANT_USAGE_COUNTS } },
+        });
+        if (!tenant) {
+            throw new NotFoundException('Tenant not found');
+        }
+
+        const lastSyncs = await this.lastSyncByTenant([id]);
+        return this.toResponse(tenant, lastSyncs.get(id) ?? null);
+    }
+
+    async create(dto: CreateTenantDto, actorId: string) {
+        if (dto.slug) {
+            await this.assertSlugAvailable(dto.slug);
+        }
+
+        const tenant = await this.prisma.tenant.create({
+            data: {
+                name: dto.name,
+                slug: dto.slug,
+                domain: dto.domain,
+                timezone: dto.timezone,
+                currency: dto.currency,
+                subscriptionPlan: dto.subscriptionPlan,
+                subscriptionStatus: dto.subscriptionStatus,
+                subscriptionEndsAt: dto.subscriptionEndsAt ? new Date(dto.subscriptionEndsAt) : undefined,
+            },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId: tenant.id,
+            userId: actorId,
+            action: 'TENANT_CREATED',
+            resource: 'tenant',
+            entityId: tenant.id,
+            details: { name: tenant.name, plan: tenant.subscriptionPlan, status: tenant.subscriptionStatus },
+        });
+
+        return this.findOne(tenant.id);
+    }
+
+    async update(id: string, dto: UpdateTenantDto, actorId: string) {
+        const existing = await this.findActiveOrThrow(id);
+        if (dto.slug !== undefined && dto.slug !== existing.slug) {
+            await this.assertSlugAvailable(dto.slug);
+        }
+
+        await this.prisma.tenant.update({
+            where: { id },
+            data: {
+                name: dto.name,
+                slug: dto.slug,
+                domain: dto.domain,
+                timezone: dto.timezone,
+                currency: dto.currency,
+            },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId: id,
+            userId: actorId,
+            action: 'TENANT_UPDATED',
+            resource: 'tenant',
+            entityId: id,
+            details: { changes: dto },
+        });
+
+        return this.findOne(id);
+    }
+
+    /**
+     * A plan change pauses or resumes connected accounts to fit the new
+     * integration limit; the result is returned as integrationLimit
+     */
+    async updateSubscription(id: string, dto: UpdateSubscriptionDto, actorId: string) {
+        const existing = await this.findActiveOrThrow(id);
+
+        const tenant = await this.prisma.tenant.update({
+            where: { id },
+            data: {
+                subscriptionPlan: dto.plan,
+                subscriptionStatus: dto.status,
+                subscriptionEndsAt: dto.endsAt === undefined ? undefined : dto.endsAt && new Date(dto.endsAt),
+                // A new end date gets its own expiry reminders
+                subscriptionReminderDays: dto.endsAt === undefined ? undefined : null,
+            },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId: id,
+            userId: actorId,
+            action: 'TENANT_SUBSCRIPTION_UPDATED',
+            resource: 'tenant',
+            entityId: id,
+            details: {
+                before: this.subscriptionOf(existing),
+                after: this.subscriptionOf(tenant),
+            },
+        });
+
+        const integrationLimit = tenant.subscriptionPlan !== existing.subscriptionPlan
+            ? await this.subscriptionLifecycle.enforceIntegrationLimit(id, actorId)
+            : null;
+
+        return { ...(await this.findOne(id)), integrationLimit };
+    }
+
+    /**
+     * Block sign-in for the tenant's users; data and integrations are kept
+     */
+    async suspend(id: string, dto: SuspendTenantDto, actorId: string, actorTenantId: string) {
+        const existing = await this.findActiveOrThrow(id);
+        if (id === actorTenantId) {
+            throw new BadRequestException('You cannot suspend your own tenant');
+        }
+        if (existing.suspendedAt) {
+            throw new ConflictException('Tenant is already suspended');
+        }
+
+        await this.prisma.tenant.update({
+            where: { id },
+            data: { suspendedAt: new Date(), suspendedReason: dto.reason },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId: id,
+            userId: actorId,
+            action: 'TENANT_SUSPENDED',
+            resource: 'tenant',
+            entityId: id,
+            details: { reason: dto.reason },
+        });
+
+        return this.findOne(id);
+    }
+
+    async reactivate(id: string, actorId: string) {
+        const existing = await this.findActiveOrThrow(id);
+        if (!existing.suspendedAt) {
+            throw new ConflictException('Tenant is not suspended');
+        }
+
+        await this.prisma.tenant.update({
+            where: { id },
+            data: { suspendedAt: null, suspendedReason: null },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId: id,
+            userId: actorId,
+            action: 'TENANT_REACTIVATED',
+            resource: 'tenant',
+            entityId: id,
+            details: { suspendedAt: existing.suspendedAt, reason: existing.suspendedReason },
+        });
+
+        return this.findOne(id);
+    }
+
+    /**
+     * Soft delete: the tenant disappears from listings and its users can no
+     * longer sign in; open impersonation sessions are ended
+     */
+    async remove(id: string, actorId: string, actorTenantId: string) {
+        await this.findActiveOrThrow(id);
+        if (id === actorTenantId) {
+            throw new BadRequestException('You cannot delete your own tenant');
+        }
+
+        const now = new Date();
+        await this.prisma.$transaction([
+            this.prisma.tenant.update({ where: { id }, data: { deletedAt: now } }),
+            this.prisma.tenantImpersonation.updateMany({
+                where: { tenantId: id, endedAt: null },
+                data: { endedAt: now },
+            }),
+        ]);
+
+        await this.auditLogsService.createLog({
+            tenantId: id,
+            userId: actorId,
+            action: 'TENANT_DELETED',
+            resource: 'tenant',
+            entityId: id,
+            details: {},
+        });
+
+        return { success: true, message: 'Tenant deleted' };
+    }
+
+    /**
+     * Audit trail of a tenant, newest first (admin actions, impersonation and
+     * the requests made while impersonating)
+     */
+    async getAuditLogs(id: string, limit = 100) {
+        await this.findOrThrow(id);
+
+        return this.prisma.auditLog.findMany({
+            where: { tenantId: id },
+            include: { user: { select: { id: true, email: true, firstName: true, lastName: true } } },
+            orderBy: { createdAt: 'desc' },
+            take: Math.min(limit, 500),
+        });
+    }
+
+    async findOrThrow(id: string): Promise<Tenant> {
+        const tenant = await this.prisma.tenant.findUnique({ where: { id } });
+        if (!tenant) {
+            throw new NotFoundException('Tenant not found');
+        }
+        return tenant;
+    }
+
+    private async findActiveOrThrow(id: string): Promise<Tenant> {
+        const tenant = await this.findOrThrow(id);
+        if (tenant.deletedAt) {
+            throw new NotFoundException('Tenant not found');
+        }
+        return tenant;
+    }
+
+    private async assertSlugAvailable(slug: string) {
+        const existing = await this.prisma.tenant.findUnique({ where: { slug } });
+        if (existing) {
+            throw new ConflictException(`Slug "${slug}" is already taken`);
+        }
+    }
+
+    private buildWhere(query: QueryTenantsDto): Prisma.TenantWhereInput {
+        const where: Prisma.TenantWhereInput = {};
+
+        switch (query.state) {
+            case 'deleted':
+                where.deletedAt = { not: null };
+                break;
+            case 'suspended':
+                where.deletedAt = null;
+                where.suspendedAt = { not: null };
+                break;
+            case 'active':
+                where.deletedAt = null;
+                where.suspendedAt = null;
+                break;
+            default:
+                where.deletedAt = null;
+        }
+
+        if (query.plan) where.subscriptionPlan = query.plan;
+        if (query.status) where.subscriptionStatus = query.status;
+        if (query.search) {
+            where.OR = [
+                { name: { contains: query.search, mode: 'insensitive' } },
+                { slug: { contains: query.search, mode: 'insensitive' } },
+                { domain: { contains: query.search, mode: 'insensitive' } },
+            ];
+        }
+
+        return where;
+    }
+
+    private async lastSyncByTenant(tenantIds: string[]): Promise<Map<string, Date | null>> {
+        if (tenantIds.length === 0) return new Map();
+
+        const rows = await this.prisma.syncLog.groupBy({
+            by: ['tenantId'],
+            where: { tenantId: { in: tenantIds }, status: SyncStatus.COMPLETED },
+            _max: { completedAt: true },
+        });
+        return new Map(rows.map((row) => [row.tenantId, row._max.completedAt]));
+    }
+
+    private subscriptionOf(tenant: Tenant) {
+        return {
+            plan: tenant.subscriptionPlan,
+            status: tenant.subscriptionStatus,
+            endsAt: tenant.subscriptionEndsAt,
+        };
+    }
+
+    private toResponse({ _count, ...tenant }: TenantWithCounts, lastSyncAt: Date | null) {
+        return {
+            id: tenant.id,
+            name: tenant.name,
+            slug: tenant.slug,
+            domain: tenant.domain,
+            timezone: tenant.timezone,
+            currency: tenant.currency,
+            subscriptionPlan: tenant.subscriptionPlan,
+            subscriptionStatus: tenant.subscriptionStatus,
+            subscriptionEndsAt: tenant.subscriptionEndsAt,
+            suspendedAt: tenant.suspendedAt,
+            suspendedReason: tenant.suspendedReason,
+            createdAt: tenant.createdAt,
+            deletedAt: tenant.deletedAt,
+            usage: {
+                users: _count.users,
+                integrations: _count.integrations,
+                campaigns: _count.campaigns,
+                metricRows: _count.metrics,
+                lastSyncAt,
+            },
+        };
+    }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SubscriptionModule } from '../subscription/subscription.module';
+import { AdminTenantsController } from './admin-tenants.controller';
+import { ImpersonationController } from './impersonation.controller';
+import { AdminTenantsService } from './admin-tenants.service';
+import { ImpersonationService } from './impersonation.service';
+import { ImpersonationAuditInterceptor } from './impersonation-audit.interceptor';
+
+@Module({
+    // Secrets are passed per call, like AuthService does
+    imports: [PrismaModule, SubscriptionModule, JwtModule.register({})],
+    controllers: [AdminTenantsController, ImpersonationController],
+    providers: [
+        AdminTenantsService,
+        ImpersonationService,
+        {
+            provide: APP_INTERCEPTOR,
+            useClass: ImpersonationAuditInterceptor,
+        },
+    ],
+})
+export class AdminModule { }
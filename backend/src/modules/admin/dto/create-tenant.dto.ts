@@ -0,0 +1,50 @@
+import { IsString, IsOptional, IsEnum, IsDateString, MaxLength, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SubscriptionPlan, SubscriptionStatus } from '@prisma/client';
+
+export class CreateTenantDto {
+    @ApiProperty({ example: 'Acme Co., Ltd.' })
+    @IsString()
+    @MaxLength(255)
+    name: string;
+
+    @ApiPropertyOptional({ example: 'acme' })
+    @IsString()
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: 'slug may only contain lowercase letters, digits and dashes' })
+    @MaxLength(100)
+    @IsOptional()
+    slug?: string;
+
+    @ApiPropertyOptional({ example: 'acme.co.th' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    domain?: string;
+
+    @ApiPropertyOptional({ example: 'Asia/Bangkok' })
+    @IsString()
+    @MaxLength(50)
+    @IsOptional()
+    timezone?: string;
+
+    @ApiPropertyOptional({ example: 'THB' })
+    @IsString()
+    @MaxLength(3)
+    @IsOptional()
+    currency?: string;
+
+    @ApiPropertyOptional({ enum: SubscriptionPlan, default: SubscriptionPlan.BASIC })
+    @IsEnum(SubscriptionPlan)
+    @IsOptional()
+    subscriptionPlan?: SubscriptionPlan;
+
+    @ApiPropertyOptional({ enum: SubscriptionStatus, default: SubscriptionStatus.ACTIVE })
+    @IsEnum(SubscriptionStatus)
+    @IsOptional()
+    subscriptionStatus?: SubscriptionStatus;
+
+    @ApiPropertyOptional({ example: '2027-01-01T00:00:00.000Z' })
+    @IsDateString()
+    @IsOptional()
+    subscriptionEndsAt?: string;
+}
@@ -0,0 +1,10 @@
+import { IsString, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImpersonateTenantDto {
+    @ApiProperty({ example: 'Ticket #1234 - dashboard shows no Google Ads data' })
+    @IsString()
+    @MinLength(3)
+    @MaxLength(500)
+    reason: string;
+}
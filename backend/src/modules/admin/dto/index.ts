@@ -0,0 +1,6 @@
+export * from './query-tenants.dto';
+export * from './create-tenant.dto';
+export * from './update-tenant.dto';
+export * from './update-subscription.dto';
+export * from './suspend-tenant.dto';
+export * from './impersonate-tenant.dto';
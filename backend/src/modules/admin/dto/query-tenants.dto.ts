@@ -0,0 +1,48 @@
+import { IsOptional, IsString, IsInt, IsEnum, IsIn, Min, Max } from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { SubscriptionPlan, SubscriptionStatus } from '@prisma/client';
+
+export const TENANT_STATES = ['active', 'suspended', 'deleted'] as const;
+export type TenantState = (typeof TENANT_STATES)[number];
+
+export class QueryTenantsDto {
+    @ApiPropertyOptional({ description: 'Search by name, slug or domain' })
+    @Transform(({ value }) => (value === '' ? undefined : value))
+    @IsString()
+    @IsOptional()
+    search?: string;
+
+    @ApiPropertyOptional({ enum: TENANT_STATES, description: 'Defaults to every tenant that is not deleted' })
+    @Transform(({ value }) => (value === '' ? undefined : value))
+    @IsIn(TENANT_STATES)
+    @IsOptional()
+    state?: TenantState;
+
+    @ApiPropertyOptional({ enum: SubscriptionPlan })
+    @Transform(({ value }) => (value === '' ? undefined : value?.toUpperCase()))
+    @IsEnum(SubscriptionPlan)
+    @IsOptional()
+    plan?: SubscriptionPlan;
+
+    @ApiPropertyOptional({ enum: SubscriptionStatus })
+    @Transform(({ value }) => (value === '' ? undefined : value?.toUpperCase()))
+    @IsEnum(SubscriptionStatus)
+    @IsOptional()
+    status?: SubscriptionStatus;
+
+    @ApiPropertyOptional({ default: 1 })
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    @Type(() => Number)
+    page?: number = 1;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    @IsOptional()
+    @Type(() => Number)
+    limit?: number = 20;
+}
@@ -0,0 +1,10 @@
+import { IsString, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SuspendTenantDto {
+    @ApiProperty({ example: 'Unpaid invoice INV-2026-0042' })
+    @IsString()
+    @MinLength(3)
+    @MaxLength(500)
+    reason: string;
+}
@@ -0,0 +1,21 @@
+import { IsOptional, IsEnum, IsDateString, ValidateIf } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { SubscriptionPlan, SubscriptionStatus } from '@prisma/client';
+
+export class UpdateSubscriptionDto {
+    @ApiPropertyOptional({ enum: SubscriptionPlan })
+    @IsEnum(SubscriptionPlan)
+    @IsOptional()
+    plan?: SubscriptionPlan;
+
+    @ApiPropertyOptional({ enum: SubscriptionStatus })
+    @IsEnum(SubscriptionStatus)
+    @IsOptional()
+    status?: SubscriptionStatus;
+
+    @ApiPropertyOptional({ example: '2027-01-01T00:00:00.000Z', nullable: true, description: 'null removes the end date' })
+    @ValidateIf((_, value) => value !== null)
+    @IsDateString()
+    @IsOptional()
+    endsAt?: string | null;
+}
@@ -0,0 +1,35 @@
+import { IsString, IsOptional, MaxLength, Matches } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateTenantDto {
+    @ApiPropertyOptional({ example: 'Acme Co., Ltd.' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    name?: string;
+
+    @ApiPropertyOptional({ example: 'acme' })
+    @IsString()
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: 'slug may only contain lowercase letters, digits and dashes' })
+    @MaxLength(100)
+    @IsOptional()
+    slug?: string;
+
+    @ApiPropertyOptional({ example: 'acme.co.th' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    domain?: string;
+
+    @ApiPropertyOptional({ example: 'Asia/Bangkok' })
+    @IsString()
+    @MaxLength(50)
+    @IsOptional()
+    timezone?: string;
+
+    @ApiPropertyOptional({ example: 'THB' })
+    @IsString()
+    @MaxLength(3)
+    @IsOptional()
+    currency?: string;
+}
@@ -0,0 +1,44 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+
+/**
+ * Records every request made with an impersonation token in the
+ * impersonated tenant's audit log, whether it succeeded or not
+ */
+@Injectable()
+export class ImpersonationAuditInterceptor implements NestInterceptor {
+    constructor(private readonly auditLogsService: AuditLogsService) { }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+        const request = context.switchToHttp().getRequest();
+        const user = request?.user;
+        if (!user?.impersonation) {
+            return next.handle();
+        }
+
+        const record = (statusCode: number) =>
+            this.auditLogsService.createLog({
+                tenantId: user.tenantId,
+                userId: user.id,
+                action: 'IMPERSONATED_REQUEST',
+                resource: 'impersonation',
+                entityId: user.impersonation.sessionId,
+                details: {
+                    method: request.method,
+                    path: (request.originalUrl || request.url || '').split('?')[0],
+                    statusCode,
+                },
+                ipAddress: request.ip,
+                userAgent: request.headers?.['user-agent'],
+            });
+
+        return next.handle().pipe(
+            tap({
+                next: () => void record(context.switchToHttp().getResponse()?.statusCode ?? 200),
+                error: (error) => void record(error?.status ?? 500),
+            }),
+        );
+    }
+}
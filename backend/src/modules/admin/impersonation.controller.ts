@@ -0,0 +1,23 @@
+import { Controller, Post, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ImpersonationService } from './impersonation.service';
+
+/**
+ * Called with the impersonation token itself, so no SUPER_ADMIN role check:
+ * while impersonating, request.user is an ADMIN of the impersonated tenant
+ */
+@ApiTags('Admin - Tenants')
+@ApiBearerAuth()
+@Controller('admin/impersonation')
+@UseGuards(JwtAuthGuard)
+export class ImpersonationController {
+    constructor(private readonly impersonationService: ImpersonationService) { }
+
+    @Post('end')
+    @ApiOperation({ summary: 'End the current impersonation session' })
+    end(@CurrentUser() user: any) {
+        return this.impersonationService.end(user);
+    }
+}
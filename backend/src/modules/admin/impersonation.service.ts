@@ -0,0 +1,127 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { JwtPayload } from '../auth/strategies/jwt.strategy';
+import { AdminTenantsService } from './admin-tenants.service';
+
+/** Impersonation tokens are short-lived and cannot be refreshed */
+const IMPERSONATION_TTL_SECONDS = 60 * 60;
+
+/** Set on request.user by JwtStrategy while a super admin impersonates a tenant */
+export interface ImpersonationContext {
+    sessionId: string;
+    adminTenantId: string;
+}
+
+/**
+ * Impersonation - lets a super admin act as an ADMIN of another tenant.
+ * Every session and every request made with its token is written to the
+ * tenant's audit log.
+ */
+@Injectable()
+export class ImpersonationService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly jwt: JwtService,
+        private readonly config: ConfigService,
+        private readonly auditLogsService: AuditLogsService,
+        private readonly tenantsService: AdminTenantsService,
+    ) { }
+
+    async start(
+        tenantId: string,
+        admin: { id: string; email: string; firstName?: string | null; lastName?: string | null },
+        reason: string,
+        request?: Request,
+    ) {
+        const tenant = await this.tenantsService.findOrThrow(tenantId);
+        if (tenant.deletedAt) {
+            throw new NotFoundException('Tenant not found');
+        }
+
+        const ipAddress = request?.ip || request?.socket?.remoteAddress || null;
+        const userAgent = request?.headers?.['user-agent'] || null;
+        const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_SECONDS * 1000);
+
+        const session = await this.prisma.tenantImpersonation.create({
+            data: { tenantId, adminUserId: admin.id, reason, ipAddress, userAgent, expiresAt },
+        });
+
+        const payload: JwtPayload = { sub: admin.id, email: admin.email, imp: session.id };
+        const accessToken = await this.jwt.signAsync(payload, {
+            secret: this.config.get('JWT_SECRET'),
+            expiresIn: IMPERSONATION_TTL_SECONDS,
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            userId: admin.id,
+            action: 'IMPERSONATION_STARTED',
+            resource: 'impersonation',
+            entityId: session.id,
+            details: { reason, expiresAt },
+            ipAddress: ipAddress ?? undefined,
+            userAgent: userAgent ?? undefined,
+        });
+
+        // Same user shape as a login response, as seen through the token
+        return {
+            accessToken,
+            sessionId: session.id,
+            expiresAt,
+            user: {
+                id: admin.id,
+                email: admin.email,
+                firstName: admin.firstName ?? null,
+                lastName: admin.lastName ?? null,
+                role: UserRole.ADMIN,
+                tenant: { id: tenant.id, name: tenant.name },
+            },
+        };
+    }
+
+    /**
+     * End the session the request's impersonation token belongs to.
+     * The token is rejected from then on.
+     */
+    async end(user: { id: string; tenantId: string; impersonation?: ImpersonationContext }) {
+        if (!user.impersonation) {
+            throw new BadRequestException('Not impersonating a tenant');
+        }
+
+        const { sessionId } = user.impersonation;
+        await this.prisma.tenantImpersonation.updateMany({
+            where: { id: sessionId, endedAt: null },
+            data: { endedAt: new Date() },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId: user.tenantId,
+            userId: user.id,
+            action: 'IMPERSONATION_ENDED',
+            resource: 'impersonation',
+            entityId: sessionId,
+            details: {},
+        });
+
+        return { success: true, message: 'Impersonation ended' };
+    }
+
+    /**
+     * Impersonation sessions of a tenant, newest first
+     */
+    async findSessions(tenantId: string) {
+        await this.tenantsService.findOrThrow(tenantId);
+
+        return this.prisma.tenantImpersonation.findMany({
+            where: { tenantId },
+            include: { adminUser: { select: { id: true, email: true, firstName: true, lastName: true } } },
+            orderBy: { startedAt: 'desc' },
+            take: 50,
+        });
+    }
+}
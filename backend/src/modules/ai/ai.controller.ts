@@ -8,6 +8,8 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { EntitlementsGuard } from '../../common/guards/entitlements.guard';
+import { RequireEntitlements } from '../../common/decorators/require-entitlements.decorator';
 import { AiService } from './ai.service';
 import { CreateUserBehaviorDto } from './dto/create-user-behavior.dto';
 import { CreateAiRecommendationDto } from './dto/create-ai-recommendation.dto';
@@ -15,7 +17,7 @@ import { ListUserBehaviorQuery } from './dto/list-user-behavior.query';
 import { ListAiRecommendationsQuery } from './dto/list-ai-recommendations.query';
 
 @Controller('ai')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, EntitlementsGuard)
 export class AiController {
   constructor(private readonly aiService: AiService) {}
 
@@ -37,6 +39,7 @@ export class AiController {
   }
 
   @Post('recommendations')
+  @RequireEntitlements('AI_SUMMARY')
   async createRecommendation(
     @Body() dto: CreateAiRecommendationDto,
     @Request() req: any,
@@ -46,6 +49,7 @@ export class AiController {
   }
 
   @Get('recommendations')
+  @RequireEntitlements('AI_SUMMARY')
   async listRecommendations(
     @Query() query: ListAiRecommendationsQuery,
     @Request() req: any,
@@ -0,0 +1,184 @@
+/**
+ * Alert Evaluation Unit Tests
+ * @module alert-evaluation.service.spec
+ * @description Persisted AlertRule rows evaluated through the toolkit AlertEngine:
+ *   - BUDGET_PERCENT replaces the name-based Overspend check
+ *   - DROP_PERCENT compares against the previous window
+ *   - ACCOUNT scope evaluates all campaigns combined
+ *   - Results are ordered by severity
+ *   - Windows follow the tenant's calendar day, not the server's
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { AlertRuleType, AlertSeverity } from '@prisma/client';
+import { AlertEvaluationService } from './alert-evaluation.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AlertEngine } from '../../toolkit/services/alert-engine.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const rule = (overrides: Record<string, unknown>) => ({
+    id: 'rule-001',
+    tenantId: 'tenant-001',
+    campaignId: null,
+    name: 'Rule',
+    description: null,
+    alertType: AlertRuleType.CUSTOM,
+    metric: 'spend',
+    operator: 'gt',
+    threshold: 0,
+    severity: AlertSeverity.WARNING,
+    isActive: true,
+    conditionType: 'THRESHOLD',
+    scope: 'CAMPAIGN',
+    lookbackDays: 7,
+    ...overrides,
+});
+
+const totals = (campaignId: string, sum: Partial<Record<'impressions' | 'clicks' | 'spend' | 'conversions' | 'revenue', number>>) => ({
+    campaignId,
+    _sum: { impressions: 0, clicks: 0, spend: 0, conversions: 0, revenue: 0, ...sum },
+});
+
+const campaigns = [
+    { id: 'c1', name: 'Brand Search', platform: 'GOOGLE_ADS', budget: 1000 },
+    { id: 'c2', name: 'Retargeting', platform: 'FACEBOOK', budget: 5000 },
+];
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('AlertEvaluationService', () => {
+    let service: AlertEvaluationService;
+    let prisma: {
+        alertRule: { findMany: jest.Mock };
+        campaign: { findMany: jest.Mock };
+        metric: { groupBy: jest.Mock };
+    };
+    let tenantTimezone: { getTimezone: jest.Mock };
+
+    const givenMetrics = (current: unknown[], baseline: unknown[]) => {
+        prisma.metric.groupBy
+            .mockResolvedValueOnce(current)
+            .mockResolvedValueOnce(baseline);
+    };
+
+    beforeEach(async () => {
+        prisma = {
+            alertRule: { findMany: jest.fn() },
+            campaign: { findMany: jest.fn().mockResolvedValue(campaigns) },
+            metric: { groupBy: jest.fn() },
+        };
+        tenantTimezone = { getTimezone: jest.fn().mockResolvedValue('Asia/Bangkok') };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                AlertEvaluationService,
+                AlertEngine,
+                { provide: PrismaService, useValue: prisma },
+                { provide: TenantTimezoneService, useValue: tenantTimezone },
+            ],
+        }).compile();
+
+        service = module.get<AlertEvaluationService>(AlertEvaluationService);
+    });
+
+    it('should trigger BUDGET_PERCENT only for campaigns past the budget share', async () => {
+        prisma.alertRule.findMany.mockResolvedValue([
+            rule({ name: 'Overspend', conditionType: 'BUDGET_PERCENT', threshold: 110 }),
+        ]);
+        givenMetrics([totals('c1', { spend: 1200 }), totals('c2', { spend: 1200 })], []);
+
+        const result = await service.evaluateTenant('tenant-001');
+
+        expect(result).toHaveLength(1);
+        expect(result[0].campaign?.id).toBe('c1');
+        expect(result[0].result.values.threshold).toBe(1100);
+    });
+
+    it('should compare DROP_PERCENT rules with the previous window', async () => {
+        prisma.alertRule.findMany.mockResolvedValue([
+            rule({ name: 'CTR Drop', metric: 'ctr', conditionType: 'DROP_PERCENT', threshold: 30 }),
+        ]);
+        givenMetrics(
+            [totals('c1', { impressions: 1000, clicks: 10 }), totals('c2', { impressions: 1000, clicks: 18 })],
+            [totals('c1', { impressions: 1000, clicks: 20 }), totals('c2', { impressions: 1000, clicks: 20 })],
+        );
+
+        const result = await service.evaluateTenant('tenant-001');
+
+        expect(result.map((r) => r.campaign?.id)).toEqual(['c1']);
+        expect(result[0].result.values.dropPercent).toBeCloseTo(50);
+    });
+
+    it('should evaluate ACCOUNT scope against all campaigns combined', async () => {
+        prisma.alertRule.findMany.mockResolvedValue([
+            rule({ scope: 'ACCOUNT', operator: 'gt', threshold: 2000 }),
+        ]);
+        givenMetrics([totals('c1', { spend: 1200 }), totals('c2', { spend: 1200 })], []);
+
+        const result = await service.evaluateTenant('tenant-001');
+
+        expect(result).toHaveLength(1);
+        expect(result[0].scope).toBe('ACCOUNT');
+        expect(result[0].campaign).toBeNull();
+        expect(result[0].result.values.current).toBe(2400);
+    });
+
+    it('should order results by severity and skip mock metrics', async () => {
+        prisma.alertRule.findMany.mockResolvedValue([
+            rule({ id: 'r-info', severity: AlertSeverity.INFO }),
+            rule({ id: 'r-critical', severity: AlertSeverity.CRITICAL }),
+        ]);
+        givenMetrics([totals('c1', { spend: 10 })], []);
+
+        const result = await service.evaluateTenant('tenant-001', { dryRun: true });
+
+        expect(result.map((r) => r.rule.id)).toEqual(['r-critical', 'r-info']);
+        expect(prisma.metric.groupBy.mock.calls[0][0].where.isMockData).toBe(false);
+    });
+
+    describe('tenant timezone', () => {
+        afterEach(() => jest.useRealTimers());
+
+        const windowOf = (call: number) => prisma.metric.groupBy.mock.calls[call][0].where.date;
+
+        it('should end the window on the tenant\'s date when it differs from UTC', async () => {
+            // 2026-03-10 03:00 UTC = 2026-03-09 23:00 in New York, 10:00 in Bangkok
+            jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2026-03-10T03:00:00Z'));
+            prisma.alertRule.findMany.mockResolvedValue([rule({ lookbackDays: 7 })]);
+            tenantTimezone.getTimezone.mockResolvedValue('America/New_York');
+            givenMetrics([], []);
+
+            await service.evaluateTenant('tenant-001');
+
+            expect(tenantTimezone.getTimezone).toHaveBeenCalledWith('tenant-001');
+            expect(windowOf(0)).toEqual({
+                gte: new Date('2026-03-03T00:00:00.000Z'),
+                lte: new Date('2026-03-09T23:59:59.999Z'),
+            });
+            expect(windowOf(1)).toEqual({
+                gte: new Date('2026-02-24T00:00:00.000Z'),
+                lte: new Date('2026-03-02T23:59:59.999Z'),
+            });
+        });
+
+        it('should roll over to the next day at the tenant\'s midnight', async () => {
+            // 2026-03-09 17:00 UTC = 2026-03-10 00:00 in Bangkok
+            jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2026-03-09T17:00:00Z'));
+            prisma.alertRule.findMany.mockResolvedValue([rule({ lookbackDays: 1 })]);
+            givenMetrics([], []);
+
+            await service.evaluateTenant('tenant-001');
+
+            expect(windowOf(0)).toEqual({
+                gte: new Date('2026-03-10T00:00:00.000Z'),
+                lte: new Date('2026-03-10T23:59:59.999Z'),
+            });
+        });
+    });
+});
@@ -0,0 +1,232 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AlertRule as AlertRuleRecord, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DateRangeUtil } from '../../common/utils/date-range.util';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { PROVENANCE } from '../../common/provenance.constants';
+import {
+    AlertEngine,
+    AlertTriggerResult,
+    BaselineSnapshot,
+    MetricSnapshot,
+} from '../../toolkit/services/alert-engine.service';
+import { SEVERITY_PRIORITY } from '../../toolkit/rules/alert-rule.model';
+import { toEngineRule } from './alert-rule.mapper';
+
+/** Snapshot key used for ACCOUNT-scoped rules */
+export const ACCOUNT_SNAPSHOT_ID = '__account__';
+
+export interface AlertEvaluation {
+    rule: AlertRuleRecord;
+    scope: 'CAMPAIGN' | 'ACCOUNT';
+    campaign: { id: string; name: string; platform: string } | null;
+    result: AlertTriggerResult;
+    window: { start: Date; end: Date };
+}
+
+type MetricTotals = {
+    impressions: number;
+    clicks: number;
+    spend: number;
+    conversions: number;
+    revenue: number;
+};
+
+// =============================================================================
+// Alert Evaluation Service - feeds persisted rules through the toolkit AlertEngine
+// =============================================================================
+
+@Injectable()
+export class AlertEvaluationService {
+    private readonly logger = new Logger(AlertEvaluationService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly engine: AlertEngine,
+        private readonly tenantTimezone: TenantTimezoneService,
+    ) { }
+
+    /**
+     * Evaluate all active rules of a tenant.
+     *
+     * Each rule is evaluated over its own lookback window against the
+     * preceding window of the same length (the baseline). Windows end on
+     * today's date in the tenant timezone. Results are ordered most severe
+     * first. No data is written here.
+     */
+    async evaluateTenant(tenantId: string, options: { dryRun?: boolean } = {}): Promise<AlertEvaluation[]> {
+        const rules = await this.prisma.alertRule.findMany({
+            where: { tenantId, isActive: true },
+        });
+
+        if (rules.length === 0) {
+            return [];
+        }
+
+        const campaigns = await this.prisma.campaign.findMany({
+            where: { tenantId },
+            select: { id: true, name: true, platform: true, budget: true },
+        });
+        const campaignMap = new Map(campaigns.map((c) => [c.id, c]));
+
+        // Group rules by window so each window is aggregated once
+        const rulesByWindow = new Map<number, AlertRuleRecord[]>();
+        for (const rule of rules) {
+            const days = Math.max(1, rule.lookbackDays || 7);
+            rulesByWindow.set(days, [...(rulesByWindow.get(days) ?? []), rule]);
+        }
+
+        const evaluations: AlertEvaluation[] = [];
+        const timezone = await this.tenantTimezone.getTimezone(tenantId);
+
+        for (const [days, windowRules] of rulesByWindow) {
+            const current = DateRangeUtil.getDateRange(days, timezone);
+            const previous = DateRangeUtil.getPreviousPeriodDateRange(current.startDate, days);
+
+            const [currentTotals, baselineTotals] = await Promise.all([
+                this.aggregateByCampaign(tenantId, current.startDate, current.endDate),
+                this.aggregateByCampaign(tenantId, previous.startDate, previous.endDate),
+            ]);
+
+            const window = { start: current.startDate, end: current.endDate };
+            const snapshots: MetricSnapshot[] = [];
+            const baselines = new Map<string, BaselineSnapshot>();
+
+            for (const [campaignId, totals] of currentTotals) {
+                const campaign = campaignMap.get(campaignId);
+                if (!campaign) continue;
+                snapshots.push(this.toSnapshot(tenantId, campaignId, campaign.platform, totals, window.end, Number(campaign.budget ?? 0)));
+            }
+            for (const [campaignId, totals] of baselineTotals) {
+                baselines.set(campaignId, {
+                    metrics: this.toMetrics(totals),
+                    dateRange: { start: previous.startDate, end: previous.endDate },
+                });
+            }
+
+            // Account-level snapshot: all campaigns combined
+            const accountSnapshot = this.toSnapshot(
+                tenantId,
+                ACCOUNT_SNAPSHOT_ID,
+                'ALL',
+                this.sumTotals([...currentTotals.values()]),
+                window.end,
+                campaigns.reduce((sum, c) => sum + Number(c.budget ?? 0), 0),
+            );
+            baselines.set(ACCOUNT_SNAPSHOT_ID, {
+                metrics: this.toMetrics(this.sumTotals([...baselineTotals.values()])),
+                dateRange: { start: previous.startDate, end: previous.endDate },
+            });
+
+            for (const rule of windowRules) {
+                const engineRule = toEngineRule(rule);
+                const ruleSnapshots = engineRule.scope === 'ACCOUNT'
+                    ? (currentTotals.size > 0 ? [accountSnapshot] : [])
+                    : snapshots.filter((s) => !rule.campaignId || s.campaignId === rule.campaignId);
+
+                // One snapshot per call: trigger results carry no campaignId of their own
+                for (const snapshot of ruleSnapshots) {
+                    const result = this.engine.evaluateCheck(
+                        [snapshot],
+                        [engineRule],
+                        { tenantId, dateRange: window, dryRun: !!options.dryRun },
+                        baselines,
+                    );
+                    const campaign = campaignMap.get(snapshot.campaignId);
+
+                    for (const triggered of result.triggeredAlerts) {
+                        evaluations.push({
+                            rule,
+                            scope: engineRule.scope,
+                            campaign: campaign ? { id: campaign.id, name: campaign.name, platform: campaign.platform } : null,
+                            result: triggered,
+                            window,
+                        });
+                    }
+                }
+            }
+        }
+
+        this.logger.debug(`Evaluated ${rules.length} rules for tenant ${tenantId}: ${evaluations.length} triggered`);
+
+        return evaluations.sort(
+            (a, b) => SEVERITY_PRIORITY[b.result.severity] - SEVERITY_PRIORITY[a.result.severity],
+        );
+    }
+
+    // =========================================================================
+    // Helpers
+    // =========================================================================
+
+    private async aggregateByCampaign(tenantId: string, startDate: Date, endDate: Date): Promise<Map<string, MetricTotals>> {
+        const rows = await this.prisma.metric.groupBy({
+            by: ['campaignId'],
+            where: {
+                campaign: { tenantId },
+                date: { gte: startDate, lte: endDate },
+                ...PROVENANCE.REAL_DATA_FILTER,
+            },
+            _sum: {
+                impressions: true,
+                clicks: true,
+                spend: true,
+                conversions: true,
+                revenue: true,
+            },
+        });
+
+        return new Map(rows.map((row) => [row.campaignId, {
+            impressions: Number(row._sum.impressions ?? 0),
+            clicks: Number(row._sum.clicks ?? 0),
+            spend: this.toNumber(row._sum.spend),
+            conversions: Number(row._sum.conversions ?? 0),
+            revenue: this.toNumber(row._sum.revenue),
+        }]));
+    }
+
+    private sumTotals(list: MetricTotals[]): MetricTotals {
+        return list.reduce(
+            (acc, t) => ({
+                impressions: acc.impressions + t.impressions,
+                clicks: acc.clicks + t.clicks,
+                spend: acc.spend + t.spend,
+                conversions: acc.conversions + t.conversions,
+                revenue: acc.revenue + t.revenue,
+            }),
+            { impressions: 0, clicks: 0, spend: 0, conversions: 0, revenue: 0 },
+        );
+    }
+
+    private toMetrics(t: MetricTotals): MetricSnapshot['metrics'] {
+        return {
+            ...t,
+            ctr: t.impressions > 0 ? (t.clicks / t.impressions) * 100 : 0,
+            cpc: t.clicks > 0 ? t.spend / t.clicks : 0,
+            cvr: t.clicks > 0 ? (t.conversions / t.clicks) * 100 : 0,
+            roas: t.spend > 0 ? t.revenue / t.spend : 0,
+        };
+    }
+
+    private toSnapshot(
+        tenantId: string,
+        campaignId: string,
+        platform: string,
+        totals: MetricTotals,
+        date: Date,
+        budget: number,
+    ): MetricSnapshot {
+        return {
+            tenantId,
+            campaignId,
+            date,
+            platform,
+            budget: budget > 0 ? budget : undefined,
+            metrics: this.toMetrics(totals),
+        };
+    }
+
+    private toNumber(value: Prisma.Decimal | number | null | undefined): number {
+        if (value === null || value === undefined) return 0;
+        return typeof value === 'number' ? value : value.toNumber();
+    }
+}
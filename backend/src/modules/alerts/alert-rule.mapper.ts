@@ -0,0 +1,98 @@
+import { AlertRule as AlertRuleRecord, AlertSeverity } from '@prisma/client';
+import { AlertCondition, MetricSnapshot } from '../../toolkit/services/alert-engine.service';
+import { AlertRule as EngineAlertRule, AlertSeverity as EngineSeverity, RuleScope } from '../../toolkit/rules/alert-rule.model';
+import { ruleValidator, RuleValidationError } from '../../toolkit/rules/rule-validator';
+
+// =============================================================================
+// Persisted AlertRule <-> toolkit AlertEngine rule mapping
+// =============================================================================
+
+export const ALERT_CONDITION_TYPES = [
+    'THRESHOLD',
+    'DROP_PERCENT',
+    'INCREASE_PERCENT',
+    'ZERO_CONVERSIONS',
+    'BUDGET_PERCENT',
+] as const;
+
+export type AlertConditionType = typeof ALERT_CONDITION_TYPES[number];
+
+export const ALERT_RULE_SCOPES: RuleScope[] = ['CAMPAIGN', 'ACCOUNT'];
+
+const SEVERITY_TO_ENGINE: Record<AlertSeverity, EngineSeverity> = {
+    [AlertSeverity.INFO]: 'LOW',
+    [AlertSeverity.WARNING]: 'MEDIUM',
+    [AlertSeverity.CRITICAL]: 'CRITICAL',
+};
+
+type RuleFields = Pick<
+    AlertRuleRecord,
+    'id' | 'tenantId' | 'name' | 'metric' | 'operator' | 'threshold' | 'severity' | 'isActive' | 'conditionType' | 'scope'
+>;
+
+/**
+ * Build the engine condition from the flat columns stored on AlertRule.
+ * `threshold` is the value, percentage or minimum spend depending on the type.
+ */
+export function toEngineCondition(rule: Pick<RuleFields, 'metric' | 'operator' | 'threshold' | 'conditionType'>): AlertCondition {
+    const metric = rule.metric as keyof MetricSnapshot['metrics'];
+    const threshold = Number(rule.threshold);
+
+    switch (rule.conditionType) {
+        case 'DROP_PERCENT':
+        case 'INCREASE_PERCENT':
+            return { type: rule.conditionType, metric, thresholdPercent: threshold };
+        case 'ZERO_CONVERSIONS':
+            return { type: 'ZERO_CONVERSIONS', minSpend: threshold };
+        case 'BUDGET_PERCENT':
+            return { type: 'BUDGET_PERCENT', thresholdPercent: threshold };
+        case 'THRESHOLD':
+        default:
+            return {
+                type: 'THRESHOLD',
+                metric,
+                operator: rule.operator?.toUpperCase() as Extract<AlertCondition, { type: 'THRESHOLD' }>['operator'],
+                value: threshold,
+            };
+    }
+}
+
+export function toEngineRule(rule: RuleFields): EngineAlertRule {
+    return {
+        id: rule.id,
+        tenantId: rule.tenantId,
+        name: rule.name,
+        enabled: rule.isActive,
+        severity: SEVERITY_TO_ENGINE[rule.severity] ?? 'MEDIUM',
+        scope: (rule.scope as RuleScope) || 'CAMPAIGN',
+        condition: toEngineCondition(rule),
+    };
+}
+
+/**
+ * Validate a rule with the toolkit RuleValidator before it is persisted,
+ * so the scheduler never loads a rule the engine cannot evaluate.
+ */
+export function validateRuleFields(rule: RuleFields): RuleValidationError[] {
+    const errors: RuleValidationError[] = [];
+
+    if (!ALERT_CONDITION_TYPES.includes(rule.conditionType as AlertConditionType)) {
+        errors.push({
+            field: 'conditionType',
+            code: 'INVALID_VALUE',
+            message: `Invalid conditionType "${rule.conditionType}". Valid: ${ALERT_CONDITION_TYPES.join(', ')}`,
+        });
+    }
+
+    if (!ALERT_RULE_SCOPES.includes(rule.scope as RuleScope)) {
+        errors.push({
+            field: 'scope',
+            code: 'INVALID_VALUE',
+            message: `Invalid scope "${rule.scope}". Valid: ${ALERT_RULE_SCOPES.join(', ')}`,
+        });
+    }
+
+    if (errors.length > 0) return errors;
+
+    return ruleValidator.validate(toEngineRule(rule)).errors;
+}
@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../prisma/prisma.service';
 import { AlertService } from './alert.service';
+import { ACTIVE_TENANT_WHERE } from '../../common/constants/app.constants';
+import { RUNNING_STATUSES } from '../subscription/subscription-lifecycle.service';
 
 // =============================================================================
 // Alert Scheduler Service - Watchdog for Automated Alert Checking
@@ -31,10 +33,11 @@ export class AlertSchedulerService {
         this.logger.log('🔔 Starting scheduled alert check...');
 
         try {
-            // Fetch all active tenants
+            // Fetch all tenants on a running trial or subscription (not deleted or suspended)
             const tenants = await this.prisma.tenant.findMany({
                 where: {
-                    subscriptionStatus: 'ACTIVE',
+                    subscriptionStatus: { in: RUNNING_STATUSES },
+                    ...ACTIVE_TENANT_WHERE,
                 },
                 select: {
                     id: true,
@@ -11,11 +11,18 @@ import {
     Request,
 } from '@nestjs/common';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { AlertService } from './alert.service';
+import { AlertRuleInput, AlertService } from './alert.service';
 import { AlertSeverity, AlertStatus } from '@prisma/client';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { EntitlementsGuard } from '../../common/guards/entitlements.guard';
+import { RequireEntitlements } from '../../common/decorators/require-entitlements.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
 
 @Controller('alerts')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementsGuard)
+@RequirePermissions('alerts:read')
 export class AlertController {
     constructor(private readonly alertService: AlertService) { }
 
@@ -29,11 +36,15 @@ export class AlertController {
     }
 
     @Post('rules/init')
+    @RequirePermissions('alerts:manage')
+    @RequireEntitlements('ALERTS')
     async initializePresetRules(@Request() req) {
         return this.alertService.initializePresetRules(req.user.tenantId);
     }
 
     @Post('rules')
+    @RequirePermissions('alerts:manage')
+    @RequireEntitlements('ALERTS')
     async createRule(
         @Request() req,
         @Body() body: {
@@ -43,6 +54,12 @@ export class AlertController {
             threshold: number;
             severity?: string;
             description?: string;
+            conditionType?: AlertRuleInput['conditionType'];
+            scope?: AlertRuleInput['scope'];
+            lookbackDays?: number;
+            campaignId?: string;
+            notificationChannels?: AlertRuleInput['notificationChannels'];
+            recipients?: AlertRuleInput['recipients'];
         },
     ) {
         // Cast severity string to enum if provided
@@ -53,25 +70,37 @@ export class AlertController {
             threshold: body.threshold,
             severity: body.severity ? (body.severity as AlertSeverity) : undefined,
             description: body.description,
+            conditionType: body.conditionType,
+            scope: body.scope,
+            lookbackDays: body.lookbackDays,
+            campaignId: body.campaignId,
+            notificationChannels: body.notificationChannels,
+            recipients: body.recipients,
         };
         return this.alertService.createRule(req.user.tenantId, data);
     }
 
     @Put('rules/:id')
+    @RequirePermissions('alerts:manage')
+    @RequireEntitlements('ALERTS')
     async updateRule(
         @Request() req,
         @Param('id') id: string,
-        @Body() body: any,
+        @Body() body: Partial<AlertRuleInput>,
     ) {
         return this.alertService.updateRule(id, req.user.tenantId, body);
     }
 
     @Put('rules/:id/toggle')
+    @RequirePermissions('alerts:manage')
+    @RequireEntitlements('ALERTS')
     async toggleRule(@Request() req, @Param('id') id: string) {
         return this.alertService.toggleRule(id, req.user.tenantId);
     }
 
     @Delete('rules/:id')
+    @RequirePermissions('alerts:manage')
+    @RequireEntitlements('ALERTS')
     async deleteRule(@Request() req, @Param('id') id: string) {
         return this.alertService.deleteRule(id, req.user.tenantId);
     }
@@ -83,6 +112,7 @@ export class AlertController {
     @Get()
     async getAlerts(
         @Request() req,
+        @CurrentCampaignScope() scope: CampaignScope,
         @Query('status') status?: string,
         @Query('severity') severity?: string,
         @Query('limit') limit?: string,
@@ -92,30 +122,41 @@ export class AlertController {
             status: status ? (status as AlertStatus) : undefined,
             severity: severity ? (severity as AlertSeverity) : undefined,
             limit: limit ? parseInt(limit) : undefined,
-        });
+        }, scope);
     }
 
     @Get('count')
-    async getOpenAlertsCount(@Request() req) {
-        return this.alertService.getOpenAlertsCount(req.user.tenantId);
+    async getOpenAlertsCount(@Request() req, @CurrentCampaignScope() scope: CampaignScope) {
+        return this.alertService.getOpenAlertsCount(req.user.tenantId, scope);
     }
 
     @Post('check')
-    async checkAlerts(@Request() req) {
-        return this.alertService.checkAlerts(req.user.tenantId);
+    @RequirePermissions('alerts:manage')
+    @RequireEntitlements('ALERTS')
+    async checkAlerts(@Request() req, @Query('dryRun') dryRun?: string) {
+        // dryRun=true previews triggered rules without creating alerts
+        return this.alertService.checkAlerts(req.user.tenantId, {
+            dryRun: dryRun === 'true',
+        });
     }
 
     @Put(':id/acknowledge')
+    @RequirePermissions('alerts:manage')
+    @RequireEntitlements('ALERTS')
     async acknowledgeAlert(@Request() req, @Param('id') id: string) {
         return this.alertService.acknowledgeAlert(id, req.user.tenantId);
     }
 
     @Put(':id/resolve')
+    @RequirePermissions('alerts:manage')
+    @RequireEntitlements('ALERTS')
     async resolveAlert(@Request() req, @Param('id') id: string) {
         return this.alertService.resolveAlert(id, req.user.tenantId);
     }
 
     @Post('resolve-all')
+    @RequirePermissions('alerts:manage')
+    @RequireEntitlements('ALERTS')
     async resolveAllAlerts(@Request() req) {
         return this.alertService.resolveAllAlerts(req.user.tenantId);
     }
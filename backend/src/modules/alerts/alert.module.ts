@@ -2,6 +2,8 @@ import { Module, forwardRef } from '@nestjs/common';
 import { AlertController } from './alert.controller';
 import { AlertService } from './alert.service';
 import { AlertSchedulerService } from './alert-scheduler.service';
+import { AlertEvaluationService } from './alert-evaluation.service';
+import { AlertEngine } from '../../toolkit/services/alert-engine.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { NotificationModule } from '../notification/notification.module';
 
@@ -12,7 +14,7 @@ import { NotificationModule } from '../notification/notification.module';
         forwardRef(() => NotificationModule),
     ],
     controllers: [AlertController],
-    providers: [AlertService, AlertSchedulerService],
+    providers: [AlertService, AlertSchedulerService, AlertEvaluationService, AlertEngine],
     exports: [AlertService, AlertSchedulerService],
 })
 export class AlertModule { }
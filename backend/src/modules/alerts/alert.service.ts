@@ -1,7 +1,28 @@
-import { Injectable, Logger, forwardRef, Inject } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, NotFoundException, forwardRef, Inject } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { NotificationService } from '../notification/notification.service';
-import { Prisma, AlertRuleType, AlertSeverity, AlertStatus } from '@prisma/client';
+import { AlertDeliveryService } from '../notification/delivery/alert-delivery.service';
+import { AlertRuleRecipients } from '../notification/delivery/alert-recipients';
+import { Prisma, AlertRuleType, AlertSeverity, AlertStatus, NotificationChannel } from '@prisma/client';
+import { AlertEvaluation, AlertEvaluationService } from './alert-evaluation.service';
+import { AlertConditionType, validateRuleFields } from './alert-rule.mapper';
+import { RuleScope } from '../../toolkit/rules/alert-rule.model';
+import { CampaignScope, campaignRelationScope } from '../../common/utils/campaign-scope.util';
+import { assertPublicHttpsUrl } from '../../common/utils/public-url.util';
+
+export interface AlertRuleInput {
+    name: string;
+    metric: string;
+    operator: string;
+    threshold: number;
+    severity?: AlertSeverity;
+    description?: string;
+    conditionType?: AlertConditionType;
+    scope?: RuleScope;
+    lookbackDays?: number;
+    campaignId?: string | null;
+    notificationChannels?: NotificationChannel[];
+    recipients?: AlertRuleRecipients;
+}
 
 // Preset Alert Rules - using Prisma enum types
 const PRESET_RULES: Array<{
@@ -12,6 +33,8 @@ const PRESET_RULES: Array<{
     threshold: number;
     severity: AlertSeverity;
     description: string;
+    conditionType?: AlertConditionType;
+    lookbackDays?: number;
 }> = [
         {
             name: 'Low ROAS',
@@ -35,10 +58,11 @@ const PRESET_RULES: Array<{
             name: 'Overspend',
             type: AlertRuleType.PRESET,
             metric: 'spend',
-            operator: 'gt',
-            threshold: 1.1,
+            operator: 'gte',
+            threshold: 110,
             severity: AlertSeverity.WARNING,
             description: 'ใช้งบเกิน 110% ของ budget',
+            conditionType: 'BUDGET_PERCENT',
         },
         {
             name: 'No Conversions',
@@ -54,9 +78,10 @@ const PRESET_RULES: Array<{
             type: AlertRuleType.PRESET,
             metric: 'ctr',
             operator: 'lt',
-            threshold: 0.7,
+            threshold: 30,
             severity: AlertSeverity.WARNING,
             description: 'CTR ลดลง 30% จากสัปดาห์ก่อน',
+            conditionType: 'DROP_PERCENT',
         },
         {
             name: 'Inactive Campaign',
@@ -66,6 +91,7 @@ const PRESET_RULES: Array<{
             threshold: 0,
             severity: AlertSeverity.INFO,
             description: 'ไม่มี Impressions ใน 3 วัน',
+            lookbackDays: 3,
         },
     ];
 
@@ -75,8 +101,9 @@ export class AlertService {
 
     constructor(
         private readonly prisma: PrismaService,
-        @Inject(forwardRef(() => NotificationService))
-        private readonly notificationService: NotificationService,
+        private readonly evaluationService: AlertEvaluationService,
+        @Inject(forwardRef(() => AlertDeliveryService))
+        private readonly alertDeliveryService: AlertDeliveryService,
     ) { }
 
     // ============================================
@@ -112,6 +139,8 @@ export class AlertService {
                         threshold: rule.threshold,
                         severity: rule.severity,
                         description: rule.description,
+                        conditionType: rule.conditionType,
+                        lookbackDays: rule.lookbackDays,
                     },
                 }),
             ),
@@ -121,33 +150,145 @@ export class AlertService {
         return createdRules;
     }
 
-    async createRule(tenantId: string, data: {
-        name: string;
-        metric: string;
-        operator: string;
-        threshold: number;
-        severity?: AlertSeverity;
-        description?: string;
-    }) {
+    async createRule(tenantId: string, data: AlertRuleInput) {
+        const fields = {
+            name: data.name,
+            metric: data.metric,
+            operator: data.operator,
+            threshold: data.threshold,
+            severity: data.severity || AlertSeverity.WARNING,
+            conditionType: data.conditionType || 'THRESHOLD',
+            scope: data.scope || 'CAMPAIGN',
+            lookbackDays: data.lookbackDays ?? 7,
+        };
+        await this.assertRuleValid(tenantId, { ...fields, campaignId: data.campaignId });
+
         return this.prisma.alertRule.create({
             data: {
-                tenant: { connect: { id: tenantId } },
-                name: data.name,
-                metric: data.metric,
-                operator: data.operator,
-                threshold: data.threshold,
+                tenantId,
+                ...fields,
                 alertType: AlertRuleType.CUSTOM,  // Schema V2 uses alertType
-                severity: data.severity || AlertSeverity.WARNING,
                 description: data.description,
+                campaignId: data.campaignId || null,
+                ...this.toDeliveryFields(data),
             },
         });
     }
 
-    async updateRule(ruleId: string, tenantId: string, data: Prisma.AlertRuleUpdateInput) {
+    async updateRule(ruleId: string, tenantId: string, data: Partial<AlertRuleInput>) {
+        const rule = await this.prisma.alertRule.findFirst({
+            where: { id: ruleId, tenantId },
+        });
+
+        if (!rule) {
+            throw new NotFoundException('Rule not found');
+        }
+
+        const merged = {
+            name: data.name ?? rule.name,
+            metric: data.metric ?? rule.metric,
+            operator: data.operator ?? rule.operator,
+            threshold: data.threshold ?? Number(rule.threshold),
+            severity: data.severity ?? rule.severity,
+            conditionType: data.conditionType ?? rule.conditionType,
+            scope: data.scope ?? rule.scope,
+            lookbackDays: data.lookbackDays ?? rule.lookbackDays,
+            campaignId: data.campaignId !== undefined ? data.campaignId : rule.campaignId,
+        };
+        await this.assertRuleValid(tenantId, merged, rule);
+
         return this.prisma.alertRule.update({
             where: { id: ruleId },
-            data,
+            data: {
+                name: merged.name,
+                metric: merged.metric,
+                operator: merged.operator,
+                threshold: merged.threshold,
+                severity: merged.severity,
+                conditionType: merged.conditionType,
+                scope: merged.scope,
+                lookbackDays: merged.lookbackDays,
+                description: data.description,
+                campaignId: merged.campaignId,
+                ...this.toDeliveryFields(data),
+            },
+        });
+    }
+
+    /**
+     * Validate notification channels/recipients; only fields present in the input are returned
+     */
+    private toDeliveryFields(data: Partial<AlertRuleInput>): Pick<Prisma.AlertRuleUncheckedCreateInput, 'notificationChannels' | 'recipients'> {
+        const fields: Pick<Prisma.AlertRuleUncheckedCreateInput, 'notificationChannels' | 'recipients'> = {};
+
+        if (data.notificationChannels !== undefined) {
+            const valid = Object.values(NotificationChannel) as string[];
+            const invalid = (data.notificationChannels ?? []).filter((c) => !valid.includes(c));
+            if (!Array.isArray(data.notificationChannels) || invalid.length > 0) {
+                throw new BadRequestException(`Invalid notificationChannels. Valid: ${valid.join(', ')}`);
+            }
+            fields.notificationChannels = [...new Set(data.notificationChannels)];
+        }
+
+        if (data.recipients !== undefined) {
+            const recipients = data.recipients ?? {};
+            const webhooks = (recipients.webhooks ?? []).map((w) => (typeof w === 'string' ? w : w?.url));
+            for (const url of webhooks) {
+                if (typeof url !== 'string') {
+                    throw new BadRequestException('recipients.webhooks must be https URLs');
+                }
+                try {
+                    assertPublicHttpsUrl(url);
+                } catch (error) {
+                    throw new BadRequestException(`recipients.webhooks: ${(error as Error).message}`);
+                }
+            }
+            fields.recipients = recipients as Prisma.InputJsonObject;
+        }
+
+        return fields;
+    }
+
+    /**
+     * Reject rules the AlertEngine could not evaluate, and campaigns outside the tenant
+     */
+    private async assertRuleValid(
+        tenantId: string,
+        fields: Omit<Required<AlertRuleInput>, 'description' | 'campaignId' | 'conditionType' | 'scope' | 'notificationChannels' | 'recipients'> & {
+            conditionType: string;
+            scope: string;
+            campaignId?: string | null;
+        },
+        existing?: { id: string; isActive: boolean },
+    ) {
+        if (!Number.isInteger(fields.lookbackDays) || fields.lookbackDays < 1 || fields.lookbackDays > 90) {
+            throw new BadRequestException('lookbackDays must be an integer between 1 and 90');
+        }
+
+        const errors = validateRuleFields({
+            id: existing?.id ?? 'new',
+            tenantId,
+            isActive: existing?.isActive ?? true,
+            ...fields,
+            threshold: new Prisma.Decimal(fields.threshold),
         });
+
+        if (errors.length > 0) {
+            throw new BadRequestException({
+                message: 'Invalid alert rule',
+                errors,
+            });
+        }
+
+        if (fields.campaignId) {
+            const campaign = await this.prisma.campaign.findFirst({
+                where: { id: fields.campaignId, tenantId },
+                select: { id: true },
+            });
+            if (!campaign) {
+                throw new BadRequestException('Campaign not found for this tenant');
+            }
+        }
     }
 
     async toggleRule(ruleId: string, tenantId: string) {
@@ -191,10 +332,11 @@ export class AlertService {
         status?: AlertStatus;
         severity?: AlertSeverity;
         limit?: number;
-    }) {
+    }, scope?: CampaignScope) {
         const { status, severity, limit = 50 } = options || {};
 
-        const whereClause: Prisma.AlertWhereInput = { tenantId };
+        // Scoped users only see alerts raised on their campaigns
+        const whereClause: Prisma.AlertWhereInput = { tenantId, ...campaignRelationScope(scope) };
         if (status) whereClause.status = status;
         if (severity) whereClause.severity = severity;
 
@@ -213,11 +355,12 @@ export class AlertService {
         });
     }
 
-    async getOpenAlertsCount(tenantId: string) {
+    async getOpenAlertsCount(tenantId: string, scope?: CampaignScope) {
         const counts = await this.prisma.alert.groupBy({
             by: ['severity'],
             where: {
                 tenantId,
+                ...campaignRelationScope(scope),
                 status: AlertStatus.OPEN,
             },
             _count: true,
@@ -265,131 +408,104 @@ export class AlertService {
     // Alert Checking (Batch / On-Demand)
     // ============================================
 
-    async checkAlerts(tenantId: string) {
-        this.logger.log(`Checking alerts for tenant ${tenantId}`);
+    /**
+     * Evaluate active rules through the AlertEngine.
+     * With dryRun the triggered results are returned without creating alerts
+     * or sending notifications.
+     */
+    async checkAlerts(tenantId: string, options: { dryRun?: boolean } = {}) {
+        this.logger.log(`Checking alerts for tenant ${tenantId}${options.dryRun ? ' (dry run)' : ''}`);
 
-        const rules = await this.prisma.alertRule.findMany({
-            where: { tenantId, isActive: true },
-        });
+        const evaluations = await this.evaluationService.evaluateTenant(tenantId, options);
 
-        if (rules.length === 0) {
-            this.logger.log('No active rules found');
-            return [];
+        if (options.dryRun) {
+            return evaluations.map((evaluation) => this.toPreview(evaluation));
         }
 
-        const sevenDaysAgo = new Date();
-        sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+        const newAlerts: any[] = [];
 
-        const campaigns = await this.prisma.campaign.findMany({
-            where: { tenantId },
-            include: {
-                metrics: {
-                    where: { date: { gte: sevenDaysAgo } },
+        for (const evaluation of evaluations) {
+            const { rule, campaign } = evaluation;
+            const type = rule.name.toUpperCase().replace(/ /g, '_');
+            const campaignId = campaign?.id ?? null;
+
+            const existingAlert = await this.prisma.alert.findFirst({
+                where: {
+                    tenantId,
+                    campaignId,
+                    type,
+                    status: { not: AlertStatus.RESOLVED },
                 },
-            },
-        });
+            });
+
+            if (existingAlert) continue;
+
+            const alert = await this.prisma.alert.create({
+                data: {
+                    tenant: { connect: { id: tenantId } },
+                    rule: { connect: { id: rule.id } },
+                    ...(campaignId && { campaign: { connect: { id: campaignId } } }),
+                    type,
+                    severity: rule.severity,
+                    title: `${rule.name}: ${campaign?.name ?? 'All campaigns'}`,
+                    message: this.generateAlertMessage(evaluation),
+                    metadata: this.buildAlertMetadata(evaluation),
+                },
+            });
 
-        const newAlerts: any[] = [];
+            await this.prisma.alertRule.update({
+                where: { id: rule.id },
+                data: {
+                    lastTriggeredAt: new Date(),
+                    triggerCount: { increment: 1 },
+                },
+            });
 
-        for (const campaign of campaigns) {
-            if (campaign.metrics.length === 0) continue;
-
-            const aggregated = this.aggregateMetrics(campaign.metrics);
-
-            for (const rule of rules) {
-                // Convert Decimal budget to number for comparison
-                const budgetNum = Number(campaign.budget ?? 0);
-                const violated = this.checkRule(rule, aggregated, budgetNum);
-
-                if (violated) {
-                    const existingAlert = await this.prisma.alert.findFirst({
-                        where: {
-                            tenantId,
-                            campaignId: campaign.id,
-                            type: rule.name.toUpperCase().replace(/ /g, '_'),
-                            status: { not: AlertStatus.RESOLVED },
-                        },
-                    });
-
-                    if (!existingAlert) {
-                        const alert = await this.prisma.alert.create({
-                            data: {
-                                tenant: { connect: { id: tenantId } },
-                                rule: { connect: { id: rule.id } },
-                                campaign: { connect: { id: campaign.id } },
-                                type: rule.name.toUpperCase().replace(/ /g, '_'),
-                                severity: rule.severity,
-                                title: `${rule.name}: ${campaign.name}`,
-                                message: this.generateAlertMessage(rule, aggregated, campaign.name),
-                                metadata: {
-                                    metric: rule.metric,
-                                    value: aggregated[rule.metric],
-                                    threshold: rule.threshold,
-                                },
-                            },
-                        });
-
-                        // 🔔 Trigger notifications for all tenant users
-                        await this.notificationService.triggerFromAlert(alert);
-
-                        newAlerts.push(alert);
-                    }
-                }
+            // 🔔 Deliver over the rule's channels (in-app, email, LINE, SMS, webhook)
+            try {
+                await this.alertDeliveryService.deliverAlert(alert);
+            } catch (error) {
+                this.logger.error(`Delivery failed for alert ${alert.id}: ${error instanceof Error ? error.message : error}`);
             }
+
+            newAlerts.push(alert);
         }
 
         this.logger.log(`Created ${newAlerts.length} new alerts`);
         return newAlerts;
     }
 
-    private aggregateMetrics(metrics: any[]) {
-        const totals = metrics.reduce(
-            (acc, m) => ({
-                impressions: acc.impressions + m.impressions,
-                clicks: acc.clicks + m.clicks,
-                spend: acc.spend + m.spend,
-                conversions: acc.conversions + m.conversions,
-                revenue: acc.revenue + m.revenue,
-            }),
-            { impressions: 0, clicks: 0, spend: 0, conversions: 0, revenue: 0 },
-        );
-
+    private toPreview(evaluation: AlertEvaluation) {
+        const { rule, campaign, result, scope } = evaluation;
         return {
-            ...totals,
-            ctr: totals.impressions > 0 ? (totals.clicks / totals.impressions) * 100 : 0,
-            cpc: totals.clicks > 0 ? totals.spend / totals.clicks : 0,
-            roas: totals.spend > 0 ? totals.revenue / totals.spend : 0,
+            ruleId: rule.id,
+            ruleName: rule.name,
+            severity: rule.severity,
+            scope,
+            campaign,
+            message: this.generateAlertMessage(evaluation),
+            metadata: this.buildAlertMetadata(evaluation),
+            evaluatedAt: result.evaluatedAt,
         };
     }
 
-    private checkRule(rule: any, metrics: any, budget?: number | null) {
-        const value = metrics[rule.metric];
-        let threshold = rule.threshold;
-
-        if (rule.name === 'Overspend' && budget) {
-            threshold = budget * rule.threshold;
-        }
-
-        switch (rule.operator) {
-            case 'gt':
-                return value > threshold;
-            case 'lt':
-                return value < threshold;
-            case 'eq':
-                return value === threshold;
-            case 'gte':
-                return value >= threshold;
-            case 'lte':
-                return value <= threshold;
-            default:
-                return false;
-        }
+    private buildAlertMetadata({ rule, result, scope, window }: AlertEvaluation): Prisma.InputJsonObject {
+        return {
+            metric: rule.metric,
+            conditionType: rule.conditionType,
+            scope,
+            value: result.values.current ?? null,
+            threshold: result.values.threshold ?? Number(rule.threshold),
+            baseline: result.values.baseline ?? null,
+            dropPercent: result.values.dropPercent ?? null,
+            increasePercent: result.values.increasePercent ?? null,
+            budget: result.values.budget ?? null,
+            window: { start: window.start.toISOString(), end: window.end.toISOString() },
+        };
     }
 
-    private generateAlertMessage(rule: any, metrics: any, campaignName: string) {
-        const value = metrics[rule.metric];
-        const formatted = typeof value === 'number' ? value.toFixed(2) : value;
-
-        return `Campaign "${campaignName}" มี ${rule.metric} = ${formatted} (เกณฑ์: ${rule.operator} ${rule.threshold})`;
+    private generateAlertMessage({ campaign, result }: AlertEvaluation) {
+        const subject = campaign ? `Campaign "${campaign.name}"` : 'บัญชีรวมทุกแคมเปญ';
+        return `${subject}: ${result.reason}`;
     }
 }
@@ -13,9 +13,11 @@ export class AuditLogsService {
     constructor(private prisma: PrismaService) { }
 
     async createLog(data: {
+        tenantId?: string;
         userId?: string;
         action: string;
         resource: string;  // Maps to entityType
+        entityId?: string;
         details?: any;     // Maps to changes
         ipAddress?: string;
         userAgent?: string;
@@ -23,9 +25,11 @@ export class AuditLogsService {
         try {
             await this.prisma.auditLog.create({
                 data: {
+                    tenantId: data.tenantId,
                     userId: data.userId,
                     action: data.action,
                     entityType: data.resource,  // Schema V2 field name
+                    entityId: data.entityId,
                     changes: data.details ? JSON.stringify(data.details) : null, // Schema V2 field name
                     ipAddress: data.ipAddress,
                     userAgent: data.userAgent,
@@ -2,10 +2,20 @@ import { Controller, Post, Body, Req, HttpCode, HttpStatus, Get, Query } from '@
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { Request } from 'express';
 import { AuthService } from './auth.service';
-import { RegisterDto, LoginDto, ForgotPasswordDto, ResetPasswordDto } from './dto';
+import { AllowWhenReadOnly } from '../../common/decorators/allow-when-read-only.decorator';
+import {
+  RegisterDto,
+  LoginDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyTwoFactorDto,
+  TwoFactorChallengeDto,
+  ConfirmTwoFactorChallengeSetupDto,
+} from './dto';
 
 @ApiTags('Authentication')
 @Controller('auth')
+@AllowWhenReadOnly()
 export class AuthController {
   constructor(private readonly authService: AuthService) { }
 
@@ -19,11 +29,36 @@ export class AuthController {
   @Post('login')
   @HttpCode(HttpStatus.OK)  // ✅ Contract: Login returns 200 OK (not 201)
   @ApiOperation({ summary: 'Login with brute force protection' })
-  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 200, description: 'Login successful, or a 2FA challenge (twoFactorRequired / twoFactorSetupRequired)' })
   login(@Body() dto: LoginDto, @Req() request: Request) {
     return this.authService.login(dto, request);
   }
 
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete login with a TOTP or recovery code' })
+  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 401, description: 'Invalid code or expired challenge' })
+  verifyTwoFactor(@Body() dto: VerifyTwoFactorDto, @Req() request: Request) {
+    return this.authService.verifyTwoFactorLogin(dto, request);
+  }
+
+  @Post('2fa/challenge/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start required 2FA enrolment during login' })
+  @ApiResponse({ status: 200, description: 'Secret, otpauth URL and QR code' })
+  beginChallengeSetup(@Body() dto: TwoFactorChallengeDto) {
+    return this.authService.beginTwoFactorChallengeSetup(dto.challengeToken);
+  }
+
+  @Post('2fa/challenge/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm required 2FA enrolment and complete login' })
+  @ApiResponse({ status: 200, description: 'Login successful with one-time recovery codes' })
+  confirmChallengeSetup(@Body() dto: ConfirmTwoFactorChallengeSetupDto, @Req() request: Request) {
+    return this.authService.confirmTwoFactorChallengeSetup(dto, request);
+  }
+
   @Post('refresh')
   @HttpCode(HttpStatus.OK)  // ✅ Contract: Refresh returns 200 OK (not 201)
   @ApiOperation({ summary: 'Refresh Access Token' })
@@ -9,7 +9,7 @@
  * Used by GlobalExceptionFilter to return standardized API errors.
  */
 
-import { UnauthorizedException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { UnauthorizedException, ConflictException, ForbiddenException, BadRequestException } from '@nestjs/common';
 
 // =============================================================================
 // Authentication Errors (401 Unauthorized)
@@ -94,6 +94,18 @@ export class AccountInactiveException extends ForbiddenException {
     }
 }
 
+/**
+ * Thrown when the user's organization was suspended by a super admin
+ */
+export class TenantSuspendedException extends ForbiddenException {
+    constructor() {
+        super({
+            error: 'TENANT_SUSPENDED',
+            message: 'Your organization has been suspended. Please contact support.',
+        });
+    }
+}
+
 /**
  * Thrown when user tries to login before verifying email
  */
@@ -130,6 +142,75 @@ export class EmailVerificationTokenExpiredException extends UnauthorizedExceptio
     }
 }
 
+// =============================================================================
+// Two-Factor Authentication Errors
+// =============================================================================
+
+/**
+ * Thrown when a TOTP or recovery code is wrong
+ * @param remainingAttempts - Number of attempts before account lockout
+ */
+export class InvalidTwoFactorCodeException extends UnauthorizedException {
+    constructor(remainingAttempts?: number) {
+        const hasRemainingInfo = remainingAttempts !== undefined && remainingAttempts > 0;
+        super({
+            error: 'INVALID_TWO_FACTOR_CODE',
+            message: hasRemainingInfo
+                ? `Invalid authentication code. ${remainingAttempts} attempts remaining.`
+                : 'Invalid authentication code',
+            meta: hasRemainingInfo ? { remainingAttempts } : undefined,
+        });
+    }
+}
+
+/**
+ * Thrown when the login challenge token is missing, expired or for another step
+ */
+export class TwoFactorChallengeInvalidException extends UnauthorizedException {
+    constructor() {
+        super({
+            error: 'TWO_FACTOR_CHALLENGE_INVALID',
+            message: 'Your sign-in session has expired. Please login again.',
+        });
+    }
+}
+
+/**
+ * Thrown when 2FA cannot be turned off because the tenant requires it for the user's role
+ */
+export class TwoFactorRequiredException extends ForbiddenException {
+    constructor() {
+        super({
+            error: 'TWO_FACTOR_REQUIRED',
+            message: 'Two-factor authentication is required for your role by your organization.',
+        });
+    }
+}
+
+/**
+ * Thrown when starting enrolment while 2FA is already active
+ */
+export class TwoFactorAlreadyEnabledException extends ConflictException {
+    constructor() {
+        super({
+            error: 'TWO_FACTOR_ALREADY_ENABLED',
+            message: 'Two-factor authentication is already enabled.',
+        });
+    }
+}
+
+/**
+ * Thrown when confirming/disabling without an enrolment in progress or active
+ */
+export class TwoFactorNotEnabledException extends BadRequestException {
+    constructor(message = 'Two-factor authentication is not enabled.') {
+        super({
+            error: 'TWO_FACTOR_NOT_ENABLED',
+            message,
+        });
+    }
+}
+
 // =============================================================================
 // Registration Errors (409 Conflict)
 // =============================================================================
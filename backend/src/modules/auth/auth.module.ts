@@ -4,10 +4,13 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { PassportModule } from '@nestjs/passport';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { TwoFactorController } from './two-factor.controller';
+import { TwoFactorService } from './two-factor.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { AuthRepository, PrismaAuthRepository } from './auth.repository';
 import { UsersModule } from '../users/users.module';
 import { CommonModule } from '../../common/common.module';
+import { SubscriptionModule } from '../subscription/subscription.module';
 
 @Module({
   imports: [
@@ -22,10 +25,12 @@ import { CommonModule } from '../../common/common.module';
       inject: [ConfigService],
     }),
     UsersModule,
+    SubscriptionModule,
   ],
-  controllers: [AuthController],
+  controllers: [AuthController, TwoFactorController],
   providers: [
     AuthService,
+    TwoFactorService,
     JwtStrategy,
     {
       provide: AuthRepository,
@@ -6,6 +6,7 @@
  *   - Account lockout mechanism
  *   - Token refresh with rotation
  *   - Security field updates (lastLoginAt, lastLoginIp, failedLoginCount)
+ *   - Two-factor challenge instead of a session for enrolled/enforced users
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
@@ -17,6 +18,10 @@ import { AuthRepository } from './auth.repository';
 import { UsersRepository } from '../users/users.repository';
 import { AuditLogsService } from '../audit-logs/audit-logs.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../../common/services/mail.service';
+import { TwoFactorService } from './two-factor.service';
+import { SubscriptionLifecycleService } from '../subscription/subscription-lifecycle.service';
+import { InvalidTwoFactorCodeException, TokenExpiredException } from './auth.exception';
 import { UserRole } from '@prisma/client';
 import * as bcrypt from 'bcryptjs';
 
@@ -27,6 +32,9 @@ import * as bcrypt from 'bcryptjs';
 const mockTenant = {
     id: 'tenant-001',
     name: 'Test Company',
+    deletedAt: null,
+    suspendedAt: null,
+    twoFactorRequired: false,
     createdAt: new Date(),
     updatedAt: new Date(),
 };
@@ -40,6 +48,8 @@ const createMockUser = (overrides = {}) => ({
     tenantId: 'tenant-001',
     tenant: mockTenant,
     isActive: true,
+    emailVerified: true,
+    twoFactorEnabled: false,
     failedLoginCount: 0,
     lockedUntil: null,
     lastLoginAt: null,
@@ -94,6 +104,8 @@ const mockAuditLogsService = {
 
 const mockPrismaService = {
     user: {
+        findFirst: jest.fn(),
+        findUnique: jest.fn(),
         update: jest.fn(),
     },
     session: {
@@ -103,13 +115,27 @@ const mockPrismaService = {
     },
 };
 
+const mockTwoFactorService = {
+    isRequiredFor: jest.fn().mockReturnValue(false),
+    issueChallenge: jest.fn().mockResolvedValue({ challengeToken: 'challenge-token', expiresIn: '5m' }),
+    verifyChallenge: jest.fn().mockResolvedValue('user-001'),
+    verifyLoginCode: jest.fn(),
+};
+
+/** Narrow a login result to the session branch (no second factor pending) */
+const asSession = <T extends object>(result: T) => {
+    if (!('accessToken' in result)) {
+        throw new Error('Expected a session, got a two-factor challenge');
+    }
+    return result as Extract<T, { accessToken: string }>;
+};
+
 // =============================================================================
 // Test Suite
 // =============================================================================
 
 describe('AuthService', () => {
     let service: AuthService;
-    let usersRepository: typeof mockUsersRepository;
     let prismaService: typeof mockPrismaService;
 
     beforeEach(async () => {
@@ -124,11 +150,13 @@ describe('AuthService', () => {
                 { provide: ConfigService, useValue: mockConfigService },
                 { provide: AuditLogsService, useValue: mockAuditLogsService },
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: MailService, useValue: {} },
+                { provide: TwoFactorService, useValue: mockTwoFactorService },
+                { provide: SubscriptionLifecycleService, useValue: {} },
             ],
         }).compile();
 
         service = module.get<AuthService>(AuthService);
-        usersRepository = mockUsersRepository;
         prismaService = mockPrismaService;
     });
 
@@ -143,16 +171,16 @@ describe('AuthService', () => {
         describe('AUTH-001: Login with valid credentials', () => {
             it('should return accessToken, refreshToken, and user data', async () => {
                 const mockUser = createMockUser();
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue(mockUser);
                 mockJwtService.signAsync
                     .mockResolvedValueOnce('access-token-123')
                     .mockResolvedValueOnce('refresh-token-456');
 
-                const result = await service.login(
+                const result = asSession(await service.login(
                     { email: 'test@rga.com', password: 'correct-password' },
                     mockRequest,
-                );
+                ));
 
                 expect(result).toHaveProperty('accessToken', 'access-token-123');
                 expect(result).toHaveProperty('refreshToken', 'refresh-token-456');
@@ -162,7 +190,7 @@ describe('AuthService', () => {
 
             it('should reset failedLoginCount to 0 on successful login', async () => {
                 const mockUser = createMockUser({ failedLoginCount: 3 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue(mockUser);
 
                 await service.login(
@@ -182,7 +210,7 @@ describe('AuthService', () => {
 
             it('should update lastLoginAt on successful login', async () => {
                 const mockUser = createMockUser();
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue(mockUser);
 
                 await service.login(
@@ -201,7 +229,7 @@ describe('AuthService', () => {
 
             it('should update lastLoginIp on successful login', async () => {
                 const mockUser = createMockUser();
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue(mockUser);
 
                 await service.login(
@@ -225,7 +253,7 @@ describe('AuthService', () => {
         describe('AUTH-002: Login with wrong password', () => {
             it('should throw UnauthorizedException', async () => {
                 const mockUser = createMockUser();
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue({
                     ...mockUser,
                     failedLoginCount: 1,
@@ -241,7 +269,7 @@ describe('AuthService', () => {
 
             it('should increment failedLoginCount', async () => {
                 const mockUser = createMockUser({ failedLoginCount: 0 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue({
                     ...mockUser,
                     failedLoginCount: 1,
@@ -267,7 +295,7 @@ describe('AuthService', () => {
 
             it('should increment failedLoginCount progressively', async () => {
                 const mockUser = createMockUser({ failedLoginCount: 2 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue({
                     ...mockUser,
                     failedLoginCount: 3,
@@ -297,7 +325,7 @@ describe('AuthService', () => {
         // -------------------------------------------------------------------------
         describe('AUTH-003: Login with non-existent email', () => {
             it('should throw UnauthorizedException with generic message', async () => {
-                usersRepository.findByEmail.mockResolvedValue(null);
+                prismaService.user.findFirst.mockResolvedValue(null);
 
                 await expect(
                     service.login(
@@ -308,7 +336,7 @@ describe('AuthService', () => {
             });
 
             it('should not leak information about email existence', async () => {
-                usersRepository.findByEmail.mockResolvedValue(null);
+                prismaService.user.findFirst.mockResolvedValue(null);
 
                 try {
                     await service.login(
@@ -328,7 +356,7 @@ describe('AuthService', () => {
         describe('AUTH-004: Account lockout after 5 failed attempts', () => {
             it('should set lockedUntil after 5th failed attempt', async () => {
                 const mockUser = createMockUser({ failedLoginCount: 4 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue({
                     ...mockUser,
                     failedLoginCount: 5,
@@ -356,7 +384,7 @@ describe('AuthService', () => {
 
             it('should not set lockedUntil before 5th attempt', async () => {
                 const mockUser = createMockUser({ failedLoginCount: 3 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue({
                     ...mockUser,
                     failedLoginCount: 4,
@@ -392,7 +420,7 @@ describe('AuthService', () => {
                     failedLoginCount: 5,
                     lockedUntil,
                 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
 
                 await expect(
                     service.login(
@@ -408,7 +436,7 @@ describe('AuthService', () => {
                     failedLoginCount: 5,
                     lockedUntil,
                 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
 
                 try {
                     await service.login(
@@ -426,7 +454,7 @@ describe('AuthService', () => {
                     failedLoginCount: 5,
                     lockedUntil,
                 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
 
                 try {
                     await service.login(
@@ -452,7 +480,7 @@ describe('AuthService', () => {
                     failedLoginCount: 5,
                     lockedUntil: expiredLock,
                 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 prismaService.user.update.mockResolvedValue({
                     ...mockUser,
                     failedLoginCount: 0,
@@ -474,7 +502,7 @@ describe('AuthService', () => {
         describe('Inactive user login', () => {
             it('should reject login for inactive users', async () => {
                 const mockUser = createMockUser({ isActive: false });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
 
                 await expect(
                     service.login(
@@ -484,6 +512,69 @@ describe('AuthService', () => {
                 ).rejects.toThrow(UnauthorizedException);
             });
         });
+
+        // -------------------------------------------------------------------------
+        // Two-factor authentication
+        // -------------------------------------------------------------------------
+        describe('Login with two-factor authentication', () => {
+            it('should return a verify challenge instead of a session for enrolled users', async () => {
+                prismaService.user.findFirst.mockResolvedValue(createMockUser({ twoFactorEnabled: true }));
+
+                const result = await service.login(
+                    { email: 'test@rga.com', password: 'correct-password' },
+                    mockRequest,
+                );
+
+                expect(result).toEqual({ twoFactorRequired: true, challengeToken: 'challenge-token', expiresIn: '5m' });
+                expect(mockTwoFactorService.issueChallenge).toHaveBeenCalledWith('user-001', 'verify');
+                expect(mockAuthRepository.saveRefreshToken).not.toHaveBeenCalled();
+                expect(prismaService.user.update).not.toHaveBeenCalled();
+            });
+
+            it('should return a setup challenge when the tenant enforces 2FA for the role', async () => {
+                prismaService.user.findFirst.mockResolvedValue(createMockUser());
+                mockTwoFactorService.isRequiredFor.mockReturnValueOnce(true);
+
+                const result = await service.login(
+                    { email: 'test@rga.com', password: 'correct-password' },
+                    mockRequest,
+                );
+
+                expect(result).toMatchObject({ twoFactorSetupRequired: true, challengeToken: 'challenge-token' });
+                expect(mockTwoFactorService.issueChallenge).toHaveBeenCalledWith('user-001', 'setup');
+                expect(result).not.toHaveProperty('accessToken');
+            });
+
+            it('should issue a session once the second factor is verified', async () => {
+                prismaService.user.findUnique.mockResolvedValue(createMockUser({ twoFactorEnabled: true }));
+                mockJwtService.signAsync
+                    .mockResolvedValueOnce('access-token-123')
+                    .mockResolvedValueOnce('refresh-token-456');
+
+                const result = await service.verifyTwoFactorLogin(
+                    { challengeToken: 'challenge-token', code: '123456' },
+                    mockRequest,
+                );
+
+                expect(mockTwoFactorService.verifyChallenge).toHaveBeenCalledWith('challenge-token', 'verify');
+                expect(mockTwoFactorService.verifyLoginCode).toHaveBeenCalledWith(
+                    expect.objectContaining({ id: 'user-001' }),
+                    expect.objectContaining({ code: '123456' }),
+                    '127.0.0.1',
+                );
+                expect(result).toMatchObject({ accessToken: 'access-token-123', user: { email: 'test@rga.com' } });
+            });
+
+            it('should not issue a session when the code is rejected', async () => {
+                prismaService.user.findUnique.mockResolvedValue(createMockUser({ twoFactorEnabled: true }));
+                mockTwoFactorService.verifyLoginCode.mockRejectedValueOnce(new InvalidTwoFactorCodeException(4));
+
+                await expect(
+                    service.verifyTwoFactorLogin({ challengeToken: 'challenge-token', code: '000000' }, mockRequest),
+                ).rejects.toThrow(InvalidTwoFactorCodeException);
+                expect(mockAuthRepository.saveRefreshToken).not.toHaveBeenCalled();
+            });
+        });
     });
 
     // ===========================================================================
@@ -505,7 +596,7 @@ describe('AuthService', () => {
                     userId: 'user-001',
                 });
                 mockAuthRepository.deleteRefreshToken.mockResolvedValue(undefined);
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 mockJwtService.signAsync
                     .mockResolvedValueOnce('new-access-token')
                     .mockResolvedValueOnce('new-refresh-token');
@@ -528,7 +619,7 @@ describe('AuthService', () => {
                 mockAuthRepository.findSessionByToken.mockResolvedValue({
                     userId: 'user-001',
                 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
 
                 await service.refreshToken('valid-refresh-token', mockRequest);
 
@@ -546,7 +637,7 @@ describe('AuthService', () => {
                 mockAuthRepository.findSessionByToken.mockResolvedValue({
                     userId: 'user-001',
                 });
-                usersRepository.findByEmail.mockResolvedValue(mockUser);
+                prismaService.user.findFirst.mockResolvedValue(mockUser);
                 mockJwtService.signAsync
                     .mockResolvedValueOnce('new-access')
                     .mockResolvedValueOnce('new-refresh');
@@ -593,7 +684,7 @@ describe('AuthService', () => {
                 ).rejects.toThrow(UnauthorizedException);
             });
 
-            it('should throw with "Invalid refresh token" message for revoked token', async () => {
+            it('should throw the session-expired error for a revoked token', async () => {
                 mockJwtService.verifyAsync.mockResolvedValue({
                     sub: 'user-001',
                     email: 'test@rga.com',
@@ -604,8 +695,8 @@ describe('AuthService', () => {
                     await service.refreshToken('revoked-token', mockRequest);
                     fail('Expected exception was not thrown');
                 } catch (e: any) {
-                    // Service catches 'Token has been revoked' and re-throws as 'Invalid refresh token'
-                    expect(e.message).toBe('Invalid refresh token');
+                    // Service catches TokenRevokedException and re-throws TokenExpiredException
+                    expect(e).toBeInstanceOf(TokenExpiredException);
                 }
             });
         });
@@ -5,12 +5,21 @@ import { AuthRepository } from './auth.repository';
 import { UsersRepository } from '../users/users.repository';
 import { AuditLogsService } from '../audit-logs/audit-logs.service';
 import { PrismaService } from '../prisma/prisma.service';
-import { RegisterDto, LoginDto, ForgotPasswordDto, ResetPasswordDto } from './dto';
+import {
+  RegisterDto,
+  LoginDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyTwoFactorDto,
+  ConfirmTwoFactorChallengeSetupDto,
+} from './dto';
 import * as bcrypt from 'bcryptjs';
-import { User, Tenant } from '@prisma/client';
+import { User, Tenant, UserRole } from '@prisma/client';
 import { Request } from 'express';
 import * as crypto from 'crypto';
 import { MailService } from '../../common/services/mail.service';
+import { TwoFactorService } from './two-factor.service';
+import { SubscriptionLifecycleService } from '../subscription/subscription-lifecycle.service';
 import {
   InvalidCredentialsException,
   AccountLockedException,
@@ -23,6 +32,7 @@ import {
   TokenRevokedException,
   TokenExpiredException,
   UserNotFoundException,
+  TenantSuspendedException,
 } from './auth.exception';
 
 type UserWithTenant = User & { tenant: Tenant };
@@ -39,6 +49,8 @@ export class AuthService {
     private readonly auditLogsService: AuditLogsService,
     private readonly prisma: PrismaService,
     private readonly mailService: MailService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly subscriptionLifecycle: SubscriptionLifecycleService,
   ) { }
 
   async register(dto: RegisterDto) {
@@ -78,6 +90,7 @@ export class AuthService {
     const hashedPassword = await bcrypt.hash(normalizedDto.password, 10);
 
     const user = await this.authRepository.createTenantAndUser(normalizedDto, hashedPassword) as UserWithTenant;
+    await this.subscriptionLifecycle.startTrial(user.tenantId);
 
     // Generate email verification token and store hash + expiry
     const { token, tokenHash, expiresAt } = this.generateEmailVerificationToken();
@@ -192,6 +205,7 @@ export class AuthService {
    * - Brute force protection (lock after 5 failed attempts)
    * - Track lastLoginAt, lastLoginIp
    * - Track session with IP and UserAgent
+   * - Users with 2FA (or required to enrol) get a challenge token instead of tokens
    */
   async login(dto: LoginDto, request?: Request) {
     // For login, we look up user by email globally (email is unique across system)
@@ -206,10 +220,14 @@ export class AuthService {
       throw new AccountLockedException(minutesLeft);
     }
 
-    if (!user || !user.isActive) {
+    if (!user || !user.isActive || user.tenant.deletedAt) {
       throw new InvalidCredentialsException();
     }
 
+    if (user.tenant.suspendedAt && user.role !== UserRole.SUPER_ADMIN) {
+      throw new TenantSuspendedException();
+    }
+
     // Enforce email verification before allowing login
     if (!user.emailVerified) {
       throw new EmailNotVerifiedException();
@@ -237,6 +255,61 @@ export class AuthService {
       throw new InvalidCredentialsException(remainingAttempts > 0 ? remainingAttempts : undefined);
     }
 
+    // Second factor: enrolled users get a challenge; enforced roles must enrol first
+    if (user.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        ...(await this.twoFactorService.issueChallenge(user.id, 'verify')),
+      };
+    }
+
+    if (this.twoFactorService.isRequiredFor(user, user.tenant)) {
+      return {
+        twoFactorSetupRequired: true,
+        ...(await this.twoFactorService.issueChallenge(user.id, 'setup')),
+      };
+    }
+
+    return this.completeLogin(user, request);
+  }
+
+  /**
+   * Login step 2 - verify TOTP/recovery code against the challenge token
+   */
+  async verifyTwoFactorLogin(dto: VerifyTwoFactorDto, request?: Request) {
+    const userId = await this.twoFactorService.verifyChallenge(dto.challengeToken, 'verify');
+    const user = await this.findActiveUserWithTenant(userId);
+
+    const clientIp = request?.ip || request?.socket?.remoteAddress || null;
+    await this.twoFactorService.verifyLoginCode(user, dto, clientIp);
+
+    return this.completeLogin(user, request);
+  }
+
+  /**
+   * Forced enrolment during login (tenant requires 2FA for the user's role)
+   */
+  async beginTwoFactorChallengeSetup(challengeToken: string) {
+    const userId = await this.twoFactorService.verifyChallenge(challengeToken, 'setup');
+    return this.twoFactorService.beginSetup(userId);
+  }
+
+  async confirmTwoFactorChallengeSetup(dto: ConfirmTwoFactorChallengeSetupDto, request?: Request) {
+    const userId = await this.twoFactorService.verifyChallenge(dto.challengeToken, 'setup');
+    const clientIp = request?.ip || request?.socket?.remoteAddress || null;
+    const { recoveryCodes } = await this.twoFactorService.confirmSetup(userId, dto.code, clientIp);
+
+    const user = await this.findActiveUserWithTenant(userId);
+    return {
+      ...(await this.completeLogin(user, request)),
+      recoveryCodes,
+    };
+  }
+
+  /**
+   * Issue tokens and record the session once every login factor has passed
+   */
+  private async completeLogin(user: UserWithTenant, request?: Request) {
     // Reset failed count & update login info on successful login
     const clientIp = request?.ip || request?.socket?.remoteAddress || null;
     const userAgent = request?.headers?.['user-agent'] || null;
@@ -284,6 +357,19 @@ export class AuthService {
     };
   }
 
+  private async findActiveUserWithTenant(userId: string): Promise<UserWithTenant> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { tenant: true },
+    });
+
+    if (!user || !user.isActive) {
+      throw new InvalidCredentialsException();
+    }
+
+    return user;
+  }
+
   /**
    * Refresh token with rotation (ลบ token เก่าก่อนสร้างใหม่)
    */
@@ -2,3 +2,4 @@
 export * from './login.dto';
 export * from './response.dto';
 export * from './forgot-password.dto';
+export * from './two-factor.dto';
@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({ description: 'Challenge token returned by /auth/login' })
+  @IsString()
+  challengeToken: string;
+}
+
+export class VerifyTwoFactorDto extends TwoFactorChallengeDto {
+  @ApiPropertyOptional({ example: '123456', description: '6-digit code from the authenticator app' })
+  @IsOptional()
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code?: string;
+
+  @ApiPropertyOptional({ example: '3f9a1-c07be', description: 'Single-use recovery code (instead of code)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  recoveryCode?: string;
+}
+
+export class ConfirmTwoFactorChallengeSetupDto extends TwoFactorChallengeDto {
+  @ApiProperty({ example: '123456' })
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code: string;
+}
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ example: '123456', description: '6-digit code from the authenticator app' })
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code: string;
+}
+
+export class DisableTwoFactorDto {
+  @ApiPropertyOptional({ example: '123456' })
+  @IsOptional()
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code?: string;
+
+  @ApiPropertyOptional({ example: '3f9a1-c07be' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  recoveryCode?: string;
+}
+
+export class TwoFactorPolicyDto {
+  @ApiProperty({ example: true, description: 'Require 2FA for ADMIN and MANAGER users' })
+  @IsBoolean()
+  required: boolean;
+}
@@ -2,8 +2,45 @@
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import { Prisma, UserRole } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 
+/** `imp` is set on super-admin impersonation tokens (TenantImpersonation id) */
+export interface JwtPayload {
+  sub: string;
+  email: string;
+  imp?: string;
+}
+
+const TENANT_SELECT = {
+  id: true,
+  name: true,
+  subscriptionPlan: true,
+  subscriptionStatus: true,
+  subscriptionEndsAt: true,
+  suspendedAt: true,
+  deletedAt: true,
+} satisfies Prisma.TenantSelect;
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  isActive: true,
+  tenantId: true,
+  customRole: {
+    select: { id: true, name: true, permissions: true },
+  },
+  campaignScopes: {
+    select: { campaignId: true, platform: true, accountId: true },
+  },
+  tenant: { select: TENANT_SELECT },
+} satisfies Prisma.UserSelect;
+
+type AuthUser = Prisma.UserGetPayload<{ select: typeof USER_SELECT }>;
+
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   constructor(
@@ -17,28 +54,11 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
     });
   }
 
-  async validate(payload: { sub: string; email: string }) {
+  async validate(payload: JwtPayload) {
     console.log('JwtStrategy Validate Payload:', payload);
     const user = await this.prisma.user.findUnique({
       where: { id: payload.sub },
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        role: true,
-        isActive: true,
-        tenantId: true,
-        tenant: {
-          select: {
-            id: true,
-            name: true,
-            subscriptionPlan: true,
-            subscriptionStatus: true,
-            subscriptionEndsAt: true,
-          },
-        },
-      },
+      select: USER_SELECT,
     });
 
     if (!user) {
@@ -51,7 +71,49 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
       throw new UnauthorizedException();
     }
 
+    if (payload.imp) {
+      return this.impersonate(user, payload.imp);
+    }
+
+    if (user.tenant.deletedAt || (user.tenant.suspendedAt && user.role !== UserRole.SUPER_ADMIN)) {
+      throw new UnauthorizedException();
+    }
+
     return user;
   }
+
+  /**
+   * A super admin acting inside another tenant: the request runs as a tenant
+   * ADMIN of that tenant for as long as the impersonation session is open.
+   * Suspended tenants can still be impersonated (support needs to look inside
+   * them to lift a suspension); deleted tenants cannot.
+   */
+  private async impersonate(admin: AuthUser, sessionId: string) {
+    const session = await this.prisma.tenantImpersonation.findUnique({
+      where: { id: sessionId },
+      include: { tenant: { select: TENANT_SELECT } },
+    });
+
+    if (
+      admin.role !== UserRole.SUPER_ADMIN ||
+      !session ||
+      session.adminUserId !== admin.id ||
+      session.endedAt ||
+      session.expiresAt < new Date() ||
+      session.tenant.deletedAt
+    ) {
+      throw new UnauthorizedException();
+    }
+
+    return {
+      ...admin,
+      role: UserRole.ADMIN,
+      tenantId: session.tenantId,
+      tenant: session.tenant,
+      customRole: null,
+      campaignScopes: [],
+      impersonation: { sessionId: session.id, adminTenantId: admin.tenantId },
+    };
+  }
 }
 
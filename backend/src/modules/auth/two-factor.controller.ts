@@ -0,0 +1,63 @@
+import { Controller, Get, Post, Put, Body, Req, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Request } from 'express';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AllowWhenReadOnly } from '../../common/decorators/allow-when-read-only.decorator';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto, DisableTwoFactorDto, TwoFactorPolicyDto } from './dto';
+
+@ApiTags('Authentication')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('auth/2fa')
+@AllowWhenReadOnly()
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) { }
+
+  @Get('status')
+  @ApiOperation({ summary: 'Get 2FA status for the current user' })
+  getStatus(@CurrentUser('id') userId: string) {
+    return this.twoFactorService.getStatus(userId);
+  }
+
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start 2FA enrolment (returns secret and QR code)' })
+  @ApiResponse({ status: 409, description: '2FA already enabled' })
+  beginSetup(@CurrentUser('id') userId: string) {
+    return this.twoFactorService.beginSetup(userId);
+  }
+
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm enrolment with a code; returns one-time recovery codes' })
+  confirmSetup(@CurrentUser('id') userId: string, @Body() dto: TwoFactorCodeDto, @Req() request: Request) {
+    return this.twoFactorService.confirmSetup(userId, dto.code, request.ip);
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable 2FA (not allowed when required by the tenant)' })
+  @ApiResponse({ status: 403, description: '2FA is required for your role' })
+  disable(@CurrentUser('id') userId: string, @Body() dto: DisableTwoFactorDto, @Req() request: Request) {
+    return this.twoFactorService.disable(userId, dto, request.ip);
+  }
+
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Regenerate recovery codes (invalidates the old ones)' })
+  regenerateRecoveryCodes(@CurrentUser('id') userId: string, @Body() dto: TwoFactorCodeDto, @Req() request: Request) {
+    return this.twoFactorService.regenerateRecoveryCodes(userId, dto.code, request.ip);
+  }
+
+  @Put('policy')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Require 2FA for ADMIN/MANAGER users in this tenant' })
+  setPolicy(@CurrentUser() user: any, @Body() dto: TwoFactorPolicyDto) {
+    return this.twoFactorService.setTenantPolicy(user.tenantId, dto.required, user);
+  }
+}
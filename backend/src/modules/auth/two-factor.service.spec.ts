@@ -0,0 +1,260 @@
+/**
+ * Two-Factor Authentication Unit Tests
+ * @module two-factor.service.spec
+ * @description TOTP enrolment and login challenge:
+ *   - TOTP codes match the RFC 6238 reference values and tolerate one step of drift
+ *   - Confirming enrolment stores only hashed recovery codes
+ *   - A TOTP code is accepted once; replays within the drift window are refused
+ *   - Recovery codes are single-use, also under concurrent logins, and leave a security event
+ *   - Repeated failures lock the account
+ *   - Challenge tokens are bound to their step
+ *   - Tenant enforcement applies to ADMIN/MANAGER and blocks disabling
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { UserRole } from '@prisma/client';
+import { createHash } from 'crypto';
+import { TwoFactorService, SecurityEventType } from './two-factor.service';
+import { base32Encode, generateTotp, verifyTotp } from './totp.util';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionService } from '../../common/services/encryption.service';
+import {
+  InvalidTwoFactorCodeException,
+  TwoFactorChallengeInvalidException,
+  TwoFactorRequiredException,
+} from './auth.exception';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+// RFC 6238 Appendix B seed ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+const hash = (code: string) => createHash('sha256').update(code.replace(/-/g, '')).digest('hex');
+
+const mockUser = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-001',
+  tenantId: 'tenant-001',
+  email: 'admin@example.com',
+  role: UserRole.ADMIN,
+  failedLoginCount: 0,
+  lockedUntil: null,
+  twoFactorEnabled: true,
+  twoFactorSecret: `enc:${RFC_SECRET}`,
+  twoFactorRecoveryCodes: [hash('aaaaa-11111'), hash('bbbbb-22222')],
+  twoFactorEnabledAt: new Date('2026-01-01'),
+  tenant: { twoFactorRequired: false },
+  ...overrides,
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let prisma: any;
+
+  beforeEach(async () => {
+    prisma = {
+      user: {
+        findUniqueOrThrow: jest.fn().mockResolvedValue(mockUser()),
+        update: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        count: jest.fn().mockResolvedValue(0),
+      },
+      tenant: { update: jest.fn().mockResolvedValue({}) },
+      securityEvent: { create: jest.fn().mockResolvedValue({}) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        JwtService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: EncryptionService,
+          useValue: {
+            encrypt: (value: string) => `enc:${value}`,
+            decrypt: (value: string) => value.replace(/^enc:/, ''),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, fallback?: string) =>
+              key === 'JWT_SECRET' ? 'test-jwt-secret-test-jwt-secret-0000' : fallback,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(TwoFactorService);
+  });
+
+  // ===========================================================================
+  // TOTP
+  // ===========================================================================
+
+  describe('totp', () => {
+    it('should produce the RFC 6238 reference codes', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    });
+
+    it('should accept one step of clock drift only', () => {
+      const now = 1111111109 * 1000;
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30000), now)).toBe(true);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30000), now)).toBe(true);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 90000), now)).toBe(false);
+    });
+  });
+
+  // ===========================================================================
+  // Enrolment
+  // ===========================================================================
+
+  describe('confirmSetup', () => {
+    it('should enable 2FA and store only hashed recovery codes', async () => {
+      prisma.user.findUniqueOrThrow.mockResolvedValue(
+        mockUser({ twoFactorEnabled: false, twoFactorRecoveryCodes: null }),
+      );
+
+      const { recoveryCodes } = await service.confirmSetup('user-001', generateTotp(RFC_SECRET));
+
+      expect(recoveryCodes).toHaveLength(10);
+      const data = prisma.user.update.mock.calls[0][0].data;
+      expect(data.twoFactorEnabled).toBe(true);
+      expect(data.twoFactorLastUsedStep).toEqual(expect.any(Number));
+      expect(data.twoFactorRecoveryCodes).toEqual(recoveryCodes.map(hash));
+      expect(data.twoFactorRecoveryCodes).not.toContain(recoveryCodes[0]);
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: SecurityEventType.TWO_FACTOR_ENROLLED }),
+      });
+    });
+
+    it('should reject a wrong code', async () => {
+      prisma.user.findUniqueOrThrow.mockResolvedValue(mockUser({ twoFactorEnabled: false }));
+
+      await expect(service.confirmSetup('user-001', '000000', null)).rejects.toThrow(InvalidTwoFactorCodeException);
+    });
+  });
+
+  // ===========================================================================
+  // Login Verification
+  // ===========================================================================
+
+  describe('verifyLoginCode', () => {
+    it('should accept a TOTP step once and refuse its replay', async () => {
+      const step = Math.floor(Date.now() / 30000);
+      const code = generateTotp(RFC_SECRET);
+
+      await service.verifyLoginCode(mockUser({ twoFactorLastUsedStep: step - 1 }) as any, { code });
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'user-001',
+          OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: expect.any(Number) } }],
+        },
+        data: { twoFactorLastUsedStep: expect.any(Number), failedLoginCount: 0, lockedUntil: null },
+      });
+
+      // The step is already recorded: the conditional update matches nothing
+      prisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+      await expect(
+        service.verifyLoginCode(mockUser({ twoFactorLastUsedStep: step }) as any, { code }),
+      ).rejects.toThrow(InvalidTwoFactorCodeException);
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: SecurityEventType.TWO_FACTOR_FAILED }),
+      });
+    });
+
+    it('should consume a recovery code and record a security event', async () => {
+      await service.verifyLoginCode(mockUser() as any, { recoveryCode: 'AAAAA-11111' }, '10.0.0.1');
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-001', twoFactorRecoveryCodes: { equals: [hash('aaaaa-11111'), hash('bbbbb-22222')] } },
+        data: expect.objectContaining({ twoFactorRecoveryCodes: [hash('bbbbb-22222')] }),
+      });
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          eventType: SecurityEventType.RECOVERY_CODE_USED,
+          severity: 'HIGH',
+        }),
+      });
+    });
+
+    it('should not accept a recovery code that was already used', async () => {
+      const user = mockUser({ twoFactorRecoveryCodes: [hash('bbbbb-22222')] });
+
+      await expect(service.verifyLoginCode(user as any, { recoveryCode: 'aaaaa-11111' })).rejects.toThrow(
+        InvalidTwoFactorCodeException,
+      );
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: SecurityEventType.TWO_FACTOR_FAILED }),
+      });
+    });
+
+    it('should not let two concurrent logins spend the same recovery code', async () => {
+      prisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(service.verifyLoginCode(mockUser() as any, { recoveryCode: 'aaaaa-11111' })).rejects.toThrow(
+        InvalidTwoFactorCodeException,
+      );
+      expect(prisma.securityEvent.create).not.toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: SecurityEventType.RECOVERY_CODE_USED }),
+      });
+    });
+
+    it('should lock the account on the fifth failure', async () => {
+      const user = mockUser({ failedLoginCount: 4 });
+
+      await expect(service.verifyLoginCode(user as any, { code: '000000' })).rejects.toThrow(
+        InvalidTwoFactorCodeException,
+      );
+
+      const data = prisma.user.update.mock.calls[0][0].data;
+      expect(data.failedLoginCount).toBe(5);
+      expect(data.lockedUntil).toBeInstanceOf(Date);
+    });
+  });
+
+  // ===========================================================================
+  // Challenge & Enforcement
+  // ===========================================================================
+
+  describe('challenge', () => {
+    it('should only accept a challenge for the step it was issued for', async () => {
+      const { challengeToken } = await service.issueChallenge('user-001', 'setup');
+
+      await expect(service.verifyChallenge(challengeToken, 'setup')).resolves.toBe('user-001');
+      await expect(service.verifyChallenge(challengeToken, 'verify')).rejects.toThrow(
+        TwoFactorChallengeInvalidException,
+      );
+    });
+  });
+
+  describe('enforcement', () => {
+    it('should require 2FA for ADMIN and MANAGER only when the tenant enforces it', () => {
+      const enforced = { twoFactorRequired: true };
+
+      expect(service.isRequiredFor({ role: UserRole.ADMIN }, enforced)).toBe(true);
+      expect(service.isRequiredFor({ role: UserRole.MANAGER }, enforced)).toBe(true);
+      expect(service.isRequiredFor({ role: UserRole.CLIENT }, enforced)).toBe(false);
+      expect(service.isRequiredFor({ role: UserRole.ADMIN }, { twoFactorRequired: false })).toBe(false);
+    });
+
+    it('should not let an enforced user disable 2FA', async () => {
+      prisma.user.findUniqueOrThrow.mockResolvedValue(mockUser({ tenant: { twoFactorRequired: true } }));
+
+      await expect(service.disable('user-001', { code: generateTotp(RFC_SECRET) })).rejects.toThrow(
+        TwoFactorRequiredException,
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
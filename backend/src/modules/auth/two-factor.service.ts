@@ -0,0 +1,394 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, User, UserRole } from '@prisma/client';
+import * as crypto from 'crypto';
+import * as QRCode from 'qrcode';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { buildOtpAuthUrl, generateTotpSecret, matchTotpStep } from './totp.util';
+import {
+  AccountLockedException,
+  InvalidTwoFactorCodeException,
+  TwoFactorAlreadyEnabledException,
+  TwoFactorChallengeInvalidException,
+  TwoFactorNotEnabledException,
+  TwoFactorRequiredException,
+} from './auth.exception';
+
+/** Roles that must use 2FA when the tenant turns on enforcement */
+export const TWO_FACTOR_ENFORCED_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.MANAGER];
+
+export type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+export const SecurityEventType = {
+  TWO_FACTOR_ENROLLED: 'TWO_FACTOR_ENROLLED',
+  TWO_FACTOR_DISABLED: 'TWO_FACTOR_DISABLED',
+  TWO_FACTOR_FAILED: 'TWO_FACTOR_FAILED',
+  RECOVERY_CODE_USED: 'RECOVERY_CODE_USED',
+  RECOVERY_CODES_REGENERATED: 'RECOVERY_CODES_REGENERATED',
+  TWO_FACTOR_POLICY_CHANGED: 'TWO_FACTOR_POLICY_CHANGED',
+} as const;
+
+const RECOVERY_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCK_MINUTES = 30;
+
+export interface TwoFactorCodeInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * TOTP two-factor authentication
+ * - Enrolment: pending secret (encrypted) -> confirm with a code -> recovery codes (sha256 hashed)
+ * - Login: short-lived challenge token issued after the password step
+ * - Failures share the login brute-force counter (failedLoginCount/lockedUntil)
+ * - Each TOTP step is accepted once (twoFactorLastUsedStep), so a code cannot be replayed
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly encryptionService: EncryptionService,
+    private readonly jwt: JwtService,
+    private readonly config: ConfigService,
+  ) { }
+
+  isRequiredFor(user: Pick<User, 'role'>, tenant: { twoFactorRequired?: boolean | null }): boolean {
+    return Boolean(tenant?.twoFactorRequired) && TWO_FACTOR_ENFORCED_ROLES.includes(user.role);
+  }
+
+  // ===========================================================================
+  // Login Challenge
+  // ===========================================================================
+
+  async issueChallenge(userId: string, purpose: TwoFactorChallengePurpose) {
+    const expiresIn = this.config.get<string>('TWO_FACTOR_CHALLENGE_EXPIRY', '5m');
+    const challengeToken = await this.jwt.signAsync(
+      { sub: userId, purpose },
+      { secret: this.challengeSecret(), expiresIn },
+    );
+    return { challengeToken, expiresIn };
+  }
+
+  /**
+   * Returns the user ID of a valid challenge for the given step
+   */
+  async verifyChallenge(challengeToken: string, purpose: TwoFactorChallengePurpose): Promise<string> {
+    try {
+      const payload = await this.jwt.verifyAsync<{ sub: string; purpose: string }>(challengeToken, {
+        secret: this.challengeSecret(),
+      });
+      if (payload.purpose !== purpose) {
+        throw new TwoFactorChallengeInvalidException();
+      }
+      return payload.sub;
+    } catch {
+      throw new TwoFactorChallengeInvalidException();
+    }
+  }
+
+  /**
+   * Verify the second factor during login (TOTP or a single-use recovery code)
+   */
+  async verifyLoginCode(user: User, input: TwoFactorCodeInput, ipAddress?: string | null): Promise<void> {
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      const minutesLeft = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+      throw new AccountLockedException(minutesLeft);
+    }
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new TwoFactorNotEnabledException();
+    }
+
+    await this.assertCode(user, input, ipAddress);
+  }
+
+  // ===========================================================================
+  // Enrolment
+  // ===========================================================================
+
+  async getStatus(userId: string) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      include: { tenant: { select: { twoFactorRequired: true } } },
+    });
+
+    return {
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      recoveryCodesRemaining: this.storedRecoveryCodes(user).length,
+      required: this.isRequiredFor(user, user.tenant),
+      tenantEnforced: user.tenant.twoFactorRequired,
+    };
+  }
+
+  /**
+   * Start enrolment: store a new pending secret and return it with a scannable QR code
+   */
+  async beginSetup(userId: string) {
+    const user = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    if (user.twoFactorEnabled) {
+      throw new TwoFactorAlreadyEnabledException();
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: this.encryptionService.encrypt(secret) },
+    });
+
+    const issuer = this.config.get<string>('TWO_FACTOR_ISSUER', 'RGA Dashboard');
+    const otpauthUrl = buildOtpAuthUrl(issuer, user.email, secret);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app.
+   * Returns the plain recovery codes - they are only stored hashed and shown once.
+   */
+  async confirmSetup(userId: string, code: string, ipAddress?: string | null) {
+    const user = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    if (user.twoFactorEnabled) {
+      throw new TwoFactorAlreadyEnabledException();
+    }
+    if (!user.twoFactorSecret) {
+      throw new TwoFactorNotEnabledException('Start two-factor setup before confirming it.');
+    }
+
+    const step = matchTotpStep(this.decryptSecret(user), code);
+    if (step === null) {
+      throw new InvalidTwoFactorCodeException();
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastUsedStep: step,
+        twoFactorRecoveryCodes: recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+      },
+    });
+
+    await this.recordEvent(user, SecurityEventType.TWO_FACTOR_ENROLLED, 'LOW', 'Two-factor authentication enabled', { ip: ipAddress });
+
+    return { recoveryCodes };
+  }
+
+  async disable(userId: string, input: TwoFactorCodeInput, ipAddress?: string | null) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      include: { tenant: { select: { twoFactorRequired: true } } },
+    });
+    if (!user.twoFactorEnabled) {
+      throw new TwoFactorNotEnabledException();
+    }
+    if (this.isRequiredFor(user, user.tenant)) {
+      throw new TwoFactorRequiredException();
+    }
+
+    await this.assertCode(user, input, ipAddress);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorEnabledAt: null,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: Prisma.DbNull,
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    await this.recordEvent(user, SecurityEventType.TWO_FACTOR_DISABLED, 'MEDIUM', 'Two-factor authentication disabled', { ip: ipAddress });
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string, ipAddress?: string | null) {
+    const user = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    if (!user.twoFactorEnabled) {
+      throw new TwoFactorNotEnabledException();
+    }
+
+    await this.assertCode(user, { code }, ipAddress);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map((c) => this.hashRecoveryCode(c)) },
+    });
+
+    await this.recordEvent(user, SecurityEventType.RECOVERY_CODES_REGENERATED, 'LOW', 'Recovery codes regenerated', { ip: ipAddress });
+
+    return { recoveryCodes };
+  }
+
+  // ===========================================================================
+  // Tenant Policy
+  // ===========================================================================
+
+  async setTenantPolicy(tenantId: string, required: boolean, actor: Pick<User, 'id' | 'tenantId'>) {
+    await this.prisma.tenant.update({
+      where: { id: tenantId },
+      data: { twoFactorRequired: required },
+    });
+
+    await this.prisma.securityEvent.create({
+      data: {
+        tenantId,
+        userId: actor.id,
+        eventType: SecurityEventType.TWO_FACTOR_POLICY_CHANGED,
+        severity: 'MEDIUM',
+        message: `Two-factor authentication ${required ? 'required' : 'optional'} for ${TWO_FACTOR_ENFORCED_ROLES.join('/')}`,
+        metadata: { required, roles: TWO_FACTOR_ENFORCED_ROLES },
+      },
+    });
+
+    const pendingUsers = required
+      ? await this.prisma.user.count({
+        where: { tenantId, role: { in: TWO_FACTOR_ENFORCED_ROLES }, twoFactorEnabled: false, isActive: true },
+      })
+      : 0;
+
+    return { twoFactorRequired: required, roles: TWO_FACTOR_ENFORCED_ROLES, usersPendingEnrolment: pendingUsers };
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  /**
+   * Check a TOTP or recovery code; failures count toward the login lockout
+   */
+  private async assertCode(user: User, input: TwoFactorCodeInput, ipAddress?: string | null): Promise<void> {
+    if (input.code) {
+      const step = matchTotpStep(this.decryptSecret(user), input.code);
+      if (step !== null && (await this.acceptStep(user, step))) {
+        return;
+      }
+    }
+
+    if (input.recoveryCode) {
+      const hash = this.hashRecoveryCode(input.recoveryCode);
+      const stored = this.storedRecoveryCodes(user);
+      const remaining = stored.filter((h) => h !== hash);
+      if (remaining.length < stored.length && (await this.spendRecoveryCode(user, stored, remaining))) {
+        await this.recordEvent(user, SecurityEventType.RECOVERY_CODE_USED, 'HIGH', 'Recovery code used to sign in', {
+          ip: ipAddress,
+          remaining: remaining.length,
+        });
+        return;
+      }
+    }
+
+    const failedCount = (user.failedLoginCount || 0) + 1;
+    const shouldLock = failedCount >= MAX_FAILED_ATTEMPTS;
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        failedLoginCount: failedCount,
+        lockedUntil: shouldLock ? new Date(Date.now() + LOCK_MINUTES * 60 * 1000) : null,
+      },
+    });
+
+    await this.recordEvent(
+      user,
+      SecurityEventType.TWO_FACTOR_FAILED,
+      shouldLock ? 'HIGH' : 'MEDIUM',
+      shouldLock ? 'Account locked after repeated two-factor failures' : 'Invalid two-factor code',
+      { ip: ipAddress, method: input.recoveryCode ? 'recovery_code' : 'totp', failedCount },
+    );
+
+    throw new InvalidTwoFactorCodeException(MAX_FAILED_ATTEMPTS - failedCount);
+  }
+
+  /**
+   * Mark a TOTP step as used and reset failures. False when this step or a
+   * later one was already accepted - the conditional update also settles two
+   * concurrent requests with the same code.
+   */
+  private async acceptStep(user: User, step: number): Promise<boolean> {
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step, failedLoginCount: 0, lockedUntil: null },
+    });
+    return count === 1;
+  }
+
+  /**
+   * Replace the stored recovery codes only if they are still the ones this
+   * request read, so two concurrent logins cannot spend the same code and a
+   * concurrent use of another code is not undone
+   */
+  private async spendRecoveryCode(user: User, stored: string[], remaining: string[]): Promise<boolean> {
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: user.id, twoFactorRecoveryCodes: { equals: stored } },
+      data: { twoFactorRecoveryCodes: remaining, failedLoginCount: 0, lockedUntil: null },
+    });
+    return count === 1;
+  }
+
+  private async recordEvent(
+    user: Pick<User, 'id' | 'tenantId'>,
+    eventType: string,
+    severity: 'LOW' | 'MEDIUM' | 'HIGH',
+    message: string,
+    metadata: Record<string, unknown> = {},
+  ): Promise<void> {
+    try {
+      await this.prisma.securityEvent.create({
+        data: {
+          tenantId: user.tenantId,
+          userId: user.id,
+          eventType,
+          severity,
+          message,
+          metadata: metadata as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      // Never block authentication on event logging
+      this.logger.error(`Failed to record security event ${eventType}: ${error.message}`);
+    }
+  }
+
+  private decryptSecret(user: Pick<User, 'twoFactorSecret'>): string {
+    return this.encryptionService.decrypt(user.twoFactorSecret as string);
+  }
+
+  private storedRecoveryCodes(user: Pick<User, 'twoFactorRecoveryCodes'>): string[] {
+    return Array.isArray(user.twoFactorRecoveryCodes) ? (user.twoFactorRecoveryCodes as string[]) : [];
+  }
+
+  /** Codes look like "3f9a1-c07be"; dashes and case are ignored when checking */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private challengeSecret(): string {
+    // Distinct from JWT_SECRET so a challenge token can never pass as an access token
+    return `${this.config.get<string>('JWT_SECRET')}:two-factor-challenge`;
+  }
+}
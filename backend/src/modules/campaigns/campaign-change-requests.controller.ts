@@ -0,0 +1,70 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Post, Put, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { CampaignWriteBackService } from './campaign-write-back.service';
+import {
+  ApproveCampaignChangeDto,
+  QueryCampaignChangeRequestsDto,
+  RejectCampaignChangeDto,
+  UpdateChangeApprovalSettingsDto,
+} from './dto';
+
+@ApiTags('Campaigns')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
+@Controller('campaign-change-requests')
+@RequirePermissions('campaigns:approve')
+export class CampaignChangeRequestsController {
+  constructor(private readonly writeBackService: CampaignWriteBackService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'List campaign changes waiting for approval (or by status)' })
+  findAll(
+    @CurrentUser('tenantId') tenantId: string,
+    @Query() query: QueryCampaignChangeRequestsDto,
+  ) {
+    return this.writeBackService.findRequests(tenantId, query.status);
+  }
+
+  @Post(':id/approve')
+  @ApiOperation({ summary: 'Approve a change and push it to the ad platform' })
+  approve(
+    @CurrentUser() user: any,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ApproveCampaignChangeDto,
+  ) {
+    return this.writeBackService.approve(user.tenantId, id, user.id, dto.force);
+  }
+
+  @Post(':id/reject')
+  @ApiOperation({ summary: 'Reject a change request' })
+  reject(
+    @CurrentUser() user: any,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RejectCampaignChangeDto,
+  ) {
+    return this.writeBackService.reject(user.tenantId, id, user.id, dto.reason);
+  }
+
+  @Get('settings')
+  @ApiOperation({ summary: 'Whether CLIENT campaign edits need approval' })
+  getSettings(@CurrentUser('tenantId') tenantId: string) {
+    return this.writeBackService.getSettings(tenantId);
+  }
+
+  @Put('settings')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Turn CLIENT approval for campaign edits on or off (Admin only)' })
+  updateSettings(
+    @CurrentUser() user: any,
+    @Body() dto: UpdateChangeApprovalSettingsDto,
+  ) {
+    return this.writeBackService.updateSettings(user.tenantId, dto.clientChangeApproval, user.id);
+  }
+}
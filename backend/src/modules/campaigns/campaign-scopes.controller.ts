@@ -0,0 +1,37 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Put, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { CampaignScopesService } from './campaign-scopes.service';
+import { UpdateCampaignScopesDto } from './dto';
+
+@ApiTags('Campaigns')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+@Controller('campaign-scopes')
+export class CampaignScopesController {
+  constructor(private readonly campaignScopesService: CampaignScopesService) { }
+
+  @Get('users/:userId')
+  @ApiOperation({ summary: 'Get the campaigns and ad accounts a user is limited to (Admin only)' })
+  findForUser(
+    @CurrentUser('tenantId') tenantId: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ) {
+    return this.campaignScopesService.findForUser(tenantId, userId);
+  }
+
+  @Put('users/:userId')
+  @ApiOperation({ summary: 'Limit a CLIENT/VIEWER user to campaigns or ad accounts; empty lists clear the limit (Admin only)' })
+  replaceForUser(
+    @CurrentUser() user: any,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() dto: UpdateCampaignScopesDto,
+  ) {
+    return this.campaignScopesService.replaceForUser(user.tenantId, userId, dto, user.id);
+  }
+}
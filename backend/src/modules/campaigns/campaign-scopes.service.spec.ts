@@ -0,0 +1,270 @@
+/**
+ * Campaign Scope Unit Tests
+ * @module campaign-scopes.service.spec
+ * @description Per-client campaign scoping:
+ *   - CLIENT / VIEWER users with scope rows only match their campaigns or ad accounts
+ *   - Admins and users without rows keep tenant-wide visibility
+ *   - Alert audiences exclude scoped users outside the alert's campaign
+ *   - Scopes can only reference campaigns and ad accounts of the same tenant
+ *   - Ad groups, AI insights, ecommerce and CRM dashboards only return a scoped user's campaigns
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { AdPlatform, UserRole } from '@prisma/client';
+import { CampaignScopesService } from './campaign-scopes.service';
+import {
+  campaignAudienceWhere,
+  campaignRelationScope,
+  resolveCampaignScope,
+  scopeCampaignWhere,
+} from '../../common/utils/campaign-scope.util';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { AdGroupsRepository } from '../ad-groups/ad-groups.repository';
+import { InsightsService } from '../dashboard/insights.service';
+import { EcommerceService } from '../dashboard/ecommerce.service';
+import { CrmService } from '../dashboard/crm.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { EcommercePeriod } from '../dashboard/dto/ecommerce-summary.dto';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+
+const clientScopes = [
+  { campaignId: 'campaign-001', platform: null, accountId: null },
+  { campaignId: null, platform: AdPlatform.GOOGLE_ADS, accountId: 'gads-001' },
+];
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('Campaign scopes', () => {
+  describe('resolveCampaignScope', () => {
+    it('should limit a scoped client to its campaigns and ad accounts', () => {
+      const scope = resolveCampaignScope({ role: UserRole.CLIENT, campaignScopes: clientScopes });
+
+      expect(scope).toEqual({
+        OR: [{ id: { in: ['campaign-001'] } }, { googleAdsAccountId: { in: ['gads-001'] } }],
+      });
+      expect(scopeCampaignWhere({ tenantId: TENANT_ID }, scope)).toEqual({ AND: [{ tenantId: TENANT_ID }, scope] });
+      expect(campaignRelationScope(scope)).toEqual({ campaign: scope });
+    });
+
+    it('should keep tenant-wide visibility for admins and users without scope rows', () => {
+      expect(resolveCampaignScope({ role: UserRole.ADMIN, campaignScopes: clientScopes })).toBeUndefined();
+      expect(resolveCampaignScope({ role: UserRole.VIEWER, campaignScopes: [] })).toBeUndefined();
+      expect(scopeCampaignWhere({ tenantId: TENANT_ID }, undefined)).toEqual({ tenantId: TENANT_ID });
+    });
+
+    it('should match nothing when scope rows no longer point anywhere', () => {
+      const scope = resolveCampaignScope({
+        role: UserRole.VIEWER,
+        campaignScopes: [{ campaignId: null, platform: AdPlatform.INSTAGRAM, accountId: 'ig-001' }],
+      });
+
+      expect(scope).toEqual({ id: { in: [] } });
+    });
+  });
+
+  describe('campaignAudienceWhere', () => {
+    it('should let scoped users hear about their campaign or ad account only', () => {
+      const where = campaignAudienceWhere({
+        id: 'campaign-002',
+        googleAdsAccountId: 'gads-001',
+        facebookAdsAccountId: null,
+        tiktokAdsAccountId: null,
+        lineAdsAccountId: null,
+        shopeeAccountId: null,
+        lazadaAccountId: null,
+      });
+
+      expect(where.OR).toContainEqual({
+        campaignScopes: {
+          some: {
+            OR: [{ campaignId: 'campaign-002' }, { platform: AdPlatform.GOOGLE_ADS, accountId: 'gads-001' }],
+          },
+        },
+      });
+    });
+
+    it('should only reach unscoped users for tenant-level alerts', () => {
+      expect(campaignAudienceWhere(null).OR).toHaveLength(2);
+    });
+  });
+
+  describe('CampaignScopesService', () => {
+    let service: CampaignScopesService;
+    let prisma: any;
+    let tx: any;
+
+    beforeEach(async () => {
+      tx = {
+        userCampaignScope: {
+          deleteMany: jest.fn(),
+          createMany: jest.fn(),
+          findMany: jest.fn().mockResolvedValue([]),
+        },
+      };
+      prisma = {
+        user: { findFirst: jest.fn().mockResolvedValue({ id: 'user-001', role: UserRole.CLIENT }) },
+        campaign: { count: jest.fn().mockResolvedValue(1) },
+        googleAdsAccount: { count: jest.fn().mockResolvedValue(1) },
+        $transaction: jest.fn((fn) => fn(tx)),
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          CampaignScopesService,
+          { provide: PrismaService, useValue: prisma },
+          { provide: AuditLogsService, useValue: { createLog: jest.fn() } },
+        ],
+      }).compile();
+
+      service = module.get(CampaignScopesService);
+    });
+
+    it('should replace the scope rows of a client', async () => {
+      await service.replaceForUser(
+        TENANT_ID,
+        'user-001',
+        { campaignIds: ['campaign-001'], accounts: [{ platform: AdPlatform.GOOGLE_ADS, accountId: 'gads-001' }] },
+        'admin-001',
+      );
+
+      expect(tx.userCampaignScope.deleteMany).toHaveBeenCalledWith({ where: { tenantId: TENANT_ID, userId: 'user-001' } });
+      expect(tx.userCampaignScope.createMany.mock.calls[0][0].data).toEqual([
+        { tenantId: TENANT_ID, userId: 'user-001', campaignId: 'campaign-001' },
+        { tenantId: TENANT_ID, userId: 'user-001', platform: AdPlatform.GOOGLE_ADS, accountId: 'gads-001' },
+      ]);
+    });
+
+    it('should reject a campaign from another tenant', async () => {
+      prisma.campaign.count.mockResolvedValue(0);
+
+      await expect(
+        service.replaceForUser(TENANT_ID, 'user-001', { campaignIds: ['campaign-other'], accounts: [] }, 'admin-001'),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not scope users outside CLIENT and VIEWER', async () => {
+      prisma.user.findFirst.mockResolvedValue({ id: 'user-002', role: UserRole.MANAGER });
+
+      await expect(
+        service.replaceForUser(TENANT_ID, 'user-002', { campaignIds: ['campaign-001'], accounts: [] }, 'admin-001'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('Scoped reads', () => {
+    const scope = resolveCampaignScope({ role: UserRole.CLIENT, campaignScopes: clientScopes });
+    let prisma: any;
+    let module: TestingModule;
+
+    beforeEach(async () => {
+      prisma = {
+        adGroup: { findMany: jest.fn().mockResolvedValue([]), count: jest.fn().mockResolvedValue(0), findFirst: jest.fn() },
+        aiInsight: { findMany: jest.fn().mockResolvedValue([]) },
+        campaign: { findFirst: jest.fn(), findMany: jest.fn().mockResolvedValue([]) },
+        marketplaceDailySales: {
+          aggregate: jest.fn().mockResolvedValue({ _sum: { gmv: null, orders: null } }),
+          groupBy: jest.fn().mockResolvedValue([]),
+        },
+        metric: {
+          aggregate: jest.fn().mockResolvedValue({ _avg: {}, _sum: {} }),
+          groupBy: jest.fn().mockResolvedValue([]),
+        },
+        lead: {
+          count: jest.fn().mockResolvedValue(0),
+          findMany: jest.fn().mockResolvedValue([]),
+          groupBy: jest.fn().mockResolvedValue([]),
+        },
+        deal: {
+          aggregate: jest.fn().mockResolvedValue({ _count: { _all: 0 }, _sum: { value: null } }),
+          findMany: jest.fn().mockResolvedValue([]),
+          groupBy: jest.fn().mockResolvedValue([]),
+        },
+        leadStageChange: { findMany: jest.fn().mockResolvedValue([]) },
+      };
+
+      module = await Test.createTestingModule({
+        providers: [
+          AdGroupsRepository,
+          InsightsService,
+          EcommerceService,
+          CrmService,
+          { provide: PrismaService, useValue: prisma },
+          { provide: TenantTimezoneService, useValue: { getTimezone: jest.fn().mockResolvedValue('Asia/Bangkok') } },
+        ],
+      }).compile();
+    });
+
+    it('should limit ad groups and their parent campaign to the scope', async () => {
+      const repository = module.get(AdGroupsRepository);
+
+      await repository.findAll(TENANT_ID, { page: 1, limit: 10 }, scope);
+      await repository.findOne(TENANT_ID, 'ad-group-001', scope);
+      await repository.verifyCampaignOwnership(TENANT_ID, 'campaign-002', scope);
+
+      expect(prisma.adGroup.findMany.mock.calls[0][0].where).toMatchObject({ tenantId: TENANT_ID, campaign: scope });
+      expect(prisma.adGroup.findFirst.mock.calls[0][0].where).toEqual({ id: 'ad-group-001', tenantId: TENANT_ID, campaign: scope });
+      expect(prisma.campaign.findFirst.mock.calls[0][0].where).toEqual({
+        AND: [{ id: 'campaign-002', tenantId: TENANT_ID }, scope],
+      });
+    });
+
+    it('should only return AI insights about in-scope campaigns', async () => {
+      prisma.campaign.findMany.mockResolvedValue([{ id: 'campaign-001' }]);
+
+      await module.get(InsightsService).getAiInsights(TENANT_ID, scope);
+
+      expect(prisma.aiInsight.findMany.mock.calls[0][0].where).toEqual({
+        tenantId: TENANT_ID,
+        status: 'ACTIVE',
+        OR: [{ payload: { path: ['campaignId'], equals: 'campaign-001' } }],
+      });
+    });
+
+    it('should return no AI insights when no campaign is in scope', async () => {
+      await expect(module.get(InsightsService).getAiInsights(TENANT_ID, scope)).resolves.toEqual([]);
+      expect(prisma.aiInsight.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should limit ecommerce sales to the shops of in-scope campaigns', async () => {
+      prisma.campaign.findMany.mockResolvedValue([
+        { shopeeAccount: { shopId: 'shop-001' }, lazadaAccount: null },
+      ]);
+
+      await module.get(EcommerceService).getSummary(TENANT_ID, { period: EcommercePeriod.D7 }, scope);
+
+      expect(prisma.marketplaceDailySales.aggregate.mock.calls[0][0].where).toMatchObject({
+        tenantId: TENANT_ID,
+        OR: [
+          { platform: AdPlatform.SHOPEE, accountId: { in: ['shop-001'] } },
+          { platform: AdPlatform.LAZADA, accountId: { in: [] } },
+        ],
+      });
+      expect(prisma.metric.aggregate.mock.calls[0][0].where).toMatchObject({ campaign: scope });
+    });
+
+    it('should limit CRM leads, deals, funnel and spend to in-scope campaigns', async () => {
+      await module.get(CrmService).getSummary(TENANT_ID, {}, scope);
+
+      for (const call of [...prisma.lead.count.mock.calls, ...prisma.deal.aggregate.mock.calls, ...prisma.metric.aggregate.mock.calls]) {
+        expect(call[0].where).toMatchObject({ tenantId: TENANT_ID, campaign: scope });
+      }
+      expect(prisma.leadStageChange.findMany.mock.calls[0][0].where.lead).toMatchObject({ campaign: scope });
+    });
+
+    it('should keep dashboards tenant-wide for unscoped users', async () => {
+      await module.get(CrmService).getPipelineTrends(TENANT_ID, 7);
+
+      expect(prisma.lead.findMany.mock.calls[0][0].where).not.toHaveProperty('campaign');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { AdPlatform } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { ACCOUNT_FIELD_BY_PLATFORM, CAMPAIGN_SCOPED_ROLES } from '../../common/utils/campaign-scope.util';
+import { CampaignScopeAccountDto, UpdateCampaignScopesDto } from './dto';
+
+/**
+ * Assigns CLIENT / VIEWER users to the campaigns or ad accounts they may see
+ */
+@Injectable()
+export class CampaignScopesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditLogsService: AuditLogsService,
+  ) { }
+
+  async findForUser(tenantId: string, userId: string) {
+    await this.findUserOrThrow(tenantId, userId);
+
+    const rows = await this.prisma.userCampaignScope.findMany({
+      where: { tenantId, userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return this.toResponse(userId, rows);
+  }
+
+  /**
+   * Replace the user's scope; empty lists restore tenant-wide visibility
+   */
+  async replaceForUser(tenantId: string, userId: string, dto: UpdateCampaignScopesDto, actorId: string) {
+    const user = await this.findUserOrThrow(tenantId, userId);
+    if (!CAMPAIGN_SCOPED_ROLES.includes(user.role) && (dto.campaignIds.length > 0 || dto.accounts.length > 0)) {
+      throw new BadRequestException(`Campaign scope only applies to ${CAMPAIGN_SCOPED_ROLES.join(' / ')} users`);
+    }
+
+    const accounts = this.uniqueAccounts(dto.accounts);
+    await this.assertCampaignsInTenant(tenantId, dto.campaignIds);
+    for (const account of accounts) {
+      await this.assertAccountInTenant(tenantId, account);
+    }
+
+    const rows = await this.prisma.$transaction(async (tx) => {
+      await tx.userCampaignScope.deleteMany({ where: { tenantId, userId } });
+      await tx.userCampaignScope.createMany({
+        data: [
+          ...dto.campaignIds.map((campaignId) => ({ tenantId, userId, campaignId })),
+          ...accounts.map(({ platform, accountId }) => ({ tenantId, userId, platform, accountId })),
+        ],
+      });
+      return tx.userCampaignScope.findMany({ where: { tenantId, userId }, orderBy: { createdAt: 'asc' } });
+    });
+
+    await this.auditLogsService.createLog({
+      userId: actorId,
+      action: 'CAMPAIGN_SCOPE_UPDATED',
+      resource: 'user',
+      details: { targetUserId: userId, campaignIds: dto.campaignIds, accounts },
+    });
+
+    return this.toResponse(userId, rows);
+  }
+
+  private async findUserOrThrow(tenantId: string, userId: string) {
+    const user = await this.prisma.user.findFirst({
+      where: { id: userId, tenantId },
+      select: { id: true, role: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private async assertCampaignsInTenant(tenantId: string, campaignIds: string[]) {
+    if (campaignIds.length === 0) return;
+
+    const found = await this.prisma.campaign.count({ where: { tenantId, id: { in: campaignIds } } });
+    if (found !== campaignIds.length) {
+      throw new BadRequestException('One or more campaigns were not found');
+    }
+  }
+
+  private async assertAccountInTenant(tenantId: string, { platform, accountId }: CampaignScopeAccountDto) {
+    if (!ACCOUNT_FIELD_BY_PLATFORM[platform]) {
+      throw new BadRequestException(`Ad account scope is not supported for ${platform}`);
+    }
+
+    const where = { id: accountId, tenantId };
+    const counts: Partial<Record<AdPlatform, () => Promise<number>>> = {
+      [AdPlatform.GOOGLE_ADS]: () => this.prisma.googleAdsAccount.count({ where }),
+      [AdPlatform.FACEBOOK]: () => this.prisma.facebookAdsAccount.count({ where }),
+      [AdPlatform.TIKTOK]: () => this.prisma.tikTokAdsAccount.count({ where }),
+      [AdPlatform.LINE_ADS]: () => this.prisma.lineAdsAccount.count({ where }),
+      [AdPlatform.SHOPEE]: () => this.prisma.shopeeAccount.count({ where }),
+      [AdPlatform.LAZADA]: () => this.prisma.lazadaAccount.count({ where }),
+    };
+
+    if ((await counts[platform]()) === 0) {
+      throw new BadRequestException(`${platform} account ${accountId} was not found`);
+    }
+  }
+
+  private uniqueAccounts(accounts: CampaignScopeAccountDto[]) {
+    const seen = new Map<string, CampaignScopeAccountDto>();
+    accounts.forEach((a) => seen.set(`${a.platform}:${a.accountId}`, { platform: a.platform, accountId: a.accountId }));
+    return Array.from(seen.values());
+  }
+
+  private toResponse(
+    userId: string,
+    rows: Array<{ campaignId: string | null; platform: AdPlatform | null; accountId: string | null }>,
+  ) {
+    return {
+      userId,
+      campaignIds: rows.filter((r) => r.campaignId).map((r) => r.campaignId as string),
+      accounts: rows
+        .filter((r) => r.platform && r.accountId)
+        .map((r) => ({ platform: r.platform as AdPlatform, accountId: r.accountId as string })),
+    };
+  }
+}
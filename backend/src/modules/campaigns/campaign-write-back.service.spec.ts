@@ -0,0 +1,281 @@
+/**
+ * Campaign Write-back Unit Tests
+ * @module campaign-write-back.service.spec
+ * @description Pushing status / budget / end date edits to ad platforms:
+ *   - Only synced Google Ads / Facebook / TikTok campaigns are pushed
+ *   - A platform value that changed since the last sync is a 409 unless forced
+ *   - Every remote mutation is audit-logged
+ *   - Edits by users without campaigns:write are queued for approval and applied when a reviewer approves
+ *   - A request is claimed before it is pushed, so it is never applied twice
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AdPlatform, CampaignChangeStatus, CampaignStatus, Prisma, UserRole } from '@prisma/client';
+import { CampaignWriteBackService } from './campaign-write-back.service';
+import { CampaignsService } from './campaigns.service';
+import { CampaignsController } from './campaigns.controller';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { CampaignsRepository } from './campaigns.repository';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { IntegrationFactory } from '../integrations/common/integration.factory';
+import { UnifiedSyncService } from '../sync/unified-sync.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+
+const buildCampaign = (overrides: Record<string, unknown> = {}): any => ({
+  id: 'campaign-001',
+  tenantId: TENANT_ID,
+  name: 'Summer Sale',
+  platform: AdPlatform.GOOGLE_ADS,
+  externalId: '1234567890',
+  status: CampaignStatus.ACTIVE,
+  budget: new Prisma.Decimal(100),
+  endDate: null,
+  googleAdsAccountId: 'gads-001',
+  facebookAdsAccountId: null,
+  tiktokAdsAccountId: null,
+  metrics: [],
+  ...overrides,
+});
+
+const liveState = { status: CampaignStatus.ACTIVE, budget: 100, endDate: null };
+
+const pendingRequest = () => ({
+  id: 'request-001',
+  campaignId: 'campaign-001',
+  status: CampaignChangeStatus.PENDING,
+  changes: { budget: 150 },
+  baseline: { status: CampaignStatus.ACTIVE, budget: 100, endDate: null },
+  campaign: buildCampaign(),
+});
+
+/** Execution context for PUT /campaigns/:id, so the guard reads the real decorator metadata */
+const updateContextFor = (user: unknown): ExecutionContext =>
+  ({
+    getHandler: () => CampaignsController.prototype.update,
+    getClass: () => CampaignsController,
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  }) as unknown as ExecutionContext;
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('Campaign write-back', () => {
+  let service: CampaignWriteBackService;
+  let campaignsService: CampaignsService;
+  let repository: { findOne: jest.Mock; update: jest.Mock };
+  let prisma: any;
+  let adapter: { fetchCampaignState: jest.Mock; updateCampaign: jest.Mock };
+  let auditLogs: { createLog: jest.Mock };
+
+  beforeEach(async () => {
+    adapter = {
+      fetchCampaignState: jest.fn().mockResolvedValue(liveState),
+      updateCampaign: jest.fn().mockResolvedValue(undefined),
+    };
+    auditLogs = { createLog: jest.fn() };
+    repository = {
+      findOne: jest.fn().mockResolvedValue(buildCampaign()),
+      update: jest.fn().mockResolvedValue(buildCampaign()),
+    };
+    prisma = {
+      tenant: { findUnique: jest.fn().mockResolvedValue({ clientChangeApproval: true }) },
+      campaign: { update: jest.fn() },
+      campaignChangeRequest: {
+        create: jest.fn().mockResolvedValue({ id: 'request-001', changes: { status: CampaignStatus.PAUSED } }),
+        findFirst: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      $transaction: jest.fn((ops) => Promise.all(ops)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CampaignWriteBackService,
+        CampaignsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditLogsService, useValue: auditLogs },
+        { provide: IntegrationFactory, useValue: { getAdapter: () => adapter } },
+        {
+          provide: UnifiedSyncService,
+          useValue: { getAccountCredentials: jest.fn().mockResolvedValue({ accessToken: 't', accountId: '999' }) },
+        },
+        { provide: CampaignsRepository, useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get(CampaignWriteBackService);
+    campaignsService = module.get(CampaignsService);
+  });
+
+  describe('extractRemoteChanges', () => {
+    it('should only pick write-back fields that differ from the synced campaign', () => {
+      const changes = service.extractRemoteChanges(buildCampaign(), {
+        name: 'Renamed',
+        status: CampaignStatus.PAUSED,
+        budget: 100,
+        endDate: '2025-12-31',
+      });
+
+      expect(changes).toEqual({ status: CampaignStatus.PAUSED, endDate: '2025-12-31' });
+    });
+
+    it('should leave manual campaigns and platforms without write-back local', () => {
+      expect(service.extractRemoteChanges(buildCampaign({ externalId: null }), { budget: 50 })).toBeNull();
+      expect(
+        service.extractRemoteChanges(buildCampaign({ platform: AdPlatform.LINE_ADS }), { budget: 50 }),
+      ).toBeNull();
+    });
+
+    it('should reject statuses the platforms cannot represent', () => {
+      expect(() => service.extractRemoteChanges(buildCampaign(), { status: CampaignStatus.DRAFT }))
+        .toThrow(BadRequestException);
+    });
+  });
+
+  describe('push', () => {
+    it('should push the change and audit-log it', async () => {
+      await service.push(buildCampaign(), { budget: 150, endDate: '2025-12-31' }, 'user-001');
+
+      expect(adapter.updateCampaign).toHaveBeenCalledWith(
+        expect.anything(),
+        '1234567890',
+        { status: undefined, budget: 150, endDate: new Date('2025-12-31') },
+      );
+      expect(auditLogs.createLog).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-001',
+        action: 'CAMPAIGN_REMOTE_UPDATE',
+        details: expect.objectContaining({ changes: { budget: 150, endDate: '2025-12-31' }, forced: false }),
+      }));
+    });
+
+    it('should refuse to overwrite a value changed on the platform since the last sync', async () => {
+      adapter.fetchCampaignState.mockResolvedValue({ ...liveState, budget: 80 });
+
+      await expect(service.push(buildCampaign(), { budget: 150 }, 'user-001')).rejects.toThrow(ConflictException);
+      expect(adapter.updateCampaign).not.toHaveBeenCalled();
+    });
+
+    it('should ignore platform changes to fields that are not being edited', async () => {
+      adapter.fetchCampaignState.mockResolvedValue({ ...liveState, budget: 80 });
+
+      await service.push(buildCampaign(), { status: CampaignStatus.PAUSED }, 'user-001');
+
+      expect(adapter.updateCampaign).toHaveBeenCalled();
+    });
+
+    it('should overwrite a conflict when forced', async () => {
+      adapter.fetchCampaignState.mockResolvedValue({ ...liveState, status: CampaignStatus.PAUSED });
+
+      await service.push(buildCampaign(), { status: CampaignStatus.PAUSED }, 'user-001', { force: true });
+
+      expect(auditLogs.createLog.mock.calls[0][0].details.forced).toBe(true);
+    });
+
+    it('should audit-log a mutation the platform rejected', async () => {
+      adapter.updateCampaign.mockRejectedValue(new BadRequestException('Budget too low'));
+
+      await expect(service.push(buildCampaign(), { budget: 1 }, 'user-001')).rejects.toThrow('Budget too low');
+      expect(auditLogs.createLog.mock.calls[0][0].action).toBe('CAMPAIGN_REMOTE_UPDATE_FAILED');
+    });
+  });
+
+  describe('approval', () => {
+    it('should let a default CLIENT through the PUT guard and keep VIEWERs out', () => {
+      const guard = new PermissionsGuard(new Reflector());
+
+      expect(guard.canActivate(updateContextFor({ role: UserRole.CLIENT }))).toBe(true);
+      expect(() => guard.canActivate(updateContextFor({ role: UserRole.VIEWER }))).toThrow(ForbiddenException);
+    });
+
+    it('should queue edits by users without campaigns:write and keep the live values locally', async () => {
+      const result = await campaignsService.update(
+        TENANT_ID,
+        'campaign-001',
+        { status: CampaignStatus.PAUSED },
+        undefined,
+        { id: 'client-001', role: UserRole.CLIENT },
+      );
+
+      expect(adapter.updateCampaign).not.toHaveBeenCalled();
+      expect(prisma.campaignChangeRequest.create.mock.calls[0][0].data).toMatchObject({
+        requestedById: 'client-001',
+        changes: { status: CampaignStatus.PAUSED },
+        baseline: { status: CampaignStatus.ACTIVE, budget: 100, endDate: null },
+      });
+      expect(repository.update).toHaveBeenCalledWith(TENANT_ID, 'campaign-001', {});
+      expect(result.pendingChangeRequest).toEqual({ id: 'request-001', changes: { status: CampaignStatus.PAUSED } });
+    });
+
+    it('should refuse other edits from users without campaigns:write', async () => {
+      await expect(campaignsService.update(
+        TENANT_ID,
+        'campaign-001',
+        { name: 'Renamed', status: CampaignStatus.PAUSED },
+        undefined,
+        { id: 'client-001', role: UserRole.CLIENT },
+      )).rejects.toThrow(ForbiddenException);
+      expect(prisma.campaignChangeRequest.create).not.toHaveBeenCalled();
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should require approval only without campaigns:write and when the tenant enables it', async () => {
+      const writer = { permissions: ['campaigns:read', 'campaigns:write'] };
+
+      await expect(service.requiresApproval(TENANT_ID, { role: UserRole.CLIENT })).resolves.toBe(true);
+      await expect(service.requiresApproval(TENANT_ID, { role: UserRole.CLIENT, customRole: writer })).resolves.toBe(false);
+      await expect(service.requiresApproval(TENANT_ID, { role: UserRole.MANAGER })).resolves.toBe(false);
+
+      prisma.tenant.findUnique.mockResolvedValue({ clientChangeApproval: false });
+      await expect(service.requiresApproval(TENANT_ID, { role: UserRole.CLIENT })).resolves.toBe(false);
+    });
+
+    it('should push an approved request against its original baseline and apply it locally', async () => {
+      prisma.campaignChangeRequest.findFirst.mockResolvedValue(pendingRequest());
+
+      await service.approve(TENANT_ID, 'request-001', 'admin-001');
+
+      expect(prisma.campaignChangeRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-001', tenantId: TENANT_ID, status: CampaignChangeStatus.PENDING },
+        data: { status: CampaignChangeStatus.APPLYING },
+      });
+      expect(adapter.updateCampaign).toHaveBeenCalled();
+      expect(prisma.campaign.update).toHaveBeenCalledWith({ where: { id: 'campaign-001' }, data: { budget: 150 } });
+      expect(prisma.campaignChangeRequest.update.mock.calls[0][0].data.status).toBe(CampaignChangeStatus.APPLIED);
+    });
+
+    it('should put a conflicting request back to pending', async () => {
+      adapter.fetchCampaignState.mockResolvedValue({ ...liveState, budget: 120 });
+      prisma.campaignChangeRequest.findFirst.mockResolvedValue(pendingRequest());
+
+      await expect(service.approve(TENANT_ID, 'request-001', 'admin-001')).rejects.toThrow(ConflictException);
+      expect(prisma.campaignChangeRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request-001' },
+        data: { status: CampaignChangeStatus.PENDING },
+      });
+      expect(prisma.campaign.update).not.toHaveBeenCalled();
+    });
+
+    it('should not push a request another reviewer already claimed', async () => {
+      prisma.campaignChangeRequest.updateMany.mockResolvedValue({ count: 0 });
+      prisma.campaignChangeRequest.findFirst.mockResolvedValue({
+        ...pendingRequest(),
+        status: CampaignChangeStatus.APPLYING,
+      });
+
+      await expect(service.approve(TENANT_ID, 'request-001', 'admin-002')).rejects.toThrow('already applying');
+      await expect(service.reject(TENANT_ID, 'request-001', 'admin-002')).rejects.toThrow(BadRequestException);
+      expect(adapter.updateCampaign).not.toHaveBeenCalled();
+      expect(prisma.campaignChangeRequest.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,365 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { AdPlatform, Campaign, CampaignChangeStatus, CampaignStatus, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { IntegrationFactory } from '../integrations/common/integration.factory';
+import { RemoteCampaignState } from '../integrations/common/marketing-platform.adapter';
+import { UnifiedSyncService } from '../sync/unified-sync.service';
+import { ACCOUNT_FIELD_BY_PLATFORM } from '../../common/utils/campaign-scope.util';
+import { resolvePermissions } from '../roles/permissions';
+import { UpdateCampaignDto } from './dto';
+
+/** Platforms whose adapters implement campaign write-back */
+export const WRITE_BACK_PLATFORMS: AdPlatform[] = [AdPlatform.GOOGLE_ADS, AdPlatform.FACEBOOK, AdPlatform.TIKTOK];
+
+/** Statuses a user can push; the platforms have no equivalent for DRAFT / COMPLETED etc. */
+const PUSHABLE_STATUSES: CampaignStatus[] = [CampaignStatus.ACTIVE, CampaignStatus.PAUSED];
+
+/**
+ * Write-back fields as stored on a change request (JSON-safe, dates as YYYY-MM-DD)
+ */
+export interface CampaignChangeSet {
+  status?: CampaignStatus;
+  budget?: number;
+  endDate?: string | null;
+}
+
+export interface CampaignFieldConflict {
+  field: keyof CampaignChangeSet;
+  expected: string | number | null;
+  remote: string | number | null;
+}
+
+@Injectable()
+export class CampaignWriteBackService {
+  private readonly logger = new Logger(CampaignWriteBackService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditLogsService: AuditLogsService,
+    private readonly integrationFactory: IntegrationFactory,
+    private readonly unifiedSyncService: UnifiedSyncService,
+  ) { }
+
+  /**
+   * Status / budget / end date edits that have to reach the ad platform
+   * Returns null for manual campaigns, platforms without write-back, or when nothing changes.
+   */
+  extractRemoteChanges(campaign: Campaign, dto: UpdateCampaignDto): CampaignChangeSet | null {
+    if (!this.supportsWriteBack(campaign)) return null;
+
+    const current = this.snapshot(campaign);
+    const changes: CampaignChangeSet = {};
+
+    if (dto.status !== undefined && dto.status !== current.status) {
+      if (!PUSHABLE_STATUSES.includes(dto.status)) {
+        throw new BadRequestException(`Synced campaigns can only be set to ${PUSHABLE_STATUSES.join(' or ')}`);
+      }
+      changes.status = dto.status;
+    }
+    if (dto.budget !== undefined && !this.sameBudget(dto.budget, current.budget)) {
+      changes.budget = dto.budget;
+    }
+    if (dto.endDate !== undefined) {
+      const endDate = dto.endDate ? this.toDateOnly(new Date(dto.endDate)) : null;
+      if (endDate !== current.endDate) changes.endDate = endDate;
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  /**
+   * Whether a user's write-back edits need an admin's approval first
+   * (users without campaigns:write, unless the tenant turned client approval off)
+   */
+  async requiresApproval(
+    tenantId: string,
+    editor: { role: UserRole | string; customRole?: { permissions: unknown } | null },
+  ): Promise<boolean> {
+    if (resolvePermissions(editor).has('campaigns:write')) return false;
+
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { clientChangeApproval: true },
+    });
+    return tenant?.clientChangeApproval ?? true;
+  }
+
+  /**
+   * Push changes to the ad platform
+   * The live values are compared with `baseline` (the campaign as last synced, or as it was when a
+   * change request was made); if the platform moved in the meantime a 409 is raised unless `force`.
+   */
+  async push(
+    campaign: Campaign,
+    changes: CampaignChangeSet,
+    userId: string | undefined,
+    options: { force?: boolean; baseline?: CampaignChangeSet } = {},
+  ): Promise<void> {
+    const accountId = this.accountIdOf(campaign);
+    const adapter = this.integrationFactory.getAdapter(campaign.platform);
+    if (!accountId || !campaign.externalId || !adapter.fetchCampaignState || !adapter.updateCampaign) {
+      throw new BadRequestException(`${campaign.platform} campaigns can't be updated from the dashboard`);
+    }
+
+    const credentials = await this.unifiedSyncService.getAccountCredentials(campaign.platform, accountId);
+    const remote = await adapter.fetchCampaignState(credentials, campaign.externalId);
+
+    const conflicts = this.detectConflicts(options.baseline ?? this.snapshot(campaign), remote, changes);
+    if (conflicts.length > 0 && !options.force) {
+      throw new ConflictException({
+        message: `${campaign.platform} values changed since the last sync`,
+        error: 'CAMPAIGN_REMOTE_CONFLICT',
+        meta: { conflicts },
+      });
+    }
+
+    const audit = {
+      campaignId: campaign.id,
+      platform: campaign.platform,
+      externalId: campaign.externalId,
+      changes,
+      previous: this.fromRemote(remote),
+      forced: conflicts.length > 0,
+    };
+
+    try {
+      await adapter.updateCampaign(credentials, campaign.externalId, {
+        status: changes.status,
+        budget: changes.budget,
+        endDate: changes.endDate === undefined ? undefined : (changes.endDate ? new Date(changes.endDate) : null),
+      });
+    } catch (error) {
+      await this.auditLogsService.createLog({
+        userId,
+        action: 'CAMPAIGN_REMOTE_UPDATE_FAILED',
+        resource: 'Campaign',
+        details: { ...audit, error: error.message },
+      });
+      throw error;
+    }
+
+    await this.auditLogsService.createLog({
+      userId,
+      action: 'CAMPAIGN_REMOTE_UPDATE',
+      resource: 'Campaign',
+      details: audit,
+    });
+    this.logger.log(`Pushed ${Object.keys(changes).join(', ')} to ${campaign.platform} campaign ${campaign.externalId}`);
+  }
+
+  /**
+   * Queue changes for approval instead of pushing them
+   */
+  async requestChange(campaign: Campaign, changes: CampaignChangeSet, userId: string) {
+    const request = await this.prisma.campaignChangeRequest.create({
+      data: {
+        tenantId: campaign.tenantId,
+        campaignId: campaign.id,
+        requestedById: userId,
+        changes: changes as Prisma.InputJsonObject,
+        baseline: this.snapshot(campaign) as Prisma.InputJsonObject,
+      },
+    });
+
+    await this.auditLogsService.createLog({
+      userId,
+      action: 'CAMPAIGN_CHANGE_REQUESTED',
+      resource: 'Campaign',
+      details: { campaignId: campaign.id, changeRequestId: request.id, changes },
+    });
+
+    return request;
+  }
+
+  async findRequests(tenantId: string, status: CampaignChangeStatus = CampaignChangeStatus.PENDING) {
+    return this.prisma.campaignChangeRequest.findMany({
+      where: { tenantId, status },
+      include: {
+        campaign: { select: { id: true, name: true, platform: true } },
+        requestedBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+        reviewedBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Approve a pending request: push it to the platform, then mirror it on the local campaign
+   * The request is held as APPLYING while it is pushed, so a second reviewer can't push it again;
+   * a conflict puts it back to pending so the reviewer can retry with `force`.
+   */
+  async approve(tenantId: string, id: string, reviewerId: string, force = false) {
+    const request = await this.claimPendingOrThrow(tenantId, id, { status: CampaignChangeStatus.APPLYING });
+    const changes = request.changes as CampaignChangeSet;
+
+    try {
+      await this.push(request.campaign, changes, reviewerId, {
+        force,
+        baseline: request.baseline as CampaignChangeSet,
+      });
+    } catch (error) {
+      await this.prisma.campaignChangeRequest.update({
+        where: { id },
+        data: error instanceof ConflictException
+          ? { status: CampaignChangeStatus.PENDING }
+          : {
+            status: CampaignChangeStatus.FAILED,
+            errorMessage: error.message,
+            reviewedById: reviewerId,
+            reviewedAt: new Date(),
+          },
+      });
+      throw error;
+    }
+
+    const [, applied] = await this.prisma.$transaction([
+      this.prisma.campaign.update({ where: { id: request.campaignId }, data: this.toCampaignData(changes) }),
+      this.prisma.campaignChangeRequest.update({
+        where: { id },
+        data: { status: CampaignChangeStatus.APPLIED, reviewedById: reviewerId, reviewedAt: new Date() },
+      }),
+    ]);
+
+    return applied;
+  }
+
+  async reject(tenantId: string, id: string, reviewerId: string, reason?: string) {
+    const rejected = await this.claimPendingOrThrow(tenantId, id, {
+      status: CampaignChangeStatus.REJECTED,
+      errorMessage: reason ?? null,
+      reviewedById: reviewerId,
+      reviewedAt: new Date(),
+    });
+
+    await this.auditLogsService.createLog({
+      userId: reviewerId,
+      action: 'CAMPAIGN_CHANGE_REJECTED',
+      resource: 'Campaign',
+      details: { campaignId: rejected.campaignId, changeRequestId: id, reason },
+    });
+
+    return rejected;
+  }
+
+  async getSettings(tenantId: string) {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { clientChangeApproval: true },
+    });
+    return { clientChangeApproval: tenant?.clientChangeApproval ?? true };
+  }
+
+  async updateSettings(tenantId: string, clientChangeApproval: boolean, userId: string) {
+    await this.prisma.tenant.update({ where: { id: tenantId }, data: { clientChangeApproval } });
+
+    await this.auditLogsService.createLog({
+      userId,
+      action: 'CAMPAIGN_CHANGE_APPROVAL_UPDATED',
+      resource: 'Tenant',
+      details: { tenantId, clientChangeApproval },
+    });
+
+    return { clientChangeApproval };
+  }
+
+  /**
+   * Local column values for a change set
+   */
+  toCampaignData(changes: CampaignChangeSet): Prisma.CampaignUpdateInput {
+    return {
+      ...(changes.status !== undefined && { status: changes.status }),
+      ...(changes.budget !== undefined && { budget: changes.budget }),
+      ...(changes.endDate !== undefined && { endDate: changes.endDate ? new Date(changes.endDate) : null }),
+    };
+  }
+
+  /**
+   * Fields being changed whose platform value no longer matches what we last saw
+   */
+  detectConflicts(
+    baseline: CampaignChangeSet,
+    remote: RemoteCampaignState,
+    changes: CampaignChangeSet,
+  ): CampaignFieldConflict[] {
+    const live = this.fromRemote(remote);
+    const conflicts: CampaignFieldConflict[] = [];
+
+    if (changes.status !== undefined && baseline.status !== live.status) {
+      conflicts.push({ field: 'status', expected: baseline.status ?? null, remote: live.status ?? null });
+    }
+    if (changes.budget !== undefined && !this.sameBudget(baseline.budget ?? 0, live.budget ?? 0)) {
+      conflicts.push({ field: 'budget', expected: baseline.budget ?? null, remote: live.budget ?? null });
+    }
+    if (changes.endDate !== undefined && (baseline.endDate ?? null) !== (live.endDate ?? null)) {
+      conflicts.push({ field: 'endDate', expected: baseline.endDate ?? null, remote: live.endDate ?? null });
+    }
+
+    return conflicts;
+  }
+
+  private supportsWriteBack(campaign: Campaign): boolean {
+    return !!campaign.externalId && WRITE_BACK_PLATFORMS.includes(campaign.platform) && !!this.accountIdOf(campaign);
+  }
+
+  private accountIdOf(campaign: Campaign): string | null {
+    const field = ACCOUNT_FIELD_BY_PLATFORM[campaign.platform];
+    return field ? campaign[field] : null;
+  }
+
+  /**
+   * Move a pending request on with one conditional update, so two reviewers can't both act on it
+   */
+  private async claimPendingOrThrow(
+    tenantId: string,
+    id: string,
+    data: Prisma.CampaignChangeRequestUncheckedUpdateManyInput,
+  ) {
+    const { count } = await this.prisma.campaignChangeRequest.updateMany({
+      where: { id, tenantId, status: CampaignChangeStatus.PENDING },
+      data,
+    });
+    const request = await this.prisma.campaignChangeRequest.findFirst({
+      where: { id, tenantId },
+      include: { campaign: true },
+    });
+    if (!request) {
+      throw new NotFoundException('Change request not found');
+    }
+    if (count === 0) {
+      throw new BadRequestException(`Change request is already ${request.status.toLowerCase()}`);
+    }
+    return request;
+  }
+
+  private snapshot(campaign: Campaign): CampaignChangeSet {
+    return {
+      status: campaign.status,
+      budget: Number(campaign.budget ?? 0),
+      endDate: campaign.endDate ? this.toDateOnly(campaign.endDate) : null,
+    };
+  }
+
+  private fromRemote(remote: RemoteCampaignState): CampaignChangeSet {
+    return {
+      status: remote.status,
+      budget: remote.budget,
+      endDate: remote.endDate ? this.toDateOnly(remote.endDate) : null,
+    };
+  }
+
+  private sameBudget(a: number, b: number): boolean {
+    return Math.abs(Number(a) - Number(b)) < 0.005;
+  }
+
+  private toDateOnly(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
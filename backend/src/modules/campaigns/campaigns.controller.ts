@@ -3,15 +3,25 @@ import { ApiTags, ApiBearerAuth, ApiOperation, ApiParam, ApiQuery } from '@nestj
 import { AuthGuard } from '@nestjs/passport';
 import { CampaignsService } from './campaigns.service';
 import { CreateCampaignDto, UpdateCampaignDto, QueryCampaignsDto } from './dto';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequireAnyPermission, RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
+import { AdGroupsService } from '../ad-groups/ad-groups.service';
 
 @ApiTags('Campaigns')
 @ApiBearerAuth()
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard('jwt'), PermissionsGuard)
 @Controller('campaigns')
+@RequirePermissions('campaigns:read')
 export class CampaignsController {
-  constructor(private readonly campaignsService: CampaignsService) { }
+  constructor(
+    private readonly campaignsService: CampaignsService,
+    private readonly adGroupsService: AdGroupsService,
+  ) { }
 
   @Post()
+  @RequirePermissions('campaigns:write')
   @ApiOperation({ summary: 'Create a new campaign' })
   async create(@Request() req, @Body() createCampaignDto: CreateCampaignDto) {
     const tenantId = req.user.tenantId;
@@ -32,37 +42,44 @@ export class CampaignsController {
   @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'], description: 'Sort direction' })
   @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Metrics start date (YYYY-MM-DD)' })
   @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Metrics end date (YYYY-MM-DD)' })
-  async findAll(@Request() req, @Query() query: QueryCampaignsDto) {
+  async findAll(@Request() req, @Query() query: QueryCampaignsDto, @CurrentCampaignScope() scope: CampaignScope) {
     const tenantId = req.user.tenantId;
-    return this.campaignsService.findAll(tenantId, query);
+    return this.campaignsService.findAll(tenantId, query, scope);
   }
 
   @Get(':id')
   @ApiOperation({ summary: 'Get a campaign by ID' })
   @ApiParam({ name: 'id', description: 'Campaign ID' })
-  async findOne(@Request() req, @Param('id') id: string) {
+  async findOne(@Request() req, @Param('id') id: string, @CurrentCampaignScope() scope: CampaignScope) {
     const tenantId = req.user.tenantId;
-    return this.campaignsService.findOne(tenantId, id);
+    return this.campaignsService.findOne(tenantId, id, scope);
   }
 
   @Put(':id')
-  @ApiOperation({ summary: 'Update a campaign' })
+  @RequireAnyPermission('campaigns:write', 'campaigns:request-change')
+  @ApiOperation({
+    summary: 'Update a campaign',
+    description: 'Status, budget and end date of synced Google Ads / Facebook / TikTok campaigns are pushed to the platform. '
+      + 'Users with only campaigns:request-change may change those fields alone, and their edits are queued for approval when the tenant requires it; 409 means the platform value changed since the last sync (retry with force).',
+  })
   @ApiParam({ name: 'id', description: 'Campaign ID' })
   async update(
     @Request() req,
     @Param('id') id: string,
     @Body() updateCampaignDto: UpdateCampaignDto,
+    @CurrentCampaignScope() scope: CampaignScope,
   ) {
     const tenantId = req.user.tenantId;
-    return this.campaignsService.update(tenantId, id, updateCampaignDto);
+    return this.campaignsService.update(tenantId, id, updateCampaignDto, scope, req.user);
   }
 
   @Delete(':id')
+  @RequirePermissions('campaigns:write')
   @ApiOperation({ summary: 'Delete (soft delete) a campaign' })
   @ApiParam({ name: 'id', description: 'Campaign ID' })
-  async remove(@Request() req, @Param('id') id: string) {
+  async remove(@Request() req, @Param('id') id: string, @CurrentCampaignScope() scope: CampaignScope) {
     const tenantId = req.user.tenantId;
-    return this.campaignsService.remove(tenantId, id);
+    return this.campaignsService.remove(tenantId, id, scope);
   }
 
   @Get(':id/metrics')
@@ -78,11 +95,58 @@ export class CampaignsController {
     @Param('id') id: string,
     @Query('startDate') startDate?: string,
     @Query('endDate') endDate?: string,
+    @CurrentCampaignScope() scope?: CampaignScope,
   ) {
     const tenantId = req.user.tenantId;
     return this.campaignsService.getCampaignMetrics(tenantId, id,
       startDate || undefined,
       endDate || undefined,
+      scope,
+    );
+  }
+
+  @Get(':id/ad-groups')
+  @ApiOperation({
+    summary: 'Get ad groups of a campaign with ad-level metrics',
+    description: 'Ad groups synced from the platform, each with spend / impressions / clicks / conversions summed from its ads.'
+  })
+  @ApiParam({ name: 'id', description: 'Campaign ID' })
+  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Start date (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'End date (YYYY-MM-DD)' })
+  async getAdGroups(
+    @Request() req,
+    @Param('id') id: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @CurrentCampaignScope() scope?: CampaignScope,
+  ) {
+    const tenantId = req.user.tenantId;
+    await this.campaignsService.findOne(tenantId, id, scope);
+    return this.adGroupsService.getCampaignAdGroupPerformance(tenantId, id,
+      startDate ? new Date(startDate) : undefined,
+      endDate ? new Date(endDate) : undefined,
+    );
+  }
+
+  @Get(':id/ad-groups/:adGroupId/ads')
+  @ApiOperation({ summary: 'Get ads (creatives) of an ad group with metrics' })
+  @ApiParam({ name: 'id', description: 'Campaign ID' })
+  @ApiParam({ name: 'adGroupId', description: 'Ad Group ID' })
+  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Start date (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'End date (YYYY-MM-DD)' })
+  async getAds(
+    @Request() req,
+    @Param('id') id: string,
+    @Param('adGroupId') adGroupId: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @CurrentCampaignScope() scope?: CampaignScope,
+  ) {
+    const tenantId = req.user.tenantId;
+    await this.campaignsService.findOne(tenantId, id, scope);
+    return this.adGroupsService.getAdGroupAdPerformance(tenantId, id, adGroupId,
+      startDate ? new Date(startDate) : undefined,
+      endDate ? new Date(endDate) : undefined,
     );
   }
 }
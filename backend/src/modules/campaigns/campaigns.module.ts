@@ -2,11 +2,21 @@
 import { CampaignsController } from './campaigns.controller';
 import { CampaignsService } from './campaigns.service';
 import { CampaignsRepository, PrismaCampaignsRepository } from './campaigns.repository';
+import { CampaignScopesController } from './campaign-scopes.controller';
+import { CampaignScopesService } from './campaign-scopes.service';
+import { AuditLogsModule } from '../audit-logs/audit-logs.module';
+import { SyncModule } from '../sync/sync.module';
+import { CampaignWriteBackService } from './campaign-write-back.service';
+import { CampaignChangeRequestsController } from './campaign-change-requests.controller';
+import { AdGroupsModule } from '../ad-groups/ad-groups.module';
 
 @Module({
-  controllers: [CampaignsController],
+  imports: [AuditLogsModule, SyncModule, AdGroupsModule],
+  controllers: [CampaignsController, CampaignScopesController, CampaignChangeRequestsController],
   providers: [
     CampaignsService,
+    CampaignScopesService,
+    CampaignWriteBackService,
     {
       provide: CampaignsRepository,
       useClass: PrismaCampaignsRepository,
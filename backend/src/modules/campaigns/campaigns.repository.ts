@@ -2,15 +2,16 @@ import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateCampaignDto, UpdateCampaignDto, QueryCampaignsDto } from './dto';
 import { Campaign, Metric, Prisma, CampaignStatus, AdPlatform } from '@prisma/client';
+import { CampaignScope, scopeCampaignWhere } from '../../common/utils/campaign-scope.util';
 
 export abstract class CampaignsRepository {
   abstract create(tenantId: string, data: CreateCampaignDto): Promise<Campaign & { metrics: Metric[] }>;
-  abstract findAll(tenantId: string, query: QueryCampaignsDto): Promise<[(Campaign & { metrics: Metric[] })[], number]>;
-  abstract findOne(tenantId: string, id: string): Promise<(Campaign & { metrics: Metric[] }) | null>;
+  abstract findAll(tenantId: string, query: QueryCampaignsDto, scope?: CampaignScope): Promise<[(Campaign & { metrics: Metric[] })[], number]>;
+  abstract findOne(tenantId: string, id: string, scope?: CampaignScope): Promise<(Campaign & { metrics: Metric[] }) | null>;
   abstract update(tenantId: string, id: string, data: any): Promise<Campaign & { metrics: Metric[] }>;
   abstract remove(tenantId: string, id: string): Promise<void>;
   abstract getMetrics(campaignId: string, startDate?: Date, endDate?: Date): Promise<Metric[]>;
-  abstract getSummary(tenantId: string, query: QueryCampaignsDto): Promise<any>;
+  abstract getSummary(tenantId: string, query: QueryCampaignsDto, scope?: CampaignScope): Promise<any>;
 }
 
 @Injectable()
@@ -36,7 +37,7 @@ export class PrismaCampaignsRepository implements CampaignsRepository {
   // ==========================================================================
   // Helper: Build Where Clause
   // ==========================================================================
-  private buildWhereClause(tenantId: string, query: QueryCampaignsDto): Prisma.CampaignWhereInput {
+  private buildWhereClause(tenantId: string, query: QueryCampaignsDto, scope?: CampaignScope): Prisma.CampaignWhereInput {
     const search = query.search || undefined;
 
     // Handle multi-select Status
@@ -126,16 +127,16 @@ export class PrismaCampaignsRepository implements CampaignsRepository {
       where.platform = platformFilter;
     }
 
-    return where;
+    return scopeCampaignWhere(where, scope);
   }
 
-  async findAll(tenantId: string, query: QueryCampaignsDto): Promise<[(Campaign & { metrics: Metric[] })[], number]> {
+  async findAll(tenantId: string, query: QueryCampaignsDto, scope?: CampaignScope): Promise<[(Campaign & { metrics: Metric[] })[], number]> {
     const page = Number(query.page) || 1;
     const limit = Number(query.limit) || 10;
     const startDate = query.startDate ? new Date(query.startDate) : undefined;
     const endDate = query.endDate ? new Date(query.endDate) : undefined;
 
-    const where = this.buildWhereClause(tenantId, query);
+    const where = this.buildWhereClause(tenantId, query, scope);
 
     const take = limit;
     const skip = (page - 1) * take;
@@ -170,9 +171,9 @@ export class PrismaCampaignsRepository implements CampaignsRepository {
     ]);
   }
 
-  async findOne(tenantId: string, id: string): Promise<(Campaign & { metrics: Metric[] }) | null> {
+  async findOne(tenantId: string, id: string, scope?: CampaignScope): Promise<(Campaign & { metrics: Metric[] }) | null> {
     return this.prisma.campaign.findFirst({
-      where: { id, tenantId },
+      where: scopeCampaignWhere({ id, tenantId }, scope),
       include: { metrics: true },
     });
   }
@@ -215,8 +216,8 @@ export class PrismaCampaignsRepository implements CampaignsRepository {
   // ==========================================================================
   // New Method: Get Global Summary (Aggregated)
   // ==========================================================================
-  async getSummary(tenantId: string, query: QueryCampaignsDto) {
-    const where = this.buildWhereClause(tenantId, query);
+  async getSummary(tenantId: string, query: QueryCampaignsDto, scope?: CampaignScope) {
+    const where = this.buildWhereClause(tenantId, query, scope);
     const startDate = query.startDate ? new Date(query.startDate) : undefined;
     const endDate = query.endDate ? new Date(query.endDate) : undefined;
 
@@ -1,9 +1,19 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
 import { CampaignsRepository } from './campaigns.repository';
 import { AuditLogsService } from '../audit-logs/audit-logs.service';
 import { CreateCampaignDto, UpdateCampaignDto, QueryCampaignsDto } from './dto';
-import { Campaign, Metric, Prisma, AdPlatform } from '@prisma/client';
+import { Campaign, Metric, Prisma, AdPlatform, UserRole } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
+import { CampaignWriteBackService } from './campaign-write-back.service';
+import { resolvePermissions } from '../roles/permissions';
+
+/** Who is editing - decides whether write-back needs approval */
+export interface CampaignEditor {
+  id: string;
+  role: UserRole | string;
+  customRole?: { permissions: unknown } | null;
+}
 
 @Injectable()
 export class CampaignsService {
@@ -11,6 +21,7 @@ export class CampaignsService {
     private readonly repository: CampaignsRepository,
     private readonly auditLogsService: AuditLogsService,
     private readonly prisma: PrismaService,
+    private readonly writeBackService: CampaignWriteBackService,
   ) { }
 
   private async getConnectedAdPlatforms(tenantId: string): Promise<AdPlatform[]> {
@@ -75,7 +86,7 @@ export class CampaignsService {
    * When startDate/endDate are provided, metrics are filtered to that range.
    * This enables accurate "Last 7 Days" / "This Month" reporting.
    */
-  async findAll(tenantId: string, query: QueryCampaignsDto) {
+  async findAll(tenantId: string, query: QueryCampaignsDto, scope?: CampaignScope) {
     const page = Number(query.page) || 1;
     const limit = Number(query.limit) || 10;
     const sortBy = query.sortBy || 'createdAt';
@@ -99,8 +110,8 @@ export class CampaignsService {
     if (isDbSort) {
       // Parallel Execution: Fetch data and summary concurrently
       const [[items, total], summaryRaw] = await Promise.all([
-        this.repository.findAll(tenantId, queryWithPlatformGuard),
-        this.repository.getSummary(tenantId, queryWithPlatformGuard),
+        this.repository.findAll(tenantId, queryWithPlatformGuard, scope),
+        this.repository.getSummary(tenantId, queryWithPlatformGuard, scope),
       ]);
 
       const normalized = items.map((c) => this.normalizeCampaign(c));
@@ -145,8 +156,8 @@ export class CampaignsService {
 
       // Parallel Execution: Fetch all data (for sorting) and summary concurrently
       const [[items, total], summaryRaw] = await Promise.all([
-        this.repository.findAll(tenantId, queryForRepo),
-        this.repository.getSummary(tenantId, queryWithPlatformGuard),
+        this.repository.findAll(tenantId, queryForRepo, scope),
+        this.repository.getSummary(tenantId, queryWithPlatformGuard, scope),
       ]);
 
       const s = summaryRaw._sum;
@@ -199,8 +210,8 @@ export class CampaignsService {
   /**
    * Find single campaign by ID
    */
-  async findOne(tenantId: string, id: string) {
-    const campaign = await this.repository.findOne(tenantId, id);
+  async findOne(tenantId: string, id: string, scope?: CampaignScope) {
+    const campaign = await this.repository.findOne(tenantId, id, scope);
 
     if (!campaign) {
       throw new NotFoundException('Campaign not found');
@@ -211,10 +222,22 @@ export class CampaignsService {
 
   /**
    * Update campaign
+   * Status / budget / end date of synced Google Ads, Facebook and TikTok campaigns are pushed to the
+   * platform first (or queued for approval for CLIENT users), so the next sync doesn't revert them.
    */
-  async update(tenantId: string, id: string, dto: UpdateCampaignDto) {
-    // Check if campaign exists
-    await this.findOne(tenantId, id);
+  async update(tenantId: string, id: string, dto: UpdateCampaignDto, scope?: CampaignScope, editor?: CampaignEditor) {
+    // Check if campaign exists (and is visible to the user)
+    const existing = await this.repository.findOne(tenantId, id, scope);
+    if (!existing) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    // Without campaigns:write only write-back fields of synced campaigns can be requested
+    const canWrite = !editor || resolvePermissions(editor).has('campaigns:write');
+    const remoteChanges = this.writeBackService.extractRemoteChanges(existing, dto);
+    if (!canWrite && (!remoteChanges || dto.name !== undefined || dto.platform !== undefined || dto.startDate !== undefined)) {
+      throw new ForbiddenException('Only status, budget and end date changes can be requested for this campaign');
+    }
 
     const data: Prisma.CampaignUpdateInput = {};
 
@@ -242,17 +265,35 @@ export class CampaignsService {
       data.endDate = dto.endDate ? new Date(dto.endDate) : null;
     }
 
+    let pendingChangeRequest: { id: string; changes: Prisma.JsonValue } | undefined;
+
+    if (remoteChanges) {
+      if (editor && await this.writeBackService.requiresApproval(tenantId, editor)) {
+        // Keep the live values until an admin approves
+        const request = await this.writeBackService.requestChange(existing, remoteChanges, editor.id);
+        pendingChangeRequest = { id: request.id, changes: request.changes };
+        delete data.status;
+        delete data.budget;
+        delete data.endDate;
+      } else {
+        await this.writeBackService.push(existing, remoteChanges, editor?.id, { force: dto.force });
+      }
+    }
+
     const campaign = await this.repository.update(tenantId, id, data);
 
-    return this.normalizeCampaign(campaign);
+    return {
+      ...this.normalizeCampaign(campaign),
+      ...(pendingChangeRequest && { pendingChangeRequest }),
+    };
   }
 
   /**
    * Remove (delete) campaign
    */
-  async remove(tenantId: string, id: string) {
-    // Check if campaign exists
-    await this.findOne(tenantId, id);
+  async remove(tenantId: string, id: string, scope?: CampaignScope) {
+    // Check if campaign exists (and is visible to the user)
+    await this.findOne(tenantId, id, scope);
 
     await this.repository.remove(tenantId, id);
 
@@ -267,9 +308,10 @@ export class CampaignsService {
     id: string,
     startDate?: string,
     endDate?: string,
+    scope?: CampaignScope,
   ) {
     // Check if campaign exists
-    const campaign = await this.findOne(tenantId, id);
+    const campaign = await this.findOne(tenantId, id, scope);
 
     const start = this.toDate(startDate);
     const end = this.toDate(endDate);
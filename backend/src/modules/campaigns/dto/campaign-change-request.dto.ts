@@ -0,0 +1,31 @@
+import { ApiPropertyOptional, ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { CampaignChangeStatus } from '@prisma/client';
+
+export class QueryCampaignChangeRequestsDto {
+  @ApiPropertyOptional({ enum: CampaignChangeStatus, default: CampaignChangeStatus.PENDING })
+  @IsOptional()
+  @IsEnum(CampaignChangeStatus)
+  status?: CampaignChangeStatus;
+}
+
+export class ApproveCampaignChangeDto {
+  @ApiPropertyOptional({ description: 'Apply even if the platform value changed since the request was made' })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+}
+
+export class RejectCampaignChangeDto {
+  @ApiPropertyOptional({ example: 'Budget is locked until month end' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class UpdateChangeApprovalSettingsDto {
+  @ApiProperty({ description: 'Route CLIENT status/budget/end date edits through admin approval' })
+  @IsBoolean()
+  clientChangeApproval: boolean;
+}
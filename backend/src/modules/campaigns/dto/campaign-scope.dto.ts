@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ArrayUnique, IsArray, IsEnum, IsUUID, ValidateNested } from 'class-validator';
+import { AdPlatform } from '@prisma/client';
+
+export class CampaignScopeAccountDto {
+  @ApiProperty({ enum: AdPlatform, example: AdPlatform.GOOGLE_ADS })
+  @IsEnum(AdPlatform)
+  platform: AdPlatform;
+
+  @ApiProperty({ description: 'Ad account ID (GoogleAdsAccount, FacebookAdsAccount, ...)' })
+  @IsUUID()
+  accountId: string;
+}
+
+export class UpdateCampaignScopesDto {
+  @ApiProperty({ type: [String], description: 'Campaigns the user may see' })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  campaignIds: string[];
+
+  @ApiProperty({ type: [CampaignScopeAccountDto], description: 'Ad accounts whose campaigns the user may see' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CampaignScopeAccountDto)
+  accounts: CampaignScopeAccountDto[];
+}
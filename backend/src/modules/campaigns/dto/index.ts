@@ -1,4 +1,5 @@
 ﻿export * from './create-campaign.dto';
 export * from './update-campaign.dto';
 export * from './query-campaigns.dto';
-
+export * from './campaign-scope.dto';
+export * from './campaign-change-request.dto';
@@ -1,5 +1,11 @@
-﻿import { PartialType } from '@nestjs/swagger';
+﻿import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
 import { CreateCampaignDto } from './create-campaign.dto';
 
-export class UpdateCampaignDto extends PartialType(CreateCampaignDto) {}
+export class UpdateCampaignDto extends PartialType(CreateCampaignDto) {
+  @ApiPropertyOptional({ description: 'Push to the ad platform even if its value changed since the last sync' })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+}
 
@@ -0,0 +1,13 @@
+import { ChatAnswerContext } from './chat-facts';
+
+/**
+ * Pluggable answer backend for the chat assistant.
+ *
+ * Implementations turn classified intent + live figures into reply text.
+ * They must only quote values present in `context.facts`.
+ */
+export abstract class ChatAnswerer {
+    abstract readonly name: string;
+
+    abstract answer(context: ChatAnswerContext): Promise<string>;
+}
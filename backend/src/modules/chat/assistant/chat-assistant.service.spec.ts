@@ -0,0 +1,174 @@
+/**
+ * Chat Assistant Unit Tests
+ * @module chat-assistant.service.spec
+ * @description Intent classification and grounded rule-based answers:
+ *   - Thai/English questions map to DashboardAiChatIntent
+ *   - Answers quote live overview figures as evidence
+ *   - Out-of-scope questions do not query tenant data
+ *   - Scoped client users only get figures for their assigned campaigns
+ *   - A failing LLM answerer falls back to the rule-based one
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserRole } from '@prisma/client';
+import { ChatAssistantService } from './chat-assistant.service';
+import { ChatAnswerer } from './chat-answerer';
+import { RuleBasedChatAnswerer } from './rule-based-chat-answerer';
+import { classifyChatIntent } from './chat-intent.classifier';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DashboardService } from '../../dashboard/dashboard.service';
+import { DashboardAiChatIntent } from '../../dashboard/dto/dashboard-ai-chat.dto';
+import { PeriodEnum } from '../../dashboard/dto/dashboard-overview.dto';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const user = { tenantId: 'tenant-001', role: UserRole.ADMIN };
+
+const mockOverview = {
+    success: true,
+    data: {
+        summary: {
+            totalCost: 10000,
+            totalImpressions: 200000,
+            totalClicks: 4000,
+            totalConversions: 120,
+            averageRoas: 3.5,
+            averageCpm: 50,
+            averageCtr: 2,
+            averageRoi: 250,
+        },
+        growth: {
+            costGrowth: 10,
+            impressionsGrowth: 5,
+            clicksGrowth: -4,
+            conversionsGrowth: 12,
+            roasGrowth: 0,
+            cpmGrowth: 0,
+            ctrGrowth: 0,
+            roiGrowth: 0,
+        },
+        trends: [],
+        recentCampaigns: [
+            { id: 'c1', name: 'Brand Search', status: 'ACTIVE', platform: 'GOOGLE_ADS', spending: 6000, impressions: 90000, clicks: 3000, conversions: 80, budgetUtilization: 124.3 },
+            { id: 'c2', name: 'Retargeting', status: 'ACTIVE', platform: 'FACEBOOK', spending: 4000, impressions: 110000, clicks: 1000, conversions: 40, budgetUtilization: 40 },
+        ],
+    },
+    meta: {
+        period: PeriodEnum.SEVEN_DAYS,
+        dateRange: { from: '2026-03-03', to: '2026-03-10' },
+        tenantId: 'tenant-001',
+        generatedAt: '2026-03-10T00:00:00.000Z',
+    },
+};
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('ChatAssistantService', () => {
+    let service: ChatAssistantService;
+    let dashboardService: { getOverview: jest.Mock };
+    let answerer: ChatAnswerer;
+
+    const setup = async (answererOverride?: ChatAnswerer) => {
+        dashboardService = { getOverview: jest.fn().mockResolvedValue(mockOverview) };
+        const ruleBased = new RuleBasedChatAnswerer();
+        answerer = answererOverride ?? ruleBased;
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ChatAssistantService,
+                { provide: PrismaService, useValue: { tenant: { findUnique: jest.fn().mockResolvedValue({ currency: 'THB' }) } } },
+                { provide: DashboardService, useValue: dashboardService },
+                { provide: ChatAnswerer, useValue: answerer },
+                { provide: RuleBasedChatAnswerer, useValue: ruleBased },
+            ],
+        }).compile();
+
+        service = module.get<ChatAssistantService>(ChatAssistantService);
+    };
+
+    describe('classifyChatIntent', () => {
+        it.each([
+            ['Which campaigns are over budget?', DashboardAiChatIntent.OVER_BUDGET],
+            ['แคมเปญไหนใช้งบเกิน', DashboardAiChatIntent.OVER_BUDGET],
+            ['What is my average CPC?', DashboardAiChatIntent.CPC],
+            ['รายได้เดือนนี้เท่าไหร่', DashboardAiChatIntent.REVENUE],
+            ['Show me the best performing campaign', DashboardAiChatIntent.TOP_CAMPAIGN],
+            ['How is CTR trending?', DashboardAiChatIntent.PERFORMANCE],
+            ['สรุปภาพรวม', DashboardAiChatIntent.SUMMARY],
+            ['Write me a poem', DashboardAiChatIntent.OUT_OF_SCOPE],
+        ])('should classify "%s" as %s', (question, intent) => {
+            expect(classifyChatIntent(question)).toBe(intent);
+        });
+    });
+
+    describe('ask', () => {
+        beforeEach(() => setup());
+
+        it('should answer over-budget questions from live overview data', async () => {
+            const result = await service.ask(user, 'Which campaigns are over budget?', PeriodEnum.SEVEN_DAYS);
+
+            expect(dashboardService.getOverview).toHaveBeenCalledWith(user, { period: PeriodEnum.SEVEN_DAYS }, undefined);
+            expect(result.data.intent).toBe(DashboardAiChatIntent.OVER_BUDGET);
+            expect(result.data.answer).toContain('Brand Search');
+            expect(result.data.answer).toContain('124.30%');
+            expect(result.data.answer).not.toContain('Retargeting');
+            expect(result.data.evidence).toContainEqual({ label: 'Budget used · Brand Search', value: '124.30%' });
+            expect(result.answeredBy).toBe('rule-based');
+        });
+
+        it('should quote CPC derived from cost and clicks', async () => {
+            const result = await service.ask(user, 'What is my CPC?');
+
+            expect(result.data.answer).toContain('THB 2.50');
+            expect(result.data.evidence[0]).toEqual({ label: 'CPC', value: 'THB 2.50' });
+        });
+
+        it('should reply in Thai to Thai questions', async () => {
+            const result = await service.ask(user, 'สรุปภาพรวม 7 วัน');
+
+            expect(result.data.answer).toContain('ใช้งบโฆษณา');
+            expect(result.data.answer).toContain('THB 10,000');
+        });
+
+        it('should limit a scoped client to its assigned campaigns', async () => {
+            const client = {
+                tenantId: 'tenant-001',
+                role: UserRole.CLIENT,
+                campaignScopes: [{ campaignId: 'c1', platform: null, accountId: null }],
+            };
+
+            await service.ask(client, 'สรุปภาพรวม');
+
+            expect(dashboardService.getOverview).toHaveBeenCalledWith(
+                { tenantId: 'tenant-001', role: UserRole.CLIENT },
+                { period: PeriodEnum.SEVEN_DAYS },
+                { OR: [{ id: { in: ['c1'] } }] },
+            );
+        });
+
+        it('should not query tenant data for out-of-scope questions', async () => {
+            const result = await service.ask(user, 'Write me a poem');
+
+            expect(dashboardService.getOverview).not.toHaveBeenCalled();
+            expect(result.data.intent).toBe(DashboardAiChatIntent.OUT_OF_SCOPE);
+            expect(result.data.evidence).toEqual([]);
+            expect(result.dateRange).toBeNull();
+        });
+    });
+
+    describe('pluggable answerer', () => {
+        it('should fall back to the rule-based answer when the LLM fails', async () => {
+            await setup({ name: 'openai', answer: jest.fn().mockRejectedValue(new Error('timeout')) });
+
+            const result = await service.ask(user, 'How much revenue did we make?');
+
+            expect(result.answeredBy).toBe('rule-based');
+            expect(result.data.intent).toBe(DashboardAiChatIntent.REVENUE);
+            expect(result.data.answer).toContain('THB 35,000');
+        });
+    });
+});
@@ -0,0 +1,138 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CampaignScopeEntry, resolveCampaignScope } from '../../../common/utils/campaign-scope.util';
+import { DashboardService } from '../../dashboard/dashboard.service';
+import { PeriodEnum } from '../../dashboard/dto/dashboard-overview.dto';
+import {
+    DashboardAiChatDataDto,
+    DashboardAiChatIntent,
+    DashboardAiChatQueryType,
+} from '../../dashboard/dto/dashboard-ai-chat.dto';
+import { ChatAnswerer } from './chat-answerer';
+import { buildChatEvidence, ChatFacts, detectLanguage } from './chat-facts';
+import { classifyChatIntent } from './chat-intent.classifier';
+import { RuleBasedChatAnswerer } from './rule-based-chat-answerer';
+
+/** Authenticated user asking; CLIENT/VIEWER answers only cover their assigned campaigns */
+export interface ChatUser {
+    tenantId: string;
+    role: UserRole;
+    campaignScopes?: CampaignScopeEntry[] | null;
+}
+
+export interface ChatAssistantReply {
+    data: DashboardAiChatDataDto;
+    period: PeriodEnum;
+    dateRange: { from: string; to: string } | null;
+    answeredBy: string;
+}
+
+// =============================================================================
+// Chat Assistant - classify a question, gather live figures, answer it
+// =============================================================================
+
+@Injectable()
+export class ChatAssistantService {
+    private readonly logger = new Logger(ChatAssistantService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly dashboardService: DashboardService,
+        private readonly answerer: ChatAnswerer,
+        private readonly fallback: RuleBasedChatAnswerer,
+    ) { }
+
+    async ask(
+        user: ChatUser,
+        question: string,
+        period: PeriodEnum = PeriodEnum.SEVEN_DAYS,
+    ): Promise<ChatAssistantReply> {
+        const intent = classifyChatIntent(question);
+        const language = detectLanguage(question);
+        const facts = intent === DashboardAiChatIntent.OUT_OF_SCOPE
+            ? null
+            : await this.gatherFacts(user, period);
+
+        const context = { question, intent, language, facts };
+        let answer: string;
+        let answeredBy = this.answerer.name;
+
+        try {
+            answer = await this.answerer.answer(context);
+        } catch (error: any) {
+            // An unavailable LLM must never leave the user without a reply
+            this.logger.warn(`${this.answerer.name} answerer failed, using rule-based answer: ${error.message}`);
+            answer = await this.fallback.answer(context);
+            answeredBy = this.fallback.name;
+        }
+
+        return {
+            data: {
+                question,
+                intent,
+                queryType: DashboardAiChatQueryType.ANALYSIS,
+                answer,
+                evidence: buildChatEvidence(intent, facts),
+            },
+            period,
+            dateRange: facts?.dateRange ?? null,
+            answeredBy,
+        };
+    }
+
+    /**
+     * Collect the figures an answer may quote, from the same source as the dashboard overview
+     */
+    private async gatherFacts(user: ChatUser, period: PeriodEnum): Promise<ChatFacts> {
+        const [overview, tenant] = await Promise.all([
+            this.dashboardService.getOverview(
+                { tenantId: user.tenantId, role: user.role },
+                { period },
+                resolveCampaignScope(user),
+            ),
+            this.prisma.tenant.findUnique({
+                where: { id: user.tenantId },
+                select: { currency: true },
+            }),
+        ]);
+
+        const { summary, growth, recentCampaigns } = overview.data;
+
+        return {
+            currency: tenant?.currency || 'THB',
+            period: overview.meta.period,
+            dateRange: overview.meta.dateRange,
+            summary: {
+                totalCost: summary.totalCost,
+                totalRevenue: summary.averageRoas * summary.totalCost,
+                totalImpressions: summary.totalImpressions,
+                totalClicks: summary.totalClicks,
+                totalConversions: summary.totalConversions,
+                averageCtr: summary.averageCtr,
+                averageCpc: summary.totalClicks > 0 ? summary.totalCost / summary.totalClicks : 0,
+                averageRoas: summary.averageRoas,
+            },
+            growth: {
+                costGrowth: growth.costGrowth,
+                clicksGrowth: growth.clicksGrowth,
+                conversionsGrowth: growth.conversionsGrowth,
+                ctrGrowth: growth.ctrGrowth,
+                roasGrowth: growth.roasGrowth,
+            },
+            campaigns: recentCampaigns
+                .filter((c) => c.spending > 0)
+                .map((c) => ({
+                    name: c.name,
+                    platform: String(c.platform),
+                    status: String(c.status),
+                    spending: c.spending,
+                    impressions: c.impressions,
+                    clicks: c.clicks,
+                    conversions: c.conversions,
+                    budgetUtilization: c.budgetUtilization ?? 0,
+                    cpc: c.clicks > 0 ? c.spending / c.clicks : 0,
+                })),
+        };
+    }
+}
@@ -0,0 +1,137 @@
+import { DashboardAiChatEvidenceDto, DashboardAiChatIntent } from '../../dashboard/dto/dashboard-ai-chat.dto';
+import { PeriodEnum } from '../../dashboard/dto/dashboard-overview.dto';
+
+export type ChatLanguage = 'en' | 'th';
+
+export interface ChatCampaignFact {
+    name: string;
+    platform: string;
+    status: string;
+    spending: number;
+    impressions: number;
+    clicks: number;
+    conversions: number;
+    budgetUtilization: number;
+    cpc: number;
+}
+
+/**
+ * Live tenant figures an answer is allowed to quote.
+ * Built from DashboardService so the chat and the dashboard always agree.
+ */
+export interface ChatFacts {
+    currency: string;
+    period: PeriodEnum;
+    dateRange: { from: string; to: string };
+    summary: {
+        totalCost: number;
+        totalRevenue: number;
+        totalImpressions: number;
+        totalClicks: number;
+        totalConversions: number;
+        averageCtr: number;
+        averageCpc: number;
+        averageRoas: number;
+    };
+    growth: {
+        costGrowth: number | null;
+        clicksGrowth: number | null;
+        conversionsGrowth: number | null;
+        ctrGrowth: number | null;
+        roasGrowth: number | null;
+    };
+    campaigns: ChatCampaignFact[]; // top spenders in the period, highest first
+}
+
+export interface ChatAnswerContext {
+    question: string;
+    intent: DashboardAiChatIntent;
+    language: ChatLanguage;
+    facts: ChatFacts | null; // null for OUT_OF_SCOPE questions
+}
+
+// ============================================================
+// Formatting
+// ============================================================
+
+export function detectLanguage(text: string): ChatLanguage {
+    return /[\u0E00-\u0E7F]/.test(text) ? 'th' : 'en';
+}
+
+export function formatMoney(value: number, currency: string): string {
+    try {
+        return new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency,
+            maximumFractionDigits: Math.abs(value) < 100 ? 2 : 0,
+        }).format(value).replace(/\u00A0/g, ' ');
+    } catch {
+        return `${currency} ${formatNumber(value)}`;
+    }
+}
+
+export function formatNumber(value: number, fractionDigits = 0): string {
+    return value.toLocaleString('en-US', {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+    });
+}
+
+export function formatPercent(value: number): string {
+    return `${formatNumber(value, 2)}%`;
+}
+
+/**
+ * The figures quoted by an answer, in the order they are mentioned.
+ * Kept independent of the answerer so evidence is always computed, never generated.
+ */
+export function buildChatEvidence(intent: DashboardAiChatIntent, facts: ChatFacts | null): DashboardAiChatEvidenceDto[] {
+    if (!facts) return [];
+
+    const { summary, currency } = facts;
+    const money = (value: number) => formatMoney(value, currency);
+
+    switch (intent) {
+        case DashboardAiChatIntent.REVENUE:
+            return [
+                { label: 'Revenue', value: money(summary.totalRevenue) },
+                { label: 'Cost', value: money(summary.totalCost) },
+                { label: 'ROAS', value: formatNumber(summary.averageRoas, 2) },
+            ];
+        case DashboardAiChatIntent.CPC:
+            return [
+                { label: 'CPC', value: money(summary.averageCpc) },
+                { label: 'Clicks', value: formatNumber(summary.totalClicks) },
+                { label: 'Cost', value: money(summary.totalCost) },
+                ...facts.campaigns
+                    .filter((c) => c.clicks > 0)
+                    .slice(0, 3)
+                    .map((c) => ({ label: `CPC · ${c.name}`, value: money(c.cpc) })),
+            ];
+        case DashboardAiChatIntent.OVER_BUDGET:
+            return facts.campaigns
+                .filter((c) => c.budgetUtilization > 0)
+                .slice(0, 5)
+                .map((c) => ({ label: `Budget used · ${c.name}`, value: formatPercent(c.budgetUtilization) }));
+        case DashboardAiChatIntent.TOP_CAMPAIGN:
+            return facts.campaigns.slice(0, 3).map((c) => ({ label: `Spend · ${c.name}`, value: money(c.spending) }));
+        case DashboardAiChatIntent.PERFORMANCE:
+            return [
+                { label: 'Clicks', value: formatNumber(summary.totalClicks) },
+                { label: 'CTR', value: formatPercent(summary.averageCtr) },
+                { label: 'Conversions', value: formatNumber(summary.totalConversions) },
+                { label: 'ROAS', value: formatNumber(summary.averageRoas, 2) },
+            ];
+        case DashboardAiChatIntent.SUMMARY:
+            return [
+                { label: 'Cost', value: money(summary.totalCost) },
+                { label: 'Impressions', value: formatNumber(summary.totalImpressions) },
+                { label: 'Clicks', value: formatNumber(summary.totalClicks) },
+                { label: 'CTR', value: formatPercent(summary.averageCtr) },
+                { label: 'Conversions', value: formatNumber(summary.totalConversions) },
+                { label: 'ROAS', value: formatNumber(summary.averageRoas, 2) },
+            ];
+        default:
+            return [];
+    }
+}
@@ -0,0 +1,45 @@
+import { DashboardAiChatIntent } from '../../dashboard/dto/dashboard-ai-chat.dto';
+
+/**
+ * Keyword rules in priority order (Thai/English).
+ * The first intent with a matching keyword wins, so narrow intents
+ * (budget, CPC) are checked before broad ones (performance, summary).
+ */
+const INTENT_RULES: Array<{ intent: DashboardAiChatIntent; keywords: string[] }> = [
+    {
+        intent: DashboardAiChatIntent.OVER_BUDGET,
+        keywords: ['over budget', 'overbudget', 'overspend', 'exceed', 'budget', 'เกินงบ', 'งบประมาณ', 'ใช้งบ'],
+    },
+    {
+        intent: DashboardAiChatIntent.CPC,
+        keywords: ['cpc', 'cost per click', 'cost-per-click', 'ต้นทุนต่อคลิก', 'ค่าคลิก', 'ราคาต่อคลิก'],
+    },
+    {
+        intent: DashboardAiChatIntent.REVENUE,
+        keywords: ['revenue', 'sales', 'income', 'roas', 'return on ad', 'รายได้', 'ยอดขาย'],
+    },
+    {
+        intent: DashboardAiChatIntent.TOP_CAMPAIGN,
+        keywords: ['top campaign', 'best campaign', 'top performing', 'best performing', 'highest', 'biggest', 'which campaign', 'แคมเปญไหน', 'ดีที่สุด', 'อันดับ', 'สูงสุด'],
+    },
+    {
+        intent: DashboardAiChatIntent.PERFORMANCE,
+        keywords: ['performance', 'performing', 'ctr', 'click', 'impression', 'conversion', 'trend', 'ประสิทธิภาพ', 'ผลลัพธ์', 'คลิก', 'คอนเวอร์ชัน', 'แนวโน้ม'],
+    },
+    {
+        intent: DashboardAiChatIntent.SUMMARY,
+        keywords: ['summary', 'summarize', 'summarise', 'overview', 'how are', 'how is', 'how did', 'report', 'spend', 'สรุป', 'ภาพรวม', 'รายงาน'],
+    },
+];
+
+export function classifyChatIntent(question: string): DashboardAiChatIntent {
+    const normalized = question.toLowerCase().replace(/\s+/g, ' ').trim();
+
+    for (const rule of INTENT_RULES) {
+        if (rule.keywords.some((keyword) => normalized.includes(keyword))) {
+            return rule.intent;
+        }
+    }
+
+    return DashboardAiChatIntent.OUT_OF_SCOPE;
+}
@@ -0,0 +1,70 @@
+import { Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { ChatAnswerer } from './chat-answerer';
+import { ChatAnswerContext } from './chat-facts';
+
+export interface OpenAiChatAnswererOptions {
+    apiKey: string;
+    model: string;
+    baseUrl: string;
+    timeoutMs: number;
+}
+
+/**
+ * Answers through any OpenAI-compatible `/chat/completions` endpoint.
+ *
+ * The model only sees the facts gathered for the question and is told to
+ * quote nothing else; evidence attached to the reply is still computed
+ * server-side from the same facts.
+ */
+export class OpenAiChatAnswerer extends ChatAnswerer {
+    readonly name = 'openai';
+    private readonly logger = new Logger(OpenAiChatAnswerer.name);
+
+    constructor(
+        private readonly httpService: HttpService,
+        private readonly options: OpenAiChatAnswererOptions,
+    ) {
+        super();
+    }
+
+    async answer(context: ChatAnswerContext): Promise<string> {
+        const system = [
+            'You are the analytics assistant of an advertising dashboard.',
+            'Answer the user question in 1-4 short sentences or a short list.',
+            'Only use figures from the JSON facts provided; never invent numbers.',
+            'If the facts are null or do not answer the question, say what you can answer instead.',
+            `Reply in ${context.language === 'th' ? 'Thai' : 'English'}.`,
+        ].join(' ');
+
+        const { data } = await firstValueFrom(
+            this.httpService.post<{ choices?: Array<{ message?: { content?: string } }> }>(
+                `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+                {
+                    model: this.options.model,
+                    temperature: 0,
+                    messages: [
+                        { role: 'system', content: system },
+                        {
+                            role: 'user',
+                            content: `Intent: ${context.intent}\nFacts: ${JSON.stringify(context.facts)}\nQuestion: ${context.question}`,
+                        },
+                    ],
+                },
+                {
+                    headers: { Authorization: `Bearer ${this.options.apiKey}` },
+                    timeout: this.options.timeoutMs,
+                },
+            ),
+        );
+
+        const content = data?.choices?.[0]?.message?.content?.trim();
+        if (!content) {
+            this.logger.warn('LLM returned an empty answer');
+            throw new Error('Empty answer from LLM provider');
+        }
+
+        return content;
+    }
+}
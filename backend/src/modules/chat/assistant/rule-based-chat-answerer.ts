@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { DashboardAiChatIntent } from '../../dashboard/dto/dashboard-ai-chat.dto';
+import { PeriodEnum } from '../../dashboard/dto/dashboard-overview.dto';
+import { ChatAnswerer } from './chat-answerer';
+import { ChatAnswerContext, ChatLanguage, formatMoney, formatNumber, formatPercent } from './chat-facts';
+
+const PERIOD_LABELS: Record<PeriodEnum, Record<ChatLanguage, string>> = {
+    [PeriodEnum.SEVEN_DAYS]: { en: 'the last 7 days', th: '7 วันที่ผ่านมา' },
+    [PeriodEnum.THIRTY_DAYS]: { en: 'the last 30 days', th: '30 วันที่ผ่านมา' },
+    [PeriodEnum.THIS_MONTH]: { en: 'this month', th: 'เดือนนี้' },
+    [PeriodEnum.LAST_MONTH]: { en: 'last month', th: 'เดือนที่แล้ว' },
+};
+
+/**
+ * Deterministic template answers built only from the supplied facts.
+ * This is the default answerer and needs no network access.
+ */
+@Injectable()
+export class RuleBasedChatAnswerer extends ChatAnswerer {
+    readonly name = 'rule-based';
+
+    async answer({ intent, language, facts }: ChatAnswerContext): Promise<string> {
+        const t = (en: string, th: string) => (language === 'th' ? th : en);
+
+        if (intent === DashboardAiChatIntent.OUT_OF_SCOPE || !facts) {
+            return t(
+                'I can answer questions about your ad spend, revenue, CPC, budgets and campaign performance. Try "Which campaigns are over budget?" or "Summarise the last 7 days".',
+                'ตอนนี้ตอบได้เฉพาะคำถามเกี่ยวกับค่าใช้จ่ายโฆษณา รายได้ CPC งบประมาณ และประสิทธิภาพแคมเปญ ลองถามว่า "แคมเปญไหนใช้งบเกิน?" หรือ "สรุป 7 วันที่ผ่านมา"',
+            );
+        }
+
+        const period = `${PERIOD_LABELS[facts.period]?.[language] ?? facts.period} (${facts.dateRange.from} – ${facts.dateRange.to})`;
+        const money = (value: number) => formatMoney(value, facts.currency);
+        const { summary } = facts;
+
+        if (summary.totalCost === 0 && summary.totalImpressions === 0) {
+            return t(
+                `There is no campaign data for ${period} yet. Connect an ad platform or run a sync to get answers.`,
+                `ยังไม่มีข้อมูลแคมเปญในช่วง${period} เชื่อมต่อแพลตฟอร์มโฆษณาหรือซิงค์ข้อมูลก่อน`,
+            );
+        }
+
+        switch (intent) {
+            case DashboardAiChatIntent.REVENUE:
+                return t(
+                    `Revenue for ${period} was ${money(summary.totalRevenue)} on ${money(summary.totalCost)} of spend, a ROAS of ${formatNumber(summary.averageRoas, 2)}.${this.change(facts.growth.roasGrowth, 'ROAS', language)}`,
+                    `รายได้ในช่วง${period} อยู่ที่ ${money(summary.totalRevenue)} จากค่าโฆษณา ${money(summary.totalCost)} คิดเป็น ROAS ${formatNumber(summary.averageRoas, 2)}${this.change(facts.growth.roasGrowth, 'ROAS', language)}`,
+                );
+
+            case DashboardAiChatIntent.CPC: {
+                const withClicks = facts.campaigns.filter((c) => c.clicks > 0);
+                const priciest = [...withClicks].sort((a, b) => b.cpc - a.cpc)[0];
+                const detail = priciest
+                    ? t(
+                        ` The highest CPC among your top campaigns is "${priciest.name}" at ${money(priciest.cpc)}.`,
+                        ` แคมเปญที่ CPC สูงสุดคือ "${priciest.name}" ที่ ${money(priciest.cpc)}`,
+                    )
+                    : '';
+                return t(
+                    `Average CPC for ${period} is ${money(summary.averageCpc)} (${money(summary.totalCost)} over ${formatNumber(summary.totalClicks)} clicks).${detail}`,
+                    `CPC เฉลี่ยในช่วง${period} อยู่ที่ ${money(summary.averageCpc)} (${money(summary.totalCost)} จาก ${formatNumber(summary.totalClicks)} คลิก)${detail}`,
+                );
+            }
+
+            case DashboardAiChatIntent.OVER_BUDGET: {
+                const budgeted = facts.campaigns.filter((c) => c.budgetUtilization > 0);
+                const over = budgeted.filter((c) => c.budgetUtilization > 100);
+                if (over.length > 0) {
+                    const list = over
+                        .map((c) => `- ${c.name} (${c.platform}): ${formatPercent(c.budgetUtilization)} ${t('of budget', 'ของงบ')}, ${money(c.spending)}`)
+                        .join('\n');
+                    return t(
+                        `${over.length} of your top-spending campaigns went over budget in ${period}:\n${list}`,
+                        `มี ${over.length} แคมเปญที่ใช้งบเกินในช่วง${period}:\n${list}`,
+                    );
+                }
+                if (budgeted.length === 0) {
+                    return t(
+                        `None of your top-spending campaigns in ${period} have a budget set, so budget usage cannot be checked.`,
+                        `แคมเปญที่ใช้จ่ายสูงสุดในช่วง${period} ยังไม่ได้ตั้งงบประมาณ จึงตรวจสอบการใช้งบไม่ได้`,
+                    );
+                }
+                const highest = [...budgeted].sort((a, b) => b.budgetUtilization - a.budgetUtilization)[0];
+                return t(
+                    `No campaign is over budget in ${period}. The highest usage is "${highest.name}" at ${formatPercent(highest.budgetUtilization)} of budget.`,
+                    `ไม่มีแคมเปญที่ใช้งบเกินในช่วง${period} แคมเปญที่ใช้งบมากที่สุดคือ "${highest.name}" ที่ ${formatPercent(highest.budgetUtilization)} ของงบ`,
+                );
+            }
+
+            case DashboardAiChatIntent.TOP_CAMPAIGN: {
+                if (facts.campaigns.length === 0) {
+                    return t(`No campaign spent anything in ${period}.`, `ไม่มีแคมเปญที่มีค่าใช้จ่ายในช่วง${period}`);
+                }
+                const list = facts.campaigns
+                    .slice(0, 3)
+                    .map((c, i) => `${i + 1}. ${c.name} (${c.platform}): ${money(c.spending)}, ${formatNumber(c.clicks)} ${t('clicks', 'คลิก')}, ${formatNumber(c.conversions)} ${t('conversions', 'คอนเวอร์ชัน')}`)
+                    .join('\n');
+                return t(
+                    `Your top campaigns by spend for ${period}:\n${list}`,
+                    `แคมเปญที่ใช้จ่ายสูงสุดในช่วง${period}:\n${list}`,
+                );
+            }
+
+            case DashboardAiChatIntent.PERFORMANCE:
+                return t(
+                    `In ${period} your campaigns got ${formatNumber(summary.totalClicks)} clicks at a ${formatPercent(summary.averageCtr)} CTR and ${formatNumber(summary.totalConversions)} conversions, with a ROAS of ${formatNumber(summary.averageRoas, 2)}.${this.change(facts.growth.clicksGrowth, 'Clicks', language)}${this.change(facts.growth.conversionsGrowth, 'Conversions', language)}`,
+                    `ในช่วง${period} แคมเปญได้ ${formatNumber(summary.totalClicks)} คลิก CTR ${formatPercent(summary.averageCtr)} และ ${formatNumber(summary.totalConversions)} คอนเวอร์ชัน ROAS ${formatNumber(summary.averageRoas, 2)}${this.change(facts.growth.clicksGrowth, 'คลิก', language)}${this.change(facts.growth.conversionsGrowth, 'คอนเวอร์ชัน', language)}`,
+                );
+
+            case DashboardAiChatIntent.SUMMARY:
+            default:
+                return t(
+                    `In ${period} you spent ${money(summary.totalCost)} for ${formatNumber(summary.totalImpressions)} impressions and ${formatNumber(summary.totalClicks)} clicks (CTR ${formatPercent(summary.averageCtr)}), driving ${formatNumber(summary.totalConversions)} conversions at a ROAS of ${formatNumber(summary.averageRoas, 2)}.${this.change(facts.growth.costGrowth, 'Spend', language)}`,
+                    `ในช่วง${period} ใช้งบโฆษณา ${money(summary.totalCost)} ได้ยอดแสดงผล ${formatNumber(summary.totalImpressions)} ครั้ง ${formatNumber(summary.totalClicks)} คลิก (CTR ${formatPercent(summary.averageCtr)}) และ ${formatNumber(summary.totalConversions)} คอนเวอร์ชัน ROAS ${formatNumber(summary.averageRoas, 2)}${this.change(facts.growth.costGrowth, 'ค่าใช้จ่าย', language)}`,
+                );
+        }
+    }
+
+    /**
+     * Sentence describing change vs the previous period, or '' when unknown
+     */
+    private change(growth: number | null, label: string, language: ChatLanguage): string {
+        if (growth === null || !Number.isFinite(growth) || growth === 0) return '';
+        const value = formatPercent(Math.abs(growth));
+        if (language === 'th') {
+            return ` ${label}${growth > 0 ? 'เพิ่มขึ้น' : 'ลดลง'} ${value} จากช่วงก่อนหน้า`;
+        }
+        return ` ${label} is ${growth > 0 ? 'up' : 'down'} ${value} on the previous period.`;
+    }
+}
@@ -4,13 +4,17 @@ import { ChatService } from './chat.service';
 import { CreateChatSessionDto } from './dto/create-chat-session.dto';
 import { CreateChatMessageDto } from './dto/create-chat-message.dto';
 import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { EntitlementsGuard } from '../../common/guards/entitlements.guard';
+import { RequireEntitlements } from '../../common/decorators/require-entitlements.decorator';
 
 @Controller('chat')
-@UseGuards(OptionalJwtAuthGuard)
+@UseGuards(OptionalJwtAuthGuard, EntitlementsGuard)
 export class ChatController {
     constructor(private readonly chatService: ChatService) { }
 
     @Post('sessions')
+    @RequireEntitlements('AI_SUMMARY')
     // @UseGuards(JwtAuthGuard) // Enable if strict auth required
     async createSession(@Body() createSessionDto: CreateChatSessionDto, @Request() req: any) {
         const tenantId = req.user?.tenantId;
@@ -28,27 +32,32 @@ export class ChatController {
         return this.chatService.getSessions(userId);
     }
 
+    // Sessions hold assistant replies with live tenant figures: owner only
     @Get('sessions/:id')
-    async getSession(@Param('id') id: string) {
-        return this.chatService.getSession(id);
+    @UseGuards(JwtAuthGuard)
+    async getSession(@Param('id') id: string, @Request() req: any) {
+        return this.chatService.getSession(req.user, id);
     }
 
     @Patch('sessions/:id')
-    async updateSessionTitle(@Param('id') id: string, @Body('title') title: string) {
-        return this.chatService.updateSessionTitle(id, title);
+    @UseGuards(JwtAuthGuard)
+    async updateSessionTitle(@Param('id') id: string, @Body('title') title: string, @Request() req: any) {
+        return this.chatService.updateSessionTitle(req.user, id, title);
     }
 
     @Delete('sessions/:id')
-    async deleteSession(@Param('id') id: string) {
-        return this.chatService.deleteSession(id);
+    @UseGuards(JwtAuthGuard)
+    async deleteSession(@Param('id') id: string, @Request() req: any) {
+        return this.chatService.deleteSession(req.user, id);
     }
 
     @Post('messages')
+    @RequireEntitlements('AI_SUMMARY')
     async addMessage(@Body() createMessageDto: CreateChatMessageDto, @Request() req: any) {
         const tenantId = req.user?.tenantId;
         if (!tenantId) {
             return { message: 'Unauthorized' };
         }
-        return this.chatService.addMessage(tenantId, createMessageDto.sessionId, createMessageDto);
+        return this.chatService.addMessage(req.user, createMessageDto.sessionId, createMessageDto);
     }
 }
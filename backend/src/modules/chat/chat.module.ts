@@ -1,13 +1,40 @@
-
 import { Module } from '@nestjs/common';
+import { HttpModule, HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
 import { ChatController } from './chat.controller';
 import { ChatService } from './chat.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { DashboardModule } from '../dashboard/dashboard.module';
+import { ChatAssistantService } from './assistant/chat-assistant.service';
+import { ChatAnswerer } from './assistant/chat-answerer';
+import { RuleBasedChatAnswerer } from './assistant/rule-based-chat-answerer';
+import { OpenAiChatAnswerer } from './assistant/openai-chat-answerer';
 
 @Module({
-    imports: [PrismaModule],
+    imports: [PrismaModule, DashboardModule, HttpModule],
     controllers: [ChatController],
-    providers: [ChatService],
+    providers: [
+        ChatService,
+        ChatAssistantService,
+        RuleBasedChatAnswerer,
+        {
+            // CHAT_ASSISTANT_PROVIDER=openai switches to an LLM; rule-based otherwise
+            provide: ChatAnswerer,
+            useFactory: (config: ConfigService, http: HttpService, ruleBased: RuleBasedChatAnswerer) => {
+                const apiKey = config.get<string>('CHAT_ASSISTANT_API_KEY');
+                if (config.get<string>('CHAT_ASSISTANT_PROVIDER') !== 'openai' || !apiKey) {
+                    return ruleBased;
+                }
+                return new OpenAiChatAnswerer(http, {
+                    apiKey,
+                    model: config.get<string>('CHAT_ASSISTANT_MODEL', 'gpt-4o-mini'),
+                    baseUrl: config.get<string>('CHAT_ASSISTANT_BASE_URL', 'https://api.openai.com/v1'),
+                    timeoutMs: config.get<number>('CHAT_ASSISTANT_TIMEOUT_MS', 15000),
+                });
+            },
+            inject: [ConfigService, HttpService, RuleBasedChatAnswerer],
+        },
+    ],
     exports: [ChatService],
 })
 export class ChatModule { }
@@ -1,14 +1,22 @@
 
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateChatSessionDto } from './dto/create-chat-session.dto';
 import { CreateChatMessageDto } from './dto/create-chat-message.dto';
+import { ChatAssistantService, ChatUser } from './assistant/chat-assistant.service';
+
+/** Signed-in user; sessions are only visible to the user who created them */
+type ChatSessionUser = ChatUser & { id: string };
 
 @Injectable()
 export class ChatService {
     private readonly logger = new Logger(ChatService.name);
 
-    constructor(private prisma: PrismaService) { }
+    constructor(
+        private prisma: PrismaService,
+        private assistant: ChatAssistantService,
+    ) { }
 
     async createSession(tenantId: string, userId: string | null, createSessionDto: CreateChatSessionDto) {
         if (!userId) {
@@ -43,9 +51,9 @@ export class ChatService {
         });
     }
 
-    async getSession(id: string) {
-        const session = await this.prisma.chatSession.findUnique({
-            where: { id },
+    async getSession(user: ChatSessionUser, id: string) {
+        const session = await this.prisma.chatSession.findFirst({
+            where: { id, tenantId: user.tenantId, userId: user.id },
             include: {
                 messages: {
                     orderBy: { createdAt: 'asc' },
@@ -60,10 +68,16 @@ export class ChatService {
         return session;
     }
 
-    async addMessage(tenantId: string, sessionId: string, createMessageDto: CreateChatMessageDto) {
-        // 1. Verify session exists
-        const session = await this.prisma.chatSession.findUnique({
-            where: { id: sessionId },
+    async addMessage(
+        user: ChatSessionUser,
+        sessionId: string,
+        createMessageDto: CreateChatMessageDto,
+    ) {
+        const { tenantId } = user;
+
+        // 1. Verify the session exists and belongs to the user
+        const session = await this.prisma.chatSession.findFirst({
+            where: { id: sessionId, tenantId, userId: user.id },
         });
 
         if (!session) {
@@ -95,23 +109,73 @@ export class ChatService {
             });
         }
 
-        return message;
+        // 4. Answer user questions on the server from live tenant data
+        if (createMessageDto.role !== 'user') {
+            return message;
+        }
+
+        const reply = await this.createAssistantReply(user, sessionId, createMessageDto);
+        return { ...message, reply };
     }
 
-    async updateSessionTitle(id: string, title: string) {
-        const session = await this.prisma.chatSession.findUnique({ where: { id } });
-        if (!session) {
-            throw new NotFoundException(`Chat session with ID ${id} not found`);
+    private async createAssistantReply(
+        user: ChatUser,
+        sessionId: string,
+        createMessageDto: CreateChatMessageDto,
+    ) {
+        let content: string;
+        let metadata: Prisma.InputJsonValue;
+
+        try {
+            const result = await this.assistant.ask(user, createMessageDto.content, createMessageDto.period);
+            content = result.data.answer;
+            metadata = {
+                intent: result.data.intent,
+                queryType: result.data.queryType,
+                period: result.period,
+                dateRange: result.dateRange,
+                evidence: result.data.evidence as unknown as Prisma.InputJsonArray,
+                answeredBy: result.answeredBy,
+            };
+        } catch (error: any) {
+            this.logger.error(`Assistant reply failed for session ${sessionId}: ${error.message}`);
+            content = 'Sorry, I could not load your campaign data right now. Please try again in a moment.';
+            metadata = { error: true };
         }
+
+        return this.prisma.chatMessage.create({
+            data: {
+                tenantId: user.tenantId,
+                sessionId,
+                role: 'assistant',
+                content,
+                metadata,
+            },
+        });
+    }
+
+    async updateSessionTitle(user: ChatSessionUser, id: string, title: string) {
+        await this.findOwnSessionOrThrow(user, id);
         return this.prisma.chatSession.update({
             where: { id },
             data: { title },
         });
     }
 
-    async deleteSession(id: string) {
+    async deleteSession(user: ChatSessionUser, id: string) {
+        await this.findOwnSessionOrThrow(user, id);
         return this.prisma.chatSession.delete({
             where: { id },
         });
     }
+
+    private async findOwnSessionOrThrow(user: ChatSessionUser, id: string) {
+        const session = await this.prisma.chatSession.findFirst({
+            where: { id, tenantId: user.tenantId, userId: user.id },
+        });
+        if (!session) {
+            throw new NotFoundException(`Chat session with ID ${id} not found`);
+        }
+        return session;
+    }
 }
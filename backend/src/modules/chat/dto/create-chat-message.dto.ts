@@ -1,5 +1,5 @@
-
-import { IsNotEmpty, IsString, IsUUID } from 'class-validator';
+import { IsEnum, IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import { PeriodEnum } from '../../dashboard/dto/dashboard-overview.dto';
 
 export class CreateChatMessageDto {
     @IsUUID()
@@ -13,4 +13,11 @@ export class CreateChatMessageDto {
     @IsString()
     @IsNotEmpty()
     content: string;
+
+    // Period the assistant answers for (user messages only)
+    @IsOptional()
+    @IsEnum(PeriodEnum, {
+        message: 'period must be one of: 7d, 30d, this_month, last_month',
+    })
+    period?: PeriodEnum;
 }
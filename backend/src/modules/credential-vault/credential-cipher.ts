@@ -0,0 +1,141 @@
+import * as crypto from 'crypto';
+
+/**
+ * Envelope encryption for platform credentials
+ *
+ * Every PlatformToken row gets its own random data key. Token fields are
+ * encrypted with the data key (AES-256-GCM), and the data key is wrapped with
+ * a versioned master key from CREDENTIAL_KEYS. Rotating the master key only
+ * needs the rows re-sealed; the master keys never touch the database.
+ *
+ * Ciphertexts are base64(iv | auth tag | ciphertext). The row context
+ * (tenant, platform, account) is bound as additional authenticated data, so a
+ * ciphertext copied to another row fails to decrypt.
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** Key id used when only the legacy ENCRYPTION_KEY is configured */
+export const DEFAULT_CREDENTIAL_KEY_ID = 'default';
+
+export type CredentialField = 'accessToken' | 'refreshToken' | 'secret';
+
+export const CREDENTIAL_FIELDS: CredentialField[] = ['accessToken', 'refreshToken', 'secret'];
+
+/** Decrypted token fields; null when the platform does not use the field */
+export type CredentialSecrets = Record<CredentialField, string | null>;
+
+/** Token fields as stored in PlatformToken */
+export interface SealedCredentials extends CredentialSecrets {
+    keyId: string;
+    dataKey: string;
+}
+
+export class CredentialCipher {
+    private readonly keys: Map<string, Buffer>;
+
+    constructor(keys: Map<string, Buffer>, readonly activeKeyId: string) {
+        if (!keys.has(activeKeyId)) {
+            throw new Error(`Active credential key "${activeKeyId}" is not in the keyring`);
+        }
+        for (const [keyId, key] of keys) {
+            if (key.length !== KEY_BYTES) {
+                throw new Error(`Credential key "${keyId}" must be ${KEY_BYTES} bytes`);
+            }
+        }
+        this.keys = keys;
+    }
+
+    /**
+     * Build the keyring from CREDENTIAL_KEYS ("keyId:base64Key,...") and
+     * CREDENTIAL_ACTIVE_KEY (defaults to the first entry). Without
+     * CREDENTIAL_KEYS a single key is derived from ENCRYPTION_KEY.
+     */
+    static fromConfig(get: (name: string) => string | undefined): CredentialCipher {
+        const keyList = get('CREDENTIAL_KEYS')?.trim();
+
+        if (!keyList) {
+            const legacyKey = get('ENCRYPTION_KEY');
+            if (!legacyKey) {
+                throw new Error('CREDENTIAL_KEYS or ENCRYPTION_KEY must be defined in environment variables');
+            }
+            const key = crypto.scryptSync(legacyKey, 'credential-vault', KEY_BYTES);
+            return new CredentialCipher(new Map([[DEFAULT_CREDENTIAL_KEY_ID, key]]), DEFAULT_CREDENTIAL_KEY_ID);
+        }
+
+        const keys = new Map<string, Buffer>();
+        for (const entry of keyList.split(',').map((part) => part.trim()).filter(Boolean)) {
+            const separator = entry.indexOf(':');
+            if (separator <= 0) {
+                throw new Error('CREDENTIAL_KEYS entries must look like keyId:base64Key');
+            }
+            keys.set(entry.slice(0, separator), Buffer.from(entry.slice(separator + 1), 'base64'));
+        }
+
+        const activeKeyId = get('CREDENTIAL_ACTIVE_KEY')?.trim() || keys.keys().next().value;
+        return new CredentialCipher(keys, activeKeyId);
+    }
+
+    /**
+     * Encrypt the fields under a fresh data key wrapped with the active master key
+     */
+    seal(context: string, secrets: CredentialSecrets): SealedCredentials {
+        const dataKey = crypto.randomBytes(KEY_BYTES);
+        const sealed = {
+            keyId: this.activeKeyId,
+            dataKey: encrypt(this.masterKey(this.activeKeyId), dataKey, `${this.activeKeyId}:${context}`),
+        } as SealedCredentials;
+
+        for (const field of CREDENTIAL_FIELDS) {
+            const value = secrets[field];
+            sealed[field] = value == null ? null : encrypt(dataKey, Buffer.from(value, 'utf8'), `${context}:${field}`);
+        }
+        return sealed;
+    }
+
+    open(context: string, sealed: SealedCredentials): CredentialSecrets {
+        const dataKey = decrypt(this.masterKey(sealed.keyId), sealed.dataKey, `${sealed.keyId}:${context}`);
+
+        const secrets = {} as CredentialSecrets;
+        for (const field of CREDENTIAL_FIELDS) {
+            const value = sealed[field];
+            secrets[field] = value == null ? null : decrypt(dataKey, value, `${context}:${field}`).toString('utf8');
+        }
+        return secrets;
+    }
+
+    private masterKey(keyId: string): Buffer {
+        const key = this.keys.get(keyId);
+        if (!key) {
+            throw new Error(`Credential key "${keyId}" is not configured`);
+        }
+        return key;
+    }
+}
+
+/** Additional authenticated data for one PlatformToken row */
+export function credentialContext(tenantId: string, platform: string, accountId: string): string {
+    return `${tenantId}:${platform}:${accountId}`;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(aad, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function decrypt(key: Buffer, payload: string, aad: string): Buffer {
+    const raw = Buffer.from(payload, 'base64');
+    if (raw.length < IV_BYTES + TAG_BYTES) {
+        throw new Error('Invalid credential ciphertext');
+    }
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, raw.subarray(0, IV_BYTES));
+    decipher.setAAD(Buffer.from(aad, 'utf8'));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { CredentialVaultService } from './credential-vault.service';
+
+/**
+ * Global so every integration module reads and writes tokens through the vault
+ * without importing this one.
+ */
+@Global()
+@Module({
+    providers: [CredentialVaultService],
+    exports: [CredentialVaultService],
+})
+export class CredentialVaultModule {}
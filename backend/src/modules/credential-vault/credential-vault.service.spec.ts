@@ -0,0 +1,187 @@
+/**
+ * Credential Vault Unit Tests
+ * @module credential-vault.service.spec
+ * @description Platform tokens stored in PlatformToken with envelope encryption:
+ *   - Tokens are stored as AES-GCM ciphertexts under a per-row data key and read back decrypted
+ *   - Partial writes keep the other stored fields
+ *   - Ciphertexts are bound to their row
+ *   - Key rotation re-seals rows under the active key so the old key can be removed
+ *   - Tokens stored before the vault are sealed on first read and their plaintext cleared
+ */
+
+import { randomBytes } from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { AdPlatform } from '@prisma/client';
+import { CredentialVaultService } from './credential-vault.service';
+import { CredentialCipher, DEFAULT_CREDENTIAL_KEY_ID } from './credential-cipher';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionService } from '../../common/services/encryption.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const REF = { tenantId: TENANT_ID, platform: AdPlatform.GOOGLE_ADS, accountId: 'gads-account-001' };
+
+const OLD_KEY = `2026-01:${randomBytes(32).toString('base64')}`;
+const NEW_KEY = `2026-07:${randomBytes(32).toString('base64')}`;
+const ENCRYPTION_KEY = 'legacy-encryption-key';
+
+/** In-memory platform_tokens table, plus a google_ads_accounts table with legacy token columns */
+function fakePrisma() {
+    const rows = new Map<string, any>();
+    const rowKey = (where: any) => {
+        const { tenantId, platform, accountId } = where.platform_tokens_tenant_platform_account_unique;
+        return `${tenantId}:${platform}:${accountId}`;
+    };
+
+    const platformToken = {
+        findUnique: jest.fn(async ({ where }) => rows.get(rowKey(where)) ?? null),
+        upsert: jest.fn(async ({ where, create, update }) => {
+            const key = rowKey(where);
+            const row = rows.has(key) ? { ...rows.get(key), ...update } : { id: `row-${rows.size + 1}`, ...create };
+            rows.set(key, row);
+            return row;
+        }),
+        findMany: jest.fn(async ({ where }) =>
+            [...rows.values()]
+                .filter((row) => row.keyId !== where.keyId.not && (!where.id || row.id > where.id.gt))
+                .sort((a, b) => a.id.localeCompare(b.id)),
+        ),
+        updateMany: jest.fn(async ({ where, data }) => {
+            const row = [...rows.values()].find((r) => r.id === where.id && r.keyId === where.keyId);
+            if (row) Object.assign(row, data);
+            return { count: row ? 1 : 0 };
+        }),
+        deleteMany: jest.fn(),
+    };
+
+    const accounts = new Map<string, any>();
+    const googleAdsAccount = {
+        findFirst: jest.fn(async ({ where }) => {
+            const account = accounts.get(where.id);
+            return account?.tenantId === where.tenantId ? account : null;
+        }),
+        update: jest.fn(async ({ where, data }) => Object.assign(accounts.get(where.id), data)),
+    };
+
+    return { rows, accounts, prisma: { platformToken, googleAdsAccount } as unknown as PrismaService };
+}
+
+function vault(prisma: PrismaService, env: Record<string, string>) {
+    return new CredentialVaultService(prisma, new ConfigService(env));
+}
+
+describe('CredentialVaultService', () => {
+    it('stores ciphertexts and reads the tokens back decrypted', async () => {
+        const { rows, prisma } = fakePrisma();
+        const service = vault(prisma, { CREDENTIAL_KEYS: OLD_KEY });
+
+        await service.store(REF, { accessToken: 'access-1', refreshToken: 'refresh-1' });
+
+        const row = [...rows.values()][0];
+        expect(row.keyId).toBe('2026-01');
+        expect(row.accessToken).not.toContain('access-1');
+        expect(row.refreshToken).not.toContain('refresh-1');
+        expect(row.secret).toBeNull();
+        await expect(service.get(REF)).resolves.toEqual({ accessToken: 'access-1', refreshToken: 'refresh-1', secret: null });
+    });
+
+    it('keeps fields a write leaves undefined', async () => {
+        const { prisma } = fakePrisma();
+        const service = vault(prisma, { CREDENTIAL_KEYS: OLD_KEY });
+
+        await service.store(REF, { accessToken: 'access-1', refreshToken: 'refresh-1' });
+        await service.store(REF, { accessToken: 'access-2' });
+
+        await expect(service.get(REF)).resolves.toMatchObject({ accessToken: 'access-2', refreshToken: 'refresh-1' });
+    });
+
+    it('derives a default key from ENCRYPTION_KEY when no keyring is configured', async () => {
+        const { rows, prisma } = fakePrisma();
+        const service = vault(prisma, { ENCRYPTION_KEY: 'legacy-encryption-key' });
+
+        await service.store(REF, { secret: 'line-secret' });
+
+        expect([...rows.values()][0].keyId).toBe(DEFAULT_CREDENTIAL_KEY_ID);
+        await expect(service.get(REF)).resolves.toMatchObject({ secret: 'line-secret' });
+    });
+
+    it('rejects ciphertexts copied to another account', () => {
+        const cipher = CredentialCipher.fromConfig((name) => ({ CREDENTIAL_KEYS: OLD_KEY } as Record<string, string>)[name]);
+        const sealed = cipher.seal('tenant-001:google_ads:account-a', { accessToken: 'a', refreshToken: null, secret: null });
+
+        expect(() => cipher.open('tenant-001:google_ads:account-b', sealed)).toThrow();
+    });
+
+    it('re-seals old rows under the active key so the old key can be dropped', async () => {
+        const { rows, prisma } = fakePrisma();
+        await vault(prisma, { CREDENTIAL_KEYS: OLD_KEY }).store(REF, { refreshToken: 'refresh-1' });
+        const before = { ...[...rows.values()][0] };
+
+        const rotating = vault(prisma, { CREDENTIAL_KEYS: `${OLD_KEY},${NEW_KEY}`, CREDENTIAL_ACTIVE_KEY: '2026-07' });
+        await expect(rotating.rotateKeys()).resolves.toEqual({ rotated: 1, failed: 0 });
+
+        const after = [...rows.values()][0];
+        expect(after.keyId).toBe('2026-07');
+        expect(after.dataKey).not.toBe(before.dataKey);
+        await expect(vault(prisma, { CREDENTIAL_KEYS: NEW_KEY }).get(REF)).resolves.toMatchObject({ refreshToken: 'refresh-1' });
+        await expect(rotating.rotateKeys()).resolves.toEqual({ rotated: 0, failed: 0 });
+    });
+
+    it('seals legacy account tokens on first read and clears the plaintext columns', async () => {
+        const { rows, accounts, prisma } = fakePrisma();
+        const legacy = new EncryptionService(new ConfigService({ ENCRYPTION_KEY }));
+        accounts.set(REF.accountId, {
+            id: REF.accountId,
+            tenantId: TENANT_ID,
+            legacyAccessToken: 'placeholder',
+            legacyRefreshToken: legacy.encrypt('refresh-1'),
+        });
+        const service = vault(prisma, { CREDENTIAL_KEYS: OLD_KEY, ENCRYPTION_KEY });
+
+        await expect(service.get(REF)).resolves.toEqual({ accessToken: null, refreshToken: 'refresh-1', secret: null });
+
+        const row = [...rows.values()][0];
+        expect(row.keyId).toBe('2026-01');
+        expect(row.refreshToken).not.toContain('refresh-1');
+        expect(accounts.get(REF.accountId)).toMatchObject({ legacyAccessToken: null, legacyRefreshToken: null });
+        await expect(service.get(REF)).resolves.toMatchObject({ refreshToken: 'refresh-1' });
+        expect(prisma.googleAdsAccount.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('seals plaintext left in token rows written before the vault', async () => {
+        const { rows, prisma } = fakePrisma();
+        rows.set(`${TENANT_ID}:${REF.platform}:${REF.accountId}`, {
+            id: 'row-1',
+            ...REF,
+            accessToken: 'access-1',
+            refreshToken: 'refresh-1',
+            secret: null,
+            keyId: null,
+            dataKey: null,
+        });
+        const service = vault(prisma, { CREDENTIAL_KEYS: OLD_KEY, ENCRYPTION_KEY });
+
+        await expect(service.rotateKeys()).resolves.toEqual({ rotated: 0, failed: 0 });
+        await expect(service.get(REF)).resolves.toEqual({ accessToken: 'access-1', refreshToken: 'refresh-1', secret: null });
+
+        const row = rows.get(`${TENANT_ID}:${REF.platform}:${REF.accountId}`);
+        expect(row.keyId).toBe('2026-01');
+        expect(row.accessToken).not.toContain('access-1');
+    });
+
+    it('returns null for accounts without stored or legacy tokens', async () => {
+        const { rows, prisma } = fakePrisma();
+        const service = vault(prisma, { CREDENTIAL_KEYS: OLD_KEY, ENCRYPTION_KEY });
+
+        await expect(service.get(REF)).resolves.toBeNull();
+        expect(rows.size).toBe(0);
+    });
+
+    it('refuses an active key missing from the keyring', () => {
+        const { prisma } = fakePrisma();
+        expect(() => vault(prisma, { CREDENTIAL_KEYS: OLD_KEY, CREDENTIAL_ACTIVE_KEY: '2026-07' })).toThrow(/not in the keyring/);
+    });
+});
@@ -0,0 +1,220 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdPlatform, PlatformToken } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionService } from '../../common/services/encryption.service';
+import {
+    CREDENTIAL_FIELDS,
+    CredentialCipher,
+    CredentialSecrets,
+    SealedCredentials,
+    credentialContext,
+} from './credential-cipher';
+import { legacySecrets, legacySources } from './legacy-credentials';
+import { TokenFailureReason } from './token-failure';
+
+/** accountId is the id of the platform account row (GoogleAdsAccount.id, ...) */
+export interface CredentialRef {
+    tenantId: string;
+    platform: AdPlatform;
+    accountId: string;
+}
+
+export interface StoreCredentialsOptions {
+    expiresAt?: Date | null;
+    createdBy?: string;
+}
+
+const ROTATION_BATCH_SIZE = 100;
+
+/** Rows written before the vault have no data key and hold plaintext tokens */
+function isSealed(row: PlatformToken): row is PlatformToken & SealedCredentials {
+    return !!row.keyId && !!row.dataKey;
+}
+
+/**
+ * Credential Vault - the only place platform tokens are read or written
+ *
+ * Tokens live encrypted in PlatformToken, one row per connected account.
+ * Tokens stored before the vault are sealed on their first read.
+ */
+@Injectable()
+export class CredentialVaultService {
+    private readonly logger = new Logger(CredentialVaultService.name);
+    private readonly cipher: CredentialCipher;
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly config: ConfigService,
+    ) {
+        this.cipher = CredentialCipher.fromConfig((name) => config.get<string>(name));
+    }
+
+    /**
+     * Decrypted tokens of an account, or null when nothing is stored
+     */
+    async get(ref: CredentialRef): Promise<CredentialSecrets | null> {
+        const row = await this.prisma.platformToken.findUnique({ where: this.uniqueKey(ref) });
+        if (row && isSealed(row)) {
+            return this.cipher.open(this.context(ref), row);
+        }
+
+        return this.sealLegacy(ref, row);
+    }
+
+    /**
+     * Store tokens for an account. Fields left undefined keep their stored
+     * value, null clears them. Every write re-seals the row with a new data key
+     * under the active master key.
+     */
+    async store(
+        ref: CredentialRef,
+        secrets: Partial<CredentialSecrets>,
+        options: StoreCredentialsOptions = {},
+    ): Promise<void> {
+        const current = await this.get(ref);
+        const merged = {} as CredentialSecrets;
+        for (const field of CREDENTIAL_FIELDS) {
+            merged[field] = secrets[field] !== undefined ? secrets[field] : current?.[field] ?? null;
+        }
+
+        const sealed = this.cipher.seal(this.context(ref), merged);
+        const lifecycle = {
+            ...(options.expiresAt !== undefined ? { expiresAt: options.expiresAt } : {}),
+            refreshedAt: new Date(),
+            isValid: true,
+            errorMessage: null,
+            refreshAttempts: 0,
+            failureReason: null,
+            reauthNotifiedAt: null,
+        };
+
+        await this.prisma.platformToken.upsert({
+            where: this.uniqueKey(ref),
+            create: { ...ref, ...sealed, ...lifecycle, createdBy: options.createdBy },
+            update: { ...sealed, ...lifecycle },
+        });
+    }
+
+    /**
+     * Record a failed refresh or API call. Transient failures only count the
+     * attempt; anything else marks the token invalid until the account is
+     * reconnected (the next store() resets it).
+     */
+    async recordFailure(ref: CredentialRef, reason: TokenFailureReason, message: string): Promise<void> {
+        await this.prisma.platformToken.updateMany({
+            where: { tenantId: ref.tenantId, platform: ref.platform, accountId: ref.accountId },
+            data: {
+                errorMessage: message,
+                refreshAttempts: { increment: 1 },
+                ...(reason === 'TRANSIENT' ? {} : { isValid: false, failureReason: reason }),
+            },
+        });
+    }
+
+    /**
+     * Delete stored tokens; without accountIds every account of the platform
+     */
+    async remove(tenantId: string, platform: AdPlatform, accountIds?: string[]): Promise<void> {
+        await this.prisma.platformToken.deleteMany({
+            where: { tenantId, platform, ...(accountIds ? { accountId: { in: accountIds } } : {}) },
+        });
+    }
+
+    /**
+     * Re-encrypt every row that is not sealed with the active master key.
+     * Rows are updated only if their keyId is unchanged, so a concurrent token
+     * refresh is never overwritten with stale values.
+     */
+    async rotateKeys(): Promise<{ rotated: number; failed: number }> {
+        const activeKeyId = this.cipher.activeKeyId;
+        let rotated = 0;
+        let failed = 0;
+        let cursor: string | undefined;
+
+        for (;;) {
+            const rows = await this.prisma.platformToken.findMany({
+                where: { keyId: { not: activeKeyId }, ...(cursor ? { id: { gt: cursor } } : {}) },
+                orderBy: { id: 'asc' },
+                take: ROTATION_BATCH_SIZE,
+            });
+            if (rows.length === 0) break;
+            cursor = rows[rows.length - 1].id;
+
+            for (const row of rows) {
+                // Unsealed rows are sealed with the active key on their first read
+                if (!isSealed(row)) continue;
+                try {
+                    const context = this.context(row);
+                    const sealed = this.cipher.seal(context, this.cipher.open(context, row));
+                    const { count } = await this.prisma.platformToken.updateMany({
+                        where: { id: row.id, keyId: row.keyId },
+                        data: sealed,
+                    });
+                    rotated += count;
+                } catch (error) {
+                    failed += 1;
+                    this.logger.error(`Failed to rotate credentials ${row.id}: ${error.message}`);
+                }
+            }
+        }
+
+        return { rotated, failed };
+    }
+
+    /**
+     * Move pre-vault tokens into the vault: plaintext left in an unsealed
+     * PlatformToken row, then the account table's legacy columns. The row is
+     * sealed and the legacy columns cleared, so this runs once per account.
+     */
+    private async sealLegacy(ref: CredentialRef, row: PlatformToken | null): Promise<CredentialSecrets | null> {
+        const source = legacySources(this.prisma).find((s) => s.platform === ref.platform);
+        const account = source
+            ? await source.delegate.findFirst({
+                where: { id: ref.accountId, tenantId: ref.tenantId },
+                select: { id: true, tenantId: true, ...Object.fromEntries(source.columns.map((column) => [column, true])) },
+            })
+            : null;
+        const legacyColumns = source?.columns.filter((column) => account?.[column] != null) ?? [];
+        if (!row && legacyColumns.length === 0) return null;
+
+        const encryption = new EncryptionService(this.config);
+        const decrypt = (value: string) => encryption.decrypt(value);
+        const recovered = {
+            ...(account && source ? legacySecrets(account, source.columns, decrypt) : {}),
+            ...(row ? legacySecrets(
+                { legacyAccessToken: row.accessToken, legacyRefreshToken: row.refreshToken, legacySecretKey: row.secret },
+                ['legacyAccessToken', 'legacyRefreshToken', 'legacySecretKey'],
+                decrypt,
+            ) : {}),
+        };
+        const secrets = {} as CredentialSecrets;
+        for (const field of CREDENTIAL_FIELDS) {
+            secrets[field] = recovered[field] ?? null;
+        }
+
+        const sealed = this.cipher.seal(this.context(ref), secrets);
+        await this.prisma.platformToken.upsert({
+            where: this.uniqueKey(ref),
+            create: { ...ref, ...sealed },
+            update: sealed,
+        });
+        if (source && legacyColumns.length > 0) {
+            await source.delegate.update({
+                where: { id: ref.accountId },
+                data: Object.fromEntries(source.columns.map((column) => [column, null])),
+            });
+        }
+
+        this.logger.log(`Sealed legacy credentials of ${ref.platform} account ${ref.accountId}`);
+        return secrets;
+    }
+
+    private context(ref: CredentialRef): string {
+        return credentialContext(ref.tenantId, ref.platform, ref.accountId);
+    }
+
+    private uniqueKey({ tenantId, platform, accountId }: CredentialRef) {
+        return { platform_tokens_tenant_platform_account_unique: { tenantId, platform, accountId } };
+    }
+}
@@ -0,0 +1,89 @@
+import { AdPlatform } from '@prisma/client';
+import type { PrismaService } from '../prisma/prisma.service';
+import type { CredentialSecrets } from './credential-cipher';
+
+/**
+ * Tokens stored before the credential vault
+ *
+ * They lived in the access_token / refresh_token / secret_key columns of each
+ * account table - some in plaintext, some encrypted with EncryptionService
+ * (AES-256-CBC, "ivHex:ciphertextHex"). CredentialVaultService seals them on
+ * first read; `npm run credentials:encrypt-legacy` moves them all at once.
+ */
+
+export type LegacyColumn = 'legacyAccessToken' | 'legacyRefreshToken' | 'legacySecretKey';
+
+export type LegacyRow = { id: string; tenantId: string } & Partial<Record<LegacyColumn, string | null>>;
+
+export interface LegacyDelegate {
+    findMany(args: object): Promise<LegacyRow[]>;
+    findFirst(args: object): Promise<LegacyRow | null>;
+    update(args: object): Promise<unknown>;
+}
+
+export interface LegacySource {
+    platform: AdPlatform;
+    delegate: LegacyDelegate;
+    columns: LegacyColumn[];
+}
+
+export const LEGACY_VAULT_FIELD: Record<LegacyColumn, keyof CredentialSecrets> = {
+    legacyAccessToken: 'accessToken',
+    legacyRefreshToken: 'refreshToken',
+    legacySecretKey: 'secret',
+};
+
+const LEGACY_ENCRYPTED = /^[0-9a-f]{32}:[0-9a-f]+$/i;
+
+// OAuth flows that only had a refresh token stored this instead of an access token
+const PLACEHOLDER_TOKEN = 'placeholder';
+
+/**
+ * Account tables with legacy token columns, per vault platform
+ */
+export function legacySources(prisma: PrismaService): LegacySource[] {
+    const source = (platform: AdPlatform, delegate: unknown, columns: LegacyColumn[]) =>
+        ({ platform, delegate: delegate as LegacyDelegate, columns });
+
+    return [
+        source(AdPlatform.GOOGLE_ADS, prisma.googleAdsAccount, ['legacyAccessToken', 'legacyRefreshToken']),
+        source(AdPlatform.GOOGLE_ANALYTICS, prisma.googleAnalyticsAccount, ['legacyAccessToken', 'legacyRefreshToken']),
+        source(AdPlatform.SEARCH_CONSOLE, prisma.searchConsoleAccount, ['legacyAccessToken', 'legacyRefreshToken']),
+        source(AdPlatform.FACEBOOK, prisma.facebookAdsAccount, ['legacyAccessToken']),
+        source(AdPlatform.TIKTOK, prisma.tikTokAdsAccount, ['legacyAccessToken', 'legacyRefreshToken']),
+        source(AdPlatform.LINE_ADS, prisma.lineAdsAccount, ['legacyAccessToken', 'legacySecretKey']),
+        source(AdPlatform.SHOPEE, prisma.shopeeAccount, ['legacyAccessToken', 'legacyRefreshToken']),
+        source(AdPlatform.LAZADA, prisma.lazadaAccount, ['legacyAccessToken', 'legacyRefreshToken']),
+    ];
+}
+
+/**
+ * Plaintext of a legacy column value, or null for empty and placeholder values.
+ * `decrypt` is EncryptionService.decrypt.
+ */
+export function revealLegacySecret(value: string | null | undefined, decrypt: (value: string) => string): string | null {
+    if (!value || value === PLACEHOLDER_TOKEN) return null;
+    if (!LEGACY_ENCRYPTED.test(value)) return value;
+    try {
+        return decrypt(value);
+    } catch {
+        // Hex-looking plaintext token
+        return value;
+    }
+}
+
+/**
+ * Vault fields recovered from a legacy row; columns without a value are left out
+ */
+export function legacySecrets(
+    row: Partial<Record<LegacyColumn, string | null>>,
+    columns: LegacyColumn[],
+    decrypt: (value: string) => string,
+): Partial<CredentialSecrets> {
+    const secrets: Partial<CredentialSecrets> = {};
+    for (const column of columns) {
+        const value = revealLegacySecret(row[column], decrypt);
+        if (value !== null) secrets[LEGACY_VAULT_FIELD[column]] = value;
+    }
+    return secrets;
+}
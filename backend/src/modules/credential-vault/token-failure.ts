@@ -0,0 +1,68 @@
+/**
+ * Why a platform token stopped working.
+ * TRANSIENT failures (network, rate limits, 5xx) are retried; the others need
+ * the tenant to reconnect the account.
+ */
+export type TokenFailureReason = 'REVOKED' | 'SCOPE_MISSING' | 'EXPIRED' | 'TRANSIENT';
+
+export const REAUTH_FAILURE_REASONS: TokenFailureReason[] = ['REVOKED', 'SCOPE_MISSING', 'EXPIRED'];
+
+/** Facebook Graph API error subcodes for OAuthException (code 190) */
+const FACEBOOK_REVOKED_SUBCODES = [458, 460];
+const FACEBOOK_EXPIRED_SUBCODE = 463;
+/** Facebook permission errors */
+const FACEBOOK_PERMISSION_CODES = [10, 200];
+
+const REVOKED_PATTERNS = [
+    /invalid_grant/i,
+    /revoked/i,
+    /invalid[ _]refresh[ _]token/i,
+    /refresh token (is )?(invalid|not found)/i,
+    /deauthorized/i,
+];
+const SCOPE_PATTERNS = [
+    /insufficient.*(scope|permission)/i,
+    /invalid_scope/i,
+    /missing.*(scope|permission)/i,
+    /permission denied/i,
+    /access_denied/i,
+];
+const EXPIRED_PATTERNS = [/expired/i];
+/** Google reports quota errors as 403 too */
+const TRANSIENT_PATTERNS = [/rate ?limit/i, /quota/i, /too many requests/i];
+
+/**
+ * Classify an OAuth refresh or API error. Looks at the message and the error
+ * body of axios / gaxios errors, since platform SDKs wrap the provider payload
+ * differently.
+ */
+export function classifyTokenFailure(error: unknown): TokenFailureReason {
+    const err = error as any;
+    const data = err?.response?.data;
+    const status: number | undefined = err?.response?.status ?? err?.status ?? err?.code;
+
+    const fbError = data?.error && typeof data.error === 'object' ? data.error : undefined;
+    if (fbError?.code === 190) {
+        if (FACEBOOK_REVOKED_SUBCODES.includes(fbError.error_subcode)) return 'REVOKED';
+        if (fbError.error_subcode === FACEBOOK_EXPIRED_SUBCODE) return 'EXPIRED';
+    }
+    if (FACEBOOK_PERMISSION_CODES.includes(fbError?.code)) return 'SCOPE_MISSING';
+
+    const text = [
+        err?.message,
+        typeof data === 'string' ? data : undefined,
+        typeof data?.error === 'string' ? data.error : undefined,
+        data?.error_description,
+        fbError?.message,
+        data?.message,
+    ]
+        .filter(Boolean)
+        .join(' ');
+
+    if (TRANSIENT_PATTERNS.some((pattern) => pattern.test(text))) return 'TRANSIENT';
+    if (REVOKED_PATTERNS.some((pattern) => pattern.test(text))) return 'REVOKED';
+    if (SCOPE_PATTERNS.some((pattern) => pattern.test(text)) || status === 403) return 'SCOPE_MISSING';
+    if (EXPIRED_PATTERNS.some((pattern) => pattern.test(text))) return 'EXPIRED';
+
+    return 'TRANSIENT';
+}
@@ -0,0 +1,31 @@
+import { Controller, Post, Body, Param, Query, Headers, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiQuery, ApiHeader, ApiResponse } from '@nestjs/swagger';
+import { LeadImportService } from './lead-import.service';
+
+/**
+ * Inbound lead webhook for form tools (Typeform, Jotform, Google Forms via Zapier, ...).
+ * Not behind JWT: callers authenticate with the tenant's webhook token instead.
+ */
+@ApiTags('CRM')
+@Controller('crm/webhooks')
+export class CrmWebhookController {
+    constructor(private readonly leadImportService: LeadImportService) { }
+
+    @Post(':tenantId/leads')
+    @ApiOperation({ summary: 'Receive a lead from a form tool' })
+    @ApiParam({ name: 'tenantId', description: 'Tenant ID (UUID)' })
+    @ApiHeader({ name: 'x-rga-webhook-token', required: false, description: 'Webhook token (or ?token=)' })
+    @ApiQuery({ name: 'token', required: false, description: 'For tools that cannot send custom headers' })
+    @ApiQuery({ name: 'source', required: false, description: 'Source label, e.g. typeform (default: webhook)' })
+    @ApiResponse({ status: 201, description: 'Lead created or updated' })
+    @ApiResponse({ status: 401, description: 'Invalid webhook token' })
+    async receiveLead(
+        @Param('tenantId', ParseUUIDPipe) tenantId: string,
+        @Headers('x-rga-webhook-token') headerToken: string | undefined,
+        @Query('token') queryToken: string | undefined,
+        @Query('source') source: string | undefined,
+        @Body() payload: Record<string, unknown>,
+    ) {
+        return this.leadImportService.receiveWebhook(tenantId, headerToken ?? queryToken, payload, source);
+    }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditLogsModule } from '../audit-logs/audit-logs.module';
+import { LeadsController } from './leads.controller';
+import { DealsController } from './deals.controller';
+import { CrmWebhookController } from './crm-webhook.controller';
+import { LeadsService } from './leads.service';
+import { DealsService } from './deals.service';
+import { LeadImportService } from './lead-import.service';
+
+@Module({
+    imports: [PrismaModule, AuditLogsModule],
+    controllers: [LeadsController, DealsController, CrmWebhookController],
+    providers: [LeadsService, DealsService, LeadImportService],
+    exports: [LeadsService],
+})
+export class CrmModule { }
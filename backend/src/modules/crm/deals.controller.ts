@@ -0,0 +1,95 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    UseGuards,
+    ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiParam, ApiResponse } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { DealsService } from './deals.service';
+import { CreateDealDto, UpdateDealDto, QueryDealsDto } from './dto';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
+
+@ApiTags('CRM')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
+@Controller('crm/deals')
+@RequirePermissions('crm:read')
+export class DealsController {
+    constructor(private readonly dealsService: DealsService) { }
+
+    @Post()
+    @RequirePermissions('crm:write')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER, UserRole.CLIENT)
+    @ApiOperation({ summary: 'Open a deal from a lead' })
+    @ApiResponse({ status: 201, description: 'Deal created successfully' })
+    @ApiResponse({ status: 404, description: 'Lead not found' })
+    async create(
+        @CurrentUser() user: any,
+        @Body() dto: CreateDealDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.dealsService.create(user.tenantId, dto, user.id, scope);
+    }
+
+    @Get()
+    @ApiOperation({ summary: 'List deals with filtering and pagination' })
+    async findAll(
+        @CurrentUser() user: any,
+        @Query() query: QueryDealsDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.dealsService.findAll(user.tenantId, query, scope);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get a deal by ID' })
+    @ApiParam({ name: 'id', description: 'Deal ID (UUID)' })
+    async findOne(
+        @CurrentUser() user: any,
+        @Param('id', ParseUUIDPipe) id: string,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.dealsService.findOne(user.tenantId, id, scope);
+    }
+
+    @Patch(':id')
+    @RequirePermissions('crm:write')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER, UserRole.CLIENT)
+    @ApiOperation({ summary: 'Update a deal (status WON/LOST closes it)' })
+    @ApiParam({ name: 'id', description: 'Deal ID (UUID)' })
+    async update(
+        @CurrentUser() user: any,
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: UpdateDealDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.dealsService.update(user.tenantId, id, dto, user.id, scope);
+    }
+
+    @Delete(':id')
+    @RequirePermissions('crm:write')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER)
+    @ApiOperation({ summary: 'Delete a deal' })
+    @ApiParam({ name: 'id', description: 'Deal ID (UUID)' })
+    async remove(
+        @CurrentUser() user: any,
+        @Param('id', ParseUUIDPipe) id: string,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.dealsService.remove(user.tenantId, id, user.id, scope);
+    }
+}
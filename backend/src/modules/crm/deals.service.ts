@@ -0,0 +1,171 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Deal, DealStatus, LeadStage, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { LeadsService } from './leads.service';
+import { CreateDealDto, UpdateDealDto, QueryDealsDto } from './dto';
+import { stageRank } from './lead-stages';
+import { CampaignScope, campaignRelationScope } from '../../common/utils/campaign-scope.util';
+
+@Injectable()
+export class DealsService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly leadsService: LeadsService,
+        private readonly auditLogsService: AuditLogsService,
+    ) { }
+
+    /**
+     * Open a deal from a lead
+     * - Inherits the lead's campaign attribution, owner and currency
+     * - Moves the lead to PROPOSAL if it has not got that far yet
+     */
+    async create(tenantId: string, dto: CreateDealDto, userId?: string, scope?: CampaignScope) {
+        const lead = await this.leadsService.findOne(tenantId, dto.leadId, scope);
+        const ownerId = dto.ownerId
+            ? await this.leadsService.resolveOwnerId(tenantId, dto.ownerId)
+            : lead.ownerId;
+
+        const deal = await this.prisma.deal.create({
+            data: {
+                tenantId,
+                leadId: lead.id,
+                campaignId: lead.campaignId,
+                ownerId,
+                name: dto.name ?? lead.company ?? lead.name ?? lead.email ?? 'Deal',
+                value: dto.value,
+                currency: dto.currency ?? lead.currency,
+                expectedCloseDate: dto.expectedCloseDate,
+            },
+        });
+
+        if (lead.stage !== LeadStage.LOST && stageRank(lead.stage) < stageRank(LeadStage.PROPOSAL)) {
+            await this.leadsService.changeStage(tenantId, lead.id, LeadStage.PROPOSAL, userId);
+        }
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            userId,
+            action: 'CREATE_DEAL',
+            resource: 'Deal',
+            entityId: deal.id,
+            details: { dealId: deal.id, leadId: lead.id, value: dto.value },
+        });
+
+        return this.normalizeDeal(deal);
+    }
+
+    /**
+     * Find all deals with filtering and pagination
+     */
+    async findAll(tenantId: string, query: QueryDealsDto, scope?: CampaignScope) {
+        const page = Number(query.page) || 1;
+        const limit = Number(query.limit) || 20;
+
+        const where: Prisma.DealWhereInput = { tenantId, ...campaignRelationScope(scope) };
+        if (query.status) where.status = query.status;
+        if (query.leadId) where.leadId = query.leadId;
+        if (query.campaignId) where.campaignId = query.campaignId;
+
+        const [items, total] = await this.prisma.$transaction([
+            this.prisma.deal.findMany({
+                where,
+                include: {
+                    lead: { select: { id: true, name: true, email: true, company: true, stage: true } },
+                    campaign: { select: { id: true, name: true, platform: true } },
+                },
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            this.prisma.deal.count({ where }),
+        ]);
+
+        return {
+            data: items.map((deal) => this.normalizeDeal(deal)),
+            meta: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit) || 1,
+            },
+        };
+    }
+
+    async findOne(tenantId: string, id: string, scope?: CampaignScope) {
+        const deal = await this.prisma.deal.findFirst({ where: { id, tenantId, ...campaignRelationScope(scope) } });
+
+        if (!deal) {
+            throw new NotFoundException('Deal not found');
+        }
+
+        return this.normalizeDeal(deal);
+    }
+
+    /**
+     * Update a deal. Closing it as WON moves the lead to WON; closing the last
+     * open deal as LOST moves the lead to LOST.
+     */
+    async update(tenantId: string, id: string, dto: UpdateDealDto, userId?: string, scope?: CampaignScope) {
+        const existing = await this.findOne(tenantId, id, scope);
+
+        const updateData: Prisma.DealUncheckedUpdateInput = {};
+        if (dto.name !== undefined) updateData.name = dto.name;
+        if (dto.value !== undefined) updateData.value = dto.value;
+        if (dto.currency !== undefined) updateData.currency = dto.currency;
+        if (dto.expectedCloseDate !== undefined) updateData.expectedCloseDate = dto.expectedCloseDate;
+        if (dto.ownerId !== undefined) {
+            updateData.ownerId = await this.leadsService.resolveOwnerId(tenantId, dto.ownerId);
+        }
+        const statusChanged = dto.status !== undefined && dto.status !== existing.status;
+        if (statusChanged) {
+            updateData.status = dto.status;
+            updateData.closedAt = dto.status === DealStatus.OPEN ? null : new Date();
+        }
+
+        const deal = await this.prisma.deal.update({ where: { id }, data: updateData });
+
+        if (statusChanged && dto.status === DealStatus.WON) {
+            await this.leadsService.changeStage(tenantId, deal.leadId, LeadStage.WON, userId);
+        } else if (statusChanged && dto.status === DealStatus.LOST) {
+            const remaining = await this.prisma.deal.count({
+                where: { leadId: deal.leadId, status: { in: [DealStatus.OPEN, DealStatus.WON] } },
+            });
+            if (remaining === 0) {
+                await this.leadsService.changeStage(tenantId, deal.leadId, LeadStage.LOST, userId);
+            }
+        }
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            userId,
+            action: 'UPDATE_DEAL',
+            resource: 'Deal',
+            entityId: id,
+            details: { dealId: id, changes: dto },
+        });
+
+        return this.normalizeDeal(deal);
+    }
+
+    async remove(tenantId: string, id: string, userId?: string, scope?: CampaignScope): Promise<{ message: string }> {
+        await this.findOne(tenantId, id, scope);
+
+        await this.prisma.deal.delete({ where: { id } });
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            userId,
+            action: 'DELETE_DEAL',
+            resource: 'Deal',
+            entityId: id,
+            details: { dealId: id },
+        });
+
+        return { message: 'Deal deleted successfully' };
+    }
+
+    private normalizeDeal<T extends Deal>(deal: T) {
+        return { ...deal, value: Number(deal.value) };
+    }
+}
@@ -0,0 +1,92 @@
+import { ApiProperty, ApiPropertyOptional, PartialType, OmitType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+    IsString,
+    IsNotEmpty,
+    IsEnum,
+    IsNumber,
+    IsOptional,
+    IsUUID,
+    IsDate,
+    IsInt,
+    Length,
+    Min,
+    MaxLength,
+} from 'class-validator';
+import { DealStatus } from '@prisma/client';
+
+export class CreateDealDto {
+    @ApiProperty({ description: 'Lead the deal was opened from (UUID)' })
+    @IsUUID()
+    @IsNotEmpty()
+    leadId: string;
+
+    @ApiPropertyOptional({ example: 'Annual retainer', description: 'Defaults to the lead name/company' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    name?: string;
+
+    @ApiProperty({ example: 120000 })
+    @IsNumber()
+    @Min(0)
+    value: number;
+
+    @ApiPropertyOptional({ example: 'THB', description: 'Defaults to the lead currency' })
+    @Transform(({ value }) => value?.toUpperCase())
+    @IsString()
+    @Length(3, 3)
+    @IsOptional()
+    currency?: string;
+
+    @ApiPropertyOptional({ description: 'Owner (user) ID (UUID), defaults to the lead owner' })
+    @IsUUID()
+    @IsOptional()
+    ownerId?: string;
+
+    @ApiPropertyOptional({ example: '2026-12-31' })
+    @Type(() => Date)
+    @IsDate()
+    @IsOptional()
+    expectedCloseDate?: Date;
+}
+
+export class UpdateDealDto extends PartialType(OmitType(CreateDealDto, ['leadId'] as const)) {
+    @ApiPropertyOptional({ enum: DealStatus, description: 'WON/LOST closes the deal and moves the lead' })
+    @Transform(({ value }) => value?.toUpperCase())
+    @IsEnum(DealStatus)
+    @IsOptional()
+    status?: DealStatus;
+}
+
+export class QueryDealsDto {
+    @ApiPropertyOptional({ enum: DealStatus })
+    @Transform(({ value }) => (value === '' ? undefined : value?.toUpperCase()))
+    @IsEnum(DealStatus)
+    @IsOptional()
+    status?: DealStatus;
+
+    @ApiPropertyOptional({ description: 'Filter by lead ID (UUID)' })
+    @IsUUID()
+    @IsOptional()
+    leadId?: string;
+
+    @ApiPropertyOptional({ description: 'Filter by campaign ID (UUID)' })
+    @IsUUID()
+    @IsOptional()
+    campaignId?: string;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    @Type(() => Number)
+    limit: number = 20;
+
+    @ApiPropertyOptional({ default: 1 })
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    @Type(() => Number)
+    page: number = 1;
+}
@@ -0,0 +1,114 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+    IsString,
+    IsEnum,
+    IsNumber,
+    IsOptional,
+    IsUUID,
+    IsEmail,
+    IsObject,
+    IsDate,
+    Length,
+    Min,
+    MaxLength,
+    Matches,
+} from 'class-validator';
+import { LeadStage } from '@prisma/client';
+
+export class CreateLeadDto {
+    @ApiPropertyOptional({ example: 'Somchai Jaidee', description: 'Contact name' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    name?: string;
+
+    @ApiPropertyOptional({ example: 'somchai@example.com' })
+    @Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+    @IsEmail()
+    @IsOptional()
+    email?: string;
+
+    @ApiPropertyOptional({ example: '+66812345678' })
+    @IsString()
+    @MaxLength(50)
+    @IsOptional()
+    phone?: string;
+
+    @ApiPropertyOptional({ example: 'Acme Co., Ltd.' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    company?: string;
+
+    @ApiPropertyOptional({ enum: LeadStage, default: 'NEW', description: 'Pipeline stage' })
+    @Transform(({ value }) => value?.toUpperCase())
+    @IsEnum(LeadStage)
+    @IsOptional()
+    stage?: LeadStage;
+
+    @ApiPropertyOptional({ example: 25000, description: 'Estimated lead value' })
+    @IsNumber()
+    @Min(0)
+    @IsOptional()
+    value?: number;
+
+    @ApiPropertyOptional({ example: 'THB', default: 'THB' })
+    @Transform(({ value }) => value?.toUpperCase())
+    @IsString()
+    @Length(3, 3)
+    @IsOptional()
+    currency?: string;
+
+    @ApiPropertyOptional({ description: 'Source campaign ID (UUID) for attribution' })
+    @IsUUID()
+    @IsOptional()
+    campaignId?: string;
+
+    @ApiPropertyOptional({ description: 'Owner (user) ID (UUID)' })
+    @IsUUID()
+    @IsOptional()
+    ownerId?: string;
+
+    @ApiPropertyOptional({ example: 'hubspot-4821', description: 'ID in the source system (dedupe key)' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    externalId?: string;
+
+    @ApiPropertyOptional({ example: 'hubspot', default: 'manual', description: 'Source system; external IDs dedupe within a source' })
+    @Transform(({ value }) => (typeof value === 'string' ? value.toLowerCase() : value))
+    @Matches(/^[a-z0-9_-]+$/i)
+    @MaxLength(50)
+    @IsOptional()
+    source?: string;
+
+    @ApiPropertyOptional({ example: 'facebook' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    utmSource?: string;
+
+    @ApiPropertyOptional({ example: 'cpc' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    utmMedium?: string;
+
+    @ApiPropertyOptional({ example: 'summer_sale', description: 'Matched against campaign name/external ID when campaignId is omitted' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    utmCampaign?: string;
+
+    @ApiPropertyOptional({ description: 'Original capture time (backfilling historic leads)' })
+    @Type(() => Date)
+    @IsDate()
+    @IsOptional()
+    createdAt?: Date;
+
+    @ApiPropertyOptional({ description: 'Additional form fields (JSON object)' })
+    @IsObject()
+    @IsOptional()
+    metadata?: Record<string, unknown>;
+}
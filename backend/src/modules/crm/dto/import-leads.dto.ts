@@ -0,0 +1,31 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsString, IsOptional, IsEnum, MaxLength, Matches } from 'class-validator';
+import { LeadStage } from '@prisma/client';
+
+export class ImportLeadsDto {
+    @ApiPropertyOptional({ description: 'CSV content (alternative to a multipart "file" upload)' })
+    @IsString()
+    @IsOptional()
+    csv?: string;
+
+    @ApiPropertyOptional({ example: 'csv', default: 'csv', description: 'Source label stored on imported leads' })
+    @Matches(/^[a-z0-9_-]+$/i)
+    @MaxLength(50)
+    @IsOptional()
+    source?: string;
+
+    @ApiPropertyOptional({ enum: LeadStage, default: 'NEW', description: 'Stage for rows without a stage column' })
+    @Transform(({ value }) => value?.toUpperCase())
+    @IsEnum(LeadStage)
+    @IsOptional()
+    defaultStage?: LeadStage;
+}
+
+export interface LeadImportResult {
+    total: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    errors: Array<{ row: number; message: string }>;
+}
@@ -0,0 +1,5 @@
+export * from './create-lead.dto';
+export * from './update-lead.dto';
+export * from './query-leads.dto';
+export * from './import-leads.dto';
+export * from './create-deal.dto';
@@ -0,0 +1,49 @@
+import { IsOptional, IsString, IsUUID, IsInt, IsEnum, Min, Max } from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { LeadStage } from '@prisma/client';
+
+export class QueryLeadsDto {
+    @ApiPropertyOptional({ description: 'Filter by source campaign ID (UUID)' })
+    @IsUUID()
+    @IsOptional()
+    campaignId?: string;
+
+    @ApiPropertyOptional({ description: 'Filter by owner ID (UUID)' })
+    @IsUUID()
+    @IsOptional()
+    ownerId?: string;
+
+    @ApiPropertyOptional({ enum: LeadStage })
+    @Transform(({ value }) => (value === '' ? undefined : value?.toUpperCase()))
+    @IsEnum(LeadStage)
+    @IsOptional()
+    stage?: LeadStage;
+
+    @ApiPropertyOptional({ example: 'webhook', description: 'Filter by source (manual, csv, webhook, ...)' })
+    @Transform(({ value }) => (value === '' ? undefined : value))
+    @IsString()
+    @IsOptional()
+    source?: string;
+
+    @ApiPropertyOptional({ description: 'Search by name, email or company' })
+    @Transform(({ value }) => (value === '' ? undefined : value))
+    @IsString()
+    @IsOptional()
+    search?: string;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsInt()
+    @Min(1)
+    @Max(200)
+    @IsOptional()
+    @Type(() => Number)
+    limit: number = 20;
+
+    @ApiPropertyOptional({ default: 1 })
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    @Type(() => Number)
+    page: number = 1;
+}
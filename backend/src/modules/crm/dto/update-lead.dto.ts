@@ -0,0 +1,27 @@
+import { ApiProperty, ApiPropertyOptional, PartialType, OmitType } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsEnum, IsUUID, ValidateIf } from 'class-validator';
+import { LeadStage } from '@prisma/client';
+import { CreateLeadDto } from './create-lead.dto';
+
+// Note: stage is omitted - stage moves go through PATCH /crm/leads/:id/stage so they are recorded
+export class UpdateLeadDto extends PartialType(
+    OmitType(CreateLeadDto, ['stage', 'externalId', 'source', 'createdAt', 'campaignId', 'ownerId'] as const),
+) {
+    @ApiPropertyOptional({ nullable: true, description: 'Source campaign ID (UUID), or null to clear the attribution' })
+    @ValidateIf((_, value) => value !== undefined && value !== null)
+    @IsUUID()
+    campaignId?: string | null;
+
+    @ApiPropertyOptional({ nullable: true, description: 'Owner (user) ID (UUID), or null to unassign' })
+    @ValidateIf((_, value) => value !== undefined && value !== null)
+    @IsUUID()
+    ownerId?: string | null;
+}
+
+export class UpdateLeadStageDto {
+    @ApiProperty({ enum: LeadStage, example: 'QUALIFIED' })
+    @Transform(({ value }) => value?.toUpperCase())
+    @IsEnum(LeadStage)
+    stage: LeadStage;
+}
@@ -0,0 +1,189 @@
+import {
+    Injectable,
+    Logger,
+    BadRequestException,
+    UnauthorizedException,
+} from '@nestjs/common';
+import { LeadStage, Prisma } from '@prisma/client';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { LeadsService } from './leads.service';
+import { LeadImportResult } from './dto';
+import { LeadInput, parseCsv, toLeadInput } from './lead-record.util';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
+
+const MAX_IMPORT_ROWS = 5000;
+const SOURCE_PATTERN = /^[a-z0-9_-]{1,50}$/i;
+
+interface CrmWebhookSettings {
+    tokenHash: string;
+    rotatedAt: string;
+}
+
+/**
+ * Bulk and inbound lead ingestion: CSV imports and form-tool webhooks.
+ * Both feed LeadsService.ingest() so dedupe, attribution and stage history behave the same.
+ */
+@Injectable()
+export class LeadImportService {
+    private readonly logger = new Logger(LeadImportService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly leadsService: LeadsService,
+        private readonly auditLogsService: AuditLogsService,
+    ) { }
+
+    // =========================================================================
+    // CSV Import
+    // =========================================================================
+
+    async importCsv(
+        tenantId: string,
+        csv: string,
+        options: { source?: string; defaultStage?: LeadStage } = {},
+        userId?: string,
+        scope?: CampaignScope,
+    ): Promise<LeadImportResult> {
+        const rows = parseCsv(csv);
+        if (rows.length === 0) {
+            throw new BadRequestException('CSV has no data rows');
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            throw new BadRequestException(`CSV has ${rows.length} rows; the limit is ${MAX_IMPORT_ROWS} per import`);
+        }
+
+        const source = options.source ?? 'csv';
+        const result: LeadImportResult = { total: rows.length, created: 0, updated: 0, skipped: 0, errors: [] };
+
+        for (const [index, row] of rows.entries()) {
+            // Row numbers are 1-based and account for the header line
+            const rowNumber = index + 2;
+            const input = toLeadInput(row);
+
+            if (!this.hasContact(input)) {
+                result.skipped++;
+                result.errors.push({ row: rowNumber, message: 'Row has no name, email or phone' });
+                continue;
+            }
+
+            try {
+                const { created } = await this.leadsService.ingest(
+                    tenantId,
+                    { ...input, stage: input.stage ?? options.defaultStage },
+                    source,
+                    userId,
+                    scope,
+                );
+                created ? result.created++ : result.updated++;
+            } catch (error) {
+                result.skipped++;
+                result.errors.push({ row: rowNumber, message: error.message });
+            }
+        }
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            userId,
+            action: 'IMPORT_LEADS',
+            resource: 'Lead',
+            details: { source, total: result.total, created: result.created, updated: result.updated, skipped: result.skipped },
+        });
+
+        return result;
+    }
+
+    // =========================================================================
+    // Inbound Webhook (form tools)
+    // =========================================================================
+
+    /**
+     * Issue a new webhook token for the tenant. Only the hash is stored, so the
+     * token is shown once and rotating it invalidates the previous one.
+     */
+    async rotateWebhookToken(tenantId: string, userId?: string) {
+        const token = randomBytes(24).toString('hex');
+        const tenant = await this.prisma.tenant.findUniqueOrThrow({
+            where: { id: tenantId },
+            select: { settings: true },
+        });
+
+        const settings = (tenant.settings as Record<string, unknown> | null) ?? {};
+        const crmWebhook: CrmWebhookSettings = {
+            tokenHash: this.hashToken(token),
+            rotatedAt: new Date().toISOString(),
+        };
+
+        await this.prisma.tenant.update({
+            where: { id: tenantId },
+            data: { settings: { ...settings, crmWebhook } as unknown as Prisma.InputJsonValue },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            userId,
+            action: 'ROTATE_CRM_WEBHOOK_TOKEN',
+            resource: 'Tenant',
+            entityId: tenantId,
+        });
+
+        return {
+            token,
+            path: `/crm/webhooks/${tenantId}/leads`,
+            rotatedAt: crmWebhook.rotatedAt,
+        };
+    }
+
+    async receiveWebhook(
+        tenantId: string,
+        token: string | undefined,
+        payload: Record<string, unknown>,
+        source?: string,
+    ) {
+        await this.verifyWebhookToken(tenantId, token);
+
+        // Typeform/Jotform style payloads nest answers under "fields"
+        const { fields, ...rest } = payload ?? {};
+        const record = fields && typeof fields === 'object' && !Array.isArray(fields)
+            ? { ...rest, ...(fields as Record<string, unknown>) }
+            : payload ?? {};
+
+        const input = toLeadInput(record);
+        if (!this.hasContact(input)) {
+            throw new BadRequestException('Payload has no name, email or phone');
+        }
+
+        const leadSource = source && SOURCE_PATTERN.test(source) ? source.toLowerCase() : 'webhook';
+        const { lead, created } = await this.leadsService.ingest(tenantId, input, leadSource);
+
+        this.logger.log(`Webhook lead ${created ? 'created' : 'updated'} for tenant ${tenantId} (${leadSource})`);
+
+        return { leadId: lead.id, created };
+    }
+
+    private async verifyWebhookToken(tenantId: string, token?: string): Promise<void> {
+        const tenant = token
+            ? await this.prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } })
+            : null;
+        const stored = (tenant?.settings as { crmWebhook?: CrmWebhookSettings } | null)?.crmWebhook?.tokenHash;
+
+        if (!token || !stored) {
+            throw new UnauthorizedException('Invalid webhook token');
+        }
+
+        const expected = Buffer.from(stored, 'hex');
+        const actual = Buffer.from(this.hashToken(token), 'hex');
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            throw new UnauthorizedException('Invalid webhook token');
+        }
+    }
+
+    private hashToken(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
+
+    private hasContact(input: LeadInput): boolean {
+        return Boolean(input.name || input.email || input.phone);
+    }
+}
@@ -0,0 +1,116 @@
+import { LeadStage } from '@prisma/client';
+import { parseLeadStage } from './lead-stages';
+import { normalizeFieldKey } from '../../common/utils/csv.util';
+
+export { normalizeFieldKey, parseCsv } from '../../common/utils/csv.util';
+
+/**
+ * Source-agnostic lead payload accepted by LeadsService.ingest()
+ */
+export interface LeadInput {
+    name?: string;
+    email?: string;
+    phone?: string;
+    company?: string;
+    stage?: LeadStage;
+    value?: number;
+    currency?: string;
+    campaignId?: string;
+    ownerId?: string;
+    ownerEmail?: string;
+    externalId?: string;
+    utmSource?: string;
+    utmMedium?: string;
+    utmCampaign?: string;
+    createdAt?: Date;
+    metadata?: Record<string, unknown>;
+}
+
+// Header/field aliases used by CSV exports and form tools (normalized keys)
+const FIELD_ALIASES: Record<keyof Omit<LeadInput, 'metadata' | 'stage' | 'value' | 'createdAt'>, string[]> = {
+    name: ['name', 'full_name', 'fullname', 'contact_name', 'lead_name'],
+    email: ['email', 'email_address', 'e_mail'],
+    phone: ['phone', 'phone_number', 'mobile', 'tel', 'telephone'],
+    company: ['company', 'company_name', 'organization', 'organisation'],
+    currency: ['currency'],
+    campaignId: ['campaign_id', 'rga_campaign_id'],
+    ownerId: ['owner_id'],
+    ownerEmail: ['owner_email', 'owner', 'assigned_to'],
+    externalId: ['external_id', 'id', 'lead_id', 'submission_id', 'entry_id', 'response_id'],
+    utmSource: ['utm_source'],
+    utmMedium: ['utm_medium'],
+    utmCampaign: ['utm_campaign', 'campaign', 'campaign_name'],
+};
+const STAGE_KEYS = ['stage', 'status', 'lead_stage', 'lead_status'];
+const VALUE_KEYS = ['value', 'amount', 'deal_value', 'lead_value'];
+const CREATED_AT_KEYS = ['created_at', 'created', 'submitted_at', 'date'];
+
+/**
+ * Map a flat CSV row / form submission onto a LeadInput.
+ * Unrecognised fields are preserved in metadata so nothing submitted is lost.
+ */
+export function toLeadInput(record: Record<string, unknown>): LeadInput {
+    const fields = new Map<string, unknown>();
+    for (const [key, value] of Object.entries(record)) {
+        if (value === undefined || value === null || value === '') continue;
+        fields.set(normalizeFieldKey(key), typeof value === 'string' ? value.trim() : value);
+    }
+
+    const used = new Set<string>();
+    const pick = (keys: string[]): unknown => {
+        const key = keys.find((k) => fields.has(k));
+        if (!key) return undefined;
+        used.add(key);
+        return fields.get(key);
+    };
+    const pickString = (keys: string[]): string | undefined => {
+        const value = pick(keys);
+        return value === undefined ? undefined : String(value);
+    };
+
+    const input: LeadInput = {};
+    for (const [field, keys] of Object.entries(FIELD_ALIASES)) {
+        const value = pickString(keys);
+        if (value !== undefined) input[field as keyof typeof FIELD_ALIASES] = value;
+    }
+
+    if (!input.name) {
+        const first = pickString(['first_name', 'firstname', 'given_name']);
+        const last = pickString(['last_name', 'lastname', 'surname', 'family_name']);
+        const name = [first, last].filter(Boolean).join(' ');
+        if (name) input.name = name;
+    }
+
+    const stage = pick(STAGE_KEYS);
+    if (stage !== undefined) input.stage = parseLeadStage(stage);
+
+    const value = parseAmount(pick(VALUE_KEYS));
+    if (value !== undefined) input.value = value;
+
+    const createdAt = pick(CREATED_AT_KEYS);
+    if (createdAt !== undefined) {
+        const parsed = new Date(String(createdAt));
+        if (!isNaN(parsed.getTime())) input.createdAt = parsed;
+    }
+
+    if (input.currency) input.currency = input.currency.toUpperCase().slice(0, 3);
+    if (input.email) input.email = input.email.toLowerCase();
+
+    const metadata: Record<string, unknown> = {};
+    for (const [key, value] of fields) {
+        if (!used.has(key)) metadata[key] = value;
+    }
+    if (Object.keys(metadata).length > 0) input.metadata = metadata;
+
+    return input;
+}
+
+/**
+ * Parse "1,299.00" / "฿1299" / 1299 into a number
+ */
+export function parseAmount(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value === 'number') return isFinite(value) ? value : undefined;
+    const parsed = Number(String(value).replace(/[^0-9.-]/g, ''));
+    return isFinite(parsed) ? parsed : undefined;
+}
@@ -0,0 +1,69 @@
+import { LeadStage } from '@prisma/client';
+
+/**
+ * Ordered CRM funnel. LOST is terminal and sits outside the funnel ordering.
+ */
+export const FUNNEL_STAGES: LeadStage[] = [
+    LeadStage.NEW,
+    LeadStage.CONTACTED,
+    LeadStage.QUALIFIED,
+    LeadStage.PROPOSAL,
+    LeadStage.WON,
+];
+
+/** Stages at which a lead counts as qualified (MQL/SQL and beyond) */
+export const QUALIFIED_STAGES: LeadStage[] = [LeadStage.QUALIFIED, LeadStage.PROPOSAL, LeadStage.WON];
+
+export function stageRank(stage: LeadStage): number {
+    return FUNNEL_STAGES.indexOf(stage);
+}
+
+export function isQualifiedStage(stage: LeadStage): boolean {
+    return QUALIFIED_STAGES.includes(stage);
+}
+
+/**
+ * Milestone timestamps to stamp on a lead when it moves into `toStage`.
+ * qualifiedAt/wonAt are set once (first time reached); lostAt follows the current stage.
+ */
+export function stageMilestones(
+    lead: { qualifiedAt: Date | null; wonAt: Date | null },
+    toStage: LeadStage,
+    at: Date,
+): { qualifiedAt?: Date; wonAt?: Date; lostAt: Date | null } {
+    const milestones: { qualifiedAt?: Date; wonAt?: Date; lostAt: Date | null } = {
+        lostAt: toStage === LeadStage.LOST ? at : null,
+    };
+
+    if (isQualifiedStage(toStage) && !lead.qualifiedAt) {
+        milestones.qualifiedAt = at;
+    }
+    if (toStage === LeadStage.WON && !lead.wonAt) {
+        milestones.wonAt = at;
+    }
+
+    return milestones;
+}
+
+/**
+ * Parse a free-form stage label from CSV/webhook input ("Qualified", "sql", "closed won").
+ */
+export function parseLeadStage(value: unknown): LeadStage | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+
+    const key = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+    if ((Object.values(LeadStage) as string[]).includes(key)) {
+        return key as LeadStage;
+    }
+
+    const aliases: Record<string, LeadStage> = {
+        OPEN: LeadStage.NEW,
+        MQL: LeadStage.QUALIFIED,
+        SQL: LeadStage.QUALIFIED,
+        IN_PROGRESS: LeadStage.CONTACTED,
+        NEGOTIATION: LeadStage.PROPOSAL,
+        CLOSED_WON: LeadStage.WON,
+        CLOSED_LOST: LeadStage.LOST,
+    };
+    return aliases[key];
+}
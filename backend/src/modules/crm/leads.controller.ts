@@ -0,0 +1,167 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    UseGuards,
+    UseInterceptors,
+    UploadedFile,
+    ParseUUIDPipe,
+    BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+    ApiTags,
+    ApiBearerAuth,
+    ApiOperation,
+    ApiParam,
+    ApiResponse,
+    ApiConsumes,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { LeadsService } from './leads.service';
+import { LeadImportService } from './lead-import.service';
+import {
+    CreateLeadDto,
+    UpdateLeadDto,
+    UpdateLeadStageDto,
+    QueryLeadsDto,
+    ImportLeadsDto,
+} from './dto';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
+
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+@ApiTags('CRM')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
+@Controller('crm/leads')
+@RequirePermissions('crm:read')
+export class LeadsController {
+    constructor(
+        private readonly leadsService: LeadsService,
+        private readonly leadImportService: LeadImportService,
+    ) { }
+
+    @Post()
+    @RequirePermissions('crm:write')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER, UserRole.CLIENT)
+    @ApiOperation({ summary: 'Create a lead (upserts when externalId matches an existing manual lead)' })
+    @ApiResponse({ status: 201, description: 'Lead created successfully' })
+    @ApiResponse({ status: 403, description: 'Campaign does not belong to tenant' })
+    async create(
+        @CurrentUser() user: any,
+        @Body() dto: CreateLeadDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.leadsService.create(user.tenantId, dto, user.id, scope);
+    }
+
+    @Get()
+    @ApiOperation({ summary: 'List leads with filtering and pagination' })
+    async findAll(
+        @CurrentUser() user: any,
+        @Query() query: QueryLeadsDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.leadsService.findAll(user.tenantId, query, scope);
+    }
+
+    @Post('import')
+    @RequirePermissions('crm:write')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER, UserRole.CLIENT)
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_CSV_BYTES } }))
+    @ApiConsumes('multipart/form-data', 'application/json')
+    @ApiOperation({ summary: 'Import leads from CSV (multipart "file" or JSON "csv")' })
+    @ApiResponse({ status: 201, description: 'Per-row import result' })
+    async import(
+        @CurrentUser() user: any,
+        @UploadedFile() file: { buffer: Buffer } | undefined,
+        @Body() dto: ImportLeadsDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        const csv = file ? file.buffer.toString('utf8') : dto.csv;
+        if (!csv) {
+            throw new BadRequestException('Upload a CSV file or provide the csv field');
+        }
+        return this.leadImportService.importCsv(
+            user.tenantId,
+            csv,
+            { source: dto.source, defaultStage: dto.defaultStage },
+            user.id,
+            scope,
+        );
+    }
+
+    @Post('webhook-token')
+    @RequirePermissions('crm:write')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER)
+    @ApiOperation({ summary: 'Rotate the inbound lead webhook token (shown once)' })
+    async rotateWebhookToken(@CurrentUser() user: any) {
+        return this.leadImportService.rotateWebhookToken(user.tenantId, user.id);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get a lead with its deals and stage history' })
+    @ApiParam({ name: 'id', description: 'Lead ID (UUID)' })
+    @ApiResponse({ status: 404, description: 'Lead not found' })
+    async findOne(
+        @CurrentUser() user: any,
+        @Param('id', ParseUUIDPipe) id: string,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.leadsService.findOne(user.tenantId, id, scope);
+    }
+
+    @Patch(':id')
+    @RequirePermissions('crm:write')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER, UserRole.CLIENT)
+    @ApiOperation({ summary: 'Update lead details' })
+    @ApiParam({ name: 'id', description: 'Lead ID (UUID)' })
+    async update(
+        @CurrentUser() user: any,
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: UpdateLeadDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.leadsService.update(user.tenantId, id, dto, user.id, scope);
+    }
+
+    @Patch(':id/stage')
+    @RequirePermissions('crm:write')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER, UserRole.CLIENT)
+    @ApiOperation({ summary: 'Move a lead to another pipeline stage' })
+    @ApiParam({ name: 'id', description: 'Lead ID (UUID)' })
+    async changeStage(
+        @CurrentUser() user: any,
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: UpdateLeadStageDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.leadsService.changeStage(user.tenantId, id, dto.stage, user.id, scope);
+    }
+
+    @Delete(':id')
+    @RequirePermissions('crm:write')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.MANAGER)
+    @ApiOperation({ summary: 'Delete a lead' })
+    @ApiParam({ name: 'id', description: 'Lead ID (UUID)' })
+    async remove(
+        @CurrentUser() user: any,
+        @Param('id', ParseUUIDPipe) id: string,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.leadsService.remove(user.tenantId, id, user.id, scope);
+    }
+}
@@ -0,0 +1,236 @@
+/**
+ * CRM Lead Pipeline Unit Tests
+ * @module leads.service.spec
+ * @description Lead ingestion and stage tracking:
+ *   - New leads record their initial stage transition and milestones
+ *   - External IDs dedupe re-ingested leads and stage moves are recorded
+ *   - REST leads keep the caller's source and audit logs carry the tenant
+ *   - Updates can clear the campaign attribution
+ *   - Users limited to some campaigns only read and write leads of those campaigns
+ *   - qualifiedAt is stamped once, on the first move into a qualified stage
+ *   - CSV rows and form payloads are mapped onto lead fields
+ *   - Webhooks are rejected without the tenant's token
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { LeadStage } from '@prisma/client';
+import { LeadsService } from './leads.service';
+import { LeadImportService } from './lead-import.service';
+import { parseCsv, toLeadInput } from './lead-record.util';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+
+const storedLead = (overrides: Record<string, unknown> = {}) => ({
+    id: 'lead-001',
+    tenantId: TENANT_ID,
+    campaignId: null,
+    ownerId: null,
+    stage: LeadStage.NEW,
+    value: null,
+    currency: 'THB',
+    qualifiedAt: null,
+    wonAt: null,
+    lostAt: null,
+    deals: [],
+    stageChanges: [],
+    ...overrides,
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('LeadsService', () => {
+    let service: LeadsService;
+    let importService: LeadImportService;
+    let prisma: any;
+    let auditLogs: { createLog: jest.Mock };
+
+    beforeEach(async () => {
+        prisma = {
+            lead: {
+                findUnique: jest.fn().mockResolvedValue(null),
+                findFirst: jest.fn().mockResolvedValue(storedLead()),
+                create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ ...storedLead(), ...data })),
+                update: jest.fn().mockResolvedValue(storedLead()),
+            },
+            leadStageChange: { create: jest.fn() },
+            campaign: { findFirst: jest.fn().mockResolvedValue(null) },
+            user: { findFirst: jest.fn().mockResolvedValue(null) },
+            tenant: { findUnique: jest.fn() },
+            $transaction: jest.fn().mockImplementation((ops) => Promise.all(ops)),
+        };
+
+        auditLogs = { createLog: jest.fn() };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                LeadsService,
+                LeadImportService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: AuditLogsService, useValue: auditLogs },
+            ],
+        }).compile();
+
+        service = module.get<LeadsService>(LeadsService);
+        importService = module.get<LeadImportService>(LeadImportService);
+    });
+
+    it('should create a lead with its initial stage transition and milestones', async () => {
+        const capturedAt = new Date('2026-03-01T09:00:00Z');
+
+        const { created } = await service.ingest(
+            TENANT_ID,
+            { name: 'Somchai', email: 'somchai@example.com', stage: LeadStage.QUALIFIED, createdAt: capturedAt },
+            'manual',
+            'user-001',
+        );
+
+        expect(created).toBe(true);
+        const data = prisma.lead.create.mock.calls[0][0].data;
+        expect(data).toMatchObject({ tenantId: TENANT_ID, source: 'manual', stage: LeadStage.QUALIFIED, qualifiedAt: capturedAt });
+        expect(data.wonAt).toBeUndefined();
+        expect(data.stageChanges.create).toEqual({
+            tenantId: TENANT_ID,
+            toStage: LeadStage.QUALIFIED,
+            changedById: 'user-001',
+            changedAt: capturedAt,
+        });
+    });
+
+    it('should attribute by utm_campaign and reject campaigns from other tenants', async () => {
+        prisma.campaign.findFirst.mockResolvedValueOnce({ id: 'campaign-001' });
+        await service.ingest(TENANT_ID, { email: 'a@example.com', utmCampaign: 'Summer Sale' }, 'webhook');
+        expect(prisma.lead.create.mock.calls[0][0].data.campaignId).toBe('campaign-001');
+
+        await expect(
+            service.ingest(TENANT_ID, { email: 'b@example.com', campaignId: 'campaign-999' }, 'manual'),
+        ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should update a re-ingested lead by external ID and record the stage move', async () => {
+        prisma.lead.findUnique.mockResolvedValue(storedLead({ stage: LeadStage.CONTACTED }));
+        prisma.lead.findFirst.mockResolvedValue(storedLead({ stage: LeadStage.CONTACTED }));
+
+        const { created } = await service.ingest(
+            TENANT_ID,
+            { externalId: 'hs-42', email: 'somchai@example.com', stage: LeadStage.PROPOSAL },
+            'csv',
+        );
+
+        expect(created).toBe(false);
+        expect(prisma.lead.create).not.toHaveBeenCalled();
+        expect(prisma.lead.findUnique).toHaveBeenCalledWith({
+            where: { leads_tenant_source_external_unique: { tenantId: TENANT_ID, source: 'csv', externalId: 'hs-42' } },
+        });
+        expect(prisma.leadStageChange.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ fromStage: LeadStage.CONTACTED, toStage: LeadStage.PROPOSAL }),
+        });
+    });
+
+    it('should keep the source of REST leads and audit them under the tenant', async () => {
+        await service.create(TENANT_ID, { externalId: 'hs-42', email: 'a@example.com', source: 'hubspot' }, 'user-001');
+
+        expect(prisma.lead.findUnique).toHaveBeenCalledWith({
+            where: { leads_tenant_source_external_unique: { tenantId: TENANT_ID, source: 'hubspot', externalId: 'hs-42' } },
+        });
+        expect(prisma.lead.create.mock.calls[0][0].data.source).toBe('hubspot');
+        expect(auditLogs.createLog).toHaveBeenCalledWith(
+            expect.objectContaining({ tenantId: TENANT_ID, action: 'CREATE_LEAD', entityId: 'lead-001' }),
+        );
+
+        await service.create(TENANT_ID, { email: 'b@example.com' });
+        expect(prisma.lead.create.mock.calls[1][0].data.source).toBe('manual');
+    });
+
+    it('should clear the campaign attribution when updated with null', async () => {
+        prisma.lead.findFirst.mockResolvedValue(storedLead({ campaignId: 'campaign-001' }));
+
+        await service.update(TENANT_ID, 'lead-001', { campaignId: null }, 'user-001');
+
+        expect(prisma.campaign.findFirst).not.toHaveBeenCalled();
+        expect(prisma.lead.update.mock.calls[0][0].data).toEqual({ campaignId: null });
+    });
+
+    it('should limit campaign-scoped users to leads of their campaigns', async () => {
+        const scope = { id: { in: ['campaign-001'] } };
+        prisma.lead.findMany = jest.fn().mockResolvedValue([]);
+        prisma.lead.count = jest.fn().mockResolvedValue(0);
+
+        await service.findAll(TENANT_ID, { page: 1, limit: 20 }, scope);
+        expect(prisma.lead.findMany.mock.calls[0][0].where).toEqual({ tenantId: TENANT_ID, campaign: scope });
+
+        prisma.lead.findFirst.mockResolvedValue(null);
+        await expect(service.update(TENANT_ID, 'lead-001', { name: 'A' }, 'user-001', scope))
+            .rejects.toThrow('Lead not found');
+        expect(prisma.lead.findFirst.mock.calls[0][0].where).toEqual({ id: 'lead-001', tenantId: TENANT_ID, campaign: scope });
+
+        await expect(service.create(TENANT_ID, { email: 'a@example.com', campaignId: 'campaign-002' }, 'user-001', scope))
+            .rejects.toThrow(ForbiddenException);
+        expect(prisma.campaign.findFirst.mock.calls[0][0].where).toEqual({
+            AND: [{ id: 'campaign-002', tenantId: TENANT_ID }, scope],
+        });
+        await expect(service.create(TENANT_ID, { email: 'a@example.com' }, 'user-001', scope))
+            .rejects.toThrow(ForbiddenException);
+        expect(prisma.lead.create).not.toHaveBeenCalled();
+    });
+
+    it('should stamp qualifiedAt only on the first move into a qualified stage', async () => {
+        const qualifiedAt = new Date('2026-02-01T00:00:00Z');
+        prisma.lead.findFirst.mockResolvedValue(storedLead({ stage: LeadStage.PROPOSAL, qualifiedAt }));
+
+        await service.changeStage(TENANT_ID, 'lead-001', LeadStage.WON, 'user-001');
+
+        const data = prisma.lead.update.mock.calls[0][0].data;
+        expect(data.stage).toBe(LeadStage.WON);
+        expect(data.qualifiedAt).toBeUndefined();
+        expect(data.wonAt).toBeInstanceOf(Date);
+        expect(data.lostAt).toBeNull();
+    });
+
+    it('should map CSV rows and form fields onto lead input', () => {
+        const rows = parseCsv(
+            'First Name,Last Name,Email,Lead Status,Deal Value,utm_campaign,Budget\r\n' +
+            'Somchai,Jaidee,SOMCHAI@Example.com,SQL,"1,299.00",summer_sale,"50,000 - 100,000"\r\n',
+        );
+
+        expect(rows).toHaveLength(1);
+        expect(toLeadInput(rows[0])).toEqual({
+            name: 'Somchai Jaidee',
+            email: 'somchai@example.com',
+            stage: LeadStage.QUALIFIED,
+            value: 1299,
+            utmCampaign: 'summer_sale',
+            metadata: { budget: '50,000 - 100,000' },
+        });
+    });
+
+    it('should reject webhooks without the tenant token', async () => {
+        prisma.tenant.findUnique.mockResolvedValue({
+            settings: { crmWebhook: { tokenHash: createHash('sha256').update('secret-token').digest('hex') } },
+        });
+
+        await expect(
+            importService.receiveWebhook(TENANT_ID, 'wrong-token', { email: 'a@example.com' }),
+        ).rejects.toThrow(UnauthorizedException);
+        await expect(importService.receiveWebhook(TENANT_ID, undefined, { email: 'a@example.com' }))
+            .rejects.toThrow(UnauthorizedException);
+
+        const result = await importService.receiveWebhook(
+            TENANT_ID,
+            'secret-token',
+            { fields: { email: 'a@example.com', phone: '0812345678' } },
+            'typeform',
+        );
+        expect(result.created).toBe(true);
+        expect(prisma.lead.create.mock.calls[0][0].data).toMatchObject({ source: 'typeform', phone: '0812345678' });
+    });
+});
@@ -0,0 +1,362 @@
+import {
+    Injectable,
+    NotFoundException,
+    ForbiddenException,
+    BadRequestException,
+} from '@nestjs/common';
+import { Lead, LeadStage, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { CreateLeadDto, UpdateLeadDto, QueryLeadsDto } from './dto';
+import { LeadInput } from './lead-record.util';
+import { stageMilestones } from './lead-stages';
+import { CampaignScope, campaignRelationScope, scopeCampaignWhere } from '../../common/utils/campaign-scope.util';
+
+const LEAD_INCLUDE = {
+    campaign: { select: { id: true, name: true, platform: true } },
+    owner: { select: { id: true, email: true, firstName: true, lastName: true } },
+} satisfies Prisma.LeadInclude;
+
+@Injectable()
+export class LeadsService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly auditLogsService: AuditLogsService,
+    ) { }
+
+    /**
+     * Create or update a lead from any source (REST, CSV row, webhook).
+     * - Dedupes on (tenant, source, externalId) when an external ID is given
+     * - Attributes to a campaign by ID, or by utm_campaign matching a campaign name/external ID
+     * - Records every stage change as a LeadStageChange
+     * - Users limited to some campaigns can only write leads of those campaigns
+     */
+    async ingest(
+        tenantId: string,
+        input: LeadInput,
+        source: string,
+        userId?: string,
+        scope?: CampaignScope,
+    ) {
+        const campaignId = await this.resolveCampaignId(tenantId, input.campaignId, input.utmCampaign, scope);
+        const ownerId = await this.resolveOwnerId(tenantId, input.ownerId, input.ownerEmail);
+
+        const existing = input.externalId
+            ? await this.prisma.lead.findUnique({
+                where: {
+                    leads_tenant_source_external_unique: { tenantId, source, externalId: input.externalId },
+                },
+            })
+            : null;
+        if (scope) {
+            if (existing) await this.findOne(tenantId, existing.id, scope);
+            if (!campaignId && !existing?.campaignId) {
+                throw new ForbiddenException('Leads must be attributed to one of your campaigns');
+            }
+        }
+
+        const fields: Prisma.LeadUncheckedUpdateInput = {};
+        if (input.name !== undefined) fields.name = input.name;
+        if (input.email !== undefined) fields.email = input.email;
+        if (input.phone !== undefined) fields.phone = input.phone;
+        if (input.company !== undefined) fields.company = input.company;
+        if (input.value !== undefined) fields.value = input.value;
+        if (input.currency !== undefined) fields.currency = input.currency;
+        if (input.utmSource !== undefined) fields.utmSource = input.utmSource;
+        if (input.utmMedium !== undefined) fields.utmMedium = input.utmMedium;
+        if (input.utmCampaign !== undefined) fields.utmCampaign = input.utmCampaign;
+        if (input.metadata !== undefined) fields.metadata = input.metadata as Prisma.InputJsonValue;
+        if (campaignId) fields.campaignId = campaignId;
+        if (ownerId) fields.ownerId = ownerId;
+
+        if (existing) {
+            await this.prisma.lead.update({ where: { id: existing.id }, data: fields });
+            if (input.stage && input.stage !== existing.stage) {
+                await this.changeStage(tenantId, existing.id, input.stage, userId);
+            }
+            return { lead: await this.findOne(tenantId, existing.id), created: false };
+        }
+
+        const stage = input.stage ?? LeadStage.NEW;
+        const capturedAt = input.createdAt ?? new Date();
+        const lead = await this.prisma.lead.create({
+            data: {
+                ...(fields as Prisma.LeadUncheckedCreateInput),
+                tenantId,
+                source,
+                externalId: input.externalId,
+                stage,
+                ...stageMilestones({ qualifiedAt: null, wonAt: null }, stage, capturedAt),
+                createdAt: capturedAt,
+                stageChanges: {
+                    create: { tenantId, toStage: stage, changedById: userId, changedAt: capturedAt },
+                },
+            },
+            include: LEAD_INCLUDE,
+        });
+
+        return { lead: this.normalizeLead(lead), created: true };
+    }
+
+    /**
+     * Create a lead through the REST API (source defaults to "manual")
+     */
+    async create(tenantId: string, dto: CreateLeadDto, userId?: string, scope?: CampaignScope) {
+        const { source = 'manual', ...input } = dto;
+        const { lead, created } = await this.ingest(tenantId, input, source, userId, scope);
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            userId,
+            action: created ? 'CREATE_LEAD' : 'UPDATE_LEAD',
+            resource: 'Lead',
+            entityId: lead.id,
+            details: { leadId: lead.id, source: lead.source, stage: lead.stage, campaignId: lead.campaignId },
+        });
+
+        return lead;
+    }
+
+    /**
+     * Find all leads with filtering and pagination
+     */
+    async findAll(tenantId: string, query: QueryLeadsDto, scope?: CampaignScope) {
+        const page = Number(query.page) || 1;
+        const limit = Number(query.limit) || 20;
+
+        const where: Prisma.LeadWhereInput = { tenantId, ...campaignRelationScope(scope) };
+        if (query.campaignId) where.campaignId = query.campaignId;
+        if (query.ownerId) where.ownerId = query.ownerId;
+        if (query.stage) where.stage = query.stage;
+        if (query.source) where.source = query.source;
+        if (query.search) {
+            where.OR = [
+                { name: { contains: query.search, mode: 'insensitive' } },
+                { email: { contains: query.search, mode: 'insensitive' } },
+                { company: { contains: query.search, mode: 'insensitive' } },
+            ];
+        }
+
+        const [items, total] = await this.prisma.$transaction([
+            this.prisma.lead.findMany({
+                where,
+                include: LEAD_INCLUDE,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            this.prisma.lead.count({ where }),
+        ]);
+
+        return {
+            data: items.map((lead) => this.normalizeLead(lead)),
+            meta: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit) || 1,
+            },
+        };
+    }
+
+    /**
+     * Find one lead by ID (with deals and stage history)
+     */
+    async findOne(tenantId: string, id: string, scope?: CampaignScope) {
+        const lead = await this.prisma.lead.findFirst({
+            where: { id, tenantId, ...campaignRelationScope(scope) },
+            include: {
+                ...LEAD_INCLUDE,
+                deals: { orderBy: { createdAt: 'desc' } },
+                stageChanges: { orderBy: { changedAt: 'asc' } },
+            },
+        });
+
+        if (!lead) {
+            throw new NotFoundException('Lead not found');
+        }
+
+        return {
+            ...this.normalizeLead(lead),
+            deals: lead.deals.map((deal) => ({ ...deal, value: Number(deal.value) })),
+            stageChanges: lead.stageChanges,
+        };
+    }
+
+    /**
+     * Update lead details (not the stage)
+     */
+    async update(tenantId: string, id: string, dto: UpdateLeadDto, userId?: string, scope?: CampaignScope) {
+        await this.findOne(tenantId, id, scope);
+
+        const updateData: Prisma.LeadUncheckedUpdateInput = {};
+        if (dto.name !== undefined) updateData.name = dto.name;
+        if (dto.email !== undefined) updateData.email = dto.email;
+        if (dto.phone !== undefined) updateData.phone = dto.phone;
+        if (dto.company !== undefined) updateData.company = dto.company;
+        if (dto.value !== undefined) updateData.value = dto.value;
+        if (dto.currency !== undefined) updateData.currency = dto.currency;
+        if (dto.utmSource !== undefined) updateData.utmSource = dto.utmSource;
+        if (dto.utmMedium !== undefined) updateData.utmMedium = dto.utmMedium;
+        if (dto.utmCampaign !== undefined) updateData.utmCampaign = dto.utmCampaign;
+        if (dto.metadata !== undefined) updateData.metadata = dto.metadata as Prisma.InputJsonValue;
+        // null clears the attribution/owner; an ID must belong to the tenant
+        if (dto.campaignId !== undefined) {
+            if (dto.campaignId === null && scope) {
+                throw new ForbiddenException('Leads must stay attributed to one of your campaigns');
+            }
+            updateData.campaignId = dto.campaignId === null
+                ? null
+                : await this.resolveCampaignId(tenantId, dto.campaignId, undefined, scope);
+        }
+        if (dto.ownerId !== undefined) {
+            updateData.ownerId = dto.ownerId === null
+                ? null
+                : await this.resolveOwnerId(tenantId, dto.ownerId);
+        }
+
+        const lead = await this.prisma.lead.update({
+            where: { id },
+            data: updateData,
+            include: LEAD_INCLUDE,
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            userId,
+            action: 'UPDATE_LEAD',
+            resource: 'Lead',
+            entityId: id,
+            details: { leadId: id, changes: dto },
+        });
+
+        return this.normalizeLead(lead);
+    }
+
+    /**
+     * Move a lead to another stage and record the transition
+     */
+    async changeStage(tenantId: string, id: string, toStage: LeadStage, userId?: string, scope?: CampaignScope) {
+        const lead = await this.prisma.lead.findFirst({ where: { id, tenantId, ...campaignRelationScope(scope) } });
+
+        if (!lead) {
+            throw new NotFoundException('Lead not found');
+        }
+
+        if (lead.stage !== toStage) {
+            const now = new Date();
+            await this.prisma.$transaction([
+                this.prisma.lead.update({
+                    where: { id },
+                    data: { stage: toStage, ...stageMilestones(lead, toStage, now) },
+                }),
+                this.prisma.leadStageChange.create({
+                    data: {
+                        tenantId,
+                        leadId: id,
+                        fromStage: lead.stage,
+                        toStage,
+                        changedById: userId,
+                        changedAt: now,
+                    },
+                }),
+            ]);
+
+            await this.auditLogsService.createLog({
+                tenantId,
+                userId,
+                action: 'UPDATE_LEAD_STAGE',
+                resource: 'Lead',
+                entityId: id,
+                details: { leadId: id, fromStage: lead.stage, toStage },
+            });
+        }
+
+        return this.findOne(tenantId, id, scope);
+    }
+
+    /**
+     * Delete a lead (deals and stage history cascade)
+     */
+    async remove(tenantId: string, id: string, userId?: string, scope?: CampaignScope): Promise<{ message: string }> {
+        await this.findOne(tenantId, id, scope);
+
+        await this.prisma.lead.delete({ where: { id } });
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            userId,
+            action: 'DELETE_LEAD',
+            resource: 'Lead',
+            entityId: id,
+            details: { leadId: id },
+        });
+
+        return { message: 'Lead deleted successfully' };
+    }
+
+    // =========================================================================
+    // Helpers
+    // =========================================================================
+
+    /**
+     * Explicit campaign IDs must belong to the tenant (and the user's scope);
+     * utm_campaign is a best-effort match.
+     */
+    async resolveCampaignId(
+        tenantId: string,
+        campaignId?: string,
+        utmCampaign?: string,
+        scope?: CampaignScope,
+    ): Promise<string | undefined> {
+        if (campaignId) {
+            const campaign = await this.prisma.campaign.findFirst({
+                where: scopeCampaignWhere({ id: campaignId, tenantId }, scope),
+                select: { id: true },
+            });
+            if (!campaign) {
+                throw new ForbiddenException('Campaign not found or does not belong to your organization');
+            }
+            return campaign.id;
+        }
+
+        if (utmCampaign) {
+            const campaign = await this.prisma.campaign.findFirst({
+                where: scopeCampaignWhere({
+                    tenantId,
+                    OR: [
+                        { externalId: utmCampaign },
+                        { name: { equals: utmCampaign, mode: 'insensitive' } },
+                    ],
+                }, scope),
+                select: { id: true },
+                orderBy: { createdAt: 'desc' },
+            });
+            return campaign?.id;
+        }
+
+        return undefined;
+    }
+
+    async resolveOwnerId(tenantId: string, ownerId?: string, ownerEmail?: string): Promise<string | undefined> {
+        if (!ownerId && !ownerEmail) return undefined;
+
+        const owner = await this.prisma.user.findFirst({
+            where: ownerId
+                ? { id: ownerId, tenantId }
+                : { email: { equals: ownerEmail, mode: 'insensitive' }, tenantId },
+            select: { id: true },
+        });
+        if (!owner) {
+            throw new BadRequestException(`Owner ${ownerId ?? ownerEmail} is not a user in your organization`);
+        }
+        return owner.id;
+    }
+
+    private normalizeLead<T extends Lead>(lead: T) {
+        return {
+            ...lead,
+            value: lead.value !== null ? Number(lead.value) : null,
+        };
+    }
+}
@@ -0,0 +1,99 @@
+import { ExchangeRateQuote } from './exchange-rate.provider';
+
+interface RatePoint {
+    date: string;
+    rate: number;
+}
+
+function dateKey(date: Date | string): string {
+    return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Converts amounts into one reporting currency using daily FX rates.
+ *
+ * A day without a rate uses the closest earlier day (or the earliest known day).
+ * Pairs are used as stored, inverted, or crossed through a shared currency
+ * (e.g. EUR → THB through USD/EUR and USD/THB). Amounts with no usable rate
+ * are returned unconverted and listed in `missingRates`.
+ */
+export class CurrencyConverter {
+    private readonly series = new Map<string, RatePoint[]>();
+    private readonly currencies = new Set<string>();
+    private readonly missing = new Set<string>();
+
+    constructor(readonly currency: string, rates: ExchangeRateQuote[]) {
+        for (const r of rates) {
+            const key = `${r.baseCurrency}/${r.quoteCurrency}`;
+            const points = this.series.get(key) ?? [];
+            points.push({ date: dateKey(r.date), rate: Number(r.rate) });
+            this.series.set(key, points);
+            this.currencies.add(r.baseCurrency);
+            this.currencies.add(r.quoteCurrency);
+        }
+        for (const points of this.series.values()) {
+            points.sort((a, b) => a.date.localeCompare(b.date));
+        }
+    }
+
+    /** Pairs (`FROM->TO`) that had no rate and were left unconverted */
+    get missingRates(): string[] {
+        return [...this.missing].sort();
+    }
+
+    convert(amount: number, from: string | null | undefined, date: Date | string): number {
+        if (!amount) return 0;
+        const rate = this.rate(from || this.currency, date);
+        return rate === null ? amount : amount * rate;
+    }
+
+    /**
+     * Units of the reporting currency per unit of `from` on `date`
+     */
+    rate(from: string, date: Date | string): number | null {
+        const source = from.toUpperCase();
+        if (source === this.currency) return 1;
+
+        const day = dateKey(date);
+        const direct = this.pairRate(source, this.currency, day);
+        if (direct !== null) return direct;
+
+        for (const pivot of this.currencies) {
+            if (pivot === source || pivot === this.currency) continue;
+            const toPivot = this.pairRate(source, pivot, day);
+            const fromPivot = toPivot !== null ? this.pairRate(pivot, this.currency, day) : null;
+            if (toPivot !== null && fromPivot !== null) return toPivot * fromPivot;
+        }
+
+        this.missing.add(`${source}->${this.currency}`);
+        return null;
+    }
+
+    private pairRate(from: string, to: string, day: string): number | null {
+        const stored = this.lookup(`${from}/${to}`, day);
+        if (stored !== null) return stored;
+        const inverse = this.lookup(`${to}/${from}`, day);
+        return inverse ? 1 / inverse : null;
+    }
+
+    /** Rate on `day`, else the closest earlier day, else the earliest known day */
+    private lookup(key: string, day: string): number | null {
+        const points = this.series.get(key);
+        if (!points?.length) return null;
+
+        let lo = 0;
+        let hi = points.length - 1;
+        let found = -1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (points[mid].date <= day) {
+                found = mid;
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+
+        return points[found >= 0 ? found : 0].rate;
+    }
+}
@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { HttpModule, HttpService } from '@nestjs/axios';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ExchangeRatesController } from './exchange-rates.controller';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ReportingCurrencyService } from './reporting-currency.service';
+import {
+    ExchangeRateProvider,
+    FileExchangeRateProvider,
+    HttpExchangeRateProvider,
+    UnconfiguredExchangeRateProvider,
+} from './exchange-rate.provider';
+
+@Module({
+    imports: [PrismaModule, ConfigModule, HttpModule],
+    controllers: [ExchangeRatesController],
+    providers: [
+        ExchangeRatesService,
+        ReportingCurrencyService,
+        {
+            // FX_RATE_PROVIDER=file reads FX_RATES_FILE, =http calls FX_RATES_URL; rates are API-only otherwise
+            provide: ExchangeRateProvider,
+            useFactory: (config: ConfigService, http: HttpService) => {
+                const provider = config.get<string>('FX_RATE_PROVIDER', 'none');
+                const file = config.get<string>('FX_RATES_FILE');
+                const url = config.get<string>('FX_RATES_URL');
+                if (provider === 'file' && file) {
+                    return new FileExchangeRateProvider(file);
+                }
+                if (provider === 'http' && url) {
+                    return new HttpExchangeRateProvider(http, url);
+                }
+                return new UnconfiguredExchangeRateProvider();
+            },
+            inject: [ConfigService, HttpService],
+        },
+    ],
+    exports: [ExchangeRatesService, ReportingCurrencyService],
+})
+export class CurrencyModule { }
@@ -0,0 +1,2 @@
+export * from './query-exchange-rates.dto';
+export * from './upsert-exchange-rates.dto';
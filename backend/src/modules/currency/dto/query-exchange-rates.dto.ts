@@ -0,0 +1,35 @@
+import { IsOptional, IsString, IsInt, IsDateString, Length, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class QueryExchangeRatesDto {
+    @ApiPropertyOptional({ example: 'USD' })
+    @IsString()
+    @Length(3, 3)
+    @IsOptional()
+    base?: string;
+
+    @ApiPropertyOptional({ example: 'THB' })
+    @IsString()
+    @Length(3, 3)
+    @IsOptional()
+    quote?: string;
+
+    @ApiPropertyOptional({ example: '2026-01-01' })
+    @IsDateString()
+    @IsOptional()
+    startDate?: string;
+
+    @ApiPropertyOptional({ example: '2026-01-31' })
+    @IsDateString()
+    @IsOptional()
+    endDate?: string;
+
+    @ApiPropertyOptional({ default: 500 })
+    @IsInt()
+    @Min(1)
+    @Max(5000)
+    @IsOptional()
+    @Type(() => Number)
+    limit?: number;
+}
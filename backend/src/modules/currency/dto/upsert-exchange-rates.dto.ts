@@ -0,0 +1,50 @@
+import { IsArray, IsDateString, IsNumber, IsOptional, IsString, Length, ArrayMaxSize, ValidateNested, IsPositive } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ExchangeRateEntryDto {
+    @ApiProperty({ example: '2026-01-15' })
+    @IsDateString()
+    date: string;
+
+    @ApiProperty({ example: 'USD', description: '1 unit of this currency...' })
+    @IsString()
+    @Length(3, 3)
+    baseCurrency: string;
+
+    @ApiProperty({ example: 'THB', description: '...equals `rate` units of this currency' })
+    @IsString()
+    @Length(3, 3)
+    quoteCurrency: string;
+
+    @ApiProperty({ example: 35.42 })
+    @IsNumber()
+    @IsPositive()
+    rate: number;
+}
+
+export class UpsertExchangeRatesDto {
+    @ApiProperty({ type: [ExchangeRateEntryDto] })
+    @IsArray()
+    @ArrayMaxSize(5000)
+    @ValidateNested({ each: true })
+    @Type(() => ExchangeRateEntryDto)
+    rates: ExchangeRateEntryDto[];
+
+    @ApiPropertyOptional({ example: 'manual', description: 'Where the rates came from' })
+    @IsString()
+    @IsOptional()
+    source?: string;
+}
+
+export class RefreshExchangeRatesDto {
+    @ApiPropertyOptional({ example: '2026-01-01', description: 'Defaults to FX_RATE_LOOKBACK_DAYS ago' })
+    @IsDateString()
+    @IsOptional()
+    startDate?: string;
+
+    @ApiPropertyOptional({ example: '2026-01-31', description: 'Defaults to today' })
+    @IsDateString()
+    @IsOptional()
+    endDate?: string;
+}
@@ -0,0 +1,124 @@
+import { Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { readFile } from 'fs/promises';
+
+/** 1 `baseCurrency` = `rate` `quoteCurrency` on `date` (YYYY-MM-DD) */
+export interface ExchangeRateQuote {
+    date: string;
+    baseCurrency: string;
+    quoteCurrency: string;
+    rate: number;
+}
+
+/**
+ * Pluggable source of daily FX rates. Selected in CurrencyModule from FX_RATE_PROVIDER.
+ */
+export abstract class ExchangeRateProvider {
+    abstract readonly name: string;
+
+    /**
+     * Daily rates from `base` into each of `quotes`, for every day in the range the source has
+     */
+    abstract fetchRates(
+        base: string,
+        quotes: string[],
+        startDate: string,
+        endDate: string,
+    ): Promise<ExchangeRateQuote[]>;
+}
+
+/**
+ * Used when no provider is configured; rates can still be loaded through the API
+ */
+export class UnconfiguredExchangeRateProvider extends ExchangeRateProvider {
+    readonly name = 'none';
+
+    async fetchRates(): Promise<ExchangeRateQuote[]> {
+        return [];
+    }
+}
+
+/**
+ * Reads rates from a CSV file with a `date,base,quote,rate` header (FX_RATES_FILE)
+ */
+export class FileExchangeRateProvider extends ExchangeRateProvider {
+    readonly name = 'file';
+    private readonly logger = new Logger(FileExchangeRateProvider.name);
+
+    constructor(private readonly filePath: string) {
+        super();
+    }
+
+    async fetchRates(base: string, quotes: string[], startDate: string, endDate: string): Promise<ExchangeRateQuote[]> {
+        const content = await readFile(this.filePath, 'utf8');
+        const rows = parseExchangeRatesCsv(content);
+        this.logger.debug(`Read ${rows.length} FX rates from ${this.filePath}`);
+
+        // Files may hold any pair; the converter can invert and cross them, so only the range is filtered
+        return rows.filter((r) => r.date >= startDate && r.date <= endDate);
+    }
+}
+
+/**
+ * Frankfurter-compatible HTTP API (FX_RATES_URL), e.g. https://api.frankfurter.app
+ * `GET /{start}..{end}?from=USD&to=THB,EUR` → `{ base, rates: { 'YYYY-MM-DD': { THB: 35.1 } } }`
+ */
+export class HttpExchangeRateProvider extends ExchangeRateProvider {
+    readonly name = 'http';
+
+    constructor(
+        private readonly httpService: HttpService,
+        private readonly baseUrl: string,
+    ) {
+        super();
+    }
+
+    async fetchRates(base: string, quotes: string[], startDate: string, endDate: string): Promise<ExchangeRateQuote[]> {
+        const targets = quotes.filter((q) => q !== base);
+        if (targets.length === 0) return [];
+
+        const { data } = await firstValueFrom(
+            this.httpService.get<{ base: string; rates: Record<string, Record<string, number>> }>(
+                `${this.baseUrl.replace(/\/$/, '')}/${startDate}..${endDate}`,
+                { params: { from: base, to: targets.join(',') }, timeout: 10000 },
+            ),
+        );
+
+        return Object.entries(data?.rates ?? {}).flatMap(([date, rates]) =>
+            Object.entries(rates).map(([quoteCurrency, rate]) => ({
+                date,
+                baseCurrency: data.base ?? base,
+                quoteCurrency,
+                rate: Number(rate),
+            })),
+        );
+    }
+}
+
+/**
+ * Parse `date,base,quote,rate` CSV; blank lines and rows with a non-positive rate are skipped
+ */
+export function parseExchangeRatesCsv(content: string): ExchangeRateQuote[] {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (lines.length === 0) return [];
+
+    const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+    const col = (name: string) => header.indexOf(name);
+    const [dateCol, baseCol, quoteCol, rateCol] = ['date', 'base', 'quote', 'rate'].map(col);
+    if ([dateCol, baseCol, quoteCol, rateCol].some((i) => i < 0)) {
+        throw new Error('FX rates file needs a date,base,quote,rate header');
+    }
+
+    return lines.slice(1).flatMap((line) => {
+        const cells = line.split(',').map((c) => c.trim());
+        const rate = Number(cells[rateCol]);
+        if (!Number.isFinite(rate) || rate <= 0) return [];
+        return [{
+            date: cells[dateCol],
+            baseCurrency: cells[baseCol].toUpperCase(),
+            quoteCurrency: cells[quoteCol].toUpperCase(),
+            rate,
+        }];
+    });
+}
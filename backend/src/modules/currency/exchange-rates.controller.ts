@@ -0,0 +1,79 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Query,
+    UseGuards,
+    UseInterceptors,
+    UploadedFile,
+    BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiConsumes, ApiResponse } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { parseExchangeRatesCsv } from './exchange-rate.provider';
+import { QueryExchangeRatesDto, RefreshExchangeRatesDto, UpsertExchangeRatesDto } from './dto';
+
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Daily FX rates are shared by all tenants, so only super admins can change them
+ */
+@ApiTags('Exchange Rates')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('exchange-rates')
+export class ExchangeRatesController {
+    constructor(private readonly exchangeRatesService: ExchangeRatesService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'List stored daily FX rates' })
+    async findAll(@Query() query: QueryExchangeRatesDto) {
+        return this.exchangeRatesService.findAll(query);
+    }
+
+    @Post()
+    @Roles(UserRole.SUPER_ADMIN)
+    @ApiOperation({ summary: 'Insert or overwrite daily FX rates' })
+    @ApiResponse({ status: 201, description: 'Number of rates stored' })
+    async upsert(@Body() dto: UpsertExchangeRatesDto) {
+        const imported = await this.exchangeRatesService.upsertRates(dto.rates, dto.source ?? 'manual');
+        return { imported };
+    }
+
+    @Post('import')
+    @Roles(UserRole.SUPER_ADMIN)
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_CSV_BYTES } }))
+    @ApiConsumes('multipart/form-data')
+    @ApiOperation({ summary: 'Import FX rates from a CSV file with a date,base,quote,rate header' })
+    async import(@UploadedFile() file: { buffer: Buffer } | undefined) {
+        if (!file) {
+            throw new BadRequestException('Upload a CSV file');
+        }
+
+        let rates;
+        try {
+            rates = parseExchangeRatesCsv(file.buffer.toString('utf8'));
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+
+        const imported = await this.exchangeRatesService.upsertRates(rates, 'file');
+        return { imported };
+    }
+
+    @Post('refresh')
+    @Roles(UserRole.SUPER_ADMIN)
+    @ApiOperation({ summary: 'Pull rates from the configured FX provider (FX_RATE_PROVIDER)' })
+    async refresh(@Body() dto: RefreshExchangeRatesDto) {
+        return this.exchangeRatesService.refreshFromProvider(
+            dto.startDate ? new Date(dto.startDate) : undefined,
+            dto.endDate ? new Date(dto.endDate) : undefined,
+        );
+    }
+}
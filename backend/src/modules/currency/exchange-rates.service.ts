@@ -0,0 +1,150 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrencyConverter } from './currency-converter';
+import { ExchangeRateProvider, ExchangeRateQuote } from './exchange-rate.provider';
+import { QueryExchangeRatesDto } from './dto';
+
+export const DEFAULT_CURRENCY = 'THB';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Exchange Rates Service
+ *
+ * Stores daily FX rates (manual uploads or the configured provider) and builds
+ * converters for reporting in a tenant's currency.
+ */
+@Injectable()
+export class ExchangeRatesService {
+    private readonly logger = new Logger(ExchangeRatesService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly config: ConfigService,
+        private readonly provider: ExchangeRateProvider,
+    ) { }
+
+    /**
+     * Converter into `currency` with the rates needed for `sourceCurrencies` between the two dates.
+     * Rates up to FX_RATE_LOOKBACK_DAYS before the range are loaded so weekends and gaps
+     * fall back to the last published rate.
+     */
+    async createConverter(
+        currency: string,
+        sourceCurrencies: string[],
+        startDate: Date,
+        endDate: Date,
+    ): Promise<CurrencyConverter> {
+        const target = currency.toUpperCase();
+        const sources = [...new Set(sourceCurrencies.map((c) => c.toUpperCase()))].filter((c) => c !== target);
+        if (sources.length === 0) return new CurrencyConverter(target, []);
+
+        const lookbackDays = Number(this.config.get('FX_RATE_LOOKBACK_DAYS', 7));
+        const currencies = [...sources, target];
+
+        const rows = await this.prisma.exchangeRate.findMany({
+            where: {
+                date: {
+                    gte: new Date(startDate.getTime() - lookbackDays * DAY_MS),
+                    lte: endDate,
+                },
+                OR: [
+                    { baseCurrency: { in: currencies } },
+                    { quoteCurrency: { in: currencies } },
+                ],
+            },
+            select: { date: true, baseCurrency: true, quoteCurrency: true, rate: true },
+        });
+
+        return new CurrencyConverter(
+            target,
+            rows.map((r) => ({
+                date: formatDay(r.date),
+                baseCurrency: r.baseCurrency,
+                quoteCurrency: r.quoteCurrency,
+                rate: Number(r.rate),
+            })),
+        );
+    }
+
+    async findAll(query: QueryExchangeRatesDto) {
+        const where: Prisma.ExchangeRateWhereInput = {};
+        if (query.base) where.baseCurrency = query.base.toUpperCase();
+        if (query.quote) where.quoteCurrency = query.quote.toUpperCase();
+        if (query.startDate || query.endDate) {
+            where.date = {
+                ...(query.startDate ? { gte: new Date(query.startDate) } : {}),
+                ...(query.endDate ? { lte: new Date(query.endDate) } : {}),
+            };
+        }
+
+        const rates = await this.prisma.exchangeRate.findMany({
+            where,
+            orderBy: [{ date: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+            take: query.limit ?? 500,
+        });
+
+        return rates.map((r) => ({ ...r, date: formatDay(r.date), rate: Number(r.rate) }));
+    }
+
+    /**
+     * Insert or overwrite rates (one row per day and pair)
+     */
+    async upsertRates(quotes: ExchangeRateQuote[], source = 'manual'): Promise<number> {
+        for (const q of quotes) {
+            const baseCurrency = q.baseCurrency.toUpperCase();
+            const quoteCurrency = q.quoteCurrency.toUpperCase();
+            const date = new Date(`${q.date.slice(0, 10)}T00:00:00.000Z`);
+
+            await this.prisma.exchangeRate.upsert({
+                where: { exchange_rates_date_pair_unique: { date, baseCurrency, quoteCurrency } },
+                create: { date, baseCurrency, quoteCurrency, rate: q.rate, source },
+                update: { rate: q.rate, source },
+            });
+        }
+        return quotes.length;
+    }
+
+    /**
+     * Pull rates from the configured provider for every currency in use (tenants and campaigns)
+     */
+    async refreshFromProvider(startDate?: Date, endDate?: Date): Promise<{ provider: string; imported: number }> {
+        const end = endDate ?? new Date();
+        const start = startDate ?? new Date(end.getTime() - Number(this.config.get('FX_RATE_LOOKBACK_DAYS', 7)) * DAY_MS);
+        const base = this.config.get<string>('FX_BASE_CURRENCY', 'USD').toUpperCase();
+
+        const [campaignCurrencies, tenantCurrencies] = await Promise.all([
+            this.prisma.campaign.findMany({ distinct: ['currency'], select: { currency: true } }),
+            this.prisma.tenant.findMany({ distinct: ['currency'], select: { currency: true } }),
+        ]);
+        const currencies = [
+            ...new Set(
+                [...campaignCurrencies, ...tenantCurrencies]
+                    .map((c) => (c.currency || DEFAULT_CURRENCY).toUpperCase()),
+            ),
+        ];
+
+        const quotes = await this.provider.fetchRates(base, currencies, formatDay(start), formatDay(end));
+        const imported = await this.upsertRates(quotes, this.provider.name);
+        this.logger.log(`Imported ${imported} FX rates from ${this.provider.name} (${formatDay(start)} to ${formatDay(end)})`);
+
+        return { provider: this.provider.name, imported };
+    }
+
+    @Cron(CronExpression.EVERY_DAY_AT_2AM)
+    async handleDailyRefresh() {
+        if (this.provider.name === 'none') return;
+        try {
+            await this.refreshFromProvider();
+        } catch (error) {
+            this.logger.error(`Daily FX rate refresh failed: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,171 @@
+/**
+ * Reporting Currency Unit Tests
+ * @module reporting-currency.service.spec
+ * @description Metric sums across campaigns in different currencies:
+ *   - Spend / revenue are converted per campaign-day into the tenant currency
+ *   - Days without a published rate use the closest earlier rate
+ *   - Rates are used inverted or crossed through another currency when needed
+ *   - Pairs with no rate are summed unconverted and reported in missingRates
+ *   - Campaign drill-down rows keep the original currency and amounts
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AdPlatform, Prisma } from '@prisma/client';
+import { ReportingCurrencyService } from './reporting-currency.service';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRateProvider, UnconfiguredExchangeRateProvider } from './exchange-rate.provider';
+import { PrismaService } from '../prisma/prisma.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+const group = (campaignId: string, date: string, spend: number, revenue = 0) => ({
+    campaignId,
+    date: day(date),
+    platform: AdPlatform.FACEBOOK,
+    _sum: {
+        impressions: 1000,
+        clicks: 10,
+        conversions: 1,
+        spend: new Prisma.Decimal(spend),
+        revenue: new Prisma.Decimal(revenue),
+    },
+});
+
+const rate = (date: string, baseCurrency: string, quoteCurrency: string, value: number) => ({
+    date: day(date),
+    baseCurrency,
+    quoteCurrency,
+    rate: new Prisma.Decimal(value),
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('ReportingCurrencyService', () => {
+    let service: ReportingCurrencyService;
+    let prisma: {
+        tenant: { findUnique: jest.Mock };
+        campaign: { findMany: jest.Mock };
+        metric: { groupBy: jest.Mock };
+        exchangeRate: { findMany: jest.Mock };
+    };
+
+    beforeEach(async () => {
+        prisma = {
+            tenant: { findUnique: jest.fn().mockResolvedValue({ currency: 'THB' }) },
+            campaign: {
+                findMany: jest.fn().mockResolvedValue([
+                    { id: 'thb-campaign', currency: 'THB' },
+                    { id: 'usd-campaign', currency: 'USD' },
+                    { id: 'eur-campaign', currency: 'EUR' },
+                    { id: 'jpy-campaign', currency: 'JPY' },
+                ]),
+            },
+            metric: { groupBy: jest.fn() },
+            exchangeRate: {
+                findMany: jest.fn().mockResolvedValue([
+                    rate('2026-03-01', 'USD', 'THB', 35),
+                    rate('2026-03-03', 'USD', 'THB', 36),
+                    rate('2026-03-01', 'USD', 'EUR', 0.5),
+                ]),
+            },
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ReportingCurrencyService,
+                ExchangeRatesService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: ConfigService, useValue: { get: jest.fn((_key: string, fallback?: unknown) => fallback) } },
+                { provide: ExchangeRateProvider, useClass: UnconfiguredExchangeRateProvider },
+            ],
+        }).compile();
+
+        service = module.get(ReportingCurrencyService);
+    });
+
+    it('should convert each campaign-day at that day\'s rate before summing', async () => {
+        prisma.metric.groupBy.mockResolvedValue([
+            group('thb-campaign', '2026-03-01', 1000, 4000),
+            group('usd-campaign', '2026-03-01', 10, 40),
+            group('usd-campaign', '2026-03-03', 10),
+        ]);
+
+        const report = await service.sumMetrics(TENANT_ID, { tenantId: TENANT_ID });
+
+        expect(report.currency).toBe('THB');
+        expect(report.total.spend).toBeCloseTo(1000 + 350 + 360);
+        expect(report.total.revenue).toBeCloseTo(4000 + 1400);
+        expect(report.total.impressions).toBe(3000);
+        expect(report.missingRates).toEqual([]);
+    });
+
+    it('should fall back to the closest earlier rate on days without one', async () => {
+        prisma.metric.groupBy.mockResolvedValue([group('usd-campaign', '2026-03-02', 10)]);
+
+        const report = await service.sumMetrics(TENANT_ID, {});
+
+        expect(report.total.spend).toBeCloseTo(350);
+    });
+
+    it('should invert stored rates and cross them through a shared currency', async () => {
+        prisma.tenant.findUnique.mockResolvedValue({ currency: 'USD' });
+        prisma.metric.groupBy.mockResolvedValue([
+            group('thb-campaign', '2026-03-01', 3500),
+            group('eur-campaign', '2026-03-01', 10),
+        ]);
+
+        const usd = await service.sumMetrics(TENANT_ID, {});
+        expect(usd.total.spend).toBeCloseTo(100 + 20);
+
+        prisma.tenant.findUnique.mockResolvedValue({ currency: 'THB' });
+        const thb = await service.sumMetrics(TENANT_ID, {});
+        expect(thb.total.spend).toBeCloseTo(3500 + 700);
+    });
+
+    it('should sum amounts without a rate unconverted and report the pair', async () => {
+        prisma.metric.groupBy.mockResolvedValue([
+            group('thb-campaign', '2026-03-01', 100),
+            group('jpy-campaign', '2026-03-01', 2000),
+        ]);
+
+        const report = await service.sumMetrics(TENANT_ID, {});
+
+        expect(report.total.spend).toBeCloseTo(2100);
+        expect(report.missingRates).toEqual(['JPY->THB']);
+        expect(service.toMeta(report)).toEqual({ currency: 'THB', missingRates: ['JPY->THB'] });
+    });
+
+    it('should keep the campaign currency and original amounts on campaign rows', async () => {
+        prisma.metric.groupBy.mockResolvedValue([
+            group('usd-campaign', '2026-03-01', 10, 30),
+            group('usd-campaign', '2026-03-03', 5),
+            group('thb-campaign', '2026-03-01', 100),
+        ]);
+
+        const report = await service.sumMetrics(TENANT_ID, {}, ['campaignId']);
+        const usdRow = report.rows.find((r) => r.campaignId === 'usd-campaign');
+
+        expect(report.rows).toHaveLength(2);
+        expect(usdRow).toMatchObject({ originalCurrency: 'USD', originalSpend: 15, originalRevenue: 30 });
+        expect(usdRow?.spend).toBeCloseTo(350 + 180);
+        expect(service.toMeta(report)).toEqual({ currency: 'THB' });
+    });
+
+    it('should skip rate lookups when there are no metrics', async () => {
+        prisma.metric.groupBy.mockResolvedValue([]);
+
+        const report = await service.sumMetrics(TENANT_ID, {}, ['date']);
+
+        expect(report).toEqual({ currency: 'THB', total: expect.objectContaining({ spend: 0 }), rows: [], missingRates: [] });
+        expect(prisma.exchangeRate.findMany).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,166 @@
+import { Injectable } from '@nestjs/common';
+import { AdPlatform, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DEFAULT_CURRENCY, ExchangeRatesService } from './exchange-rates.service';
+
+export type MetricGroupKey = 'campaignId' | 'date' | 'platform';
+
+export interface MetricTotals {
+    impressions: number;
+    clicks: number;
+    conversions: number;
+    spend: number;
+    revenue: number;
+}
+
+/** One aggregate row; money is in the reporting currency */
+export interface ReportingMetricRow extends MetricTotals {
+    campaignId?: string;
+    date?: Date;
+    platform?: AdPlatform;
+    /** Campaign currency and unconverted figures, set when grouped by campaign */
+    originalCurrency?: string;
+    originalSpend?: number;
+    originalRevenue?: number;
+}
+
+export interface ReportingMetrics {
+    currency: string;
+    total: MetricTotals;
+    rows: ReportingMetricRow[];
+    /** `FROM->TO` pairs without a rate; those amounts were summed unconverted */
+    missingRates: string[];
+}
+
+/** Response meta describing the money figures in a report */
+export interface CurrencyMeta {
+    currency: string;
+    missingRates?: string[];
+}
+
+const emptyTotals = (): MetricTotals => ({ impressions: 0, clicks: 0, conversions: 0, spend: 0, revenue: 0 });
+
+/**
+ * Reporting Currency Service
+ *
+ * Sums `metrics` rows across campaigns in the tenant's reporting currency. Rows are
+ * grouped by campaign and day first so each amount is converted from its campaign's
+ * currency at that day's rate, then collapsed to the requested grouping.
+ */
+@Injectable()
+export class ReportingCurrencyService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly exchangeRates: ExchangeRatesService,
+    ) { }
+
+    async getReportingCurrency(tenantId: string): Promise<string> {
+        const tenant = await this.prisma.tenant.findUnique({
+            where: { id: tenantId },
+            select: { currency: true },
+        });
+        return (tenant?.currency || DEFAULT_CURRENCY).toUpperCase();
+    }
+
+    async sumMetrics(
+        tenantId: string,
+        where: Prisma.MetricWhereInput,
+        groupBy: MetricGroupKey[] = [],
+    ): Promise<ReportingMetrics> {
+        const currency = await this.getReportingCurrency(tenantId);
+
+        const groups = await this.prisma.metric.groupBy({
+            by: ['campaignId', 'date', 'platform'],
+            where,
+            _sum: {
+                impressions: true,
+                clicks: true,
+                conversions: true,
+                spend: true,
+                revenue: true,
+            },
+        });
+
+        if (groups.length === 0) {
+            return { currency, total: emptyTotals(), rows: [], missingRates: [] };
+        }
+
+        const campaigns = await this.prisma.campaign.findMany({
+            where: { id: { in: [...new Set(groups.map((g) => g.campaignId))] } },
+            select: { id: true, currency: true },
+        });
+        const campaignCurrency = new Map(campaigns.map((c) => [c.id, (c.currency || currency).toUpperCase()]));
+
+        // A loop rather than Math.min(...dates): spreading a large result set overflows the call stack
+        const { min, max } = groups.reduce(
+            (range, g) => ({
+                min: g.date < range.min ? g.date : range.min,
+                max: g.date > range.max ? g.date : range.max,
+            }),
+            { min: groups[0].date, max: groups[0].date },
+        );
+        const converter = await this.exchangeRates.createConverter(
+            currency,
+            [...campaignCurrency.values()],
+            min,
+            max,
+        );
+
+        const total = emptyTotals();
+        const rows = new Map<string, ReportingMetricRow>();
+
+        for (const g of groups) {
+            const from = campaignCurrency.get(g.campaignId) ?? currency;
+            const spend = Number(g._sum.spend ?? 0);
+            const revenue = Number(g._sum.revenue ?? 0);
+            const values: MetricTotals = {
+                impressions: g._sum.impressions ?? 0,
+                clicks: g._sum.clicks ?? 0,
+                conversions: g._sum.conversions ?? 0,
+                spend: converter.convert(spend, from, g.date),
+                revenue: converter.convert(revenue, from, g.date),
+            };
+
+            this.add(total, values);
+            if (groupBy.length === 0) continue;
+
+            const key = groupBy.map((k) => (k === 'date' ? g.date.toISOString() : g[k])).join('|');
+            let row = rows.get(key);
+            if (!row) {
+                row = emptyTotals();
+                for (const k of groupBy) (row as any)[k] = g[k];
+                if (groupBy.includes('campaignId')) {
+                    Object.assign(row, { originalCurrency: from, originalSpend: 0, originalRevenue: 0 });
+                }
+                rows.set(key, row);
+            }
+
+            this.add(row, values);
+            if (row.originalCurrency) {
+                row.originalSpend = (row.originalSpend ?? 0) + spend;
+                row.originalRevenue = (row.originalRevenue ?? 0) + revenue;
+            }
+        }
+
+        return { currency, total, rows: [...rows.values()], missingRates: converter.missingRates };
+    }
+
+    /**
+     * Meta for a response built from one or more reports in the same currency
+     */
+    toMeta(...reports: ReportingMetrics[]): CurrencyMeta {
+        const missingRates = [...new Set(reports.flatMap((r) => r.missingRates))].sort();
+        return {
+            currency: reports[0]?.currency ?? DEFAULT_CURRENCY,
+            ...(missingRates.length ? { missingRates } : {}),
+        };
+    }
+
+    private add(target: MetricTotals, values: MetricTotals) {
+        target.impressions += values.impressions;
+        target.clicks += values.clicks;
+        target.conversions += values.conversions;
+        target.spend += values.spend;
+        target.revenue += values.revenue;
+    }
+}
@@ -7,11 +7,16 @@ import { RolesGuard } from '../../common/guards/roles.guard';
 import { CrmService } from './crm.service';
 import { GetCrmSummaryDto, CrmSummaryResponseDto } from './dto/crm-summary.dto';
 import { UserRole } from '@prisma/client';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
 
 @ApiTags('CRM')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
 @Controller('crm')
+@RequirePermissions('crm:read')
 export class CrmController {
   constructor(private readonly crmService: CrmService) {}
 
@@ -21,9 +26,10 @@ export class CrmController {
   async getSummary(
     @CurrentUser() user: any,
     @Query() query: GetCrmSummaryDto,
+    @CurrentCampaignScope() scope: CampaignScope,
   ) {
     const tenantId = query.tenantId && user.role === UserRole.SUPER_ADMIN ? query.tenantId : user.tenantId;
-    return this.crmService.getSummary(tenantId, query);
+    return this.crmService.getSummary(tenantId, query, scope);
   }
 
   @Get('trends')
@@ -32,8 +38,9 @@ export class CrmController {
     @CurrentUser() user: any,
     @Query('days') days?: number,
     @Query('tenantId') tenantIdQuery?: string,
+    @CurrentCampaignScope() scope?: CampaignScope,
   ) {
     const tenantId = tenantIdQuery && user.role === UserRole.SUPER_ADMIN ? tenantIdQuery : user.tenantId;
-    return this.crmService.getPipelineTrends(tenantId, days ? Number(days) : 30);
+    return this.crmService.getPipelineTrends(tenantId, days ? Number(days) : 30, scope);
   }
 }
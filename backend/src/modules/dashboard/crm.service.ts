@@ -1,12 +1,39 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { DateRangeUtil } from '../../common/utils/date-range.util';
-import { GetCrmSummaryDto, CrmSummaryResponseDto, CrmPeriod } from './dto/crm-summary.dto';
-import { Prisma } from '@prisma/client';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import {
+  GetCrmSummaryDto,
+  CrmSummaryResponseDto,
+  CrmPeriod,
+  CrmFunnelStageDto,
+  CrmCampaignBreakdownDto,
+} from './dto/crm-summary.dto';
+import { PeriodEnum } from './dto/dashboard-overview.dto';
+import { DealStatus, LeadStage, Prisma } from '@prisma/client';
+import { FUNNEL_STAGES, stageRank } from '../crm/lead-stages';
+import { CampaignScope, campaignRelationScope, scopeCampaignWhere } from '../../common/utils/campaign-scope.util';
 
+interface PeriodTotals {
+  leads: number;
+  qualified: number;
+  wonDeals: number;
+  wonValue: number;
+  pipelineValue: number;
+  spend: number;
+}
+
+/**
+ * CRM pipeline metrics computed from Lead/Deal records and their stage transitions.
+ * Spend (for CPL/CPQL) still comes from the ad Metric table.
+ * Campaign-scoped users only see leads, deals and spend of their campaigns.
+ */
 @Injectable()
 export class CrmService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tenantTimezone: TenantTimezoneService,
+  ) {}
 
   private toNumber(value: Prisma.Decimal | number | string | null | undefined, defaultValue = 0): number {
     if (value === null || value === undefined) return defaultValue;
@@ -14,91 +41,273 @@ export class CrmService {
     return Number(value);
   }
 
-  async getSummary(tenantId: string, query: GetCrmSummaryDto): Promise<CrmSummaryResponseDto> {
-    const days = query.period === CrmPeriod.D7 ? 7 : 30;
-    const { startDate, endDate } = DateRangeUtil.getDateRange(days);
-    const { startDate: prevStartDate, endDate: prevEndDate } = DateRangeUtil.getPreviousPeriodDateRange(startDate, days);
+  async getSummary(tenantId: string, query: GetCrmSummaryDto, scope?: CampaignScope): Promise<CrmSummaryResponseDto> {
+    const period = (query.period ?? CrmPeriod.D30) as unknown as PeriodEnum;
+    const timezone = await this.tenantTimezone.getTimezone(tenantId);
+    const { startDate, endDate } = DateRangeUtil.getDateRangeByPeriod(period, timezone);
+    const { startDate: prevStartDate, endDate: prevEndDate } = DateRangeUtil.getPreviousPeriodByPeriod(period, startDate, endDate);
 
-    // Using Metric table as a base for lead data (stored in metadata or dedicated columns if added)
-    // For now, we'll aggregate from existing Metric columns
-    const currentMetrics = await this.prisma.metric.aggregate({
-      where: {
-        tenantId,
-        date: { gte: startDate, lte: endDate },
-      },
-      _sum: {
-        conversions: true, // Total Leads
-        spend: true,
-        revenue: true, // Pipeline Value
-      },
-    });
-
-    const prevMetrics = await this.prisma.metric.aggregate({
-      where: {
-        tenantId,
-        date: { gte: prevStartDate, lte: prevEndDate },
-      },
-      _sum: {
-        conversions: true,
-        spend: true,
-        revenue: true,
-      },
-    });
+    const [current, previous, funnel, campaigns] = await Promise.all([
+      this.getPeriodTotals(tenantId, startDate, endDate, timezone, scope),
+      this.getPeriodTotals(tenantId, prevStartDate, prevEndDate, timezone, scope),
+      this.getFunnel(tenantId, startDate, endDate, timezone, scope),
+      this.getCampaignBreakdown(tenantId, startDate, endDate, timezone, scope),
+    ]);
 
     const calculateTrend = (curr: number, prev: number) => {
       if (!prev) return 0;
       return Number(((curr - prev) / prev * 100).toFixed(1));
     };
+    const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : 0);
+
+    const conversionRate = ratio(current.qualified, current.leads) * 100;
+    const prevConversionRate = ratio(previous.qualified, previous.leads) * 100;
+    const cpl = ratio(current.spend, current.leads);
+    const prevCpl = ratio(previous.spend, previous.leads);
+    const cpql = ratio(current.spend, current.qualified);
+    const prevCpql = ratio(previous.spend, previous.qualified);
+
+    return {
+      totalLeads: current.leads,
+      leadsTrend: calculateTrend(current.leads, previous.leads),
+      qualifiedLeads: current.qualified,
+      qualifiedTrend: calculateTrend(current.qualified, previous.qualified),
+      conversionRate,
+      conversionTrend: calculateTrend(conversionRate, prevConversionRate),
+      costPerLead: cpl,
+      cplTrend: calculateTrend(cpl, prevCpl),
+      costPerQualifiedLead: cpql,
+      cpqlTrend: calculateTrend(cpql, prevCpql),
+      pipelineValue: current.pipelineValue,
+      pipelineTrend: calculateTrend(current.pipelineValue, previous.pipelineValue),
+      wonDeals: current.wonDeals,
+      wonValue: current.wonValue,
+      funnel,
+      campaigns,
+    };
+  }
+
+  /**
+   * Daily leads created, leads qualified, deals won and pipeline value opened
+   */
+  async getPipelineTrends(tenantId: string, days = 30, scope?: CampaignScope) {
+    const timezone = await this.tenantTimezone.getTimezone(tenantId);
+    const { startDate, endDate } = DateRangeUtil.getDateRange(days, timezone);
+    const inRange = this.instantRange(startDate, endDate, timezone);
+    const scoped = { tenantId, ...campaignRelationScope(scope) };
+
+    const [created, qualified, deals] = await Promise.all([
+      this.prisma.lead.findMany({ where: { ...scoped, createdAt: inRange }, select: { createdAt: true } }),
+      this.prisma.lead.findMany({ where: { ...scoped, qualifiedAt: inRange }, select: { qualifiedAt: true } }),
+      this.prisma.deal.findMany({
+        where: { ...scoped, OR: [{ createdAt: inRange }, { status: DealStatus.WON, closedAt: inRange }] },
+        select: { createdAt: true, closedAt: true, status: true, value: true },
+      }),
+    ]);
 
-    const totalLeads = this.toNumber(currentMetrics._sum.conversions);
-    const prevLeads = this.toNumber(prevMetrics._sum.conversions);
-    
-    const qualifiedLeads = Math.floor(totalLeads * 0.4); // Mock ratio for now
-    const prevQualified = Math.floor(prevLeads * 0.4);
+    const buckets = new Map<string, { date: string; leads: number; qualified: number; won: number; value: number; wonValue: number }>();
+    for (let day = new Date(startDate); day <= endDate; day.setUTCDate(day.getUTCDate() + 1)) {
+      const date = day.toISOString().split('T')[0];
+      buckets.set(date, { date, leads: 0, qualified: 0, won: 0, value: 0, wonValue: 0 });
+    }
+    // Leads and deals carry timestamps; bucket them by the tenant's calendar day
+    const bucket = (at: Date | null) => (at ? buckets.get(DateRangeUtil.toDayKey(at, timezone)) : undefined);
 
-    const spend = this.toNumber(currentMetrics._sum.spend);
-    const prevSpend = this.toNumber(prevMetrics._sum.spend);
+    created.forEach((lead) => {
+      const b = bucket(lead.createdAt);
+      if (b) b.leads++;
+    });
+    qualified.forEach((lead) => {
+      const b = bucket(lead.qualifiedAt);
+      if (b) b.qualified++;
+    });
+    deals.forEach((deal) => {
+      const value = this.toNumber(deal.value);
+      const opened = deal.createdAt >= inRange.gte ? bucket(deal.createdAt) : undefined;
+      if (opened) opened.value += value;
+      if (deal.status === DealStatus.WON) {
+        const won = bucket(deal.closedAt);
+        if (won) {
+          won.won++;
+          won.wonValue += value;
+        }
+      }
+    });
 
-    const cpl = totalLeads > 0 ? spend / totalLeads : 0;
-    const prevCpl = prevLeads > 0 ? prevSpend / prevLeads : 0;
+    return Array.from(buckets.values());
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
 
-    const pipelineValue = this.toNumber(currentMetrics._sum.revenue);
-    const prevPipeline = this.toNumber(prevMetrics._sum.revenue);
+  /**
+   * Lead / deal timestamps between the start of the first and the end of the last day in the timezone
+   */
+  private instantRange(startDate: Date, endDate: Date, timezone: string) {
+    const range = DateRangeUtil.toInstantRange({ startDate, endDate }, timezone);
+    return { gte: range.startDate, lte: range.endDate };
+  }
+
+  private async getPeriodTotals(
+    tenantId: string,
+    startDate: Date,
+    endDate: Date,
+    timezone: string,
+    scope?: CampaignScope,
+  ): Promise<PeriodTotals> {
+    const inRange = this.instantRange(startDate, endDate, timezone);
+    const dayRange = { gte: startDate, lte: endDate };
+    const scoped = { tenantId, ...campaignRelationScope(scope) };
+
+    const [leads, qualified, won, pipeline, metrics] = await Promise.all([
+      this.prisma.lead.count({ where: { ...scoped, createdAt: inRange } }),
+      this.prisma.lead.count({ where: { ...scoped, qualifiedAt: inRange } }),
+      this.prisma.deal.aggregate({
+        where: { ...scoped, status: DealStatus.WON, closedAt: inRange },
+        _count: { _all: true },
+        _sum: { value: true },
+      }),
+      this.prisma.deal.aggregate({
+        where: { ...scoped, createdAt: inRange },
+        _sum: { value: true },
+      }),
+      this.prisma.metric.aggregate({
+        where: { ...scoped, date: dayRange },
+        _sum: { spend: true },
+      }),
+    ]);
 
     return {
-      totalLeads,
-      leadsTrend: calculateTrend(totalLeads, prevLeads),
-      qualifiedLeads,
-      qualifiedTrend: calculateTrend(qualifiedLeads, prevQualified),
-      conversionRate: totalLeads > 0 ? (qualifiedLeads / totalLeads) * 100 : 0,
-      conversionTrend: 0,
-      costPerLead: cpl,
-      cplTrend: calculateTrend(cpl, prevCpl),
-      pipelineValue,
-      pipelineTrend: calculateTrend(pipelineValue, prevPipeline),
+      leads,
+      qualified,
+      wonDeals: won._count._all,
+      wonValue: this.toNumber(won._sum.value),
+      pipelineValue: this.toNumber(pipeline._sum.value),
+      spend: this.toNumber(metrics._sum.spend),
     };
   }
 
-  async getPipelineTrends(tenantId: string, days = 30) {
-    const { startDate, endDate } = DateRangeUtil.getDateRange(days);
-    
-    const trends = await this.prisma.metric.groupBy({
-      by: ['date'],
+  /**
+   * Funnel for the cohort of leads created in the period: how many reached each
+   * stage (or beyond), based on recorded stage transitions.
+   */
+  private async getFunnel(
+    tenantId: string,
+    startDate: Date,
+    endDate: Date,
+    timezone: string,
+    scope?: CampaignScope,
+  ): Promise<CrmFunnelStageDto[]> {
+    const transitions = await this.prisma.leadStageChange.findMany({
       where: {
         tenantId,
-        date: { gte: startDate, lte: endDate },
-      },
-      _sum: {
-        conversions: true,
-        revenue: true,
+        lead: { createdAt: this.instantRange(startDate, endDate, timezone), ...campaignRelationScope(scope) },
       },
-      orderBy: { date: 'asc' },
+      select: { leadId: true, toStage: true },
     });
 
-    return trends.map(t => ({
-      date: t.date.toISOString().split('T')[0],
-      leads: t._sum.conversions || 0,
-      value: this.toNumber(t._sum.revenue),
+    const furthest = new Map<string, number>();
+    for (const { leadId, toStage } of transitions) {
+      if (toStage === LeadStage.LOST) {
+        if (!furthest.has(leadId)) furthest.set(leadId, 0);
+        continue;
+      }
+      furthest.set(leadId, Math.max(furthest.get(leadId) ?? 0, stageRank(toStage)));
+    }
+
+    const cohort = furthest.size;
+    const reached = FUNNEL_STAGES.map((_, rank) =>
+      Array.from(furthest.values()).filter((max) => max >= rank).length,
+    );
+
+    return FUNNEL_STAGES.map((stage, rank) => ({
+      stage,
+      count: reached[rank],
+      rate: cohort > 0 ? (reached[rank] / cohort) * 100 : 0,
+      stepRate: rank === 0
+        ? (cohort > 0 ? 100 : 0)
+        : reached[rank - 1] > 0 ? (reached[rank] / reached[rank - 1]) * 100 : 0,
     }));
   }
+
+  /**
+   * Leads, qualified leads, won deals and cost per (qualified) lead per source campaign
+   */
+  private async getCampaignBreakdown(
+    tenantId: string,
+    startDate: Date,
+    endDate: Date,
+    timezone: string,
+    scope?: CampaignScope,
+  ): Promise<CrmCampaignBreakdownDto[]> {
+    const inRange = this.instantRange(startDate, endDate, timezone);
+    const scoped = { tenantId, ...campaignRelationScope(scope) };
+
+    const [leadGroups, qualifiedGroups, wonGroups] = await Promise.all([
+      this.prisma.lead.groupBy({
+        by: ['campaignId'],
+        where: { ...scoped, createdAt: inRange },
+        _count: { _all: true },
+      }),
+      this.prisma.lead.groupBy({
+        by: ['campaignId'],
+        where: { ...scoped, qualifiedAt: inRange },
+        _count: { _all: true },
+      }),
+      this.prisma.deal.groupBy({
+        by: ['campaignId'],
+        where: { ...scoped, status: DealStatus.WON, closedAt: inRange },
+        _count: { _all: true },
+        _sum: { value: true },
+      }),
+    ]);
+
+    const campaignIds = Array.from(
+      new Set([...leadGroups, ...qualifiedGroups, ...wonGroups].map((g) => g.campaignId).filter((id): id is string => !!id)),
+    );
+
+    const [campaigns, spendGroups] = await Promise.all([
+      this.prisma.campaign.findMany({
+        where: scopeCampaignWhere({ tenantId, id: { in: campaignIds } }, scope),
+        select: { id: true, name: true, platform: true },
+      }),
+      this.prisma.metric.groupBy({
+        by: ['campaignId'],
+        where: { tenantId, campaignId: { in: campaignIds }, date: { gte: startDate, lte: endDate } },
+        _sum: { spend: true },
+      }),
+    ]);
+
+    const campaignById = new Map(campaigns.map((c) => [c.id, c]));
+    const spendById = new Map(spendGroups.map((g) => [g.campaignId, this.toNumber(g._sum.spend)]));
+    const countOf = (groups: Array<{ campaignId: string | null; _count: { _all: number } }>, id: string | null) =>
+      groups.find((g) => g.campaignId === id)?._count._all ?? 0;
+
+    const rows = [...campaignIds, null]
+      .map((campaignId) => {
+        const leads = countOf(leadGroups, campaignId);
+        const qualified = countOf(qualifiedGroups, campaignId);
+        const won = wonGroups.find((g) => g.campaignId === campaignId);
+        const spend = campaignId ? spendById.get(campaignId) ?? 0 : 0;
+        const campaign = campaignId ? campaignById.get(campaignId) : undefined;
+
+        return {
+          campaignId,
+          campaignName: campaign?.name ?? 'Unattributed',
+          platform: campaign?.platform ?? null,
+          leads,
+          qualifiedLeads: qualified,
+          wonDeals: won?._count._all ?? 0,
+          wonValue: this.toNumber(won?._sum.value),
+          spend,
+          conversionRate: leads > 0 ? (qualified / leads) * 100 : 0,
+          costPerLead: leads > 0 ? spend / leads : 0,
+          costPerQualifiedLead: qualified > 0 ? spend / qualified : 0,
+        };
+      })
+      .filter((row) => row.leads > 0 || row.qualifiedLeads > 0 || row.wonDeals > 0);
+
+    return rows.sort((a, b) => b.qualifiedLeads - a.qualifiedLeads || b.leads - a.leads);
+  }
 }
@@ -10,18 +10,27 @@ import { GetDashboardOverviewDto, DashboardOverviewResponseDto, PeriodEnum } fro
 import { TenantCacheInterceptor } from '../../common/interceptors/tenant-cache.interceptor';
 import { IntegrationSwitchService } from '../data-sources/integration-switch.service';
 import { DateRangeUtil } from '../../common/utils/date-range.util';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { EntitlementsGuard } from '../../common/guards/entitlements.guard';
+import { RequireEntitlements } from '../../common/decorators/require-entitlements.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
 
 @ApiTags('Dashboard')
 @ApiBearerAuth()
 @Controller('dashboard')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementsGuard)
 @UseInterceptors(TenantCacheInterceptor)
+@RequirePermissions('dashboard:read')
 export class DashboardController {
   constructor(
     private readonly dashboardService: DashboardService,
     private readonly metricsService: MetricsService,
     private readonly exportService: ExportService,
     private readonly integrationSwitchService: IntegrationSwitchService,
+    private readonly tenantTimezone: TenantTimezoneService,
   ) { }
 
   /**
@@ -37,9 +46,10 @@ export class DashboardController {
   async getOverview(
     @CurrentUser() user: any,
     @Query() query: GetDashboardOverviewDto,
+    @CurrentCampaignScope() scope: CampaignScope,
   ) {
     // Delegate to the Switch Service
-    return this.integrationSwitchService.getDashboardOverview(user, query);
+    return this.integrationSwitchService.getDashboardOverview(user, query, scope);
   }
 
   @Get('metrics')
@@ -47,33 +57,36 @@ export class DashboardController {
     @CurrentUser('tenantId') tenantId: string,
     @Query('range') range: string,
     @Query('compare') compare: string,
+    @CurrentCampaignScope() scope: CampaignScope,
   ) {
     const period = range || '7d';
     const compareWith = compare === 'previous_period' ? 'previous_period' : undefined;
 
-    return this.metricsService.getMetricsTrends(tenantId, period, compareWith);
+    return this.metricsService.getMetricsTrends(tenantId, period, compareWith, scope);
   }
 
   @Get('summary')
-  async getSummary(@Request() req, @Query('days') days?: string) {
+  async getSummary(@Request() req, @CurrentCampaignScope() scope: CampaignScope, @Query('days') days?: string) {
     const daysNum = days ? parseInt(days, 10) : 30;
-    return this.dashboardService.getSummary(req.user.tenantId, daysNum);
+    return this.dashboardService.getSummary(req.user.tenantId, daysNum, scope);
   }
 
   @Get('summary-by-platform')
   async getSummaryByPlatform(
     @Request() req,
+    @CurrentCampaignScope() scope: CampaignScope,
     @Query('days') days?: string,
     @Query('platform') platform?: string,
   ) {
     const daysNum = days ? parseInt(days, 10) : 30;
     const platformFilter = platform || 'ALL';
-    return this.dashboardService.getSummaryByPlatform(req.user.tenantId, daysNum, platformFilter);
+    return this.dashboardService.getSummaryByPlatform(req.user.tenantId, daysNum, platformFilter, scope);
   }
 
   @Get('top-campaigns')
   async getTopCampaigns(
     @Request() req,
+    @CurrentCampaignScope() scope: CampaignScope,
     @Query('limit') limit?: string,
     @Query('days') days?: string,
   ) {
@@ -87,22 +100,26 @@ export class DashboardController {
     const daysNum = days ? parseInt(days, 10) : 30;
 
     // Use Switch Service
-    return this.integrationSwitchService.getTopCampaigns(req.user.tenantId, limitNum, daysNum);
+    return this.integrationSwitchService.getTopCampaigns(req.user.tenantId, limitNum, daysNum, scope);
   }
 
   @Get('trends')
-  async getTrends(@Request() req, @Query('days') days?: string) {
+  async getTrends(@Request() req, @CurrentCampaignScope() scope: CampaignScope, @Query('days') days?: string) {
     const daysNum = days ? parseInt(days, 10) : 30;
-    return this.dashboardService.getTrends(req.user.tenantId, daysNum);
+    return this.dashboardService.getTrends(req.user.tenantId, daysNum, scope);
   }
 
   @Get('performance-by-platform')
-  async getPerformanceByPlatform(@Request() req, @Query('startDate') startDate?: string) {
+  async getPerformanceByPlatform(
+    @Request() req,
+    @CurrentCampaignScope() scope: CampaignScope,
+    @Query('startDate') startDate?: string,
+  ) {
     let days = 30;
     if (startDate && startDate.endsWith('d')) {
       days = parseInt(startDate.replace('d', ''), 10);
     }
-    return this.dashboardService.getPerformanceByPlatform(req.user.tenantId, days);
+    return this.dashboardService.getPerformanceByPlatform(req.user.tenantId, days, scope);
   }
 
   @Get('time-series')
@@ -114,6 +131,7 @@ export class DashboardController {
   async getTimeSeries(
     @CurrentUser('tenantId') tenantId: string,
     @Query('metric') metric: string,
+    @CurrentCampaignScope() scope: CampaignScope,
     @Query('startDate') startDateStr?: string,
     @Query('endDate') endDateStr?: string,
   ) {
@@ -151,7 +169,7 @@ export class DashboardController {
         throw new BadRequestException('startDate must be before or equal to endDate');
       }
     } else {
-      const range30 = DateRangeUtil.getDateRange(30);
+      const range30 = DateRangeUtil.getDateRange(30, await this.tenantTimezone.getTimezone(tenantId));
       startDate = range30.startDate;
       endDate = range30.endDate;
     }
@@ -161,56 +179,68 @@ export class DashboardController {
       metric as 'impressions' | 'clicks' | 'spend' | 'conversions' | 'revenue' | 'sessions',
       startDate,
       endDate,
+      scope,
     );
   }
 
   @Get('metrics/trends')
   async getMetricsTrends(
     @CurrentUser() user: any,
+    @CurrentCampaignScope() scope: CampaignScope,
     @Query('period') period: string = '7d',
     @Query('compare') compare?: 'previous_period',
   ) {
-    return this.metricsService.getMetricsTrends(user.tenantId, period, compare);
+    return this.metricsService.getMetricsTrends(user.tenantId, period, compare, scope);
   }
 
   @Get('metrics/daily')
   async getDailyMetrics(
     @CurrentUser() user: any,
+    @CurrentCampaignScope() scope: CampaignScope,
     @Query('period') period: string = '7d',
   ) {
-    return this.metricsService.getDailyMetrics(user.tenantId, period);
+    return this.metricsService.getDailyMetrics(user.tenantId, period, scope);
   }
 
   @Get('export/campaigns/csv')
+  @RequirePermissions('export:csv')
+  @RequireEntitlements('EXPORT_CSV')
   async exportCampaignsCSV(
     @CurrentUser() user: any,
+    @CurrentCampaignScope() scope: CampaignScope,
     @Query('platform') platform?: string,
     @Query('status') status?: string,
   ) {
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - 30);
+    const { startDate, endDate } = DateRangeUtil.getDateRange(
+      30,
+      await this.tenantTimezone.getTimezone(user.tenantId),
+    );
 
     return this.exportService.streamCampaignsCSV(user.tenantId, {
       startDate,
       endDate,
       platform,
       status,
+      scope,
     });
   }
 
   @Get('export/metrics/pdf')
+  @RequirePermissions('export:pdf')
+  @RequireEntitlements('EXPORT_PDF')
   async exportMetricsPDF(
     @CurrentUser() user: any,
+    @CurrentCampaignScope() scope: CampaignScope,
     @Query('period') period: '7d' | '30d' = '7d',
     @Res() res?: Response,
   ) {
-    const pdf = await this.exportService.exportMetricsToPDF(user.tenantId, period);
+    const pdf = await this.exportService.exportMetricsToPDF(user.tenantId, period, scope);
+    const today = DateRangeUtil.toDayKey(new Date(), await this.tenantTimezone.getTimezone(user.tenantId));
 
     res.setHeader('Content-Type', 'application/pdf');
     res.setHeader(
       'Content-Disposition',
-      `attachment; filename=metrics-${period}-${new Date().toISOString().split('T')[0]}.pdf`,
+      `attachment; filename=metrics-${period}-${today}.pdf`,
     );
     res.send(pdf);
   }
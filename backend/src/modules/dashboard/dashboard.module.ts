@@ -12,14 +12,15 @@ import { EcommerceController } from './ecommerce.controller';
 import { CrmController } from './crm.controller';
 import { EcommerceService } from './ecommerce.service';
 import { CrmService } from './crm.service';
-import { EcommerceRollupService } from './ecommerce-rollup.service';
 import { InsightsController } from './insights.controller';
 import { InsightsService } from './insights.service';
 import { TrendAnalysisController } from './trend-analysis.controller';
 import { TrendAnalysisService } from './trend-analysis.service';
+import { MarketplaceModule } from '../integrations/marketplace/marketplace.module';
+import { CurrencyModule } from '../currency/currency.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, MarketplaceModule, CurrencyModule],
   controllers: [
     DashboardController,
     ExportController,
@@ -37,7 +38,6 @@ import { TrendAnalysisService } from './trend-analysis.service';
     IntegrationErrorHandler,
     EcommerceService,
     CrmService,
-    EcommerceRollupService,
     InsightsService,
     TrendAnalysisService
   ],
@@ -1,46 +1,31 @@
 import { Injectable, ForbiddenException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { DateRangeUtil } from '../../common/utils/date-range.util';
-import { CampaignStatus, AdPlatform, Prisma, UserRole } from '@prisma/client';
+import { CampaignScope, campaignRelationScope, scopeCampaignWhere } from '../../common/utils/campaign-scope.util';
+import { CampaignStatus, AdPlatform, UserRole } from '@prisma/client';
 import {
   PeriodEnum,
   DashboardOverviewResponseDto,
   GetDashboardOverviewDto,
 } from './dto/dashboard-overview.dto';
-
-// ============================================================
-// Helper: Safe Decimal to Number conversion with null coalescing
-// ============================================================
-
-/**
- * Safely converts Prisma Decimal | null | number to native JS number.
- * Handles null/undefined by returning defaultValue (default: 0).
- */
-function toNumber(value: Prisma.Decimal | number | string | null | undefined, defaultValue = 0): number {
-  if (value === null || value === undefined) {
-    return defaultValue;
-  }
-  if (typeof value === 'string') {
-    const n = Number(value);
-    return Number.isFinite(n) ? n : defaultValue;
-  }
-  // Prisma.Decimal has toNumber() method, native number does not
-  if (typeof value === 'object' && 'toNumber' in value) {
-    return value.toNumber();
-  }
-  return Number(value);
-}
+import { ReportingCurrencyService } from '../currency/reporting-currency.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { TimezoneUtil } from '../../common/utils/timezone.util';
 
 /**
  * DashboardService - Clean version following Seed Pattern
  * 
  * This service ONLY reads from database.
  * Mock data is seeded by MockDataSeederService during sync, NOT generated on-the-fly.
+ * Spend / revenue are converted into the tenant currency (meta.currency) before summing.
+ * Periods ("today", "7d", "this_month") follow the tenant's timezone.
  */
 @Injectable()
 export class DashboardService {
   constructor(
     private prisma: PrismaService,
+    private reportingCurrency: ReportingCurrencyService,
+    private tenantTimezone: TenantTimezoneService,
   ) { }
 
   private async getConnectedAdPlatforms(tenantId: string): Promise<AdPlatform[]> {
@@ -68,69 +53,56 @@ export class DashboardService {
     return connectedPlatforms;
   }
 
-  async getSummary(tenantId: string, days: number = 30) {
+  async getSummary(tenantId: string, days: number = 30, scope?: CampaignScope) {
     const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
-    const { startDate: currentStartDate, endDate: today } = DateRangeUtil.getDateRange(days);
+    const timezone = await this.tenantTimezone.getTimezone(tenantId);
+    const { startDate: currentStartDate, endDate: today } = DateRangeUtil.getDateRange(days, timezone);
     const { startDate: previousStartDate } = DateRangeUtil.getPreviousPeriodDateRange(currentStartDate, days);
 
     // Get campaigns
     const totalCampaigns = await this.prisma.campaign.count({
-      where: { tenantId },
+      where: scopeCampaignWhere({ tenantId }, scope),
     });
     const activeCampaigns = await this.prisma.campaign.count({
-      where: {
+      where: scopeCampaignWhere({
         tenantId,
         status: CampaignStatus.ACTIVE
-      },
+      }, scope),
     });
 
     // Get previous period for comparison
     const previousTotalCampaigns = await this.prisma.campaign.count({
-      where: {
+      where: scopeCampaignWhere({
         tenantId,
         createdAt: {
-          lte: currentStartDate,
+          lte: TimezoneUtil.fromWallClock(currentStartDate, timezone),
         },
-      },
+      }, scope),
     });
 
     // Get metrics for current period (from DB - seeded or real)
-    const currentMetrics = await this.prisma.metric.aggregate({
-      where: {
-        campaign: { tenantId },
-        date: {
-          gte: currentStartDate,
-          lte: today,
-        },
-        ...(hideMockData ? { isMockData: false } : {}),
-        // Include all data (real + mock) - will show 0 if no data exists
-      },
-      _sum: {
-        impressions: true,
-        clicks: true,
-        spend: true,
-        conversions: true,
-      },
+    const currentReport = await this.reportingCurrency.sumMetrics(tenantId, {
+      campaign: scopeCampaignWhere({ tenantId }, scope),
+      date: {
+        gte: currentStartDate,
+        lte: today,
+      },
+      ...(hideMockData ? { isMockData: false } : {}),
+      // Include all data (real + mock) - will show 0 if no data exists
     });
 
     // Get metrics for previous period (for trend calculation)
-    const previousMetrics = await this.prisma.metric.aggregate({
-      where: {
-        campaign: { tenantId },
-        date: {
-          gte: previousStartDate,
-          lt: currentStartDate,
-        },
-        ...(hideMockData ? { isMockData: false } : {}),
-        // Include all data (real + mock)
-      },
-      _sum: {
-        impressions: true,
-        clicks: true,
-        spend: true,
-        conversions: true,
-      },
+    const previousReport = await this.reportingCurrency.sumMetrics(tenantId, {
+      campaign: scopeCampaignWhere({ tenantId }, scope),
+      date: {
+        gte: previousStartDate,
+        lt: currentStartDate,
+      },
+      ...(hideMockData ? { isMockData: false } : {}),
+      // Include all data (real + mock)
     });
+    const currentMetrics = currentReport.total;
+    const previousMetrics = previousReport.total;
 
     // Calculate trends
     const calculateTrend = (current: number, previous: number) => {
@@ -141,7 +113,7 @@ export class DashboardService {
     // Check if any of the metrics are mock data
     const hasMockData = await this.prisma.metric.findFirst({
       where: {
-        campaign: { tenantId },
+        campaign: scopeCampaignWhere({ tenantId }, scope),
         date: {
           gte: currentStartDate,
           lte: today,
@@ -151,28 +123,23 @@ export class DashboardService {
     });
 
     return {
-      totalCampaigns,
-      activeCampaigns,
-      totalSpend: toNumber(currentMetrics._sum.spend),
-      totalImpressions: currentMetrics._sum.impressions ?? 0,
-      totalClicks: currentMetrics._sum.clicks ?? 0,
-      totalConversions: currentMetrics._sum.conversions ?? 0,
-      isMockData: !hideMockData && !!hasMockData,
-      trends: {
-        campaigns: calculateTrend(totalCampaigns, previousTotalCampaigns),
-        spend: calculateTrend(
-          toNumber(currentMetrics._sum.spend),
-          toNumber(previousMetrics._sum.spend),
-        ),
-        impressions: calculateTrend(
-          currentMetrics._sum.impressions ?? 0,
-          previousMetrics._sum.impressions ?? 0,
-        ),
-        clicks: calculateTrend(
-          currentMetrics._sum.clicks ?? 0,
-          previousMetrics._sum.clicks ?? 0,
-        ),
+      success: true,
+      data: {
+        totalCampaigns,
+        activeCampaigns,
+        totalSpend: currentMetrics.spend,
+        totalImpressions: currentMetrics.impressions,
+        totalClicks: currentMetrics.clicks,
+        totalConversions: currentMetrics.conversions,
+        isMockData: !hideMockData && !!hasMockData,
+        trends: {
+          campaigns: calculateTrend(totalCampaigns, previousTotalCampaigns),
+          spend: calculateTrend(currentMetrics.spend, previousMetrics.spend),
+          impressions: calculateTrend(currentMetrics.impressions, previousMetrics.impressions),
+          clicks: calculateTrend(currentMetrics.clicks, previousMetrics.clicks),
+        },
       },
+      meta: this.reportingCurrency.toMeta(currentReport, previousReport),
     };
   }
 
@@ -180,9 +147,10 @@ export class DashboardService {
    * Get summary metrics filtered by platform
    * @param platform - 'ALL' | 'GOOGLE_ADS' | 'FACEBOOK' | 'TIKTOK' | 'LINE_ADS'
    */
-  async getSummaryByPlatform(tenantId: string, days: number = 30, platform: string = 'ALL') {
+  async getSummaryByPlatform(tenantId: string, days: number = 30, platform: string = 'ALL', scope?: CampaignScope) {
     const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
-    const { startDate: currentStartDate, endDate: today } = DateRangeUtil.getDateRange(days);
+    const timezone = await this.tenantTimezone.getTimezone(tenantId);
+    const { startDate: currentStartDate, endDate: today } = DateRangeUtil.getDateRange(days, timezone);
     const { startDate: previousStartDate } = DateRangeUtil.getPreviousPeriodDateRange(currentStartDate, days);
 
     // Normalize platform input to match Enum
@@ -201,13 +169,14 @@ export class DashboardService {
     let activeCampaigns = 0;
 
     if (platform === 'ALL') {
-      totalCampaigns = await this.prisma.campaign.count({ where: { tenantId } });
-      activeCampaigns = await this.prisma.campaign.count({ where: { tenantId, status: CampaignStatus.ACTIVE } });
+      totalCampaigns = await this.prisma.campaign.count({ where: scopeCampaignWhere({ tenantId }, scope) });
+      activeCampaigns = await this.prisma.campaign.count({ where: scopeCampaignWhere({ tenantId, status: CampaignStatus.ACTIVE }, scope) });
     } else if (platformEnum === ('INSTAGRAM' as any as AdPlatform)) {
       const campaignIds = await this.prisma.metric.groupBy({
         by: ['campaignId'],
         where: {
           tenantId,
+          ...campaignRelationScope(scope),
           platform: 'INSTAGRAM' as any,
           date: { gte: currentStartDate, lte: today },
         },
@@ -216,44 +185,42 @@ export class DashboardService {
       totalCampaigns = ids.length;
       activeCampaigns = ids.length
         ? await this.prisma.campaign.count({
-          where: { tenantId, status: CampaignStatus.ACTIVE, id: { in: ids } },
+          where: scopeCampaignWhere({ tenantId, status: CampaignStatus.ACTIVE, id: { in: ids } }, scope),
         })
         : 0;
     } else {
       totalCampaigns = await this.prisma.campaign.count({
-        where: { tenantId, platform: platformEnum },
+        where: scopeCampaignWhere({ tenantId, platform: platformEnum }, scope),
       });
       activeCampaigns = await this.prisma.campaign.count({
-        where: { tenantId, status: CampaignStatus.ACTIVE, platform: platformEnum },
+        where: scopeCampaignWhere({ tenantId, status: CampaignStatus.ACTIVE, platform: platformEnum }, scope),
       });
     }
 
     const connectedPlatforms = await this.getConnectedAdPlatforms(tenantId);
     const platformWhere = connectedPlatforms.length > 0 ? { platform: { in: connectedPlatforms } } : {};
 
-    const currentMetrics = await this.prisma.metric.aggregate({
-      where: {
-        tenantId,
-        date: { gte: currentStartDate, lte: today },
-        ...(platform !== 'ALL' ? { platform: platformEnum } : {}),
-        ...(hideMockData ? { isMockData: false } : {}),
-        ...platformWhere,
-        // Include all data (real + mock)
-      },
-      _sum: { impressions: true, clicks: true, spend: true, conversions: true },
+    const currentReport = await this.reportingCurrency.sumMetrics(tenantId, {
+      tenantId,
+      ...campaignRelationScope(scope),
+      date: { gte: currentStartDate, lte: today },
+      ...(platform !== 'ALL' ? { platform: platformEnum } : {}),
+      ...(hideMockData ? { isMockData: false } : {}),
+      ...platformWhere,
+      // Include all data (real + mock)
     });
 
     // Get metrics for previous period
-    const previousMetrics = await this.prisma.metric.aggregate({
-      where: {
-        tenantId,
-        date: { gte: previousStartDate, lt: currentStartDate },
-        ...(platform !== 'ALL' ? { platform: platformEnum } : {}),
-        ...(hideMockData ? { isMockData: false } : {}),
-        // Include all data (real + mock)
-      },
-      _sum: { impressions: true, clicks: true, spend: true, conversions: true },
+    const previousReport = await this.reportingCurrency.sumMetrics(tenantId, {
+      tenantId,
+      ...campaignRelationScope(scope),
+      date: { gte: previousStartDate, lt: currentStartDate },
+      ...(platform !== 'ALL' ? { platform: platformEnum } : {}),
+      ...(hideMockData ? { isMockData: false } : {}),
+      // Include all data (real + mock)
     });
+    const currentMetrics = currentReport.total;
+    const previousMetrics = previousReport.total;
 
     const calculateTrend = (current: number, previous: number) => {
       if (previous === 0) return 0;
@@ -264,6 +231,7 @@ export class DashboardService {
     const hasMockData = await this.prisma.metric.findFirst({
       where: {
         tenantId,
+        ...campaignRelationScope(scope),
         date: { gte: currentStartDate, lte: today },
         ...(platform !== 'ALL' ? { platform: platformEnum } : {}),
         isMockData: true,
@@ -271,127 +239,102 @@ export class DashboardService {
     });
 
     return {
-      platform,
-      totalCampaigns,
-      activeCampaigns,
-      totalSpend: toNumber(currentMetrics._sum.spend),
-      totalImpressions: currentMetrics._sum.impressions ?? 0,
-      totalClicks: currentMetrics._sum.clicks ?? 0,
-      totalConversions: currentMetrics._sum.conversions ?? 0,
-      isMockData: !hideMockData && !!hasMockData,
-      trends: {
-        spend: calculateTrend(
-          toNumber(currentMetrics._sum.spend),
-          toNumber(previousMetrics._sum.spend),
-        ),
-        impressions: calculateTrend(
-          currentMetrics._sum.impressions ?? 0,
-          previousMetrics._sum.impressions ?? 0,
-        ),
-        clicks: calculateTrend(
-          currentMetrics._sum.clicks ?? 0,
-          previousMetrics._sum.clicks ?? 0,
-        ),
+      success: true,
+      data: {
+        platform,
+        totalCampaigns,
+        activeCampaigns,
+        totalSpend: currentMetrics.spend,
+        totalImpressions: currentMetrics.impressions,
+        totalClicks: currentMetrics.clicks,
+        totalConversions: currentMetrics.conversions,
+        isMockData: !hideMockData && !!hasMockData,
+        trends: {
+          spend: calculateTrend(currentMetrics.spend, previousMetrics.spend),
+          impressions: calculateTrend(currentMetrics.impressions, previousMetrics.impressions),
+          clicks: calculateTrend(currentMetrics.clicks, previousMetrics.clicks),
+        },
       },
+      meta: this.reportingCurrency.toMeta(currentReport, previousReport),
     };
   }
 
-  async getTopCampaigns(tenantId: string, limit = 5, days = 30) {
+  async getTopCampaigns(tenantId: string, limit = 5, days = 30, scope?: CampaignScope) {
     const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
-    const { startDate } = DateRangeUtil.getDateRange(days);
-
-    // 1. Aggregate metrics by campaignId using Database GroupBy
-    const aggregatedMetrics = await this.prisma.metric.groupBy({
-      by: ['campaignId'],
-      where: {
-        campaign: { tenantId },
-        date: { gte: startDate },
-        ...(hideMockData ? { isMockData: false } : {}),
-        // Include all data (real + mock)
-      },
-      _sum: {
-        impressions: true,
-        clicks: true,
-        spend: true,
-        conversions: true,
-        revenue: true,
-      },
-      orderBy: {
-        _sum: {
-          spend: 'desc',
-        },
-      },
-      take: limit,
-    });
+    const { startDate } = DateRangeUtil.getDateRange(days, await this.tenantTimezone.getTimezone(tenantId));
+
+    // 1. Aggregate metrics by campaignId in the reporting currency, then rank by converted spend
+    const report = await this.reportingCurrency.sumMetrics(tenantId, {
+      campaign: scopeCampaignWhere({ tenantId }, scope),
+      date: { gte: startDate },
+      ...(hideMockData ? { isMockData: false } : {}),
+      // Include all data (real + mock)
+    }, ['campaignId']);
+    const aggregatedMetrics = report.rows
+      .sort((a, b) => b.spend - a.spend)
+      .slice(0, limit);
 
     // 2. Fetch Campaign Details for the top campaigns
-    const campaignIds = aggregatedMetrics.map(m => m.campaignId);
+    const campaignIds = aggregatedMetrics.map(m => m.campaignId!);
     const campaigns = await this.prisma.campaign.findMany({
-      where: { id: { in: campaignIds }, tenantId },
+      where: scopeCampaignWhere({ id: { in: campaignIds }, tenantId }, scope),
       select: { id: true, name: true, platform: true, status: true },
     });
 
     const campaignMap = new Map(campaigns.map(c => [c.id, c]));
 
-    // 3. Combine Data
-    return aggregatedMetrics.map(m => {
-      const campaign = campaignMap.get(m.campaignId);
-      const totals = m._sum;
-      const spend = toNumber(totals.spend);
-      const revenue = toNumber(totals.revenue);
-      const impressions = totals.impressions ?? 0;
-      const clicks = totals.clicks ?? 0;
+    // 3. Combine Data (campaign currency and unconverted spend stay visible for drill-down)
+    const data = aggregatedMetrics.map(m => {
+      const campaign = campaignMap.get(m.campaignId!);
+      const { spend, revenue, impressions, clicks } = m;
 
       return {
         id: m.campaignId,
         name: campaign?.name || 'Unknown',
         platform: campaign?.platform || 'UNKNOWN',
         status: campaign?.status || 'UNKNOWN',
+        originalCurrency: m.originalCurrency,
         metrics: {
           impressions,
           clicks,
           spend,
-          conversions: totals.conversions ?? 0,
+          conversions: m.conversions,
           revenue,
           roas: spend > 0 ? revenue / spend : 0,
           ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
+          originalSpend: m.originalSpend,
+          originalRevenue: m.originalRevenue,
         },
       };
     });
+
+    return { success: true, data, meta: this.reportingCurrency.toMeta(report) };
   }
 
-  async getTrends(tenantId: string, days = 30) {
+  async getTrends(tenantId: string, days = 30, scope?: CampaignScope) {
     const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
-    const { startDate, endDate: today } = DateRangeUtil.getDateRange(days);
-
-    const metrics = await this.prisma.metric.groupBy({
-      by: ['date'],
-      where: {
-        campaign: { tenantId },
-        date: {
-          gte: startDate,
-          lte: today,
-        },
-        ...(hideMockData ? { isMockData: false } : {}),
-      },
-      _sum: {
-        impressions: true,
-        clicks: true,
-        spend: true,
-        conversions: true,
-      },
-      orderBy: {
-        date: 'asc',
-      },
-    });
+    const { startDate, endDate: today } = DateRangeUtil.getDateRange(days, await this.tenantTimezone.getTimezone(tenantId));
+
+    const report = await this.reportingCurrency.sumMetrics(tenantId, {
+      campaign: scopeCampaignWhere({ tenantId }, scope),
+      date: {
+        gte: startDate,
+        lte: today,
+      },
+      ...(hideMockData ? { isMockData: false } : {}),
+    }, ['date']);
+
+    const data = report.rows
+      .sort((a, b) => a.date!.getTime() - b.date!.getTime())
+      .map((m) => ({
+        date: m.date,
+        impressions: m.impressions,
+        clicks: m.clicks,
+        spend: m.spend,
+        conversions: m.conversions,
+      }));
 
-    return metrics.map((m) => ({
-      date: m.date,
-      impressions: m._sum.impressions ?? 0,
-      clicks: m._sum.clicks ?? 0,
-      spend: toNumber(m._sum.spend),
-      conversions: m._sum.conversions ?? 0,
-    }));
+    return { success: true, data, meta: this.reportingCurrency.toMeta(report) };
   }
   async getOnboardingStatus(tenantId: string) {
     // 1. Check Google Ads Connection
@@ -435,27 +378,19 @@ export class DashboardService {
     };
   }
 
-  async getPerformanceByPlatform(tenantId: string, days = 30) {
+  async getPerformanceByPlatform(tenantId: string, days = 30, scope?: CampaignScope) {
     const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
-    const { startDate, endDate: today } = DateRangeUtil.getDateRange(days);
+    const { startDate, endDate: today } = DateRangeUtil.getDateRange(days, await this.tenantTimezone.getTimezone(tenantId));
 
-    const platformMetrics = await this.prisma.metric.groupBy({
-      by: ['platform'],
-      where: {
-        tenantId,
-        date: {
-          gte: startDate,
-          lte: today,
-        },
-        ...(hideMockData ? { isMockData: false } : {}),
-      },
-      _sum: {
-        spend: true,
-        impressions: true,
-        clicks: true,
-        conversions: true,
+    const report = await this.reportingCurrency.sumMetrics(tenantId, {
+      tenantId,
+      ...campaignRelationScope(scope),
+      date: {
+        gte: startDate,
+        lte: today,
       },
-    });
+      ...(hideMockData ? { isMockData: false } : {}),
+    }, ['platform']);
 
     const platformData: Record<string, { spend: number; impressions: number; clicks: number; conversions: number }> = {
       GOOGLE_ADS: { spend: 0, impressions: 0, clicks: 0, conversions: 0 },
@@ -465,13 +400,13 @@ export class DashboardService {
       LINE_ADS: { spend: 0, impressions: 0, clicks: 0, conversions: 0 },
     };
 
-    for (const m of platformMetrics) {
+    for (const m of report.rows) {
       const key = String(m.platform);
       if (platformData[key]) {
-        platformData[key].spend += toNumber(m._sum.spend);
-        platformData[key].impressions += m._sum.impressions ?? 0;
-        platformData[key].clicks += m._sum.clicks ?? 0;
-        platformData[key].conversions += m._sum.conversions ?? 0;
+        platformData[key].spend += m.spend;
+        platformData[key].impressions += m.impressions;
+        platformData[key].clicks += m.clicks;
+        platformData[key].conversions += m.conversions;
       }
     }
 
@@ -495,7 +430,7 @@ export class DashboardService {
     });
 
     // 3. Format Response
-    return [
+    const data = [
       {
         platform: 'GOOGLE_ADS',
         spend: platformData.GOOGLE_ADS.spend,
@@ -539,6 +474,8 @@ export class DashboardService {
         conversions: 0, // Could map key events if available
       },
     ];
+
+    return { success: true, data, meta: this.reportingCurrency.toMeta(report) };
   }
 
   // ============================================================
@@ -552,6 +489,7 @@ export class DashboardService {
   async getOverview(
     user: { tenantId: string; role: UserRole },
     query: GetDashboardOverviewDto,
+    scope?: CampaignScope,
   ): Promise<DashboardOverviewResponseDto> {
     const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
     // Security: Force tenantId from JWT unless SUPER_ADMIN
@@ -562,6 +500,7 @@ export class DashboardService {
       }
       tenantId = query.tenantId;
     }
+    const timezone = await this.tenantTimezone.getTimezone(tenantId);
 
     let startDate: Date;
     let endDate: Date;
@@ -583,7 +522,7 @@ export class DashboardService {
     } else {
       // Use period-based date range (existing logic)
       period = query.period || PeriodEnum.SEVEN_DAYS;
-      const dateRange = DateRangeUtil.getDateRangeByPeriod(period);
+      const dateRange = DateRangeUtil.getDateRangeByPeriod(period, timezone);
       startDate = dateRange.startDate;
       endDate = dateRange.endDate;
     }
@@ -598,108 +537,66 @@ export class DashboardService {
       endDate: new Date(startDate.getTime() - 1),
     };
 
-    // 1. Get current period metrics
-    const currentMetrics = await this.prisma.metric.aggregate({
-      where: {
-        tenantId,
-        date: { gte: startDate, lte: endDate },
-        ...(platformWhere ?? {}),
-        ...(hideMockData ? { isMockData: false } : {}),
-        // Include all data (real + mock)
-      },
-      _sum: {
-        impressions: true,
-        clicks: true,
-        spend: true,
-        conversions: true,
-        revenue: true,
-      },
-    });
+    // 1. Get current period metrics and daily trends (money in the tenant currency)
+    const currentReport = await this.reportingCurrency.sumMetrics(tenantId, {
+      tenantId,
+      ...campaignRelationScope(scope),
+      date: { gte: startDate, lte: endDate },
+      ...(platformWhere ?? {}),
+      ...(hideMockData ? { isMockData: false } : {}),
+      // Include all data (real + mock)
+    }, ['date']);
+    const currentMetrics = currentReport.total;
+    const dailyMetrics = currentReport.rows.sort((a, b) => a.date!.getTime() - b.date!.getTime());
 
     // 2. Get previous period metrics for growth
-    const previousMetrics = await this.prisma.metric.aggregate({
-      where: {
-        tenantId,
-        date: { gte: previousPeriod.startDate, lte: previousPeriod.endDate },
-        ...(platformWhere ?? {}),
-        ...(hideMockData ? { isMockData: false } : {}),
-        // Include all data (real + mock)
-      },
-      _sum: {
-        impressions: true,
-        clicks: true,
-        spend: true,
-        conversions: true,
-        revenue: true,
-      },
-    });
-
-    // 3. Get daily trends
-    const dailyMetrics = await this.prisma.metric.groupBy({
-      by: ['date'],
-      where: {
-        tenantId,
-        date: { gte: startDate, lte: endDate },
-        ...(platformWhere ?? {}),
-        ...(hideMockData ? { isMockData: false } : {}),
-        // Include all data (real + mock)
-      },
-      _sum: {
-        impressions: true,
-        clicks: true,
-        spend: true,
-        conversions: true,
-      },
-      orderBy: { date: 'asc' },
+    const previousReport = await this.reportingCurrency.sumMetrics(tenantId, {
+      tenantId,
+      ...campaignRelationScope(scope),
+      date: { gte: previousPeriod.startDate, lte: previousPeriod.endDate },
+      ...(platformWhere ?? {}),
+      ...(hideMockData ? { isMockData: false } : {}),
+      // Include all data (real + mock)
     });
+    const previousMetrics = previousReport.total;
 
     // 4. Get recent campaigns with spending
     // 4. Get recent campaigns with spending (REFACTORED for performance & reliability)
     // Instead of fetching ALL campaigns and filtering relation, use metric aggregation
 
-    // Step A: Find top 5 campaigns by spend in this period
-    const topCampaignMetrics = await this.prisma.metric.groupBy({
-      by: ['campaignId'],
-      where: {
-        campaign: { tenantId },
-        date: { gte: startDate, lte: endDate },
-        ...(platformWhere ?? {}),
-        ...(hideMockData ? { isMockData: false } : {}),
-      },
-      _sum: {
-        spend: true,
-        impressions: true,
-        clicks: true,
-        conversions: true,
-      },
-      orderBy: {
-        _sum: { spend: 'desc' }
-      },
-      take: 5
-    });
+    // Step A: Find top 5 campaigns by converted spend in this period
+    const campaignReport = await this.reportingCurrency.sumMetrics(tenantId, {
+      campaign: scopeCampaignWhere({ tenantId }, scope),
+      date: { gte: startDate, lte: endDate },
+      ...(platformWhere ?? {}),
+      ...(hideMockData ? { isMockData: false } : {}),
+    }, ['campaignId']);
+    const topCampaignMetrics = campaignReport.rows
+      .sort((a, b) => b.spend - a.spend)
+      .slice(0, 5);
 
     // Step B: Fetch campaign details for these IDs
-    const campaignIds = topCampaignMetrics.map(m => m.campaignId);
+    const campaignIds = topCampaignMetrics.map(m => m.campaignId!);
 
     // If no metrics found, fetch latest created campaigns as fallback
     let campaignDetails: Array<{ id: string; name: string; status: any; platform: any; budget: any }> = [];
 
     if (campaignIds.length > 0) {
       campaignDetails = await this.prisma.campaign.findMany({
-        where: {
+        where: scopeCampaignWhere({
           id: { in: campaignIds },
           tenantId,
           platform: { in: connectedPlatforms },
-        },
+        }, scope),
         select: { id: true, name: true, status: true, platform: true, budget: true }
       });
     } else {
       // Fallback: 5 most recently updated campaigns
       campaignDetails = await this.prisma.campaign.findMany({
-        where: {
+        where: scopeCampaignWhere({
           tenantId,
           platform: { in: connectedPlatforms },
-        },
+        }, scope),
         orderBy: { updatedAt: 'desc' },
         take: 5,
         select: { id: true, name: true, status: true, platform: true, budget: true }
@@ -712,10 +609,11 @@ export class DashboardService {
     // If we have metric data, use it. If fallback, metrics are 0.
     const recentCampaigns = campaignIds.length > 0
       ? topCampaignMetrics.map(m => {
-        const c = campaignMap.get(m.campaignId);
+        const c = campaignMap.get(m.campaignId!);
         if (!c) return null; // Should not happen if referential integrity holds
 
-        const spending = toNumber(m._sum.spend);
+        // Budget is in the campaign currency, so utilisation uses the unconverted spend
+        const originalSpending = m.originalSpend ?? m.spend;
         const budget = Number(c.budget) || 0;
 
         return {
@@ -723,11 +621,13 @@ export class DashboardService {
           name: c.name,
           status: c.status,
           platform: c.platform,
-          spending,
-          impressions: m._sum.impressions || 0,
-          clicks: m._sum.clicks || 0,
-          conversions: toNumber(m._sum.conversions),
-          budgetUtilization: budget > 0 ? (spending / budget) * 100 : 0,
+          spending: m.spend,
+          impressions: m.impressions,
+          clicks: m.clicks,
+          conversions: m.conversions,
+          budgetUtilization: budget > 0 ? (originalSpending / budget) * 100 : 0,
+          originalCurrency: m.originalCurrency,
+          originalSpending,
         };
       }).filter(Boolean)
       : campaignDetails.map(c => ({
@@ -743,11 +643,11 @@ export class DashboardService {
       }));
 
     // 5. Calculate Summary Metrics
-    const totalCost = toNumber(currentMetrics._sum.spend);
-    const totalImpressions = currentMetrics._sum.impressions ?? 0;
-    const totalClicks = currentMetrics._sum.clicks ?? 0;
-    const totalConversions = currentMetrics._sum.conversions ?? 0;
-    const totalRevenue = toNumber(currentMetrics._sum.revenue);
+    const totalCost = currentMetrics.spend;
+    const totalImpressions = currentMetrics.impressions;
+    const totalClicks = currentMetrics.clicks;
+    const totalConversions = currentMetrics.conversions;
+    const totalRevenue = currentMetrics.revenue;
 
     const summary = {
       totalCost,
@@ -766,11 +666,11 @@ export class DashboardService {
       return ((current - previous) / previous) * 100;
     };
 
-    const previousCost = toNumber(previousMetrics._sum.spend);
-    const previousImpressions = previousMetrics._sum.impressions ?? 0;
-    const previousClicks = previousMetrics._sum.clicks ?? 0;
-    const previousConversions = previousMetrics._sum.conversions ?? 0;
-    const previousRevenue = toNumber(previousMetrics._sum.revenue);
+    const previousCost = previousMetrics.spend;
+    const previousImpressions = previousMetrics.impressions;
+    const previousClicks = previousMetrics.clicks;
+    const previousConversions = previousMetrics.conversions;
+    const previousRevenue = previousMetrics.revenue;
 
     const prevRoas = previousCost > 0 ? previousRevenue / previousCost : 0;
     const prevCpm = previousImpressions > 0 ? (previousCost / previousImpressions) * 1000 : 0;
@@ -790,11 +690,11 @@ export class DashboardService {
 
     // 7. Format Trends (Daily)
     const trends = dailyMetrics.map(m => ({
-      date: m.date.toISOString().split('T')[0],
-      cost: toNumber(m._sum.spend),
-      impressions: m._sum.impressions ?? 0,
-      clicks: m._sum.clicks ?? 0,
-      conversions: m._sum.conversions ?? 0,
+      date: m.date!.toISOString().split('T')[0],
+      cost: m.spend,
+      impressions: m.impressions,
+      clicks: m.clicks,
+      conversions: m.conversions,
     }));
 
     return {
@@ -812,7 +712,9 @@ export class DashboardService {
           to: endDate.toISOString().split('T')[0],
         },
         tenantId,
+        timezone,
         generatedAt: new Date().toISOString(),
+        ...this.reportingCurrency.toMeta(currentReport, previousReport, campaignReport),
       },
     };
   }
@@ -1,5 +1,6 @@
 import { IsEnum, IsOptional, IsUUID } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { AdPlatform, LeadStage } from '@prisma/client';
 
 export enum CrmPeriod {
   D7 = '7d',
@@ -20,6 +21,30 @@ export class GetCrmSummaryDto {
   tenantId?: string;
 }
 
+export class CrmFunnelStageDto {
+  stage: LeadStage;
+  /** Leads from the period's cohort that reached this stage or beyond */
+  count: number;
+  /** % of the cohort */
+  rate: number;
+  /** % of the previous stage */
+  stepRate: number;
+}
+
+export class CrmCampaignBreakdownDto {
+  campaignId: string | null;
+  campaignName: string;
+  platform: AdPlatform | null;
+  leads: number;
+  qualifiedLeads: number;
+  wonDeals: number;
+  wonValue: number;
+  spend: number;
+  conversionRate: number;
+  costPerLead: number;
+  costPerQualifiedLead: number;
+}
+
 export class CrmSummaryResponseDto {
   totalLeads: number;
   leadsTrend: number;
@@ -29,6 +54,12 @@ export class CrmSummaryResponseDto {
   conversionTrend: number;
   costPerLead: number;
   cplTrend: number;
+  costPerQualifiedLead: number;
+  cpqlTrend: number;
   pipelineValue: number;
   pipelineTrend: number;
+  wonDeals: number;
+  wonValue: number;
+  funnel: CrmFunnelStageDto[];
+  campaigns: CrmCampaignBreakdownDto[];
 }
@@ -168,6 +168,12 @@ export class RecentCampaignDto {
 
     @ApiProperty({ example: 57.0, required: false })
     budgetUtilization?: number;
+
+    @ApiProperty({ example: 'USD', required: false, description: 'Campaign currency before conversion' })
+    originalCurrency?: string;
+
+    @ApiProperty({ example: 812.5, required: false, description: 'Spend in the campaign currency' })
+    originalSpending?: number;
 }
 
 /**
@@ -188,8 +194,21 @@ export class ResponseMetaDto {
     @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
     tenantId: string;
 
+    @ApiProperty({ example: 'Asia/Bangkok', description: 'Tenant timezone the date range is bucketed in' })
+    timezone: string;
+
     @ApiProperty({ example: '2026-01-15T11:06:26+07:00' })
     generatedAt: string;
+
+    @ApiProperty({ example: 'THB', description: 'Tenant reporting currency of every money figure' })
+    currency: string;
+
+    @ApiProperty({
+        example: ['EUR->THB'],
+        required: false,
+        description: 'Currency pairs without an FX rate; those amounts were summed unconverted',
+    })
+    missingRates?: string[];
 }
 
 /**
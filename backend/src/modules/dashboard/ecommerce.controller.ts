@@ -5,9 +5,11 @@ import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { EcommerceService } from './ecommerce.service';
-import { EcommerceRollupService } from './ecommerce-rollup.service';
+import { MarketplaceSalesService } from '../integrations/marketplace/marketplace-sales.service';
 import { GetEcommerceSummaryDto, EcommerceSummaryResponseDto } from './dto/ecommerce-summary.dto';
 import { UserRole } from '@prisma/client';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
 
 @ApiTags('Ecommerce')
 @ApiBearerAuth()
@@ -16,23 +18,21 @@ import { UserRole } from '@prisma/client';
 export class EcommerceController {
   constructor(
     private readonly ecommerceService: EcommerceService,
-    private readonly ecommerceRollupService: EcommerceRollupService,
+    private readonly marketplaceSalesService: MarketplaceSalesService,
   ) {}
 
   @Post('backfill')
   @Roles(UserRole.SUPER_ADMIN)
-  @ApiOperation({ summary: 'Backfill ecommerce data (SUPER_ADMIN only)' })
+  @ApiOperation({ summary: 'Re-import Shopee/Lazada sales for the last N days (SUPER_ADMIN only)' })
   async backfill(
     @Query('tenantId') tenantId?: string,
     @Query('days') days?: number,
   ) {
     const safeDays = days ? Number(days) : 30;
-    if (tenantId) {
-      await this.ecommerceRollupService.backfillLastNDaysForTenant(tenantId, safeDays);
-    } else {
-      await this.ecommerceRollupService.backfillLastNDaysForAllTenants(safeDays);
-    }
-    return { success: true, days: safeDays };
+    const accounts = tenantId
+      ? await this.marketplaceSalesService.backfillTenant(tenantId, safeDays)
+      : await this.marketplaceSalesService.backfillAllTenants(safeDays);
+    return { success: true, days: safeDays, accounts };
   }
 
   @Get('summary')
@@ -41,9 +41,10 @@ export class EcommerceController {
   async getSummary(
     @CurrentUser() user: any,
     @Query() query: GetEcommerceSummaryDto,
+    @CurrentCampaignScope() scope: CampaignScope,
   ) {
     const tenantId = query.tenantId && user.role === UserRole.SUPER_ADMIN ? query.tenantId : user.tenantId;
-    return this.ecommerceService.getSummary(tenantId, query);
+    return this.ecommerceService.getSummary(tenantId, query, scope);
   }
 
   @Get('trends')
@@ -52,8 +53,9 @@ export class EcommerceController {
     @CurrentUser() user: any,
     @Query('days') days?: number,
     @Query('tenantId') tenantIdQuery?: string,
+    @CurrentCampaignScope() scope?: CampaignScope,
   ) {
     const tenantId = tenantIdQuery && user.role === UserRole.SUPER_ADMIN ? tenantIdQuery : user.tenantId;
-    return this.ecommerceService.getSalesTrends(tenantId, days ? Number(days) : 30);
+    return this.ecommerceService.getSalesTrends(tenantId, days ? Number(days) : 30, scope);
   }
 }
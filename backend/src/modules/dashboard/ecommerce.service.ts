@@ -1,12 +1,17 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { DateRangeUtil } from '../../common/utils/date-range.util';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
 import { GetEcommerceSummaryDto, EcommerceSummaryResponseDto, EcommercePeriod } from './dto/ecommerce-summary.dto';
-import { Prisma } from '@prisma/client';
+import { AdPlatform, Prisma } from '@prisma/client';
+import { CampaignScope, campaignRelationScope, scopeCampaignWhere } from '../../common/utils/campaign-scope.util';
 
 @Injectable()
 export class EcommerceService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tenantTimezone: TenantTimezoneService,
+  ) {}
 
   private toNumber(value: Prisma.Decimal | number | string | null | undefined, defaultValue = 0): number {
     if (value === null || value === undefined) return defaultValue;
@@ -14,57 +19,41 @@ export class EcommerceService {
     return Number(value);
   }
 
-  async getSummary(tenantId: string, query: GetEcommerceSummaryDto): Promise<EcommerceSummaryResponseDto> {
+  async getSummary(
+    tenantId: string,
+    query: GetEcommerceSummaryDto,
+    scope?: CampaignScope,
+  ): Promise<EcommerceSummaryResponseDto> {
     const days = query.period === EcommercePeriod.D7 ? 7 : 30;
-    const { startDate, endDate } = DateRangeUtil.getDateRange(days);
+    const { startDate, endDate } = DateRangeUtil.getDateRange(days, await this.tenantTimezone.getTimezone(tenantId));
     const { startDate: prevStartDate, endDate: prevEndDate } = DateRangeUtil.getPreviousPeriodDateRange(startDate, days);
+    const salesWhere = await this.salesWhere(tenantId, scope);
 
-    const currentMetrics = await this.prisma.metric.aggregate({
-      where: {
-        tenantId,
-        date: { gte: startDate, lte: endDate },
-      },
-      _sum: {
-        revenue: true,
-        orders: true,
-        spend: true,
-      },
-      _avg: {
-        averageOrderValue: true,
-        conversionRate: true,
-        cartAbandonmentRate: true,
-      },
-    });
+    // Revenue and orders come from marketplace orders (Shopee/Lazada)
+    const [currentSales, prevSales] = await Promise.all([
+      this.aggregateSales(salesWhere, startDate, endDate),
+      this.aggregateSales(salesWhere, prevStartDate, prevEndDate),
+    ]);
 
-    const prevMetrics = await this.prisma.metric.aggregate({
-      where: {
-        tenantId,
-        date: { gte: prevStartDate, lte: prevEndDate },
-      },
-      _sum: {
-        revenue: true,
-        orders: true,
-      },
-      _avg: {
-        averageOrderValue: true,
-        conversionRate: true,
-        cartAbandonmentRate: true,
-      },
-    });
+    // Conversion and cart abandonment rates are only reported by ad/web platforms
+    const [currentMetrics, prevMetrics] = await Promise.all([
+      this.averageRates(tenantId, startDate, endDate, scope),
+      this.averageRates(tenantId, prevStartDate, prevEndDate, scope),
+    ]);
 
     const calculateTrend = (curr: number, prev: number) => {
       if (!prev) return 0;
       return Number(((curr - prev) / prev * 100).toFixed(1));
     };
 
-    const totalRevenue = this.toNumber(currentMetrics._sum.revenue);
-    const prevRevenue = this.toNumber(prevMetrics._sum.revenue);
-    
-    const totalOrders = currentMetrics._sum.orders || 0;
-    const prevOrders = prevMetrics._sum.orders || 0;
+    const totalRevenue = currentSales.revenue;
+    const prevRevenue = prevSales.revenue;
+
+    const totalOrders = currentSales.orders;
+    const prevOrders = prevSales.orders;
 
-    const aov = this.toNumber(currentMetrics._avg.averageOrderValue);
-    const prevAov = this.toNumber(prevMetrics._avg.averageOrderValue);
+    const aov = totalOrders > 0 ? Number((totalRevenue / totalOrders).toFixed(2)) : 0;
+    const prevAov = prevOrders > 0 ? prevRevenue / prevOrders : 0;
 
     const cr = this.toNumber(currentMetrics._avg.conversionRate);
     const prevCr = this.toNumber(prevMetrics._avg.conversionRate);
@@ -86,17 +75,17 @@ export class EcommerceService {
     };
   }
 
-  async getSalesTrends(tenantId: string, days = 30) {
-    const { startDate, endDate } = DateRangeUtil.getDateRange(days);
-    
-    const trends = await this.prisma.metric.groupBy({
+  async getSalesTrends(tenantId: string, days = 30, scope?: CampaignScope) {
+    const { startDate, endDate } = DateRangeUtil.getDateRange(days, await this.tenantTimezone.getTimezone(tenantId));
+
+    const trends = await this.prisma.marketplaceDailySales.groupBy({
       by: ['date'],
       where: {
-        tenantId,
+        ...(await this.salesWhere(tenantId, scope)),
         date: { gte: startDate, lte: endDate },
       },
       _sum: {
-        revenue: true,
+        gmv: true,
         orders: true,
       },
       orderBy: { date: 'asc' },
@@ -104,8 +93,66 @@ export class EcommerceService {
 
     return trends.map(t => ({
       date: t.date.toISOString().split('T')[0],
-      revenue: this.toNumber(t._sum.revenue),
+      revenue: this.toNumber(t._sum.gmv),
       orders: t._sum.orders || 0,
     }));
   }
+
+  /**
+   * Sales rows visible to the user. Sales are stored per shop, so campaign-scoped
+   * users only see the shops linked to their campaigns.
+   */
+  private async salesWhere(tenantId: string, scope?: CampaignScope): Promise<Prisma.MarketplaceDailySalesWhereInput> {
+    if (!scope) return { tenantId };
+
+    const campaigns = await this.prisma.campaign.findMany({
+      where: scopeCampaignWhere({ tenantId }, scope),
+      select: {
+        shopeeAccount: { select: { shopId: true } },
+        lazadaAccount: { select: { sellerId: true } },
+      },
+    });
+    const shopIds = campaigns.map((c) => c.shopeeAccount?.shopId).filter((id): id is string => !!id);
+    const sellerIds = campaigns.map((c) => c.lazadaAccount?.sellerId).filter((id): id is string => !!id);
+
+    return {
+      tenantId,
+      OR: [
+        { platform: AdPlatform.SHOPEE, accountId: { in: shopIds } },
+        { platform: AdPlatform.LAZADA, accountId: { in: sellerIds } },
+      ],
+    };
+  }
+
+  private async aggregateSales(salesWhere: Prisma.MarketplaceDailySalesWhereInput, startDate: Date, endDate: Date) {
+    const sales = await this.prisma.marketplaceDailySales.aggregate({
+      where: {
+        ...salesWhere,
+        date: { gte: startDate, lte: endDate },
+      },
+      _sum: {
+        gmv: true,
+        orders: true,
+      },
+    });
+
+    return {
+      revenue: this.toNumber(sales._sum.gmv),
+      orders: sales._sum.orders || 0,
+    };
+  }
+
+  private averageRates(tenantId: string, startDate: Date, endDate: Date, scope?: CampaignScope) {
+    return this.prisma.metric.aggregate({
+      where: {
+        tenantId,
+        ...campaignRelationScope(scope),
+        date: { gte: startDate, lte: endDate },
+      },
+      _avg: {
+        conversionRate: true,
+        cartAbandonmentRate: true,
+      },
+    });
+  }
 }
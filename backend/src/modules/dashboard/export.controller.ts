@@ -16,6 +16,12 @@ import {
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { ExportService, ExportCampaignsQuery } from './export.service';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { EntitlementsGuard } from '../../common/guards/entitlements.guard';
+import { RequireEntitlements } from '../../common/decorators/require-entitlements.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
 
 // ============================================================================
 // Export Controller - Dedicated endpoint for streaming exports
@@ -24,7 +30,7 @@ import { ExportService, ExportCampaignsQuery } from './export.service';
 @ApiTags('Export')
 @ApiBearerAuth()
 @Controller('export')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementsGuard)
 export class ExportController {
     constructor(private readonly exportService: ExportService) { }
 
@@ -41,6 +47,8 @@ export class ExportController {
      * @param status - Optional status filter
      */
     @Get('campaigns')
+    @RequirePermissions('export:csv')
+    @RequireEntitlements('EXPORT_CSV')
     @ApiOperation({
         summary: 'Export campaign performance report as CSV',
         description: 'Streams campaign data with aggregated metrics for the specified date range. Memory-efficient for large datasets.',
@@ -92,6 +100,7 @@ export class ExportController {
         @Query('endDate') endDateStr: string,
         @Query('platform') platform?: string,
         @Query('status') status?: string,
+        @CurrentCampaignScope() scope?: CampaignScope,
     ) {
         // Validate required parameters
         if (!startDateStr || !endDateStr) {
@@ -120,6 +129,7 @@ export class ExportController {
             endDate,
             platform,
             status,
+            scope,
         };
 
         // Return streaming CSV
@@ -133,6 +143,8 @@ export class ExportController {
      * @param period - Time period ('7d' or '30d')
      */
     @Get('metrics/pdf')
+    @RequirePermissions('export:pdf')
+    @RequireEntitlements('EXPORT_PDF')
     @ApiOperation({
         summary: 'Export metrics report as PDF',
         description: 'Generates a PDF report with summary metrics and daily breakdown.',
@@ -160,8 +172,9 @@ export class ExportController {
     async exportMetricsPDF(
         @CurrentUser('tenantId') tenantId: string,
         @Query('period') period: '7d' | '30d' = '7d',
+        @CurrentCampaignScope() scope?: CampaignScope,
     ) {
-        const pdf = await this.exportService.exportMetricsToPDF(tenantId, period);
+        const pdf = await this.exportService.exportMetricsToPDF(tenantId, period, scope);
 
         // Note: Returning Buffer directly works with NestJS
         // The response handling is done via @Res() in dashboard.controller.ts
@@ -1,6 +1,10 @@
 import { Injectable, Logger, InternalServerErrorException, StreamableFile } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { MetricsService } from './metrics.service';
+import { MetricsDateRange, MetricsService } from './metrics.service';
+import { CampaignScope, scopeCampaignWhere } from '../../common/utils/campaign-scope.util';
+import { ExchangeRatesService } from '../currency/exchange-rates.service';
+import { ReportingCurrencyService } from '../currency/reporting-currency.service';
+import { CurrencyConverter } from '../currency/currency-converter';
 import { stringify } from 'csv-stringify';
 import { PassThrough } from 'stream';
 import * as PDFDocument from 'pdfkit';
@@ -15,17 +19,19 @@ const UTF8_BOM = '\uFEFF';
 /** Batch size for cursor pagination (memory-efficient) */
 const BATCH_SIZE = 500;
 
-/** CSV column definitions for streaming export */
-const CSV_COLUMNS = [
+/** CSV column definitions for streaming export; money columns are in the tenant currency */
+const csvColumns = (currency: string) => [
     { key: 'date', header: 'Date' },
     { key: 'campaignName', header: 'Campaign Name' },
     { key: 'platform', header: 'Platform' },
     { key: 'status', header: 'Status' },
-    { key: 'spend', header: 'Spend ($)' },
+    { key: 'spend', header: `Spend (${currency})` },
     { key: 'impressions', header: 'Impressions' },
     { key: 'clicks', header: 'Clicks' },
     { key: 'ctr', header: 'CTR (%)' },
-    { key: 'cpc', header: 'CPC ($)' },
+    { key: 'cpc', header: `CPC (${currency})` },
+    { key: 'originalCurrency', header: 'Campaign Currency' },
+    { key: 'originalSpend', header: 'Spend (Campaign Currency)' },
 ];
 
 /** Characters that trigger formula execution in Excel (CSV Injection) */
@@ -51,6 +57,8 @@ export interface ExportCampaignsQuery {
     endDate: Date;
     platform?: string;
     status?: string;
+    /** Limit the export to the requesting user's assigned campaigns */
+    scope?: CampaignScope;
 }
 
 // ============================================================================
@@ -64,6 +72,8 @@ export class ExportService {
     constructor(
         private readonly prisma: PrismaService,
         private readonly metricsService: MetricsService,
+        private readonly exchangeRates: ExchangeRatesService,
+        private readonly reportingCurrency: ReportingCurrencyService,
     ) { }
 
     // ========================================================================
@@ -82,17 +92,19 @@ export class ExportService {
         tenantId: string,
         query: ExportCampaignsQuery,
     ): Promise<StreamableFile> {
-        const { startDate, endDate, platform, status } = query;
+        const { startDate, endDate, platform, status, scope } = query;
 
         this.logger.log(
             `Starting streaming CSV export for tenant ${tenantId} ` +
             `(${startDate.toISOString()} to ${endDate.toISOString()})`
         );
 
+        const currency = await this.reportingCurrency.getReportingCurrency(tenantId);
+
         // Create CSV stringifier with headers
         const stringifier = stringify({
             header: true,
-            columns: CSV_COLUMNS,
+            columns: csvColumns(currency),
         });
 
         // Create a PassThrough stream to pipe data
@@ -107,11 +119,13 @@ export class ExportService {
         // Start background streaming (non-blocking)
         this.streamDataInBackground(
             tenantId,
+            currency,
             startDate,
             endDate,
             platform,
             status,
             stringifier,
+            scope,
         ).catch((error) => {
             this.logger.error('Streaming export failed', error);
             stringifier.destroy(error);
@@ -128,17 +142,38 @@ export class ExportService {
         });
     }
 
+    /**
+     * Render the campaigns CSV fully into memory
+     * Used by scheduled reports, which need the file as an attachment
+     * rather than an HTTP stream.
+     */
+    async renderCampaignsCSV(
+        tenantId: string,
+        query: ExportCampaignsQuery,
+    ): Promise<Buffer> {
+        const file = await this.streamCampaignsCSV(tenantId, query);
+        const chunks: Buffer[] = [];
+
+        for await (const chunk of file.getStream()) {
+            chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+        }
+
+        return Buffer.concat(chunks);
+    }
+
     /**
      * Background streaming with cursor-based pagination
      * Fetches data in batches to prevent memory overload
      */
     private async streamDataInBackground(
         tenantId: string,
+        currency: string,
         startDate: Date,
         endDate: Date,
         platform: string | undefined,
         status: string | undefined,
         stringifier: ReturnType<typeof stringify>,
+        scope?: CampaignScope,
     ): Promise<void> {
         let cursor: string | undefined;
         let hasMore = true;
@@ -160,7 +195,7 @@ export class ExportService {
 
                 // Fetch batch with cursor pagination
                 const campaigns = await this.prisma.campaign.findMany({
-                    where,
+                    where: scopeCampaignWhere(where, scope),
                     include: {
                         metrics: {
                             where: {
@@ -176,9 +211,18 @@ export class ExportService {
                     orderBy: { id: 'asc' },
                 });
 
+                // Rates for this batch's campaign currencies, applied per metric day
+                const converter = await this.exchangeRates.createConverter(
+                    currency,
+                    campaigns.map((c) => c.currency || currency),
+                    startDate,
+                    endDate,
+                );
+
                 // Write each campaign to stream
                 for (const campaign of campaigns) {
-                    const aggregated = this.aggregateMetrics(campaign.metrics);
+                    const campaignCurrency = (campaign.currency || currency).toUpperCase();
+                    const aggregated = this.aggregateMetrics(campaign.metrics, converter, campaignCurrency);
 
                     stringifier.write({
                         date: `${startDate.toISOString().split('T')[0]} - ${endDate.toISOString().split('T')[0]}`,
@@ -190,6 +234,8 @@ export class ExportService {
                         clicks: aggregated.clicks,
                         ctr: aggregated.ctr.toFixed(2),
                         cpc: aggregated.cpc.toFixed(2),
+                        originalCurrency: campaignCurrency,
+                        originalSpend: aggregated.originalSpend.toFixed(2),
                     });
                     totalRows++;
                 }
@@ -210,20 +256,27 @@ export class ExportService {
 
     /**
      * Aggregate metrics from an array into summary values
+     * Spend is converted day by day from the campaign currency into the converter's currency
      */
-    private aggregateMetrics(metrics: any[]): {
+    private aggregateMetrics(metrics: any[], converter: CurrencyConverter, campaignCurrency: string): {
         spend: number;
+        originalSpend: number;
         impressions: number;
         clicks: number;
         ctr: number;
         cpc: number;
     } {
-        const spend = metrics.reduce((sum, m) => sum + Number(m.spend || 0), 0);
+        const originalSpend = metrics.reduce((sum, m) => sum + Number(m.spend || 0), 0);
+        const spend = metrics.reduce(
+            (sum, m) => sum + converter.convert(Number(m.spend || 0), campaignCurrency, m.date),
+            0,
+        );
         const impressions = metrics.reduce((sum, m) => sum + (m.impressions || 0), 0);
         const clicks = metrics.reduce((sum, m) => sum + (m.clicks || 0), 0);
 
         return {
             spend,
+            originalSpend,
             impressions,
             clicks,
             ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
@@ -238,25 +291,29 @@ export class ExportService {
     /**
      * Export metrics to PDF
      * @param tenantId - Tenant ID
-     * @param period - Time period ('7d' or '30d')
+     * @param period - Time period ('7d' or '30d') or explicit range
      * @throws InternalServerErrorException on any failure
      */
     async exportMetricsToPDF(
         tenantId: string,
-        period: '7d' | '30d',
+        period: '7d' | '30d' | MetricsDateRange,
+        scope?: CampaignScope,
     ): Promise<Buffer> {
         try {
-            // Get metrics data
-            const trends = await this.metricsService.getMetricsTrends(
+            // Get metrics data (money already in the tenant currency)
+            const { data: trends, meta } = await this.metricsService.getMetricsTrends(
                 tenantId,
                 period,
                 'previous_period',
+                scope,
             );
 
-            const dailyMetrics = await this.metricsService.getDailyMetrics(
+            const { data: dailyMetrics } = await this.metricsService.getDailyMetrics(
                 tenantId,
                 period,
+                scope,
             );
+            const money = (value: number) => `${meta.currency} ${value.toFixed(2)}`;
 
             // Get tenant info
             const tenant = await this.prisma.tenant.findUnique({
@@ -280,11 +337,14 @@ export class ExportService {
                 .fontSize(12)
                 .font('Helvetica')
                 .text(`Tenant: ${tenant?.name ?? tenantId}`, { align: 'center' });
-            doc.text(`Period: ${period === '7d' ? 'Last 7 Days' : 'Last 30 Days'}`, {
+            const periodLabel = typeof period !== 'string'
+                ? `${this.formatDateSafe(period.startDate)} to ${this.formatDateSafe(period.endDate)}`
+                : period === '7d' ? 'Last 7 Days' : 'Last 30 Days';
+            doc.text(`Period: ${periodLabel}`, {
                 align: 'center',
             });
             doc.text(
-                `Generated: ${new Date().toLocaleDateString()} ${new Date().toLocaleTimeString()}`,
+                `Generated: ${new Date().toLocaleString('en-GB', { timeZone: meta.timezone })} (${meta.timezone})`,
                 { align: 'center' },
             );
             doc.moveDown(2);
@@ -328,8 +388,8 @@ export class ExportService {
                 ],
                 [
                     'Spend',
-                    `$${current.spend.toFixed(2)}`,
-                    previous?.spend != null ? `$${previous.spend.toFixed(2)}` : 'N/A',
+                    money(current.spend),
+                    previous?.spend != null ? money(previous.spend) : 'N/A',
                     trendData?.spend != null
                         ? `${trendData.spend > 0 ? '+' : ''}${trendData.spend.toFixed(1)}%`
                         : 'N/A',
@@ -344,8 +404,8 @@ export class ExportService {
                 ],
                 [
                     'Revenue',
-                    `$${current.revenue.toFixed(2)}`,
-                    previous?.revenue != null ? `$${previous.revenue.toFixed(2)}` : 'N/A',
+                    money(current.revenue),
+                    previous?.revenue != null ? money(previous.revenue) : 'N/A',
                     trendData?.revenue != null
                         ? `${trendData.revenue > 0 ? '+' : ''}${trendData.revenue.toFixed(1)}%`
                         : 'N/A',
@@ -409,7 +469,7 @@ export class ExportService {
                 dailyData.slice(0, 10).forEach((day, index) => {
                     if (index > 0 && index % 5 === 0) doc.moveDown();
                     doc.text(
-                        `${this.formatDateSafe(day?.date)}: ${(day?.clicks ?? 0).toLocaleString()} clicks, $${(day?.spend ?? 0).toFixed(2)} spend, ${day?.conversions ?? 0} conversions`,
+                        `${this.formatDateSafe(day?.date)}: ${(day?.clicks ?? 0).toLocaleString()} clicks, ${money(day?.spend ?? 0)} spend, ${day?.conversions ?? 0} conversions`,
                     );
                 });
             }
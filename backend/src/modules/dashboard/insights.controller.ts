@@ -3,17 +3,28 @@ import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { InsightsService } from './insights.service';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { EntitlementsGuard } from '../../common/guards/entitlements.guard';
+import { RequireEntitlements } from '../../common/decorators/require-entitlements.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
 
 @ApiTags('Dashboard')
 @ApiBearerAuth()
 @Controller('dashboard/insights')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementsGuard)
+@RequirePermissions('dashboard:read')
 export class InsightsController {
     constructor(private readonly insightsService: InsightsService) { }
 
     @Get()
+    @RequireEntitlements('AI_SUMMARY')
     @ApiOperation({ summary: 'Get AI Insights for the current tenant' })
-    async getInsights(@CurrentUser('tenantId') tenantId: string) {
-        return this.insightsService.getAiInsights(tenantId);
+    async getInsights(
+        @CurrentUser('tenantId') tenantId: string,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        return this.insightsService.getAiInsights(tenantId, scope);
     }
 }
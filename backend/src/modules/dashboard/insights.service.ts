@@ -1,16 +1,34 @@
 import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { CampaignScope, scopeCampaignWhere } from '../../common/utils/campaign-scope.util';
 
 @Injectable()
 export class InsightsService {
     constructor(private readonly prisma: PrismaService) { }
 
-    async getAiInsights(tenantId: string) {
+    /**
+     * Active insights, newest first. Campaign-scoped users only see insights whose
+     * payload names one of their campaigns; tenant-wide insights stay hidden from them.
+     */
+    async getAiInsights(tenantId: string, scope?: CampaignScope) {
+        const where: Prisma.AiInsightWhereInput = {
+            tenantId,
+            status: 'ACTIVE',
+        };
+
+        if (scope) {
+            const campaigns = await this.prisma.campaign.findMany({
+                where: scopeCampaignWhere({ tenantId }, scope),
+                select: { id: true },
+            });
+            if (campaigns.length === 0) return [];
+
+            where.OR = campaigns.map(({ id }) => ({ payload: { path: ['campaignId'], equals: id } }));
+        }
+
         return this.prisma.aiInsight.findMany({
-            where: {
-                tenantId,
-                status: 'ACTIVE',
-            },
+            where,
             orderBy: {
                 occurredAt: 'desc',
             },
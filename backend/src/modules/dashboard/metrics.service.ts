@@ -1,7 +1,10 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { DateRangeUtil } from '../../common/utils/date-range.util';
+import { CampaignScope, campaignRelationScope, scopeCampaignWhere } from '../../common/utils/campaign-scope.util';
 import { Prisma } from '@prisma/client';
+import { ReportingCurrencyService, ReportingMetrics } from '../currency/reporting-currency.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
 
 // ============================================================
 // Helper: Safe Decimal to Number conversion
@@ -12,59 +15,80 @@ function toNumber(value: Prisma.Decimal | number | null | undefined, defaultValu
     return Number(value);
 }
 
+/** Explicit calendar-day bounds (UTC midnight), e.g. a scheduled report's range */
+export interface MetricsDateRange {
+    startDate: Date;
+    endDate: Date;
+}
+
 /**
  * MetricsService - Clean version following Seed Pattern
  * 
  * This service ONLY reads from database.
  * Mock data is seeded by MockDataSeederService during sync, NOT generated on-the-fly.
+ * Spend / revenue are in the tenant currency, returned as meta.currency.
+ * Periods end on today's date in the tenant timezone.
  */
 @Injectable()
 export class MetricsService {
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly reportingCurrency: ReportingCurrencyService,
+        private readonly tenantTimezone: TenantTimezoneService,
+    ) { }
 
     /**
      * Get metrics trends for a specific period
      * @param tenantId - Tenant ID
-     * @param period - Time period ('7d', '14d', '30d', '90d')
+     * @param period - Time period ('7d', '14d', '30d', '90d') or explicit range
      * @param compareWith - Compare with previous period (optional)
      */
     async getMetricsTrends(
         tenantId: string,
-        period: string,
+        period: string | MetricsDateRange,
         compareWith?: 'previous_period',
+        scope?: CampaignScope,
     ) {
-        const days = DateRangeUtil.parsePeriodDays(period);
-        const { startDate, endDate } = DateRangeUtil.getDateRange(days);
+        const { startDate, endDate, days, timezone } = await this.resolvePeriod(tenantId, period);
 
         // Current period metrics from DB
-        const currentMetrics = await this.getAggregatedMetrics(
+        const current = await this.getAggregatedMetrics(
             tenantId,
             startDate,
             endDate,
+            scope,
         );
 
         // Previous period metrics (if comparison requested)
-        let previousMetrics = null;
+        let previous: Awaited<ReturnType<MetricsService['getAggregatedMetrics']>> | null = null;
         if (compareWith === 'previous_period') {
             const { startDate: prevStartDate, endDate: prevEndDate } = DateRangeUtil.getPreviousPeriodDateRange(startDate, days);
 
-            previousMetrics = await this.getAggregatedMetrics(
+            previous = await this.getAggregatedMetrics(
                 tenantId,
                 prevStartDate,
                 prevEndDate,
+                scope,
             );
         }
 
         // Calculate trends
-        const trends = this.calculateTrends(currentMetrics, previousMetrics);
+        const trends = this.calculateTrends(current.metrics, previous?.metrics ?? null);
 
         return {
-            period,
-            startDate,
-            endDate,
-            current: currentMetrics,
-            previous: previousMetrics,
-            trends,
+            success: true,
+            data: {
+                period: typeof period === 'string' ? period : 'custom',
+                startDate,
+                endDate,
+                current: current.metrics,
+                previous: previous?.metrics ?? null,
+                trends,
+            },
+            meta: {
+                ...this.reportingCurrency.toMeta(current.report, ...(previous ? [previous.report] : [])),
+                timezone,
+            },
         };
     }
 
@@ -76,30 +100,17 @@ export class MetricsService {
         tenantId: string,
         startDate: Date,
         endDate: Date,
+        scope?: CampaignScope,
     ) {
         const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
 
-        const result = await this.prisma.metric.aggregate({
-            where: {
-                campaign: { tenantId },
-                date: {
-                    gte: startDate,
-                    lte: endDate,
-                },
-                ...(hideMockData ? { isMockData: false } : {}),
-            },
-            _sum: {
-                impressions: true,
-                clicks: true,
-                spend: true,
-                conversions: true,
-                revenue: true,
-            },
-            // Note: ctr and cpc are removed from _avg since they don't exist in schema
-            // They are calculated fields based on impressions/clicks/spend
-            _avg: {
-                roas: true,
+        const report = await this.reportingCurrency.sumMetrics(tenantId, {
+            campaign: scopeCampaignWhere({ tenantId }, scope),
+            date: {
+                gte: startDate,
+                lte: endDate,
             },
+            ...(hideMockData ? { isMockData: false } : {}),
         });
 
         // Also aggregate Web Analytics (GA4) data for Sessions
@@ -117,28 +128,45 @@ export class MetricsService {
             },
         });
 
-        const totalImpressions = result._sum.impressions ?? 0;
-        const totalClicks = result._sum.clicks ?? 0;
-        const totalSpend = toNumber(result._sum.spend);
-        const totalConversions = result._sum.conversions ?? 0;
-        const totalRevenue = toNumber(result._sum.revenue);
+        const totalImpressions = report.total.impressions;
+        const totalClicks = report.total.clicks;
+        const totalSpend = report.total.spend;
+        const totalConversions = report.total.conversions;
+        const totalRevenue = report.total.revenue;
         const totalSessions = webResult._sum.sessions ?? 0;
 
         // Calculate derived metrics with safe math
         return {
-            impressions: totalImpressions,
-            clicks: totalClicks,
-            spend: totalSpend,
-            conversions: totalConversions,
-            revenue: totalRevenue,
-            sessions: totalSessions,
-            // Calculated fields (Safe Math):
-            ctr: totalImpressions > 0 ? (totalClicks / totalImpressions) * 100 : 0,
-            cpc: totalClicks > 0 ? totalSpend / totalClicks : 0,
-            roas: totalSpend > 0 ? totalRevenue / totalSpend : 0,
+            report,
+            metrics: {
+                impressions: totalImpressions,
+                clicks: totalClicks,
+                spend: totalSpend,
+                conversions: totalConversions,
+                revenue: totalRevenue,
+                sessions: totalSessions,
+                // Calculated fields (Safe Math):
+                ctr: totalImpressions > 0 ? (totalClicks / totalImpressions) * 100 : 0,
+                cpc: totalClicks > 0 ? totalSpend / totalClicks : 0,
+                roas: totalSpend > 0 ? totalRevenue / totalSpend : 0,
+            },
         };
     }
 
+    /**
+     * Period string ('7d', ...) ending today in the tenant timezone, or an explicit range
+     */
+    private async resolvePeriod(tenantId: string, period: string | MetricsDateRange) {
+        const timezone = await this.tenantTimezone.getTimezone(tenantId);
+        if (typeof period !== 'string') {
+            const days = Math.floor((period.endDate.getTime() - period.startDate.getTime()) / 86400000) + 1;
+            return { ...period, days, timezone };
+        }
+
+        const days = DateRangeUtil.parsePeriodDays(period);
+        return { ...DateRangeUtil.getDateRange(days, timezone), days, timezone };
+    }
+
     /**
      * Calculate trends (percentage change)
      */
@@ -166,58 +194,45 @@ export class MetricsService {
     /**
      * Get daily metrics for chart data (reads from DB only)
      * @param tenantId - Tenant ID
-     * @param period - Time period ('7d', '30d')
+     * @param period - Time period ('7d', '30d') or explicit range
      */
-    async getDailyMetrics(tenantId: string, period: string) {
-        const days = DateRangeUtil.parsePeriodDays(period);
-        const { startDate, endDate } = DateRangeUtil.getDateRange(days);
+    async getDailyMetrics(tenantId: string, period: string | MetricsDateRange, scope?: CampaignScope) {
+        const { startDate, endDate, timezone } = await this.resolvePeriod(tenantId, period);
 
         const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
 
-        const metrics = await this.prisma.metric.groupBy({
-            by: ['date'],
-            where: {
-                campaign: { tenantId },
-                date: {
-                    gte: startDate,
-                    lte: endDate,
-                },
-                ...(hideMockData ? { isMockData: false } : {}),
-            },
-            _sum: {
-                impressions: true,
-                clicks: true,
-                spend: true,
-                conversions: true,
-                revenue: true,
+        const report = await this.reportingCurrency.sumMetrics(tenantId, {
+            campaign: scopeCampaignWhere({ tenantId }, scope),
+            date: {
+                gte: startDate,
+                lte: endDate,
             },
-            orderBy: {
-                date: 'asc',
-            },
-        });
+            ...(hideMockData ? { isMockData: false } : {}),
+        }, ['date']);
 
         return {
-            period,
-            startDate,
-            endDate,
-            data: metrics.map((m) => {
-                const impressions = m._sum.impressions ?? 0;
-                const clicks = m._sum.clicks ?? 0;
-                const spend = toNumber(m._sum.spend);
-                const revenue = toNumber(m._sum.revenue);
-
-                return {
-                    date: m.date,
-                    impressions,
-                    clicks,
-                    spend,
-                    conversions: m._sum.conversions ?? 0,
-                    revenue,
-                    // Calculated fields (Safe Math):
-                    ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
-                    roas: spend > 0 ? revenue / spend : 0,
-                };
-            }),
+            success: true,
+            data: {
+                period: typeof period === 'string' ? period : 'custom',
+                startDate,
+                endDate,
+                data: this.sortByDate(report).map((m) => {
+                    const { impressions, clicks, spend, revenue } = m;
+
+                    return {
+                        date: m.date,
+                        impressions,
+                        clicks,
+                        spend,
+                        conversions: m.conversions,
+                        revenue,
+                        // Calculated fields (Safe Math):
+                        ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
+                        roas: spend > 0 ? revenue / spend : 0,
+                    };
+                }),
+            },
+            meta: { ...this.reportingCurrency.toMeta(report), timezone },
         };
     }
 
@@ -226,6 +241,7 @@ export class MetricsService {
         metric: 'impressions' | 'clicks' | 'spend' | 'conversions' | 'revenue' | 'sessions',
         startDate: Date,
         endDate: Date,
+        scope?: CampaignScope,
     ) {
         const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
 
@@ -264,6 +280,7 @@ export class MetricsService {
                 by: ['date'],
                 where: {
                     tenantId,
+                    ...campaignRelationScope(scope),
                     date: {
                         gte: startDate,
                         lte: endDate,
@@ -291,6 +308,7 @@ export class MetricsService {
                 by: ['date'],
                 where: {
                     tenantId,
+                    ...campaignRelationScope(scope),
                     date: {
                         gte: startDate,
                         lte: endDate,
@@ -318,6 +336,7 @@ export class MetricsService {
                 by: ['date'],
                 where: {
                     tenantId,
+                    ...campaignRelationScope(scope),
                     date: {
                         gte: startDate,
                         lte: endDate,
@@ -340,59 +359,35 @@ export class MetricsService {
             };
         }
 
-        if (metric === 'spend') {
-            const rows = await this.prisma.metric.groupBy({
-                by: ['date'],
-                where: {
-                    tenantId,
-                    date: {
-                        gte: startDate,
-                        lte: endDate,
-                    },
-                    ...(hideMockData ? { isMockData: false } : {}),
-                },
-                _sum: { spend: true },
-                orderBy: {
-                    date: 'asc',
-                },
-            });
-            return {
+        // spend / revenue: converted per campaign-day into the tenant currency
+        const report = await this.reportingCurrency.sumMetrics(tenantId, {
+            tenantId,
+            ...campaignRelationScope(scope),
+            date: {
+                gte: startDate,
+                lte: endDate,
+            },
+            ...(hideMockData ? { isMockData: false } : {}),
+        }, ['date']);
+        return {
+            success: true,
+            data: {
                 metric,
                 startDate,
                 endDate,
-                data: rows.map((r) => ({
-                    date: r.date.toISOString().split('T')[0],
-                    value: toNumber(r._sum.spend),
+                data: this.sortByDate(report).map((r) => ({
+                    date: r.date!.toISOString().split('T')[0],
+                    value: r[metric],
                 })),
-            };
-        }
-
-        const rows = await this.prisma.metric.groupBy({
-            by: ['date'],
-            where: {
-                tenantId,
-                date: {
-                    gte: startDate,
-                    lte: endDate,
-                },
-                ...(hideMockData ? { isMockData: false } : {}),
-            },
-            _sum: { revenue: true },
-            orderBy: {
-                date: 'asc',
             },
-        });
-        return {
-            metric,
-            startDate,
-            endDate,
-            data: rows.map((r) => ({
-                date: r.date.toISOString().split('T')[0],
-                value: toNumber(r._sum.revenue),
-            })),
+            meta: this.reportingCurrency.toMeta(report),
         };
     }
 
+    private sortByDate(report: ReportingMetrics) {
+        return [...report.rows].sort((a, b) => a.date!.getTime() - b.date!.getTime());
+    }
+
     /**
      * Get campaign performance metrics
      */
@@ -7,11 +7,16 @@ import { RolesGuard } from '../../common/guards/roles.guard';
 import { TrendAnalysisService } from './trend-analysis.service';
 import { GetTrendAnalysisDto, TrendDataResponseDto } from './dto/trend-analysis.dto';
 import { UserRole } from '@prisma/client';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
 
 @ApiTags('Trends')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
 @Controller('trends')
+@RequirePermissions('dashboard:read')
 export class TrendAnalysisController {
   constructor(private readonly trendAnalysisService: TrendAnalysisService) {}
 
@@ -21,8 +26,9 @@ export class TrendAnalysisController {
   async getTrends(
     @CurrentUser() user: any,
     @Query() query: GetTrendAnalysisDto,
+    @CurrentCampaignScope() scope: CampaignScope,
   ) {
     const tenantId = query.tenantId && user.role === UserRole.SUPER_ADMIN ? query.tenantId : user.tenantId;
-    return this.trendAnalysisService.getTrends(tenantId, query);
+    return this.trendAnalysisService.getTrends(tenantId, query, scope);
   }
 }
@@ -1,12 +1,17 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { DateRangeUtil } from '../../common/utils/date-range.util';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { CampaignScope, campaignRelationScope } from '../../common/utils/campaign-scope.util';
 import { GetTrendAnalysisDto, TrendDataResponseDto, TrendPeriod } from './dto/trend-analysis.dto';
 import { Prisma } from '@prisma/client';
 
 @Injectable()
 export class TrendAnalysisService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tenantTimezone: TenantTimezoneService,
+  ) {}
 
   private toNumber(value: Prisma.Decimal | number | string | null | undefined, defaultValue = 0): number {
     if (value === null || value === undefined) return defaultValue;
@@ -14,14 +19,15 @@ export class TrendAnalysisService {
     return Number(value);
   }
 
-  async getTrends(tenantId: string, query: GetTrendAnalysisDto): Promise<TrendDataResponseDto[]> {
+  async getTrends(tenantId: string, query: GetTrendAnalysisDto, scope?: CampaignScope): Promise<TrendDataResponseDto[]> {
     const days = query.period === TrendPeriod.D7 ? 7 : 30;
-    const { startDate, endDate } = DateRangeUtil.getDateRange(days);
+    const { startDate, endDate } = DateRangeUtil.getDateRange(days, await this.tenantTimezone.getTimezone(tenantId));
 
     const metrics = await this.prisma.metric.groupBy({
       by: ['date'],
       where: {
         tenantId,
+        ...campaignRelationScope(scope),
         date: { gte: startDate, lte: endDate },
       },
       _sum: {
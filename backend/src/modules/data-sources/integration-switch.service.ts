@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { DashboardService } from '../dashboard/dashboard.service';
 import { DashboardOverviewResponseDto, GetDashboardOverviewDto } from '../dashboard/dto/dashboard-overview.dto';
 import { UserRole } from '@prisma/client';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
 
 @Injectable()
 export class IntegrationSwitchService {
@@ -14,15 +15,16 @@ export class IntegrationSwitchService {
      */
     async getDashboardOverview(
         user: { tenantId: string; role: UserRole },
-        query: GetDashboardOverviewDto
+        query: GetDashboardOverviewDto,
+        scope?: CampaignScope,
     ): Promise<DashboardOverviewResponseDto> {
-        return this.dashboardService.getOverview(user, query);
+        return this.dashboardService.getOverview(user, query, scope);
     }
 
     /**
      * "Smart Switch" for Top Campaigns
      */
-    async getTopCampaigns(tenantId: string, limit = 5, days = 30) {
-        return this.dashboardService.getTopCampaigns(tenantId, limit, days);
+    async getTopCampaigns(tenantId: string, limit = 5, days = 30, scope?: CampaignScope) {
+        return this.dashboardService.getTopCampaigns(tenantId, limit, days, scope);
     }
 }
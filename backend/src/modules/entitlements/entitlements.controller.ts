@@ -12,13 +12,16 @@ export class EntitlementsController {
 
   @Get('me')
   @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Get entitlements for current user tenant' })
-  getMyEntitlements(@CurrentUser() user: any) {
-    const tenant = user?.tenant;
-    return this.entitlements.buildEntitlements({
-      plan: tenant?.subscriptionPlan,
-      status: tenant?.subscriptionStatus,
-      endsAt: tenant?.subscriptionEndsAt,
-    });
+  @ApiOperation({ summary: 'Get entitlements and usage for current user tenant' })
+  async getMyEntitlements(@CurrentUser() user: any) {
+    const entitlements = this.entitlements.forTenant(user?.tenant);
+    return {
+      ...entitlements,
+      // Infinity does not survive JSON; null means unlimited
+      maxIntegrations: Number.isFinite(entitlements.maxIntegrations) ? entitlements.maxIntegrations : null,
+      usage: {
+        integrations: await this.entitlements.countConnectedAccounts(user.tenantId),
+      },
+    };
   }
 }
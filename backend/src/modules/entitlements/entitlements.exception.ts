@@ -0,0 +1,84 @@
+/**
+ * Plan Entitlement Exceptions (402 Payment Required)
+ *
+ * The error code and meta let the frontend tell "feature not in plan",
+ * "integration limit reached" and "subscription expired" apart and show
+ * the matching upgrade prompt.
+ */
+
+import { HttpException, HttpStatus } from '@nestjs/common';
+import type { EntitlementKey, Entitlements } from './entitlements.types';
+
+/**
+ * Thrown when the tenant's plan does not include a feature
+ */
+export class EntitlementRequiredException extends HttpException {
+  constructor(missing: EntitlementKey[], entitlements: Entitlements) {
+    super(
+      {
+        error: 'ENTITLEMENT_REQUIRED',
+        message: `Your ${entitlements.plan} plan does not include ${missing.join(', ')}. Upgrade to use this feature.`,
+        meta: { missing, plan: entitlements.plan, status: entitlements.status },
+      },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
+
+/**
+ * Thrown when connecting another account would exceed maxIntegrations
+ */
+export class IntegrationLimitException extends HttpException {
+  constructor(used: number, entitlements: Entitlements) {
+    super(
+      {
+        error: 'INTEGRATION_LIMIT_REACHED',
+        message: `Your ${entitlements.plan} plan allows ${entitlements.maxIntegrations} connected accounts. Disconnect one or upgrade to add more.`,
+        meta: { used, limit: entitlements.maxIntegrations, plan: entitlements.plan },
+      },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
+
+/**
+ * Thrown when the subscription expired and the grace period is over
+ */
+export class SubscriptionLapsedException extends HttpException {
+  constructor(entitlements: Entitlements) {
+    super(
+      {
+        error: 'SUBSCRIPTION_EXPIRED',
+        message: 'Your subscription has expired. Renew it to use this feature again.',
+        meta: {
+          plan: entitlements.plan,
+          status: entitlements.status,
+          endsAt: entitlements.endsAt,
+          graceEndsAt: entitlements.graceEndsAt,
+        },
+      },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
+
+/**
+ * Thrown for changes while the subscription is in its read-only grace period
+ */
+export class SubscriptionReadOnlyException extends HttpException {
+  constructor(entitlements: Entitlements) {
+    super(
+      {
+        error: 'SUBSCRIPTION_READ_ONLY',
+        message: 'Your subscription has expired. Your data stays viewable until the grace period ends; renew to make changes.',
+        meta: {
+          plan: entitlements.plan,
+          status: entitlements.status,
+          endsAt: entitlements.endsAt,
+          graceEndsAt: entitlements.graceEndsAt,
+        },
+      },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
@@ -1,7 +1,12 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
 import { EntitlementsController } from './entitlements.controller';
 import { EntitlementsService } from './entitlements.service';
 
+/**
+ * Global so EntitlementsGuard and the integration limit check can be used from
+ * any feature module without importing this one.
+ */
+@Global()
 @Module({
   controllers: [EntitlementsController],
   providers: [EntitlementsService],
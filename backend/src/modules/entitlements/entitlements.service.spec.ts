@@ -0,0 +1,221 @@
+/**
+ * Entitlements Unit Tests
+ * @module entitlements.service.spec
+ * @description Plan entitlements enforced server-side:
+ *   - Expired/inactive subscriptions keep their plan during the grace period, then lose every feature
+ *   - Missing features and lapsed subscriptions are structured 402 errors
+ *   - Connecting accounts counts against maxIntegrations; reconnects do not
+ *   - Only active accounts use a slot; disconnected or paused ones are not counted
+ *   - EntitlementsGuard applies @RequireEntitlements
+ *   - Ended subscriptions are read-only: changes get a 402 unless @AllowWhenReadOnly
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ExecutionContext, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { EntitlementsService } from './entitlements.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { EntitlementsGuard } from '../../common/guards/entitlements.guard';
+import { RequireEntitlements } from '../../common/decorators/require-entitlements.decorator';
+import { AllowWhenReadOnly } from '../../common/decorators/allow-when-read-only.decorator';
+import { SubscriptionAccessInterceptor } from '../../common/interceptors/subscription-access.interceptor';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const NOW = new Date('2026-05-20T00:00:00.000Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+const countModel = () => ({ count: jest.fn().mockResolvedValue(0), findMany: jest.fn().mockResolvedValue([]) });
+
+function thrown(fn: () => unknown) {
+    try {
+        fn();
+    } catch (error) {
+        return error as any;
+    }
+    throw new Error('Expected an exception');
+}
+
+describe('EntitlementsService', () => {
+    let service: EntitlementsService;
+    let prisma: Record<string, ReturnType<typeof countModel>>;
+
+    beforeEach(async () => {
+        jest.useFakeTimers().setSystemTime(NOW);
+        prisma = {
+            googleAdsAccount: countModel(),
+            googleAnalyticsAccount: countModel(),
+            searchConsoleAccount: countModel(),
+            facebookAdsAccount: countModel(),
+            tikTokAdsAccount: countModel(),
+            lineAdsAccount: countModel(),
+            shopeeAccount: countModel(),
+            lazadaAccount: countModel(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                EntitlementsService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue(undefined) } },
+            ],
+        }).compile();
+
+        service = module.get(EntitlementsService);
+    });
+
+    afterEach(() => jest.useRealTimers());
+
+    describe('buildEntitlements', () => {
+        it('keeps plan features during the grace period and drops them after', () => {
+            const grace = service.buildEntitlements({ plan: 'STANDARD', status: 'EXPIRED', endsAt: daysAgo(3), now: NOW });
+            expect(grace.access).toBe('grace');
+            expect(grace.enabled.ALERTS).toBe(true);
+            expect(grace.maxIntegrations).toBe(5);
+            expect(grace.graceEndsAt).toBe('2026-05-24T00:00:00.000Z');
+
+            const lapsed = service.buildEntitlements({ plan: 'STANDARD', status: 'EXPIRED', endsAt: daysAgo(8), now: NOW });
+            expect(lapsed.access).toBe('lapsed');
+            expect(Object.values(lapsed.enabled).every((enabled) => !enabled)).toBe(true);
+            expect(lapsed.maxIntegrations).toBe(0);
+        });
+
+        it('treats an active subscription past its end date as ended', () => {
+            const result = service.buildEntitlements({ plan: 'BASIC', status: 'ACTIVE', endsAt: daysAgo(1), now: NOW });
+            expect(result.access).toBe('grace');
+
+            const inactive = service.buildEntitlements({ plan: 'ENTERPRISE', status: 'INACTIVE', endsAt: null, now: NOW });
+            expect(inactive.access).toBe('lapsed');
+        });
+    });
+
+    describe('assertEnabled', () => {
+        it('returns 402 ENTITLEMENT_REQUIRED with the missing features', () => {
+            const error = thrown(() =>
+                service.assertEnabled({ subscriptionPlan: 'BASIC', subscriptionStatus: 'ACTIVE' }, ['EXPORT_CSV', 'EXPORT_PDF']),
+            );
+            expect(error.getStatus()).toBe(HttpStatus.PAYMENT_REQUIRED);
+            expect(error.getResponse()).toMatchObject({
+                error: 'ENTITLEMENT_REQUIRED',
+                meta: { missing: ['EXPORT_CSV'], plan: 'BASIC' },
+            });
+        });
+
+        it('returns 402 SUBSCRIPTION_EXPIRED once the grace period is over', () => {
+            const error = thrown(() =>
+                service.assertEnabled(
+                    { subscriptionPlan: 'ENTERPRISE', subscriptionStatus: 'EXPIRED', subscriptionEndsAt: daysAgo(30) },
+                    ['EXPORT_PDF'],
+                ),
+            );
+            expect(error.getStatus()).toBe(HttpStatus.PAYMENT_REQUIRED);
+            expect(error.getResponse()).toMatchObject({ error: 'SUBSCRIPTION_EXPIRED' });
+        });
+    });
+
+    describe('assertCanConnect', () => {
+        const basic = { id: TENANT_ID, subscriptionPlan: 'BASIC' as const, subscriptionStatus: 'ACTIVE' as const };
+
+        it('rejects a new account once maxIntegrations is reached', async () => {
+            prisma.googleAdsAccount.count.mockResolvedValue(1);
+            prisma.facebookAdsAccount.count.mockResolvedValue(1);
+
+            await expect(service.assertCanConnect(basic, 'TIKTOK', ['adv-1'])).rejects.toMatchObject({
+                response: { error: 'INTEGRATION_LIMIT_REACHED', meta: { used: 2, limit: 2 } },
+            });
+        });
+
+        it('allows reconnecting an account that is already connected', async () => {
+            prisma.googleAdsAccount.count.mockResolvedValue(2);
+            prisma.googleAdsAccount.findMany.mockResolvedValue([{ customerId: '123' }]);
+
+            await expect(service.assertCanConnect(basic, 'GOOGLE_ADS', ['123'])).resolves.toBeUndefined();
+            expect(prisma.googleAdsAccount.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { tenantId: TENANT_ID, status: { in: ['ACTIVE', 'ENABLED'] }, customerId: { in: ['123'] } },
+                }),
+            );
+        });
+
+        it('only counts active accounts towards the limit', async () => {
+            await service.countConnectedAccounts(TENANT_ID);
+
+            for (const model of Object.values(prisma)) {
+                expect(model.count).toHaveBeenCalledWith({
+                    where: { tenantId: TENANT_ID, status: { in: ['ACTIVE', 'ENABLED'] } },
+                });
+            }
+        });
+
+        it('does not count for unlimited plans', async () => {
+            await service.assertCanConnect({ ...basic, subscriptionPlan: 'ENTERPRISE' }, 'SEARCH_CONSOLE');
+            expect(prisma.googleAdsAccount.count).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('EntitlementsGuard', () => {
+        class ExportHandlers {
+            @RequireEntitlements('EXPORT_CSV')
+            csv() { }
+
+            open() { }
+        }
+
+        const context = (handler: keyof ExportHandlers, user: any) => ({
+            getHandler: () => ExportHandlers.prototype[handler],
+            getClass: () => ExportHandlers,
+            switchToHttp: () => ({ getRequest: () => ({ user }) }),
+        }) as unknown as ExecutionContext;
+
+        it('enforces @RequireEntitlements and ignores undecorated handlers', () => {
+            const guard = new EntitlementsGuard(new Reflector(), service);
+            const basicUser = { tenant: { subscriptionPlan: 'BASIC', subscriptionStatus: 'ACTIVE' } };
+
+            expect(guard.canActivate(context('open', basicUser))).toBe(true);
+            expect(() => guard.canActivate(context('csv', basicUser))).toThrow('does not include EXPORT_CSV');
+            expect(guard.canActivate(context('csv', { tenant: { subscriptionPlan: 'STANDARD' } }))).toBe(true);
+        });
+    });
+
+    describe('SubscriptionAccessInterceptor', () => {
+        class Handlers {
+            save() { }
+
+            @AllowWhenReadOnly()
+            logout() { }
+        }
+
+        const graceTenant = { subscriptionPlan: 'STANDARD', subscriptionStatus: 'EXPIRED', subscriptionEndsAt: daysAgo(3) };
+        const next = { handle: jest.fn().mockReturnValue('handled') };
+        const context = (handler: keyof Handlers, method: string, user: any) => ({
+            getHandler: () => Handlers.prototype[handler],
+            getClass: () => Handlers,
+            switchToHttp: () => ({ getRequest: () => ({ method, user }) }),
+        }) as unknown as ExecutionContext;
+
+        it('keeps reads working and rejects changes during the grace period', () => {
+            const interceptor = new SubscriptionAccessInterceptor(new Reflector(), service);
+            const user = { role: 'ADMIN', tenant: graceTenant };
+
+            expect(interceptor.intercept(context('save', 'GET', user), next)).toBe('handled');
+            const error = thrown(() => interceptor.intercept(context('save', 'POST', user), next));
+            expect(error.getStatus()).toBe(HttpStatus.PAYMENT_REQUIRED);
+            expect(error.getResponse()).toMatchObject({ error: 'SUBSCRIPTION_READ_ONLY', meta: { graceEndsAt: '2026-05-24T00:00:00.000Z' } });
+        });
+
+        it('lets exempt handlers, super admins and active subscriptions through', () => {
+            const interceptor = new SubscriptionAccessInterceptor(new Reflector(), service);
+
+            expect(interceptor.intercept(context('logout', 'POST', { role: 'ADMIN', tenant: graceTenant }), next)).toBe('handled');
+            expect(interceptor.intercept(context('save', 'POST', { role: 'SUPER_ADMIN', tenant: graceTenant }), next)).toBe('handled');
+            expect(interceptor.intercept(
+                context('save', 'PATCH', { role: 'ADMIN', tenant: { subscriptionPlan: 'BASIC', subscriptionStatus: 'ACTIVE' } }),
+                next,
+            )).toBe('handled');
+        });
+    });
+});
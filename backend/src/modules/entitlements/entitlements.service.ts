@@ -1,22 +1,76 @@
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import type { SubscriptionPlan, SubscriptionStatus } from '@prisma/client';
-import type { Entitlements } from './entitlements.types';
+import { PrismaService } from '../prisma/prisma.service';
+import type {
+  ConnectablePlatform,
+  EntitlementKey,
+  Entitlements,
+  SubscriptionAccess,
+  TenantSubscription,
+} from './entitlements.types';
+import {
+  EntitlementRequiredException,
+  IntegrationLimitException,
+  SubscriptionLapsedException,
+  SubscriptionReadOnlyException,
+} from './entitlements.exception';
+
+const DEFAULT_GRACE_DAYS = 7;
+
+/**
+ * Account statuses that use an integration slot; Google Ads uses its own API's
+ * wording. Disconnected, suspended and plan-paused accounts do not count.
+ */
+export const CONNECTED_ACCOUNT_STATUSES = ['ACTIVE', 'ENABLED'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LAPSED_FEATURES: Record<EntitlementKey, boolean> = {
+  INTEGRATIONS: false,
+  EXPORT_PDF: false,
+  EXPORT_CSV: false,
+  ALERTS: false,
+  AI_SUMMARY: false,
+  MULTI_USER: false,
+};
 
 @Injectable()
 export class EntitlementsService {
+  private readonly graceDays: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    config: ConfigService,
+  ) {
+    const graceDays = Number(config.get('SUBSCRIPTION_GRACE_DAYS'));
+    this.graceDays = Number.isFinite(graceDays) && graceDays >= 0 ? graceDays : DEFAULT_GRACE_DAYS;
+  }
+
   buildEntitlements(params: {
     plan: SubscriptionPlan | null | undefined;
     status: SubscriptionStatus | null | undefined;
     endsAt: Date | null | undefined;
+    now?: Date;
   }): Entitlements {
     const plan = params.plan ?? 'BASIC';
     const status = params.status ?? 'ACTIVE';
+    const { access, graceEndsAt } = this.resolveAccess(status, params.endsAt, params.now ?? new Date());
+
+    const base = {
+      plan,
+      status,
+      endsAt: params.endsAt?.toISOString(),
+      access,
+      graceEndsAt: graceEndsAt?.toISOString(),
+    };
+
+    if (access === 'lapsed') {
+      return { ...base, maxIntegrations: 0, enabled: { ...LAPSED_FEATURES } };
+    }
 
     if (plan === 'BASIC') {
       return {
-        plan,
-        status,
-        endsAt: params.endsAt?.toISOString(),
+        ...base,
         maxIntegrations: 2,
         enabled: {
           INTEGRATIONS: true,
@@ -31,9 +85,7 @@ export class EntitlementsService {
 
     if (plan === 'STANDARD') {
       return {
-        plan,
-        status,
-        endsAt: params.endsAt?.toISOString(),
+        ...base,
         maxIntegrations: 5,
         enabled: {
           INTEGRATIONS: true,
@@ -47,9 +99,7 @@ export class EntitlementsService {
     }
 
     return {
-      plan,
-      status,
-      endsAt: params.endsAt?.toISOString(),
+      ...base,
       maxIntegrations: Number.POSITIVE_INFINITY,
       enabled: {
         INTEGRATIONS: true,
@@ -61,4 +111,157 @@ export class EntitlementsService {
       },
     };
   }
+
+  forTenant(tenant: TenantSubscription | null | undefined, now?: Date): Entitlements {
+    return this.buildEntitlements({
+      plan: tenant?.subscriptionPlan,
+      status: tenant?.subscriptionStatus,
+      endsAt: tenant?.subscriptionEndsAt,
+      now,
+    });
+  }
+
+  /**
+   * Throw a 402 unless the tenant's plan includes every key
+   */
+  assertEnabled(tenant: TenantSubscription | null | undefined, keys: EntitlementKey[]): Entitlements {
+    const entitlements = this.forTenant(tenant);
+    if (entitlements.access === 'lapsed') {
+      throw new SubscriptionLapsedException(entitlements);
+    }
+
+    const missing = keys.filter((key) => !entitlements.enabled[key]);
+    if (missing.length > 0) {
+      throw new EntitlementRequiredException(missing, entitlements);
+    }
+    return entitlements;
+  }
+
+  /**
+   * Throw a 402 for changes unless the subscription is current: read-only
+   * during the grace period, lapsed after it
+   */
+  assertWritable(tenant: TenantSubscription | null | undefined): Entitlements {
+    const entitlements = this.forTenant(tenant);
+    if (entitlements.access === 'grace') {
+      throw new SubscriptionReadOnlyException(entitlements);
+    }
+    if (entitlements.access === 'lapsed') {
+      throw new SubscriptionLapsedException(entitlements);
+    }
+    return entitlements;
+  }
+
+  /**
+   * Throw a 402 when connecting these accounts would exceed maxIntegrations.
+   * Accounts that are already connected are reconnects and never count; without
+   * accountIds any existing connection of the platform counts as a reconnect
+   * (Search Console has one account per tenant, LINE's OAuth start has no id yet).
+   */
+  async assertCanConnect(
+    tenant: TenantSubscription & { id: string },
+    platform: ConnectablePlatform,
+    accountIds: string[] = [],
+  ): Promise<void> {
+    const entitlements = this.assertEnabled(tenant, ['INTEGRATIONS']);
+    if (!Number.isFinite(entitlements.maxIntegrations)) return;
+
+    const existing = await this.findConnectedAccountIds(tenant.id, platform, accountIds);
+    const added = accountIds.length > 0
+      ? accountIds.filter((id) => !existing.includes(id)).length
+      : existing.length > 0 ? 0 : 1;
+    if (added === 0) return;
+
+    const used = await this.countConnectedAccounts(tenant.id);
+    if (used + added > entitlements.maxIntegrations) {
+      throw new IntegrationLimitException(used, entitlements);
+    }
+  }
+
+  /**
+   * Connected ad, analytics and marketplace accounts across all platforms
+   */
+  async countConnectedAccounts(tenantId: string): Promise<number> {
+    const where = { tenantId, status: { in: CONNECTED_ACCOUNT_STATUSES } };
+    const counts = await Promise.all([
+      this.prisma.googleAdsAccount.count({ where }),
+      this.prisma.googleAnalyticsAccount.count({ where }),
+      this.prisma.searchConsoleAccount.count({ where }),
+      this.prisma.facebookAdsAccount.count({ where }),
+      this.prisma.tikTokAdsAccount.count({ where }),
+      this.prisma.lineAdsAccount.count({ where }),
+      this.prisma.shopeeAccount.count({ where }),
+      this.prisma.lazadaAccount.count({ where }),
+    ]);
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  private resolveAccess(
+    status: SubscriptionStatus,
+    endsAt: Date | null | undefined,
+    now: Date,
+  ): { access: SubscriptionAccess; graceEndsAt?: Date } {
+    const ended = status === 'EXPIRED' || status === 'INACTIVE' || (!!endsAt && endsAt <= now);
+    if (!ended) return { access: 'active' };
+
+    // Without an end date there is nothing to measure the grace period from
+    if (!endsAt) return { access: 'lapsed' };
+
+    const graceEndsAt = new Date(endsAt.getTime() + this.graceDays * DAY_MS);
+    return { access: now < graceEndsAt ? 'grace' : 'lapsed', graceEndsAt };
+  }
+
+  private async findConnectedAccountIds(
+    tenantId: string,
+    platform: ConnectablePlatform,
+    accountIds: string[],
+  ): Promise<string[]> {
+    const filter = <K extends string>(key: K) =>
+      accountIds.length > 0 ? ({ [key]: { in: accountIds } } as Record<K, { in: string[] }>) : {};
+    // Reconnecting a disconnected or paused account takes a slot again
+    const status = { in: CONNECTED_ACCOUNT_STATUSES };
+
+    switch (platform) {
+      case 'GOOGLE_ADS':
+        return (await this.prisma.googleAdsAccount.findMany({
+          where: { tenantId, status, ...filter('customerId') },
+          select: { customerId: true },
+        })).map((a) => a.customerId);
+      case 'GOOGLE_ANALYTICS':
+        return (await this.prisma.googleAnalyticsAccount.findMany({
+          where: { tenantId, status, ...filter('propertyId') },
+          select: { propertyId: true },
+        })).map((a) => a.propertyId);
+      case 'SEARCH_CONSOLE':
+        return (await this.prisma.searchConsoleAccount.findMany({
+          where: { tenantId, status },
+          select: { id: true },
+        })).map((a) => a.id);
+      case 'FACEBOOK':
+        return (await this.prisma.facebookAdsAccount.findMany({
+          where: { tenantId, status, ...filter('accountId') },
+          select: { accountId: true },
+        })).map((a) => a.accountId);
+      case 'TIKTOK':
+        return (await this.prisma.tikTokAdsAccount.findMany({
+          where: { tenantId, status, ...filter('advertiserId') },
+          select: { advertiserId: true },
+        })).map((a) => a.advertiserId);
+      case 'LINE_ADS':
+        return (await this.prisma.lineAdsAccount.findMany({
+          where: { tenantId, status, ...filter('channelId') },
+          select: { channelId: true },
+        })).map((a) => a.channelId);
+      case 'SHOPEE':
+        return (await this.prisma.shopeeAccount.findMany({
+          where: { tenantId, status, ...filter('shopId') },
+          select: { shopId: true },
+        })).map((a) => a.shopId);
+      case 'LAZADA':
+        return (await this.prisma.lazadaAccount.findMany({
+          where: { tenantId, status, ...filter('sellerId') },
+          select: { sellerId: true },
+        })).map((a) => a.sellerId);
+    }
+  }
 }
@@ -6,10 +6,39 @@ export type EntitlementKey =
   | 'MULTI_USER'
   | 'INTEGRATIONS';
 
+/**
+ * active: subscription is current
+ * grace:  expired/inactive but still inside the grace period; read-only, plan features kept
+ * lapsed: grace period is over, every gated feature is off
+ */
+export type SubscriptionAccess = 'active' | 'grace' | 'lapsed';
+
 export interface Entitlements {
   plan: 'BASIC' | 'STANDARD' | 'ENTERPRISE';
   status: 'ACTIVE' | 'INACTIVE' | 'TRIAL' | 'EXPIRED';
   endsAt?: string;
+  access: SubscriptionAccess;
+  /** Set while access is grace or lapsed */
+  graceEndsAt?: string;
   maxIntegrations: number;
   enabled: Record<EntitlementKey, boolean>;
 }
+
+/** Subscription fields of the tenant loaded by the JWT strategy */
+export interface TenantSubscription {
+  id?: string;
+  subscriptionPlan?: Entitlements['plan'] | null;
+  subscriptionStatus?: Entitlements['status'] | null;
+  subscriptionEndsAt?: Date | null;
+}
+
+/** Account tables that count towards maxIntegrations */
+export type ConnectablePlatform =
+  | 'GOOGLE_ADS'
+  | 'GOOGLE_ANALYTICS'
+  | 'SEARCH_CONSOLE'
+  | 'FACEBOOK'
+  | 'TIKTOK'
+  | 'LINE_ADS'
+  | 'SHOPEE'
+  | 'LAZADA';
@@ -5,6 +5,8 @@ import { FacebookAdsService } from '../facebook/facebook-ads.service';
 import { GoogleAnalyticsAdapterService } from '../google-analytics/google-analytics-adapter.service';
 import { TikTokAdsService } from '../tiktok/tiktok-ads.service';
 import { LineAdsAdapterService } from '../line-ads/line-ads-adapter.service';
+import { ShopeeAdsService } from '../shopee/shopee-ads.service';
+import { LazadaAdsService } from '../lazada/lazada-ads.service';
 import { AdPlatform } from '@prisma/client';
 
 @Injectable()
@@ -15,6 +17,8 @@ export class IntegrationFactory {
         private readonly googleAnalyticsAdapterService: GoogleAnalyticsAdapterService,
         private readonly tiktokAdsService: TikTokAdsService,
         private readonly lineAdsAdapterService: LineAdsAdapterService,
+        private readonly shopeeAdsService: ShopeeAdsService,
+        private readonly lazadaAdsService: LazadaAdsService,
     ) { }
 
     getAdapter(platform: string | AdPlatform): MarketingPlatformAdapter {
@@ -41,6 +45,12 @@ export class IntegrationFactory {
             case AdPlatform.LINE_ADS:
             case 'LINE_ADS':
                 return this.lineAdsAdapterService;
+            case AdPlatform.SHOPEE:
+            case 'SHOPEE':
+                return this.shopeeAdsService;
+            case AdPlatform.LAZADA:
+            case 'LAZADA':
+                return this.lazadaAdsService;
             default:
                 throw new NotImplementedException(`Platform ${platform} not supported`);
         }
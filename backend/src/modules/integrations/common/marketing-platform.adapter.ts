@@ -1,4 +1,4 @@
-import { Campaign, Metric } from '@prisma/client';
+import { AdGroupStatus, Campaign, CampaignStatus, Metric } from '@prisma/client';
 
 export interface DateRange {
     startDate: Date;
@@ -9,6 +9,57 @@ export interface PlatformCredentials {
     accessToken: string;
     refreshToken?: string;
     accountId: string;
+    /** Marketplace region/country code (Shopee region, Lazada country) */
+    region?: string;
+    /** Request-signing secret (LINE Ads); accessToken then holds the matching access key */
+    secretKey?: string;
+}
+
+/**
+ * Campaign fields that can be pushed back to the platform
+ * budget is in the account currency (daily budget where the platform has one)
+ */
+export interface CampaignWriteBackChanges {
+    status?: CampaignStatus;
+    budget?: number;
+    endDate?: Date | null;
+}
+
+/** Current platform-side values of the write-back fields */
+export interface RemoteCampaignState {
+    status: CampaignStatus;
+    budget: number;
+    endDate: Date | null;
+}
+
+/** Ad group / ad set as reported by the platform (budget and bid in the account currency) */
+export interface PlatformAdGroup {
+    externalId: string;
+    name: string;
+    status: AdGroupStatus;
+    budget?: number | null;
+    bidAmount?: number | null;
+    bidType?: string | null;
+}
+
+/** Ad / creative as reported by the platform */
+export interface PlatformAd {
+    externalId: string;
+    adGroupExternalId: string;
+    name: string;
+    status: AdGroupStatus;
+    creative?: Record<string, unknown> | null;
+}
+
+/** One day of delivery for a single ad */
+export interface PlatformAdMetric {
+    adExternalId: string;
+    date: Date;
+    impressions: number;
+    clicks: number;
+    spend: number;
+    conversions: number;
+    revenue: number;
 }
 
 export interface MarketingPlatformAdapter {
@@ -30,4 +81,37 @@ export interface MarketingPlatformAdapter {
      * Validate credentials and return account status
      */
     validateCredentials(credentials: PlatformCredentials): Promise<boolean>;
+
+    /**
+     * Fetch the ad groups (ad sets) of one campaign
+     */
+    fetchAdGroups?(credentials: PlatformCredentials, campaignExternalId: string): Promise<PlatformAdGroup[]>;
+
+    /**
+     * Fetch the ads of one campaign, across all of its ad groups
+     */
+    fetchAds?(credentials: PlatformCredentials, campaignExternalId: string): Promise<PlatformAd[]>;
+
+    /**
+     * Fetch daily per-ad metrics of one campaign
+     */
+    fetchAdMetrics?(
+        credentials: PlatformCredentials,
+        campaignExternalId: string,
+        range: DateRange,
+    ): Promise<PlatformAdMetric[]>;
+
+    /**
+     * Read the live status / budget / end date of one campaign (write-back platforms only)
+     */
+    fetchCampaignState?(credentials: PlatformCredentials, externalId: string): Promise<RemoteCampaignState>;
+
+    /**
+     * Push status / budget / end date changes to the platform (write-back platforms only)
+     */
+    updateCampaign?(
+        credentials: PlatformCredentials,
+        externalId: string,
+        changes: CampaignWriteBackChanges,
+    ): Promise<void>;
 }
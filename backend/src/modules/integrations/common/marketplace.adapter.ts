@@ -0,0 +1,89 @@
+import { MarketingPlatformAdapter, PlatformCredentials, DateRange } from './marketing-platform.adapter';
+
+/**
+ * Order rollup for one shop on one day (UTC date)
+ */
+export interface MarketplaceDailySales {
+    date: Date;
+    orders: number;
+    cancelledOrders: number;
+    unitsSold: number;
+    gmv: number;
+    currency: string;
+}
+
+/**
+ * A single order as returned by a marketplace, normalised for rollup
+ */
+export interface MarketplaceOrder {
+    createdAt: Date;
+    amount: number;
+    units: number;
+    currency: string;
+    cancelled: boolean;
+}
+
+/**
+ * Marketplaces (Shopee, Lazada) are ad platforms that also own the order data,
+ * so besides campaigns and ad metrics they expose daily sales.
+ */
+export interface MarketplaceAdapter extends MarketingPlatformAdapter {
+    /**
+     * Fetch orders in the range and roll them up per day
+     */
+    fetchDailySales(credentials: PlatformCredentials, range: DateRange): Promise<MarketplaceDailySales[]>;
+}
+
+export function isMarketplaceAdapter(adapter: MarketingPlatformAdapter): adapter is MarketplaceAdapter {
+    return typeof (adapter as MarketplaceAdapter).fetchDailySales === 'function';
+}
+
+/** Default currency per marketplace region/country code */
+export const MARKETPLACE_CURRENCY: Record<string, string> = {
+    TH: 'THB',
+    MY: 'MYR',
+    SG: 'SGD',
+    PH: 'PHP',
+    VN: 'VND',
+    ID: 'IDR',
+    TW: 'TWD',
+    BR: 'BRL',
+};
+
+export function marketplaceCurrency(region?: string): string {
+    return MARKETPLACE_CURRENCY[(region || 'TH').toUpperCase()] ?? 'THB';
+}
+
+/**
+ * Roll orders up into one row per UTC day. Cancelled orders are counted
+ * separately and excluded from orders, units and GMV.
+ */
+export function aggregateDailySales(orders: MarketplaceOrder[], fallbackCurrency: string): MarketplaceDailySales[] {
+    const byDay = new Map<string, MarketplaceDailySales>();
+
+    for (const order of orders) {
+        const key = order.createdAt.toISOString().slice(0, 10);
+        const day = byDay.get(key) ?? {
+            date: new Date(`${key}T00:00:00.000Z`),
+            orders: 0,
+            cancelledOrders: 0,
+            unitsSold: 0,
+            gmv: 0,
+            currency: order.currency || fallbackCurrency,
+        };
+
+        if (order.cancelled) {
+            day.cancelledOrders += 1;
+        } else {
+            day.orders += 1;
+            day.unitsSold += order.units;
+            day.gmv += order.amount;
+        }
+
+        byDay.set(key, day);
+    }
+
+    return [...byDay.values()]
+        .map((day) => ({ ...day, gmv: Math.round(day.gmv * 100) / 100 }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -4,6 +4,9 @@ import { ConfigService } from '@nestjs/config';
 import { Response } from 'express';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { FacebookAdsOAuthService } from './facebook-ads-oauth.service';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../../entitlements/entitlements.service';
 
 @ApiTags('auth/facebook/ads')
 @Controller('auth/facebook/ads')
@@ -13,13 +16,15 @@ export class FacebookAdsAuthController {
     constructor(
         private readonly oauthService: FacebookAdsOAuthService,
         private readonly configService: ConfigService,
+        private readonly entitlements: EntitlementsService,
     ) {
         // Use FRONTEND_URL from environment, fallback to Vite default port
         this.frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:5173');
     }
 
     @Get('url')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get Facebook Ads OAuth authorization URL' })
     async getAuthUrl(@Req() req: any) {
@@ -68,7 +73,8 @@ export class FacebookAdsAuthController {
     }
 
     @Get('temp-accounts')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get temporary accounts list for selection' })
     async getTempAccounts(@Query('tempToken') tempToken: string) {
@@ -79,7 +85,8 @@ export class FacebookAdsAuthController {
     }
 
     @Post('complete')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Complete Facebook Ads connection by selecting an account' })
     @ApiBody({ schema: { type: 'object', properties: { tempToken: { type: 'string' }, accountId: { type: 'string' } } } })
@@ -94,11 +101,14 @@ export class FacebookAdsAuthController {
             throw new BadRequestException('Missing tempToken or accountId');
         }
 
+        await this.entitlements.assertCanConnect(req.user.tenant, 'FACEBOOK', [accountId]);
+
         return this.oauthService.completeConnection(tempToken, accountId, tenantId);
     }
 
     @Get('accounts')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:read')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get connected Facebook Ads accounts' })
     async getConnectedAccounts(@Req() req: any) {
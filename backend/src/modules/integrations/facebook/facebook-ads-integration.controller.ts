@@ -2,6 +2,8 @@ import { Controller, Get, Delete, Req, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { FacebookAdsOAuthService } from './facebook-ads-oauth.service';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
 
 /**
  * Facebook Ads Integration Controller
@@ -12,7 +14,8 @@ import { FacebookAdsOAuthService } from './facebook-ads-oauth.service';
 @ApiTags('integrations/facebook-ads')
 @ApiBearerAuth()
 @Controller('integrations/facebook-ads')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('integrations:read')
 export class FacebookAdsIntegrationController {
     constructor(
         private readonly oauthService: FacebookAdsOAuthService,
@@ -99,6 +102,7 @@ export class FacebookAdsIntegrationController {
      * Removes all connected accounts for the tenant
      */
     @Delete()
+    @RequirePermissions('integrations:connect')
     @ApiOperation({ summary: 'Disconnect Facebook Ads integration' })
     @ApiResponse({
         status: 200,
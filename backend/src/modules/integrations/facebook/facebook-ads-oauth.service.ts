@@ -8,7 +8,7 @@ import { Cache } from 'cache-manager';
 import { v4 as uuidv4 } from 'uuid';
 import { firstValueFrom } from 'rxjs';
 import { AdPlatform } from '@prisma/client';
-import { EncryptionService } from '../../../common/services/encryption.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
 
 @Injectable()
 export class FacebookAdsOAuthService {
@@ -23,7 +23,7 @@ export class FacebookAdsOAuthService {
         private readonly configService: ConfigService,
         private readonly httpService: HttpService,
 
-        private readonly encryptionService: EncryptionService,
+        private readonly credentialVault: CredentialVaultService,
         @Inject(CACHE_MANAGER) private cacheManager: Cache,
     ) {
         this.appId = this.configService.get<string>('FACEBOOK_APP_ID');
@@ -71,7 +71,7 @@ export class FacebookAdsOAuthService {
         const shortLivedToken = tokenData.access_token;
 
         // Exchange for long-lived token
-        const longLivedToken = await this.exchangeForLongLivedToken(shortLivedToken);
+        const { accessToken: longLivedToken, expiresAt } = await this.exchangeForLongLivedToken(shortLivedToken);
 
         // Get User's Ad Accounts
         const accounts = await this.getAdAccounts(longLivedToken);
@@ -82,6 +82,7 @@ export class FacebookAdsOAuthService {
             `fb_temp_token:${tempToken}`,
             {
                 accessToken: longLivedToken,
+                expiresAt: expiresAt?.toISOString() ?? null,
                 accounts,
                 userId: storedState.userId,
                 tenantId: storedState.tenantId,
@@ -95,7 +96,11 @@ export class FacebookAdsOAuthService {
         };
     }
 
-    private async exchangeForLongLivedToken(shortLivedToken: string): Promise<string> {
+    /**
+     * Exchange a token for a long-lived one (~60 days). Exchanging a long-lived
+     * token again extends it, which is how Facebook tokens are refreshed.
+     */
+    private async exchangeForLongLivedToken(token: string): Promise<{ accessToken: string; expiresAt: Date | null }> {
         const url = `https://graph.facebook.com/${this.apiVersion}/oauth/access_token`;
         const { data } = await firstValueFrom(
             this.httpService.get(url, {
@@ -103,11 +108,31 @@ export class FacebookAdsOAuthService {
                     grant_type: 'fb_exchange_token',
                     client_id: this.appId,
                     client_secret: this.appSecret,
-                    fb_exchange_token: shortLivedToken,
+                    fb_exchange_token: token,
                 },
             }),
         );
-        return data.access_token;
+        return {
+            accessToken: data.access_token,
+            expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : null,
+        };
+    }
+
+    /**
+     * Extend the stored long-lived token of an account.
+     * Graph API errors are rethrown unchanged so callers can classify them.
+     */
+    async refreshAccessToken(accountId: string, tenantId: string): Promise<string> {
+        const credentialRef = { tenantId, platform: AdPlatform.FACEBOOK, accountId };
+        const stored = await this.credentialVault.get(credentialRef);
+        if (!stored?.accessToken) {
+            throw new BadRequestException('Facebook account is not authenticated. Please reconnect it.');
+        }
+
+        const { accessToken, expiresAt } = await this.exchangeForLongLivedToken(stored.accessToken);
+        await this.credentialVault.store(credentialRef, { accessToken }, { expiresAt });
+
+        return accessToken;
     }
 
     private async getAdAccounts(accessToken: string) {
@@ -148,10 +173,14 @@ export class FacebookAdsOAuthService {
                 tenantId,
                 accountId: selectedAccount.account_id || selectedAccount.id, // Facebook returns act_<id> sometimes, or just id
                 accountName: selectedAccount.name,
-                accessToken: this.encryptionService.encrypt(data.accessToken),
                 status: 'ACTIVE',
             },
         });
+        await this.credentialVault.store(
+            { tenantId, platform: AdPlatform.FACEBOOK, accountId: account.id },
+            { accessToken: data.accessToken },
+            { expiresAt: data.expiresAt ? new Date(data.expiresAt) : null },
+        );
 
         await this.cacheManager.del(`fb_temp_token:${tempToken}`);
 
@@ -175,6 +204,7 @@ export class FacebookAdsOAuthService {
         await this.prisma.facebookAdsAccount.deleteMany({
             where: { tenantId },
         });
+        await this.credentialVault.remove(tenantId, AdPlatform.FACEBOOK);
 
         await this.prisma.integration.updateMany({
             where: { tenantId, type: AdPlatform.FACEBOOK },
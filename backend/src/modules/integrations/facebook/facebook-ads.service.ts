@@ -1,16 +1,27 @@
 
-import { Injectable, Logger, NotImplementedException } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, NotImplementedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { HttpService } from '@nestjs/axios';
 import { PrismaService } from '../../prisma/prisma.service';
 import {
     MarketingPlatformAdapter,
     PlatformCredentials,
-    DateRange
+    DateRange,
+    CampaignWriteBackChanges,
+    RemoteCampaignState,
+    PlatformAd,
+    PlatformAdGroup,
+    PlatformAdMetric,
 } from '../common/marketing-platform.adapter';
 import { firstValueFrom } from 'rxjs';
-import { Campaign, Metric, CampaignStatus, AdPlatform, Prisma } from '@prisma/client';
-import { FacebookCampaignResponse, FacebookInsightsResponse } from './interfaces/facebook-api.types';
+import { Campaign, Metric, CampaignStatus, AdGroupStatus, AdPlatform, Prisma } from '@prisma/client';
+import {
+    FacebookAdResponse,
+    FacebookAdSetResponse,
+    FacebookCampaignResponse,
+    FacebookInsightsResponse,
+    FacebookPagedResponse,
+} from './interfaces/facebook-api.types';
 
 /**
  * Facebook Ads Platform Adapter
@@ -149,6 +160,174 @@ export class FacebookAdsService implements MarketingPlatformAdapter {
         }
     }
 
+    /**
+     * Ad sets of one campaign
+     */
+    async fetchAdGroups(credentials: PlatformCredentials, campaignExternalId: string): Promise<PlatformAdGroup[]> {
+        const adSets = await this.getAllPages<FacebookAdSetResponse>(`${campaignExternalId}/adsets`, {
+            access_token: credentials.accessToken,
+            fields: 'id,name,status,daily_budget,lifetime_budget,bid_amount,bid_strategy',
+        });
+
+        return adSets.map((adSet) => ({
+            externalId: adSet.id,
+            name: adSet.name,
+            status: this.mapAdStatus(adSet.status),
+            budget: adSet.daily_budget || adSet.lifetime_budget
+                ? this.toMajorUnits(adSet.daily_budget ?? adSet.lifetime_budget)
+                : null,
+            bidAmount: adSet.bid_amount != null ? adSet.bid_amount / 100 : null,
+            bidType: adSet.bid_strategy ?? null,
+        }));
+    }
+
+    /**
+     * Ads of one campaign with their creative summary
+     */
+    async fetchAds(credentials: PlatformCredentials, campaignExternalId: string): Promise<PlatformAd[]> {
+        const ads = await this.getAllPages<FacebookAdResponse>(`${campaignExternalId}/ads`, {
+            access_token: credentials.accessToken,
+            fields: 'id,name,status,adset_id,creative{id,title,body,thumbnail_url,object_url}',
+        });
+
+        return ads.map((ad) => ({
+            externalId: ad.id,
+            adGroupExternalId: ad.adset_id,
+            name: ad.name,
+            status: this.mapAdStatus(ad.status),
+            creative: ad.creative
+                ? {
+                    id: ad.creative.id,
+                    title: ad.creative.title ?? null,
+                    body: ad.creative.body ?? null,
+                    thumbnailUrl: ad.creative.thumbnail_url ?? null,
+                    url: ad.creative.object_url ?? null,
+                }
+                : null,
+        }));
+    }
+
+    /**
+     * Daily ad-level insights of one campaign
+     */
+    async fetchAdMetrics(
+        credentials: PlatformCredentials,
+        campaignExternalId: string,
+        range: DateRange,
+    ): Promise<PlatformAdMetric[]> {
+        const rows = await this.getAllPages<FacebookInsightsResponse>(`${campaignExternalId}/insights`, {
+            access_token: credentials.accessToken,
+            level: 'ad',
+            fields: 'ad_id,impressions,clicks,spend,conversions,purchase_roas',
+            time_range: {
+                since: range.startDate.toISOString().split('T')[0],
+                until: range.endDate.toISOString().split('T')[0],
+            },
+            time_increment: 1,
+        });
+
+        return rows.map((m) => {
+            const spend = Number(m.spend) || 0;
+            return {
+                adExternalId: m.ad_id,
+                date: new Date(m.date_start),
+                impressions: Number(m.impressions) || 0,
+                clicks: Number(m.clicks) || 0,
+                spend,
+                conversions: Number(m.conversions?.[0]?.value || 0),
+                revenue: m.purchase_roas ? spend * Number(m.purchase_roas[0]?.value || 0) : 0,
+            };
+        });
+    }
+
+    /**
+     * Read the live status / budget / stop time of one campaign
+     */
+    async fetchCampaignState(credentials: PlatformCredentials, externalId: string): Promise<RemoteCampaignState> {
+        const campaign = await this.getCampaign(credentials, externalId);
+        return {
+            status: this.mapStatus(campaign.status),
+            budget: this.toMajorUnits(campaign.daily_budget ?? campaign.lifetime_budget),
+            endDate: campaign.stop_time ? new Date(campaign.stop_time) : null,
+        };
+    }
+
+    /**
+     * Push status / budget / stop time to the Marketing API
+     * The budget goes to whichever of daily_budget / lifetime_budget the campaign uses;
+     * campaigns budgeted at ad set level can't be changed here.
+     */
+    async updateCampaign(
+        credentials: PlatformCredentials,
+        externalId: string,
+        changes: CampaignWriteBackChanges,
+    ): Promise<void> {
+        const params: Record<string, string | number> = { access_token: credentials.accessToken };
+
+        if (changes.status !== undefined) {
+            params.status = changes.status === CampaignStatus.ACTIVE ? 'ACTIVE' : 'PAUSED';
+        }
+        if (changes.endDate !== undefined) {
+            // Facebook clears the stop time with 0
+            params.stop_time = changes.endDate ? changes.endDate.toISOString() : 0;
+        }
+        if (changes.budget !== undefined) {
+            const campaign = await this.getCampaign(credentials, externalId);
+            const field = campaign.daily_budget ? 'daily_budget' : (campaign.lifetime_budget ? 'lifetime_budget' : null);
+            if (!field) {
+                throw new BadRequestException('This Facebook campaign is budgeted per ad set; change the budget on its ad sets');
+            }
+            params[field] = Math.round(changes.budget * 100);
+        }
+
+        try {
+            await firstValueFrom(
+                this.httpService.post(`${this.baseUrl}/${this.apiVersion}/${externalId}`, null, { params }),
+            );
+        } catch (error) {
+            const message = error.response?.data?.error?.message ?? error.message;
+            this.logger.error(`Failed to update Facebook campaign ${externalId}: ${message}`);
+            throw new BadRequestException(`Facebook rejected the change: ${message}`);
+        }
+    }
+
+    private async getCampaign(credentials: PlatformCredentials, externalId: string) {
+        const { data } = await firstValueFrom(
+            this.httpService.get<FacebookCampaignResponse>(`${this.baseUrl}/${this.apiVersion}/${externalId}`, {
+                params: {
+                    access_token: credentials.accessToken,
+                    fields: 'id,name,status,stop_time,daily_budget,lifetime_budget',
+                },
+            }),
+        );
+        return data;
+    }
+
+    /**
+     * Follow `paging.next` until the last page of a Graph API list
+     */
+    private async getAllPages<T>(path: string, params: Record<string, unknown>): Promise<T[]> {
+        const rows: T[] = [];
+        let { data } = await firstValueFrom(
+            this.httpService.get<FacebookPagedResponse<T>>(`${this.baseUrl}/${this.apiVersion}/${path}`, {
+                params: { limit: 500, ...params },
+            }),
+        );
+        rows.push(...data.data);
+
+        while (data.paging?.next) {
+            ({ data } = await firstValueFrom(this.httpService.get<FacebookPagedResponse<T>>(data.paging.next)));
+            rows.push(...data.data);
+        }
+
+        return rows;
+    }
+
+    /** Facebook budgets are in the account currency's minor unit */
+    private toMajorUnits(value?: string): number {
+        return value ? Number(value) / 100 : 0;
+    }
+
     /**
      * Exchange short-lived token for long-lived token
      */
@@ -157,6 +336,22 @@ export class FacebookAdsService implements MarketingPlatformAdapter {
         return shortLivedToken;
     }
 
+    /**
+     * Map Facebook ad set / ad status to AdGroupStatus enum
+     */
+    private mapAdStatus(fbStatus: string): AdGroupStatus {
+        switch (fbStatus?.toUpperCase()) {
+            case 'ACTIVE':
+                return AdGroupStatus.ACTIVE;
+            case 'DELETED':
+                return AdGroupStatus.DELETED;
+            case 'ARCHIVED':
+                return AdGroupStatus.ARCHIVED;
+            default:
+                return AdGroupStatus.PAUSED;
+        }
+    }
+
     /**
      * Map Facebook status to CampaignStatus enum
      */
@@ -9,7 +9,32 @@ export interface FacebookCampaignResponse {
     lifetime_budget?: string;
 }
 
+export interface FacebookAdSetResponse {
+    id: string;
+    name: string;
+    status: string;
+    daily_budget?: string;
+    lifetime_budget?: string;
+    bid_amount?: number;
+    bid_strategy?: string;
+}
+
+export interface FacebookAdResponse {
+    id: string;
+    name: string;
+    status: string;
+    adset_id: string;
+    creative?: { id: string; title?: string; body?: string; thumbnail_url?: string; object_url?: string };
+}
+
+/** Graph API list envelope; `paging.next` is absent on the last page */
+export interface FacebookPagedResponse<T> {
+    data: T[];
+    paging?: { next?: string };
+}
+
 export interface FacebookInsightsResponse {
+    ad_id?: string;
     date_start: string;
     date_stop: string;
     impressions: string;
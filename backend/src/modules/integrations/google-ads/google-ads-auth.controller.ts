@@ -4,6 +4,9 @@ import { ConfigService } from '@nestjs/config';
 import { Response } from 'express';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { GoogleAdsOAuthService } from './google-ads-oauth.service';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../../entitlements/entitlements.service';
 
 @ApiTags('auth/google/ads')
 @Controller('auth/google/ads')
@@ -14,6 +17,7 @@ export class GoogleAdsAuthController {
     constructor(
         private readonly oauthService: GoogleAdsOAuthService,
         private readonly configService: ConfigService,
+        private readonly entitlements: EntitlementsService,
     ) {
         // ✅ Use environment variable with fallback
         // Use FRONTEND_URL from environment, fallback to Vite default port
@@ -21,7 +25,8 @@ export class GoogleAdsAuthController {
     }
 
     @Get('url')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get Google Ads OAuth authorization URL' })
     async getAuthUrl(@Req() req: any) {
@@ -72,7 +77,8 @@ export class GoogleAdsAuthController {
     }
 
     @Get('temp-accounts')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get temporary accounts list for selection' })
     async getTempAccounts(@Query('tempToken') tempToken: string) {
@@ -83,7 +89,8 @@ export class GoogleAdsAuthController {
     }
 
     @Post('complete')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Complete Google Ads connection by selecting an account' })
     @ApiBody({ schema: { type: 'object', properties: { tempToken: { type: 'string' }, customerId: { type: 'string' } } } })
@@ -98,11 +105,14 @@ export class GoogleAdsAuthController {
             throw new BadRequestException('Missing tempToken or customerId');
         }
 
+        await this.entitlements.assertCanConnect(req.user.tenant, 'GOOGLE_ADS', [customerId.replace('customers/', '')]);
+
         return this.oauthService.completeConnection(tempToken, customerId, tenantId);
     }
 
     @Get('accounts')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:read')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get connected Google Ads accounts' })
     async getConnectedAccounts(@Req() req: any) {
@@ -5,11 +5,14 @@ import { GoogleAdsCampaignService } from './google-ads-campaign.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { UnifiedSyncService } from '../../sync/unified-sync.service';
 import { AdPlatform } from '@prisma/client';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
 
 @ApiTags('integrations/google-ads')
 @Controller('integrations/google-ads')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
+@RequirePermissions('integrations:read')
 export class GoogleAdsCampaignController {
     constructor(
         private readonly campaignService: GoogleAdsCampaignService,
@@ -45,6 +48,7 @@ export class GoogleAdsCampaignController {
     }
 
     @Post(':accountId/campaigns/sync')
+    @RequirePermissions('integrations:connect')
     @ApiOperation({ summary: 'Sync campaigns from Google Ads to database' })
     @ApiParam({ name: 'accountId', description: 'Google Ads Account ID' })
     async syncCampaigns(
@@ -58,6 +62,7 @@ export class GoogleAdsCampaignController {
     }
 
     @Post(':accountId/campaigns/:campaignId/sync-metrics')
+    @RequirePermissions('integrations:connect')
     @ApiOperation({ summary: 'Sync metrics for a specific campaign' })
     @ApiParam({ name: 'accountId', description: 'Google Ads Account ID' })
     @ApiParam({ name: 'campaignId', description: 'Campaign ID (internal database ID)' })
@@ -76,6 +81,7 @@ export class GoogleAdsCampaignController {
     }
 
     @Post(':accountId/campaigns/sync-all-metrics')
+    @RequirePermissions('integrations:connect')
     @ApiOperation({ summary: 'Sync metrics for all campaigns in an account' })
     @ApiParam({ name: 'accountId', description: 'Google Ads Account ID' })
     @ApiQuery({ name: 'days', required: false, description: 'Number of days to sync (default: 30)', type: Number })
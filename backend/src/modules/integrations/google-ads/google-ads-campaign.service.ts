@@ -101,4 +101,62 @@ export class GoogleAdsCampaignService {
 
     return this.googleAdsMapperService.transformMetrics(rawMetrics);
   }
+
+  /**
+   * Ad groups of one campaign (Facade)
+   */
+  async fetchAdGroups(accountId: string, campaignId: string) {
+    const account = await this.findAccount(accountId);
+    const rows = await this.googleAdsApiService.fetchAdGroups(account, campaignId);
+    return this.googleAdsMapperService.transformAdGroups(rows);
+  }
+
+  /**
+   * Ads of one campaign (Facade)
+   */
+  async fetchAds(accountId: string, campaignId: string) {
+    const account = await this.findAccount(accountId);
+    const rows = await this.googleAdsApiService.fetchAds(account, campaignId);
+    return this.googleAdsMapperService.transformAds(rows);
+  }
+
+  /**
+   * Daily per-ad metrics of one campaign (Facade)
+   */
+  async fetchAdMetrics(accountId: string, campaignId: string, startDate: Date, endDate: Date) {
+    const account = await this.findAccount(accountId);
+    const rows = await this.googleAdsApiService.fetchAdMetrics(account, campaignId, startDate, endDate);
+    return this.googleAdsMapperService.transformAdMetrics(rows);
+  }
+
+  /**
+   * Live status / budget / end date of one campaign (Facade)
+   */
+  async fetchCampaignState(accountId: string, campaignId: string) {
+    const account = await this.findAccount(accountId);
+    const row = await this.googleAdsApiService.fetchCampaignState(account, campaignId);
+
+    return {
+      status: this.googleAdsMapperService.mapCampaignStatus(row.campaign.status),
+      budget: (row.campaign_budget?.amount_micros || 0) / 1000000,
+      endDate: row.campaign.end_date && row.campaign.end_date < '2037-12-30' ? new Date(row.campaign.end_date) : null,
+    };
+  }
+
+  /**
+   * Push status / budget / end date changes to Google Ads (Facade)
+   */
+  async updateCampaign(
+    accountId: string,
+    campaignId: string,
+    changes: { status?: 'ENABLED' | 'PAUSED'; budget?: number; endDate?: Date | null },
+  ) {
+    const account = await this.findAccount(accountId);
+
+    await this.googleAdsApiService.updateCampaign(account, campaignId, {
+      status: changes.status,
+      budgetMicros: changes.budget !== undefined ? Math.round(changes.budget * 1000000) : undefined,
+      endDate: changes.endDate === undefined ? undefined : changes.endDate?.toISOString().split('T')[0] ?? null,
+    });
+  }
 }
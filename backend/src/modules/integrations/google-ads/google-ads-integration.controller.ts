@@ -4,15 +4,20 @@ import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { GoogleAdsOAuthService } from './google-ads-oauth.service';
 import { UnifiedSyncService } from '../../sync/unified-sync.service';
 import { AdPlatform } from '@prisma/client';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../../entitlements/entitlements.service';
 
 @ApiTags('integrations/google-ads')
 @Controller('integrations/google-ads')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
+@RequirePermissions('integrations:read')
 export class GoogleAdsIntegrationController {
   constructor(
     private readonly oauthService: GoogleAdsOAuthService,
     private readonly unifiedSyncService: UnifiedSyncService,
+    private readonly entitlements: EntitlementsService,
   ) { }
 
   @Get('status')
@@ -45,6 +50,7 @@ export class GoogleAdsIntegrationController {
   }
 
   @Get('auth-url')
+  @RequirePermissions('integrations:connect')
   @ApiOperation({ summary: 'Get Google Ads OAuth authorization URL' })
   async getAuthUrl(@Request() req) {
     const url = await this.oauthService.generateAuthUrl(
@@ -55,6 +61,7 @@ export class GoogleAdsIntegrationController {
   }
 
   @Post('oauth/callback')
+  @RequirePermissions('integrations:connect')
   @ApiOperation({ summary: 'Handle OAuth callback' })
   async handleCallback(
     @Body('code') code: string,
@@ -64,18 +71,22 @@ export class GoogleAdsIntegrationController {
   }
 
   @Get('temp-accounts')
+  @RequirePermissions('integrations:connect')
   @ApiOperation({ summary: 'Get temporary accounts for selection' })
   async getTempAccounts(@Query('tempToken') tempToken: string) {
     return this.oauthService.getTempAccounts(tempToken);
   }
 
   @Post('connect')
+  @RequirePermissions('integrations:connect')
   @ApiOperation({ summary: 'Connect a Google Ads account' })
   async connectAccount(
     @Body('tempToken') tempToken: string,
     @Body('customerId') customerId: string,
     @Request() req,
   ) {
+    await this.entitlements.assertCanConnect(req.user.tenant, 'GOOGLE_ADS', [customerId.replace('customers/', '')]);
+
     return this.oauthService.completeConnection(
       tempToken,
       customerId,
@@ -90,12 +101,14 @@ export class GoogleAdsIntegrationController {
   }
 
   @Delete()
+  @RequirePermissions('integrations:connect')
   @ApiOperation({ summary: 'Disconnect Google Ads integration' })
   async disconnect(@Request() req) {
     return this.oauthService.disconnect(req.user.tenantId);
   }
 
   @Post('sync')
+  @RequirePermissions('integrations:connect')
   @ApiOperation({ summary: 'Trigger manual sync for Google Ads' })
   async triggerSync(@Request() req) {
     // Use UnifiedSyncService to sync all accounts for this platform
@@ -9,7 +9,7 @@ import { Cache } from 'cache-manager';
 import { v4 as uuidv4 } from 'uuid';
 import { UnifiedSyncService } from '../../sync/unified-sync.service';
 import { AdPlatform } from '@prisma/client';
-import { EncryptionService } from '../../../common/services/encryption.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
 
 @Injectable()
 export class GoogleAdsOAuthService {
@@ -21,7 +21,7 @@ export class GoogleAdsOAuthService {
     private readonly googleAdsClientService: GoogleAdsClientService,
     private readonly googleAdsCampaignService: GoogleAdsCampaignService,
     private readonly unifiedSyncService: UnifiedSyncService,
-    private readonly encryptionService: EncryptionService,
+    private readonly credentialVault: CredentialVaultService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
   ) { }
 
@@ -178,7 +178,6 @@ export class GoogleAdsOAuthService {
       await this.prisma.googleAdsAccount.update({
         where: { id: existing.id },
         data: {
-          refreshToken: this.encryptionService.encrypt(refreshToken),
           accountName, // Update with proper name from MCC
           loginCustomerId: parentMccId,
           isMccAccount,
@@ -187,6 +186,10 @@ export class GoogleAdsOAuthService {
         }
       });
       accountId = existing.id;
+      await this.credentialVault.store(
+        { tenantId, platform: AdPlatform.GOOGLE_ADS, accountId },
+        { refreshToken },
+      );
     } else {
       const newAccount = await this.prisma.googleAdsAccount.create({
         data: {
@@ -194,16 +197,19 @@ export class GoogleAdsOAuthService {
           accountName, // Use name from MCC flatten
           loginCustomerId: parentMccId,
           isMccAccount,
-          refreshToken: this.encryptionService.encrypt(refreshToken),
           status: 'ENABLED',
           tenantId: tenantId,
-          accessToken: accessToken ? this.encryptionService.encrypt(accessToken) : 'placeholder',
           tokenExpiresAt: tokenExpiresAt,
           createdAt: new Date(),
           updatedAt: new Date(),
         }
       });
       accountId = newAccount.id;
+      await this.credentialVault.store(
+        { tenantId, platform: AdPlatform.GOOGLE_ADS, accountId },
+        { refreshToken, accessToken: accessToken ?? null },
+        { expiresAt: tokenExpiresAt },
+      );
     }
 
     // Clear cache
@@ -315,7 +321,6 @@ export class GoogleAdsOAuthService {
                 accountName: account.name,
                 loginCustomerId: loginCustomerId,
                 isMccAccount: false,
-                refreshToken: this.encryptionService.encrypt(refreshToken),
                 status: account.status,
                 updatedAt: new Date(),
               },
@@ -330,10 +335,8 @@ export class GoogleAdsOAuthService {
                 accountName: account.name,
                 loginCustomerId: loginCustomerId,
                 isMccAccount: false,
-                refreshToken: this.encryptionService.encrypt(refreshToken),
                 status: account.status,
                 tenantId: tenantId,
-                accessToken: 'placeholder',
                 createdAt: new Date(),
                 updatedAt: new Date(),
               },
@@ -346,6 +349,13 @@ export class GoogleAdsOAuthService {
       const results = await this.prisma.$transaction(operations);
       this.logger.log(`Processed ${results.length} accounts (Created/Updated)`);
 
+      for (const saved of results) {
+        await this.credentialVault.store(
+          { tenantId, platform: AdPlatform.GOOGLE_ADS, accountId: saved.id },
+          { refreshToken },
+        );
+      }
+
       return results;
     } catch (error) {
       this.logger.error('Failed to save client accounts:', error);
@@ -391,43 +401,60 @@ export class GoogleAdsOAuthService {
       throw new BadRequestException('Google Ads account not found');
     }
 
+    const stored = await this.credentialVault.get({ tenantId, platform: AdPlatform.GOOGLE_ADS, accountId: account.id });
+    if (!stored?.refreshToken) {
+      throw new BadRequestException('Google Ads account is not authenticated. Please reconnect it.');
+    }
+
     // Check if token is expired (or close to expiring in 5 mins)
     const now = new Date();
     const expiryBuffer = 5 * 60 * 1000; // 5 minutes
 
     // If no expiry date OR expired OR about to expire
-    if (!account.tokenExpiresAt || (account.tokenExpiresAt.getTime() - expiryBuffer) < now.getTime()) {
-
+    if (!stored.accessToken || !account.tokenExpiresAt || (account.tokenExpiresAt.getTime() - expiryBuffer) < now.getTime()) {
       this.logger.log(`[Token Refresh] Refreshing token for account ${customerId} (Expires: ${account.tokenExpiresAt})`);
+      return this.refreshAccessToken(account.id, tenantId);
+    }
 
-      const oauth2Client = this.createOAuthClient();
+    return stored.accessToken;
+  }
 
-      oauth2Client.setCredentials({
-        refresh_token: this.encryptionService.decrypt(account.refreshToken),
-      });
+  /**
+   * Exchange the stored refresh token for a new access token.
+   * Provider errors are rethrown unchanged so callers can classify them.
+   */
+  async refreshAccessToken(accountId: string, tenantId: string): Promise<string> {
+    const credentialRef = { tenantId, platform: AdPlatform.GOOGLE_ADS, accountId };
+    const stored = await this.credentialVault.get(credentialRef);
+    if (!stored?.refreshToken) {
+      throw new BadRequestException('Google Ads account is not authenticated. Please reconnect it.');
+    }
 
-      try {
-        const { credentials } = await oauth2Client.refreshAccessToken();
+    const oauth2Client = this.createOAuthClient();
+    oauth2Client.setCredentials({
+      refresh_token: stored.refreshToken,
+    });
 
-        // Update in database
-        await this.prisma.googleAdsAccount.update({
-          where: { id: account.id },
-          data: {
-            accessToken: this.encryptionService.encrypt(credentials.access_token),
-            tokenExpiresAt: credentials.expiry_date
-              ? new Date(credentials.expiry_date)
-              : null,
-          },
-        });
+    try {
+      const { credentials } = await oauth2Client.refreshAccessToken();
+
+      // Update in database
+      const tokenExpiresAt = credentials.expiry_date ? new Date(credentials.expiry_date) : null;
+      await this.credentialVault.store(
+        credentialRef,
+        { accessToken: credentials.access_token },
+        { expiresAt: tokenExpiresAt },
+      );
+      await this.prisma.googleAdsAccount.update({
+        where: { id: accountId },
+        data: { tokenExpiresAt },
+      });
 
-        return credentials.access_token;
-      } catch (error) {
-        this.logger.error(`[Token Refresh] Failed: ${error.message}`);
-        throw error;
-      }
+      return credentials.access_token;
+    } catch (error) {
+      this.logger.error(`[Token Refresh] Failed: ${error.message}`);
+      throw error;
     }
-
-    return this.encryptionService.decrypt(account.accessToken);
   }
 
   async disconnect(tenantId: string) {
@@ -436,6 +463,7 @@ export class GoogleAdsOAuthService {
     await this.prisma.googleAdsAccount.deleteMany({
       where: { tenantId }
     });
+    await this.credentialVault.remove(tenantId, AdPlatform.GOOGLE_ADS);
 
     await this.prisma.integration.upsert({
       where: { id: '___never_match___' },
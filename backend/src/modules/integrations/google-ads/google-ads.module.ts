@@ -21,7 +21,7 @@ import { DashboardModule } from '../../dashboard/dashboard.module';
     ConfigModule,
     PrismaModule,
     HttpModule,
-    CommonModule, // 🔑 Provides EncryptionService for token decryption
+    CommonModule,
     forwardRef(() => SyncModule),
     DashboardModule,
   ],
@@ -2,9 +2,14 @@ import { Injectable, Logger } from '@nestjs/common';
 import {
     MarketingPlatformAdapter,
     PlatformCredentials,
-    DateRange
+    DateRange,
+    CampaignWriteBackChanges,
+    RemoteCampaignState,
+    PlatformAd,
+    PlatformAdGroup,
+    PlatformAdMetric,
 } from '../common/marketing-platform.adapter';
-import { Campaign, Metric, Prisma, AdPlatform } from '@prisma/client';
+import { Campaign, Metric, Prisma, AdPlatform, CampaignStatus } from '@prisma/client';
 import { GoogleAdsCampaignService } from './google-ads-campaign.service';
 
 /**
@@ -85,4 +90,44 @@ export class GoogleAdsService implements MarketingPlatformAdapter {
             return [];
         }
     }
+
+    async fetchAdGroups(credentials: PlatformCredentials, campaignExternalId: string): Promise<PlatformAdGroup[]> {
+        return this.campaignService.fetchAdGroups(credentials.accountId, campaignExternalId);
+    }
+
+    async fetchAds(credentials: PlatformCredentials, campaignExternalId: string): Promise<PlatformAd[]> {
+        return this.campaignService.fetchAds(credentials.accountId, campaignExternalId);
+    }
+
+    async fetchAdMetrics(
+        credentials: PlatformCredentials,
+        campaignExternalId: string,
+        range: DateRange,
+    ): Promise<PlatformAdMetric[]> {
+        return this.campaignService.fetchAdMetrics(
+            credentials.accountId,
+            campaignExternalId,
+            range.startDate,
+            range.endDate,
+        );
+    }
+
+    async fetchCampaignState(credentials: PlatformCredentials, externalId: string): Promise<RemoteCampaignState> {
+        return this.campaignService.fetchCampaignState(credentials.accountId, externalId);
+    }
+
+    async updateCampaign(
+        credentials: PlatformCredentials,
+        externalId: string,
+        changes: CampaignWriteBackChanges,
+    ): Promise<void> {
+        this.logger.log(`Updating Google Ads campaign ${externalId}`);
+        await this.campaignService.updateCampaign(credentials.accountId, externalId, {
+            status: changes.status === undefined
+                ? undefined
+                : (changes.status === CampaignStatus.ACTIVE ? 'ENABLED' : 'PAUSED'),
+            budget: changes.budget,
+            endDate: changes.endDate,
+        });
+    }
 }
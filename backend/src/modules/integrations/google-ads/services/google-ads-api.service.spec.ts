@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { GoogleAdsApiService } from './google-ads-api.service';
 import { GoogleAdsClientService } from './google-ads-client.service';
+import { CredentialVaultService } from '../../../credential-vault/credential-vault.service';
 import { BadRequestException } from '@nestjs/common';
 
 describe('GoogleAdsApiService', () => {
@@ -28,6 +29,16 @@ describe('GoogleAdsApiService', () => {
         getCustomer: jest.fn(),
     };
 
+    // Tokens are stored per account row; account-1 is connected, others are not
+    const mockCredentialVault = {
+        get: jest.fn(async ({ accountId }) =>
+            accountId === 'account-1'
+                ? { accessToken: 'mock-access-token', refreshToken: 'mock-refresh-token', secret: null }
+                : null,
+        ),
+        store: jest.fn(),
+    };
+
     beforeEach(async () => {
         const module: TestingModule = await Test.createTestingModule({
             providers: [
@@ -35,6 +46,7 @@ describe('GoogleAdsApiService', () => {
                 { provide: ConfigService, useValue: mockConfigService },
                 { provide: PrismaService, useValue: mockPrismaService },
                 { provide: GoogleAdsClientService, useValue: mockGoogleAdsClientService },
+                { provide: CredentialVaultService, useValue: mockCredentialVault },
             ],
         }).compile();
 
@@ -51,8 +63,9 @@ describe('GoogleAdsApiService', () => {
         it('should fetch campaigns successfully', async () => {
             const mockAccount = {
                 id: 'account-1',
+                tenantId: 'tenant-1',
                 customerId: '1234567890',
-                refreshToken: 'mock-refresh-token',
+                tokenExpiresAt: new Date(Date.now() + 3600000), // Valid token
             };
 
             const mockCustomer = {
@@ -65,14 +78,15 @@ describe('GoogleAdsApiService', () => {
 
             expect(mockGoogleAdsClientService.getCustomer).toHaveBeenCalledWith(
                 mockAccount.customerId,
-                mockAccount.refreshToken,
+                'mock-refresh-token',
+                undefined,
             );
             expect(mockCustomer.query).toHaveBeenCalled();
             expect(result).toHaveLength(1);
         });
 
         it('should throw error if account has no refresh token', async () => {
-            const mockAccount = { id: 'account-1' }; // No refresh token
+            const mockAccount = { id: 'account-2', tenantId: 'tenant-1' }; // No refresh token
 
             await expect(service.fetchCampaigns(mockAccount)).rejects.toThrow(
                 'Google Ads account not found or not connected',
@@ -84,8 +98,8 @@ describe('GoogleAdsApiService', () => {
         it('should fetch metrics successfully', async () => {
             const mockAccount = {
                 id: 'account-1',
+                tenantId: 'tenant-1',
                 customerId: '1234567890',
-                refreshToken: 'mock-refresh-token',
                 tokenExpiresAt: new Date(Date.now() + 3600000), // Valid token
             };
 
@@ -106,7 +120,7 @@ describe('GoogleAdsApiService', () => {
         });
 
         it('should throw BadRequestException if no refresh token', async () => {
-            const mockAccount = { id: 'account-1' };
+            const mockAccount = { id: 'account-2', tenantId: 'tenant-1' };
 
             await expect(
                 service.fetchCampaignMetrics(mockAccount, 'c-1', new Date(), new Date()),
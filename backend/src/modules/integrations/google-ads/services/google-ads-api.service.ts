@@ -1,9 +1,11 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { enums, ResourceNames } from 'google-ads-api';
 import { google } from 'googleapis';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { GoogleAdsClientService } from './google-ads-client.service';
-import { EncryptionService } from '../../../../common/services/encryption.service';
+import { AdPlatform } from '@prisma/client';
+import { CredentialVaultService } from '../../../credential-vault/credential-vault.service';
 
 /**
  * GoogleAdsApiService
@@ -16,10 +18,9 @@ import { EncryptionService } from '../../../../common/services/encryption.servic
  * - `customer_id` is the Target (Child) Account we are querying
  * - This "impersonation" pattern is REQUIRED when using MCC-based access
  * 
- * CRITICAL - TOKEN ENCRYPTION:
- * - Tokens stored in database are ENCRYPTED using EncryptionService
- * - MUST decrypt tokens before passing to Google APIs
- * - Failure to decrypt causes "invalid_grant" error
+ * TOKENS:
+ * - Tokens live encrypted in the credential vault, keyed by the account row id
+ * - CredentialVaultService returns them decrypted, ready for the Google APIs
  * 
  * ARCHITECTURE:
  * - This service delegates API calls to GoogleAdsClientService.getCustomer()
@@ -34,7 +35,7 @@ export class GoogleAdsApiService {
         private readonly configService: ConfigService,
         private readonly prisma: PrismaService,
         private readonly googleAdsClientService: GoogleAdsClientService,
-        private readonly encryptionService: EncryptionService, // 🔑 CRITICAL: For decrypting tokens
+        private readonly credentialVault: CredentialVaultService,
     ) {
         // Startup validation: Log configuration status
         const clientId = this.configService.get('GOOGLE_CLIENT_ID');
@@ -69,13 +70,17 @@ export class GoogleAdsApiService {
         );
     }
 
+    private credentialRef(account: any) {
+        return { tenantId: account.tenantId, platform: AdPlatform.GOOGLE_ADS, accountId: account.id };
+    }
+
     /**
-     * Decrypt refresh token from database
-     * CRITICAL: Tokens in DB are encrypted, must decrypt before use!
+     * Refresh token from the credential vault, or null if the account was never authorized
      */
-    private decryptRefreshToken(encryptedToken: string): string {
+    private async getRefreshToken(account: any): Promise<string | null> {
         try {
-            return this.encryptionService.decrypt(encryptedToken);
+            const stored = await this.credentialVault.get(this.credentialRef(account));
+            return stored?.refreshToken ?? null;
         } catch (error: any) {
             this.logger.error(`Failed to decrypt refresh token: ${error.message}`);
             throw new BadRequestException('Failed to decrypt token. Token may be corrupted.');
@@ -90,14 +95,15 @@ export class GoogleAdsApiService {
     async refreshTokenIfNeeded(account: any): Promise<void> {
         const now = new Date();
         const expiryBuffer = 5 * 60 * 1000; // 5 minutes buffer
+        const stored = await this.credentialVault.get(this.credentialRef(account));
 
         const shouldRefresh =
             !account.tokenExpiresAt ||
             account.tokenExpiresAt < now ||
             (account.tokenExpiresAt.getTime() - expiryBuffer) < now.getTime() ||
-            !account.accessToken;
+            !stored?.accessToken;
 
-        if (shouldRefresh && account.refreshToken) {
+        if (shouldRefresh && stored?.refreshToken) {
             try {
                 this.logger.log(`[Token Refresh] Checking status for account ${account.id}:`);
                 this.logger.log(`- Now: ${now.toISOString()}`);
@@ -105,33 +111,30 @@ export class GoogleAdsApiService {
 
                 this.logger.log(`Refreshing token for account ${account.id}`);
 
-                // 🔑 CRITICAL FIX: Decrypt the refresh token before use!
-                const decryptedRefreshToken = this.decryptRefreshToken(account.refreshToken);
-
                 // Use fresh client per request (stateless)
                 const oauth2Client = this.createOAuthClient();
                 oauth2Client.setCredentials({
-                    refresh_token: decryptedRefreshToken, // ✅ Use DECRYPTED token
+                    refresh_token: stored.refreshToken,
                 });
 
                 const { credentials } = await oauth2Client.refreshAccessToken();
+                const tokenExpiresAt = credentials.expiry_date
+                    ? new Date(credentials.expiry_date)
+                    : null;
 
-                // Store encrypted access token back to DB
+                // Store the new access token in the vault
+                await this.credentialVault.store(
+                    this.credentialRef(account),
+                    { accessToken: credentials.access_token },
+                    { expiresAt: tokenExpiresAt },
+                );
                 await this.prisma.googleAdsAccount.update({
                     where: { id: account.id },
-                    data: {
-                        accessToken: this.encryptionService.encrypt(credentials.access_token),
-                        tokenExpiresAt: credentials.expiry_date
-                            ? new Date(credentials.expiry_date)
-                            : null,
-                    },
+                    data: { tokenExpiresAt },
                 });
 
-                // Update account object in memory (keep encrypted for consistency)
-                account.accessToken = this.encryptionService.encrypt(credentials.access_token);
-                account.tokenExpiresAt = credentials.expiry_date
-                    ? new Date(credentials.expiry_date)
-                    : null;
+                // Update account object in memory
+                account.tokenExpiresAt = tokenExpiresAt;
 
                 this.logger.log(`Token refreshed successfully for account ${account.id}`);
             } catch (error: any) {
@@ -154,21 +157,19 @@ export class GoogleAdsApiService {
      * @returns Array of campaign data from Google Ads API
      */
     async fetchCampaigns(account: any) {
-        if (!account || !account.refreshToken) {
+        const refreshToken = account ? await this.getRefreshToken(account) : null;
+        if (!refreshToken) {
             throw new Error('Google Ads account not found or not connected');
         }
 
         await this.refreshTokenIfNeeded(account);
 
-        // 🔑 CRITICAL FIX: Decrypt the refresh token before passing to API!
-        const decryptedRefreshToken = this.decryptRefreshToken(account.refreshToken);
-
         // ================================================================
         // CRITICAL FIX: Use tenant-specific loginCustomerId
         // ================================================================
         const customer = this.googleAdsClientService.getCustomer(
             account.customerId,       // Target (Child) Account ID
-            decryptedRefreshToken,    // ✅ Use DECRYPTED token
+            refreshToken,
             account.loginCustomerId   // ✅ Use Tenant-specific MCC ID if exists
         );
 
@@ -178,6 +179,8 @@ export class GoogleAdsApiService {
         campaign.name,
         campaign.status,
         campaign.advertising_channel_type,
+        campaign.end_date,
+        campaign_budget.amount_micros,
         metrics.clicks,
         metrics.impressions,
         metrics.cost_micros,
@@ -236,22 +239,20 @@ export class GoogleAdsApiService {
         startDate: Date,
         endDate: Date,
     ) {
-        if (!account.refreshToken) {
+        const refreshToken = await this.getRefreshToken(account);
+        if (!refreshToken) {
             throw new BadRequestException('Account not authenticated. Please reconnect your Google Ads account.');
         }
 
         await this.refreshTokenIfNeeded(account);
 
         try {
-            // 🔑 CRITICAL FIX: Decrypt the refresh token before passing to API!
-            const decryptedRefreshToken = this.decryptRefreshToken(account.refreshToken);
-
             // ================================================================
             // CRITICAL FIX: Use tenant-specific loginCustomerId 
             // ================================================================
             const customer = this.googleAdsClientService.getCustomer(
                 account.customerId,       // Target (Child) Account ID
-                decryptedRefreshToken,    // ✅ Use DECRYPTED token
+                refreshToken,
                 account.loginCustomerId   // ✅ Use Tenant-specific MCC ID if exists
             );
 
@@ -287,6 +288,166 @@ export class GoogleAdsApiService {
         }
     }
 
+    /**
+     * Fetch the ad groups of one campaign
+     */
+    async fetchAdGroups(account: any, campaignId: string) {
+        const customer = await this.getCampaignCustomer(account, campaignId);
+
+        try {
+            return await customer.query(`
+        SELECT
+          ad_group.id,
+          ad_group.name,
+          ad_group.status,
+          ad_group.type,
+          ad_group.cpc_bid_micros
+        FROM ad_group
+        WHERE
+          campaign.id = ${campaignId}
+          AND ad_group.status != 'REMOVED'
+      `);
+        } catch (error: any) {
+            this.handleApiError(error, account.id, campaignId);
+            return [];
+        }
+    }
+
+    /**
+     * Fetch the ads (ad_group_ad) of one campaign
+     */
+    async fetchAds(account: any, campaignId: string) {
+        const customer = await this.getCampaignCustomer(account, campaignId);
+
+        try {
+            return await customer.query(`
+        SELECT
+          ad_group.id,
+          ad_group_ad.status,
+          ad_group_ad.ad.id,
+          ad_group_ad.ad.name,
+          ad_group_ad.ad.type,
+          ad_group_ad.ad.final_urls,
+          ad_group_ad.ad.responsive_search_ad.headlines
+        FROM ad_group_ad
+        WHERE
+          campaign.id = ${campaignId}
+          AND ad_group_ad.status != 'REMOVED'
+      `);
+        } catch (error: any) {
+            this.handleApiError(error, account.id, campaignId);
+            return [];
+        }
+    }
+
+    /**
+     * Fetch daily per-ad metrics of one campaign
+     */
+    async fetchAdMetrics(account: any, campaignId: string, startDate: Date, endDate: Date) {
+        const customer = await this.getCampaignCustomer(account, campaignId);
+        const startDateStr = startDate.toISOString().split('T')[0];
+        const endDateStr = endDate.toISOString().split('T')[0];
+
+        try {
+            return await customer.query(`
+        SELECT
+          ad_group_ad.ad.id,
+          segments.date,
+          metrics.impressions,
+          metrics.clicks,
+          metrics.cost_micros,
+          metrics.conversions,
+          metrics.conversions_value
+        FROM ad_group_ad
+        WHERE
+          campaign.id = ${campaignId}
+          AND segments.date >= '${startDateStr}'
+          AND segments.date <= '${endDateStr}'
+      `);
+        } catch (error: any) {
+            this.handleApiError(error, account.id, campaignId);
+            return [];
+        }
+    }
+
+    /**
+     * Read status, daily budget and end date of a single campaign (write-back conflict check)
+     */
+    async fetchCampaignState(account: any, campaignId: string) {
+        const customer = await this.getCampaignCustomer(account, campaignId);
+
+        const [row] = await customer.query(`
+      SELECT
+        campaign.id,
+        campaign.status,
+        campaign.end_date,
+        campaign.campaign_budget,
+        campaign_budget.amount_micros
+      FROM campaign
+      WHERE campaign.id = ${campaignId}
+    `);
+
+        if (!row) {
+            throw new NotFoundException(`Google Ads campaign ${campaignId} not found`);
+        }
+        return row;
+    }
+
+    /**
+     * Push status / daily budget / end date to Google Ads
+     * The budget lives on a separate CampaignBudget resource, so it is a second mutate call.
+     */
+    async updateCampaign(
+        account: any,
+        campaignId: string,
+        changes: { status?: 'ENABLED' | 'PAUSED'; budgetMicros?: number; endDate?: string | null },
+    ) {
+        const customer = await this.getCampaignCustomer(account, campaignId);
+        const resourceName = ResourceNames.campaign(account.customerId, campaignId);
+
+        try {
+            if (changes.status !== undefined || changes.endDate !== undefined) {
+                await customer.campaigns.update([{
+                    resource_name: resourceName,
+                    ...(changes.status !== undefined && { status: enums.CampaignStatus[changes.status] }),
+                    // Google Ads has no "clear end date"; the far-future sentinel means "runs indefinitely"
+                    ...(changes.endDate !== undefined && { end_date: changes.endDate ?? '2037-12-30' }),
+                }]);
+            }
+
+            if (changes.budgetMicros !== undefined) {
+                const row = await this.fetchCampaignState(account, campaignId);
+                await customer.campaignBudgets.update([{
+                    resource_name: row.campaign.campaign_budget,
+                    amount_micros: changes.budgetMicros,
+                }]);
+            }
+        } catch (error: any) {
+            const message = error?.errors?.map((e: any) => e.message).join(', ') || error?.message || 'Unknown error';
+            this.logger.error(`Failed to update Google Ads campaign ${campaignId}: ${message}`);
+            throw new BadRequestException(`Google Ads rejected the change: ${message}`);
+        }
+    }
+
+    private async getCampaignCustomer(account: any, campaignId: string) {
+        const refreshToken = account ? await this.getRefreshToken(account) : null;
+        if (!refreshToken) {
+            throw new BadRequestException('Account not authenticated. Please reconnect your Google Ads account.');
+        }
+        // campaignId is interpolated into GAQL
+        if (!/^\d+$/.test(campaignId)) {
+            throw new BadRequestException(`Invalid Google Ads campaign id: ${campaignId}`);
+        }
+
+        await this.refreshTokenIfNeeded(account);
+
+        return this.googleAdsClientService.getCustomer(
+            account.customerId,
+            refreshToken,
+            account.loginCustomerId,
+        );
+    }
+
     /**
      * Centralized error handler for Google Ads API errors
      * Provides detailed diagnosis and user-friendly messages
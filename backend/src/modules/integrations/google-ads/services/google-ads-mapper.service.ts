@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
-import { CampaignStatus, AdPlatform } from '@prisma/client';
+import { CampaignStatus, AdGroupStatus, AdPlatform } from '@prisma/client';
+import { PlatformAd, PlatformAdGroup, PlatformAdMetric } from '../../common/marketing-platform.adapter';
 
 @Injectable()
 export class GoogleAdsMapperService {
@@ -30,6 +31,63 @@ export class GoogleAdsMapperService {
         }
     }
 
+    /**
+     * Map Google Ads ad group / ad status (same ENABLED / PAUSED / REMOVED enum) to AdGroupStatus
+     */
+    mapAdGroupStatus(googleStatus: number | string): AdGroupStatus {
+        switch (googleStatus) {
+            case 2:
+            case 'ENABLED':
+                return AdGroupStatus.ACTIVE;
+            case 4:
+            case 'REMOVED':
+                return AdGroupStatus.DELETED;
+            default:
+                return AdGroupStatus.PAUSED;
+        }
+    }
+
+    transformAdGroups(results: any[]): PlatformAdGroup[] {
+        return results.map((row: any) => ({
+            externalId: row.ad_group.id.toString(),
+            name: row.ad_group.name,
+            status: this.mapAdGroupStatus(row.ad_group.status),
+            budget: null, // Google Ads budgets live on the campaign
+            bidAmount: row.ad_group.cpc_bid_micros ? row.ad_group.cpc_bid_micros / 1000000 : null,
+            bidType: row.ad_group.type != null ? String(row.ad_group.type) : null,
+        }));
+    }
+
+    transformAds(results: any[]): PlatformAd[] {
+        return results.map((row: any) => {
+            const ad = row.ad_group_ad.ad;
+            const headlines = (ad.responsive_search_ad?.headlines ?? []).map((h: any) => h.text).filter(Boolean);
+            return {
+                externalId: ad.id.toString(),
+                adGroupExternalId: row.ad_group.id.toString(),
+                name: ad.name || headlines[0] || `Ad ${ad.id}`,
+                status: this.mapAdGroupStatus(row.ad_group_ad.status),
+                creative: {
+                    type: ad.type,
+                    headlines,
+                    finalUrls: ad.final_urls ?? [],
+                },
+            };
+        });
+    }
+
+    transformAdMetrics(results: any[]): PlatformAdMetric[] {
+        return results.map((row: any) => ({
+            adExternalId: row.ad_group_ad.ad.id.toString(),
+            date: new Date(row.segments.date),
+            impressions: parseInt(row.metrics?.impressions || '0'),
+            clicks: parseInt(row.metrics?.clicks || '0'),
+            spend: (row.metrics?.cost_micros || 0) / 1000000,
+            conversions: parseFloat(row.metrics?.conversions || '0'),
+            revenue: parseFloat(row.metrics?.conversions_value || '0'),
+        }));
+    }
+
     /**
      * Transform API campaign results to internal format
      */
@@ -47,7 +105,8 @@ export class GoogleAdsMapperService {
                 conversions: row.metrics?.conversions || 0,
                 ctr: row.metrics?.ctr || 0,
             },
-            budget: 0, // Initialize budget for type safety
+            budget: (row.campaign_budget?.amount_micros || 0) / 1000000, // Daily budget, micros to currency
+            endDate: row.campaign.end_date ? new Date(row.campaign.end_date) : undefined,
         }));
     }
 
@@ -1,7 +1,9 @@
 import { Injectable, Logger, UnauthorizedException, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { google } from 'googleapis';
+import { AdPlatform } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
 
 @Injectable()
 export class GoogleAnalyticsApiService {
@@ -11,6 +13,7 @@ export class GoogleAnalyticsApiService {
     constructor(
         private readonly configService: ConfigService,
         private readonly prisma: PrismaService,
+        private readonly credentialVault: CredentialVaultService,
     ) {
         this.oauth2Client = new google.auth.OAuth2(
             this.configService.get('GOOGLE_CLIENT_ID'),
@@ -20,6 +23,7 @@ export class GoogleAnalyticsApiService {
 
     /**
      * Run a GA4 report with automatic token refresh and error handling
+     * account carries the decrypted accessToken/refreshToken from the credential vault
      */
     async runReport(account: any, requestBody: any) {
         try {
@@ -73,30 +77,7 @@ export class GoogleAnalyticsApiService {
         // Refresh if expired or about to expire (within 5 mins)
         if (account.tokenExpiresAt && account.tokenExpiresAt.getTime() - now.getTime() < 5 * 60 * 1000) {
             try {
-                this.logger.log(`Refreshing GA4 token for account ${account.id}`);
-
-                // Set refresh token on the main client instance to refresh
-                this.oauth2Client.setCredentials({
-                    refresh_token: account.refreshToken
-                });
-
-                const { credentials } = await this.oauth2Client.refreshAccessToken();
-
-                // Update DB
-                await this.prisma.googleAnalyticsAccount.update({
-                    where: { id: account.id },
-                    data: {
-                        accessToken: credentials.access_token,
-                        tokenExpiresAt: credentials.expiry_date ? new Date(credentials.expiry_date) : undefined
-                    }
-                });
-
-                // Update local object reference
-                account.accessToken = credentials.access_token;
-                if (credentials.expiry_date) {
-                    account.tokenExpiresAt = new Date(credentials.expiry_date);
-                }
-
+                await this.refreshAccessToken(account);
             } catch (error) {
                 this.logger.error(`Failed to refresh GA4 token: ${error.message}`);
                 throw new UnauthorizedException('Failed to refresh authentication token. Please reconnect GA4.');
@@ -104,6 +85,41 @@ export class GoogleAnalyticsApiService {
         }
     }
 
+    /**
+     * Exchange the refresh token for a new access token and store it.
+     * Provider errors are rethrown unchanged so callers can classify them.
+     */
+    async refreshAccessToken(account: any): Promise<string> {
+        this.logger.log(`Refreshing GA4 token for account ${account.id}`);
+
+        // Set refresh token on the main client instance to refresh
+        this.oauth2Client.setCredentials({
+            refresh_token: account.refreshToken
+        });
+
+        const { credentials } = await this.oauth2Client.refreshAccessToken();
+
+        // Update vault and DB
+        const tokenExpiresAt = credentials.expiry_date ? new Date(credentials.expiry_date) : undefined;
+        await this.credentialVault.store(
+            { tenantId: account.tenantId, platform: AdPlatform.GOOGLE_ANALYTICS, accountId: account.id },
+            { accessToken: credentials.access_token },
+            { expiresAt: tokenExpiresAt },
+        );
+        await this.prisma.googleAnalyticsAccount.update({
+            where: { id: account.id },
+            data: { tokenExpiresAt }
+        });
+
+        // Update local object reference
+        account.accessToken = credentials.access_token;
+        if (tokenExpiresAt) {
+            account.tokenExpiresAt = tokenExpiresAt;
+        }
+
+        return credentials.access_token;
+    }
+
     /**
      * Centralized Error Handling
      */
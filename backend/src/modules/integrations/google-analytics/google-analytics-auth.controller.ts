@@ -5,6 +5,9 @@ import { Response } from 'express';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { GoogleAnalyticsOAuthService } from './google-analytics-oauth.service';
 import { CurrentUser } from '../../../common/decorators/current-user.decorator';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../../entitlements/entitlements.service';
 
 @ApiTags('auth/google/analytics')
 @Controller('auth/google/analytics')
@@ -16,6 +19,7 @@ export class GoogleAnalyticsAuthController {
     constructor(
         private readonly oauthService: GoogleAnalyticsOAuthService,
         private readonly configService: ConfigService,
+        private readonly entitlements: EntitlementsService,
     ) {
         // ✅ Use environment variable with fallback
         // Use FRONTEND_URL from environment, fallback to Vite default port
@@ -23,7 +27,8 @@ export class GoogleAnalyticsAuthController {
     }
 
     @Get('url')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get Google Analytics OAuth authorization URL' })
     async getAuthUrl(@Req() req: any) {
@@ -75,7 +80,8 @@ export class GoogleAnalyticsAuthController {
     }
 
     @Get('temp-properties')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get temporary properties list for selection' })
     async getTempProperties(@Query('tempToken') tempToken: string) {
@@ -86,7 +92,8 @@ export class GoogleAnalyticsAuthController {
     }
 
     @Post('complete')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Complete GA4 connection by selecting a property' })
     @ApiBody({ schema: { type: 'object', properties: { tempToken: { type: 'string' }, propertyId: { type: 'string' } } } })
@@ -101,11 +108,14 @@ export class GoogleAnalyticsAuthController {
             throw new BadRequestException('Missing tempToken or propertyId');
         }
 
+        await this.entitlements.assertCanConnect(req.user.tenant, 'GOOGLE_ANALYTICS', [propertyId]);
+
         return this.oauthService.completeConnection(tempToken, propertyId, tenantId);
     }
 
     @Get('status')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:read')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get GA4 connection status' })
     async getStatus(@CurrentUser('tenantId') tenantId: string) {
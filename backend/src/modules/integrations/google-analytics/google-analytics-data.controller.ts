@@ -3,6 +3,8 @@ import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger'
 import { GoogleAnalyticsService } from './google-analytics.service';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../../../common/decorators/current-user.decorator';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
 
 @ApiTags('integrations/google-analytics')
 @Controller('integrations/google-analytics')
@@ -12,7 +14,8 @@ export class GoogleAnalyticsDataController {
     ) { }
 
     @Get('basic')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('dashboard:read')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get basic GA4 metrics' })
     @ApiQuery({ name: 'startDate', required: false })
@@ -7,7 +7,7 @@ import { Cache } from 'cache-manager';
 import { v4 as uuidv4 } from 'uuid';
 import { UnifiedSyncService } from '../../sync/unified-sync.service';
 import { AdPlatform, SyncType, SyncStatus } from '@prisma/client';
-import { EncryptionService } from '../../../common/services/encryption.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
 
 @Injectable()
 export class GoogleAnalyticsOAuthService {
@@ -19,7 +19,7 @@ export class GoogleAnalyticsOAuthService {
         private readonly prisma: PrismaService,
         @Inject(CACHE_MANAGER) private cacheManager: Cache,
         private readonly unifiedSyncService: UnifiedSyncService,
-        private readonly encryptionService: EncryptionService,
+        private readonly credentialVault: CredentialVaultService,
     ) {
         this.oauth2Client = new google.auth.OAuth2(
             this.configService.get('GOOGLE_CLIENT_ID'),
@@ -116,7 +116,6 @@ export class GoogleAnalyticsOAuthService {
             await this.prisma.googleAnalyticsAccount.update({
                 where: { id: existing.id },
                 data: {
-                    refreshToken: this.encryptionService.encrypt(refreshToken),
                     propertyName,
                     status: 'ACTIVE',
                     updatedAt: new Date()
@@ -129,14 +128,17 @@ export class GoogleAnalyticsOAuthService {
                     tenantId,
                     propertyId,
                     propertyName,
-                    refreshToken: this.encryptionService.encrypt(refreshToken),
-                    accessToken: 'placeholder',
                     status: 'ACTIVE'
                 }
             });
             accountId = newAccount.id;
         }
 
+        await this.credentialVault.store(
+            { tenantId, platform: AdPlatform.GOOGLE_ANALYTICS, accountId },
+            { refreshToken },
+        );
+
         // Clear cache
         await this.cacheManager.del(`ga4_temp_token:${tempToken}`);
         await this.cacheManager.del(`ga4_temp_properties:${tempToken}`);
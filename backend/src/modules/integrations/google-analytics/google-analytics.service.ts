@@ -1,6 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { AdPlatform } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
 import { GoogleAnalyticsApiService } from './google-analytics-api.service';
 
 @Injectable()
@@ -11,6 +13,7 @@ export class GoogleAnalyticsService {
         private config: ConfigService,
         private prisma: PrismaService,
         private apiService: GoogleAnalyticsApiService,
+        private credentialVault: CredentialVaultService,
     ) { }
 
     async getBasicMetrics(tenantId: string, startDate: string = '7daysAgo', endDate: string = 'today') {
@@ -77,7 +80,12 @@ export class GoogleAnalyticsService {
             // 3. If no synced data, try to fetch from GA4 API directly
             this.logger.log(`Fetching GA4 data for property: ${account.propertyId}`);
 
-            const response = await this.apiService.runReport(account, {
+            const tokens = await this.credentialVault.get({
+                tenantId,
+                platform: AdPlatform.GOOGLE_ANALYTICS,
+                accountId: account.id,
+            });
+            const response = await this.apiService.runReport({ ...account, ...tokens }, {
                 dateRanges: [{ startDate, endDate }],
                 dimensions: [{ name: 'date' }],
                 metrics: [
@@ -2,11 +2,14 @@ import { Controller, Get, UseGuards, Req } from '@nestjs/common';
 import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { IntegrationsSummaryService } from './integrations-summary.service';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
 
 @ApiTags('Integrations')
 @ApiBearerAuth()
 @Controller('integrations')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('integrations:read')
 export class IntegrationsSummaryController {
   constructor(private readonly summaryService: IntegrationsSummaryService) {}
 
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { AdPlatform } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { reconnectPath } from './token-health/reconnect-link';
 
 @Injectable()
 export class IntegrationsSummaryService {
@@ -30,6 +31,19 @@ export class IntegrationsSummaryService {
 
     const hasAnyConnected = connectedPlatforms.length > 0;
 
+    // Tokens that failed refresh for good (revoked, scope missing, expired)
+    const invalidTokens = await this.prisma.platformToken.findMany({
+      where: { tenantId, isValid: false },
+      select: {
+        platform: true,
+        accountId: true,
+        failureReason: true,
+        errorMessage: true,
+        updatedAt: true,
+      },
+    });
+    const reauthPlatforms = new Set(invalidTokens.map((t) => String(t.platform)));
+
     return {
       hasAnyConnected,
       connectedPlatforms,
@@ -39,6 +53,15 @@ export class IntegrationsSummaryService {
         status: i.status,
         isActive: i.isActive,
         lastSyncAt: i.lastSyncAt,
+        needsReauth: reauthPlatforms.has(String(i.type)),
+      })),
+      reauthRequired: invalidTokens.map((t) => ({
+        platform: t.platform,
+        accountId: t.accountId,
+        reason: t.failureReason,
+        message: t.errorMessage,
+        failedAt: t.updatedAt,
+        reconnectUrl: reconnectPath(t.platform),
       })),
     };
   }
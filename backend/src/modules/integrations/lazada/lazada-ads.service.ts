@@ -0,0 +1,209 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Campaign, Metric, CampaignStatus, AdPlatform, Prisma } from '@prisma/client';
+import { PlatformCredentials, DateRange } from '../common/marketing-platform.adapter';
+import {
+    MarketplaceAdapter,
+    MarketplaceDailySales,
+    MarketplaceOrder,
+    aggregateDailySales,
+    marketplaceCurrency,
+} from '../common/marketplace.adapter';
+import { LazadaApiClient } from './lazada-api.client';
+
+const ORDER_PAGE_SIZE = 100;
+const CAMPAIGN_PAGE_SIZE = 100;
+const SPONSORED_SEARCH = 'sponsoredSearch';
+
+const CANCELLED_STATUSES = ['canceled', 'cancelled', 'returned', 'failed'];
+
+/**
+ * Lazada Marketplace Adapter
+ *
+ * Campaigns and metrics come from Lazada Sponsored Solutions (sponsored search);
+ * daily sales are rolled up from the seller's orders.
+ */
+@Injectable()
+export class LazadaAdsService implements MarketplaceAdapter {
+    private readonly logger = new Logger(LazadaAdsService.name);
+
+    constructor(private readonly lazadaApi: LazadaApiClient) { }
+
+    async validateCredentials(credentials: PlatformCredentials): Promise<boolean> {
+        try {
+            await this.lazadaApi.get('/seller/get', credentials.accessToken, credentials.region);
+            return true;
+        } catch (error) {
+            this.logger.error(`Lazada Credentials Validation Failed: ${error.message}`);
+            return false;
+        }
+    }
+
+    async fetchCampaigns(credentials: PlatformCredentials): Promise<Partial<Campaign>[]> {
+        try {
+            const campaigns: Partial<Campaign>[] = [];
+            let pageNo = 1;
+            let total = Infinity;
+
+            while (campaigns.length < total) {
+                const body = await this.lazadaApi.get<any>(
+                    '/sponsor/solutions/campaign/searchCampaignList',
+                    credentials.accessToken,
+                    credentials.region,
+                    { bizCode: SPONSORED_SEARCH, pageNo, pageSize: CAMPAIGN_PAGE_SIZE },
+                );
+                const list: any[] = body.result?.result ?? [];
+                total = Number(body.result?.totalCount ?? list.length);
+
+                campaigns.push(...list.map((c) => ({
+                    externalId: String(c.campaignId),
+                    name: c.campaignName || `Lazada Campaign ${c.campaignId}`,
+                    status: this.mapStatus(c.status),
+                    budget: new Prisma.Decimal(Number(c.dayBudget || 0)),
+                    currency: marketplaceCurrency(credentials.region),
+                    startDate: c.startDate ? new Date(c.startDate) : null,
+                    endDate: c.endDate ? new Date(c.endDate) : null,
+                    platform: AdPlatform.LAZADA,
+                })));
+
+                if (list.length < CAMPAIGN_PAGE_SIZE) break;
+                pageNo++;
+            }
+
+            return campaigns;
+        } catch (error) {
+            this.logger.error(`Failed to fetch Lazada campaigns: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * The campaign report is aggregated over the requested range,
+     * so it is requested one day at a time to build daily rows.
+     */
+    async fetchMetrics(
+        credentials: PlatformCredentials,
+        campaignId: string,
+        range: DateRange,
+    ): Promise<Partial<Metric>[]> {
+        try {
+            const rows: Partial<Metric>[] = [];
+
+            for (const day of this.eachDay(range)) {
+                const body = await this.lazadaApi.get<any>(
+                    '/sponsor/solutions/report/getReportCampaignOnePage',
+                    credentials.accessToken,
+                    credentials.region,
+                    {
+                        bizCode: SPONSORED_SEARCH,
+                        campaignId,
+                        startDate: day,
+                        endDate: day,
+                        pageNo: 1,
+                        pageSize: 1,
+                    },
+                );
+                const row = (body.result?.result ?? [])[0];
+                if (!row) continue;
+
+                const spend = Number(row.spend || 0);
+                const revenue = Number(row.revenue || 0);
+                const orders = Number(row.orders || 0);
+                rows.push({
+                    date: new Date(`${day}T00:00:00.000Z`),
+                    impressions: Number(row.impressions || 0),
+                    clicks: Number(row.clicks || 0),
+                    spend: new Prisma.Decimal(spend),
+                    conversions: orders,
+                    orders,
+                    revenue: new Prisma.Decimal(revenue),
+                    roas: new Prisma.Decimal(spend > 0 ? revenue / spend : 0),
+                });
+            }
+
+            return rows;
+        } catch (error) {
+            this.logger.error(`Failed to fetch Lazada metrics: ${error.message}`);
+            return [];
+        }
+    }
+
+    async fetchDailySales(credentials: PlatformCredentials, range: DateRange): Promise<MarketplaceDailySales[]> {
+        const orders: MarketplaceOrder[] = [];
+        const currency = marketplaceCurrency(credentials.region);
+        let offset = 0;
+
+        while (true) {
+            const body = await this.lazadaApi.get<any>(
+                '/orders/get',
+                credentials.accessToken,
+                credentials.region,
+                {
+                    created_after: range.startDate.toISOString(),
+                    created_before: range.endDate.toISOString(),
+                    sort_by: 'created_at',
+                    sort_direction: 'ASC',
+                    offset,
+                    limit: ORDER_PAGE_SIZE,
+                },
+            );
+            const page: any[] = body.data?.orders ?? [];
+
+            for (const o of page) {
+                const statuses: string[] = (o.statuses ?? []).map((s: string) => String(s).toLowerCase());
+                orders.push({
+                    createdAt: this.parseTimestamp(o.created_at),
+                    amount: this.parseAmount(o.price),
+                    units: Number(o.items_count || 0),
+                    currency,
+                    cancelled: statuses.length > 0 && statuses.every((s) => CANCELLED_STATUSES.includes(s)),
+                });
+            }
+
+            if (page.length < ORDER_PAGE_SIZE) break;
+            offset += page.length;
+        }
+
+        this.logger.log(`Fetched ${orders.length} Lazada orders for seller ${credentials.accountId}`);
+
+        return aggregateDailySales(orders, currency);
+    }
+
+    // ============================================
+    // Helpers
+    // ============================================
+
+    private *eachDay(range: DateRange): Generator<string> {
+        const day = new Date(range.startDate.toISOString().slice(0, 10) + 'T00:00:00.000Z');
+        while (day <= range.endDate) {
+            yield day.toISOString().slice(0, 10);
+            day.setUTCDate(day.getUTCDate() + 1);
+        }
+    }
+
+    /** Lazada timestamps look like "2024-03-01 14:05:09 +0700" */
+    private parseTimestamp(value: string): Date {
+        const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(String(value));
+        return match ? new Date(`${match[1]}T${match[2]}${match[3]}:${match[4]}`) : new Date(value);
+    }
+
+    /** Prices are strings with thousand separators, e.g. "1,299.00" */
+    private parseAmount(value: string | number): number {
+        return Number(String(value ?? 0).replace(/,/g, '')) || 0;
+    }
+
+    private mapStatus(status: string | number): CampaignStatus {
+        switch (String(status).toLowerCase()) {
+            case '1':
+            case 'active':
+            case 'online':
+                return CampaignStatus.ACTIVE;
+            case 'ended':
+            case 'expired':
+                return CampaignStatus.ENDED;
+            case 'deleted':
+                return CampaignStatus.DELETED;
+            default:
+                return CampaignStatus.PAUSED;
+        }
+    }
+}
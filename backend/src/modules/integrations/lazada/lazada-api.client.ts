@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import axios from 'axios';
+
+/** Regional Open Platform gateways, keyed by Lazada country code */
+export const LAZADA_API_HOSTS: Record<string, string> = {
+    th: 'https://api.lazada.co.th/rest',
+    my: 'https://api.lazada.com.my/rest',
+    sg: 'https://api.lazada.sg/rest',
+    ph: 'https://api.lazada.com.ph/rest',
+    vn: 'https://api.lazada.vn/rest',
+    id: 'https://api.lazada.co.id/rest',
+};
+
+const LAZADA_AUTH_HOST = 'https://auth.lazada.com/rest';
+
+/**
+ * Lazada Open Platform signature.
+ *
+ * Parameters are sorted by name and concatenated as `key + value` after the
+ * API path, then signed with HMAC-SHA256 keyed by the app secret (uppercase hex).
+ */
+export function signLazadaRequest(
+    appSecret: string,
+    apiPath: string,
+    params: Record<string, string>,
+): string {
+    const payload = Object.keys(params)
+        .sort()
+        .reduce((acc, key) => acc + key + params[key], apiPath);
+
+    return createHmac('sha256', appSecret).update(payload).digest('hex').toUpperCase();
+}
+
+/**
+ * Lazada Open Platform Client
+ *
+ * Adds the common parameters (app_key, timestamp, sign_method, access_token),
+ * signs the request and raises non-zero `code` responses as Errors.
+ */
+@Injectable()
+export class LazadaApiClient {
+    private readonly logger = new Logger(LazadaApiClient.name);
+
+    readonly appKey: string;
+    private readonly appSecret: string;
+
+    constructor(private readonly configService: ConfigService) {
+        this.appKey = this.configService.get<string>('LAZADA_APP_KEY', '');
+        this.appSecret = this.configService.get<string>('LAZADA_APP_SECRET', '');
+    }
+
+    /**
+     * Call a token API on auth.lazada.com (token create / refresh)
+     */
+    async auth<T = any>(apiPath: string, params: Record<string, string | number>): Promise<T> {
+        return this.request<T>(LAZADA_AUTH_HOST, apiPath, params);
+    }
+
+    /**
+     * Call a seller API on the regional gateway of `country`
+     */
+    async get<T = any>(
+        apiPath: string,
+        accessToken: string,
+        country: string | undefined,
+        params: Record<string, string | number> = {},
+    ): Promise<T> {
+        const host = LAZADA_API_HOSTS[(country || 'th').toLowerCase()] ?? LAZADA_API_HOSTS.th;
+        return this.request<T>(host, apiPath, { ...params, access_token: accessToken });
+    }
+
+    private async request<T>(host: string, apiPath: string, params: Record<string, string | number>): Promise<T> {
+        const signed: Record<string, string> = {
+            app_key: this.appKey,
+            timestamp: String(Date.now()),
+            sign_method: 'sha256',
+        };
+        for (const [key, value] of Object.entries(params)) {
+            if (value !== undefined && value !== null) signed[key] = String(value);
+        }
+        signed.sign = signLazadaRequest(this.appSecret, apiPath, signed);
+
+        const response = await axios.get(`${host}${apiPath}`, { params: signed });
+        const data = response.data;
+
+        if (data?.code !== undefined && String(data.code) !== '0') {
+            this.logger.warn(`Lazada ${apiPath} failed: ${data.code} ${data.message || ''}`);
+            throw new Error(`Lazada API Error: ${data.message || data.code}`);
+        }
+
+        return data as T;
+    }
+}
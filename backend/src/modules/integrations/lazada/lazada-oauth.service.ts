@@ -0,0 +1,301 @@
+import { Injectable, Logger, BadRequestException, ForbiddenException, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { v4 as uuidv4 } from 'uuid';
+import { AdPlatform } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
+import {
+    OAuthProvider,
+    OAuthCallbackResult,
+    OAuthConnectionResult,
+    OAuthAccount,
+} from '../common/oauth-provider.interface';
+import { LazadaApiClient } from './lazada-api.client';
+
+/** Refresh access tokens this long before they expire */
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Lazada OAuth Service
+ *
+ * Seller authorization for the Lazada Open Platform, following the TikTok pattern.
+ *
+ * Key differences from TikTok:
+ * - Uses `client_id` = app key on auth.lazada.com
+ * - Token APIs are signed like every other Lazada API
+ * - One seller login can hold shops in several countries (`country_user_info`);
+ *   each country is offered as a separate account and served by its own gateway
+ */
+@Injectable()
+export class LazadaOAuthService implements OAuthProvider {
+    private readonly logger = new Logger(LazadaOAuthService.name);
+
+    private readonly redirectUri: string;
+    private readonly authUrl = 'https://auth.lazada.com/oauth/authorize';
+
+    // Cache TTL (10 minutes)
+    private readonly CACHE_TTL = 600000;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly prisma: PrismaService,
+        private readonly credentialVault: CredentialVaultService,
+        private readonly lazadaApi: LazadaApiClient,
+        @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    ) {
+        this.redirectUri = this.configService.get<string>('LAZADA_REDIRECT_URI');
+    }
+
+    // ============================================
+    // OAuthProvider Implementation
+    // ============================================
+
+    generateAuthUrl(userId: string, tenantId: string): string {
+        const state = Buffer.from(
+            JSON.stringify({ userId, tenantId, timestamp: Date.now() }),
+        ).toString('base64');
+
+        const params = new URLSearchParams({
+            response_type: 'code',
+            force_auth: 'true',
+            client_id: this.lazadaApi.appKey,
+            redirect_uri: this.redirectUri,
+            state,
+        });
+
+        this.logger.log(`[Lazada OAuth] Generated auth URL for user: ${userId}`);
+
+        return `${this.authUrl}?${params.toString()}`;
+    }
+
+    async handleCallback(code: string, state: string): Promise<OAuthCallbackResult> {
+        try {
+            const { userId, tenantId } = JSON.parse(Buffer.from(state, 'base64').toString('utf-8'));
+
+            this.logger.log(`[Lazada OAuth] Processing callback for tenant: ${tenantId}`);
+
+            const token = await this.lazadaApi.auth<any>('/auth/token/create', { code });
+
+            const sellers: any[] = token.country_user_info ?? [];
+            if (sellers.length === 0) {
+                throw new BadRequestException('No Lazada seller accounts found for this login.');
+            }
+
+            const accounts: (OAuthAccount & { country: string })[] = sellers.map((s) => ({
+                id: String(s.seller_id),
+                name: `${token.account || 'Lazada Seller'} (${String(s.country).toUpperCase()})`,
+                status: 'ACTIVE',
+                country: String(s.country).toLowerCase(),
+            }));
+
+            const tempToken = uuidv4();
+
+            await this.cacheManager.set(
+                `lazada_temp_tokens:${tempToken}`,
+                {
+                    accessToken: token.access_token,
+                    refreshToken: token.refresh_token,
+                    tokenExpiresAt: new Date(Date.now() + Number(token.expires_in || 0) * 1000),
+                    refreshTokenExpiresAt: new Date(Date.now() + Number(token.refresh_expires_in || 0) * 1000),
+                    userId,
+                    tenantId,
+                },
+                this.CACHE_TTL,
+            );
+
+            await this.cacheManager.set(`lazada_temp_accounts:${tempToken}`, accounts, this.CACHE_TTL);
+
+            this.logger.log(`[Lazada OAuth] Found ${accounts.length} seller account(s)`);
+
+            return {
+                status: 'select_account',
+                accounts,
+                tempToken,
+            };
+        } catch (error) {
+            this.logger.error(`[Lazada OAuth] Callback error: ${error.message}`);
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new BadRequestException(`Failed to connect Lazada: ${error.message}`);
+        }
+    }
+
+    async getTempAccounts(tempToken: string): Promise<OAuthAccount[]> {
+        const accounts = await this.cacheManager.get<OAuthAccount[]>(`lazada_temp_accounts:${tempToken}`);
+
+        if (!accounts) {
+            throw new BadRequestException('Session expired or invalid token. Please restart the OAuth flow.');
+        }
+
+        return accounts;
+    }
+
+    async completeConnection(
+        tempToken: string,
+        sellerId: string,
+        tenantId: string,
+    ): Promise<OAuthConnectionResult> {
+        const tokenData = await this.cacheManager.get<any>(`lazada_temp_tokens:${tempToken}`);
+
+        if (!tokenData || !tokenData.accessToken) {
+            throw new BadRequestException('Session expired or invalid token. Please restart the OAuth flow.');
+        }
+
+        // The temp token is only valid for the tenant that started the authorization
+        if (tokenData.tenantId !== tenantId) {
+            throw new ForbiddenException('This authorization belongs to another workspace');
+        }
+
+        const cachedAccounts = await this.cacheManager.get<(OAuthAccount & { country: string })[]>(`lazada_temp_accounts:${tempToken}`);
+        const selected = cachedAccounts?.find(acc => acc.id === sellerId);
+
+        if (!selected) {
+            throw new BadRequestException('Selected seller was not part of this authorization');
+        }
+
+        this.logger.log(`[Lazada OAuth] Completing connection for seller: ${sellerId}`);
+
+        try {
+            const data = {
+                accountName: selected.name,
+                country: selected.country,
+                tokenExpiresAt: new Date(tokenData.tokenExpiresAt),
+                refreshTokenExpiresAt: new Date(tokenData.refreshTokenExpiresAt),
+                status: 'ACTIVE',
+            };
+
+            const account = await this.prisma.lazadaAccount.upsert({
+                where: { lazada_accounts_tenant_seller_unique: { tenantId, sellerId } },
+                create: { tenantId, sellerId, ...data },
+                update: data,
+            });
+            await this.credentialVault.store(
+                { tenantId, platform: AdPlatform.LAZADA, accountId: account.id },
+                { accessToken: tokenData.accessToken, refreshToken: tokenData.refreshToken ?? null },
+                { expiresAt: data.tokenExpiresAt },
+            );
+
+            await this.cacheManager.del(`lazada_temp_tokens:${tempToken}`);
+            await this.cacheManager.del(`lazada_temp_accounts:${tempToken}`);
+
+            return {
+                success: true,
+                accountId: account.id,
+                accountName: selected.name,
+            };
+        } catch (error) {
+            this.logger.error(`[Lazada OAuth] Complete connection error: ${error.message}`);
+            throw new BadRequestException(`Failed to save Lazada seller: ${error.message}`);
+        }
+    }
+
+    async refreshAccessToken(accountId: string, tenantId: string): Promise<string> {
+        const account = await this.prisma.lazadaAccount.findFirst({
+            where: { id: accountId, tenantId },
+        });
+
+        if (!account) {
+            throw new BadRequestException('Lazada seller not found');
+        }
+
+        const credentialRef = { tenantId, platform: AdPlatform.LAZADA, accountId: account.id };
+        const stored = await this.credentialVault.get(credentialRef);
+        if (!stored?.refreshToken) {
+            throw new BadRequestException('No refresh token available. Please reconnect the Lazada seller.');
+        }
+
+        this.logger.log(`[Lazada OAuth] Refreshing token for seller: ${account.sellerId}`);
+
+        try {
+            const token = await this.lazadaApi.auth<any>('/auth/token/refresh', {
+                refresh_token: stored.refreshToken,
+            });
+
+            // Keep the old refresh token if no new one was issued
+            const tokenExpiresAt = new Date(Date.now() + Number(token.expires_in || 0) * 1000);
+            await this.credentialVault.store(
+                credentialRef,
+                { accessToken: token.access_token, ...(token.refresh_token ? { refreshToken: token.refresh_token } : {}) },
+                { expiresAt: tokenExpiresAt },
+            );
+            await this.prisma.lazadaAccount.update({
+                where: { id: account.id },
+                data: {
+                    tokenExpiresAt,
+                    refreshTokenExpiresAt: token.refresh_expires_in
+                        ? new Date(Date.now() + Number(token.refresh_expires_in) * 1000)
+                        : account.refreshTokenExpiresAt,
+                },
+            });
+
+            return token.access_token;
+        } catch (error) {
+            this.logger.error(`[Lazada OAuth] Token refresh error: ${error.message}`);
+            throw new BadRequestException(`Token refresh failed: ${error.message}`);
+        }
+    }
+
+    async getConnectedAccounts(tenantId: string): Promise<any[]> {
+        return this.prisma.lazadaAccount.findMany({
+            where: { tenantId },
+            select: {
+                id: true,
+                sellerId: true,
+                accountName: true,
+                country: true,
+                status: true,
+                lastSyncAt: true,
+                createdAt: true,
+                updatedAt: true,
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async disconnect(tenantId: string): Promise<boolean> {
+        this.logger.log(`[Lazada OAuth] Disconnecting all sellers for tenant: ${tenantId}`);
+
+        await this.prisma.lazadaAccount.deleteMany({ where: { tenantId } });
+        await this.credentialVault.remove(tenantId, AdPlatform.LAZADA);
+
+        await this.prisma.integration.updateMany({
+            where: { tenantId, type: AdPlatform.LAZADA },
+            data: { status: 'DISCONNECTED', isActive: false },
+        });
+
+        return true;
+    }
+
+    // ============================================
+    // Helper Methods
+    // ============================================
+
+    /**
+     * Get a valid access token, refreshing it when it is about to expire
+     */
+    async getAccessToken(accountId: string, tenantId: string): Promise<string> {
+        const account = await this.prisma.lazadaAccount.findFirst({
+            where: { id: accountId, tenantId },
+        });
+
+        if (!account) {
+            throw new BadRequestException('Lazada seller not found');
+        }
+
+        if (account.tokenExpiresAt && account.tokenExpiresAt.getTime() - EXPIRY_MARGIN_MS <= Date.now()) {
+            return this.refreshAccessToken(account.id, tenantId);
+        }
+
+        const stored = await this.credentialVault.get({ tenantId, platform: AdPlatform.LAZADA, accountId: account.id });
+        if (!stored?.accessToken) {
+            throw new BadRequestException('Lazada seller is not authorized. Please reconnect it.');
+        }
+
+        return stored.accessToken;
+    }
+}
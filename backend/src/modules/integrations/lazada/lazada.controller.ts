@@ -0,0 +1,185 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Query,
+    Body,
+    Res,
+    Req,
+    UseGuards,
+    BadRequestException,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiBearerAuth,
+    ApiBody,
+    ApiQuery,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { ConfigService } from '@nestjs/config';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { LazadaOAuthService } from './lazada-oauth.service';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../../entitlements/entitlements.service';
+
+/**
+ * Lazada OAuth Controller
+ *
+ * Same flow as the other platforms:
+ * 1. GET /url - Get seller authorization URL
+ * 2. GET /callback - Handle callback from Lazada
+ * 3. GET /temp-accounts - Get seller accounts (one per country) for selection
+ * 4. POST /complete - Save the selected seller
+ * 5. GET /accounts - Get connected sellers
+ * 6. DELETE /disconnect - Disconnect all sellers
+ */
+@ApiTags('Lazada Auth')
+@Controller('auth/lazada')
+export class LazadaController {
+    private readonly frontendUrl: string;
+
+    constructor(
+        private readonly oauthService: LazadaOAuthService,
+        private readonly configService: ConfigService,
+        private readonly entitlements: EntitlementsService,
+    ) {
+        this.frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:5173');
+    }
+
+    // ============================================
+    // OAuth Flow Endpoints
+    // ============================================
+
+    @Get('url')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get Lazada seller authorization URL' })
+    getAuthUrl(@Req() req: any) {
+        const url = this.oauthService.generateAuthUrl(req.user.id, req.user.tenantId);
+
+        return {
+            url,
+            message: 'Open this URL in a browser to authorize your Lazada seller account',
+        };
+    }
+
+    @Get('callback')
+    @ApiOperation({ summary: 'Lazada seller authorization callback endpoint' })
+    @ApiQuery({ name: 'code', required: true, description: 'Authorization code from Lazada' })
+    @ApiQuery({ name: 'state', required: true, description: 'State parameter for CSRF protection' })
+    async handleCallback(
+        @Query('code') code: string,
+        @Query('state') state: string,
+        @Res() res: Response,
+    ) {
+        try {
+            if (!code) {
+                return res.redirect(`${this.frontendUrl}/data-sources?error=missing_code&platform=lazada`);
+            }
+
+            if (!state) {
+                return res.redirect(`${this.frontendUrl}/data-sources?error=missing_state&platform=lazada`);
+            }
+
+            const result = await this.oauthService.handleCallback(code, state);
+
+            return res.redirect(
+                `${this.frontendUrl}/data-sources?status=${result.status}&tempToken=${result.tempToken}&platform=lazada`
+            );
+        } catch (error) {
+            return res.redirect(
+                `${this.frontendUrl}/data-sources?error=${encodeURIComponent(error.message)}&platform=lazada`
+            );
+        }
+    }
+
+    @Get('temp-accounts')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get Lazada seller accounts for selection' })
+    @ApiQuery({ name: 'tempToken', required: true, description: 'Temporary token from OAuth callback' })
+    async getTempAccounts(@Query('tempToken') tempToken: string) {
+        if (!tempToken) {
+            throw new BadRequestException('Missing tempToken parameter');
+        }
+
+        const accounts = await this.oauthService.getTempAccounts(tempToken);
+
+        return {
+            success: true,
+            accounts,
+            count: accounts.length,
+        };
+    }
+
+    @Post('complete')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Complete Lazada connection by selecting a seller account' })
+    @ApiBody({
+        schema: {
+            type: 'object',
+            required: ['tempToken', 'sellerId'],
+            properties: {
+                tempToken: { type: 'string', description: 'Temporary token from OAuth callback' },
+                sellerId: { type: 'string', description: 'Selected seller ID' },
+            },
+        },
+    })
+    async completeConnection(
+        @Req() req: any,
+        @Body('tempToken') tempToken: string,
+        @Body('sellerId') sellerId: string,
+    ) {
+        if (!tempToken) {
+            throw new BadRequestException('Missing tempToken');
+        }
+
+        if (!sellerId) {
+            throw new BadRequestException('Missing sellerId');
+        }
+
+        await this.entitlements.assertCanConnect(req.user.tenant, 'LAZADA', [sellerId]);
+
+        return this.oauthService.completeConnection(tempToken, sellerId, req.user.tenantId);
+    }
+
+    // ============================================
+    // Account Management Endpoints
+    // ============================================
+
+    @Get('accounts')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:read')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get connected Lazada sellers' })
+    async getConnectedAccounts(@Req() req: any) {
+        const accounts = await this.oauthService.getConnectedAccounts(req.user.tenantId);
+
+        return {
+            success: true,
+            accounts,
+            count: accounts.length,
+        };
+    }
+
+    @Delete('disconnect')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Disconnect Lazada integration' })
+    async disconnect(@Req() req: any) {
+        await this.oauthService.disconnect(req.user.tenantId);
+
+        return {
+            success: true,
+            message: 'Lazada disconnected successfully',
+        };
+    }
+}
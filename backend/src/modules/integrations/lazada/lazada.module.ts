@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { LazadaApiClient } from './lazada-api.client';
+import { LazadaAdsService } from './lazada-ads.service';
+import { LazadaOAuthService } from './lazada-oauth.service';
+import { LazadaController } from './lazada.controller';
+import { LazadaIntegrationController } from './lazada-integration.controller';
+
+/**
+ * Lazada Marketplace Integration Module
+ *
+ * Exports:
+ * - LazadaAdsService: Implements MarketplaceAdapter for unified sync
+ * - LazadaOAuthService: Implements OAuthProvider for seller authorization
+ */
+@Module({
+    imports: [
+        ConfigModule,
+        PrismaModule,
+        // Note: CacheModule is registered globally in AppModule
+        // Note: CredentialVaultService is available globally from CredentialVaultModule
+    ],
+    controllers: [
+        LazadaController,
+        LazadaIntegrationController,
+    ],
+    providers: [
+        LazadaApiClient,
+        LazadaAdsService,
+        LazadaOAuthService,
+    ],
+    exports: [
+        LazadaAdsService,
+        LazadaOAuthService,
+    ],
+})
+export class LazadaModule { }
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class ConnectLineAdsAccountDto {
+    @ApiProperty({ example: 'A12345678901', description: 'LINE Ads ad account ID' })
+    @IsString()
+    @IsNotEmpty()
+    adAccountId: string;
+
+    @ApiProperty({ description: 'API access key from LINE Ads Manager' })
+    @IsString()
+    @IsNotEmpty()
+    accessKey: string;
+
+    @ApiProperty({ description: 'API secret key from LINE Ads Manager' })
+    @IsString()
+    @IsNotEmpty()
+    secretKey: string;
+}
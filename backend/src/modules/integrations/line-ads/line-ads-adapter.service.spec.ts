@@ -0,0 +1,225 @@
+/**
+ * LINE Ads Adapter Unit Tests
+ * @module line-ads-adapter.service.spec
+ * @description LINE Ads API v3 client and adapter against a local fake serving recorded responses:
+ *   - Requests carry a JWS signed with the secret key over body digest, date and path
+ *   - Campaign lists are paged; budgets are summed from active ad groups
+ *   - Daily campaign reports map into Metric rows
+ *   - 429 responses are retried after Retry-After, then surfaced as errors
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AdPlatform, CampaignStatus } from '@prisma/client';
+import { LineAdsAdapterService } from './line-ads-adapter.service';
+import { LineAdsApiClient, signLineAdsRequest } from './line-ads-api.client';
+import { PlatformCredentials } from '../common/marketing-platform.adapter';
+
+// =============================================================================
+// Local Fake LINE Ads API
+// =============================================================================
+
+const ACCESS_KEY = 'line-access-key';
+const SECRET_KEY = 'line-secret-key';
+
+const recorded: Record<string, unknown> = JSON.parse(
+    readFileSync(join(__dirname, '__fixtures__', 'line-ads-api.json'), 'utf8'),
+);
+
+interface FakeLineAdsApi {
+    baseUrl: string;
+    requests: URL[];
+    /** Number of 429 responses to send before serving a path */
+    rateLimit: Map<string, number>;
+    close: () => Promise<void>;
+}
+
+/** Checks the JWS the way LINE does: kid, HMAC over header.payload, and the signed path */
+function isValidSignature(req: IncomingMessage, url: URL): boolean {
+    const jws = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+    const [header, payload, signature] = jws.split('.');
+    if (!header || !payload || !signature) return false;
+
+    const expected = createHmac('sha256', SECRET_KEY).update(`${header}.${payload}`).digest('base64url');
+    const { kid } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    const [digest, , , path] = Buffer.from(payload, 'base64url').toString().split('\n');
+
+    return signature === expected
+        && kid === ACCESS_KEY
+        && digest === createHash('sha256').update('').digest('hex')
+        && path === url.pathname;
+}
+
+function startFakeLineAdsApi(): Promise<FakeLineAdsApi> {
+    const requests: URL[] = [];
+    const rateLimit = new Map<string, number>();
+
+    const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        requests.push(url);
+
+        const reply = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+            res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+            res.end(JSON.stringify(body));
+        };
+
+        if (!isValidSignature(req, url)) {
+            return reply(401, { errors: [{ reason: 'INVALID_SIGNATURE' }] });
+        }
+
+        const remaining = rateLimit.get(url.pathname) ?? 0;
+        if (remaining > 0) {
+            rateLimit.set(url.pathname, remaining - 1);
+            return reply(429, { errors: [{ reason: 'TOO_MANY_REQUESTS' }] }, { 'Retry-After': '0' });
+        }
+
+        const page = url.searchParams.get('page');
+        const body = recorded[`${req.method} ${url.pathname}${page ? `?page=${page}` : ''}`];
+        return body ? reply(200, body) : reply(404, { errors: [{ reason: 'NOT_FOUND' }] });
+    });
+
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                baseUrl: `http://127.0.0.1:${port}/api`,
+                requests,
+                rateLimit,
+                close: () => new Promise((done) => server.close(() => done())),
+            });
+        });
+    });
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('LineAdsAdapterService', () => {
+    let fake: FakeLineAdsApi;
+    let adapter: LineAdsAdapterService;
+    let credentials: PlatformCredentials;
+
+    beforeAll(async () => {
+        fake = await startFakeLineAdsApi();
+    });
+
+    afterAll(async () => {
+        await fake.close();
+    });
+
+    beforeEach(async () => {
+        fake.requests.length = 0;
+        fake.rateLimit.clear();
+
+        const config = new ConfigService({
+            LINE_ADS_API_BASE_URL: fake.baseUrl,
+            LINE_ADS_MAX_RETRIES: 2,
+        });
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                LineAdsAdapterService,
+                LineAdsApiClient,
+                { provide: ConfigService, useValue: config },
+            ],
+        }).compile();
+
+        adapter = module.get(LineAdsAdapterService);
+        credentials = { accessToken: ACCESS_KEY, secretKey: SECRET_KEY, accountId: 'A1001' };
+    });
+
+    describe('signLineAdsRequest', () => {
+        it('should sign digest, content type, day and path with the secret key', () => {
+            const jws = signLineAdsRequest(
+                { accessKey: ACCESS_KEY, secretKey: SECRET_KEY },
+                '/api/v3/adaccounts/A1001',
+                new Date('2026-04-02T23:30:00Z'),
+            );
+            const [header, payload, signature] = jws.split('.');
+
+            expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({
+                alg: 'HS256',
+                kid: ACCESS_KEY,
+                typ: 'text/plain',
+            });
+            expect(Buffer.from(payload, 'base64url').toString()).toBe(
+                [createHash('sha256').update('').digest('hex'), '', '20260402', '/api/v3/adaccounts/A1001'].join('\n'),
+            );
+            expect(signature).toBe(createHmac('sha256', SECRET_KEY).update(`${header}.${payload}`).digest('base64url'));
+        });
+    });
+
+    describe('validateCredentials', () => {
+        it('should accept keys the API signs off on', async () => {
+            await expect(adapter.validateCredentials(credentials)).resolves.toBe(true);
+        });
+
+        it('should reject a wrong secret key', async () => {
+            const wrong = { ...credentials, secretKey: 'not-the-secret' };
+            await expect(adapter.validateCredentials(wrong)).resolves.toBe(false);
+        });
+    });
+
+    describe('fetchCampaigns', () => {
+        it('should read every page and sum active ad group budgets per campaign', async () => {
+            const campaigns = await adapter.fetchCampaigns(credentials);
+
+            expect(campaigns).toHaveLength(2);
+            expect(campaigns[0]).toMatchObject({
+                externalId: '50001',
+                name: 'Songkran Promo',
+                status: CampaignStatus.ACTIVE,
+                currency: 'THB',
+                startDate: new Date('2026-04-01'),
+                endDate: new Date('2026-04-30'),
+                platform: AdPlatform.LINE_ADS,
+            });
+            expect(Number(campaigns[0].budget)).toBe(2000);
+            expect(campaigns[1]).toMatchObject({ externalId: '50002', status: CampaignStatus.PAUSED, endDate: null });
+            expect(Number(campaigns[1].budget)).toBe(300);
+        });
+
+        it('should filter ad groups by campaign', async () => {
+            await adapter.fetchAdGroups(credentials, '50001');
+
+            expect(fake.requests[0].searchParams.get('campaignId')).toBe('50001');
+        });
+    });
+
+    describe('fetchMetrics', () => {
+        const range = { startDate: new Date('2026-04-01'), endDate: new Date('2026-04-02') };
+
+        it('should map daily campaign statistics into metric rows', async () => {
+            const metrics = await adapter.fetchMetrics(credentials, '50001', range);
+
+            const query = fake.requests[0].searchParams;
+            expect(query.get('campaignId')).toBe('50001');
+            expect(query.get('since')).toBe('2026-04-01');
+            expect(query.get('until')).toBe('2026-04-02');
+            expect(metrics).toHaveLength(2);
+            expect(metrics[0]).toMatchObject({ date: new Date('2026-04-01'), impressions: 12840, clicks: 356, conversions: 21 });
+            expect(Number(metrics[0].spend)).toBe(1482.5);
+        });
+
+        it('should retry after a 429 and carry on', async () => {
+            fake.rateLimit.set('/api/v3/adaccounts/A1001/reports/online/campaign', 2);
+
+            const metrics = await adapter.fetchMetrics(credentials, '50001', range);
+
+            expect(metrics).toHaveLength(2);
+            expect(fake.requests).toHaveLength(3);
+        });
+
+        it('should give up once the retries are used', async () => {
+            fake.rateLimit.set('/api/v3/adaccounts/A1001/reports/online/campaign', 3);
+
+            await expect(adapter.fetchMetrics(credentials, '50001', range)).rejects.toThrow('TOO_MANY_REQUESTS');
+        });
+    });
+});
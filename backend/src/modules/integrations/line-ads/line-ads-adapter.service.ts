@@ -1,28 +1,93 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { MarketingPlatformAdapter, PlatformCredentials, DateRange } from '../common/marketing-platform.adapter';
-import { Campaign, Metric } from '@prisma/client';
+import {
+    MarketingPlatformAdapter,
+    PlatformCredentials,
+    DateRange,
+    PlatformAdGroup,
+} from '../common/marketing-platform.adapter';
+import { AdGroupStatus, AdPlatform, Campaign, CampaignStatus, Metric, Prisma } from '@prisma/client';
+import { LineAdsApiClient, LineAdsApiKeys } from './line-ads-api.client';
+
+export interface LineAdsAccountInfo {
+    id: string;
+    name: string;
+    currency: string;
+}
+
+export interface LineAdsAdGroup extends PlatformAdGroup {
+    campaignExternalId: string;
+}
 
 /**
  * LINE Ads Platform Adapter
- * 
- * TODO: Refactor in Sprint 3
- * - MockCampaign has budget: number, but Prisma Campaign has budget: Decimal
- * - ctr/cpc/cpm are NOT in DB schema (calculated fields)
- * - Using type assertions as temporary fix
+ *
+ * Campaigns, ad groups and daily campaign reports from the LINE Ads API v3.
+ * LINE budgets live on ad groups, so a campaign's budget is the sum of its
+ * active ad groups' daily budgets.
  */
 @Injectable()
 export class LineAdsAdapterService implements MarketingPlatformAdapter {
     private readonly logger = new Logger(LineAdsAdapterService.name);
 
-    constructor() { }
+    constructor(private readonly lineAdsApi: LineAdsApiClient) { }
 
     async validateCredentials(credentials: PlatformCredentials): Promise<boolean> {
-        return !!credentials.accessToken;
+        try {
+            await this.fetchAdAccount(credentials);
+            return true;
+        } catch (error) {
+            this.logger.error(`LINE Ads Credentials Validation Failed: ${error.message}`);
+            return false;
+        }
+    }
+
+    async fetchAdAccount(credentials: PlatformCredentials): Promise<LineAdsAccountInfo> {
+        const account = await this.lineAdsApi.get<any>(this.keys(credentials), this.accountPath(credentials));
+        return { id: String(account.id), name: account.name, currency: account.currency };
     }
 
     async fetchCampaigns(credentials: PlatformCredentials): Promise<Partial<Campaign>[]> {
-        // TODO: Implement real LINE Ads API call here
-        return [];
+        const keys = this.keys(credentials);
+        const account = await this.fetchAdAccount(credentials);
+        const campaigns = await this.lineAdsApi.getAll<any>(keys, `${this.accountPath(credentials)}/campaigns`);
+        const adGroups = await this.fetchAdGroups(credentials);
+
+        return campaigns.map((c) => {
+            const budget = adGroups
+                .filter((g) => g.campaignExternalId === String(c.id) && g.status === AdGroupStatus.ACTIVE)
+                .reduce((sum, g) => sum + (g.budget ?? 0), 0);
+
+            return {
+                externalId: String(c.id),
+                name: c.name,
+                status: this.mapStatus(c.configuredStatus),
+                budget: new Prisma.Decimal(budget),
+                currency: account.currency,
+                startDate: c.startDate ? new Date(c.startDate) : null,
+                endDate: c.endDate ? new Date(c.endDate) : null,
+                platform: AdPlatform.LINE_ADS,
+            };
+        });
+    }
+
+    /**
+     * Ad groups of the account, or of one campaign when `campaignId` is given
+     */
+    async fetchAdGroups(credentials: PlatformCredentials, campaignId?: string): Promise<LineAdsAdGroup[]> {
+        const adGroups = await this.lineAdsApi.getAll<any>(
+            this.keys(credentials),
+            `${this.accountPath(credentials)}/adgroups`,
+            campaignId ? { campaignId } : {},
+        );
+
+        return adGroups.map((g) => ({
+            externalId: String(g.id),
+            campaignExternalId: String(g.campaignId),
+            name: g.name,
+            status: this.mapAdGroupStatus(g.configuredStatus),
+            budget: Number(g.dailyBudget ?? 0),
+            bidAmount: Number(g.bidAmount ?? 0),
+        }));
     }
 
     async fetchMetrics(
@@ -30,7 +95,68 @@ export class LineAdsAdapterService implements MarketingPlatformAdapter {
         campaignId: string,
         range: DateRange,
     ): Promise<Partial<Metric>[]> {
-        // TODO: Implement real LINE Ads API call here
-        return [];
+        const rows = await this.lineAdsApi.getAll<any>(
+            this.keys(credentials),
+            `${this.accountPath(credentials)}/reports/online/campaign`,
+            {
+                campaignId,
+                since: range.startDate.toISOString().split('T')[0],
+                until: range.endDate.toISOString().split('T')[0],
+                breakdown: 'DAY',
+            },
+        );
+
+        return rows.map((row) => {
+            const stats = row.statistics ?? {};
+            return {
+                date: new Date(row.date),
+                impressions: Number(stats.imp ?? 0),
+                clicks: Number(stats.click ?? 0),
+                spend: new Prisma.Decimal(Number(stats.cost ?? 0)),
+                conversions: Number(stats.cv ?? 0),
+                revenue: new Prisma.Decimal(0),
+                roas: new Prisma.Decimal(0),
+            };
+        });
+    }
+
+    private keys(credentials: PlatformCredentials): LineAdsApiKeys {
+        if (!credentials.accessToken || !credentials.secretKey) {
+            throw new Error('LINE Ads account has no API access key / secret key');
+        }
+        return {
+            accessKey: credentials.accessToken,
+            secretKey: credentials.secretKey,
+        };
+    }
+
+    private accountPath(credentials: PlatformCredentials): string {
+        return `/v3/adaccounts/${encodeURIComponent(credentials.accountId)}`;
+    }
+
+    private mapAdGroupStatus(status: string): AdGroupStatus {
+        switch (status) {
+            case 'ACTIVE':
+                return AdGroupStatus.ACTIVE;
+            case 'DELETED':
+                return AdGroupStatus.DELETED;
+            default:
+                return AdGroupStatus.PAUSED;
+        }
+    }
+
+    private mapStatus(status: string): CampaignStatus {
+        switch (status) {
+            case 'ACTIVE':
+                return CampaignStatus.ACTIVE;
+            case 'PAUSED':
+                return CampaignStatus.PAUSED;
+            case 'DELETED':
+                return CampaignStatus.DELETED;
+            case 'ENDED':
+                return CampaignStatus.ENDED;
+            default:
+                return CampaignStatus.PENDING;
+        }
     }
 }
@@ -0,0 +1,138 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac } from 'crypto';
+import axios, { AxiosError, Method } from 'axios';
+
+/** Access key / secret key pair issued in LINE Ads Manager (secret in plain text) */
+export interface LineAdsApiKeys {
+    accessKey: string;
+    secretKey: string;
+}
+
+/** Paged list envelope used by every LINE Ads list endpoint */
+export interface LineAdsPage<T> {
+    datas: T[];
+    paging?: { page: number; size: number; totalElements: number; totalPages: number };
+}
+
+const PAGE_SIZE = 100;
+const RETRYABLE_STATUSES = [429, 503];
+
+function base64Url(input: string | Buffer): string {
+    return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * LINE Ads API JWS signature.
+ *
+ * The payload is `sha256(body) \n content-type \n yyyyMMdd \n canonical path`, signed
+ * HS256 with the secret key; the access key goes in the `kid` header. GET requests
+ * sign an empty body and an empty content type.
+ */
+export function signLineAdsRequest(
+    keys: LineAdsApiKeys,
+    canonicalPath: string,
+    date: Date,
+    body = '',
+    contentType = '',
+): string {
+    const header = base64Url(JSON.stringify({ alg: 'HS256', kid: keys.accessKey, typ: 'text/plain' }));
+    const digest = createHash('sha256').update(body).digest('hex');
+    const day = date.toISOString().slice(0, 10).replace(/-/g, '');
+    const payload = base64Url([digest, contentType, day, canonicalPath].join('\n'));
+    const signature = createHmac('sha256', keys.secretKey).update(`${header}.${payload}`).digest('base64url');
+
+    return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * LINE Ads API Client
+ *
+ * Signs and sends requests to the LINE Ads API v3. 429/503 responses are retried
+ * after `Retry-After` (or an exponential backoff) up to LINE_ADS_MAX_RETRIES times.
+ */
+@Injectable()
+export class LineAdsApiClient {
+    private readonly logger = new Logger(LineAdsApiClient.name);
+
+    private readonly baseUrl: string;
+    private readonly maxRetries: number;
+
+    constructor(private readonly configService: ConfigService) {
+        this.baseUrl = this.configService.get<string>('LINE_ADS_API_BASE_URL', 'https://ads.line.me/api').replace(/\/$/, '');
+        this.maxRetries = Number(this.configService.get('LINE_ADS_MAX_RETRIES', 3));
+    }
+
+    async get<T = any>(keys: LineAdsApiKeys, path: string, params: Record<string, string | number> = {}): Promise<T> {
+        return this.request<T>(keys, 'GET', path, params);
+    }
+
+    /**
+     * Follow `paging.totalPages` and return every row of a list endpoint
+     */
+    async getAll<T = any>(keys: LineAdsApiKeys, path: string, params: Record<string, string | number> = {}): Promise<T[]> {
+        const rows: T[] = [];
+        let page = 1;
+        let totalPages = 1;
+
+        do {
+            const result = await this.get<LineAdsPage<T>>(keys, path, { ...params, page, size: PAGE_SIZE });
+            rows.push(...(result.datas ?? []));
+            totalPages = result.paging?.totalPages ?? 1;
+            page++;
+        } while (page <= totalPages);
+
+        return rows;
+    }
+
+    private async request<T>(
+        keys: LineAdsApiKeys,
+        method: Method,
+        path: string,
+        params: Record<string, string | number>,
+    ): Promise<T> {
+        const url = `${this.baseUrl}${path}`;
+        const canonicalPath = new URL(url).pathname;
+
+        for (let attempt = 0; ; attempt++) {
+            const now = new Date();
+            try {
+                const response = await axios.request<T>({
+                    method,
+                    url,
+                    params,
+                    headers: {
+                        Authorization: `Bearer ${signLineAdsRequest(keys, canonicalPath, now)}`,
+                        Date: now.toUTCString(),
+                    },
+                });
+                return response.data;
+            } catch (error) {
+                const status = (error as AxiosError).response?.status;
+                if (status && RETRYABLE_STATUSES.includes(status) && attempt < this.maxRetries) {
+                    const waitMs = this.retryDelay(error as AxiosError, attempt);
+                    this.logger.warn(`LINE Ads ${path} returned ${status}, retrying in ${waitMs}ms (${attempt + 1}/${this.maxRetries})`);
+                    await this.sleep(waitMs);
+                    continue;
+                }
+                throw this.toError(path, error as AxiosError);
+            }
+        }
+    }
+
+    private retryDelay(error: AxiosError, attempt: number): number {
+        const retryAfter = Number(error.response?.headers?.['retry-after']);
+        return Number.isFinite(retryAfter) && retryAfter >= 0 ? retryAfter * 1000 : 1000 * 2 ** attempt;
+    }
+
+    private toError(path: string, error: AxiosError): Error {
+        const data = error.response?.data as any;
+        const reason = data?.errors?.[0]?.reason || data?.message || error.message;
+        this.logger.warn(`LINE Ads ${path} failed: ${error.response?.status ?? 'network'} ${reason}`);
+        return new Error(`LINE Ads API Error: ${reason}`);
+    }
+
+    protected sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+}
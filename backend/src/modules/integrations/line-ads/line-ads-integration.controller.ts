@@ -1,17 +1,23 @@
-import { Controller, Get, Delete, UseGuards, Req } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Body, UseGuards, Req } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { PrismaService } from '../../prisma/prisma.service';
 import { LineAdsOAuthService } from './line-ads-oauth.service';
+import { ConnectLineAdsAccountDto } from './dto/connect-line-ads-account.dto';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../../entitlements/entitlements.service';
 
 @ApiTags('integrations/line-ads')
 @Controller('integrations/line-ads')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
+@RequirePermissions('integrations:read')
 export class LineAdsIntegrationController {
     constructor(
         private readonly prisma: PrismaService,
         private readonly oauthService: LineAdsOAuthService,
+        private readonly entitlements: EntitlementsService,
     ) { }
 
     @Get('status')
@@ -55,7 +61,16 @@ export class LineAdsIntegrationController {
         return { accounts };
     }
 
+    @Post('accounts')
+    @RequirePermissions('integrations:connect')
+    @ApiOperation({ summary: 'Connect a LINE Ads ad account with API access / secret keys' })
+    async connectAccount(@Req() req: any, @Body() dto: ConnectLineAdsAccountDto) {
+        await this.entitlements.assertCanConnect(req.user.tenant, 'LINE_ADS', [dto.adAccountId]);
+        return this.oauthService.connectAdAccount(req.user.tenantId, dto);
+    }
+
     @Delete()
+    @RequirePermissions('integrations:connect')
     @ApiOperation({ summary: 'Disconnect LINE Ads integration' })
     async disconnect(@Req() req: any) {
         const tenantId = req.user.tenantId;
@@ -3,7 +3,9 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
 import axios from 'axios';
 import { AdPlatform } from '@prisma/client';
-import { EncryptionService } from '../../../common/services/encryption.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
+import { LineAdsAdapterService } from './line-ads-adapter.service';
+import { ConnectLineAdsAccountDto } from './dto/connect-line-ads-account.dto';
 
 @Injectable()
 export class LineAdsOAuthService {
@@ -16,7 +18,8 @@ export class LineAdsOAuthService {
     constructor(
         private readonly configService: ConfigService,
         private readonly prisma: PrismaService,
-        private readonly encryptionService: EncryptionService,
+        private readonly credentialVault: CredentialVaultService,
+        private readonly lineAdsAdapter: LineAdsAdapterService,
     ) {
         this.channelId = this.configService.get('LINE_CHANNEL_ID');
         this.channelSecret = this.configService.get('LINE_CHANNEL_SECRET');
@@ -78,28 +81,34 @@ export class LineAdsOAuthService {
                 },
             });
 
+            let accountId: string;
             if (existing) {
                 await this.prisma.lineAdsAccount.update({
                     where: { id: existing.id },
                     data: {
-                        accessToken: this.encryptionService.encrypt(access_token),
                         channelName: displayName,
                         status: 'ACTIVE',
                         updatedAt: new Date(),
                     },
                 });
+                accountId = existing.id;
             } else {
-                await this.prisma.lineAdsAccount.create({
+                const account = await this.prisma.lineAdsAccount.create({
                     data: {
                         tenantId,
                         channelId: lineUserId,
                         channelName: displayName,
-                        accessToken: this.encryptionService.encrypt(access_token),
                         status: 'ACTIVE',
                     },
                 });
+                accountId = account.id;
             }
 
+            await this.credentialVault.store(
+                { tenantId, platform: AdPlatform.LINE_ADS, accountId },
+                { accessToken: access_token },
+            );
+
             return { success: true };
 
         } catch (error) {
@@ -108,10 +117,53 @@ export class LineAdsOAuthService {
         }
     }
 
+    /**
+     * Connect an ad account with the API access key / secret key pair from LINE Ads Manager.
+     * The keys are checked against the API before anything is stored.
+     */
+    async connectAdAccount(tenantId: string, dto: ConnectLineAdsAccountDto) {
+        const credentials = {
+            accessToken: dto.accessKey,
+            secretKey: dto.secretKey,
+            accountId: dto.adAccountId,
+        };
+
+        let adAccount: { name: string };
+        try {
+            adAccount = await this.lineAdsAdapter.fetchAdAccount(credentials);
+        } catch (error) {
+            this.logger.error(`LINE Ads key validation failed for ${dto.adAccountId}: ${error.message}`);
+            throw new BadRequestException(`Failed to connect LINE Ads: ${error.message}`);
+        }
+
+        const data = {
+            channelName: adAccount.name,
+            accessKey: dto.accessKey,
+            status: 'ACTIVE',
+        };
+
+        const account = await this.prisma.lineAdsAccount.upsert({
+            where: { line_ads_accounts_tenant_channel_unique: { tenantId, channelId: dto.adAccountId } },
+            create: { tenantId, channelId: dto.adAccountId, ...data },
+            update: data,
+        });
+        await this.credentialVault.store(
+            { tenantId, platform: AdPlatform.LINE_ADS, accountId: account.id },
+            { secret: dto.secretKey },
+        );
+
+        return {
+            success: true,
+            accountId: account.id,
+            accountName: adAccount.name,
+        };
+    }
+
     async disconnect(tenantId: string): Promise<boolean> {
         await this.prisma.lineAdsAccount.deleteMany({
             where: { tenantId },
         });
+        await this.credentialVault.remove(tenantId, AdPlatform.LINE_ADS);
 
         await this.prisma.integration.updateMany({
             where: { tenantId, type: AdPlatform.LINE_ADS },
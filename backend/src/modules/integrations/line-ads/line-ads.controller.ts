@@ -3,6 +3,9 @@ import { LineAdsOAuthService } from './line-ads-oauth.service';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { Response } from 'express';
 import { ConfigService } from '@nestjs/config';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../../entitlements/entitlements.service';
 
 @Controller('auth/line')
 export class LineAdsController {
@@ -11,14 +14,19 @@ export class LineAdsController {
     constructor(
         private readonly lineAdsOAuthService: LineAdsOAuthService,
         private readonly configService: ConfigService,
+        private readonly entitlements: EntitlementsService,
     ) {
         // Use FRONTEND_URL from environment, fallback to Vite default port
         this.frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:5173');
     }
 
     @Get('url')
-    @UseGuards(JwtAuthGuard)
-    getAuthUrl(@Req() req) {
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    async getAuthUrl(@Req() req) {
+        // LINE saves the channel in the callback, so the limit is checked before redirecting
+        await this.entitlements.assertCanConnect(req.user.tenant, 'LINE_ADS');
+
         const userId = req.user.id;
         const tenantId = req.user.tenantId;
         const url = this.lineAdsOAuthService.generateAuthUrl(userId, tenantId);
@@ -0,0 +1,118 @@
+/**
+ * Marketplace Sales Unit Tests
+ * @module marketplace-sales.service.spec
+ * @description Shopee/Lazada order rollup and request signing:
+ *   - Orders roll up per UTC day; cancelled orders are excluded from GMV
+ *   - Daily rows are upserted per tenant, platform, shop and day
+ *   - Shopee and Lazada signatures match the documented base strings
+ */
+
+import { createHmac } from 'crypto';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AdPlatform } from '@prisma/client';
+import { MarketplaceSalesService } from './marketplace-sales.service';
+import { aggregateDailySales } from '../common/marketplace.adapter';
+import { ShopeeAdsService } from '../shopee/shopee-ads.service';
+import { ShopeeOAuthService } from '../shopee/shopee-oauth.service';
+import { LazadaAdsService } from '../lazada/lazada-ads.service';
+import { LazadaOAuthService } from '../lazada/lazada-oauth.service';
+import { signShopeeRequest } from '../shopee/shopee-api.client';
+import { signLazadaRequest } from '../lazada/lazada-api.client';
+import { PrismaService } from '../../prisma/prisma.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const orders = [
+    { createdAt: new Date('2026-03-01T02:00:00Z'), amount: 500, units: 2, currency: 'THB', cancelled: false },
+    { createdAt: new Date('2026-03-01T20:00:00Z'), amount: 250.5, units: 1, currency: 'THB', cancelled: false },
+    { createdAt: new Date('2026-03-01T21:00:00Z'), amount: 999, units: 3, currency: 'THB', cancelled: true },
+    { createdAt: new Date('2026-03-02T08:00:00Z'), amount: 100, units: 1, currency: 'THB', cancelled: false },
+];
+
+const shopeeShop = { id: 'shop-row-1', tenantId: 'tenant-001', shopId: '123456', region: 'TH' };
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('MarketplaceSalesService', () => {
+    let service: MarketplaceSalesService;
+    let prisma: { marketplaceDailySales: { upsert: jest.Mock } };
+    let shopeeAds: { fetchDailySales: jest.Mock };
+    let shopeeOAuth: { getAccessToken: jest.Mock };
+
+    beforeEach(async () => {
+        prisma = { marketplaceDailySales: { upsert: jest.fn() } };
+        shopeeAds = { fetchDailySales: jest.fn().mockResolvedValue(aggregateDailySales(orders, 'THB')) };
+        shopeeOAuth = { getAccessToken: jest.fn().mockResolvedValue('shop-token') };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                MarketplaceSalesService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: ShopeeAdsService, useValue: shopeeAds },
+                { provide: ShopeeOAuthService, useValue: shopeeOAuth },
+                { provide: LazadaAdsService, useValue: { fetchDailySales: jest.fn() } },
+                { provide: LazadaOAuthService, useValue: { getAccessToken: jest.fn() } },
+            ],
+        }).compile();
+
+        service = module.get<MarketplaceSalesService>(MarketplaceSalesService);
+    });
+
+    it('should roll orders up per day and leave cancelled orders out of GMV', () => {
+        const days = aggregateDailySales(orders, 'THB');
+
+        expect(days).toHaveLength(2);
+        expect(days[0]).toMatchObject({ orders: 2, cancelledOrders: 1, unitsSold: 3, gmv: 750.5, currency: 'THB' });
+        expect(days[0].date.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+        expect(days[1]).toMatchObject({ orders: 1, gmv: 100 });
+    });
+
+    it('should upsert one row per shop and day with a refreshed token', async () => {
+        const range = { startDate: new Date('2026-03-01T00:00:00Z'), endDate: new Date('2026-03-02T23:59:59Z') };
+
+        const written = await service.syncDailySales(AdPlatform.SHOPEE, shopeeShop, range);
+
+        expect(written).toBe(2);
+        expect(shopeeOAuth.getAccessToken).toHaveBeenCalledWith('shop-row-1', 'tenant-001');
+        expect(shopeeAds.fetchDailySales).toHaveBeenCalledWith(
+            { accessToken: 'shop-token', accountId: '123456', region: 'TH' },
+            range,
+        );
+        expect(prisma.marketplaceDailySales.upsert.mock.calls[0][0]).toMatchObject({
+            where: {
+                marketplace_daily_sales_unique: {
+                    tenantId: 'tenant-001',
+                    platform: AdPlatform.SHOPEE,
+                    accountId: '123456',
+                    date: new Date('2026-03-01T00:00:00.000Z'),
+                },
+            },
+            update: { orders: 2, gmv: 750.5 },
+        });
+    });
+
+    it('should sign Shopee shop requests with partner, path, time, token and shop', () => {
+        const expected = createHmac('sha256', 'key')
+            .update('1001/api/v2/shop/get_shop_info1700000000tok123456')
+            .digest('hex');
+
+        expect(signShopeeRequest('key', '1001', '/api/v2/shop/get_shop_info', 1700000000, 'tok', '123456')).toBe(expected);
+    });
+
+    it('should sign Lazada requests over the path and sorted parameters', () => {
+        const expected = createHmac('sha256', 'secret')
+            .update('/orders/getapp_key12345limit100timestamp1700000000000')
+            .digest('hex')
+            .toUpperCase();
+
+        expect(signLazadaRequest('secret', '/orders/get', {
+            timestamp: '1700000000000',
+            limit: '100',
+            app_key: '12345',
+        })).toBe(expected);
+    });
+});
@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AdPlatform } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DateRange, PlatformCredentials } from '../common/marketing-platform.adapter';
+import { MarketplaceAdapter } from '../common/marketplace.adapter';
+import { ShopeeAdsService } from '../shopee/shopee-ads.service';
+import { ShopeeOAuthService } from '../shopee/shopee-oauth.service';
+import { LazadaAdsService } from '../lazada/lazada-ads.service';
+import { LazadaOAuthService } from '../lazada/lazada-oauth.service';
+
+export const MARKETPLACE_PLATFORMS: AdPlatform[] = [AdPlatform.SHOPEE, AdPlatform.LAZADA];
+
+type MarketplaceAccount = { id: string; tenantId: string };
+
+/**
+ * Marketplace Sales Service
+ *
+ * Resolves Shopee/Lazada credentials (decrypting and refreshing tokens) and
+ * stores order rollups in MarketplaceDailySales, which backs /ecommerce.
+ */
+@Injectable()
+export class MarketplaceSalesService {
+    private readonly logger = new Logger(MarketplaceSalesService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly shopeeAdsService: ShopeeAdsService,
+        private readonly shopeeOAuthService: ShopeeOAuthService,
+        private readonly lazadaAdsService: LazadaAdsService,
+        private readonly lazadaOAuthService: LazadaOAuthService,
+    ) { }
+
+    isMarketplace(platform: AdPlatform): boolean {
+        return MARKETPLACE_PLATFORMS.includes(platform);
+    }
+
+    /**
+     * Build adapter credentials with a valid, decrypted access token
+     */
+    async getCredentials(platform: AdPlatform, account: any): Promise<PlatformCredentials> {
+        switch (platform) {
+            case AdPlatform.SHOPEE:
+                return {
+                    accessToken: await this.shopeeOAuthService.getAccessToken(account.id, account.tenantId),
+                    accountId: account.shopId,
+                    region: account.region ?? undefined,
+                };
+            case AdPlatform.LAZADA:
+                return {
+                    accessToken: await this.lazadaOAuthService.getAccessToken(account.id, account.tenantId),
+                    accountId: account.sellerId,
+                    region: account.country,
+                };
+            default:
+                throw new Error(`Platform ${platform} is not a marketplace`);
+        }
+    }
+
+    /**
+     * Fetch orders for one shop and upsert the daily rollup
+     *
+     * @returns number of days written
+     */
+    async syncDailySales(
+        platform: AdPlatform,
+        account: MarketplaceAccount,
+        range: DateRange,
+        credentials?: PlatformCredentials,
+    ): Promise<number> {
+        const creds = credentials ?? (await this.getCredentials(platform, account));
+        const days = await this.getAdapter(platform).fetchDailySales(creds, range);
+
+        for (const day of days) {
+            const values = {
+                orders: day.orders,
+                cancelledOrders: day.cancelledOrders,
+                unitsSold: day.unitsSold,
+                gmv: day.gmv,
+                currency: day.currency,
+            };
+
+            await this.prisma.marketplaceDailySales.upsert({
+                where: {
+                    marketplace_daily_sales_unique: {
+                        tenantId: account.tenantId,
+                        platform,
+                        accountId: creds.accountId,
+                        date: day.date,
+                    },
+                },
+                create: {
+                    tenantId: account.tenantId,
+                    platform,
+                    accountId: creds.accountId,
+                    date: day.date,
+                    ...values,
+                },
+                update: values,
+            });
+        }
+
+        this.logger.log(`Stored ${days.length} day(s) of ${platform} sales for account ${creds.accountId}`);
+        return days.length;
+    }
+
+    /**
+     * Re-import the last N days of sales for every active shop of a tenant
+     */
+    async backfillTenant(tenantId: string, days = 30) {
+        const range = this.lastNDays(days);
+        const shops = await this.findActiveAccounts({ tenantId });
+        let success = 0;
+        let failed = 0;
+
+        for (const { platform, account } of shops) {
+            try {
+                await this.syncDailySales(platform, account, range);
+                success++;
+            } catch (error) {
+                this.logger.error(`Sales backfill failed for ${platform} account ${account.id}: ${error.message}`);
+                failed++;
+            }
+        }
+
+        return { success, failed };
+    }
+
+    async backfillAllTenants(days = 30) {
+        const tenantIds = new Set((await this.findActiveAccounts({})).map(({ account }) => account.tenantId));
+        let success = 0;
+        let failed = 0;
+
+        for (const tenantId of tenantIds) {
+            const result = await this.backfillTenant(tenantId, days);
+            success += result.success;
+            failed += result.failed;
+        }
+
+        return { success, failed };
+    }
+
+    // ============================================
+    // Helpers
+    // ============================================
+
+    private getAdapter(platform: AdPlatform): MarketplaceAdapter {
+        return platform === AdPlatform.SHOPEE ? this.shopeeAdsService : this.lazadaAdsService;
+    }
+
+    private async findActiveAccounts(where: { tenantId?: string }) {
+        const [shopee, lazada] = await Promise.all([
+            this.prisma.shopeeAccount.findMany({ where: { ...where, status: 'ACTIVE' } }),
+            this.prisma.lazadaAccount.findMany({ where: { ...where, status: 'ACTIVE' } }),
+        ]);
+
+        return [
+            ...shopee.map((account) => ({ platform: AdPlatform.SHOPEE, account })),
+            ...lazada.map((account) => ({ platform: AdPlatform.LAZADA, account })),
+        ];
+    }
+
+    private lastNDays(days: number): DateRange {
+        const safeDays = Math.max(1, Math.floor(days));
+        const endDate = new Date();
+        const startDate = new Date(endDate);
+        startDate.setUTCHours(0, 0, 0, 0);
+        startDate.setUTCDate(startDate.getUTCDate() - (safeDays - 1));
+        return { startDate, endDate };
+    }
+}
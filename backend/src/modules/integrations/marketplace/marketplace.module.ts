@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { ShopeeModule } from '../shopee/shopee.module';
+import { LazadaModule } from '../lazada/lazada.module';
+import { MarketplaceSalesService } from './marketplace-sales.service';
+
+/**
+ * Marketplace Module
+ *
+ * Shared order/GMV handling for Shopee and Lazada. Kept separate from SyncModule
+ * so DashboardModule (/ecommerce) can use it without an import cycle.
+ */
+@Module({
+    imports: [
+        PrismaModule,
+        ShopeeModule,
+        LazadaModule,
+    ],
+    providers: [MarketplaceSalesService],
+    exports: [MarketplaceSalesService],
+})
+export class MarketplaceModule { }
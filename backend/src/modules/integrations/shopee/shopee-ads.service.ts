@@ -0,0 +1,225 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Campaign, Metric, CampaignStatus, AdPlatform, Prisma } from '@prisma/client';
+import { PlatformCredentials, DateRange } from '../common/marketing-platform.adapter';
+import {
+    MarketplaceAdapter,
+    MarketplaceDailySales,
+    MarketplaceOrder,
+    aggregateDailySales,
+    marketplaceCurrency,
+} from '../common/marketplace.adapter';
+import { ShopeeApiClient } from './shopee-api.client';
+
+/** get_order_list accepts at most 15 days per request */
+const ORDER_WINDOW_SECONDS = 15 * 24 * 60 * 60;
+const ORDER_PAGE_SIZE = 100;
+const ORDER_DETAIL_BATCH = 50;
+const CAMPAIGN_BATCH = 100;
+
+const CANCELLED_STATUSES = ['CANCELLED', 'IN_CANCEL'];
+
+/**
+ * Shopee Marketplace Adapter
+ *
+ * Campaigns and daily metrics come from Shopee Ads (product-level campaigns);
+ * daily sales are rolled up from the shop's orders.
+ */
+@Injectable()
+export class ShopeeAdsService implements MarketplaceAdapter {
+    private readonly logger = new Logger(ShopeeAdsService.name);
+
+    constructor(private readonly shopeeApi: ShopeeApiClient) { }
+
+    async validateCredentials(credentials: PlatformCredentials): Promise<boolean> {
+        try {
+            await this.shopeeApi.shopGet('/api/v2/shop/get_shop_info', credentials.accessToken, credentials.accountId);
+            return true;
+        } catch (error) {
+            this.logger.error(`Shopee Credentials Validation Failed: ${error.message}`);
+            return false;
+        }
+    }
+
+    async fetchCampaigns(credentials: PlatformCredentials): Promise<Partial<Campaign>[]> {
+        try {
+            const ids: string[] = [];
+            let offset = 0;
+            let hasNext = true;
+
+            while (hasNext) {
+                const page = await this.shopeeApi.shopGet<any>(
+                    '/api/v2/ads/get_product_level_campaign_id_list',
+                    credentials.accessToken,
+                    credentials.accountId,
+                    { ad_type: 'all', offset, limit: CAMPAIGN_BATCH },
+                );
+                const list = page.response?.campaign_list ?? [];
+                ids.push(...list.map((c: any) => String(c.campaign_id)));
+                hasNext = !!page.response?.has_next_page && list.length > 0;
+                offset += list.length;
+            }
+
+            const campaigns: Partial<Campaign>[] = [];
+            for (let i = 0; i < ids.length; i += CAMPAIGN_BATCH) {
+                const settings = await this.shopeeApi.shopGet<any>(
+                    '/api/v2/ads/get_product_level_campaign_setting_info',
+                    credentials.accessToken,
+                    credentials.accountId,
+                    { info_type_list: '1', campaign_id_list: ids.slice(i, i + CAMPAIGN_BATCH).join(',') },
+                );
+
+                for (const c of settings.response?.campaign_list ?? []) {
+                    const info = c.common_info ?? {};
+                    const duration = info.campaign_duration ?? {};
+                    campaigns.push({
+                        externalId: String(c.campaign_id),
+                        name: info.ad_name || `Shopee Campaign ${c.campaign_id}`,
+                        status: this.mapStatus(info.campaign_status),
+                        budget: new Prisma.Decimal(Number(info.campaign_budget || 0)),
+                        currency: marketplaceCurrency(credentials.region),
+                        startDate: duration.start_time ? new Date(duration.start_time * 1000) : null,
+                        endDate: duration.end_time ? new Date(duration.end_time * 1000) : null,
+                        platform: AdPlatform.SHOPEE,
+                    });
+                }
+            }
+
+            return campaigns;
+        } catch (error) {
+            this.logger.error(`Failed to fetch Shopee campaigns: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async fetchMetrics(
+        credentials: PlatformCredentials,
+        campaignId: string,
+        range: DateRange,
+    ): Promise<Partial<Metric>[]> {
+        try {
+            const data = await this.shopeeApi.shopGet<any>(
+                '/api/v2/ads/get_product_campaign_daily_performance',
+                credentials.accessToken,
+                credentials.accountId,
+                {
+                    start_date: this.formatDate(range.startDate),
+                    end_date: this.formatDate(range.endDate),
+                    campaign_id_list: campaignId,
+                },
+            );
+
+            const shops: any[] = Array.isArray(data.response) ? data.response : [data.response].filter(Boolean);
+            const campaign = shops
+                .flatMap((shop) => shop.campaign_list ?? [])
+                .find((c: any) => String(c.campaign_id) === String(campaignId));
+
+            return (campaign?.metrics_list ?? []).map((row: any) => {
+                const spend = Number(row.expense || 0);
+                const revenue = Number(row.broad_gmv || 0);
+                const orders = Number(row.broad_order || 0);
+                return {
+                    date: this.parseDate(row.date),
+                    impressions: Number(row.impression || 0),
+                    clicks: Number(row.clicks || 0),
+                    spend: new Prisma.Decimal(spend),
+                    conversions: orders,
+                    orders,
+                    revenue: new Prisma.Decimal(revenue),
+                    roas: new Prisma.Decimal(spend > 0 ? revenue / spend : 0),
+                };
+            });
+        } catch (error) {
+            this.logger.error(`Failed to fetch Shopee metrics: ${error.message}`);
+            return [];
+        }
+    }
+
+    async fetchDailySales(credentials: PlatformCredentials, range: DateRange): Promise<MarketplaceDailySales[]> {
+        const from = Math.floor(range.startDate.getTime() / 1000);
+        const to = Math.floor(range.endDate.getTime() / 1000);
+        const orderSns: string[] = [];
+
+        for (let windowStart = from; windowStart < to; windowStart += ORDER_WINDOW_SECONDS) {
+            const windowEnd = Math.min(windowStart + ORDER_WINDOW_SECONDS, to);
+            let cursor = '';
+            let more = true;
+
+            while (more) {
+                const page = await this.shopeeApi.shopGet<any>(
+                    '/api/v2/order/get_order_list',
+                    credentials.accessToken,
+                    credentials.accountId,
+                    {
+                        time_range_field: 'create_time',
+                        time_from: windowStart,
+                        time_to: windowEnd,
+                        page_size: ORDER_PAGE_SIZE,
+                        cursor,
+                    },
+                );
+                orderSns.push(...(page.response?.order_list ?? []).map((o: any) => o.order_sn));
+                more = !!page.response?.more;
+                cursor = page.response?.next_cursor ?? '';
+            }
+        }
+
+        const orders: MarketplaceOrder[] = [];
+        for (let i = 0; i < orderSns.length; i += ORDER_DETAIL_BATCH) {
+            const detail = await this.shopeeApi.shopGet<any>(
+                '/api/v2/order/get_order_detail',
+                credentials.accessToken,
+                credentials.accountId,
+                {
+                    order_sn_list: orderSns.slice(i, i + ORDER_DETAIL_BATCH).join(','),
+                    response_optional_fields: 'total_amount,item_list',
+                },
+            );
+
+            for (const o of detail.response?.order_list ?? []) {
+                orders.push({
+                    createdAt: new Date(o.create_time * 1000),
+                    amount: Number(o.total_amount || 0),
+                    units: (o.item_list ?? []).reduce((sum: number, item: any) => sum + Number(item.model_quantity_purchased || 0), 0),
+                    currency: o.currency,
+                    cancelled: CANCELLED_STATUSES.includes(o.order_status),
+                });
+            }
+        }
+
+        this.logger.log(`Fetched ${orders.length} Shopee orders for shop ${credentials.accountId}`);
+
+        return aggregateDailySales(orders, marketplaceCurrency(credentials.region));
+    }
+
+    // ============================================
+    // Helpers
+    // ============================================
+
+    /** Shopee Ads dates are DD-MM-YYYY */
+    private formatDate(date: Date): string {
+        const [yyyy, mm, dd] = date.toISOString().slice(0, 10).split('-');
+        return `${dd}-${mm}-${yyyy}`;
+    }
+
+    private parseDate(value: string): Date {
+        const [dd, mm, yyyy] = String(value).split('-');
+        return new Date(`${yyyy}-${mm}-${dd}T00:00:00.000Z`);
+    }
+
+    private mapStatus(status: string): CampaignStatus {
+        switch (status?.toLowerCase()) {
+            case 'ongoing':
+                return CampaignStatus.ACTIVE;
+            case 'scheduled':
+                return CampaignStatus.PENDING;
+            case 'ended':
+                return CampaignStatus.ENDED;
+            case 'deleted':
+            case 'closed':
+                return CampaignStatus.DELETED;
+            case 'paused':
+            default:
+                return CampaignStatus.PAUSED;
+        }
+    }
+}
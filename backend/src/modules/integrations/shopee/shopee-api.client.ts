@@ -0,0 +1,114 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import axios from 'axios';
+
+/**
+ * Shopee Open Platform v2 signature.
+ *
+ * Public APIs (auth) sign `partner_id + path + timestamp`; shop APIs append
+ * `access_token + shop_id`. The digest is HMAC-SHA256 keyed with the partner key.
+ */
+export function signShopeeRequest(
+    partnerKey: string,
+    partnerId: string,
+    path: string,
+    timestamp: number,
+    accessToken = '',
+    shopId = '',
+): string {
+    return createHmac('sha256', partnerKey)
+        .update(`${partnerId}${path}${timestamp}${accessToken}${shopId}`)
+        .digest('hex');
+}
+
+/**
+ * Shopee Open Platform Client
+ *
+ * Signs and sends requests to the Shopee v2 API. Responses carry an `error`
+ * string instead of a status code; any non-empty value is raised as an Error.
+ */
+@Injectable()
+export class ShopeeApiClient {
+    private readonly logger = new Logger(ShopeeApiClient.name);
+
+    readonly partnerId: string;
+    private readonly partnerKey: string;
+    readonly host: string;
+
+    constructor(private readonly configService: ConfigService) {
+        this.partnerId = this.configService.get<string>('SHOPEE_PARTNER_ID', '');
+        this.partnerKey = this.configService.get<string>('SHOPEE_PARTNER_KEY', '');
+        this.host = this.configService.get<string>('SHOPEE_USE_SANDBOX') === 'true'
+            ? 'https://partner.test-stable.shopeemobile.com'
+            : 'https://partner.shopeemobile.com';
+    }
+
+    /**
+     * Shop authorization link. Shopee appends `code` and `shop_id` to the redirect.
+     */
+    buildAuthUrl(redirect: string): string {
+        const path = '/api/v2/shop/auth_partner';
+        const timestamp = this.timestamp();
+        const params = new URLSearchParams({
+            partner_id: this.partnerId,
+            timestamp: String(timestamp),
+            sign: signShopeeRequest(this.partnerKey, this.partnerId, path, timestamp),
+            redirect,
+        });
+
+        return `${this.host}${path}?${params.toString()}`;
+    }
+
+    /**
+     * Call a public (non shop-scoped) API, e.g. token exchange
+     */
+    async publicPost<T = any>(path: string, body: Record<string, unknown>): Promise<T> {
+        const timestamp = this.timestamp();
+        const response = await axios.post(`${this.host}${path}`, body, {
+            params: {
+                partner_id: Number(this.partnerId),
+                timestamp,
+                sign: signShopeeRequest(this.partnerKey, this.partnerId, path, timestamp),
+            },
+        });
+
+        return this.unwrap<T>(path, response.data);
+    }
+
+    /**
+     * Call a shop-scoped API with the shop access token
+     */
+    async shopGet<T = any>(
+        path: string,
+        accessToken: string,
+        shopId: string,
+        params: Record<string, string | number> = {},
+    ): Promise<T> {
+        const timestamp = this.timestamp();
+        const response = await axios.get(`${this.host}${path}`, {
+            params: {
+                ...params,
+                partner_id: Number(this.partnerId),
+                timestamp,
+                access_token: accessToken,
+                shop_id: Number(shopId),
+                sign: signShopeeRequest(this.partnerKey, this.partnerId, path, timestamp, accessToken, shopId),
+            },
+        });
+
+        return this.unwrap<T>(path, response.data);
+    }
+
+    private unwrap<T>(path: string, data: any): T {
+        if (data?.error) {
+            this.logger.warn(`Shopee ${path} failed: ${data.error} ${data.message || ''}`);
+            throw new Error(`Shopee API Error: ${data.message || data.error}`);
+        }
+        return data as T;
+    }
+
+    private timestamp(): number {
+        return Math.floor(Date.now() / 1000);
+    }
+}
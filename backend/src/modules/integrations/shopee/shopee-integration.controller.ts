@@ -0,0 +1,52 @@
+import { Controller, Get, Delete, Req, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ShopeeOAuthService } from './shopee-oauth.service';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+
+@ApiTags('Shopee Integration')
+@ApiBearerAuth()
+@Controller('integrations/shopee')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('integrations:read')
+export class ShopeeIntegrationController {
+    constructor(private readonly oauthService: ShopeeOAuthService) { }
+
+    @Get('status')
+    @ApiOperation({ summary: 'Check Shopee integration status' })
+    async getStatus(@Req() req: any) {
+        const accounts = await this.oauthService.getConnectedAccounts(req.user.tenantId);
+
+        // Map to standardized IntegrationStatusResponse format
+        const mappedAccounts = accounts.map(account => ({
+            id: account.id,
+            externalId: account.shopId,    // Map shopId -> externalId
+            name: account.shopName || 'Unnamed Shop',
+            status: account.status,
+        }));
+
+        const lastSyncAt = accounts
+            .map(a => a.lastSyncAt)
+            .filter(Boolean)
+            .sort((a, b) => (b?.getTime() || 0) - (a?.getTime() || 0))[0] || null;
+
+        return {
+            isConnected: accounts.length > 0,
+            lastSyncAt,
+            accounts: mappedAccounts,
+        };
+    }
+
+    @Delete()
+    @RequirePermissions('integrations:connect')
+    @ApiOperation({ summary: 'Disconnect Shopee integration' })
+    async disconnect(@Req() req: any) {
+        await this.oauthService.disconnect(req.user.tenantId);
+
+        return {
+            success: true,
+            message: 'Shopee disconnected successfully',
+        };
+    }
+}
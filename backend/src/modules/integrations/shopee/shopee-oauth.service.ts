@@ -0,0 +1,325 @@
+import { Injectable, Logger, BadRequestException, ForbiddenException, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { v4 as uuidv4 } from 'uuid';
+import { AdPlatform } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
+import {
+    OAuthProvider,
+    OAuthCallbackResult,
+    OAuthConnectionResult,
+    OAuthAccount,
+} from '../common/oauth-provider.interface';
+import { ShopeeApiClient } from './shopee-api.client';
+
+/** Shopee refresh tokens are valid for 30 days and rotate on every refresh */
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Refresh access tokens this long before they expire (tokens last 4 hours) */
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Shopee OAuth Service
+ *
+ * Shop authorization for the Shopee Open Platform, following the TikTok pattern.
+ *
+ * Key differences from TikTok:
+ * - The auth link is signed with the partner key; there is no `state` parameter,
+ *   so the state is carried in the redirect URL query instead
+ * - The callback returns `shop_id` next to `code`; one authorization = one shop
+ * - Access tokens last 4 hours and the refresh token rotates on every refresh
+ */
+@Injectable()
+export class ShopeeOAuthService implements OAuthProvider {
+    private readonly logger = new Logger(ShopeeOAuthService.name);
+
+    private readonly redirectUri: string;
+
+    // Cache TTL (10 minutes)
+    private readonly CACHE_TTL = 600000;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly prisma: PrismaService,
+        private readonly credentialVault: CredentialVaultService,
+        private readonly shopeeApi: ShopeeApiClient,
+        @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    ) {
+        this.redirectUri = this.configService.get<string>('SHOPEE_REDIRECT_URI');
+    }
+
+    // ============================================
+    // OAuthProvider Implementation
+    // ============================================
+
+    generateAuthUrl(userId: string, tenantId: string): string {
+        const state = Buffer.from(
+            JSON.stringify({ userId, tenantId, timestamp: Date.now() }),
+        ).toString('base64');
+
+        const redirect = `${this.redirectUri}?state=${encodeURIComponent(state)}`;
+
+        this.logger.log(`[Shopee OAuth] Generated auth URL for user: ${userId}`);
+
+        return this.shopeeApi.buildAuthUrl(redirect);
+    }
+
+    /**
+     * Handle the shop authorization callback
+     *
+     * Flow:
+     * 1. Verify state parameter
+     * 2. Exchange code + shop_id for tokens
+     * 3. Fetch shop info for the selection UI
+     * 4. Store tokens + shop in cache
+     */
+    async handleCallback(code: string, state: string, shopId?: string): Promise<OAuthCallbackResult> {
+        if (!shopId) {
+            throw new BadRequestException('Missing shop_id. Please authorize a Shopee shop account.');
+        }
+
+        try {
+            const { userId, tenantId } = JSON.parse(Buffer.from(state, 'base64').toString('utf-8'));
+
+            this.logger.log(`[Shopee OAuth] Processing callback for tenant: ${tenantId}`);
+
+            const token = await this.shopeeApi.publicPost<any>('/api/v2/auth/token/get', {
+                code,
+                shop_id: Number(shopId),
+                partner_id: Number(this.shopeeApi.partnerId),
+            });
+
+            const shop = await this.fetchShopInfo(token.access_token, shopId);
+            const tempToken = uuidv4();
+
+            await this.cacheManager.set(
+                `shopee_temp_tokens:${tempToken}`,
+                {
+                    accessToken: token.access_token,
+                    refreshToken: token.refresh_token,
+                    tokenExpiresAt: new Date(Date.now() + Number(token.expire_in || 14400) * 1000),
+                    region: shop.region,
+                    userId,
+                    tenantId,
+                },
+                this.CACHE_TTL,
+            );
+
+            await this.cacheManager.set(
+                `shopee_temp_accounts:${tempToken}`,
+                [{ id: shopId, name: shop.name, status: shop.status }],
+                this.CACHE_TTL,
+            );
+
+            return {
+                status: 'select_account',
+                accounts: [{ id: shopId, name: shop.name, status: shop.status }],
+                tempToken,
+            };
+        } catch (error) {
+            this.logger.error(`[Shopee OAuth] Callback error: ${error.message}`);
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new BadRequestException(`Failed to connect Shopee: ${error.message}`);
+        }
+    }
+
+    private async fetchShopInfo(
+        accessToken: string,
+        shopId: string,
+    ): Promise<{ name: string; region?: string; status: string }> {
+        try {
+            const info = await this.shopeeApi.shopGet<any>('/api/v2/shop/get_shop_info', accessToken, shopId);
+            return {
+                name: info.shop_name || `Shopee Shop ${shopId}`,
+                region: info.region,
+                status: info.status === 'NORMAL' ? 'ACTIVE' : info.status || 'ACTIVE',
+            };
+        } catch (error) {
+            this.logger.warn(`[Shopee OAuth] Could not fetch shop info: ${error.message}`);
+            return { name: `Shopee Shop ${shopId}`, status: 'UNKNOWN' };
+        }
+    }
+
+    async getTempAccounts(tempToken: string): Promise<OAuthAccount[]> {
+        const accounts = await this.cacheManager.get<OAuthAccount[]>(`shopee_temp_accounts:${tempToken}`);
+
+        if (!accounts) {
+            throw new BadRequestException('Session expired or invalid token. Please restart the OAuth flow.');
+        }
+
+        return accounts;
+    }
+
+    async completeConnection(
+        tempToken: string,
+        shopId: string,
+        tenantId: string,
+    ): Promise<OAuthConnectionResult> {
+        const tokenData = await this.cacheManager.get<any>(`shopee_temp_tokens:${tempToken}`);
+
+        if (!tokenData || !tokenData.accessToken) {
+            throw new BadRequestException('Session expired or invalid token. Please restart the OAuth flow.');
+        }
+
+        // The temp token is only valid for the tenant that started the authorization
+        if (tokenData.tenantId !== tenantId) {
+            throw new ForbiddenException('This authorization belongs to another workspace');
+        }
+
+        const cachedAccounts = await this.cacheManager.get<OAuthAccount[]>(`shopee_temp_accounts:${tempToken}`);
+        const selected = cachedAccounts?.find(acc => acc.id === shopId);
+
+        if (!selected) {
+            throw new BadRequestException('Selected shop was not part of this authorization');
+        }
+
+        this.logger.log(`[Shopee OAuth] Completing connection for shop: ${shopId}`);
+
+        try {
+            const data = {
+                shopName: selected.name,
+                region: tokenData.region ?? null,
+                tokenExpiresAt: new Date(tokenData.tokenExpiresAt),
+                refreshTokenExpiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+                status: 'ACTIVE',
+            };
+
+            const account = await this.prisma.shopeeAccount.upsert({
+                where: { shopee_accounts_tenant_shop_unique: { tenantId, shopId } },
+                create: { tenantId, shopId, ...data },
+                update: data,
+            });
+            await this.credentialVault.store(
+                { tenantId, platform: AdPlatform.SHOPEE, accountId: account.id },
+                { accessToken: tokenData.accessToken, refreshToken: tokenData.refreshToken },
+                { expiresAt: data.tokenExpiresAt },
+            );
+
+            await this.cacheManager.del(`shopee_temp_tokens:${tempToken}`);
+            await this.cacheManager.del(`shopee_temp_accounts:${tempToken}`);
+
+            return {
+                success: true,
+                accountId: account.id,
+                accountName: selected.name,
+            };
+        } catch (error) {
+            this.logger.error(`[Shopee OAuth] Complete connection error: ${error.message}`);
+            throw new BadRequestException(`Failed to save Shopee shop: ${error.message}`);
+        }
+    }
+
+    /**
+     * Refresh the shop access token. Shopee rotates the refresh token as well,
+     * so both are stored again.
+     */
+    async refreshAccessToken(accountId: string, tenantId: string): Promise<string> {
+        const account = await this.prisma.shopeeAccount.findFirst({
+            where: { id: accountId, tenantId },
+        });
+
+        if (!account) {
+            throw new BadRequestException('Shopee shop not found');
+        }
+
+        const credentialRef = { tenantId, platform: AdPlatform.SHOPEE, accountId: account.id };
+        const stored = await this.credentialVault.get(credentialRef);
+        if (!stored?.refreshToken) {
+            throw new BadRequestException('No refresh token available. Please reconnect the Shopee shop.');
+        }
+
+        this.logger.log(`[Shopee OAuth] Refreshing token for shop: ${account.shopId}`);
+
+        try {
+            const token = await this.shopeeApi.publicPost<any>('/api/v2/auth/access_token/get', {
+                refresh_token: stored.refreshToken,
+                shop_id: Number(account.shopId),
+                partner_id: Number(this.shopeeApi.partnerId),
+            });
+
+            const tokenExpiresAt = new Date(Date.now() + Number(token.expire_in || 14400) * 1000);
+            await this.credentialVault.store(
+                credentialRef,
+                { accessToken: token.access_token, refreshToken: token.refresh_token },
+                { expiresAt: tokenExpiresAt },
+            );
+            await this.prisma.shopeeAccount.update({
+                where: { id: account.id },
+                data: {
+                    tokenExpiresAt,
+                    refreshTokenExpiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+                },
+            });
+
+            return token.access_token;
+        } catch (error) {
+            this.logger.error(`[Shopee OAuth] Token refresh error: ${error.message}`);
+            throw new BadRequestException(`Token refresh failed: ${error.message}`);
+        }
+    }
+
+    async getConnectedAccounts(tenantId: string): Promise<any[]> {
+        return this.prisma.shopeeAccount.findMany({
+            where: { tenantId },
+            select: {
+                id: true,
+                shopId: true,
+                shopName: true,
+                region: true,
+                status: true,
+                lastSyncAt: true,
+                createdAt: true,
+                updatedAt: true,
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async disconnect(tenantId: string): Promise<boolean> {
+        this.logger.log(`[Shopee OAuth] Disconnecting all shops for tenant: ${tenantId}`);
+
+        await this.prisma.shopeeAccount.deleteMany({ where: { tenantId } });
+        await this.credentialVault.remove(tenantId, AdPlatform.SHOPEE);
+
+        await this.prisma.integration.updateMany({
+            where: { tenantId, type: AdPlatform.SHOPEE },
+            data: { status: 'DISCONNECTED', isActive: false },
+        });
+
+        return true;
+    }
+
+    // ============================================
+    // Helper Methods
+    // ============================================
+
+    /**
+     * Get a valid access token, refreshing it when it is about to expire
+     */
+    async getAccessToken(accountId: string, tenantId: string): Promise<string> {
+        const account = await this.prisma.shopeeAccount.findFirst({
+            where: { id: accountId, tenantId },
+        });
+
+        if (!account) {
+            throw new BadRequestException('Shopee shop not found');
+        }
+
+        if (account.tokenExpiresAt && account.tokenExpiresAt.getTime() - EXPIRY_MARGIN_MS <= Date.now()) {
+            return this.refreshAccessToken(account.id, tenantId);
+        }
+
+        const stored = await this.credentialVault.get({ tenantId, platform: AdPlatform.SHOPEE, accountId: account.id });
+        if (!stored?.accessToken) {
+            throw new BadRequestException('Shopee shop is not authorized. Please reconnect it.');
+        }
+
+        return stored.accessToken;
+    }
+}
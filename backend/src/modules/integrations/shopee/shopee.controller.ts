@@ -0,0 +1,187 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Query,
+    Body,
+    Res,
+    Req,
+    UseGuards,
+    BadRequestException,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiBearerAuth,
+    ApiBody,
+    ApiQuery,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { ConfigService } from '@nestjs/config';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { ShopeeOAuthService } from './shopee-oauth.service';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../../entitlements/entitlements.service';
+
+/**
+ * Shopee OAuth Controller
+ *
+ * Same flow as the other platforms:
+ * 1. GET /url - Get shop authorization URL
+ * 2. GET /callback - Handle callback from Shopee (code + shop_id)
+ * 3. GET /temp-accounts - Get the authorized shop for confirmation
+ * 4. POST /complete - Save the shop
+ * 5. GET /accounts - Get connected shops
+ * 6. DELETE /disconnect - Disconnect all shops
+ */
+@ApiTags('Shopee Auth')
+@Controller('auth/shopee')
+export class ShopeeController {
+    private readonly frontendUrl: string;
+
+    constructor(
+        private readonly oauthService: ShopeeOAuthService,
+        private readonly configService: ConfigService,
+        private readonly entitlements: EntitlementsService,
+    ) {
+        this.frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:5173');
+    }
+
+    // ============================================
+    // OAuth Flow Endpoints
+    // ============================================
+
+    @Get('url')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get Shopee shop authorization URL' })
+    getAuthUrl(@Req() req: any) {
+        const url = this.oauthService.generateAuthUrl(req.user.id, req.user.tenantId);
+
+        return {
+            url,
+            message: 'Open this URL in a browser to authorize your Shopee shop',
+        };
+    }
+
+    @Get('callback')
+    @ApiOperation({ summary: 'Shopee shop authorization callback endpoint' })
+    @ApiQuery({ name: 'code', required: true, description: 'Authorization code from Shopee' })
+    @ApiQuery({ name: 'shop_id', required: true, description: 'Authorized shop ID' })
+    @ApiQuery({ name: 'state', required: true, description: 'State carried in the redirect URL' })
+    async handleCallback(
+        @Query('code') code: string,
+        @Query('shop_id') shopId: string,
+        @Query('state') state: string,
+        @Res() res: Response,
+    ) {
+        try {
+            if (!code) {
+                return res.redirect(`${this.frontendUrl}/data-sources?error=missing_code&platform=shopee`);
+            }
+
+            if (!state) {
+                return res.redirect(`${this.frontendUrl}/data-sources?error=missing_state&platform=shopee`);
+            }
+
+            const result = await this.oauthService.handleCallback(code, state, shopId);
+
+            return res.redirect(
+                `${this.frontendUrl}/data-sources?status=${result.status}&tempToken=${result.tempToken}&platform=shopee`
+            );
+        } catch (error) {
+            return res.redirect(
+                `${this.frontendUrl}/data-sources?error=${encodeURIComponent(error.message)}&platform=shopee`
+            );
+        }
+    }
+
+    @Get('temp-accounts')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get the authorized Shopee shop for confirmation' })
+    @ApiQuery({ name: 'tempToken', required: true, description: 'Temporary token from OAuth callback' })
+    async getTempAccounts(@Query('tempToken') tempToken: string) {
+        if (!tempToken) {
+            throw new BadRequestException('Missing tempToken parameter');
+        }
+
+        const accounts = await this.oauthService.getTempAccounts(tempToken);
+
+        return {
+            success: true,
+            accounts,
+            count: accounts.length,
+        };
+    }
+
+    @Post('complete')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Complete Shopee connection for the authorized shop' })
+    @ApiBody({
+        schema: {
+            type: 'object',
+            required: ['tempToken', 'shopId'],
+            properties: {
+                tempToken: { type: 'string', description: 'Temporary token from OAuth callback' },
+                shopId: { type: 'string', description: 'Authorized shop ID' },
+            },
+        },
+    })
+    async completeConnection(
+        @Req() req: any,
+        @Body('tempToken') tempToken: string,
+        @Body('shopId') shopId: string,
+    ) {
+        if (!tempToken) {
+            throw new BadRequestException('Missing tempToken');
+        }
+
+        if (!shopId) {
+            throw new BadRequestException('Missing shopId');
+        }
+
+        await this.entitlements.assertCanConnect(req.user.tenant, 'SHOPEE', [shopId]);
+
+        return this.oauthService.completeConnection(tempToken, shopId, req.user.tenantId);
+    }
+
+    // ============================================
+    // Account Management Endpoints
+    // ============================================
+
+    @Get('accounts')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:read')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get connected Shopee shops' })
+    async getConnectedAccounts(@Req() req: any) {
+        const accounts = await this.oauthService.getConnectedAccounts(req.user.tenantId);
+
+        return {
+            success: true,
+            accounts,
+            count: accounts.length,
+        };
+    }
+
+    @Delete('disconnect')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Disconnect Shopee integration' })
+    async disconnect(@Req() req: any) {
+        await this.oauthService.disconnect(req.user.tenantId);
+
+        return {
+            success: true,
+            message: 'Shopee disconnected successfully',
+        };
+    }
+}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { ShopeeApiClient } from './shopee-api.client';
+import { ShopeeAdsService } from './shopee-ads.service';
+import { ShopeeOAuthService } from './shopee-oauth.service';
+import { ShopeeController } from './shopee.controller';
+import { ShopeeIntegrationController } from './shopee-integration.controller';
+
+/**
+ * Shopee Marketplace Integration Module
+ *
+ * Exports:
+ * - ShopeeAdsService: Implements MarketplaceAdapter for unified sync
+ * - ShopeeOAuthService: Implements OAuthProvider for shop authorization
+ */
+@Module({
+    imports: [
+        ConfigModule,
+        PrismaModule,
+        // Note: CacheModule is registered globally in AppModule
+        // Note: CredentialVaultService is available globally from CredentialVaultModule
+    ],
+    controllers: [
+        ShopeeController,
+        ShopeeIntegrationController,
+    ],
+    providers: [
+        ShopeeApiClient,
+        ShopeeAdsService,
+        ShopeeOAuthService,
+    ],
+    exports: [
+        ShopeeAdsService,
+        ShopeeOAuthService,
+    ],
+})
+export class ShopeeModule { }
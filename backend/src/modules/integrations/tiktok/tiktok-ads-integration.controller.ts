@@ -1,14 +1,22 @@
 import { Controller, Get, Delete, Req, UseGuards } from '@nestjs/common';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { AdPlatform } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
 
 @ApiTags('TikTok Ads Integration')
 @ApiBearerAuth()
 @Controller('integrations/tiktok-ads')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('integrations:read')
 export class TikTokAdsIntegrationController {
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly credentialVault: CredentialVaultService,
+    ) { }
 
     @Get('status')
     @ApiOperation({ summary: 'Check TikTok Ads integration status' })
@@ -51,6 +59,7 @@ export class TikTokAdsIntegrationController {
     }
 
     @Delete()
+    @RequirePermissions('integrations:connect')
     @ApiOperation({ summary: 'Disconnect TikTok Ads integration' })
     async disconnect(@Req() req: any) {
         const tenantId = req.user.tenantId;
@@ -59,6 +68,7 @@ export class TikTokAdsIntegrationController {
         await this.prisma.tikTokAdsAccount.deleteMany({
             where: { tenantId },
         });
+        await this.credentialVault.remove(tenantId, AdPlatform.TIKTOK);
 
         return {
             success: true,
@@ -6,7 +6,7 @@ import { Cache } from 'cache-manager';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
 import { AdPlatform } from '@prisma/client';
-import { EncryptionService } from '../../../common/services/encryption.service';
+import { CredentialVaultService } from '../../credential-vault/credential-vault.service';
 import {
     OAuthProvider,
     OAuthCallbackResult,
@@ -55,7 +55,7 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
     constructor(
         private readonly configService: ConfigService,
         private readonly prisma: PrismaService,
-        private readonly encryptionService: EncryptionService,
+        private readonly credentialVault: CredentialVaultService,
         @Inject(CACHE_MANAGER) private cacheManager: Cache,
     ) {
         // Load configuration
@@ -134,7 +134,6 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
                 await this.prisma.tikTokAdsAccount.update({
                     where: { id: existing.id },
                     data: {
-                        accessToken: this.encryptionService.encrypt(this.sandboxAccessToken),
                         status: 'ACTIVE',
                         updatedAt: new Date(),
                     },
@@ -149,7 +148,6 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
                         tenantId,
                         advertiserId: this.sandboxAdvertiserId,
                         accountName,
-                        accessToken: this.encryptionService.encrypt(this.sandboxAccessToken),
                         status: 'ACTIVE',
                     },
                 });
@@ -157,6 +155,11 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
                 this.logger.log(`[TikTok OAuth] Created Sandbox account: ${accountId}`);
             }
 
+            await this.credentialVault.store(
+                { tenantId, platform: AdPlatform.TIKTOK, accountId },
+                { accessToken: this.sandboxAccessToken },
+            );
+
             return { success: true, accountId, accountName };
         } catch (error) {
             this.logger.error(`[TikTok OAuth] Sandbox connection error: ${error.message}`);
@@ -385,10 +388,6 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
                 await this.prisma.tikTokAdsAccount.update({
                     where: { id: existing.id },
                     data: {
-                        accessToken: this.encryptionService.encrypt(tokenData.accessToken),
-                        refreshToken: tokenData.refreshToken
-                            ? this.encryptionService.encrypt(tokenData.refreshToken)
-                            : null,
                         accountName,
                         status: 'ACTIVE',
                         updatedAt: new Date(),
@@ -403,10 +402,6 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
                         tenantId,
                         advertiserId: accountId,
                         accountName,
-                        accessToken: this.encryptionService.encrypt(tokenData.accessToken),
-                        refreshToken: tokenData.refreshToken
-                            ? this.encryptionService.encrypt(tokenData.refreshToken)
-                            : null,
                         status: 'ACTIVE',
                     },
                 });
@@ -414,6 +409,12 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
                 this.logger.log(`[TikTok OAuth] Created new account: ${dbAccountId}`);
             }
 
+            await this.credentialVault.store(
+                { tenantId, platform: AdPlatform.TIKTOK, accountId: dbAccountId },
+                { accessToken: tokenData.accessToken, refreshToken: tokenData.refreshToken ?? null },
+                { expiresAt: tokenData.tokenExpiresAt ? new Date(tokenData.tokenExpiresAt) : null },
+            );
+
             // 3. Clear cache
             await this.cacheManager.del(`tiktok_temp_tokens:${tempToken}`);
             await this.cacheManager.del(`tiktok_temp_accounts:${tempToken}`);
@@ -452,14 +453,14 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
             throw new BadRequestException('TikTok account not found');
         }
 
-        if (!account.refreshToken) {
+        const credentialRef = { tenantId, platform: AdPlatform.TIKTOK, accountId };
+        const stored = await this.credentialVault.get(credentialRef);
+        if (!stored?.refreshToken) {
             throw new BadRequestException(
                 'No refresh token available. Please reconnect the TikTok account.'
             );
         }
 
-        const decryptedRefreshToken = this.encryptionService.decrypt(account.refreshToken);
-
         this.logger.log(`[TikTok OAuth] Refreshing token for account: ${accountId}`);
 
         try {
@@ -467,7 +468,7 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
             const response = await axios.post(this.refreshUrl, {
                 app_id: this.appId,
                 secret: this.appSecret,
-                refresh_token: decryptedRefreshToken,
+                refresh_token: stored.refreshToken,
             });
 
             if (response.data?.code !== 0) {
@@ -481,16 +482,15 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
             // Calculate new expiry (24 hours)
             const tokenExpiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
 
-            // Update database with new tokens
+            // Store the new tokens; keep the old refresh token if no new one was issued
+            await this.credentialVault.store(
+                credentialRef,
+                { accessToken: access_token, ...(refresh_token ? { refreshToken: refresh_token } : {}) },
+                { expiresAt: tokenExpiresAt },
+            );
             await this.prisma.tikTokAdsAccount.update({
                 where: { id: accountId },
-                data: {
-                    accessToken: this.encryptionService.encrypt(access_token),
-                    refreshToken: refresh_token
-                        ? this.encryptionService.encrypt(refresh_token)
-                        : account.refreshToken, // Keep old refresh token if new one not provided
-                    updatedAt: new Date(),
-                },
+                data: { tokenExpiresAt, updatedAt: new Date() },
             });
 
             this.logger.log(`[TikTok OAuth] Token refreshed successfully for account: ${accountId}`);
@@ -541,6 +541,7 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
         await this.prisma.tikTokAdsAccount.deleteMany({
             where: { tenantId },
         });
+        await this.credentialVault.remove(tenantId, AdPlatform.TIKTOK);
 
         await this.prisma.integration.updateMany({
             where: { tenantId, type: AdPlatform.TIKTOK },
@@ -570,8 +571,13 @@ export class TikTokAdsOAuthService implements OAuthProvider, SandboxSupport {
             throw new BadRequestException('TikTok account not found');
         }
 
+        const stored = await this.credentialVault.get({ tenantId, platform: AdPlatform.TIKTOK, accountId });
+        if (!stored?.accessToken) {
+            throw new BadRequestException('TikTok account is not authorized. Please reconnect it.');
+        }
+
         // For now, return current token
-        // TODO: Add tokenExpiresAt field to schema and check expiry
-        return this.encryptionService.decrypt(account.accessToken);
+        // TODO: Check tokenExpiresAt and refresh
+        return stored.accessToken;
     }
 }
@@ -22,6 +22,9 @@ import { Response } from 'express';
 import { ConfigService } from '@nestjs/config';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { TikTokAdsOAuthService } from './tiktok-ads-oauth.service';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../../entitlements/entitlements.service';
 
 /**
  * TikTok Ads OAuth Controller
@@ -44,6 +47,7 @@ export class TikTokAdsController {
     constructor(
         private readonly oauthService: TikTokAdsOAuthService,
         private readonly configService: ConfigService,
+        private readonly entitlements: EntitlementsService,
     ) {
         // Use FRONTEND_URL from environment, fallback to Vite default port
         this.frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:5173');
@@ -60,7 +64,8 @@ export class TikTokAdsController {
      * In Production mode: Returns OAuth URL
      */
     @Get('url')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get TikTok OAuth URL or sandbox mode info' })
     @ApiResponse({
@@ -156,7 +161,8 @@ export class TikTokAdsController {
      * Called by frontend after OAuth callback to display account selection UI.
      */
     @Get('temp-accounts')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get temporary accounts list for selection' })
     @ApiQuery({ name: 'tempToken', required: true, description: 'Temporary token from OAuth callback' })
@@ -194,7 +200,8 @@ export class TikTokAdsController {
      * Called by frontend after user selects an account from the list.
      */
     @Post('complete')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Complete TikTok connection by selecting an account' })
     @ApiBody({
@@ -233,6 +240,8 @@ export class TikTokAdsController {
             throw new BadRequestException('Missing advertiserId');
         }
 
+        await this.entitlements.assertCanConnect(req.user.tenant, 'TIKTOK', [advertiserId]);
+
         return this.oauthService.completeConnection(tempToken, advertiserId, tenantId);
     }
 
@@ -247,7 +256,8 @@ export class TikTokAdsController {
      * Uses pre-configured access token and advertiser ID from environment.
      */
     @Post('connect-sandbox')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Connect TikTok Sandbox account (Sandbox mode only)' })
     @ApiResponse({
@@ -274,7 +284,8 @@ export class TikTokAdsController {
      * Get connected TikTok accounts
      */
     @Get('accounts')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:read')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get connected TikTok Ads accounts' })
     @ApiResponse({
@@ -317,7 +328,8 @@ export class TikTokAdsController {
      * Removes all connected TikTok accounts for the tenant.
      */
     @Delete('disconnect')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Disconnect TikTok Ads integration' })
     @ApiResponse({
@@ -351,7 +363,8 @@ export class TikTokAdsController {
      * Useful for testing or when automatic refresh fails.
      */
     @Post('refresh-token')
-    @UseGuards(JwtAuthGuard)
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Manually refresh access token for an account' })
     @ApiBody({
@@ -13,7 +13,7 @@ import { TikTokAdsIntegrationController } from './tiktok-ads-integration.control
  * 
  * Dependencies:
  * - CacheModule (from AppModule - global)
- * - EncryptionService (from CommonModule - global)
+ * - CredentialVaultService (from CredentialVaultModule - global)
  * - PrismaService (from PrismaModule)
  * - ConfigService (from ConfigModule)
  * 
@@ -28,7 +28,7 @@ import { TikTokAdsIntegrationController } from './tiktok-ads-integration.control
         ConfigModule,
         PrismaModule,
         // Note: CacheModule is registered globally in AppModule
-        // Note: EncryptionService is available globally from CommonModule
+        // Note: CredentialVaultService is available globally from CredentialVaultModule
     ],
     controllers: [
         TikTokAdsController,
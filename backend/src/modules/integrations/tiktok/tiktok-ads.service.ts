@@ -1,7 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { MarketingPlatformAdapter, PlatformCredentials, DateRange } from '../common/marketing-platform.adapter';
-import { Campaign, Metric, CampaignStatus, AdPlatform, Prisma } from '@prisma/client';
+import {
+  MarketingPlatformAdapter,
+  PlatformCredentials,
+  DateRange,
+  CampaignWriteBackChanges,
+  RemoteCampaignState,
+  PlatformAd,
+  PlatformAdGroup,
+  PlatformAdMetric,
+} from '../common/marketing-platform.adapter';
+import { Campaign, Metric, CampaignStatus, AdGroupStatus, AdPlatform, Prisma } from '@prisma/client';
 import axios from 'axios';
 
 @Injectable()
@@ -115,6 +124,188 @@ export class TikTokAdsService implements MarketingPlatformAdapter {
     }
   }
 
+  async fetchAdGroups(credentials: PlatformCredentials, campaignExternalId: string): Promise<PlatformAdGroup[]> {
+    const adGroups = await this.list('/adgroup/get/', credentials, campaignExternalId);
+
+    return adGroups.map((g: any) => ({
+      externalId: String(g.adgroup_id),
+      name: g.adgroup_name,
+      status: this.mapAdStatus(g.operation_status),
+      budget: g.budget != null ? parseFloat(g.budget) : null,
+      bidAmount: g.bid_price != null ? parseFloat(g.bid_price) : null,
+      bidType: g.bid_type ?? null,
+    }));
+  }
+
+  async fetchAds(credentials: PlatformCredentials, campaignExternalId: string): Promise<PlatformAd[]> {
+    const ads = await this.list('/ad/get/', credentials, campaignExternalId);
+
+    return ads.map((ad: any) => ({
+      externalId: String(ad.ad_id),
+      adGroupExternalId: String(ad.adgroup_id),
+      name: ad.ad_name,
+      status: this.mapAdStatus(ad.operation_status),
+      creative: {
+        text: ad.ad_text ?? null,
+        videoId: ad.video_id ?? null,
+        imageIds: ad.image_ids ?? [],
+        callToAction: ad.call_to_action ?? null,
+        url: ad.landing_page_url ?? null,
+      },
+    }));
+  }
+
+  async fetchAdMetrics(
+    credentials: PlatformCredentials,
+    campaignExternalId: string,
+    range: DateRange,
+  ): Promise<PlatformAdMetric[]> {
+    const response = await axios.get(`${this.baseUrl}/report/integrated/get/`, {
+      headers: {
+        'Access-Token': credentials.accessToken,
+      },
+      params: {
+        advertiser_id: credentials.accountId,
+        report_type: 'BASIC',
+        data_level: 'AUCTION_AD',
+        dimensions: JSON.stringify(['ad_id', 'stat_time_day']),
+        metrics: JSON.stringify(['impressions', 'clicks', 'spend', 'conversion']),
+        start_date: range.startDate.toISOString().split('T')[0],
+        end_date: range.endDate.toISOString().split('T')[0],
+        filters: JSON.stringify([
+          {
+            field_name: 'campaign_ids',
+            filter_type: 'IN',
+            filter_value: [campaignExternalId],
+          },
+        ]),
+        page_size: 1000,
+      },
+    });
+
+    if (response.data?.code !== 0) {
+      throw new Error(`TikTok API Error: ${response.data?.message}`);
+    }
+
+    return (response.data.data.list || []).map((row: any) => ({
+      adExternalId: String(row.dimensions.ad_id),
+      date: new Date(row.dimensions.stat_time_day),
+      impressions: parseInt(row.metrics.impressions) || 0,
+      clicks: parseInt(row.metrics.clicks) || 0,
+      spend: parseFloat(row.metrics.spend) || 0,
+      conversions: parseInt(row.metrics.conversion) || 0,
+      revenue: 0,
+    }));
+  }
+
+  async fetchCampaignState(credentials: PlatformCredentials, externalId: string): Promise<RemoteCampaignState> {
+    const response = await axios.get(`${this.baseUrl}/campaign/get/`, {
+      headers: {
+        'Access-Token': credentials.accessToken,
+      },
+      params: {
+        advertiser_id: credentials.accountId,
+        filtering: JSON.stringify({ campaign_ids: [externalId] }),
+      },
+    });
+
+    if (response.data?.code !== 0) {
+      throw new BadRequestException(`TikTok API Error: ${response.data?.message}`);
+    }
+
+    const campaign = response.data.data.list?.[0];
+    if (!campaign) {
+      throw new NotFoundException(`TikTok campaign ${externalId} not found`);
+    }
+
+    return {
+      status: this.mapStatus(campaign.operation_status),
+      budget: parseFloat(campaign.budget || '0'),
+      // TikTok schedules live on ad groups, campaigns have no end date
+      endDate: null,
+    };
+  }
+
+  async updateCampaign(
+    credentials: PlatformCredentials,
+    externalId: string,
+    changes: CampaignWriteBackChanges,
+  ): Promise<void> {
+    if (changes.endDate !== undefined) {
+      throw new BadRequestException('TikTok campaigns have no end date; set the schedule on the ad groups');
+    }
+
+    const headers = { 'Access-Token': credentials.accessToken };
+
+    if (changes.status !== undefined) {
+      await this.post('/campaign/status/update/', headers, {
+        advertiser_id: credentials.accountId,
+        campaign_ids: [externalId],
+        operation_status: changes.status === CampaignStatus.ACTIVE ? 'ENABLE' : 'DISABLE',
+      });
+    }
+
+    if (changes.budget !== undefined) {
+      await this.post('/campaign/update/', headers, {
+        advertiser_id: credentials.accountId,
+        campaign_id: externalId,
+        budget: changes.budget,
+      });
+    }
+  }
+
+  private async post(path: string, headers: Record<string, string>, body: Record<string, unknown>) {
+    const response = await axios.post(`${this.baseUrl}${path}`, body, { headers });
+    if (response.data?.code !== 0) {
+      this.logger.error(`TikTok write-back failed (${path}): ${response.data?.message}`);
+      throw new BadRequestException(`TikTok rejected the change: ${response.data?.message}`);
+    }
+  }
+
+  /**
+   * Read every page of an ad group / ad list endpoint, filtered to one campaign
+   */
+  private async list(path: string, credentials: PlatformCredentials, campaignExternalId: string): Promise<any[]> {
+    const rows: any[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await axios.get(`${this.baseUrl}${path}`, {
+        headers: {
+          'Access-Token': credentials.accessToken,
+        },
+        params: {
+          advertiser_id: credentials.accountId,
+          filtering: JSON.stringify({ campaign_ids: [campaignExternalId] }),
+          page,
+          page_size: 1000,
+        },
+      });
+
+      if (response.data?.code !== 0) {
+        throw new Error(`TikTok API Error: ${response.data?.message}`);
+      }
+
+      rows.push(...(response.data.data.list || []));
+      totalPages = response.data.data.page_info?.total_page ?? 1;
+      page++;
+    } while (page <= totalPages);
+
+    return rows;
+  }
+
+  private mapAdStatus(status: string): AdGroupStatus {
+    switch (status?.toUpperCase()) {
+      case 'ENABLE':
+        return AdGroupStatus.ACTIVE;
+      case 'DELETE':
+        return AdGroupStatus.DELETED;
+      default:
+        return AdGroupStatus.PAUSED;
+    }
+  }
+
   private mapStatus(status: string): CampaignStatus {
     switch (status?.toUpperCase()) {
       case 'ENABLE':
@@ -0,0 +1,31 @@
+import { AdPlatform } from '@prisma/client';
+
+/** Platform ids the data-sources page understands in `?reconnect=` */
+const RECONNECT_PLATFORM_IDS: Partial<Record<AdPlatform, string>> = {
+    [AdPlatform.GOOGLE_ADS]: 'google',
+    [AdPlatform.FACEBOOK]: 'facebook',
+    [AdPlatform.TIKTOK]: 'tiktok',
+    [AdPlatform.LINE_ADS]: 'line',
+    [AdPlatform.SHOPEE]: 'shopee',
+    [AdPlatform.LAZADA]: 'lazada',
+    [AdPlatform.SEARCH_CONSOLE]: 'gsc',
+};
+
+export const PLATFORM_NAMES: Partial<Record<AdPlatform, string>> = {
+    [AdPlatform.GOOGLE_ADS]: 'Google Ads',
+    [AdPlatform.FACEBOOK]: 'Facebook Ads',
+    [AdPlatform.TIKTOK]: 'TikTok Ads',
+    [AdPlatform.LINE_ADS]: 'LINE Ads',
+    [AdPlatform.GOOGLE_ANALYTICS]: 'Google Analytics',
+    [AdPlatform.SHOPEE]: 'Shopee',
+    [AdPlatform.LAZADA]: 'Lazada',
+    [AdPlatform.SEARCH_CONSOLE]: 'Google Search Console',
+};
+
+/**
+ * Data-sources page path that starts the OAuth flow for the platform right away
+ */
+export function reconnectPath(platform: AdPlatform): string {
+    const id = RECONNECT_PLATFORM_IDS[platform];
+    return id ? `/data-sources?reconnect=${id}` : '/data-sources';
+}
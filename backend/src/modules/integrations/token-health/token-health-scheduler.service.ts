@@ -0,0 +1,31 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TokenHealthService } from './token-health.service';
+
+@Injectable()
+export class TokenHealthSchedulerService {
+    private readonly logger = new Logger(TokenHealthSchedulerService.name);
+
+    constructor(private readonly tokenHealth: TokenHealthService) { }
+
+    /**
+     * Refresh tokens before they expire, then tell tenant admins about
+     * accounts that need a reconnect (including ones a sync found invalid)
+     */
+    @Cron(CronExpression.EVERY_10_MINUTES)
+    async scheduledTokenRefresh() {
+        try {
+            const { checked, refreshed, failed } = await this.tokenHealth.refreshExpiringTokens();
+            if (checked > 0) {
+                this.logger.log(`[Token Health] Checked ${checked} tokens: ${refreshed} refreshed, ${failed} failed`);
+            }
+
+            const notified = await this.tokenHealth.notifyReauthRequired();
+            if (notified > 0) {
+                this.logger.log(`[Token Health] Sent re-auth notices for ${notified} accounts`);
+            }
+        } catch (error: any) {
+            this.logger.error(`[Token Health] Run failed: ${error.message}`);
+        }
+    }
+}
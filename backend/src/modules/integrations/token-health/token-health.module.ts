@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { GoogleAdsModule } from '../google-ads/google-ads.module';
+import { GoogleAnalyticsModule } from '../google-analytics/google-analytics.module';
+import { FacebookAdsModule } from '../facebook/facebook-ads.module';
+import { TikTokAdsModule } from '../tiktok/tiktok-ads.module';
+import { ShopeeModule } from '../shopee/shopee.module';
+import { LazadaModule } from '../lazada/lazada.module';
+import { SeoModule } from '../../seo/seo.module';
+import { NotificationModule } from '../../notification/notification.module';
+import { TokenHealthService } from './token-health.service';
+import { TokenHealthSchedulerService } from './token-health-scheduler.service';
+
+@Module({
+    imports: [
+        GoogleAdsModule,
+        GoogleAnalyticsModule,
+        FacebookAdsModule,
+        TikTokAdsModule,
+        ShopeeModule,
+        LazadaModule,
+        SeoModule,
+        NotificationModule,
+    ],
+    providers: [TokenHealthService, TokenHealthSchedulerService],
+    exports: [TokenHealthService],
+})
+export class TokenHealthModule { }
@@ -0,0 +1,176 @@
+/**
+ * Token Health Unit Tests
+ * @module token-health.service.spec
+ * @description Proactive platform token refresh and re-auth notices:
+ *   - Tokens close to expiry are refreshed through the platform's OAuth service
+ *   - Refresh failures are classified (revoked, scope missing, expired, transient)
+ *   - Tenant admins are notified once per invalid token with a reconnect link
+ *   - Tokens of deleted and suspended tenants are neither refreshed nor announced
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { AdPlatform } from '@prisma/client';
+import { TokenHealthService } from './token-health.service';
+import { classifyTokenFailure } from '../../credential-vault/token-failure';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const NOW = new Date('2026-10-01T12:00:00Z');
+
+function token(overrides: Record<string, any> = {}) {
+    return {
+        id: 'token-1',
+        tenantId: TENANT_ID,
+        platform: AdPlatform.TIKTOK,
+        accountId: 'tiktok-account-1',
+        expiresAt: new Date(NOW.getTime() + 5 * 60 * 1000),
+        refreshedAt: null,
+        isValid: true,
+        failureReason: null,
+        reauthNotifiedAt: null,
+        ...overrides,
+    };
+}
+
+function setup(tokens: any[], inactiveTenants: string[] = []) {
+    const prisma = {
+        tenant: {
+            findMany: jest.fn().mockResolvedValue(inactiveTenants.map((id) => ({ id }))),
+        },
+        platformToken: {
+            findMany: jest.fn().mockResolvedValue(tokens),
+            update: jest.fn(),
+        },
+        user: {
+            findMany: jest.fn().mockResolvedValue([{ id: 'admin-1', email: 'admin@example.com' }]),
+        },
+    };
+    const credentialVault = { get: jest.fn(), store: jest.fn(), recordFailure: jest.fn() };
+    const notificationService = { create: jest.fn() };
+    const mailService = { sendMail: jest.fn() };
+    const tiktokOAuth = { refreshAccessToken: jest.fn().mockResolvedValue('new-access') };
+    const facebookOAuth = { refreshAccessToken: jest.fn().mockResolvedValue('new-access') };
+
+    const service = new TokenHealthService(
+        prisma as any,
+        new ConfigService({ APP_URL: 'https://app.example.com/' }),
+        credentialVault as any,
+        notificationService as any,
+        mailService as any,
+        {} as any,
+        {} as any,
+        {} as any,
+        facebookOAuth as any,
+        tiktokOAuth as any,
+        {} as any,
+        {} as any,
+    );
+
+    return { service, prisma, credentialVault, notificationService, mailService, tiktokOAuth, facebookOAuth };
+}
+
+describe('classifyTokenFailure', () => {
+    it.each([
+        [{ message: 'invalid_grant' }, 'REVOKED'],
+        [{ message: 'Token has been expired or revoked.' }, 'REVOKED'],
+        [{ response: { status: 400, data: { error: { code: 190, error_subcode: 460 } } } }, 'REVOKED'],
+        [{ response: { status: 400, data: { error: { code: 190, error_subcode: 463 } } } }, 'EXPIRED'],
+        [{ response: { status: 403, data: { error: { code: 200, message: 'Permissions error' } } } }, 'SCOPE_MISSING'],
+        [{ message: 'Request had insufficient authentication scopes.' }, 'SCOPE_MISSING'],
+        [{ message: 'Token refresh failed: The refresh token has expired' }, 'EXPIRED'],
+        [{ response: { status: 403, data: { error: { message: 'Quota exceeded' } } } }, 'TRANSIENT'],
+        [{ message: 'connect ETIMEDOUT' }, 'TRANSIENT'],
+    ])('classifies %j as %s', (error, reason) => {
+        expect(classifyTokenFailure(error)).toBe(reason);
+    });
+});
+
+describe('TokenHealthService', () => {
+    describe('refreshExpiringTokens', () => {
+        it('refreshes tokens expiring within the window', async () => {
+            const { service, tiktokOAuth } = setup([token()]);
+
+            await expect(service.refreshExpiringTokens(NOW)).resolves.toEqual({ checked: 1, refreshed: 1, failed: 0 });
+            expect(tiktokOAuth.refreshAccessToken).toHaveBeenCalledWith('tiktok-account-1', TENANT_ID);
+        });
+
+        it('leaves tokens that are not due yet', async () => {
+            const { service, tiktokOAuth, facebookOAuth } = setup([
+                token({ expiresAt: new Date(NOW.getTime() + 2 * 60 * 60 * 1000) }),
+                token({ id: 'token-2', platform: AdPlatform.FACEBOOK, expiresAt: new Date(NOW.getTime() + 3 * 24 * 60 * 60 * 1000) }),
+            ]);
+
+            await expect(service.refreshExpiringTokens(NOW)).resolves.toMatchObject({ checked: 1, refreshed: 1 });
+            expect(tiktokOAuth.refreshAccessToken).not.toHaveBeenCalled();
+            expect(facebookOAuth.refreshAccessToken).toHaveBeenCalledTimes(1);
+        });
+
+        it('records classified failures on the token', async () => {
+            const { service, tiktokOAuth, credentialVault } = setup([token()]);
+            tiktokOAuth.refreshAccessToken.mockRejectedValue(new Error('Token refresh failed: refresh token is invalid'));
+
+            await expect(service.refreshExpiringTokens(NOW)).resolves.toMatchObject({ refreshed: 0, failed: 1 });
+            expect(credentialVault.recordFailure).toHaveBeenCalledWith(
+                { tenantId: TENANT_ID, platform: AdPlatform.TIKTOK, accountId: 'tiktok-account-1' },
+                'REVOKED',
+                'Token refresh failed: refresh token is invalid',
+            );
+        });
+
+        it('skips tokens of deleted and suspended tenants', async () => {
+            const { service, prisma } = setup([], ['tenant-deleted', 'tenant-suspended']);
+
+            await service.refreshExpiringTokens(NOW);
+
+            expect(prisma.tenant.findMany).toHaveBeenCalledWith({
+                where: { NOT: { deletedAt: null, suspendedAt: null } },
+                select: { id: true },
+            });
+            expect(prisma.platformToken.findMany).toHaveBeenCalledWith({
+                where: expect.objectContaining({ tenantId: { notIn: ['tenant-deleted', 'tenant-suspended'] } }),
+            });
+        });
+    });
+
+    describe('notifyReauthRequired', () => {
+        it('notifies tenant admins in-app and by email with a reconnect link', async () => {
+            const { service, prisma, notificationService, mailService } = setup([
+                token({ isValid: false, failureReason: 'REVOKED' }),
+            ]);
+
+            await expect(service.notifyReauthRequired()).resolves.toBe(1);
+
+            expect(notificationService.create).toHaveBeenCalledWith(TENANT_ID, expect.objectContaining({
+                userId: 'admin-1',
+                type: 'INTEGRATION_REAUTH',
+                priority: 'HIGH',
+                metadata: expect.objectContaining({ actionUrl: '/data-sources?reconnect=tiktok', reason: 'REVOKED' }),
+            }));
+            expect(mailService.sendMail.mock.calls[0][0].html).toContain('https://app.example.com/data-sources?reconnect=tiktok');
+            expect(prisma.platformToken.update).toHaveBeenCalledWith({
+                where: { id: 'token-1' },
+                data: { reauthNotifiedAt: expect.any(Date) },
+            });
+        });
+
+        it('still marks the token notified when email delivery fails', async () => {
+            const { service, prisma, mailService } = setup([token({ isValid: false, failureReason: 'EXPIRED' })]);
+            mailService.sendMail.mockRejectedValue(new Error('SMTP is not configured'));
+
+            await expect(service.notifyReauthRequired()).resolves.toBe(1);
+            expect(prisma.platformToken.update).toHaveBeenCalled();
+        });
+
+        it('skips tokens of deleted and suspended tenants', async () => {
+            const { service, prisma } = setup([], ['tenant-deleted']);
+
+            await expect(service.notifyReauthRequired()).resolves.toBe(0);
+            expect(prisma.platformToken.findMany).toHaveBeenCalledWith({
+                where: { tenantId: { notIn: ['tenant-deleted'] }, isValid: false, reauthNotifiedAt: null },
+            });
+        });
+    });
+});
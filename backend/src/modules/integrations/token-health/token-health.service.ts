@@ -0,0 +1,241 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdPlatform, PlatformToken, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ACTIVE_TENANT_WHERE } from '../../../common/constants/app.constants';
+import { MailService } from '../../../common/services/mail.service';
+import { NotificationService } from '../../notification/notification.service';
+import { CredentialRef, CredentialVaultService } from '../../credential-vault/credential-vault.service';
+import { classifyTokenFailure, TokenFailureReason } from '../../credential-vault/token-failure';
+import { GoogleAdsOAuthService } from '../google-ads/google-ads-oauth.service';
+import { GoogleAnalyticsApiService } from '../google-analytics/google-analytics-api.service';
+import { FacebookAdsOAuthService } from '../facebook/facebook-ads-oauth.service';
+import { TikTokAdsOAuthService } from '../tiktok/tiktok-ads-oauth.service';
+import { ShopeeOAuthService } from '../shopee/shopee-oauth.service';
+import { LazadaOAuthService } from '../lazada/lazada-oauth.service';
+import { GoogleSearchConsoleService } from '../../seo/google-search-console.service';
+import { PLATFORM_NAMES, reconnectPath } from './reconnect-link';
+
+/** Tokens expiring within this window are refreshed */
+const REFRESH_WINDOW_MS = 15 * 60 * 1000;
+/** Facebook long-lived tokens are extended a week before they lapse */
+const FACEBOOK_REFRESH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+/** Tokens without a known expiry are checked this often */
+const VERIFY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** LINE Ads signs requests with a secret that does not expire */
+const REFRESHABLE_PLATFORMS: AdPlatform[] = [
+    AdPlatform.GOOGLE_ADS,
+    AdPlatform.GOOGLE_ANALYTICS,
+    AdPlatform.SEARCH_CONSOLE,
+    AdPlatform.FACEBOOK,
+    AdPlatform.TIKTOK,
+    AdPlatform.SHOPEE,
+    AdPlatform.LAZADA,
+];
+
+const FAILURE_DESCRIPTIONS: Record<Exclude<TokenFailureReason, 'TRANSIENT'>, string> = {
+    REVOKED: 'access was revoked',
+    SCOPE_MISSING: 'a required permission is missing',
+    EXPIRED: 'the authorization expired',
+};
+
+export interface TokenRefreshResult {
+    checked: number;
+    refreshed: number;
+    failed: number;
+}
+
+/**
+ * Token Health - refreshes platform tokens before they expire and asks tenant
+ * admins to reconnect accounts whose tokens can no longer be refreshed
+ */
+@Injectable()
+export class TokenHealthService {
+    private readonly logger = new Logger(TokenHealthService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly config: ConfigService,
+        private readonly credentialVault: CredentialVaultService,
+        private readonly notificationService: NotificationService,
+        private readonly mailService: MailService,
+        private readonly googleAdsOAuth: GoogleAdsOAuthService,
+        private readonly googleAnalyticsApi: GoogleAnalyticsApiService,
+        private readonly searchConsole: GoogleSearchConsoleService,
+        private readonly facebookOAuth: FacebookAdsOAuthService,
+        private readonly tiktokOAuth: TikTokAdsOAuthService,
+        private readonly shopeeOAuth: ShopeeOAuthService,
+        private readonly lazadaOAuth: LazadaOAuthService,
+    ) { }
+
+    /**
+     * Refresh every valid token that is about to expire, plus tokens without
+     * an expiry that were not verified for a day. Failures are classified and
+     * recorded on the token.
+     */
+    async refreshExpiringTokens(now = new Date()): Promise<TokenRefreshResult> {
+        const tokens = await this.prisma.platformToken.findMany({
+            where: {
+                tenantId: { notIn: await this.inactiveTenantIds() },
+                isValid: true,
+                platform: { in: REFRESHABLE_PLATFORMS },
+                OR: [
+                    { expiresAt: { lte: new Date(now.getTime() + FACEBOOK_REFRESH_WINDOW_MS) } },
+                    {
+                        expiresAt: null,
+                        OR: [{ refreshedAt: null }, { refreshedAt: { lt: new Date(now.getTime() - VERIFY_INTERVAL_MS) } }],
+                    },
+                ],
+            },
+        });
+        const due = tokens.filter((token) => this.isDue(token, now));
+
+        let refreshed = 0;
+        let failed = 0;
+        for (const token of due) {
+            const ref: CredentialRef = { tenantId: token.tenantId, platform: token.platform, accountId: token.accountId };
+            try {
+                await this.refresh(ref);
+                refreshed += 1;
+            } catch (error: any) {
+                const reason = classifyTokenFailure(error);
+                await this.credentialVault.recordFailure(ref, reason, error.message);
+                failed += 1;
+                this.logger.warn(
+                    `[Token Health] ${token.platform} account ${token.accountId} refresh failed (${reason}): ${error.message}`,
+                );
+            }
+        }
+
+        return { checked: due.length, refreshed, failed };
+    }
+
+    /**
+     * Notify the admins of each tenant about tokens that need a reconnect.
+     * Each invalid token is announced once; reconnecting clears the marker.
+     */
+    async notifyReauthRequired(): Promise<number> {
+        const tokens = await this.prisma.platformToken.findMany({
+            where: { tenantId: { notIn: await this.inactiveTenantIds() }, isValid: false, reauthNotifiedAt: null },
+        });
+
+        let notified = 0;
+        for (const token of tokens) {
+            try {
+                await this.notifyTenantAdmins(token);
+                await this.prisma.platformToken.update({
+                    where: { id: token.id },
+                    data: { reauthNotifiedAt: new Date() },
+                });
+                notified += 1;
+            } catch (error: any) {
+                this.logger.error(`[Token Health] Failed to notify re-auth for token ${token.id}: ${error.message}`);
+            }
+        }
+
+        return notified;
+    }
+
+    /**
+     * Deleted and suspended tenants; PlatformToken has no tenant relation to filter on
+     */
+    private async inactiveTenantIds(): Promise<string[]> {
+        const tenants = await this.prisma.tenant.findMany({
+            where: { NOT: ACTIVE_TENANT_WHERE },
+            select: { id: true },
+        });
+        return tenants.map((tenant) => tenant.id);
+    }
+
+    private isDue(token: PlatformToken, now: Date): boolean {
+        if (!token.expiresAt) return true;
+        const window = token.platform === AdPlatform.FACEBOOK ? FACEBOOK_REFRESH_WINDOW_MS : REFRESH_WINDOW_MS;
+        return token.expiresAt.getTime() - now.getTime() <= window;
+    }
+
+    /**
+     * Refresh through the platform's own OAuth service so the new tokens are
+     * stored the same way a sync-time refresh would store them
+     */
+    private async refresh(ref: CredentialRef): Promise<void> {
+        const { tenantId, accountId } = ref;
+
+        switch (ref.platform) {
+            case AdPlatform.GOOGLE_ADS:
+                await this.googleAdsOAuth.refreshAccessToken(accountId, tenantId);
+                return;
+            case AdPlatform.GOOGLE_ANALYTICS: {
+                const stored = await this.credentialVault.get(ref);
+                await this.googleAnalyticsApi.refreshAccessToken({
+                    id: accountId,
+                    tenantId,
+                    refreshToken: stored?.refreshToken,
+                });
+                return;
+            }
+            case AdPlatform.SEARCH_CONSOLE: {
+                // googleapis refreshes GSC tokens per request; only check the refresh token still works
+                const auth = await this.searchConsole.getAccountAuth({ id: accountId, tenantId });
+                await auth.refreshAccessToken();
+                await this.credentialVault.store(ref, {});
+                return;
+            }
+            case AdPlatform.FACEBOOK:
+                await this.facebookOAuth.refreshAccessToken(accountId, tenantId);
+                return;
+            case AdPlatform.TIKTOK:
+                await this.tiktokOAuth.refreshAccessToken(accountId, tenantId);
+                return;
+            case AdPlatform.SHOPEE:
+                await this.shopeeOAuth.refreshAccessToken(accountId, tenantId);
+                return;
+            case AdPlatform.LAZADA:
+                await this.lazadaOAuth.refreshAccessToken(accountId, tenantId);
+                return;
+        }
+    }
+
+    private async notifyTenantAdmins(token: PlatformToken): Promise<void> {
+        const admins = await this.prisma.user.findMany({
+            where: { tenantId: token.tenantId, role: UserRole.ADMIN, isActive: true },
+            select: { id: true, email: true },
+        });
+        if (admins.length === 0) return;
+
+        const platformName = PLATFORM_NAMES[token.platform] ?? token.platform;
+        const reason = FAILURE_DESCRIPTIONS[token.failureReason as keyof typeof FAILURE_DESCRIPTIONS] ?? 'the connection stopped working';
+        const title = `Reconnect ${platformName}`;
+        const message = `${platformName} can no longer sync because ${reason}. Reconnect the account to resume syncing.`;
+        const actionUrl = reconnectPath(token.platform);
+        const appUrl = this.config.get<string>('APP_URL', 'http://localhost:5173').replace(/\/+$/, '');
+
+        for (const admin of admins) {
+            await this.notificationService.create(token.tenantId, {
+                userId: admin.id,
+                type: 'INTEGRATION_REAUTH',
+                title,
+                message,
+                priority: 'HIGH',
+                metadata: {
+                    platform: token.platform,
+                    accountId: token.accountId,
+                    reason: token.failureReason,
+                    actionUrl,
+                    actionText: 'Reconnect',
+                },
+            });
+
+            try {
+                await this.mailService.sendMail({
+                    to: admin.email,
+                    subject: title,
+                    html: `<p>${message}</p><p><a href="${appUrl}${actionUrl}">Reconnect ${platformName}</a></p>`,
+                });
+            } catch (error: any) {
+                // The in-app notification is enough when SMTP is not configured
+                this.logger.warn(`[Token Health] Re-auth email to ${admin.email} failed: ${error.message}`);
+            }
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './metric-import.dto';
@@ -0,0 +1,147 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+    IsEnum,
+    IsIn,
+    IsNotEmpty,
+    IsObject,
+    IsOptional,
+    IsString,
+    IsUUID,
+    Matches,
+    MaxLength,
+    ValidateNested,
+} from 'class-validator';
+import { AdPlatform } from '@prisma/client';
+import {
+    METRIC_IMPORT_DATE_FORMATS,
+    METRIC_IMPORT_FIELDS,
+    MetricImportDateFormat,
+    MetricImportMapping,
+} from '../metric-import.mapper';
+
+/** Multipart form fields arrive as strings; objects are sent as JSON text */
+const parseJsonField = ({ value }: { value: unknown }) => {
+    if (typeof value !== 'string') return value;
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+};
+
+export class MetricImportDefaultsDto {
+    @ApiPropertyOptional({ enum: AdPlatform, default: AdPlatform.OFFLINE })
+    @IsEnum(AdPlatform)
+    @IsOptional()
+    platform?: AdPlatform;
+
+    @ApiPropertyOptional({ example: 'radio', description: 'Channel label stored in Metric.source' })
+    @IsString()
+    @MaxLength(50)
+    @IsOptional()
+    source?: string;
+
+    @ApiPropertyOptional({ example: 'Bangkok FM spring flight', description: 'Campaign for rows without a campaign column' })
+    @IsString()
+    @MaxLength(255)
+    @IsOptional()
+    campaign?: string;
+
+    @ApiPropertyOptional({ example: 'THB', description: 'Currency of campaigns the import creates. Default: tenant currency' })
+    @Matches(/^[A-Z]{3}$/, { message: 'currency must be an ISO 4217 code' })
+    @IsOptional()
+    currency?: string;
+
+    @ApiPropertyOptional({ enum: METRIC_IMPORT_DATE_FORMATS, default: 'YYYY-MM-DD' })
+    @IsIn(METRIC_IMPORT_DATE_FORMATS)
+    @IsOptional()
+    dateFormat?: MetricImportDateFormat;
+}
+
+export class CreateMetricImportTemplateDto {
+    @ApiProperty({ example: 'Radio monthly report' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({
+        description: `Metric field → column header. Fields: ${METRIC_IMPORT_FIELDS.join(', ')}`,
+        example: { date: 'Air date', campaign: 'Spot', spend: 'Cost (THB)', impressions: 'Reach' },
+    })
+    @IsObject()
+    mapping: MetricImportMapping;
+
+    @ApiPropertyOptional({ type: MetricImportDefaultsDto })
+    @ValidateNested()
+    @Type(() => MetricImportDefaultsDto)
+    @IsOptional()
+    defaults?: MetricImportDefaultsDto;
+}
+
+export class UpdateMetricImportTemplateDto extends PartialType(CreateMetricImportTemplateDto) { }
+
+/**
+ * Body of the preview / import requests (multipart with a "file", or JSON with "csv")
+ */
+export class MetricImportFileDto {
+    @ApiPropertyOptional({ description: 'Saved template to take the mapping and defaults from' })
+    @IsUUID()
+    @IsOptional()
+    templateId?: string;
+
+    @ApiPropertyOptional({ description: 'Mapping (JSON). Overrides the template; suggested from the headers when neither is given' })
+    @Transform(parseJsonField)
+    @IsObject()
+    @IsOptional()
+    mapping?: MetricImportMapping;
+
+    @ApiPropertyOptional({ type: MetricImportDefaultsDto, description: 'Defaults (JSON). Overrides the template' })
+    @Transform(parseJsonField)
+    @ValidateNested()
+    @Type(() => MetricImportDefaultsDto)
+    @IsOptional()
+    defaults?: MetricImportDefaultsDto;
+
+    @ApiPropertyOptional({ description: 'CSV content (alternative to a multipart "file" upload)' })
+    @IsString()
+    @IsOptional()
+    csv?: string;
+}
+
+export interface MetricImportPreview {
+    headers: string[];
+    mapping: MetricImportMapping;
+    /** Mapping problems that fail every row (missing date column, ...) */
+    problems: string[];
+    total: number;
+    valid: number;
+    /** Campaigns that do not exist yet and will be created */
+    newCampaigns: string[];
+    rows: Array<{
+        row: number;
+        date: string;
+        hour: number;
+        campaign: string;
+        platform: AdPlatform;
+        source: string;
+        impressions: number;
+        clicks: number;
+        conversions: number;
+        spend: number;
+        revenue: number;
+        orders: number;
+    }>;
+    errors: Array<{ row: number; message: string }>;
+}
+
+export interface MetricImportResult {
+    batchId: string;
+    total: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    campaignsCreated: number;
+    errors: Array<{ row: number; message: string }>;
+}
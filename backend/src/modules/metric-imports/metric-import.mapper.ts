@@ -0,0 +1,250 @@
+import { AdPlatform } from '@prisma/client';
+import { normalizeFieldKey } from '../../common/utils/csv.util';
+import { excelSerialToDate } from '../../common/utils/xlsx.util';
+
+/**
+ * Column mapping and row validation for offline metric uploads.
+ *
+ * A mapping points Metric fields at column headers of the uploaded file; fields
+ * without a column fall back to the template defaults. Everything here is pure so
+ * the preview and the actual import validate rows exactly the same way.
+ */
+
+export const METRIC_IMPORT_FIELDS = [
+    'date',
+    'hour',
+    'campaign',
+    'platform',
+    'source',
+    'impressions',
+    'clicks',
+    'conversions',
+    'spend',
+    'revenue',
+    'orders',
+] as const;
+export type MetricImportField = typeof METRIC_IMPORT_FIELDS[number];
+export type MetricImportMapping = Partial<Record<MetricImportField, string>>;
+
+export const METRIC_VALUE_FIELDS = ['impressions', 'clicks', 'conversions', 'spend', 'revenue', 'orders'] as const;
+type MetricValueField = typeof METRIC_VALUE_FIELDS[number];
+
+export const METRIC_IMPORT_DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'] as const;
+export type MetricImportDateFormat = typeof METRIC_IMPORT_DATE_FORMATS[number];
+
+export interface MetricImportDefaults {
+    platform?: AdPlatform;
+    source?: string;
+    campaign?: string;
+    /** Currency of campaigns created by the import (default: tenant currency) */
+    currency?: string;
+    dateFormat?: MetricImportDateFormat;
+}
+
+export interface MetricImportRecord {
+    /** 1-based file row (the header is row 1) */
+    row: number;
+    date: Date;
+    hour: number;
+    campaign: string;
+    platform: AdPlatform;
+    source: string;
+    impressions: number;
+    clicks: number;
+    conversions: number;
+    spend: number;
+    revenue: number;
+    orders: number;
+}
+
+export interface MappedMetricRows {
+    records: MetricImportRecord[];
+    errors: Array<{ row: number; message: string }>;
+}
+
+/** Source labels written by connectors / generators; imports must not overwrite their rows */
+const RESERVED_SOURCES = ['sync'];
+const SOURCE_PATTERN = /^[a-z0-9][a-z0-9 _.-]{0,49}$/;
+export const DEFAULT_IMPORT_SOURCE = 'import';
+
+// Header aliases (normalized keys) used to suggest a mapping
+const FIELD_ALIASES: Record<MetricImportField, string[]> = {
+    date: ['date', 'day', 'report_date'],
+    hour: ['hour'],
+    campaign: ['campaign', 'campaign_name', 'activity', 'event'],
+    platform: ['platform'],
+    source: ['source', 'channel', 'medium'],
+    impressions: ['impressions', 'impr', 'reach', 'views', 'audience'],
+    clicks: ['clicks', 'visits', 'sessions'],
+    conversions: ['conversions', 'leads', 'signups', 'results'],
+    spend: ['spend', 'cost', 'amount_spent', 'budget_spent'],
+    revenue: ['revenue', 'sales', 'conversion_value'],
+    orders: ['orders', 'transactions', 'purchases'],
+};
+
+const INTEGER_FIELDS: MetricValueField[] = ['impressions', 'clicks', 'conversions', 'orders'];
+
+/**
+ * Match file headers to Metric fields by name. Each header is used at most once.
+ */
+export function suggestMapping(headers: string[]): MetricImportMapping {
+    const mapping: MetricImportMapping = {};
+    const used = new Set<string>();
+    for (const field of METRIC_IMPORT_FIELDS) {
+        const header = headers.find((h) => !used.has(h) && FIELD_ALIASES[field].includes(normalizeFieldKey(h)));
+        if (header) {
+            mapping[field] = header;
+            used.add(header);
+        }
+    }
+    return mapping;
+}
+
+/**
+ * Problems with a mapping + defaults that make every row fail. Empty when usable.
+ */
+export function validateMapping(
+    mapping: MetricImportMapping,
+    defaults: MetricImportDefaults,
+    headers?: string[],
+): string[] {
+    const problems: string[] = [];
+    for (const [field, header] of Object.entries(mapping)) {
+        if (!(METRIC_IMPORT_FIELDS as readonly string[]).includes(field)) {
+            problems.push(`Unknown field "${field}"`);
+        } else if (header !== undefined && typeof header !== 'string') {
+            problems.push(`Column for ${field} must be a header name`);
+        } else if (headers && header && !headers.includes(header)) {
+            problems.push(`Column "${header}" mapped to ${field} is not in the file`);
+        }
+    }
+    if (!mapping.date) {
+        problems.push('Map a column to date');
+    }
+    if (!mapping.campaign && !defaults.campaign) {
+        problems.push('Map a column to campaign or set a default campaign');
+    }
+    if (!METRIC_VALUE_FIELDS.some((field) => mapping[field])) {
+        problems.push(`Map at least one of ${METRIC_VALUE_FIELDS.join(', ')}`);
+    }
+    if (defaults.source !== undefined && !isValidSource(normalizeSource(defaults.source))) {
+        problems.push(`Default source "${defaults.source}" is not allowed`);
+    }
+    return problems;
+}
+
+/**
+ * Turn file rows into validated metric records. Rows with errors are reported
+ * and left out; a row repeating an earlier row's key is an error too, so one
+ * file never writes the same metric twice.
+ */
+export function mapMetricRows(
+    rows: Record<string, string>[],
+    mapping: MetricImportMapping,
+    defaults: MetricImportDefaults,
+    today: Date,
+): MappedMetricRows {
+    const records: MetricImportRecord[] = [];
+    const errors: MappedMetricRows['errors'] = [];
+    const seen = new Map<string, number>();
+
+    rows.forEach((values, index) => {
+        // Row numbers are 1-based and account for the header line
+        const row = index + 2;
+        const cell = (field: MetricImportField) => {
+            const header = mapping[field];
+            const value = header ? values[header]?.trim() : undefined;
+            return value ? value : undefined;
+        };
+        const fail = (message: string) => errors.push({ row, message });
+
+        const rawDate = cell('date');
+        const date = rawDate ? parseImportDate(rawDate, defaults.dateFormat ?? 'YYYY-MM-DD') : null;
+        if (!date) return fail(rawDate ? `Invalid date "${rawDate}"` : 'Missing date');
+        if (date > today) return fail(`Date ${rawDate} is in the future`);
+
+        const rawHour = cell('hour');
+        const hour = rawHour === undefined ? 0 : Number(rawHour);
+        if (!Number.isInteger(hour) || hour < 0 || hour > 23) return fail(`Invalid hour "${rawHour}"`);
+
+        const campaign = (cell('campaign') ?? defaults.campaign)?.replace(/\s+/g, ' ').slice(0, 255);
+        if (!campaign) return fail('Missing campaign');
+
+        const rawPlatform = cell('platform');
+        const platform = rawPlatform ? parsePlatform(rawPlatform) : defaults.platform ?? AdPlatform.OFFLINE;
+        if (!platform) return fail(`Unknown platform "${rawPlatform}"`);
+
+        const source = normalizeSource(cell('source') ?? defaults.source ?? DEFAULT_IMPORT_SOURCE);
+        if (!isValidSource(source)) return fail(`Source "${source}" is not allowed`);
+
+        const metrics = {} as Record<MetricValueField, number>;
+        for (const field of METRIC_VALUE_FIELDS) {
+            const raw = cell(field);
+            const value = raw === undefined ? 0 : parseAmount(raw);
+            if (value === null || value < 0) return fail(`Invalid ${field} "${raw}"`);
+            metrics[field] = INTEGER_FIELDS.includes(field) ? Math.round(value) : Math.round(value * 100) / 100;
+        }
+        if (METRIC_VALUE_FIELDS.every((field) => cell(field) === undefined)) return fail('Row has no metric values');
+
+        const key = metricRecordKey({ date, hour, campaign, platform, source });
+        const first = seen.get(key);
+        if (first !== undefined) return fail(`Duplicate of row ${first} (same date, hour, campaign, platform and source)`);
+        seen.set(key, row);
+
+        records.push({ row, date, hour, campaign, platform, source, ...metrics });
+    });
+
+    return { records, errors };
+}
+
+export function metricRecordKey(record: Pick<MetricImportRecord, 'date' | 'hour' | 'campaign' | 'platform' | 'source'>): string {
+    return [record.date.toISOString().split('T')[0], record.hour, record.platform, record.source, record.campaign.toLowerCase()].join('|');
+}
+
+export function normalizeSource(value: string): string {
+    return value.trim().toLowerCase();
+}
+
+function isValidSource(source: string): boolean {
+    return SOURCE_PATTERN.test(source) && !RESERVED_SOURCES.includes(source);
+}
+
+function parsePlatform(value: string): AdPlatform | null {
+    const key = normalizeFieldKey(value).toUpperCase();
+    return (Object.values(AdPlatform) as string[]).includes(key) ? (key as AdPlatform) : null;
+}
+
+/**
+ * "1,234.50", "฿1 234", "$99" → number. Null when not a number.
+ */
+function parseAmount(value: string): number | null {
+    const cleaned = value.replace(/[\s,]/g, '').replace(/^[^\d.-]+/, '');
+    if (cleaned === '') return null;
+    const parsed = Number(cleaned);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Day in the given format, ISO as a fallback, or an Excel serial from .xlsx cells
+ */
+export function parseImportDate(value: string, format: MetricImportDateFormat): Date | null {
+    if (/^\d{5}(\.\d+)?$/.test(value)) {
+        return excelSerialToDate(Number(value));
+    }
+
+    let parts: RegExpExecArray | null = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/.exec(value);
+    let [year, month, day] = parts ? [parts[1], parts[2], parts[3]] : [];
+    if (!parts && format !== 'YYYY-MM-DD') {
+        parts = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/.exec(value);
+        if (parts) {
+            [day, month] = format === 'DD/MM/YYYY' ? [parts[1], parts[2]] : [parts[2], parts[1]];
+            year = parts[3];
+        }
+    }
+    if (!parts) return null;
+
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    // Reject rollovers such as 2026-02-30
+    if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) return null;
+    return date;
+}
@@ -0,0 +1,300 @@
+/**
+ * Metric Import Unit Tests
+ * @module metric-import.service.spec
+ * @description Offline metric uploads for channels without a connector:
+ *   - Mapping is suggested from headers; preview reports row errors without writing
+ *   - Import upserts on metrics_unique_key, tags rows with the batch, creates OFFLINE campaigns
+ *   - XLSX files are read from the first worksheet
+ *   - Rollback deletes created rows and restores overwritten ones
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { AdPlatform } from '@prisma/client';
+import { deflateRawSync } from 'zlib';
+import { MetricImportService } from './metric-import.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const USER_ID = 'user-001';
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+const RADIO_CSV = [
+    'Date,Campaign,Channel,Reach,Cost,Leads',
+    '2026-03-01,Morning Drive,radio,"12,000",1500.50,12',
+    '2026-03-02,Morning Drive,radio,9000,1200,8',
+    '2026-03-02,morning drive,radio,9000,1200,8',
+    '2026-02-30,Morning Drive,radio,100,10,1',
+    '2026-03-03,Morning Drive,radio,100,-10,1',
+    '2099-01-01,Morning Drive,radio,100,10,1',
+    '2026-03-03,Evening Talk,sync,100,10,1',
+].join('\n');
+
+/** Build a zip with the given entries (first stored, the rest deflated) */
+function zip(files: Record<string, string>): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    Object.entries(files).forEach(([name, content], index) => {
+        const raw = Buffer.from(content, 'utf8');
+        const method = index === 0 ? 0 : 8;
+        const data = method === 0 ? raw : deflateRawSync(raw);
+        const nameBytes = Buffer.from(name, 'utf8');
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(nameBytes.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(method, 10);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(raw.length, 24);
+        central.writeUInt16LE(nameBytes.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, nameBytes, data);
+        centrals.push(central, nameBytes);
+        offset += local.length + nameBytes.length + data.length;
+    });
+
+    const directory = Buffer.concat(centrals);
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(Object.keys(files).length, 8);
+    eocd.writeUInt16LE(Object.keys(files).length, 10);
+    eocd.writeUInt32LE(directory.length, 12);
+    eocd.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, eocd]);
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('MetricImportService', () => {
+    let service: MetricImportService;
+    let prisma: {
+        campaign: { findMany: jest.Mock; createMany: jest.Mock; deleteMany: jest.Mock };
+        metric: { findMany: jest.Mock; upsert: jest.Mock; deleteMany: jest.Mock; updateMany: jest.Mock };
+        metricImportBatch: { create: jest.Mock; findFirst: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+        metricImportTemplate: { findFirst: jest.Mock; create: jest.Mock };
+        tenant: { findUnique: jest.Mock };
+        $transaction: jest.Mock;
+    };
+    let auditLogs: { createLog: jest.Mock };
+
+    beforeEach(async () => {
+        prisma = {
+            campaign: {
+                findMany: jest.fn().mockResolvedValue([]),
+                createMany: jest.fn(),
+                deleteMany: jest.fn().mockReturnValue({ count: 0 }),
+            },
+            metric: {
+                findMany: jest.fn().mockResolvedValue([]),
+                upsert: jest.fn(),
+                deleteMany: jest.fn().mockReturnValue({ count: 0 }),
+                updateMany: jest.fn().mockReturnValue({ count: 1 }),
+            },
+            metricImportBatch: {
+                create: jest.fn(),
+                findFirst: jest.fn(),
+                findMany: jest.fn().mockResolvedValue([]),
+                update: jest.fn(),
+            },
+            metricImportTemplate: { findFirst: jest.fn(), create: jest.fn() },
+            tenant: { findUnique: jest.fn().mockResolvedValue({ currency: 'THB' }) },
+            $transaction: jest.fn(async (ops: unknown[]) => ops),
+        };
+        auditLogs = { createLog: jest.fn() };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                MetricImportService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: AuditLogsService, useValue: auditLogs },
+                { provide: TenantTimezoneService, useValue: { getTimezone: jest.fn().mockResolvedValue('Asia/Bangkok') } },
+            ],
+        }).compile();
+
+        service = module.get(MetricImportService);
+    });
+
+    describe('preview', () => {
+        it('should suggest a mapping and report row errors without writing', async () => {
+            const preview = await service.preview(TENANT_ID, service.parseFile(RADIO_CSV));
+
+            expect(preview.mapping).toEqual({ date: 'Date', campaign: 'Campaign', source: 'Channel', impressions: 'Reach', spend: 'Cost', conversions: 'Leads' });
+            expect(preview).toMatchObject({ total: 7, valid: 2, problems: [], newCampaigns: ['Morning Drive'] });
+            expect(preview.rows[0]).toEqual({
+                row: 2, date: '2026-03-01', hour: 0, campaign: 'Morning Drive', platform: AdPlatform.OFFLINE, source: 'radio',
+                impressions: 12000, clicks: 0, conversions: 12, spend: 1500.5, revenue: 0, orders: 0,
+            });
+            expect(preview.errors).toEqual([
+                { row: 4, message: 'Duplicate of row 3 (same date, hour, campaign, platform and source)' },
+                { row: 5, message: 'Invalid date "2026-02-30"' },
+                { row: 6, message: 'Invalid spend "-10"' },
+                { row: 7, message: 'Date 2099-01-01 is in the future' },
+                { row: 8, message: 'Source "sync" is not allowed' },
+            ]);
+            expect(prisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should report mapping problems instead of row errors', async () => {
+            const preview = await service.preview(TENANT_ID, service.parseFile('Day,Notes\n2026-03-01,x'), { mapping: { date: 'Day', spend: 'Cost' } });
+
+            expect(preview.problems).toEqual([
+                'Column "Cost" mapped to spend is not in the file',
+                'Map a column to campaign or set a default campaign',
+            ]);
+            expect(preview.valid).toBe(0);
+        });
+
+        it('should only create campaigns for the OFFLINE platform', async () => {
+            const csv = 'Date,Campaign,Platform,Cost\n2026-03-01,Brand Search,google_ads,10\n2026-03-01,Unknown,google_ads,10';
+            prisma.campaign.findMany.mockResolvedValue([
+                { id: 'c-google', name: 'Brand Search', externalId: '123', platform: AdPlatform.GOOGLE_ADS },
+            ]);
+
+            const preview = await service.preview(TENANT_ID, service.parseFile(csv));
+
+            expect(preview.valid).toBe(1);
+            expect(preview.newCampaigns).toEqual([]);
+            expect(preview.errors).toEqual([{ row: 3, message: 'Campaign "Unknown" not found on GOOGLE_ADS' }]);
+        });
+    });
+
+    describe('import', () => {
+        it('should upsert rows on the unique key and tag them with the batch', async () => {
+            prisma.campaign.findMany.mockResolvedValue([
+                { id: 'c-drive', name: 'Morning Drive', externalId: null, platform: AdPlatform.OFFLINE },
+            ]);
+            prisma.metric.findMany.mockResolvedValue([{
+                id: 'm-old', campaignId: 'c-drive', date: day('2026-03-01'), hour: 0, platform: AdPlatform.OFFLINE, source: 'radio',
+                importBatchId: 'batch-old', impressions: 10000, clicks: 0, conversions: 10, spend: 1000, revenue: 0, orders: 0,
+                ctr: 0, costPerClick: 0, costPerMille: 100, costPerAction: 100, conversionRate: 0, roas: 0, averageOrderValue: 0,
+            }]);
+
+            const result = await service.import(
+                TENANT_ID,
+                service.parseFile(RADIO_CSV),
+                { defaults: { dateFormat: 'YYYY-MM-DD' }, fileName: 'radio.csv' },
+                USER_ID,
+            );
+
+            expect(result).toMatchObject({ total: 7, created: 1, updated: 1, skipped: 5, campaignsCreated: 0 });
+            expect(prisma.metric.upsert).toHaveBeenCalledTimes(2);
+
+            const upsert = prisma.metric.upsert.mock.calls[0][0];
+            expect(upsert.where).toEqual({
+                metrics_unique_key: { tenantId: TENANT_ID, campaignId: 'c-drive', date: day('2026-03-01'), hour: 0, platform: AdPlatform.OFFLINE, source: 'radio' },
+            });
+            expect(upsert.update).toMatchObject({
+                impressions: 12000,
+                spend: 1500.5,
+                conversions: 12,
+                costPerMille: 125.0417,
+                costPerAction: 125.0417,
+                importBatchId: result.batchId,
+            });
+
+            const batch = prisma.metricImportBatch.create.mock.calls[0][0].data;
+            expect(batch).toMatchObject({ id: result.batchId, fileName: 'radio.csv', createdRows: 1, updatedRows: 1, skippedRows: 5 });
+            expect(batch.replaced).toEqual([
+                { id: 'm-old', importBatchId: 'batch-old', values: expect.objectContaining({ impressions: 10000, spend: 1000, costPerMille: 100 }) },
+            ]);
+            expect(auditLogs.createLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'IMPORT_METRICS', userId: USER_ID }));
+        });
+
+        it('should create missing OFFLINE campaigns in the tenant currency', async () => {
+            prisma.tenant.findUnique.mockResolvedValue({ currency: 'USD' });
+
+            await service.import(TENANT_ID, service.parseFile('Date,Cost\n01/03/2026,50'), {
+                mapping: { date: 'Date', spend: 'Cost' },
+                defaults: { campaign: 'Influencer: @runner', source: 'Influencer', dateFormat: 'DD/MM/YYYY' },
+            });
+
+            const [campaign] = prisma.campaign.createMany.mock.calls[0][0].data;
+            expect(campaign).toMatchObject({ name: 'Influencer: @runner', platform: AdPlatform.OFFLINE, currency: 'USD' });
+            expect(prisma.metric.upsert.mock.calls[0][0].create).toMatchObject({
+                campaignId: campaign.id,
+                date: day('2026-03-01'),
+                source: 'influencer',
+            });
+            expect(prisma.metricImportBatch.create.mock.calls[0][0].data.createdCampaignIds).toEqual([campaign.id]);
+        });
+
+        it('should refuse a file with no valid rows', async () => {
+            await expect(service.import(TENANT_ID, service.parseFile('Date,Campaign,Cost\nnope,A,1')))
+                .rejects.toThrow(BadRequestException);
+            expect(prisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should read the first worksheet of an XLSX file', () => {
+            const file = zip({
+                'xl/workbook.xml': '<workbook><sheets><sheet name="Radio" sheetId="1" r:id="rId1"/></sheets></workbook>',
+                'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+                'xl/sharedStrings.xml': '<sst><si><t>Date</t></si><si><t>Campaign</t></si><si><r><t>Cost</t></r><r><t> (THB)</t></r></si><si><t>Drive &amp; Talk</t></si></sst>',
+                'xl/worksheets/sheet1.xml': '<worksheet><sheetData>'
+                    + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>'
+                    + '<row r="2"><c r="A2"><v>46082</v></c><c r="C2"><v>1500.5</v></c></row>'
+                    + '<row r="3"><c r="A3"><v>46083</v></c><c r="B3" t="s"><v>3</v></c><c r="C3" t="inlineStr"><is><t>900</t></is></c></row>'
+                    + '</sheetData></worksheet>',
+            });
+
+            expect(service.parseFile(file)).toEqual([
+                { 'Date': '46082', 'Campaign': '', 'Cost (THB)': '1500.5' },
+                { 'Date': '46083', 'Campaign': 'Drive & Talk', 'Cost (THB)': '900' },
+            ]);
+        });
+    });
+
+    describe('rollback', () => {
+        it('should delete created rows, restore overwritten rows and drop empty campaigns', async () => {
+            prisma.metricImportBatch.findFirst.mockResolvedValue({
+                id: 'batch-new',
+                status: 'completed',
+                createdCampaignIds: ['c-new'],
+                replaced: [
+                    { id: 'm-1', importBatchId: 'batch-old', values: { spend: 1000 } },
+                    { id: 'm-2', importBatchId: 'batch-gone', values: { spend: 5 } },
+                ],
+            });
+            prisma.metricImportBatch.findMany.mockResolvedValue([{ id: 'batch-gone' }]);
+            prisma.metric.deleteMany.mockReturnValue({ count: 4 });
+            prisma.campaign.deleteMany.mockReturnValue({ count: 1 });
+
+            const result = await service.rollback(TENANT_ID, 'batch-new', USER_ID);
+
+            expect(result).toEqual({ batchId: 'batch-new', deleted: 4, restored: 1, campaignsRemoved: 1 });
+            expect(prisma.metric.deleteMany).toHaveBeenCalledWith({
+                where: { tenantId: TENANT_ID, importBatchId: 'batch-new', id: { notIn: ['m-1'] } },
+            });
+            expect(prisma.metric.updateMany).toHaveBeenCalledWith({
+                where: { id: 'm-1', importBatchId: 'batch-new' },
+                data: { spend: 1000, importBatchId: 'batch-old' },
+            });
+            expect(prisma.metricImportBatch.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ status: 'rolled_back', rolledBackBy: USER_ID }),
+            }));
+        });
+
+        it('should not roll back twice', async () => {
+            prisma.metricImportBatch.findFirst.mockResolvedValue({ id: 'batch-new', status: 'rolled_back' });
+
+            await expect(service.rollback(TENANT_ID, 'batch-new')).rejects.toThrow('already been rolled back');
+        });
+    });
+});
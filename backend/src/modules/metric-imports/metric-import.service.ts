@@ -0,0 +1,517 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { AdPlatform, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { TimezoneUtil } from '../../common/utils/timezone.util';
+import { decodeCsvBuffer, parseCsv } from '../../common/utils/csv.util';
+import { isXlsxBuffer, parseXlsx } from '../../common/utils/xlsx.util';
+import {
+    safeConversionRate,
+    safeCpa,
+    safeCpc,
+    safeCpm,
+    safeCtr,
+    safeDiv,
+    safeRoas,
+} from '../../utils/math-safety.util';
+import {
+    MetricImportDefaults,
+    MetricImportMapping,
+    MetricImportRecord,
+    mapMetricRows,
+    suggestMapping,
+    validateMapping,
+} from './metric-import.mapper';
+import {
+    CreateMetricImportTemplateDto,
+    MetricImportPreview,
+    MetricImportResult,
+    UpdateMetricImportTemplateDto,
+} from './dto';
+
+const MAX_IMPORT_ROWS = 10000;
+const PREVIEW_ROWS = 20;
+const MAX_REPORTED_ERRORS = 200;
+
+/** Largest values the Metric ratio columns can hold */
+const MAX_DECIMAL_8_4 = 9999.9999;
+const MAX_DECIMAL_10_4 = 999999.9999;
+
+interface ImportOptions {
+    templateId?: string;
+    mapping?: MetricImportMapping;
+    defaults?: MetricImportDefaults;
+}
+
+/** Metric values before a batch overwrote them, kept on the batch for rollback */
+interface ReplacedMetric {
+    id: string;
+    importBatchId: string | null;
+    values: Record<string, number>;
+}
+
+const METRIC_VALUE_SELECT = {
+    impressions: true,
+    clicks: true,
+    conversions: true,
+    spend: true,
+    revenue: true,
+    orders: true,
+    ctr: true,
+    costPerClick: true,
+    costPerMille: true,
+    costPerAction: true,
+    conversionRate: true,
+    roas: true,
+    averageOrderValue: true,
+} as const;
+
+const fit = (value: number, max: number) => Math.min(Math.round(value * 10000) / 10000, max);
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+const campaignKey = (platform: AdPlatform, name: string) => `${platform}|${name.toLowerCase()}`;
+
+/**
+ * Offline metric uploads (CSV / XLSX) for channels without a connector.
+ *
+ * Files are mapped to Metric fields with a saved or ad-hoc mapping, previewed
+ * without writing, then upserted on metrics_unique_key so re-uploading the same
+ * file is a no-op. Every written row carries its batch id; rolling a batch back
+ * deletes the rows it created and restores the ones it overwrote.
+ */
+@Injectable()
+export class MetricImportService {
+    private readonly logger = new Logger(MetricImportService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly auditLogsService: AuditLogsService,
+        private readonly tenantTimezone: TenantTimezoneService,
+    ) { }
+
+    // =========================================================================
+    // Templates
+    // =========================================================================
+
+    async getTemplates(tenantId: string) {
+        return this.prisma.metricImportTemplate.findMany({
+            where: { tenantId },
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    async createTemplate(tenantId: string, dto: CreateMetricImportTemplateDto, userId?: string) {
+        this.assertUsableMapping(dto.mapping, dto.defaults ?? {});
+        try {
+            return await this.prisma.metricImportTemplate.create({
+                data: {
+                    tenantId,
+                    name: dto.name.trim(),
+                    mapping: dto.mapping as Prisma.InputJsonValue,
+                    defaults: (dto.defaults ?? {}) as Prisma.InputJsonValue,
+                    createdBy: userId,
+                },
+            });
+        } catch (error) {
+            throw this.duplicateName(error, dto.name);
+        }
+    }
+
+    async updateTemplate(tenantId: string, id: string, dto: UpdateMetricImportTemplateDto) {
+        const template = await this.findTemplate(tenantId, id);
+        const mapping = dto.mapping ?? (template.mapping as MetricImportMapping);
+        const defaults = dto.defaults ?? (template.defaults as MetricImportDefaults | null) ?? {};
+        this.assertUsableMapping(mapping, defaults);
+
+        try {
+            return await this.prisma.metricImportTemplate.update({
+                where: { id },
+                data: {
+                    name: dto.name?.trim(),
+                    mapping: mapping as Prisma.InputJsonValue,
+                    defaults: defaults as Prisma.InputJsonValue,
+                },
+            });
+        } catch (error) {
+            throw this.duplicateName(error, dto.name ?? template.name);
+        }
+    }
+
+    async deleteTemplate(tenantId: string, id: string) {
+        await this.findTemplate(tenantId, id);
+        await this.prisma.metricImportTemplate.delete({ where: { id } });
+        return { success: true };
+    }
+
+    // =========================================================================
+    // Preview / Import
+    // =========================================================================
+
+    /**
+     * Read an uploaded CSV or XLSX file (first sheet) into header-keyed rows
+     */
+    parseFile(content: Buffer | string): Record<string, string>[] {
+        if (typeof content === 'string') return parseCsv(content);
+        if (!isXlsxBuffer(content)) return parseCsv(decodeCsvBuffer(content));
+        try {
+            return parseXlsx(content);
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    /**
+     * Validate a file against a mapping without writing anything
+     */
+    async preview(tenantId: string, rows: Record<string, string>[], options: ImportOptions = {}): Promise<MetricImportPreview> {
+        const prepared = await this.prepare(tenantId, rows, options);
+
+        return {
+            headers: prepared.headers,
+            mapping: prepared.mapping,
+            problems: prepared.problems,
+            total: rows.length,
+            valid: prepared.records.length,
+            newCampaigns: prepared.newCampaigns.map((c) => c.name),
+            rows: prepared.records.slice(0, PREVIEW_ROWS).map(({ date, ...record }) => ({ ...record, date: dayKey(date) })),
+            errors: prepared.errors.slice(0, MAX_REPORTED_ERRORS),
+        };
+    }
+
+    async import(
+        tenantId: string,
+        rows: Record<string, string>[],
+        options: ImportOptions & { fileName?: string } = {},
+        userId?: string,
+    ): Promise<MetricImportResult> {
+        const prepared = await this.prepare(tenantId, rows, options);
+        if (prepared.problems.length > 0) {
+            throw new BadRequestException(prepared.problems.join('; '));
+        }
+        if (prepared.records.length === 0) {
+            throw new BadRequestException('No valid rows to import');
+        }
+
+        const { records, campaignIds, newCampaigns } = prepared;
+        const batchId = randomUUID();
+
+        // Rows with the same unique key already in the database get overwritten
+        const existing = await this.findExistingMetrics(tenantId, records, campaignIds);
+        const replaced: ReplacedMetric[] = [...existing.values()].map(({ id, importBatchId, ...values }) => ({
+            id,
+            importBatchId,
+            values: Object.fromEntries(Object.entries(values).map(([key, value]) => [key, Number(value)])),
+        }));
+
+        const currency = options.defaults?.currency ?? await this.tenantCurrency(tenantId);
+
+        await this.prisma.$transaction([
+            this.prisma.metricImportBatch.create({
+                data: {
+                    id: batchId,
+                    tenantId,
+                    templateId: prepared.templateId,
+                    fileName: options.fileName?.slice(0, 255),
+                    createdBy: userId,
+                    totalRows: rows.length,
+                    createdRows: records.length - existing.size,
+                    updatedRows: existing.size,
+                    skippedRows: prepared.errors.length,
+                    replaced: replaced.length > 0 ? (replaced as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+                    createdCampaignIds: newCampaigns.map((c) => c.id),
+                },
+            }),
+            this.prisma.campaign.createMany({
+                data: newCampaigns.map(({ id, name }) => ({
+                    id,
+                    tenantId,
+                    name,
+                    platform: AdPlatform.OFFLINE,
+                    currency,
+                    syncStatus: null,
+                })),
+            }),
+            ...records.map((record) => {
+                const key = {
+                    tenantId,
+                    campaignId: campaignIds.get(campaignKey(record.platform, record.campaign))!,
+                    date: record.date,
+                    hour: record.hour,
+                    platform: record.platform,
+                    source: record.source,
+                };
+                const values = { ...this.metricValues(record), importBatchId: batchId };
+                return this.prisma.metric.upsert({
+                    where: { metrics_unique_key: key },
+                    create: { ...key, ...values },
+                    update: values,
+                });
+            }),
+        ]);
+
+        const result: MetricImportResult = {
+            batchId,
+            total: rows.length,
+            created: records.length - existing.size,
+            updated: existing.size,
+            skipped: prepared.errors.length,
+            campaignsCreated: newCampaigns.length,
+            errors: prepared.errors.slice(0, MAX_REPORTED_ERRORS),
+        };
+
+        await this.auditLogsService.createLog({
+            userId,
+            action: 'IMPORT_METRICS',
+            resource: 'MetricImportBatch',
+            details: { batchId, fileName: options.fileName, ...result, errors: undefined },
+        });
+        this.logger.log(`Metric import ${batchId} for tenant ${tenantId}: ${result.created} created, ${result.updated} updated`);
+
+        return result;
+    }
+
+    async getBatches(tenantId: string) {
+        const batches = await this.prisma.metricImportBatch.findMany({
+            where: { tenantId },
+            orderBy: { createdAt: 'desc' },
+            take: 50,
+            include: { template: { select: { name: true } } },
+        });
+
+        return batches.map(({ replaced: _replaced, createdCampaignIds, template, ...batch }) => ({
+            ...batch,
+            templateName: template?.name ?? null,
+            campaignsCreated: createdCampaignIds.length,
+        }));
+    }
+
+    /**
+     * Undo a batch: delete the rows it created, put back the values of rows it
+     * overwrote, and drop campaigns it created that no longer hold any data.
+     * Rows a later batch has since overwritten belong to that batch and are left alone.
+     */
+    async rollback(tenantId: string, batchId: string, userId?: string) {
+        const batch = await this.prisma.metricImportBatch.findFirst({ where: { id: batchId, tenantId } });
+        if (!batch) {
+            throw new NotFoundException('Import batch not found');
+        }
+        if (batch.status === 'rolled_back') {
+            throw new BadRequestException('This import has already been rolled back');
+        }
+
+        const replaced = (batch.replaced as unknown as ReplacedMetric[] | null) ?? [];
+        const previousBatchIds = [...new Set(replaced.map((r) => r.importBatchId).filter((id): id is string => !!id))];
+        const rolledBack = new Set(previousBatchIds.length === 0 ? [] : (await this.prisma.metricImportBatch.findMany({
+            where: { id: { in: previousBatchIds }, status: 'rolled_back' },
+            select: { id: true },
+        })).map((b) => b.id));
+        // Values written by a batch that was itself rolled back are not restored
+        const restore = replaced.filter((r) => !r.importBatchId || !rolledBack.has(r.importBatchId));
+
+        const results = await this.prisma.$transaction([
+            this.prisma.metric.deleteMany({
+                where: { tenantId, importBatchId: batchId, id: { notIn: restore.map((r) => r.id) } },
+            }),
+            ...restore.map((r) => this.prisma.metric.updateMany({
+                where: { id: r.id, importBatchId: batchId },
+                data: { ...r.values, importBatchId: r.importBatchId },
+            })),
+            this.prisma.campaign.deleteMany({
+                where: {
+                    id: { in: batch.createdCampaignIds },
+                    tenantId,
+                    metrics: { none: {} },
+                    leads: { none: {} },
+                    deals: { none: {} },
+                },
+            }),
+        ]);
+        await this.prisma.metricImportBatch.update({
+            where: { id: batchId },
+            data: { status: 'rolled_back', rolledBackAt: new Date(), rolledBackBy: userId },
+        });
+
+        const [deleted, ...restored] = results.slice(0, -1);
+        const removedCampaigns = results[results.length - 1];
+
+        const result = {
+            batchId,
+            deleted: deleted.count,
+            restored: restored.reduce((sum, r) => sum + r.count, 0),
+            campaignsRemoved: removedCampaigns.count,
+        };
+
+        await this.auditLogsService.createLog({
+            userId,
+            action: 'ROLLBACK_METRIC_IMPORT',
+            resource: 'MetricImportBatch',
+            details: result,
+        });
+
+        return result;
+    }
+
+    // =========================================================================
+    // Internals
+    // =========================================================================
+
+    private async prepare(tenantId: string, rows: Record<string, string>[], options: ImportOptions) {
+        if (rows.length === 0) {
+            throw new BadRequestException('File has no data rows');
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            throw new BadRequestException(`File has ${rows.length} rows; the limit is ${MAX_IMPORT_ROWS} per import`);
+        }
+
+        const headers = Object.keys(rows[0]);
+        const template = options.templateId ? await this.findTemplate(tenantId, options.templateId) : null;
+        const mapping = options.mapping
+            ?? (template?.mapping as MetricImportMapping | undefined)
+            ?? suggestMapping(headers);
+        const defaults = options.defaults
+            ?? (template?.defaults as MetricImportDefaults | null)
+            ?? {};
+
+        const problems = validateMapping(mapping, defaults, headers);
+        if (problems.length > 0) {
+            return { headers, mapping, problems, templateId: template?.id, records: [], errors: [], campaignIds: new Map<string, string>(), newCampaigns: [] };
+        }
+
+        const today = TimezoneUtil.getZonedToday(await this.tenantTimezone.getTimezone(tenantId));
+        const mapped = mapMetricRows(rows, mapping, defaults, today);
+        const { campaignIds, newCampaigns, records, errors } = await this.resolveCampaigns(tenantId, mapped.records);
+
+        return {
+            headers,
+            mapping,
+            problems,
+            templateId: template?.id,
+            records,
+            errors: [...mapped.errors, ...errors].sort((a, b) => a.row - b.row),
+            campaignIds,
+            newCampaigns,
+        };
+    }
+
+    /**
+     * Match campaign names (case-insensitive, per platform). Missing OFFLINE
+     * campaigns are created by the import; connector platforms must already have them.
+     */
+    private async resolveCampaigns(tenantId: string, records: MetricImportRecord[]) {
+        const names = [...new Set(records.map((r) => r.campaign))];
+        const campaigns = await this.prisma.campaign.findMany({
+            where: {
+                tenantId,
+                platform: { in: [...new Set(records.map((r) => r.platform))] },
+                OR: [
+                    { name: { in: names, mode: 'insensitive' } },
+                    { externalId: { in: names } },
+                ],
+            },
+            select: { id: true, name: true, externalId: true, platform: true },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        const campaignIds = new Map<string, string>();
+        for (const campaign of campaigns) {
+            for (const name of [campaign.name, campaign.externalId]) {
+                const key = name ? campaignKey(campaign.platform, name) : null;
+                if (key && !campaignIds.has(key)) campaignIds.set(key, campaign.id);
+            }
+        }
+
+        const newCampaigns: Array<{ id: string; name: string }> = [];
+        const resolved: MetricImportRecord[] = [];
+        const errors: Array<{ row: number; message: string }> = [];
+
+        for (const record of records) {
+            const key = campaignKey(record.platform, record.campaign);
+            if (!campaignIds.has(key)) {
+                if (record.platform !== AdPlatform.OFFLINE) {
+                    errors.push({ row: record.row, message: `Campaign "${record.campaign}" not found on ${record.platform}` });
+                    continue;
+                }
+                const id = randomUUID();
+                campaignIds.set(key, id);
+                newCampaigns.push({ id, name: record.campaign });
+            }
+            resolved.push(record);
+        }
+
+        return { campaignIds, newCampaigns, records: resolved, errors };
+    }
+
+    private async findExistingMetrics(tenantId: string, records: MetricImportRecord[], campaignIds: Map<string, string>) {
+        const metricKey = (campaignId: string, date: Date, hour: number | null, platform: AdPlatform, source: string | null) =>
+            [campaignId, dayKey(date), hour, platform, source].join('|');
+
+        const keys = new Set(records.map((r) =>
+            metricKey(campaignIds.get(campaignKey(r.platform, r.campaign))!, r.date, r.hour, r.platform, r.source)));
+        const times = records.map((r) => r.date.getTime());
+
+        const rows = await this.prisma.metric.findMany({
+            where: {
+                tenantId,
+                campaignId: { in: [...new Set(campaignIds.values())] },
+                date: { gte: new Date(Math.min(...times)), lte: new Date(Math.max(...times)) },
+                platform: { in: [...new Set(records.map((r) => r.platform))] },
+                source: { in: [...new Set(records.map((r) => r.source))] },
+            },
+            select: { id: true, campaignId: true, date: true, hour: true, platform: true, source: true, importBatchId: true, ...METRIC_VALUE_SELECT },
+        });
+
+        const existing = new Map<string, Omit<(typeof rows)[number], 'campaignId' | 'date' | 'hour' | 'platform' | 'source'>>();
+        for (const { campaignId, date, hour, platform, source, ...row } of rows) {
+            const key = metricKey(campaignId, date, hour, platform, source);
+            if (keys.has(key)) existing.set(key, row);
+        }
+        return existing;
+    }
+
+    private metricValues(record: MetricImportRecord) {
+        const { impressions, clicks, conversions, spend, revenue, orders } = record;
+        return {
+            impressions,
+            clicks,
+            conversions,
+            spend,
+            revenue,
+            orders,
+            ctr: fit(safeCtr(clicks, impressions), MAX_DECIMAL_8_4),
+            costPerClick: fit(safeCpc(spend, clicks), MAX_DECIMAL_10_4),
+            costPerMille: fit(safeCpm(spend, impressions), MAX_DECIMAL_10_4),
+            costPerAction: fit(safeCpa(spend, conversions), MAX_DECIMAL_10_4),
+            conversionRate: fit(safeConversionRate(conversions, clicks), MAX_DECIMAL_8_4),
+            roas: fit(safeRoas(revenue, spend), MAX_DECIMAL_10_4),
+            averageOrderValue: fit(safeDiv(revenue, orders), MAX_DECIMAL_10_4),
+        };
+    }
+
+    private async tenantCurrency(tenantId: string): Promise<string> {
+        const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId }, select: { currency: true } });
+        return tenant?.currency ?? 'THB';
+    }
+
+    private async findTemplate(tenantId: string, id: string) {
+        const template = await this.prisma.metricImportTemplate.findFirst({ where: { id, tenantId } });
+        if (!template) {
+            throw new NotFoundException('Import template not found');
+        }
+        return template;
+    }
+
+    private assertUsableMapping(mapping: MetricImportMapping, defaults: MetricImportDefaults) {
+        const problems = validateMapping(mapping, defaults);
+        if (problems.length > 0) {
+            throw new BadRequestException(problems.join('; '));
+        }
+    }
+
+    private duplicateName(error: unknown, name: string) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return new ConflictException(`A template named "${name}" already exists`);
+        }
+        return error;
+    }
+}
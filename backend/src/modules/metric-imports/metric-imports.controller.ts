@@ -0,0 +1,131 @@
+import {
+    BadRequestException,
+    Body,
+    Controller,
+    Delete,
+    Get,
+    Param,
+    ParseUUIDPipe,
+    Patch,
+    Post,
+    UploadedFile,
+    UseGuards,
+    UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiConsumes, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { MetricImportService } from './metric-import.service';
+import { CreateMetricImportTemplateDto, MetricImportFileDto, UpdateMetricImportTemplateDto } from './dto';
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+type UploadedImportFile = { buffer: Buffer; originalname?: string } | undefined;
+
+@ApiTags('Metric Imports')
+@ApiBearerAuth()
+@Controller('metric-imports')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('data:import')
+export class MetricImportsController {
+    constructor(private readonly metricImport: MetricImportService) { }
+
+    // =========================================================================
+    // Templates
+    // =========================================================================
+
+    @Get('templates')
+    @ApiOperation({ summary: 'List saved column mapping templates' })
+    async getTemplates(@CurrentUser('tenantId') tenantId: string) {
+        return this.metricImport.getTemplates(tenantId);
+    }
+
+    @Post('templates')
+    @ApiOperation({ summary: 'Save a column mapping template' })
+    @ApiResponse({ status: 409, description: 'A template with this name exists' })
+    async createTemplate(@CurrentUser() user: any, @Body() dto: CreateMetricImportTemplateDto) {
+        return this.metricImport.createTemplate(user.tenantId, dto, user.id);
+    }
+
+    @Patch('templates/:id')
+    @ApiOperation({ summary: 'Update a column mapping template' })
+    async updateTemplate(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: UpdateMetricImportTemplateDto,
+    ) {
+        return this.metricImport.updateTemplate(tenantId, id, dto);
+    }
+
+    @Delete('templates/:id')
+    @ApiOperation({ summary: 'Delete a column mapping template' })
+    async deleteTemplate(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id', ParseUUIDPipe) id: string,
+    ) {
+        return this.metricImport.deleteTemplate(tenantId, id);
+    }
+
+    // =========================================================================
+    // Preview / Import / Rollback
+    // =========================================================================
+
+    @Post('preview')
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_FILE_BYTES } }))
+    @ApiConsumes('multipart/form-data', 'application/json')
+    @ApiOperation({ summary: 'Validate a CSV/XLSX file against a mapping without importing it' })
+    @ApiResponse({ status: 201, description: 'Headers, effective mapping, sample rows and row-level errors' })
+    async preview(
+        @CurrentUser('tenantId') tenantId: string,
+        @UploadedFile() file: UploadedImportFile,
+        @Body() dto: MetricImportFileDto,
+    ) {
+        const rows = this.readRows(file, dto);
+        return this.metricImport.preview(tenantId, rows, dto);
+    }
+
+    @Post()
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_FILE_BYTES } }))
+    @ApiConsumes('multipart/form-data', 'application/json')
+    @ApiOperation({ summary: 'Import offline metrics from a CSV/XLSX file (upsert on date, hour, campaign, platform and source)' })
+    @ApiResponse({ status: 201, description: 'Batch id, row counts and per-row errors' })
+    async import(
+        @CurrentUser() user: any,
+        @UploadedFile() file: UploadedImportFile,
+        @Body() dto: MetricImportFileDto,
+    ) {
+        const rows = this.readRows(file, dto);
+        return this.metricImport.import(
+            user.tenantId,
+            rows,
+            { ...dto, fileName: file?.originalname },
+            user.id,
+        );
+    }
+
+    @Get()
+    @ApiOperation({ summary: 'List recent import batches' })
+    async getBatches(@CurrentUser('tenantId') tenantId: string) {
+        return this.metricImport.getBatches(tenantId);
+    }
+
+    @Post(':id/rollback')
+    @ApiOperation({ summary: 'Roll back an import batch' })
+    @ApiResponse({ status: 201, description: 'Rows deleted / restored' })
+    async rollback(
+        @CurrentUser() user: any,
+        @Param('id', ParseUUIDPipe) id: string,
+    ) {
+        return this.metricImport.rollback(user.tenantId, id, user.id);
+    }
+
+    private readRows(file: UploadedImportFile, dto: MetricImportFileDto) {
+        if (!file && !dto.csv) {
+            throw new BadRequestException('Upload a CSV/XLSX file or provide the csv field');
+        }
+        return this.metricImport.parseFile(file ? file.buffer : dto.csv!);
+    }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditLogsModule } from '../audit-logs/audit-logs.module';
+import { MetricImportsController } from './metric-imports.controller';
+import { MetricImportService } from './metric-import.service';
+
+@Module({
+    imports: [PrismaModule, AuditLogsModule],
+    controllers: [MetricImportsController],
+    providers: [MetricImportService],
+})
+export class MetricImportsModule { }
@@ -0,0 +1,51 @@
+import { AlertSeverity, NotificationChannel } from '@prisma/client';
+
+/**
+ * Alert content shared by every channel
+ */
+export interface AlertDeliveryMessage {
+    tenantId: string;
+    alertId: string;
+    type: string;
+    severity: AlertSeverity;
+    title: string;
+    message: string;
+    actionUrl: string;
+    metadata: Record<string, unknown> | null;
+    createdAt: Date;
+}
+
+/**
+ * Where a single delivery goes.
+ * `secret` is only set for webhooks with a per-endpoint signing secret.
+ */
+export interface DeliveryTarget {
+    channel: NotificationChannel;
+    recipient: string;
+    userId?: string;
+    secret?: string;
+}
+
+export interface DeliveryReceipt {
+    providerMessageId?: string;
+}
+
+/**
+ * Thrown when retrying cannot help (missing configuration, rejected recipient)
+ */
+export class PermanentDeliveryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PermanentDeliveryError';
+    }
+}
+
+/**
+ * One external channel. Implementations throw on failure; retries are
+ * handled by AlertDeliveryService.
+ */
+export abstract class AlertChannelSender {
+    abstract readonly channel: NotificationChannel;
+
+    abstract send(target: DeliveryTarget, message: AlertDeliveryMessage): Promise<DeliveryReceipt>;
+}
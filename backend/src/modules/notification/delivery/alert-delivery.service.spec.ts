@@ -0,0 +1,180 @@
+/**
+ * Alert Delivery Unit Tests
+ * @module alert-delivery.service.spec
+ * @description Multi-channel alert delivery:
+ *   - Rules without channels keep in-app delivery for all active users
+ *   - Rule channels/recipients and user notificationPreferences are honoured
+ *   - Failed attempts are retried and recorded per attempt
+ *   - A failed bookkeeping write after a successful send does not resend
+ *   - AlertHistory.notificationSent is only set after a successful delivery
+ *   - Outbound webhooks carry a verifiable HMAC signature
+ */
+
+import { createHmac } from 'crypto';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AlertSeverity, NotificationChannel, NotificationDeliveryStatus } from '@prisma/client';
+import { AlertDeliveryService } from './alert-delivery.service';
+import { PermanentDeliveryError } from './alert-channel.sender';
+import { EmailChannelSender } from './email-channel.sender';
+import { LineChannelSender } from './line-channel.sender';
+import { SmsChannelSender } from './sms-channel.sender';
+import { WebhookChannelSender, signWebhookPayload } from './webhook-channel.sender';
+import { NotificationService } from '../notification.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const mockAlert = {
+    id: 'alert-001',
+    tenantId: 'tenant-001',
+    ruleId: 'rule-001',
+    campaignId: 'campaign-001',
+    type: 'OVERSPEND',
+    severity: AlertSeverity.WARNING,
+    status: 'OPEN',
+    title: 'Overspend: Brand Search',
+    message: 'Campaign "Brand Search": Spend is 120% of budget',
+    metadata: { value: 1200, threshold: 1100 },
+    createdAt: new Date('2026-03-10T00:00:00Z'),
+    resolvedAt: null,
+};
+
+const users = [
+    { id: 'user-001', email: 'owner@example.com', phone: '+66800000001', notificationPreferences: null },
+    { id: 'user-002', email: 'analyst@example.com', phone: null, notificationPreferences: { email: false } },
+];
+
+const sender = (channel: NotificationChannel) => ({ channel, send: jest.fn().mockResolvedValue({}) });
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('AlertDeliveryService', () => {
+    let service: AlertDeliveryService;
+    let prisma: any;
+    let notificationService: { triggerFromAlert: jest.Mock };
+    let email: ReturnType<typeof sender>;
+    let webhook: ReturnType<typeof sender>;
+
+    const givenRule = (rule: Record<string, unknown> | null) => prisma.alertRule.findUnique.mockResolvedValue(rule);
+
+    beforeEach(async () => {
+        prisma = {
+            alertRule: { findUnique: jest.fn() },
+            campaign: { findUnique: jest.fn().mockResolvedValue({ id: 'campaign-001' }) },
+            user: { findMany: jest.fn().mockResolvedValue(users) },
+            alertHistory: {
+                create: jest.fn().mockResolvedValue({ id: 'history-001' }),
+                update: jest.fn(),
+            },
+            notificationDelivery: {
+                create: jest.fn().mockResolvedValue({ id: 'delivery-001' }),
+                update: jest.fn(),
+            },
+        };
+        notificationService = { triggerFromAlert: jest.fn() };
+        email = sender(NotificationChannel.EMAIL);
+        webhook = sender(NotificationChannel.WEBHOOK);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                AlertDeliveryService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: NotificationService, useValue: notificationService },
+                {
+                    provide: ConfigService,
+                    useValue: { get: (key: string, fallback?: unknown) => (key === 'ALERT_DELIVERY_RETRY_DELAY_MS' ? 0 : fallback) },
+                },
+                { provide: EmailChannelSender, useValue: email },
+                { provide: LineChannelSender, useValue: sender(NotificationChannel.LINE) },
+                { provide: WebhookChannelSender, useValue: webhook },
+                { provide: SmsChannelSender, useValue: sender(NotificationChannel.SMS) },
+            ],
+        }).compile();
+
+        service = module.get<AlertDeliveryService>(AlertDeliveryService);
+    });
+
+    it('should keep in-app delivery to all active users when the rule has no channels', async () => {
+        givenRule({ notificationChannels: null, recipients: null });
+
+        const summary = await service.deliverAlert(mockAlert as any);
+
+        expect(notificationService.triggerFromAlert).toHaveBeenCalledWith(mockAlert, ['user-001', 'user-002']);
+        expect(email.send).not.toHaveBeenCalled();
+        expect(summary).toMatchObject({ channels: [NotificationChannel.IN_APP], inApp: 2, sent: 0, failed: 0 });
+        expect(prisma.alertHistory.update).toHaveBeenCalledWith({
+            where: { id: 'history-001' },
+            data: expect.objectContaining({ notificationSent: true }),
+        });
+    });
+
+    it('should honour rule recipients and user email preferences', async () => {
+        givenRule({
+            notificationChannels: ['EMAIL'],
+            recipients: { emails: ['ops@example.com'] },
+        });
+
+        await service.deliverAlert(mockAlert as any);
+
+        const recipients = email.send.mock.calls.map(([target]) => target.recipient);
+        expect(recipients).toEqual(['owner@example.com', 'ops@example.com']);
+        expect(notificationService.triggerFromAlert).not.toHaveBeenCalled();
+    });
+
+    it('should retry failed attempts and record each one', async () => {
+        givenRule({ notificationChannels: ['EMAIL'], recipients: { userIds: ['user-001'] } });
+        email.send
+            .mockRejectedValueOnce(new Error('SMTP timeout'))
+            .mockResolvedValueOnce({ providerMessageId: 'msg-1' });
+
+        const summary = await service.deliverAlert(mockAlert as any);
+
+        expect(email.send).toHaveBeenCalledTimes(2);
+        expect(summary.sent).toBe(1);
+        const lastUpdate = prisma.notificationDelivery.update.mock.calls.at(-1)[0].data;
+        expect(lastUpdate).toMatchObject({ status: NotificationDeliveryStatus.SENT, attemptCount: 2, providerMessageId: 'msg-1' });
+        expect(lastUpdate.attempts.map((a: any) => a.status)).toEqual([
+            NotificationDeliveryStatus.FAILED,
+            NotificationDeliveryStatus.SENT,
+        ]);
+    });
+
+    it('should not resend when recording a successful delivery fails', async () => {
+        givenRule({ notificationChannels: ['EMAIL'], recipients: { userIds: ['user-001'] } });
+        email.send.mockResolvedValue({ providerMessageId: 'msg-1' });
+        prisma.notificationDelivery.update.mockRejectedValueOnce(new Error('connection reset'));
+
+        const summary = await service.deliverAlert(mockAlert as any);
+
+        expect(email.send).toHaveBeenCalledTimes(1);
+        expect(summary).toMatchObject({ sent: 1, failed: 0 });
+    });
+
+    it('should not mark the history as sent when every delivery fails', async () => {
+        givenRule({ notificationChannels: ['WEBHOOK'], recipients: { webhooks: ['https://hooks.example.com/rga'] } });
+        webhook.send.mockRejectedValue(new PermanentDeliveryError('Webhook rejected with HTTP 404'));
+
+        const summary = await service.deliverAlert(mockAlert as any);
+
+        expect(webhook.send).toHaveBeenCalledTimes(1);
+        expect(summary.failed).toBe(1);
+        expect(prisma.notificationDelivery.update).toHaveBeenLastCalledWith({
+            where: { id: 'delivery-001' },
+            data: expect.objectContaining({ status: NotificationDeliveryStatus.FAILED, lastError: 'Webhook rejected with HTTP 404' }),
+        });
+        expect(prisma.alertHistory.update).not.toHaveBeenCalled();
+    });
+
+    it('should sign webhook payloads with timestamp and body', () => {
+        const body = JSON.stringify({ event: 'alert.triggered' });
+
+        expect(signWebhookPayload('secret', '1700000000', body))
+            .toBe('sha256=' + createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex'));
+        expect(signWebhookPayload('other', '1700000000', body)).not.toBe(signWebhookPayload('secret', '1700000000', body));
+    });
+});
@@ -0,0 +1,275 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Alert, NotificationChannel, NotificationDeliveryStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationService } from '../notification.service';
+import { campaignAudienceWhere } from '../../../common/utils/campaign-scope.util';
+import {
+    AlertChannelSender,
+    AlertDeliveryMessage,
+    DeliveryReceipt,
+    DeliveryTarget,
+    PermanentDeliveryError,
+} from './alert-channel.sender';
+import { maskRecipient, parseRuleChannels, parseRuleRecipients, resolveRecipients } from './alert-recipients';
+import { EmailChannelSender } from './email-channel.sender';
+import { LineChannelSender } from './line-channel.sender';
+import { SmsChannelSender } from './sms-channel.sender';
+import { WebhookChannelSender } from './webhook-channel.sender';
+
+export interface AlertDeliverySummary {
+    alertHistoryId: string;
+    channels: NotificationChannel[];
+    inApp: number;
+    sent: number;
+    failed: number;
+}
+
+interface DeliveryAttempt {
+    attempt: number;
+    status: NotificationDeliveryStatus;
+    error?: string;
+    durationMs: number;
+    at: string;
+}
+
+// =============================================================================
+// Alert Delivery Service - fan an alert out over the channels of its rule
+// =============================================================================
+
+@Injectable()
+export class AlertDeliveryService {
+    private readonly logger = new Logger(AlertDeliveryService.name);
+    private readonly senders: Map<NotificationChannel, AlertChannelSender>;
+    private readonly maxAttempts: number;
+    private readonly retryDelayMs: number;
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly config: ConfigService,
+        private readonly notificationService: NotificationService,
+        emailSender: EmailChannelSender,
+        lineSender: LineChannelSender,
+        webhookSender: WebhookChannelSender,
+        smsSender: SmsChannelSender,
+    ) {
+        this.senders = new Map(
+            [emailSender, lineSender, webhookSender, smsSender].map((s) => [s.channel, s] as const),
+        );
+        this.maxAttempts = Math.max(1, Number(this.config.get('ALERT_DELIVERY_MAX_ATTEMPTS', 3)));
+        this.retryDelayMs = Math.max(0, Number(this.config.get('ALERT_DELIVERY_RETRY_DELAY_MS', 1000)));
+    }
+
+    /**
+     * Deliver an alert to the channels and recipients of its rule.
+     *
+     * Writes one AlertHistory row; `notificationSent` is only set when at
+     * least one channel delivered. Failures are recorded per attempt on
+     * NotificationDelivery and never thrown.
+     */
+    async deliverAlert(alert: Alert): Promise<AlertDeliverySummary> {
+        const [rule, users] = await Promise.all([
+            alert.ruleId
+                ? this.prisma.alertRule.findUnique({
+                    where: { id: alert.ruleId },
+                    select: { notificationChannels: true, recipients: true },
+                })
+                : null,
+            this.findAudience(alert),
+        ]);
+
+        const channels = parseRuleChannels(rule?.notificationChannels);
+        const { inAppUserIds, targets } = resolveRecipients(channels, parseRuleRecipients(rule?.recipients), users);
+        const metadata = (alert.metadata ?? {}) as Record<string, unknown>;
+
+        const history = await this.prisma.alertHistory.create({
+            data: {
+                alertId: alert.id,
+                tenantId: alert.tenantId,
+                triggeredAt: alert.createdAt,
+                metricValue: this.toDecimal(metadata.value),
+                thresholdValue: this.toDecimal(metadata.threshold),
+                message: alert.message,
+                metadata: { channels, recipients: inAppUserIds.length + targets.length },
+            },
+        });
+
+        let inApp = 0;
+        if (inAppUserIds.length > 0) {
+            try {
+                await this.notificationService.triggerFromAlert(alert, inAppUserIds);
+                inApp = inAppUserIds.length;
+            } catch (error) {
+                this.logger.error(`In-app notification failed for alert ${alert.id}: ${this.errorMessage(error)}`);
+            }
+        }
+
+        const message = this.toMessage(alert);
+        let sent = 0;
+        let failed = 0;
+        for (const target of targets) {
+            if (await this.deliverWithRetry(alert, history.id, target, message)) {
+                sent++;
+            } else {
+                failed++;
+            }
+        }
+
+        if (inApp > 0 || sent > 0) {
+            await this.prisma.alertHistory.update({
+                where: { id: history.id },
+                data: { notificationSent: true, notificationSentAt: new Date() },
+            });
+        }
+
+        this.logger.log(
+            `Alert ${alert.id} delivered via ${channels.join(', ')}: ${inApp} in-app, ${sent} sent, ${failed} failed`,
+        );
+
+        return { alertHistoryId: history.id, channels, inApp, sent, failed };
+    }
+
+    /**
+     * Active tenant users, minus CLIENT/VIEWER users whose campaign scope excludes the alert's campaign
+     */
+    private async findAudience(alert: Alert) {
+        const campaign = alert.campaignId
+            ? await this.prisma.campaign.findUnique({
+                where: { id: alert.campaignId },
+                select: {
+                    id: true,
+                    googleAdsAccountId: true,
+                    facebookAdsAccountId: true,
+                    tiktokAdsAccountId: true,
+                    lineAdsAccountId: true,
+                    shopeeAccountId: true,
+                    lazadaAccountId: true,
+                },
+            })
+            : null;
+
+        return this.prisma.user.findMany({
+            where: { tenantId: alert.tenantId, isActive: true, ...campaignAudienceWhere(campaign) },
+            select: { id: true, email: true, phone: true, notificationPreferences: true },
+        });
+    }
+
+    /**
+     * Send to one target with exponential backoff, recording every attempt
+     */
+    private async deliverWithRetry(
+        alert: Alert,
+        alertHistoryId: string,
+        target: DeliveryTarget,
+        message: AlertDeliveryMessage,
+    ): Promise<boolean> {
+        const delivery = await this.prisma.notificationDelivery.create({
+            data: {
+                tenantId: alert.tenantId,
+                alertId: alert.id,
+                alertHistoryId,
+                userId: target.userId,
+                channel: target.channel,
+                recipient: maskRecipient(target),
+            },
+        });
+        const sender = this.senders.get(target.channel);
+        const attempts: DeliveryAttempt[] = [];
+
+        for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+            const startedAt = Date.now();
+            let receipt: DeliveryReceipt;
+            try {
+                if (!sender) {
+                    throw new PermanentDeliveryError(`No sender for channel ${target.channel}`);
+                }
+                receipt = await sender.send(target, message);
+            } catch (error) {
+                const reason = this.errorMessage(error);
+                attempts.push(this.attemptRecord(attempt, NotificationDeliveryStatus.FAILED, startedAt, reason));
+
+                const final = error instanceof PermanentDeliveryError || attempt === this.maxAttempts;
+                await this.prisma.notificationDelivery.update({
+                    where: { id: delivery.id },
+                    data: {
+                        status: final ? NotificationDeliveryStatus.FAILED : NotificationDeliveryStatus.PENDING,
+                        attemptCount: attempt,
+                        attempts: attempts as unknown as Prisma.InputJsonArray,
+                        lastError: reason,
+                    },
+                });
+
+                if (final) {
+                    this.logger.warn(
+                        `${target.channel} delivery for alert ${alert.id} failed after ${attempt} attempt(s): ${reason}`,
+                    );
+                    return false;
+                }
+                await this.wait(this.retryDelayMs * 2 ** (attempt - 1));
+                continue;
+            }
+
+            // Sent: a failed status update must not cause the message to be sent again
+            attempts.push(this.attemptRecord(attempt, NotificationDeliveryStatus.SENT, startedAt));
+            try {
+                await this.prisma.notificationDelivery.update({
+                    where: { id: delivery.id },
+                    data: {
+                        status: NotificationDeliveryStatus.SENT,
+                        attemptCount: attempt,
+                        attempts: attempts as unknown as Prisma.InputJsonArray,
+                        providerMessageId: receipt.providerMessageId,
+                        sentAt: new Date(),
+                    },
+                });
+            } catch (error) {
+                this.logger.error(`Failed to record ${target.channel} delivery ${delivery.id} as sent: ${this.errorMessage(error)}`);
+            }
+            return true;
+        }
+
+        return false;
+    }
+
+    private toMessage(alert: Alert): AlertDeliveryMessage {
+        const appUrl = this.config.get<string>('APP_URL', 'http://localhost:5173').replace(/\/+$/, '');
+        return {
+            tenantId: alert.tenantId,
+            alertId: alert.id,
+            type: alert.type,
+            severity: alert.severity,
+            title: alert.title,
+            message: alert.message,
+            actionUrl: `${appUrl}/dashboard/alerts/${alert.id}`,
+            metadata: (alert.metadata as Record<string, unknown>) ?? null,
+            createdAt: alert.createdAt,
+        };
+    }
+
+    private attemptRecord(
+        attempt: number,
+        status: NotificationDeliveryStatus,
+        startedAt: number,
+        error?: string,
+    ): DeliveryAttempt {
+        return {
+            attempt,
+            status,
+            ...(error && { error }),
+            durationMs: Date.now() - startedAt,
+            at: new Date().toISOString(),
+        };
+    }
+
+    private toDecimal(value: unknown): Prisma.Decimal | null {
+        return typeof value === 'number' && Number.isFinite(value) ? new Prisma.Decimal(value) : null;
+    }
+
+    private errorMessage(error: unknown): string {
+        return error instanceof Error ? error.message : String(error);
+    }
+
+    protected wait(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+}
@@ -0,0 +1,159 @@
+import { NotificationChannel, Prisma } from '@prisma/client';
+import { DeliveryTarget } from './alert-channel.sender';
+import { LINE_NOTIFY_PREFIX } from './line-channel.sender';
+
+/**
+ * Shape of `AlertRule.recipients`.
+ * Without `userIds` every active tenant user is a candidate recipient;
+ * the explicit addresses are added on top and bypass user preferences.
+ */
+export interface AlertRuleRecipients {
+    userIds?: string[];
+    emails?: string[];
+    phones?: string[];
+    line?: string[]; // LINE user/group ids, or `notify:<token>`
+    webhooks?: Array<string | { url: string; secret?: string }>;
+}
+
+export interface RecipientUser {
+    id: string;
+    email: string;
+    phone: string | null;
+    notificationPreferences: Prisma.JsonValue;
+}
+
+export interface ResolvedRecipients {
+    inAppUserIds: string[];
+    targets: DeliveryTarget[];
+}
+
+const CHANNELS = Object.values(NotificationChannel) as string[];
+
+/** Preference keys accepted per channel, e.g. `{ email: false }` or `{ inApp: false }` */
+const PREFERENCE_KEYS: Record<NotificationChannel, string[]> = {
+    [NotificationChannel.IN_APP]: ['in_app', 'inApp', 'IN_APP'],
+    [NotificationChannel.EMAIL]: ['email', 'EMAIL'],
+    [NotificationChannel.LINE]: ['line', 'LINE'],
+    [NotificationChannel.SMS]: ['sms', 'SMS'],
+    [NotificationChannel.WEBHOOK]: ['webhook', 'WEBHOOK'],
+};
+
+/**
+ * Channels configured on a rule. Rules without configuration (and alerts
+ * without a rule) keep the original in-app behaviour.
+ */
+export function parseRuleChannels(value: Prisma.JsonValue | null | undefined): NotificationChannel[] {
+    if (!Array.isArray(value)) {
+        return [NotificationChannel.IN_APP];
+    }
+    const channels = value
+        .filter((v): v is string => typeof v === 'string')
+        .map((v) => v.toUpperCase())
+        .filter((v) => CHANNELS.includes(v)) as NotificationChannel[];
+
+    return channels.length > 0 ? [...new Set(channels)] : [NotificationChannel.IN_APP];
+}
+
+export function parseRuleRecipients(value: Prisma.JsonValue | null | undefined): AlertRuleRecipients {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return {};
+    }
+    const raw = value as Record<string, unknown>;
+    const strings = (v: unknown) => (Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s.trim() !== '') : undefined);
+
+    return {
+        userIds: strings(raw.userIds),
+        emails: strings(raw.emails),
+        phones: strings(raw.phones),
+        line: strings(raw.line),
+        webhooks: Array.isArray(raw.webhooks)
+            ? raw.webhooks.filter((w): w is string | { url: string; secret?: string } =>
+                typeof w === 'string' || (!!w && typeof w === 'object' && typeof (w as any).url === 'string'))
+            : undefined,
+    };
+}
+
+/**
+ * A channel is allowed unless the user switched it off explicitly
+ */
+export function userAllowsChannel(user: RecipientUser, channel: NotificationChannel): boolean {
+    const prefs = user.notificationPreferences;
+    if (!prefs || typeof prefs !== 'object' || Array.isArray(prefs)) {
+        return true;
+    }
+    return !PREFERENCE_KEYS[channel].some((key) => (prefs as Record<string, unknown>)[key] === false);
+}
+
+function lineUserIdOf(user: RecipientUser): string | undefined {
+    const prefs = user.notificationPreferences as Record<string, unknown> | null;
+    const value = prefs && typeof prefs === 'object' ? prefs.lineUserId : undefined;
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Expand rule channels x recipients into concrete delivery targets
+ */
+export function resolveRecipients(
+    channels: NotificationChannel[],
+    recipients: AlertRuleRecipients,
+    users: RecipientUser[],
+): ResolvedRecipients {
+    const audience = recipients.userIds
+        ? users.filter((u) => recipients.userIds!.includes(u.id))
+        : users;
+    const targets: DeliveryTarget[] = [];
+    const seen = new Set<string>();
+    const add = (target: DeliveryTarget) => {
+        const key = `${target.channel}:${target.recipient.toLowerCase()}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        targets.push(target);
+    };
+
+    for (const channel of channels) {
+        const allowed = audience.filter((u) => userAllowsChannel(u, channel));
+
+        switch (channel) {
+            case NotificationChannel.EMAIL:
+                allowed.forEach((u) => add({ channel, recipient: u.email, userId: u.id }));
+                recipients.emails?.forEach((email) => add({ channel, recipient: email }));
+                break;
+            case NotificationChannel.SMS:
+                allowed.filter((u) => u.phone).forEach((u) => add({ channel, recipient: u.phone!, userId: u.id }));
+                recipients.phones?.forEach((phone) => add({ channel, recipient: phone }));
+                break;
+            case NotificationChannel.LINE:
+                allowed.forEach((u) => {
+                    const lineUserId = lineUserIdOf(u);
+                    if (lineUserId) add({ channel, recipient: lineUserId, userId: u.id });
+                });
+                recipients.line?.forEach((to) => add({ channel, recipient: to }));
+                break;
+            case NotificationChannel.WEBHOOK:
+                recipients.webhooks?.forEach((w) =>
+                    typeof w === 'string'
+                        ? add({ channel, recipient: w })
+                        : add({ channel, recipient: w.url, secret: w.secret }));
+                break;
+            default:
+                break;
+        }
+    }
+
+    return {
+        inAppUserIds: channels.includes(NotificationChannel.IN_APP)
+            ? audience.filter((u) => userAllowsChannel(u, NotificationChannel.IN_APP)).map((u) => u.id)
+            : [],
+        targets,
+    };
+}
+
+/**
+ * What gets stored in NotificationDelivery.recipient - never a LINE Notify token
+ */
+export function maskRecipient(target: DeliveryTarget): string {
+    if (target.channel === NotificationChannel.LINE && target.recipient.startsWith(LINE_NOTIFY_PREFIX)) {
+        return `${LINE_NOTIFY_PREFIX}****${target.recipient.slice(-4)}`;
+    }
+    return target.recipient;
+}
@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationChannel } from '@prisma/client';
+import { MailService } from '../../../common/services/mail.service';
+import { AlertChannelSender, AlertDeliveryMessage, DeliveryReceipt, DeliveryTarget } from './alert-channel.sender';
+
+const SEVERITY_COLORS: Record<string, string> = {
+    CRITICAL: '#dc2626',
+    WARNING: '#d97706',
+    INFO: '#2563eb',
+};
+
+@Injectable()
+export class EmailChannelSender extends AlertChannelSender {
+    readonly channel = NotificationChannel.EMAIL;
+
+    constructor(private readonly mailService: MailService) {
+        super();
+    }
+
+    async send(target: DeliveryTarget, message: AlertDeliveryMessage): Promise<DeliveryReceipt> {
+        const { messageId } = await this.mailService.sendMail({
+            to: target.recipient,
+            subject: `[${message.severity}] ${message.title}`,
+            html: this.renderHtml(message),
+        });
+        return { providerMessageId: messageId };
+    }
+
+    private renderHtml(message: AlertDeliveryMessage): string {
+        const color = SEVERITY_COLORS[message.severity] ?? '#374151';
+        return `
+            <div style="font-family: sans-serif; max-width: 560px;">
+                <p style="color: ${color}; font-weight: bold; margin: 0 0 8px;">${escapeHtml(message.severity)}</p>
+                <h2 style="margin: 0 0 12px;">${escapeHtml(message.title)}</h2>
+                <p>${escapeHtml(message.message)}</p>
+                <p><a href="${escapeHtml(message.actionUrl)}">ดูรายละเอียด</a></p>
+            </div>
+        `;
+    }
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
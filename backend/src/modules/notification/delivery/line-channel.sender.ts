@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { NotificationChannel } from '@prisma/client';
+import { firstValueFrom } from 'rxjs';
+import { AlertChannelSender, AlertDeliveryMessage, DeliveryReceipt, DeliveryTarget, PermanentDeliveryError } from './alert-channel.sender';
+
+/** Recipients with this prefix are LINE Notify tokens; anything else is a Messaging API user/group id */
+export const LINE_NOTIFY_PREFIX = 'notify:';
+
+const LINE_NOTIFY_URL = 'https://notify-api.line.me/api/notify';
+const LINE_PUSH_URL = 'https://api.line.me/v2/bot/message/push';
+const TIMEOUT_MS = 10000;
+
+@Injectable()
+export class LineChannelSender extends AlertChannelSender {
+    readonly channel = NotificationChannel.LINE;
+
+    constructor(
+        private readonly httpService: HttpService,
+        private readonly config: ConfigService,
+    ) {
+        super();
+    }
+
+    async send(target: DeliveryTarget, message: AlertDeliveryMessage): Promise<DeliveryReceipt> {
+        const text = `[${message.severity}] ${message.title}\n${message.message}\n${message.actionUrl}`;
+
+        if (target.recipient.startsWith(LINE_NOTIFY_PREFIX)) {
+            await firstValueFrom(
+                this.httpService.post(
+                    LINE_NOTIFY_URL,
+                    new URLSearchParams({ message: `\n${text}` }).toString(),
+                    {
+                        headers: {
+                            Authorization: `Bearer ${target.recipient.slice(LINE_NOTIFY_PREFIX.length)}`,
+                            'Content-Type': 'application/x-www-form-urlencoded',
+                        },
+                        timeout: TIMEOUT_MS,
+                    },
+                ),
+            );
+            return {};
+        }
+
+        const accessToken = this.config.get<string>('LINE_MESSAGING_ACCESS_TOKEN');
+        if (!accessToken) {
+            throw new PermanentDeliveryError('LINE_MESSAGING_ACCESS_TOKEN is not configured');
+        }
+
+        const { headers } = await firstValueFrom(
+            this.httpService.post(
+                LINE_PUSH_URL,
+                { to: target.recipient, messages: [{ type: 'text', text: text.slice(0, 5000) }] },
+                {
+                    headers: { Authorization: `Bearer ${accessToken}` },
+                    timeout: TIMEOUT_MS,
+                },
+            ),
+        );
+        return { providerMessageId: headers?.['x-line-request-id'] };
+    }
+}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationChannel } from '@prisma/client';
+import { AlertChannelSender, AlertDeliveryMessage, DeliveryReceipt, DeliveryTarget } from './alert-channel.sender';
+import { SmsProvider } from './sms-provider';
+
+/** Keep alerts within two concatenated SMS segments */
+const MAX_SMS_LENGTH = 300;
+
+@Injectable()
+export class SmsChannelSender extends AlertChannelSender {
+    readonly channel = NotificationChannel.SMS;
+
+    constructor(private readonly provider: SmsProvider) {
+        super();
+    }
+
+    async send(target: DeliveryTarget, message: AlertDeliveryMessage): Promise<DeliveryReceipt> {
+        const text = `[${message.severity}] ${message.title}: ${message.message}`;
+        const { messageId } = await this.provider.sendSms(
+            target.recipient,
+            text.length > MAX_SMS_LENGTH ? `${text.slice(0, MAX_SMS_LENGTH - 1)}…` : text,
+        );
+        return { providerMessageId: messageId };
+    }
+}
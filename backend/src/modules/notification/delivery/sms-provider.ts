@@ -0,0 +1,59 @@
+import { Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { PermanentDeliveryError } from './alert-channel.sender';
+
+/**
+ * Pluggable SMS gateway. Selected in NotificationModule from SMS_PROVIDER.
+ */
+export abstract class SmsProvider {
+    abstract readonly name: string;
+
+    abstract sendSms(to: string, text: string): Promise<{ messageId?: string }>;
+}
+
+/**
+ * Used when no provider is configured; every SMS delivery fails without retrying
+ */
+export class UnconfiguredSmsProvider extends SmsProvider {
+    readonly name = 'none';
+
+    async sendSms(): Promise<{ messageId?: string }> {
+        throw new PermanentDeliveryError('SMS provider is not configured (set SMS_PROVIDER)');
+    }
+}
+
+export interface TwilioSmsProviderOptions {
+    accountSid: string;
+    authToken: string;
+    from: string;
+}
+
+export class TwilioSmsProvider extends SmsProvider {
+    readonly name = 'twilio';
+    private readonly logger = new Logger(TwilioSmsProvider.name);
+
+    constructor(
+        private readonly httpService: HttpService,
+        private readonly options: TwilioSmsProviderOptions,
+    ) {
+        super();
+    }
+
+    async sendSms(to: string, text: string): Promise<{ messageId?: string }> {
+        const { data } = await firstValueFrom(
+            this.httpService.post<{ sid?: string }>(
+                `https://api.twilio.com/2010-04-01/Accounts/${this.options.accountSid}/Messages.json`,
+                new URLSearchParams({ To: to, From: this.options.from, Body: text }).toString(),
+                {
+                    auth: { username: this.options.accountSid, password: this.options.authToken },
+                    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                    timeout: 10000,
+                },
+            ),
+        );
+
+        this.logger.debug(`SMS sent to ${to} (sid=${data?.sid})`);
+        return { messageId: data?.sid };
+    }
+}
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { NotificationChannel } from '@prisma/client';
+import { createHmac } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import { assertPublicHttpsUrl, publicHttpsAgent, UNSAFE_ADDRESS_CODE } from '../../../common/utils/public-url.util';
+import { AlertChannelSender, AlertDeliveryMessage, DeliveryReceipt, DeliveryTarget, PermanentDeliveryError } from './alert-channel.sender';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-rga-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-rga-timestamp';
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, hex encoded.
+ * Receivers recompute it with their shared secret and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+@Injectable()
+export class WebhookChannelSender extends AlertChannelSender {
+    readonly channel = NotificationChannel.WEBHOOK;
+
+    constructor(
+        private readonly httpService: HttpService,
+        private readonly config: ConfigService,
+    ) {
+        super();
+    }
+
+    async send(target: DeliveryTarget, message: AlertDeliveryMessage): Promise<DeliveryReceipt> {
+        const secret = target.secret || this.config.get<string>('ALERT_WEBHOOK_SECRET');
+        if (!secret) {
+            throw new PermanentDeliveryError('Webhook signing secret is not configured');
+        }
+        // Rules saved before URLs were validated may still point inside our network
+        try {
+            assertPublicHttpsUrl(target.recipient);
+        } catch (error: any) {
+            throw new PermanentDeliveryError(`Webhook URL refused: ${error.message}`);
+        }
+
+        const body = JSON.stringify({
+            event: 'alert.triggered',
+            data: {
+                id: message.alertId,
+                tenantId: message.tenantId,
+                type: message.type,
+                severity: message.severity,
+                title: message.title,
+                message: message.message,
+                url: message.actionUrl,
+                metadata: message.metadata,
+                createdAt: message.createdAt.toISOString(),
+            },
+        });
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+
+        try {
+            await firstValueFrom(
+                this.httpService.post(target.recipient, body, {
+                    headers: {
+                        'Content-Type': 'application/json',
+                        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+                        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+                    },
+                    timeout: 10000,
+                    // Resolves the host when connecting and refuses non-public addresses
+                    httpsAgent: publicHttpsAgent,
+                    maxRedirects: 0,
+                }),
+            );
+        } catch (error: any) {
+            if (error?.code === UNSAFE_ADDRESS_CODE || error?.cause?.code === UNSAFE_ADDRESS_CODE) {
+                throw new PermanentDeliveryError(`Webhook URL refused: ${error.cause?.message ?? error.message}`);
+            }
+            const status = error?.response?.status;
+            if (status && status >= 300 && status < 400) {
+                throw new PermanentDeliveryError(`Webhook redirected with HTTP ${status}; redirects are not followed`);
+            }
+            // 4xx (other than throttling) will not succeed on retry
+            if (status && status >= 400 && status < 500 && status !== 408 && status !== 429) {
+                throw new PermanentDeliveryError(`Webhook rejected with HTTP ${status}`);
+            }
+            throw error;
+        }
+
+        return {};
+    }
+}
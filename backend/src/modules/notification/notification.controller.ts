@@ -3,11 +3,13 @@ import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { NotificationService } from './notification.service';
 import { CreateNotificationDto, NotificationQueryDto } from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AllowWhenReadOnly } from '../../common/decorators/allow-when-read-only.decorator';
 
 @ApiTags('Notifications')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard)
 @Controller('notifications')
+@AllowWhenReadOnly()
 export class NotificationController {
     constructor(private readonly notificationService: NotificationService) { }
 
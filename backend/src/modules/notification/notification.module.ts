@@ -1,12 +1,41 @@
 import { Module } from '@nestjs/common';
+import { HttpModule, HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
 import { NotificationController } from './notification.controller';
 import { NotificationService } from './notification.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AlertDeliveryService } from './delivery/alert-delivery.service';
+import { EmailChannelSender } from './delivery/email-channel.sender';
+import { LineChannelSender } from './delivery/line-channel.sender';
+import { WebhookChannelSender } from './delivery/webhook-channel.sender';
+import { SmsChannelSender } from './delivery/sms-channel.sender';
+import { SmsProvider, TwilioSmsProvider, UnconfiguredSmsProvider } from './delivery/sms-provider';
 
 @Module({
-    imports: [PrismaModule],
+    imports: [PrismaModule, HttpModule],
     controllers: [NotificationController],
-    providers: [NotificationService],
-    exports: [NotificationService],
+    providers: [
+        NotificationService,
+        AlertDeliveryService,
+        EmailChannelSender,
+        LineChannelSender,
+        WebhookChannelSender,
+        SmsChannelSender,
+        {
+            // SMS_PROVIDER=twilio enables SMS; deliveries fail fast otherwise
+            provide: SmsProvider,
+            useFactory: (config: ConfigService, http: HttpService) => {
+                const accountSid = config.get<string>('SMS_TWILIO_ACCOUNT_SID');
+                const authToken = config.get<string>('SMS_TWILIO_AUTH_TOKEN');
+                const from = config.get<string>('SMS_FROM');
+                if (config.get<string>('SMS_PROVIDER') !== 'twilio' || !accountSid || !authToken || !from) {
+                    return new UnconfiguredSmsProvider();
+                }
+                return new TwilioSmsProvider(http, { accountSid, authToken, from });
+            },
+            inject: [ConfigService, HttpService],
+        },
+    ],
+    exports: [NotificationService, AlertDeliveryService],
 })
 export class NotificationModule { }
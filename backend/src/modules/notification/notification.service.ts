@@ -29,15 +29,18 @@ export class NotificationService {
     }
 
     /**
-     * Trigger notifications from an Alert
-     * Creates a notification for each active user in the tenant
+     * Trigger IN_APP notifications from an Alert
+     * Creates a notification for each given user, or each active user in the tenant.
+     * External channels are delivered by AlertDeliveryService.
      */
-    async triggerFromAlert(alert: Alert): Promise<void> {
-        // Get all active users in the tenant
-        const users = await this.prisma.user.findMany({
-            where: { tenantId: alert.tenantId, isActive: true },
-            select: { id: true },
-        });
+    async triggerFromAlert(alert: Alert, userIds?: string[]): Promise<void> {
+        // Get all active users in the tenant unless recipients were resolved already
+        const users = userIds
+            ? userIds.map((id) => ({ id }))
+            : await this.prisma.user.findMany({
+                where: { tenantId: alert.tenantId, isActive: true },
+                select: { id: true },
+            });
 
         // Create notification for each user
         const notifications = users.map((user) => ({
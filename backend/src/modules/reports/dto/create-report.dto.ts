@@ -0,0 +1,116 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+    ArrayMaxSize,
+    IsArray,
+    IsBoolean,
+    IsDateString,
+    IsEmail,
+    IsIn,
+    IsInt,
+    IsNotEmpty,
+    IsObject,
+    IsOptional,
+    IsString,
+    Matches,
+    Max,
+    MaxLength,
+    Min,
+    ValidateIf,
+} from 'class-validator';
+
+export const REPORT_DATE_RANGE_TYPES = ['last_7_days', 'last_30_days', 'this_month', 'last_month', 'custom'] as const;
+export const REPORT_SCHEDULE_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+export const REPORT_EXPORT_FORMATS = ['csv', 'pdf'] as const;
+
+export type ReportDateRangeType = typeof REPORT_DATE_RANGE_TYPES[number];
+export type ReportScheduleFrequency = typeof REPORT_SCHEDULE_FREQUENCIES[number];
+export type ReportExportFormat = typeof REPORT_EXPORT_FORMATS[number];
+
+const toLower = ({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+export class CreateReportDto {
+    @ApiProperty({ example: 'Weekly Campaign Performance' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    name: string;
+
+    @ApiPropertyOptional({ example: 'Sent to the client every Monday morning' })
+    @IsString()
+    @IsOptional()
+    description?: string;
+
+    @ApiPropertyOptional({ enum: REPORT_DATE_RANGE_TYPES, default: 'last_7_days' })
+    @Transform(toLower)
+    @IsIn(REPORT_DATE_RANGE_TYPES)
+    @IsOptional()
+    dateRangeType?: ReportDateRangeType;
+
+    @ApiPropertyOptional({ example: '2026-01-01', description: 'Required when dateRangeType is custom' })
+    @ValidateIf((o) => o.dateRangeType === 'custom')
+    @IsDateString()
+    startDate?: string;
+
+    @ApiPropertyOptional({ example: '2026-01-31', description: 'Required when dateRangeType is custom' })
+    @ValidateIf((o) => o.dateRangeType === 'custom')
+    @IsDateString()
+    endDate?: string;
+
+    @ApiPropertyOptional({ example: { platform: 'GOOGLE_ADS', status: 'ACTIVE' } })
+    @IsObject()
+    @IsOptional()
+    filters?: Record<string, any>;
+
+    @ApiPropertyOptional({
+        enum: REPORT_EXPORT_FORMATS,
+        default: 'csv',
+        description: 'csv: one row per campaign and day; pdf: metrics summary with daily totals',
+    })
+    @Transform(toLower)
+    @IsIn(REPORT_EXPORT_FORMATS)
+    @IsOptional()
+    exportFormat?: ReportExportFormat;
+
+    // ------------------------------------------------------------------
+    // Schedule
+    // ------------------------------------------------------------------
+
+    @ApiPropertyOptional({ default: false })
+    @IsBoolean()
+    @IsOptional()
+    isScheduled?: boolean;
+
+    @ApiPropertyOptional({ enum: REPORT_SCHEDULE_FREQUENCIES })
+    @Transform(toLower)
+    @ValidateIf((o) => o.isScheduled === true || o.scheduleFrequency !== undefined)
+    @IsIn(REPORT_SCHEDULE_FREQUENCIES)
+    scheduleFrequency?: ReportScheduleFrequency;
+
+    @ApiPropertyOptional({ example: '08:30', description: 'Local time (HH:mm) in the tenant timezone' })
+    @ValidateIf((o) => o.isScheduled === true || o.scheduleTime !== undefined)
+    @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'scheduleTime must be in HH:mm format' })
+    scheduleTime?: string;
+
+    @ApiPropertyOptional({ example: 1, description: '0 = Sunday ... 6 = Saturday (weekly only)' })
+    @ValidateIf((o) => o.scheduleFrequency === 'weekly' || o.scheduleDayOfWeek !== undefined)
+    @IsInt()
+    @Min(0)
+    @Max(6)
+    scheduleDayOfWeek?: number;
+
+    @ApiPropertyOptional({ example: 1, description: '1-31, clamped to the last day of shorter months (monthly only)' })
+    @ValidateIf((o) => o.scheduleFrequency === 'monthly' || o.scheduleDayOfMonth !== undefined)
+    @IsInt()
+    @Min(1)
+    @Max(31)
+    scheduleDayOfMonth?: number;
+
+    @ApiPropertyOptional({ example: ['client@example.com'] })
+    @IsArray()
+    @ArrayMaxSize(20)
+    @IsEmail({}, { each: true })
+    @IsOptional()
+    recipients?: string[];
+}
@@ -0,0 +1,2 @@
+export * from './create-report.dto';
+export * from './update-report.dto';
@@ -0,0 +1,131 @@
+/**
+ * Report Runner Unit Tests
+ * @module report-runner.service.spec
+ * @description Generating a report file:
+ *   - CSV and PDF reports cover the resolved date range of the report
+ *   - Recipients get the file attached; delivery failures keep the file
+ *   - Generation failures are recorded on the report
+ */
+
+import { Report } from '@prisma/client';
+import { ReportRunnerService } from './report-runner.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+// 2026-03-10 09:00 in Bangkok
+const NOW = new Date('2026-03-10T02:00:00Z');
+
+function report(overrides: Partial<Report> = {}): Report {
+    return {
+        id: 'report-001',
+        tenantId: TENANT_ID,
+        createdBy: null,
+        name: 'Weekly Performance',
+        description: null,
+        reportType: 'campaign_performance',
+        dateRangeType: 'last_7_days',
+        startDate: null,
+        endDate: null,
+        filters: { platform: 'GOOGLE_ADS' },
+        metrics: null,
+        isScheduled: true,
+        scheduleFrequency: 'weekly',
+        scheduleTime: '08:00',
+        scheduleDayOfWeek: 1,
+        scheduleDayOfMonth: null,
+        exportFormat: 'csv',
+        fileUrl: null,
+        fileSize: null,
+        generatedAt: null,
+        recipients: ['client@example.com'],
+        lastRunError: null,
+        createdAt: new Date('2026-01-01'),
+        updatedAt: new Date('2026-01-01'),
+        ...overrides,
+    } as Report;
+}
+
+function setup() {
+    const prisma = {
+        tenant: { findUnique: jest.fn().mockResolvedValue({ name: 'Acme', timezone: 'Asia/Bangkok' }) },
+        report: { update: jest.fn() },
+    };
+    const exportService = {
+        renderCampaignsCSV: jest.fn().mockResolvedValue(Buffer.from('csv')),
+        exportMetricsToPDF: jest.fn().mockResolvedValue(Buffer.from('%PDF')),
+    };
+    const mailService = { sendMail: jest.fn() };
+    const storage = { save: jest.fn().mockResolvedValue('tenant-001/report-001/file') };
+    const runner = new ReportRunnerService(prisma as any, exportService as any, mailService as any, storage as any);
+
+    return { runner, prisma, exportService, mailService, storage };
+}
+
+describe('ReportRunnerService', () => {
+    it('renders the CSV for the resolved range and emails it', async () => {
+        const { runner, exportService, mailService, storage } = setup();
+
+        const result = await runner.run(report(), NOW);
+
+        expect(exportService.renderCampaignsCSV).toHaveBeenCalledWith(TENANT_ID, {
+            startDate: new Date('2026-03-03T00:00:00Z'),
+            endDate: new Date('2026-03-09T00:00:00Z'),
+            platform: 'GOOGLE_ADS',
+            status: undefined,
+        });
+        expect(storage.save).toHaveBeenCalledWith(
+            TENANT_ID,
+            'report-001',
+            'weekly-performance_2026-03-03_2026-03-09.csv',
+            Buffer.from('csv'),
+        );
+        expect(mailService.sendMail).toHaveBeenCalledWith(expect.objectContaining({
+            to: 'client@example.com',
+            attachments: [expect.objectContaining({ contentType: 'text/csv; charset=utf-8' })],
+        }));
+        expect(result).toMatchObject({ fileSize: 3, recipients: 1, deliveryError: undefined });
+    });
+
+    it.each([
+        ['last_month', {}, '2026-02-01', '2026-02-28'],
+        ['this_month', {}, '2026-03-01', '2026-03-09'],
+        ['custom', { startDate: new Date('2025-12-01'), endDate: new Date('2025-12-31') }, '2025-12-01', '2025-12-31'],
+    ])('passes the %s range to the PDF export', async (dateRangeType, custom, start, end) => {
+        const { runner, exportService } = setup();
+
+        await runner.run(report({ exportFormat: 'pdf', reportType: 'metrics_summary', dateRangeType, ...custom }), NOW);
+
+        expect(exportService.exportMetricsToPDF).toHaveBeenCalledWith(TENANT_ID, {
+            startDate: new Date(`${start}T00:00:00Z`),
+            endDate: new Date(`${end}T00:00:00Z`),
+        });
+    });
+
+    it('keeps the file when delivery fails', async () => {
+        const { runner, prisma, mailService } = setup();
+        mailService.sendMail.mockRejectedValue(new Error('SMTP down'));
+
+        const result = await runner.run(report(), NOW);
+
+        expect(result.deliveryError).toBe('Email delivery failed: SMTP down');
+        expect(prisma.report.update).toHaveBeenCalledWith({
+            where: { id: 'report-001' },
+            data: expect.objectContaining({ fileUrl: 'tenant-001/report-001/file', lastRunError: 'Email delivery failed: SMTP down' }),
+        });
+    });
+
+    it('records generation failures and rethrows', async () => {
+        const { runner, prisma, exportService } = setup();
+        exportService.renderCampaignsCSV.mockRejectedValue(new Error('timeout'));
+
+        await expect(runner.run(report(), NOW)).rejects.toThrow('timeout');
+
+        expect(prisma.report.update).toHaveBeenCalledWith({
+            where: { id: 'report-001' },
+            data: { lastRunError: 'Generation failed: timeout' },
+        });
+    });
+});
@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Report } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ExportService } from '../dashboard/export.service';
+import { MailService } from '../../common/services/mail.service';
+import { ReportStorageService } from './report-storage.service';
+import { resolveReportDateRange } from './report-schedule.util';
+
+export interface ReportRunResult {
+    reportId: string;
+    fileUrl: string;
+    fileSize: number;
+    generatedAt: Date;
+    recipients: number;
+    deliveryError?: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    csv: 'text/csv; charset=utf-8',
+    pdf: 'application/pdf',
+};
+
+// ============================================================================
+// Report Runner - renders a report, stores the file and emails recipients
+// ============================================================================
+
+@Injectable()
+export class ReportRunnerService {
+    private readonly logger = new Logger(ReportRunnerService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly exportService: ExportService,
+        private readonly mailService: MailService,
+        private readonly storage: ReportStorageService,
+    ) { }
+
+    /**
+     * Generate a report now.
+     * Generation failures are recorded on the report and rethrown; delivery
+     * failures are recorded but the generated file is kept.
+     */
+    async run(report: Report, now: Date = new Date()): Promise<ReportRunResult> {
+        const tenant = await this.prisma.tenant.findUnique({
+            where: { id: report.tenantId },
+            select: { name: true, timezone: true },
+        });
+
+        const { startDate, endDate } = resolveReportDateRange(report.dateRangeType, tenant?.timezone, now, {
+            startDate: report.startDate,
+            endDate: report.endDate,
+        });
+        const format = report.exportFormat === 'pdf' ? 'pdf' : 'csv';
+
+        const filename = `${this.slugify(report.name)}_${this.formatDate(startDate)}_${this.formatDate(endDate)}.${format}`;
+
+        let content: Buffer;
+        let fileUrl: string;
+        try {
+            content = await this.render(report, format, startDate, endDate);
+            fileUrl = await this.storage.save(report.tenantId, report.id, filename, content);
+        } catch (error: any) {
+            await this.recordError(report.id, `Generation failed: ${error.message}`);
+            throw error;
+        }
+        const generatedAt = new Date();
+
+        const recipients = this.getRecipients(report);
+        let deliveryError: string | undefined;
+        if (recipients.length > 0) {
+            try {
+                await this.deliver(report, tenant?.name, recipients, filename, format, content, startDate, endDate);
+            } catch (error: any) {
+                deliveryError = `Email delivery failed: ${error.message}`;
+                this.logger.error(`Report ${report.id}: ${deliveryError}`);
+            }
+        }
+
+        await this.prisma.report.update({
+            where: { id: report.id },
+            data: {
+                fileUrl,
+                fileSize: content.length,
+                generatedAt,
+                lastRunError: deliveryError ?? null,
+            },
+        });
+
+        this.logger.log(`Report ${report.id} generated (${format}, ${content.length} bytes, ${recipients.length} recipients)`);
+
+        return {
+            reportId: report.id,
+            fileUrl,
+            fileSize: content.length,
+            generatedAt,
+            recipients: recipients.length,
+            deliveryError,
+        };
+    }
+
+    async recordError(reportId: string, message: string): Promise<void> {
+        await this.prisma.report.update({
+            where: { id: reportId },
+            data: { lastRunError: message.slice(0, 2000) },
+        });
+    }
+
+    private async render(report: Report, format: 'csv' | 'pdf', startDate: Date, endDate: Date): Promise<Buffer> {
+        if (format === 'pdf') {
+            return this.exportService.exportMetricsToPDF(report.tenantId, { startDate, endDate });
+        }
+
+        const filters = (report.filters ?? {}) as Record<string, unknown>;
+        return this.exportService.renderCampaignsCSV(report.tenantId, {
+            startDate,
+            endDate,
+            platform: typeof filters.platform === 'string' ? filters.platform : undefined,
+            status: typeof filters.status === 'string' ? filters.status : undefined,
+        });
+    }
+
+    private async deliver(
+        report: Report,
+        tenantName: string | undefined,
+        recipients: string[],
+        filename: string,
+        format: string,
+        content: Buffer,
+        startDate: Date,
+        endDate: Date,
+    ): Promise<void> {
+        const period = `${this.formatDate(startDate)} – ${this.formatDate(endDate)}`;
+        const html = `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+                <h2 style="color: #333;">${this.escapeHtml(report.name)}</h2>
+                <p>${tenantName ? `${this.escapeHtml(tenantName)} · ` : ''}${period}</p>
+                ${report.description ? `<p>${this.escapeHtml(report.description)}</p>` : ''}
+                <p>The report is attached to this email.</p>
+                <p style="color: #999; font-size: 12px;">You are receiving this because you are listed as a recipient of this scheduled report.</p>
+            </div>
+        `;
+
+        await this.mailService.sendMail({
+            to: recipients.join(', '),
+            subject: `[RGA Dashboard] ${report.name} (${period})`,
+            html,
+            attachments: [{ filename, content, contentType: CONTENT_TYPES[format] }],
+        });
+    }
+
+    private getRecipients(report: Report): string[] {
+        if (!Array.isArray(report.recipients)) return [];
+        return report.recipients.filter((email): email is string => typeof email === 'string' && email.length > 0);
+    }
+
+    private formatDate(date: Date): string {
+        return date.toISOString().split('T')[0];
+    }
+
+    private slugify(name: string): string {
+        return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'report';
+    }
+
+    private escapeHtml(value: string): string {
+        return value.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+    }
+}
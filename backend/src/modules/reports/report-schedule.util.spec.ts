@@ -0,0 +1,100 @@
+/**
+ * Report Schedule Unit Tests
+ * @module report-schedule.util.spec
+ * @description Schedules are evaluated in the tenant timezone, not server UTC.
+ */
+
+import { getLatestOccurrence, isReportDue, resolveReportDateRange } from './report-schedule.util';
+
+const BANGKOK = 'Asia/Bangkok'; // UTC+7
+const NEW_YORK = 'America/New_York';
+
+describe('report-schedule.util', () => {
+    describe('getLatestOccurrence', () => {
+        it('should use the tenant wall clock for daily schedules', () => {
+            // 2026-03-10 01:30 UTC = 08:30 Bangkok
+            const now = new Date('2026-03-10T01:30:00Z');
+
+            expect(getLatestOccurrence({ frequency: 'daily', time: '08:00' }, now, BANGKOK))
+                .toEqual(new Date('2026-03-10T08:00:00Z'));
+            expect(getLatestOccurrence({ frequency: 'daily', time: '09:00' }, now, BANGKOK))
+                .toEqual(new Date('2026-03-09T09:00:00Z'));
+        });
+
+        it('should step back to the configured weekday', () => {
+            // Tuesday 2026-03-10 in Bangkok; Monday occurrence was yesterday
+            const now = new Date('2026-03-10T03:00:00Z');
+            expect(getLatestOccurrence({ frequency: 'weekly', time: '08:00', dayOfWeek: 1 }, now, BANGKOK))
+                .toEqual(new Date('2026-03-09T08:00:00Z'));
+        });
+
+        it('should clamp monthly schedules to the end of short months', () => {
+            const now = new Date('2026-03-15T00:00:00Z');
+            expect(getLatestOccurrence({ frequency: 'monthly', time: '07:00', dayOfMonth: 31 }, now, BANGKOK))
+                .toEqual(new Date('2026-02-28T07:00:00Z'));
+        });
+    });
+
+    describe('isReportDue', () => {
+        const schedule = { frequency: 'daily' as const, time: '08:00' };
+
+        it('should be due once the local time passes and no run has happened since', () => {
+            const state = {
+                createdAt: new Date('2026-03-01T00:00:00Z'),
+                generatedAt: new Date('2026-03-09T01:05:00Z'), // 08:05 Bangkok on the 9th
+            };
+
+            expect(isReportDue(schedule, state, new Date('2026-03-10T00:55:00Z'), BANGKOK)).toBe(false);
+            expect(isReportDue(schedule, state, new Date('2026-03-10T01:05:00Z'), BANGKOK)).toBe(true);
+        });
+
+        it('should not retry a failed occurrence on every tick', () => {
+            const state = {
+                createdAt: new Date('2026-03-01T00:00:00Z'),
+                generatedAt: new Date('2026-03-09T01:05:00Z'),
+                updatedAt: new Date('2026-03-10T01:05:00Z'),
+                lastRunError: 'Generation failed: timeout',
+            };
+
+            expect(isReportDue(schedule, state, new Date('2026-03-10T01:10:00Z'), BANGKOK)).toBe(false);
+            expect(isReportDue(schedule, state, new Date('2026-03-11T01:05:00Z'), BANGKOK)).toBe(true);
+        });
+
+        it('should not run a newly created report for an occurrence before its creation', () => {
+            const state = { createdAt: new Date('2026-03-10T02:00:00Z') }; // 09:00 Bangkok
+            expect(isReportDue(schedule, state, new Date('2026-03-10T02:05:00Z'), BANGKOK)).toBe(false);
+        });
+    });
+
+    describe('resolveReportDateRange', () => {
+        it('should end rolling ranges on the tenant-local yesterday', () => {
+            // 2026-03-10 02:00 UTC is still 2026-03-09 in New York
+            const now = new Date('2026-03-10T02:00:00Z');
+            const range = resolveReportDateRange('last_7_days', NEW_YORK, now);
+
+            expect(range.startDate).toEqual(new Date('2026-03-02T00:00:00Z'));
+            expect(range.endDate).toEqual(new Date('2026-03-08T00:00:00Z'));
+        });
+
+        it('should end this_month yesterday', () => {
+            const range = resolveReportDateRange('this_month', BANGKOK, new Date('2026-03-10T02:00:00Z'));
+
+            expect(range.startDate).toEqual(new Date('2026-03-01T00:00:00Z'));
+            expect(range.endDate).toEqual(new Date('2026-03-09T00:00:00Z'));
+        });
+
+        it('should cover the previous month for this_month on the 1st', () => {
+            const range = resolveReportDateRange('this_month', BANGKOK, new Date('2026-03-01T02:00:00Z'));
+
+            expect(range.startDate).toEqual(new Date('2026-02-01T00:00:00Z'));
+            expect(range.endDate).toEqual(new Date('2026-02-28T00:00:00Z'));
+        });
+
+        it('should resolve the previous calendar month', () => {
+            const range = resolveReportDateRange('last_month', BANGKOK, new Date('2026-03-01T00:30:00Z'));
+
+            expect(range.startDate).toEqual(new Date('2026-02-01T00:00:00Z'));
+            expect(range.endDate).toEqual(new Date('2026-02-28T00:00:00Z'));
+        });
+    });
+});
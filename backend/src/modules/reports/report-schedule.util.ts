@@ -0,0 +1,126 @@
+import { TimezoneUtil } from '../../common/utils/timezone.util';
+import type { ReportDateRangeType, ReportScheduleFrequency } from './dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReportSchedule {
+    frequency: ReportScheduleFrequency;
+    time: string; // HH:mm, tenant local time
+    dayOfWeek?: number | null;
+    dayOfMonth?: number | null;
+}
+
+export interface ReportRunState {
+    createdAt: Date;
+    generatedAt?: Date | null;
+    updatedAt?: Date | null;
+    lastRunError?: string | null;
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+    return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+/**
+ * Find the most recent scheduled occurrence at or before `now`.
+ *
+ * The result is expressed in tenant wall-clock time (see TimezoneUtil.toWallClock),
+ * so it must only be compared with other wall-clock values.
+ */
+export function getLatestOccurrence(schedule: ReportSchedule, now: Date, timezone?: string | null): Date | null {
+    const match = /^(\d{2}):(\d{2})$/.exec(schedule.time || '');
+    if (!match) return null;
+
+    const hour = Number(match[1]);
+    const minute = Number(match[2]);
+    const local = TimezoneUtil.toWallClock(now, timezone);
+    const y = local.getUTCFullYear();
+    const m = local.getUTCMonth();
+    const d = local.getUTCDate();
+
+    switch (schedule.frequency) {
+        case 'daily': {
+            const candidate = new Date(Date.UTC(y, m, d, hour, minute));
+            return candidate > local ? new Date(candidate.getTime() - DAY_MS) : candidate;
+        }
+        case 'weekly': {
+            if (schedule.dayOfWeek === null || schedule.dayOfWeek === undefined) return null;
+            const diff = (local.getUTCDay() - schedule.dayOfWeek + 7) % 7;
+            const candidate = new Date(Date.UTC(y, m, d - diff, hour, minute));
+            return candidate > local ? new Date(candidate.getTime() - 7 * DAY_MS) : candidate;
+        }
+        case 'monthly': {
+            if (!schedule.dayOfMonth) return null;
+            for (const offset of [0, -1]) {
+                const year = new Date(Date.UTC(y, m + offset, 1)).getUTCFullYear();
+                const monthIndex = new Date(Date.UTC(y, m + offset, 1)).getUTCMonth();
+                const day = Math.min(schedule.dayOfMonth, daysInMonth(year, monthIndex));
+                const candidate = new Date(Date.UTC(year, monthIndex, day, hour, minute));
+                if (candidate <= local) return candidate;
+            }
+            return null;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * A report is due when its latest occurrence has not been attempted yet.
+ *
+ * A failed run records `lastRunError`, which bumps `updatedAt`; that attempt
+ * counts as handled so a broken report is retried at its next occurrence
+ * instead of on every scheduler tick.
+ */
+export function isReportDue(
+    schedule: ReportSchedule,
+    state: ReportRunState,
+    now: Date,
+    timezone?: string | null,
+): boolean {
+    const occurrence = getLatestOccurrence(schedule, now, timezone);
+    if (!occurrence) return false;
+
+    const lastAttempt = state.lastRunError && state.updatedAt
+        ? state.updatedAt
+        : state.generatedAt ?? state.createdAt;
+
+    return TimezoneUtil.toWallClock(lastAttempt, timezone) < occurrence;
+}
+
+/**
+ * Resolve a report date range on the tenant's calendar.
+ *
+ * Ranges end yesterday at the latest so scheduled reports only contain complete
+ * days; on the 1st, this_month has none yet and covers the previous month.
+ * Dates are returned as UTC midnight to match `@db.Date` columns.
+ */
+export function resolveReportDateRange(
+    dateRangeType: ReportDateRangeType | string,
+    timezone?: string | null,
+    now: Date = new Date(),
+    custom?: { startDate?: Date | null; endDate?: Date | null },
+): { startDate: Date; endDate: Date } {
+    const today = TimezoneUtil.getZonedToday(timezone, now);
+    const y = today.getUTCFullYear();
+    const m = today.getUTCMonth();
+    const d = today.getUTCDate();
+
+    switch (dateRangeType) {
+        case 'last_30_days':
+            return { startDate: new Date(Date.UTC(y, m, d - 30)), endDate: new Date(Date.UTC(y, m, d - 1)) };
+        case 'this_month': {
+            const month = d === 1 ? m - 1 : m;
+            return { startDate: new Date(Date.UTC(y, month, 1)), endDate: new Date(Date.UTC(y, m, d - 1)) };
+        }
+        case 'last_month':
+            return { startDate: new Date(Date.UTC(y, m - 1, 1)), endDate: new Date(Date.UTC(y, m, 0)) };
+        case 'custom':
+            if (custom?.startDate && custom?.endDate) {
+                return { startDate: custom.startDate, endDate: custom.endDate };
+            }
+            break;
+    }
+
+    return { startDate: new Date(Date.UTC(y, m, d - 7)), endDate: new Date(Date.UTC(y, m, d - 1)) };
+}
@@ -0,0 +1,78 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { ReportRunnerService } from './report-runner.service';
+import { isReportDue, ReportSchedule } from './report-schedule.util';
+
+// =============================================================================
+// Report Scheduler Service - Generates scheduled reports when they fall due
+// =============================================================================
+
+@Injectable()
+export class ReportSchedulerService {
+    private readonly logger = new Logger(ReportSchedulerService.name);
+    private isRunning = false;
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly runner: ReportRunnerService,
+    ) { }
+
+    /**
+     * Check scheduled reports every 5 minutes.
+     * Schedules are evaluated in each tenant's own timezone.
+     */
+    @Cron(CronExpression.EVERY_5_MINUTES)
+    async runDueReports() {
+        if (this.isRunning) {
+            this.logger.warn('Previous report run still in progress, skipping');
+            return;
+        }
+
+        this.isRunning = true;
+        try {
+            const now = new Date();
+            const reports = await this.prisma.report.findMany({
+                where: {
+                    isScheduled: true,
+                    tenant: { deletedAt: null },
+                },
+                include: {
+                    tenant: { select: { timezone: true } },
+                },
+            });
+
+            const due = reports.filter((report) =>
+                report.scheduleFrequency &&
+                report.scheduleTime &&
+                isReportDue(
+                    {
+                        frequency: report.scheduleFrequency as ReportSchedule['frequency'],
+                        time: report.scheduleTime,
+                        dayOfWeek: report.scheduleDayOfWeek,
+                        dayOfMonth: report.scheduleDayOfMonth,
+                    },
+                    report,
+                    now,
+                    report.tenant.timezone,
+                ),
+            );
+
+            if (due.length === 0) return;
+
+            this.logger.log(`Generating ${due.length} scheduled reports...`);
+
+            for (const { tenant, ...report } of due) {
+                try {
+                    await this.runner.run(report, now);
+                } catch (error: any) {
+                    this.logger.error(`Scheduled report ${report.id} failed: ${error.message}`);
+                }
+            }
+        } catch (error: any) {
+            this.logger.error(`Scheduled report run failed: ${error.message}`);
+        } finally {
+            this.isRunning = false;
+        }
+    }
+}
@@ -0,0 +1,61 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Report Storage Service
+ *
+ * Persists generated report files on local disk under REPORTS_STORAGE_DIR.
+ * Callers only see a relative storage key (stored in Report.fileUrl), so the
+ * backing store can be swapped for object storage without touching the runner.
+ */
+@Injectable()
+export class ReportStorageService {
+    private readonly logger = new Logger(ReportStorageService.name);
+    private readonly rootDir: string;
+
+    constructor(private readonly config: ConfigService) {
+        this.rootDir = path.resolve(
+            this.config.get<string>('REPORTS_STORAGE_DIR') || path.join(process.cwd(), 'storage', 'reports'),
+        );
+    }
+
+    /**
+     * Write a file and return its storage key
+     */
+    async save(tenantId: string, reportId: string, filename: string, content: Buffer): Promise<string> {
+        const key = path.posix.join(tenantId, reportId, filename);
+        const fullPath = this.resolveKey(key);
+        const tmpPath = `${fullPath}.tmp`;
+
+        await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.promises.writeFile(tmpPath, content);
+        await fs.promises.rename(tmpPath, fullPath);
+
+        this.logger.log(`Stored report file ${key} (${content.length} bytes)`);
+        return key;
+    }
+
+    async read(key: string): Promise<Buffer> {
+        try {
+            return await fs.promises.readFile(this.resolveKey(key));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                throw new NotFoundException('Report file not found. Run the report again to regenerate it.');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Map a storage key to an absolute path, rejecting keys that escape the root
+     */
+    private resolveKey(key: string): string {
+        const fullPath = path.resolve(this.rootDir, key);
+        if (!fullPath.startsWith(this.rootDir + path.sep)) {
+            throw new NotFoundException('Report file not found');
+        }
+        return fullPath;
+    }
+}
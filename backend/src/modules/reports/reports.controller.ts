@@ -0,0 +1,139 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Body,
+    Param,
+    UseGuards,
+    StreamableFile,
+    ForbiddenException,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiParam } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ReportsService } from './reports.service';
+import { CreateReportDto, UpdateReportDto } from './dto';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { EntitlementsService } from '../entitlements/entitlements.service';
+import { CurrentCampaignScope } from '../../common/decorators/campaign-scope.decorator';
+import { CampaignScope } from '../../common/utils/campaign-scope.util';
+
+const CONTENT_TYPES: Record<string, string> = {
+    csv: 'text/csv; charset=utf-8',
+    pdf: 'application/pdf',
+};
+
+/**
+ * Reports render and store data of the whole tenant, so users limited to
+ * some campaigns cannot see or run them
+ */
+function assertTenantWide(scope: CampaignScope): void {
+    if (scope) {
+        throw new ForbiddenException('Reports cover all campaigns and are not available to users limited to specific campaigns');
+    }
+}
+
+@ApiTags('Reports')
+@ApiBearerAuth()
+@Controller('reports')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('reports:read')
+export class ReportsController {
+    constructor(
+        private readonly reportsService: ReportsService,
+        private readonly entitlements: EntitlementsService,
+    ) { }
+
+    @Get()
+    @ApiOperation({ summary: 'List saved and scheduled reports' })
+    async findAll(@CurrentUser('tenantId') tenantId: string, @CurrentCampaignScope() scope: CampaignScope) {
+        if (scope) return [];
+        return this.reportsService.findAll(tenantId);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get a report by ID' })
+    @ApiParam({ name: 'id', description: 'Report ID' })
+    async findOne(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id') id: string,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        assertTenantWide(scope);
+        return this.reportsService.findOne(tenantId, id);
+    }
+
+    @Post()
+    @RequirePermissions('reports:manage')
+    @ApiOperation({ summary: 'Create a report (optionally scheduled)' })
+    async create(
+        @CurrentUser('tenantId') tenantId: string,
+        @CurrentUser('id') userId: string,
+        @Body() dto: CreateReportDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        assertTenantWide(scope);
+        return this.reportsService.create(tenantId, userId, dto);
+    }
+
+    @Put(':id')
+    @RequirePermissions('reports:manage')
+    @ApiOperation({ summary: 'Update a report' })
+    @ApiParam({ name: 'id', description: 'Report ID' })
+    async update(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id') id: string,
+        @Body() dto: UpdateReportDto,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        assertTenantWide(scope);
+        return this.reportsService.update(tenantId, id, dto);
+    }
+
+    @Delete(':id')
+    @RequirePermissions('reports:manage')
+    @ApiOperation({ summary: 'Delete a report' })
+    @ApiParam({ name: 'id', description: 'Report ID' })
+    async remove(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id') id: string,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        assertTenantWide(scope);
+        return this.reportsService.remove(tenantId, id);
+    }
+
+    @Post(':id/run')
+    @RequirePermissions('reports:manage')
+    @ApiOperation({
+        summary: 'Generate a report now',
+        description: 'Renders the report, stores the file and emails the recipients.',
+    })
+    @ApiParam({ name: 'id', description: 'Report ID' })
+    async run(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id') id: string,
+        @CurrentCampaignScope() scope: CampaignScope,
+    ) {
+        assertTenantWide(scope);
+        return this.reportsService.run(tenantId, id);
+    }
+
+    @Get(':id/download')
+    @ApiOperation({ summary: 'Download the most recently generated file' })
+    @ApiParam({ name: 'id', description: 'Report ID' })
+    async download(@CurrentUser() user: any, @Param('id') id: string, @CurrentCampaignScope() scope: CampaignScope) {
+        assertTenantWide(scope);
+        const file = await this.reportsService.download(user.tenantId, id);
+        // The export entitlement depends on the format of the stored file
+        this.entitlements.assertEnabled(user.tenant, [file.format === 'csv' ? 'EXPORT_CSV' : 'EXPORT_PDF']);
+        return new StreamableFile(file.content, {
+            type: CONTENT_TYPES[file.format] ?? 'application/octet-stream',
+            disposition: `attachment; filename="${file.filename}"`,
+            length: file.content.length,
+        });
+    }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { DashboardModule } from '../dashboard/dashboard.module';
+import { ReportsController } from './reports.controller';
+import { ReportsService } from './reports.service';
+import { ReportRunnerService } from './report-runner.service';
+import { ReportSchedulerService } from './report-scheduler.service';
+import { ReportStorageService } from './report-storage.service';
+
+@Module({
+    imports: [PrismaModule, DashboardModule],
+    controllers: [ReportsController],
+    providers: [ReportsService, ReportRunnerService, ReportSchedulerService, ReportStorageService],
+    exports: [ReportsService, ReportRunnerService],
+})
+export class ReportsModule { }
@@ -0,0 +1,156 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, Report } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateReportDto, ReportExportFormat, UpdateReportDto } from './dto';
+import { ReportRunnerService, ReportRunResult } from './report-runner.service';
+import { ReportStorageService } from './report-storage.service';
+
+/** Stored report_type; the content of a report follows from its export format */
+const REPORT_TYPE_BY_FORMAT: Record<ReportExportFormat, string> = {
+    csv: 'campaign_performance',
+    pdf: 'metrics_summary',
+};
+
+@Injectable()
+export class ReportsService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly runner: ReportRunnerService,
+        private readonly storage: ReportStorageService,
+    ) { }
+
+    async findAll(tenantId: string) {
+        return this.prisma.report.findMany({
+            where: { tenantId },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async findOne(tenantId: string, id: string): Promise<Report> {
+        const report = await this.prisma.report.findFirst({
+            where: { id, tenantId },
+        });
+
+        if (!report) {
+            throw new NotFoundException(`Report with ID ${id} not found`);
+        }
+
+        return report;
+    }
+
+    async create(tenantId: string, userId: string | undefined, dto: CreateReportDto) {
+        const data = this.toData(dto);
+        this.assertValid({
+            dateRangeType: 'last_7_days',
+            isScheduled: false,
+            ...data,
+        } as Partial<Report>);
+
+        const exportFormat = dto.exportFormat ?? 'csv';
+        return this.prisma.report.create({
+            data: {
+                ...(data as Omit<Prisma.ReportUncheckedCreateInput, 'tenantId' | 'name' | 'reportType'>),
+                name: dto.name,
+                reportType: REPORT_TYPE_BY_FORMAT[exportFormat],
+                exportFormat,
+                tenantId,
+                createdBy: userId,
+            },
+        });
+    }
+
+    async update(tenantId: string, id: string, dto: UpdateReportDto) {
+        const existing = await this.findOne(tenantId, id);
+        const data = this.toData(dto);
+        this.assertValid({ ...existing, ...data } as Partial<Report>);
+
+        return this.prisma.report.update({
+            where: { id: existing.id },
+            data,
+        });
+    }
+
+    async remove(tenantId: string, id: string) {
+        const existing = await this.findOne(tenantId, id);
+        await this.prisma.report.delete({ where: { id: existing.id } });
+        return { message: 'Report deleted successfully' };
+    }
+
+    /**
+     * Generate the report immediately, independent of its schedule
+     */
+    async run(tenantId: string, id: string): Promise<ReportRunResult> {
+        const report = await this.findOne(tenantId, id);
+        return this.runner.run(report);
+    }
+
+    async download(tenantId: string, id: string): Promise<{ filename: string; format: string; content: Buffer }> {
+        const report = await this.findOne(tenantId, id);
+        if (!report.fileUrl) {
+            throw new NotFoundException('Report has not been generated yet');
+        }
+
+        const content = await this.storage.read(report.fileUrl);
+        return {
+            filename: report.fileUrl.split('/').pop() ?? `report.${report.exportFormat ?? 'csv'}`,
+            format: report.exportFormat ?? 'csv',
+            content,
+        };
+    }
+
+    // =========================================================================
+    // Helpers
+    // =========================================================================
+
+    private toData(dto: UpdateReportDto): Prisma.ReportUncheckedUpdateInput {
+        const data: Prisma.ReportUncheckedUpdateInput = {};
+
+        if (dto.name !== undefined) data.name = dto.name;
+        if (dto.description !== undefined) data.description = dto.description;
+        if (dto.dateRangeType !== undefined) data.dateRangeType = dto.dateRangeType;
+        if (dto.startDate !== undefined) data.startDate = new Date(dto.startDate);
+        if (dto.endDate !== undefined) data.endDate = new Date(dto.endDate);
+        if (dto.filters !== undefined) data.filters = dto.filters as Prisma.InputJsonValue;
+        if (dto.exportFormat !== undefined) {
+            data.exportFormat = dto.exportFormat;
+            data.reportType = REPORT_TYPE_BY_FORMAT[dto.exportFormat];
+        }
+        if (dto.isScheduled !== undefined) data.isScheduled = dto.isScheduled;
+        if (dto.scheduleFrequency !== undefined) data.scheduleFrequency = dto.scheduleFrequency;
+        if (dto.scheduleTime !== undefined) data.scheduleTime = dto.scheduleTime;
+        if (dto.scheduleDayOfWeek !== undefined) data.scheduleDayOfWeek = dto.scheduleDayOfWeek;
+        if (dto.scheduleDayOfMonth !== undefined) data.scheduleDayOfMonth = dto.scheduleDayOfMonth;
+        if (dto.recipients !== undefined) {
+            data.recipients = [...new Set(dto.recipients.map((email) => email.trim().toLowerCase()))];
+        }
+
+        return data;
+    }
+
+    /**
+     * Validate the merged report, since partial updates can leave
+     * an otherwise valid DTO inconsistent with the stored schedule.
+     */
+    private assertValid(report: Partial<Report>) {
+        if (report.dateRangeType === 'custom') {
+            if (!report.startDate || !report.endDate) {
+                throw new BadRequestException('startDate and endDate are required for a custom date range');
+            }
+            if (new Date(report.startDate) > new Date(report.endDate)) {
+                throw new BadRequestException('startDate must be before or equal to endDate');
+            }
+        }
+
+        if (!report.isScheduled) return;
+
+        if (!report.scheduleFrequency || !report.scheduleTime) {
+            throw new BadRequestException('scheduleFrequency and scheduleTime are required for scheduled reports');
+        }
+        if (report.scheduleFrequency === 'weekly' && (report.scheduleDayOfWeek === null || report.scheduleDayOfWeek === undefined)) {
+            throw new BadRequestException('scheduleDayOfWeek is required for weekly reports');
+        }
+        if (report.scheduleFrequency === 'monthly' && !report.scheduleDayOfMonth) {
+            throw new BadRequestException('scheduleDayOfMonth is required for monthly reports');
+        }
+    }
+}
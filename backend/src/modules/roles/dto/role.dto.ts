@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsIn, IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength, ValidateIf } from 'class-validator';
+import { ALL_PERMISSIONS, Permission } from '../permissions';
+
+export class CreateRoleDto {
+  @ApiProperty({ example: 'Client (read-only)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Dashboards and CSV export, no campaign changes' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ example: ['dashboard:read', 'campaigns:read', 'export:csv'], enum: ALL_PERMISSIONS, isArray: true })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(ALL_PERMISSIONS, { each: true })
+  permissions: Permission[];
+}
+
+export class UpdateRoleDto extends PartialType(CreateRoleDto) { }
+
+export class AssignRoleDto {
+  @ApiProperty({ nullable: true, description: 'Custom role ID, or null to fall back to the default access of the user role' })
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID()
+  roleId: string | null;
+}
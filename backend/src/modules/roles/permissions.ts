@@ -0,0 +1,79 @@
+import { UserRole } from '@prisma/client';
+
+/**
+ * Permission catalogue
+ * Keys are "<feature>:<action>" and are stored as-is in Role.permissions (JSONB array)
+ */
+export const PERMISSION_CATALOGUE = [
+  { key: 'dashboard:read', group: 'Dashboard', description: 'View dashboard overview, trends and insights' },
+  { key: 'campaigns:read', group: 'Campaigns', description: 'View campaigns and their metrics' },
+  { key: 'campaigns:write', group: 'Campaigns', description: 'Create, edit and delete campaigns' },
+  { key: 'campaigns:request-change', group: 'Campaigns', description: 'Request status, budget and end date changes that wait for approval' },
+  { key: 'campaigns:approve', group: 'Campaigns', description: 'Approve or reject requested campaign changes' },
+  { key: 'alerts:read', group: 'Alerts', description: 'View alerts and alert rules' },
+  { key: 'alerts:manage', group: 'Alerts', description: 'Create alert rules and acknowledge/resolve alerts' },
+  { key: 'reports:read', group: 'Reports', description: 'View and download reports' },
+  { key: 'reports:manage', group: 'Reports', description: 'Create, edit, run and delete reports' },
+  { key: 'crm:read', group: 'CRM', description: 'View leads, deals and CRM insights' },
+  { key: 'crm:write', group: 'CRM', description: 'Create, edit and import leads and deals' },
+  { key: 'seo:read', group: 'SEO', description: 'View SEO and web analytics' },
+  { key: 'seo:manage', group: 'SEO', description: 'Manage tracked keywords and import backlink data' },
+  { key: 'integrations:read', group: 'Integrations', description: 'View connected platforms' },
+  { key: 'integrations:connect', group: 'Integrations', description: 'Connect and disconnect ad platforms' },
+  { key: 'data:import', group: 'Data', description: 'Upload offline metrics from CSV/XLSX and roll imports back' },
+  { key: 'export:csv', group: 'Export', description: 'Export data as CSV' },
+  { key: 'export:pdf', group: 'Export', description: 'Export data as PDF' },
+] as const;
+
+export type Permission = (typeof PERMISSION_CATALOGUE)[number]['key'];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_CATALOGUE.map((p) => p.key);
+
+/** Roles that always hold every permission - a custom role can't lock an admin out */
+const UNRESTRICTED_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.ADMIN];
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+/**
+ * Drop unknown keys and duplicates from a stored permissions value
+ */
+export function normalizePermissions(value: unknown): Permission[] {
+  if (!Array.isArray(value)) return [];
+  return ALL_PERMISSIONS.filter((permission) => value.includes(permission));
+}
+
+const READ_PERMISSIONS = ALL_PERMISSIONS.filter((p) => p.endsWith(':read'));
+const EXPORT_PERMISSIONS: Permission[] = ['export:csv', 'export:pdf'];
+
+/**
+ * Access of users without a custom role, by UserRole. Clients and viewers are
+ * limited here, so losing a custom role never widens their access.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.SUPER_ADMIN]: ALL_PERMISSIONS,
+  [UserRole.ADMIN]: ALL_PERMISSIONS,
+  [UserRole.MANAGER]: ALL_PERMISSIONS,
+  [UserRole.CLIENT]: [...READ_PERMISSIONS, 'campaigns:request-change', 'crm:write', ...EXPORT_PERMISSIONS],
+  [UserRole.VIEWER]: [...READ_PERMISSIONS, ...EXPORT_PERMISSIONS],
+};
+
+/**
+ * Effective permissions for an authenticated user
+ * - SUPER_ADMIN / ADMIN: everything
+ * - Custom role assigned: exactly the role's permissions
+ * - Otherwise: the default set of the user's UserRole (nothing for unknown roles)
+ */
+export function resolvePermissions(user: {
+  role: UserRole | string;
+  customRole?: { permissions: unknown } | null;
+}): Set<Permission> {
+  if (UNRESTRICTED_ROLES.includes(user.role as UserRole)) {
+    return new Set(ALL_PERMISSIONS);
+  }
+  if (!user.customRole) {
+    return new Set(DEFAULT_ROLE_PERMISSIONS[user.role as UserRole] ?? []);
+  }
+  return new Set(normalizePermissions(user.customRole.permissions));
+}
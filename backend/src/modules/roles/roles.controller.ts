@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RolesService } from './roles.service';
+import { CreateRoleDto, UpdateRoleDto, AssignRoleDto } from './dto';
+
+@ApiTags('Roles')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+@Controller('roles')
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) { }
+
+  @Get('permissions')
+  @ApiOperation({ summary: 'List the permission catalogue' })
+  getCatalogue() {
+    return this.rolesService.getCatalogue();
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List custom roles for the tenant (Admin only)' })
+  findAll(@CurrentUser('tenantId') tenantId: string) {
+    return this.rolesService.findAll(tenantId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a custom role (Admin only)' })
+  create(@CurrentUser() user: any, @Body() dto: CreateRoleDto) {
+    return this.rolesService.create(user.tenantId, dto, user.id);
+  }
+
+  @Put('users/:userId')
+  @ApiOperation({ summary: 'Assign a custom role to a user, or clear it with null (Admin only)' })
+  assign(
+    @CurrentUser() user: any,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() dto: AssignRoleDto,
+  ) {
+    return this.rolesService.assignToUser(user.tenantId, userId, dto.roleId, user.id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a custom role (Admin only)' })
+  update(
+    @CurrentUser() user: any,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateRoleDto,
+  ) {
+    return this.rolesService.update(user.tenantId, id, dto, user.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a custom role (Admin only)' })
+  remove(@CurrentUser() user: any, @Param('id', ParseUUIDPipe) id: string) {
+    return this.rolesService.remove(user.tenantId, id, user.id);
+  }
+}
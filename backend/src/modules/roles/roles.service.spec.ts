@@ -0,0 +1,174 @@
+/**
+ * Custom Roles Unit Tests
+ * @module roles.service.spec
+ * @description Permission resolution and custom role management:
+ *   - Admins keep full access; a custom role limits a user to its permissions
+ *   - Without a custom role, clients and viewers get their role's default set
+ *   - PermissionsGuard rejects requests missing a required permission
+ *   - Role names are unique per tenant and stored permissions are normalized
+ *   - Roles can only be assigned to users of the same tenant
+ *   - Roles still assigned to users cannot be deleted
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ExecutionContext, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '@prisma/client';
+import { RolesService } from './roles.service';
+import { ALL_PERMISSIONS, resolvePermissions } from './permissions';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+
+const readOnlyRole = { permissions: ['dashboard:read', 'campaigns:read', 'export:csv'] };
+
+const contextFor = (user: unknown): ExecutionContext =>
+  ({
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  }) as unknown as ExecutionContext;
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('Custom roles', () => {
+  describe('resolvePermissions', () => {
+    it('should grant everything to admins even with a restrictive custom role', () => {
+      const granted = resolvePermissions({ role: UserRole.ADMIN, customRole: readOnlyRole });
+
+      expect(granted.size).toBe(ALL_PERMISSIONS.length);
+    });
+
+    it('should fall back to the role defaults for users without a custom role', () => {
+      expect(resolvePermissions({ role: UserRole.MANAGER, customRole: null }).size).toBe(ALL_PERMISSIONS.length);
+
+      const client = resolvePermissions({ role: UserRole.CLIENT, customRole: null });
+      expect(client.has('campaigns:read')).toBe(true);
+      expect(client.has('crm:write')).toBe(true);
+      expect(client.has('campaigns:write')).toBe(false);
+      expect(client.has('integrations:connect')).toBe(false);
+
+      const viewer = resolvePermissions({ role: UserRole.VIEWER, customRole: null });
+      expect([...viewer].every((p) => p.endsWith(':read') || p.startsWith('export:'))).toBe(true);
+      expect(resolvePermissions({ role: 'unknown', customRole: null }).size).toBe(0);
+    });
+
+    it('should limit users to their custom role and ignore unknown keys', () => {
+      const granted = resolvePermissions({
+        role: UserRole.CLIENT,
+        customRole: { permissions: [...readOnlyRole.permissions, 'billing:everything'] },
+      });
+
+      expect([...granted]).toEqual(['dashboard:read', 'campaigns:read', 'export:csv']);
+    });
+  });
+
+  describe('PermissionsGuard', () => {
+    const reflector = new Reflector();
+    const guard = new PermissionsGuard(reflector);
+
+    it('should reject a user missing a required permission', () => {
+      jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['campaigns:write']);
+
+      expect(() =>
+        guard.canActivate(contextFor({ role: UserRole.CLIENT, customRole: readOnlyRole })),
+      ).toThrow(ForbiddenException);
+    });
+
+    it('should allow a user holding every required permission', () => {
+      jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['campaigns:read', 'export:csv']);
+
+      expect(guard.canActivate(contextFor({ role: UserRole.CLIENT, customRole: readOnlyRole }))).toBe(true);
+    });
+  });
+
+  describe('RolesService', () => {
+    let service: RolesService;
+    let prisma: any;
+    let auditLogs: { createLog: jest.Mock };
+
+    beforeEach(async () => {
+      prisma = {
+        role: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          findFirst: jest.fn().mockResolvedValue(null),
+          create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'role-001', ...data })),
+          delete: jest.fn().mockResolvedValue({}),
+        },
+        user: {
+          findFirst: jest.fn().mockResolvedValue({ id: 'user-001', tenantId: TENANT_ID, customRoleId: null }),
+          update: jest.fn().mockResolvedValue({}),
+          count: jest.fn().mockResolvedValue(0),
+        },
+      };
+
+      auditLogs = { createLog: jest.fn() };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          RolesService,
+          { provide: PrismaService, useValue: prisma },
+          { provide: AuditLogsService, useValue: auditLogs },
+        ],
+      }).compile();
+
+      service = module.get(RolesService);
+    });
+
+    it('should store permissions in catalogue order without duplicates', async () => {
+      await service.create(
+        TENANT_ID,
+        { name: 'Client', permissions: ['export:csv', 'dashboard:read', 'export:csv'] },
+        'admin-001',
+      );
+
+      expect(prisma.role.create.mock.calls[0][0].data.permissions).toEqual(['dashboard:read', 'export:csv']);
+    });
+
+    it('should reject a duplicate role name', async () => {
+      prisma.role.findUnique.mockResolvedValue({ id: 'role-001' });
+
+      await expect(
+        service.create(TENANT_ID, { name: 'Client', permissions: [] }, 'admin-001'),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should not assign a role from another tenant', async () => {
+      await expect(
+        service.assignToUser(TENANT_ID, 'user-001', 'role-other-tenant', 'admin-001'),
+      ).rejects.toThrow(NotFoundException);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete a role that is still assigned', async () => {
+      prisma.role.findFirst.mockResolvedValue({ id: 'role-001', tenantId: TENANT_ID, name: 'Client' });
+      prisma.user.count.mockResolvedValue(3);
+
+      const error = await service.remove(TENANT_ID, 'role-001', 'admin-001').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse()).toMatchObject({ error: 'ROLE_IN_USE', meta: { assignedUsers: 3 } });
+      expect(prisma.user.count).toHaveBeenCalledWith({ where: { tenantId: TENANT_ID, customRoleId: 'role-001' } });
+      expect(prisma.role.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete an unassigned role and audit it under the tenant', async () => {
+      prisma.role.findFirst.mockResolvedValue({ id: 'role-001', tenantId: TENANT_ID, name: 'Client' });
+
+      await service.remove(TENANT_ID, 'role-001', 'admin-001');
+
+      expect(prisma.role.delete).toHaveBeenCalledWith({ where: { id: 'role-001' } });
+      expect(auditLogs.createLog).toHaveBeenCalledWith(
+        expect.objectContaining({ tenantId: TENANT_ID, action: 'ROLE_DELETED', entityId: 'role-001' }),
+      );
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { CreateRoleDto, UpdateRoleDto } from './dto';
+import { PERMISSION_CATALOGUE, normalizePermissions } from './permissions';
+
+@Injectable()
+export class RolesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditLogsService: AuditLogsService,
+  ) { }
+
+  getCatalogue() {
+    return PERMISSION_CATALOGUE;
+  }
+
+  async findAll(tenantId: string) {
+    const roles = await this.prisma.role.findMany({
+      where: { tenantId },
+      include: { _count: { select: { users: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return roles.map(({ _count, ...role }) => ({
+      ...this.toResponse(role),
+      userCount: _count.users,
+    }));
+  }
+
+  async create(tenantId: string, dto: CreateRoleDto, actorId: string) {
+    await this.assertNameAvailable(tenantId, dto.name);
+
+    const role = await this.prisma.role.create({
+      data: {
+        tenantId,
+        name: dto.name,
+        description: dto.description,
+        permissions: normalizePermissions(dto.permissions),
+      },
+    });
+
+    await this.auditLogsService.createLog({
+      tenantId,
+      userId: actorId,
+      action: 'ROLE_CREATED',
+      resource: 'role',
+      entityId: role.id,
+      details: { roleId: role.id, name: role.name, permissions: role.permissions },
+    });
+
+    return this.toResponse(role);
+  }
+
+  async update(tenantId: string, id: string, dto: UpdateRoleDto, actorId: string) {
+    const existing = await this.findOneOrThrow(tenantId, id);
+    if (dto.name !== undefined && dto.name !== existing.name) {
+      await this.assertNameAvailable(tenantId, dto.name);
+    }
+
+    const role = await this.prisma.role.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        permissions: dto.permissions !== undefined ? normalizePermissions(dto.permissions) : undefined,
+      },
+    });
+
+    await this.auditLogsService.createLog({
+      tenantId,
+      userId: actorId,
+      action: 'ROLE_UPDATED',
+      resource: 'role',
+      entityId: id,
+      details: {
+        roleId: id,
+        before: { name: existing.name, permissions: existing.permissions },
+        after: { name: role.name, permissions: role.permissions },
+      },
+    });
+
+    return this.toResponse(role);
+  }
+
+  /**
+   * Only unassigned roles can be deleted - users must be moved to another role
+   * first, so nobody's access changes as a side effect of the delete
+   */
+  async remove(tenantId: string, id: string, actorId: string) {
+    const role = await this.findOneOrThrow(tenantId, id);
+
+    const assignedUsers = await this.prisma.user.count({ where: { tenantId, customRoleId: id } });
+    if (assignedUsers > 0) {
+      throw new ConflictException({
+        message: `Role "${role.name}" is assigned to ${assignedUsers} user(s); reassign them before deleting it`,
+        error: 'ROLE_IN_USE',
+        meta: { assignedUsers },
+      });
+    }
+
+    await this.prisma.role.delete({ where: { id } });
+
+    await this.auditLogsService.createLog({
+      tenantId,
+      userId: actorId,
+      action: 'ROLE_DELETED',
+      resource: 'role',
+      entityId: id,
+      details: { roleId: id, name: role.name },
+    });
+
+    return { message: 'Role deleted successfully' };
+  }
+
+  async assignToUser(tenantId: string, userId: string, roleId: string | null, actorId: string) {
+    const user = await this.prisma.user.findFirst({ where: { id: userId, tenantId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (roleId) {
+      await this.findOneOrThrow(tenantId, roleId);
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { customRoleId: roleId },
+    });
+
+    await this.auditLogsService.createLog({
+      tenantId,
+      userId: actorId,
+      action: 'ROLE_ASSIGNED',
+      resource: 'user',
+      entityId: userId,
+      details: { targetUserId: userId, from: user.customRoleId, to: roleId },
+    });
+
+    return { userId, customRoleId: roleId };
+  }
+
+  private async findOneOrThrow(tenantId: string, id: string) {
+    const role = await this.prisma.role.findFirst({ where: { id, tenantId } });
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+    return role;
+  }
+
+  private async assertNameAvailable(tenantId: string, name: string) {
+    const existing = await this.prisma.role.findUnique({
+      where: { roles_tenant_name_unique: { tenantId, name } },
+    });
+    if (existing) {
+      throw new ConflictException(`Role "${name}" already exists`);
+    }
+  }
+
+  private toResponse(role: Prisma.RoleGetPayload<object>) {
+    return { ...role, permissions: normalizePermissions(role.permissions) };
+  }
+}
@@ -0,0 +1,4 @@
+export * from './search-console-sites.dto';
+export * from './tracked-keyword.dto';
+export * from './offpage-import.dto';
+export * from './seo-opportunity.dto';
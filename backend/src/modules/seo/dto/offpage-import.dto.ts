@@ -0,0 +1,60 @@
+import { IsIn, IsInt, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OFFPAGE_IMPORT_TYPES, OffpageImportType } from '../offpage-import.parser';
+
+export class ImportOffpageDto {
+    @ApiProperty({ enum: OFFPAGE_IMPORT_TYPES, description: 'Which Ahrefs/Semrush export the file is' })
+    @IsIn(OFFPAGE_IMPORT_TYPES)
+    type: OffpageImportType;
+
+    @ApiPropertyOptional({ example: '2026-03-01', description: 'Snapshot date (YYYY-MM-DD). Default: today in the tenant timezone' })
+    @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'date must be YYYY-MM-DD' })
+    @IsOptional()
+    date?: string;
+
+    @ApiPropertyOptional({ description: 'CSV content (alternative to a multipart "file" upload)' })
+    @IsString()
+    @IsOptional()
+    csv?: string;
+}
+
+export const BACKLINK_STATUSES = ['live', 'new', 'lost'] as const;
+export type BacklinkStatus = typeof BACKLINK_STATUSES[number];
+
+export class BacklinkQueryDto {
+    @ApiPropertyOptional({ enum: BACKLINK_STATUSES, default: 'live', description: 'new / lost = changed by the latest backlinks import' })
+    @IsIn(BACKLINK_STATUSES)
+    @IsOptional()
+    status?: BacklinkStatus;
+
+    @ApiPropertyOptional({ default: 100 })
+    @IsInt()
+    @Min(1)
+    @Max(500)
+    @IsOptional()
+    @Type(() => Number)
+    limit?: number;
+
+    @ApiPropertyOptional({ default: 0 })
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    @Type(() => Number)
+    offset?: number;
+}
+
+export interface OffpageImportResult {
+    importId: string;
+    type: OffpageImportType;
+    source: string;
+    date: string;
+    total: number;
+    imported: number;
+    duplicates: number;
+    skipped: number;
+    /** New / lost backlinks or referring domains compared with the previous import */
+    new: number;
+    lost: number;
+    errors: Array<{ row: number; message: string }>;
+}
@@ -0,0 +1,16 @@
+import { ArrayNotEmpty, IsArray, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SearchConsoleSitesDto {
+    @ApiProperty({ type: [String], example: ['https://www.example.com/', 'sc-domain:example.com'] })
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsString({ each: true })
+    siteUrls: string[];
+}
+
+export class CompleteSearchConsoleConnectionDto extends SearchConsoleSitesDto {
+    @ApiProperty()
+    @IsString()
+    tempToken: string;
+}
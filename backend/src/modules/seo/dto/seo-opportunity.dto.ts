@@ -0,0 +1,33 @@
+import { IsInt, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export const SEO_OPPORTUNITY_REPORTS = ['cannibalisation', 'low-ctr', 'ctr-decline', 'page-trends'] as const;
+export type SeoOpportunityReport = typeof SEO_OPPORTUNITY_REPORTS[number];
+
+export class SeoOpportunityQueryDto {
+    @ApiPropertyOptional({ example: '28d', default: '28d', description: 'Window length; trend reports compare it with the window before it' })
+    @Matches(/^\d{1,3}d$/, { message: 'period must look like 28d' })
+    @IsOptional()
+    period?: string;
+
+    @ApiPropertyOptional({ description: 'Limit to one Search Console property (default: all selected)' })
+    @IsString()
+    @IsOptional()
+    siteUrl?: string;
+
+    @ApiPropertyOptional({ description: 'Ignore queries/pages with fewer impressions (report specific default)' })
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    @Type(() => Number)
+    minImpressions?: number;
+
+    @ApiPropertyOptional({ default: 50 })
+    @IsInt()
+    @Min(1)
+    @Max(500)
+    @IsOptional()
+    @Type(() => Number)
+    limit?: number;
+}
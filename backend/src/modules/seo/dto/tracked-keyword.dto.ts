@@ -0,0 +1,62 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsInt, IsOptional, IsString, IsUrl, Max, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateTrackedKeywordsDto {
+    @ApiProperty({ type: [String], example: ['running shoes', 'trail running shoes'] })
+    @IsArray()
+    @ArrayNotEmpty()
+    @ArrayMaxSize(500)
+    @IsString({ each: true })
+    @MaxLength(500, { each: true })
+    keywords: string[];
+
+    @ApiPropertyOptional({ type: [String], example: ['brand', 'shoes'] })
+    @IsArray()
+    @IsString({ each: true })
+    @MaxLength(50, { each: true })
+    @IsOptional()
+    tags?: string[];
+
+    @ApiPropertyOptional({ example: 'https://shop.example.com/running-shoes' })
+    @IsUrl({ require_tld: false })
+    @IsOptional()
+    targetUrl?: string;
+}
+
+export class UpdateTrackedKeywordDto {
+    @ApiPropertyOptional({ type: [String] })
+    @IsArray()
+    @IsString({ each: true })
+    @MaxLength(50, { each: true })
+    @IsOptional()
+    tags?: string[];
+
+    @ApiPropertyOptional({ nullable: true, description: 'Empty string clears the target URL' })
+    @IsString()
+    @IsOptional()
+    targetUrl?: string;
+}
+
+export class TrackedKeywordQueryDto {
+    @ApiPropertyOptional({ default: 7, description: 'Window length in days; compared with the window before it' })
+    @IsInt()
+    @Min(1)
+    @Max(90)
+    @IsOptional()
+    @Type(() => Number)
+    days?: number;
+
+    @ApiPropertyOptional({ description: 'Only keywords with this tag' })
+    @IsString()
+    @IsOptional()
+    tag?: string;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsInt()
+    @Min(1)
+    @Max(500)
+    @IsOptional()
+    @Type(() => Number)
+    limit?: number;
+}
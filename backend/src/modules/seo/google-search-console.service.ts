@@ -1,47 +1,72 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { AdPlatform } from '@prisma/client';
 import { google } from 'googleapis';
+import { CredentialVaultService } from '../credential-vault/credential-vault.service';
+
+type OAuth2Client = InstanceType<typeof google.auth.OAuth2>;
+
+export interface SearchConsoleSite {
+    siteUrl: string;
+    permissionLevel: string;
+}
 
 @Injectable()
 export class GoogleSearchConsoleService {
+    static readonly SCOPES = ['https://www.googleapis.com/auth/webmasters.readonly'];
+
     private readonly logger = new Logger(GoogleSearchConsoleService.name);
 
-    constructor(private readonly configService: ConfigService) { }
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly credentialVault: CredentialVaultService,
+    ) { }
 
-    getSiteUrl(tenantSettings?: any): string | null {
-        const fromTenant = tenantSettings?.seo?.gscSiteUrl;
-        const fromEnv = this.configService.get<string>('GSC_SITE_URL');
-        return (fromTenant || fromEnv || null) as string | null;
+    createOAuthClient(): OAuth2Client {
+        return new google.auth.OAuth2(
+            this.configService.get('GOOGLE_CLIENT_ID'),
+            this.configService.get('GOOGLE_CLIENT_SECRET'),
+            this.configService.get('GOOGLE_REDIRECT_URI_GSC'),
+        );
     }
 
-    hasCredentials(): boolean {
-        const json = this.configService.get<string>('GSC_SERVICE_ACCOUNT_JSON');
-        const keyFile = this.configService.get<string>('GSC_SERVICE_ACCOUNT_KEY_FILE');
-        return !!(json || keyFile);
-    }
+    /**
+     * OAuth client for a tenant's stored connection; googleapis refreshes the access token as needed
+     */
+    async getAccountAuth(account: { id: string; tenantId: string }): Promise<OAuth2Client> {
+        const stored = await this.credentialVault.get({
+            tenantId: account.tenantId,
+            platform: AdPlatform.SEARCH_CONSOLE,
+            accountId: account.id,
+        });
+        if (!stored?.refreshToken) {
+            throw new BadRequestException('Search Console is not authorized. Please reconnect it.');
+        }
 
-    private getAuth() {
-        const json = this.configService.get<string>('GSC_SERVICE_ACCOUNT_JSON');
-        const keyFile = this.configService.get<string>('GSC_SERVICE_ACCOUNT_KEY_FILE');
-        const scopes = ['https://www.googleapis.com/auth/webmasters.readonly'];
+        const auth = this.createOAuthClient();
+        auth.setCredentials({ refresh_token: stored.refreshToken });
+        return auth;
+    }
 
-        if (json) {
-            try {
-                const credentials = JSON.parse(json);
-                return new google.auth.GoogleAuth({ credentials, scopes });
-            } catch (error: any) {
-                throw new Error(`Invalid GSC_SERVICE_ACCOUNT_JSON: ${error.message}`);
-            }
-        }
+    /**
+     * Properties the authorized Google user can read (unverified ones are skipped)
+     */
+    async listSites(auth: OAuth2Client): Promise<SearchConsoleSite[]> {
+        const searchconsole = google.searchconsole({ version: 'v1', auth });
 
-        if (keyFile) {
-            return new google.auth.GoogleAuth({ keyFile, scopes });
+        try {
+            const response = await searchconsole.sites.list();
+            return (response.data.siteEntry ?? [])
+                .filter((s) => s.siteUrl && s.permissionLevel !== 'siteUnverifiedUser')
+                .map((s) => ({ siteUrl: s.siteUrl!, permissionLevel: s.permissionLevel ?? 'siteRestrictedUser' }))
+                .sort((a, b) => a.siteUrl.localeCompare(b.siteUrl));
+        } catch (error: any) {
+            this.logger.error(`GSC site list failed: ${error.message}`);
+            throw error;
         }
-
-        throw new Error('GSC credentials not configured');
     }
 
-    async querySearchAnalytics(params: {
+    async querySearchAnalytics(auth: OAuth2Client, params: {
         siteUrl: string;
         startDate: string;
         endDate: string;
@@ -49,8 +74,6 @@ export class GoogleSearchConsoleService {
         startRow?: number;
         dimensions?: string[];
     }) {
-        const auth = this.getAuth();
-
         const searchconsole = google.searchconsole({
             version: 'v1',
             auth,
@@ -70,7 +93,7 @@ export class GoogleSearchConsoleService {
 
             return response.data;
         } catch (error: any) {
-            this.logger.error(`GSC query failed: ${error.message}`);
+            this.logger.error(`GSC query failed for ${params.siteUrl}: ${error.message}`);
             throw error;
         }
     }
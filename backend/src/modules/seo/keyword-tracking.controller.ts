@@ -0,0 +1,99 @@
+import { Body, Controller, Delete, Get, Param, ParseUUIDPipe, Patch, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { KeywordTrackingService } from './keyword-tracking.service';
+import { CreateTrackedKeywordsDto, TrackedKeywordQueryDto, UpdateTrackedKeywordDto } from './dto';
+
+@ApiTags('SEO')
+@ApiBearerAuth()
+@Controller('seo/keywords/tracked')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('seo:read')
+export class KeywordTrackingController {
+    constructor(private readonly keywordTracking: KeywordTrackingService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'Get tracked keywords with current and previous position' })
+    async getTracked(
+        @CurrentUser('tenantId') tenantId: string,
+        @Query() query: TrackedKeywordQueryDto,
+    ) {
+        return this.keywordTracking.getTracked(tenantId, query);
+    }
+
+    @Post()
+    @RequirePermissions('seo:manage')
+    @ApiOperation({ summary: 'Track keywords (existing ones are skipped)' })
+    async create(
+        @CurrentUser('tenantId') tenantId: string,
+        @Body() dto: CreateTrackedKeywordsDto,
+    ) {
+        return this.keywordTracking.create(tenantId, dto);
+    }
+
+    @Get('movers')
+    @ApiOperation({ summary: 'Get tracked keywords with the largest position gains (winners) and drops (losers)' })
+    async getMovers(
+        @CurrentUser('tenantId') tenantId: string,
+        @Query() query: TrackedKeywordQueryDto,
+    ) {
+        return this.keywordTracking.getMovers(tenantId, query);
+    }
+
+    @Get('striking-distance')
+    @ApiOperation({ summary: 'Get tracked keywords ranking in positions 4-20' })
+    async getStrikingDistance(
+        @CurrentUser('tenantId') tenantId: string,
+        @Query() query: TrackedKeywordQueryDto,
+    ) {
+        return this.keywordTracking.getStrikingDistance(tenantId, query);
+    }
+
+    @Get('lost')
+    @ApiOperation({ summary: 'Get tracked keywords that stopped ranking' })
+    async getLost(
+        @CurrentUser('tenantId') tenantId: string,
+        @Query() query: TrackedKeywordQueryDto,
+    ) {
+        return this.keywordTracking.getLost(tenantId, query);
+    }
+
+    @Get(':id/history')
+    @ApiOperation({ summary: 'Get daily position history of a tracked keyword' })
+    @ApiParam({ name: 'id', description: 'Tracked keyword ID (UUID)' })
+    @ApiQuery({ name: 'days', required: false, description: 'Default: 90' })
+    async getHistory(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id', ParseUUIDPipe) id: string,
+        @Query('days') days?: string,
+    ) {
+        const daysNum = days ? Math.min(365, Math.max(1, parseInt(days, 10) || 90)) : 90;
+        return this.keywordTracking.getHistory(tenantId, id, daysNum);
+    }
+
+    @Patch(':id')
+    @RequirePermissions('seo:manage')
+    @ApiOperation({ summary: 'Update tags or target URL of a tracked keyword' })
+    @ApiParam({ name: 'id', description: 'Tracked keyword ID (UUID)' })
+    async update(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: UpdateTrackedKeywordDto,
+    ) {
+        return this.keywordTracking.update(tenantId, id, dto);
+    }
+
+    @Delete(':id')
+    @RequirePermissions('seo:manage')
+    @ApiOperation({ summary: 'Stop tracking a keyword (its history is removed)' })
+    @ApiParam({ name: 'id', description: 'Tracked keyword ID (UUID)' })
+    async remove(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id', ParseUUIDPipe) id: string,
+    ) {
+        return this.keywordTracking.remove(tenantId, id);
+    }
+}
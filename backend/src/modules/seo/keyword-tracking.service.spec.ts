@@ -0,0 +1,186 @@
+/**
+ * Keyword Tracking Unit Tests
+ * @module keyword-tracking.service.spec
+ * @description Tracked keywords and their daily positions from Search Console rows:
+ *   - Daily position is impression-weighted across pages/devices/countries
+ *   - The ranking URL is the page with the most clicks that day
+ *   - Winners / losers compare the latest window with the one before it
+ *   - Striking distance is positions 4-20; lost keywords stopped getting impressions
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { KeywordTrackingService } from './keyword-tracking.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+const keyword = (id: string, text: string, targetUrl: string | null = null) => ({
+    id,
+    tenantId: TENANT_ID,
+    keyword: text,
+    tags: ['shoes'],
+    targetUrl,
+});
+
+const gscRow = (query: string, date: string, page: string, clicks: number, impressions: number, position: number) => ({
+    query,
+    date: day(date),
+    page,
+    clicks,
+    impressions,
+    position: new Prisma.Decimal(position),
+});
+
+const history = (trackedKeywordId: string, date: string, position: number, impressions = 100, rankingUrl = '/p') => ({
+    trackedKeywordId,
+    date: day(date),
+    position: new Prisma.Decimal(position),
+    clicks: 1,
+    impressions,
+    rankingUrl,
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('KeywordTrackingService', () => {
+    let service: KeywordTrackingService;
+    let prisma: {
+        trackedKeyword: { findMany: jest.Mock };
+        searchConsolePerformance: { findMany: jest.Mock };
+        keywordRankHistory: { findMany: jest.Mock; aggregate: jest.Mock; deleteMany: jest.Mock; createMany: jest.Mock };
+        $transaction: jest.Mock;
+    };
+
+    beforeEach(async () => {
+        prisma = {
+            trackedKeyword: { findMany: jest.fn() },
+            searchConsolePerformance: { findMany: jest.fn() },
+            keywordRankHistory: {
+                findMany: jest.fn(),
+                aggregate: jest.fn().mockResolvedValue({ _max: { date: day('2026-03-14') } }),
+                deleteMany: jest.fn(),
+                createMany: jest.fn(),
+            },
+            $transaction: jest.fn().mockResolvedValue([]),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                KeywordTrackingService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: TenantTimezoneService, useValue: { getTimezone: jest.fn().mockResolvedValue('Asia/Bangkok') } },
+            ],
+        }).compile();
+
+        service = module.get(KeywordTrackingService);
+    });
+
+    describe('rebuildHistory', () => {
+        it('should weight positions by impressions and keep the top page', async () => {
+            prisma.trackedKeyword.findMany.mockResolvedValue([
+                { id: 'kw-1', keyword: 'running shoes' },
+                { id: 'kw-2', keyword: 'trail shoes' },
+            ]);
+            prisma.searchConsolePerformance.findMany.mockResolvedValue([
+                gscRow('Running Shoes', '2026-03-10', '/running', 8, 300, 2),
+                gscRow('running shoes', '2026-03-10', '/blog/running', 1, 100, 10),
+                gscRow('running shoes', '2026-03-11', '/running', 2, 50, 3),
+                gscRow('trail shoes', '2026-03-10', '/trail', 0, 20, 15),
+                gscRow('unrelated', '2026-03-10', '/x', 5, 50, 1),
+            ]);
+
+            const written = await service.rebuildHistory(TENANT_ID, 30);
+
+            expect(written).toBe(3);
+            const data = prisma.keywordRankHistory.createMany.mock.calls[0][0].data;
+            expect(data).toContainEqual(expect.objectContaining({
+                trackedKeywordId: 'kw-1',
+                date: day('2026-03-10'),
+                position: (2 * 300 + 10 * 100) / 400,
+                clicks: 9,
+                impressions: 400,
+                rankingUrl: '/running',
+            }));
+            expect(data).toContainEqual(expect.objectContaining({ trackedKeywordId: 'kw-2', position: 15, rankingUrl: '/trail' }));
+            expect(prisma.keywordRankHistory.deleteMany).toHaveBeenCalledWith({
+                where: { trackedKeywordId: { in: ['kw-1', 'kw-2'] }, date: expect.any(Object) },
+            });
+        });
+
+        it('should do nothing without tracked keywords', async () => {
+            prisma.trackedKeyword.findMany.mockResolvedValue([]);
+
+            await expect(service.rebuildHistory(TENANT_ID)).resolves.toBe(0);
+            expect(prisma.searchConsolePerformance.findMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('reports', () => {
+        beforeEach(() => {
+            prisma.trackedKeyword.findMany.mockResolvedValue([
+                keyword('up', 'running shoes', 'https://shop.example.com/running/'),
+                keyword('down', 'trail shoes'),
+                keyword('gone', 'hiking boots'),
+                keyword('new', 'sandals'),
+            ]);
+            // Current window: 03-08..03-14, previous: 03-01..03-07
+            prisma.keywordRankHistory.findMany.mockResolvedValue([
+                history('up', '2026-03-02', 12),
+                history('up', '2026-03-12', 5, 100, 'https://shop.example.com/running'),
+                history('down', '2026-03-03', 3),
+                history('down', '2026-03-13', 9),
+                history('gone', '2026-03-05', 7),
+                history('new', '2026-03-14', 30),
+            ]);
+        });
+
+        it('should compare the latest window with the previous one', async () => {
+            const { keywords, dateRange } = await service.getTracked(TENANT_ID);
+
+            expect(dateRange).toEqual({ from: '2026-03-08', to: '2026-03-14', previousFrom: '2026-03-01', previousTo: '2026-03-07' });
+            expect(keywords.find((k) => k.id === 'up')).toMatchObject({ position: 5, previousPosition: 12, change: 7, onTarget: true });
+            expect(keywords.find((k) => k.id === 'new')).toMatchObject({ position: 30, previousPosition: null, change: null });
+        });
+
+        it('should split winners and losers by position change', async () => {
+            const { winners, losers } = await service.getMovers(TENANT_ID);
+
+            expect(winners.map((k) => k.id)).toEqual(['up']);
+            expect(losers.map((k) => k.id)).toEqual(['down']);
+            expect(losers[0].change).toBe(-6);
+        });
+
+        it('should list keywords in striking distance', async () => {
+            const { keywords } = await service.getStrikingDistance(TENANT_ID);
+
+            expect(keywords.map((k) => k.id).sort()).toEqual(['down', 'up']);
+        });
+
+        it('should list keywords that stopped ranking', async () => {
+            const { keywords } = await service.getLost(TENANT_ID);
+
+            expect(keywords.map((k) => k.id)).toEqual(['gone']);
+            expect(keywords[0]).toMatchObject({ position: null, previousPosition: 7 });
+        });
+
+        it('should return keywords without positions before any history exists', async () => {
+            prisma.keywordRankHistory.aggregate.mockResolvedValue({ _max: { date: null } });
+
+            const { keywords, dateRange } = await service.getTracked(TENANT_ID);
+
+            expect(dateRange).toBeNull();
+            expect(keywords).toHaveLength(4);
+            expect(keywords.every((k) => k.position === null)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,406 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DateRangeUtil } from '../../common/utils/date-range.util';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { CreateTrackedKeywordsDto, TrackedKeywordQueryDto, UpdateTrackedKeywordDto } from './dto';
+
+/** Positions counted as "striking distance": close enough to page one to push */
+export const STRIKING_DISTANCE = { min: 4, max: 20 };
+
+/** Days of Search Console rows turned into history when keywords are added */
+const BACKFILL_DAYS = 90;
+
+export interface TrackedKeywordRow {
+    id: string;
+    keyword: string;
+    tags: string[];
+    targetUrl: string | null;
+    /** Impression-weighted average position in the current window; null when not ranking */
+    position: number | null;
+    previousPosition: number | null;
+    /** previousPosition - position: positive means the keyword moved up */
+    change: number | null;
+    clicks: number;
+    impressions: number;
+    /** Page ranking on the latest day with data */
+    rankingUrl: string | null;
+    /** Whether the ranking page is the target URL (null without a target or ranking) */
+    onTarget: boolean | null;
+}
+
+interface WindowTotals {
+    weightedPosition: number;
+    weight: number;
+    clicks: number;
+    impressions: number;
+    latestDate: string | null;
+    rankingUrl: string | null;
+}
+
+const emptyWindow = (): WindowTotals => ({
+    weightedPosition: 0,
+    weight: 0,
+    clicks: 0,
+    impressions: 0,
+    latestDate: null,
+    rankingUrl: null,
+});
+
+function normalizeKeyword(keyword: string): string {
+    return keyword.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function normalizeUrl(url: string): string {
+    return url.trim().replace(/[?#].*$/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function dayKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+}
+
+/**
+ * Keyword Tracking Service
+ *
+ * Tenants pick the queries they care about; daily positions are derived from the
+ * synced Search Console rows (all pages, devices and countries of the day, weighted
+ * by impressions). Reports compare the latest `days` with the `days` before them,
+ * both ending on the most recent day that has history so GSC reporting lag does
+ * not show up as a drop.
+ */
+@Injectable()
+export class KeywordTrackingService {
+    private readonly logger = new Logger(KeywordTrackingService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly tenantTimezone: TenantTimezoneService,
+    ) { }
+
+    // ========================================================================
+    // Tracked keyword list
+    // ========================================================================
+
+    async create(tenantId: string, dto: CreateTrackedKeywordsDto) {
+        const keywords = [...new Set(dto.keywords.map(normalizeKeyword).filter(Boolean))];
+        const tags = [...new Set((dto.tags ?? []).map((t) => t.trim()).filter(Boolean))];
+
+        const { count } = await this.prisma.trackedKeyword.createMany({
+            data: keywords.map((keyword) => ({ tenantId, keyword, tags, targetUrl: dto.targetUrl ?? null })),
+            skipDuplicates: true,
+        });
+
+        const tracked = await this.prisma.trackedKeyword.findMany({
+            where: { tenantId, keyword: { in: keywords } },
+            orderBy: { keyword: 'asc' },
+        });
+
+        await this.rebuildHistory(tenantId, BACKFILL_DAYS, tracked.map((k) => k.id));
+
+        return { created: count, skipped: keywords.length - count, keywords: tracked };
+    }
+
+    async update(tenantId: string, id: string, dto: UpdateTrackedKeywordDto) {
+        await this.findOne(tenantId, id);
+
+        return this.prisma.trackedKeyword.update({
+            where: { id },
+            data: {
+                ...(dto.tags ? { tags: [...new Set(dto.tags.map((t) => t.trim()).filter(Boolean))] } : {}),
+                ...(dto.targetUrl !== undefined ? { targetUrl: dto.targetUrl.trim() || null } : {}),
+            },
+        });
+    }
+
+    async remove(tenantId: string, id: string) {
+        await this.findOne(tenantId, id);
+        await this.prisma.trackedKeyword.delete({ where: { id } });
+        return { success: true };
+    }
+
+    async getHistory(tenantId: string, id: string, days = BACKFILL_DAYS) {
+        const keyword = await this.findOne(tenantId, id);
+        const latest = await this.latestHistoryDate(tenantId);
+
+        const history = latest
+            ? await this.prisma.keywordRankHistory.findMany({
+                where: {
+                    trackedKeywordId: id,
+                    date: { gte: DateRangeUtil.getPreviousPeriodDateRange(this.nextDay(latest), days).startDate, lte: latest },
+                },
+                orderBy: { date: 'asc' },
+            })
+            : [];
+
+        return {
+            keyword,
+            history: history.map((h) => ({
+                date: dayKey(h.date),
+                position: round(Number(h.position)),
+                clicks: h.clicks,
+                impressions: h.impressions,
+                rankingUrl: h.rankingUrl,
+            })),
+        };
+    }
+
+    // ========================================================================
+    // Reports
+    // ========================================================================
+
+    /**
+     * Every tracked keyword with its current and previous position
+     */
+    async getTracked(tenantId: string, query: TrackedKeywordQueryDto = {}) {
+        const { rows, dateRange } = await this.buildReport(tenantId, query);
+        return { keywords: rows, dateRange };
+    }
+
+    /**
+     * Largest position gains and drops between the two windows
+     */
+    async getMovers(tenantId: string, query: TrackedKeywordQueryDto = {}) {
+        const limit = query.limit ?? 20;
+        const { rows, dateRange } = await this.buildReport(tenantId, query);
+        const moved = rows.filter((r) => r.change !== null && r.change !== 0);
+
+        return {
+            winners: moved.filter((r) => r.change! > 0).sort((a, b) => b.change! - a.change!).slice(0, limit),
+            losers: moved.filter((r) => r.change! < 0).sort((a, b) => a.change! - b.change!).slice(0, limit),
+            dateRange,
+        };
+    }
+
+    /**
+     * Keywords ranking just below the top results, most impressions first
+     */
+    async getStrikingDistance(tenantId: string, query: TrackedKeywordQueryDto = {}) {
+        const { rows, dateRange } = await this.buildReport(tenantId, query);
+
+        return {
+            keywords: rows
+                .filter((r) => r.position !== null && r.position >= STRIKING_DISTANCE.min && r.position <= STRIKING_DISTANCE.max)
+                .sort((a, b) => b.impressions - a.impressions)
+                .slice(0, query.limit ?? 20),
+            range: STRIKING_DISTANCE,
+            dateRange,
+        };
+    }
+
+    /**
+     * Keywords that ranked in the previous window and have no impressions in the current one
+     */
+    async getLost(tenantId: string, query: TrackedKeywordQueryDto = {}) {
+        const { rows, dateRange } = await this.buildReport(tenantId, query);
+
+        return {
+            keywords: rows
+                .filter((r) => r.position === null && r.previousPosition !== null)
+                .sort((a, b) => a.previousPosition! - b.previousPosition!)
+                .slice(0, query.limit ?? 20),
+            dateRange,
+        };
+    }
+
+    // ========================================================================
+    // History
+    // ========================================================================
+
+    /**
+     * Recompute daily history for the last `days` days on the tenant calendar from
+     * the synced Search Console rows. Days without rows get no history (not ranking).
+     */
+    async rebuildHistory(tenantId: string, days = 30, keywordIds?: string[]): Promise<number> {
+        const tracked = await this.prisma.trackedKeyword.findMany({
+            where: { tenantId, ...(keywordIds ? { id: { in: keywordIds } } : {}) },
+            select: { id: true, keyword: true },
+        });
+        if (tracked.length === 0) return 0;
+
+        const { startDate, endDate } = DateRangeUtil.getDateRange(days, await this.tenantTimezone.getTimezone(tenantId));
+        const idByKeyword = new Map(tracked.map((k) => [k.keyword, k.id]));
+
+        const rows = await this.prisma.searchConsolePerformance.findMany({
+            where: {
+                tenantId,
+                date: { gte: startDate, lte: endDate },
+                query: { in: tracked.map((k) => k.keyword), mode: 'insensitive' },
+            },
+            select: { query: true, date: true, page: true, clicks: true, impressions: true, position: true },
+        });
+
+        const daily = new Map<string, {
+            trackedKeywordId: string;
+            date: Date;
+            weightedPosition: number;
+            weight: number;
+            clicks: number;
+            impressions: number;
+            pages: Map<string, { clicks: number; impressions: number }>;
+        }>();
+
+        for (const row of rows) {
+            const trackedKeywordId = idByKeyword.get(normalizeKeyword(row.query ?? ''));
+            if (!trackedKeywordId) continue;
+
+            const key = `${trackedKeywordId}|${dayKey(row.date)}`;
+            let day = daily.get(key);
+            if (!day) {
+                day = { trackedKeywordId, date: row.date, weightedPosition: 0, weight: 0, clicks: 0, impressions: 0, pages: new Map() };
+                daily.set(key, day);
+            }
+
+            const weight = Math.max(row.impressions, 1);
+            day.weightedPosition += Number(row.position) * weight;
+            day.weight += weight;
+            day.clicks += row.clicks;
+            day.impressions += row.impressions;
+
+            if (row.page) {
+                const page = day.pages.get(row.page) ?? { clicks: 0, impressions: 0 };
+                page.clicks += row.clicks;
+                page.impressions += row.impressions;
+                day.pages.set(row.page, page);
+            }
+        }
+
+        const data: Prisma.KeywordRankHistoryCreateManyInput[] = [...daily.values()].map((day) => {
+            const [rankingUrl] = [...day.pages.entries()]
+                .sort(([, a], [, b]) => b.clicks - a.clicks || b.impressions - a.impressions)
+                .map(([page]) => page);
+
+            return {
+                tenantId,
+                trackedKeywordId: day.trackedKeywordId,
+                date: day.date,
+                position: day.weightedPosition / day.weight,
+                clicks: day.clicks,
+                impressions: day.impressions,
+                rankingUrl: rankingUrl ?? null,
+            };
+        });
+
+        await this.prisma.$transaction([
+            this.prisma.keywordRankHistory.deleteMany({
+                where: {
+                    trackedKeywordId: { in: tracked.map((k) => k.id) },
+                    date: { gte: startDate, lte: endDate },
+                },
+            }),
+            this.prisma.keywordRankHistory.createMany({ data }),
+        ]);
+
+        this.logger.log(`[Keyword History] Tenant ${tenantId}: ${data.length} keyword-days for ${tracked.length} keywords`);
+        return data.length;
+    }
+
+    // ========================================================================
+    // Helpers
+    // ========================================================================
+
+    private async findOne(tenantId: string, id: string) {
+        const keyword = await this.prisma.trackedKeyword.findFirst({ where: { id, tenantId } });
+        if (!keyword) {
+            throw new NotFoundException('Tracked keyword not found');
+        }
+        return keyword;
+    }
+
+    private async latestHistoryDate(tenantId: string): Promise<Date | null> {
+        const latest = await this.prisma.keywordRankHistory.aggregate({
+            where: { tenantId },
+            _max: { date: true },
+        });
+        return latest._max.date;
+    }
+
+    private nextDay(date: Date): Date {
+        const next = new Date(date);
+        next.setUTCDate(next.getUTCDate() + 1);
+        return next;
+    }
+
+    private async buildReport(tenantId: string, query: TrackedKeywordQueryDto) {
+        const days = query.days ?? 7;
+
+        const keywords = await this.prisma.trackedKeyword.findMany({
+            where: { tenantId, ...(query.tag ? { tags: { has: query.tag } } : {}) },
+            orderBy: { keyword: 'asc' },
+        });
+
+        const latest = await this.latestHistoryDate(tenantId);
+        if (!latest) {
+            return { rows: keywords.map((k) => this.toRow(k, emptyWindow(), emptyWindow())), dateRange: null };
+        }
+
+        // Both windows end on the latest day with history
+        const current = DateRangeUtil.getPreviousPeriodDateRange(this.nextDay(latest), days);
+        const previous = DateRangeUtil.getPreviousPeriodDateRange(current.startDate, days);
+
+        const history = keywords.length
+            ? await this.prisma.keywordRankHistory.findMany({
+                where: {
+                    trackedKeywordId: { in: keywords.map((k) => k.id) },
+                    date: { gte: previous.startDate, lte: current.endDate },
+                },
+                orderBy: { date: 'asc' },
+            })
+            : [];
+
+        const windows = new Map<string, { current: WindowTotals; previous: WindowTotals }>();
+        for (const h of history) {
+            const entry = windows.get(h.trackedKeywordId) ?? { current: emptyWindow(), previous: emptyWindow() };
+            windows.set(h.trackedKeywordId, entry);
+
+            const totals = h.date >= current.startDate ? entry.current : entry.previous;
+            const weight = Math.max(h.impressions, 1);
+            totals.weightedPosition += Number(h.position) * weight;
+            totals.weight += weight;
+            totals.clicks += h.clicks;
+            totals.impressions += h.impressions;
+            totals.latestDate = dayKey(h.date);
+            totals.rankingUrl = h.rankingUrl;
+        }
+
+        return {
+            rows: keywords.map((k) => {
+                const entry = windows.get(k.id);
+                return this.toRow(k, entry?.current ?? emptyWindow(), entry?.previous ?? emptyWindow());
+            }),
+            dateRange: {
+                from: dayKey(current.startDate),
+                to: dayKey(current.endDate),
+                previousFrom: dayKey(previous.startDate),
+                previousTo: dayKey(previous.endDate),
+            },
+        };
+    }
+
+    private toRow(
+        keyword: { id: string; keyword: string; tags: string[]; targetUrl: string | null },
+        current: WindowTotals,
+        previous: WindowTotals,
+    ): TrackedKeywordRow {
+        const position = current.weight ? round(current.weightedPosition / current.weight) : null;
+        const previousPosition = previous.weight ? round(previous.weightedPosition / previous.weight) : null;
+        const rankingUrl = current.rankingUrl;
+
+        return {
+            id: keyword.id,
+            keyword: keyword.keyword,
+            tags: keyword.tags,
+            targetUrl: keyword.targetUrl,
+            position,
+            previousPosition,
+            change: position !== null && previousPosition !== null ? round(previousPosition - position) : null,
+            clicks: current.clicks,
+            impressions: current.impressions,
+            rankingUrl,
+            onTarget: keyword.targetUrl && rankingUrl ? normalizeUrl(keyword.targetUrl) === normalizeUrl(rankingUrl) : null,
+        };
+    }
+}
@@ -0,0 +1,70 @@
+import {
+    BadRequestException,
+    Body,
+    Controller,
+    Get,
+    Post,
+    Query,
+    UploadedFile,
+    UseGuards,
+    UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiConsumes, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { decodeCsvBuffer } from '../../common/utils/csv.util';
+import { OffpageImportService } from './offpage-import.service';
+import { BacklinkQueryDto, ImportOffpageDto } from './dto';
+
+const MAX_CSV_BYTES = 25 * 1024 * 1024;
+
+@ApiTags('SEO')
+@ApiBearerAuth()
+@Controller('seo')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('seo:read')
+export class OffpageImportController {
+    constructor(private readonly offpageImport: OffpageImportService) { }
+
+    @Post('offpage/import')
+    @RequirePermissions('seo:manage')
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_CSV_BYTES } }))
+    @ApiConsumes('multipart/form-data', 'application/json')
+    @ApiOperation({ summary: 'Import an Ahrefs/Semrush backlinks, referring domains, anchors or overview CSV export' })
+    @ApiResponse({ status: 201, description: 'Row counts, new/lost changes and per-row errors' })
+    async import(
+        @CurrentUser() user: any,
+        @UploadedFile() file: { buffer: Buffer; originalname?: string } | undefined,
+        @Body() dto: ImportOffpageDto,
+    ) {
+        const csv = file ? decodeCsvBuffer(file.buffer) : dto.csv;
+        if (!csv) {
+            throw new BadRequestException('Upload a CSV file or provide the csv field');
+        }
+        return this.offpageImport.import(
+            user.tenantId,
+            dto.type,
+            csv,
+            { date: dto.date, fileName: file?.originalname },
+            user.id,
+        );
+    }
+
+    @Get('offpage/imports')
+    @ApiOperation({ summary: 'List previous off-page imports' })
+    async getImports(@CurrentUser('tenantId') tenantId: string) {
+        return this.offpageImport.getImports(tenantId);
+    }
+
+    @Get('backlinks')
+    @ApiOperation({ summary: 'List live backlinks, or those found / lost by the latest import' })
+    async getBacklinks(
+        @CurrentUser('tenantId') tenantId: string,
+        @Query() query: BacklinkQueryDto,
+    ) {
+        return this.offpageImport.getBacklinks(tenantId, query);
+    }
+}
@@ -0,0 +1,307 @@
+import { createHash } from 'crypto';
+import { normalizeFieldKey } from '../../common/utils/csv.util';
+
+/**
+ * Column mapping for Ahrefs and Semrush off-page exports.
+ *
+ * Both tools rename columns between versions, so every field accepts a list of
+ * (normalized) header aliases. Rows are validated and deduplicated here; the
+ * import service only sees clean records.
+ */
+
+export const OFFPAGE_IMPORT_TYPES = ['backlinks', 'referring_domains', 'anchors', 'overview'] as const;
+export type OffpageImportType = typeof OFFPAGE_IMPORT_TYPES[number];
+export type OffpageExportSource = 'ahrefs' | 'semrush' | 'unknown';
+
+export interface ParsedBacklink {
+    linkHash: string;
+    sourceUrl: string;
+    targetUrl: string;
+    sourceDomain: string;
+    anchorText: string | null;
+    domainRating: number | null;
+    urlRating: number | null;
+    isDofollow: boolean;
+    firstSeenAt: Date | null;
+}
+
+export interface ParsedReferringDomain {
+    domain: string;
+    domainRating: number | null;
+    backlinks: number;
+    dofollowBacklinks: number;
+    firstSeenAt: Date | null;
+}
+
+export interface ParsedAnchor {
+    anchorText: string;
+    referringDomains: number;
+    backlinks: number;
+    dofollowBacklinks: number;
+    traffic: number;
+}
+
+export interface ParsedOverview {
+    /** YYYY-MM-DD from a date column; null means "the import date" */
+    date: string | null;
+    dr: number | null;
+    ur: number | null;
+    backlinks: number | null;
+    referringDomains: number | null;
+    keywords: number | null;
+    organicTraffic: number | null;
+    trafficValue: number | null;
+}
+
+export interface ParsedOffpageExport<T> {
+    source: OffpageExportSource;
+    records: T[];
+    duplicates: number;
+    errors: Array<{ row: number; message: string }>;
+}
+
+// Header aliases (normalized keys), Ahrefs first then Semrush
+const COLUMNS = {
+    sourceUrl: ['referring_page_url', 'source_url', 'url_from', 'referring_url'],
+    targetUrl: ['target_url', 'url_to', 'link_url'],
+    anchor: ['anchor', 'anchor_text'],
+    domain: ['domain', 'referring_domain', 'root_domain', 'source_domain'],
+    domainRating: ['domain_rating', 'dr', 'domain_ascore', 'authority_score', 'ascore', 'page_ascore'],
+    urlRating: ['url_rating', 'ur', 'ur_desc'],
+    nofollow: ['nofollow'],
+    linkType: ['type', 'link_type'],
+    firstSeen: ['first_seen', 'first_seen_date'],
+    backlinks: ['links_to_target', 'backlinks', 'total_backlinks', 'live_backlinks', 'links'],
+    dofollowBacklinks: ['dofollow_links', 'dofollow_backlinks', 'dofollow', 'follow_links'],
+    referringDomains: ['referring_domains', 'ref_domains', 'domains'],
+    traffic: ['traffic', 'organic_traffic'],
+    keywords: ['organic_keywords', 'keywords'],
+    trafficValue: ['traffic_value', 'organic_traffic_value', 'organic_cost', 'traffic_cost'],
+    date: ['date'],
+} as const;
+
+const AHREFS_HINTS = ['referring_page_url', 'domain_rating', 'url_rating', 'links_to_target', 'dr', 'ur'];
+const SEMRUSH_HINTS = ['source_url', 'page_ascore', 'domain_ascore', 'authority_score', 'ascore'];
+
+type Column = keyof typeof COLUMNS;
+
+class ExportRow {
+    constructor(
+        private readonly values: Map<string, string>,
+        readonly row: number,
+    ) { }
+
+    text(column: Column): string | null {
+        for (const key of COLUMNS[column]) {
+            const value = this.values.get(key);
+            if (value !== undefined && value.trim() !== '') return value.trim();
+        }
+        return null;
+    }
+
+    number(column: Column): number | null {
+        const value = this.text(column);
+        if (value === null) return null;
+        const parsed = Number(value.replace(/[\s,]/g, ''));
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+
+    date(column: Column): Date | null {
+        const value = this.text(column);
+        if (value === null) return null;
+        const parsed = new Date(value.length === 10 ? `${value}T00:00:00.000Z` : value);
+        if (isNaN(parsed.getTime())) return null;
+        parsed.setUTCHours(0, 0, 0, 0);
+        return parsed;
+    }
+}
+
+/**
+ * Check the header against the expected columns and wrap each data row
+ */
+function readRows(rows: Record<string, string>[], required: Column[], label: string) {
+    const headers = new Set(Object.keys(rows[0] ?? {}).map(normalizeFieldKey));
+    const missing = required.filter((column) => !COLUMNS[column].some((key) => headers.has(key)));
+    if (missing.length > 0) {
+        const expected = missing.map((column) => `"${COLUMNS[column][0]}"`).join(', ');
+        throw new Error(`This does not look like a ${label} export: missing ${expected} column(s)`);
+    }
+
+    const hints = [...headers];
+    const source: OffpageExportSource = hints.some((h) => AHREFS_HINTS.includes(h))
+        ? 'ahrefs'
+        : hints.some((h) => SEMRUSH_HINTS.includes(h)) ? 'semrush' : 'unknown';
+
+    const wrapped = rows.map((record, index) => new ExportRow(
+        new Map(Object.entries(record).map(([key, value]) => [normalizeFieldKey(key), value])),
+        // Row numbers are 1-based and account for the header line
+        index + 2,
+    ));
+
+    return { source, rows: wrapped };
+}
+
+function parseHttpUrl(value: string | null): URL | null {
+    if (!value) return null;
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Host without "www.", lower-cased. Accepts bare domains as well as URLs.
+ */
+export function normalizeDomain(value: string): string | null {
+    const url = parseHttpUrl(/^https?:\/\//i.test(value) ? value : `http://${value}`);
+    if (!url || !url.hostname.includes('.')) return null;
+    return url.hostname.toLowerCase().replace(/^www\./, '');
+}
+
+function urlKey(url: URL): string {
+    return `${url.hostname.toLowerCase()}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+}
+
+function dedupe<T>(items: Array<{ key: string; record: T }>): { records: T[]; duplicates: number } {
+    const byKey = new Map<string, T>();
+    for (const { key, record } of items) {
+        if (!byKey.has(key)) byKey.set(key, record);
+    }
+    return { records: [...byKey.values()], duplicates: items.length - byKey.size };
+}
+
+export function parseBacklinksExport(rows: Record<string, string>[]): ParsedOffpageExport<ParsedBacklink> {
+    const { source, rows: exportRows } = readRows(rows, ['sourceUrl', 'targetUrl'], 'backlinks');
+    const errors: ParsedOffpageExport<ParsedBacklink>['errors'] = [];
+    const items: Array<{ key: string; record: ParsedBacklink }> = [];
+
+    for (const row of exportRows) {
+        const sourceUrl = parseHttpUrl(row.text('sourceUrl'));
+        const targetUrl = parseHttpUrl(row.text('targetUrl'));
+        if (!sourceUrl || !targetUrl) {
+            errors.push({ row: row.row, message: 'Referring page and target must be http(s) URLs' });
+            continue;
+        }
+
+        const nofollow = row.text('nofollow');
+        const linkType = row.text('linkType');
+        const isDofollow = nofollow !== null
+            ? !/^(true|yes|1)$/i.test(nofollow)
+            : !(linkType && /nofollow/i.test(linkType));
+
+        const key = `${urlKey(sourceUrl)}|${urlKey(targetUrl)}`;
+        items.push({
+            key,
+            record: {
+                linkHash: createHash('sha256').update(key).digest('hex'),
+                sourceUrl: sourceUrl.toString(),
+                targetUrl: targetUrl.toString(),
+                sourceDomain: sourceUrl.hostname.toLowerCase().replace(/^www\./, ''),
+                anchorText: row.text('anchor'),
+                domainRating: row.number('domainRating'),
+                urlRating: row.number('urlRating'),
+                isDofollow,
+                firstSeenAt: row.date('firstSeen'),
+            },
+        });
+    }
+
+    return { source, errors, ...dedupe(items) };
+}
+
+export function parseReferringDomainsExport(rows: Record<string, string>[]): ParsedOffpageExport<ParsedReferringDomain> {
+    const { source, rows: exportRows } = readRows(rows, ['domain'], 'referring domains');
+    const errors: ParsedOffpageExport<ParsedReferringDomain>['errors'] = [];
+    const items: Array<{ key: string; record: ParsedReferringDomain }> = [];
+
+    for (const row of exportRows) {
+        const domain = normalizeDomain(row.text('domain') ?? '');
+        if (!domain) {
+            errors.push({ row: row.row, message: 'Missing or invalid domain' });
+            continue;
+        }
+
+        const backlinks = Math.max(0, Math.round(row.number('backlinks') ?? 0));
+        items.push({
+            key: domain,
+            record: {
+                domain,
+                domainRating: row.number('domainRating'),
+                backlinks,
+                dofollowBacklinks: Math.min(backlinks, Math.max(0, Math.round(row.number('dofollowBacklinks') ?? backlinks))),
+                firstSeenAt: row.date('firstSeen'),
+            },
+        });
+    }
+
+    return { source, errors, ...dedupe(items) };
+}
+
+export function parseAnchorsExport(rows: Record<string, string>[]): ParsedOffpageExport<ParsedAnchor> {
+    const { source, rows: exportRows } = readRows(rows, ['anchor'], 'anchors');
+    const errors: ParsedOffpageExport<ParsedAnchor>['errors'] = [];
+    const items: Array<{ key: string; record: ParsedAnchor }> = [];
+
+    for (const row of exportRows) {
+        const anchorText = row.text('anchor')?.replace(/\s+/g, ' ').slice(0, 255);
+        const referringDomains = row.number('referringDomains');
+        const backlinks = row.number('backlinks');
+        if (!anchorText) {
+            errors.push({ row: row.row, message: 'Missing anchor text' });
+            continue;
+        }
+        if (referringDomains === null && backlinks === null) {
+            errors.push({ row: row.row, message: 'Missing referring domains / backlinks count' });
+            continue;
+        }
+
+        const total = Math.max(0, Math.round(backlinks ?? 0));
+        items.push({
+            key: anchorText.toLowerCase(),
+            record: {
+                anchorText,
+                referringDomains: Math.max(0, Math.round(referringDomains ?? 0)),
+                backlinks: total,
+                dofollowBacklinks: Math.min(total, Math.max(0, Math.round(row.number('dofollowBacklinks') ?? total))),
+                traffic: Math.max(0, Math.round(row.number('traffic') ?? 0)),
+            },
+        });
+    }
+
+    return { source, errors, ...dedupe(items) };
+}
+
+export function parseOverviewExport(rows: Record<string, string>[]): ParsedOffpageExport<ParsedOverview> {
+    const { source, rows: exportRows } = readRows(rows, [], 'overview');
+    const errors: ParsedOffpageExport<ParsedOverview>['errors'] = [];
+    const items: Array<{ key: string; record: ParsedOverview }> = [];
+
+    for (const row of exportRows) {
+        const date = row.date('date');
+        if (row.text('date') !== null && !date) {
+            errors.push({ row: row.row, message: 'Invalid date' });
+            continue;
+        }
+
+        const record: ParsedOverview = {
+            date: date ? date.toISOString().split('T')[0] : null,
+            dr: row.number('domainRating'),
+            ur: row.number('urlRating'),
+            backlinks: row.number('backlinks'),
+            referringDomains: row.number('referringDomains'),
+            keywords: row.number('keywords'),
+            organicTraffic: row.number('traffic'),
+            trafficValue: row.number('trafficValue'),
+        };
+        if (Object.entries(record).every(([key, value]) => key === 'date' || value === null)) {
+            errors.push({ row: row.row, message: 'Row has no recognised metric' });
+            continue;
+        }
+
+        items.push({ key: record.date ?? '', record });
+    }
+
+    return { source, errors, ...dedupe(items) };
+}
@@ -0,0 +1,215 @@
+/**
+ * Off-page Import Unit Tests
+ * @module offpage-import.service.spec
+ * @description Ahrefs / Semrush CSV exports feeding the off-page tables:
+ *   - UTF-16 tab-separated (Ahrefs) and semicolon (Semrush) files are read
+ *   - Rows are validated and deduplicated before anything is written
+ *   - Backlinks / referring domains missing from a new export are lost, unseen ones are new
+ *   - Anchors replace the day's rows; overview rows carry other metrics forward
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { OffpageImportService } from './offpage-import.service';
+import { parseBacklinksExport } from './offpage-import.parser';
+import { PrismaService } from '../prisma/prisma.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { decodeCsvBuffer, parseCsv } from '../../common/utils/csv.util';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const IMPORT_DATE = '2026-03-10';
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+const AHREFS_HEADER = ['Referring page URL', 'Domain rating', 'UR', 'Target URL', 'Anchor', 'Nofollow', 'First seen'];
+const ahrefsRow = (source: string, anchor = 'shoes', nofollow = 'false') =>
+    [source, '55', '12', 'https://shop.example.com/', anchor, nofollow, '2026-01-05'];
+
+/** Ahrefs "Excel" exports: UTF-16LE with a BOM, tab separated */
+const ahrefsFile = (rows: string[][]) =>
+    Buffer.concat([
+        Buffer.from([0xff, 0xfe]),
+        Buffer.from([AHREFS_HEADER, ...rows].map((r) => r.join('\t')).join('\r\n'), 'utf16le'),
+    ]);
+
+const hashOf = (source: string) =>
+    parseBacklinksExport(parseCsv(`Source url,Target url\n${source},https://shop.example.com/`)).records[0].linkHash;
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('OffpageImportService', () => {
+    let service: OffpageImportService;
+    let prisma: {
+        seoBacklink: { findMany: jest.Mock; count: jest.Mock; createMany: jest.Mock; updateMany: jest.Mock; update: jest.Mock };
+        seoReferringDomain: { findMany: jest.Mock; count: jest.Mock; createMany: jest.Mock; updateMany: jest.Mock; update: jest.Mock };
+        seoAnchorText: { deleteMany: jest.Mock; createMany: jest.Mock };
+        seoOffpageMetricSnapshots: { findFirst: jest.Mock; upsert: jest.Mock };
+        seoOffpageImport: { create: jest.Mock; findFirst: jest.Mock };
+        $transaction: jest.Mock;
+    };
+
+    const tableMock = () => ({
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        createMany: jest.fn(),
+        updateMany: jest.fn(),
+        update: jest.fn(),
+    });
+
+    beforeEach(async () => {
+        prisma = {
+            seoBacklink: tableMock(),
+            seoReferringDomain: tableMock(),
+            seoAnchorText: { deleteMany: jest.fn(), createMany: jest.fn() },
+            seoOffpageMetricSnapshots: { findFirst: jest.fn().mockResolvedValue(null), upsert: jest.fn() },
+            seoOffpageImport: { create: jest.fn().mockResolvedValue({ id: 'import-001' }), findFirst: jest.fn().mockResolvedValue(null) },
+            $transaction: jest.fn(async (ops: unknown[]) => ops),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                OffpageImportService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: TenantTimezoneService, useValue: { getTimezone: jest.fn().mockResolvedValue('Asia/Bangkok') } },
+            ],
+        }).compile();
+
+        service = module.get(OffpageImportService);
+    });
+
+    describe('backlinks', () => {
+        it('should mark missing links lost and unseen links new', async () => {
+            prisma.seoBacklink.findMany
+                .mockResolvedValueOnce([
+                    { id: 'kept', linkHash: hashOf('https://blog.a.com/post'), lostAt: null, anchorText: 'shoes', domainRating: 55, urlRating: 12, isDofollow: true },
+                    { id: 'gone', linkHash: hashOf('https://b.com/page'), lostAt: null, anchorText: 'x', domainRating: 10, urlRating: 1, isDofollow: true },
+                    { id: 'back', linkHash: hashOf('https://c.com/'), lostAt: day('2026-02-01'), anchorText: 'shoes', domainRating: 55, urlRating: 12, isDofollow: true },
+                ])
+                // live links after the write, then links lost on the import date
+                .mockResolvedValueOnce([
+                    { sourceDomain: 'blog.a.com', foundAt: day('2026-01-01') },
+                    { sourceDomain: 'c.com', foundAt: day(IMPORT_DATE) },
+                    { sourceDomain: 'd.com', foundAt: day(IMPORT_DATE) },
+                ])
+                .mockResolvedValueOnce([{ sourceDomain: 'b.com' }]);
+            prisma.seoBacklink.count.mockResolvedValue(2);
+
+            const csv = decodeCsvBuffer(ahrefsFile([
+                ahrefsRow('https://blog.a.com/post'),
+                ahrefsRow('https://c.com/'),
+                ahrefsRow('https://www.d.com/new', 'buy shoes', 'true'),
+                ahrefsRow('https://www.d.com/new/', 'buy shoes', 'true'),
+                ahrefsRow('not-a-url'),
+            ]));
+
+            const result = await service.import(TENANT_ID, 'backlinks', csv, { date: IMPORT_DATE });
+
+            expect(result).toMatchObject({ source: 'ahrefs', total: 5, imported: 3, duplicates: 1, skipped: 1, new: 2, lost: 1 });
+            expect(result.errors).toEqual([{ row: 6, message: expect.stringContaining('http(s)') }]);
+
+            const created = prisma.seoBacklink.createMany.mock.calls[0][0].data;
+            expect(created).toHaveLength(1);
+            expect(created[0]).toMatchObject({
+                sourceDomain: 'd.com',
+                anchorText: 'buy shoes',
+                isDofollow: false,
+                domainRating: 55,
+                foundAt: day(IMPORT_DATE),
+                firstSeenAt: day('2026-01-05'),
+            });
+
+            const updates = prisma.seoBacklink.updateMany.mock.calls.map(([args]) => args);
+            expect(updates).toContainEqual({ where: { id: { in: ['kept'] } }, data: { lastSeenAt: day(IMPORT_DATE), lostAt: null } });
+            expect(updates).toContainEqual({ where: { id: { in: ['back'] } }, data: { foundAt: day(IMPORT_DATE), lastSeenAt: day(IMPORT_DATE), lostAt: null } });
+            expect(updates).toContainEqual({ where: { id: { in: ['gone'] } }, data: { lostAt: day(IMPORT_DATE) } });
+
+            expect(prisma.seoOffpageMetricSnapshots.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                where: { seo_offpage_unique: { tenantId: TENANT_ID, date: day(IMPORT_DATE) } },
+                update: {
+                    backlinks: 3,
+                    newBacklinks: 2,
+                    lostBacklinks: 1,
+                    referringDomains: 3,
+                    newReferringDomains: 2,
+                    lostReferringDomains: 1,
+                },
+            }));
+        });
+
+        it('should reject a file without the backlink columns', async () => {
+            await expect(service.import(TENANT_ID, 'backlinks', 'Domain,Backlinks\na.com,3', { date: IMPORT_DATE }))
+                .rejects.toThrow('missing "referring_page_url", "target_url"');
+            expect(prisma.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should not import before the latest backlinks import', async () => {
+            prisma.seoOffpageImport.findFirst.mockResolvedValue({ date: day('2026-03-12') });
+
+            await expect(service.import(TENANT_ID, 'backlinks', 'Source url,Target url\nhttps://a.com,https://b.com', { date: IMPORT_DATE }))
+                .rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('referring domains', () => {
+        it('should read Semrush semicolon exports and diff the domain list', async () => {
+            prisma.seoReferringDomain.findMany.mockResolvedValue([
+                { id: 'rd-a', domain: 'a.com', lostAt: null },
+                { id: 'rd-z', domain: 'z.com', lostAt: null },
+            ]);
+            prisma.seoReferringDomain.count
+                .mockResolvedValueOnce(2) // live
+                .mockResolvedValueOnce(1) // found today
+                .mockResolvedValueOnce(1); // lost today
+
+            const csv = 'Domain;Domain ascore;Backlinks;First seen\nwww.a.com;40;12;2025-12-01\nhttps://new.io/;22;3;2026-03-09\nA.com;40;12;2025-12-01';
+            const result = await service.import(TENANT_ID, 'referring_domains', csv, { date: IMPORT_DATE });
+
+            expect(result).toMatchObject({ source: 'semrush', imported: 2, duplicates: 1, new: 1, lost: 1 });
+            expect(prisma.seoReferringDomain.createMany.mock.calls[0][0].data).toEqual([
+                expect.objectContaining({ domain: 'new.io', domainRating: 22, backlinks: 3, foundAt: day(IMPORT_DATE) }),
+            ]);
+            expect(prisma.seoReferringDomain.updateMany).toHaveBeenCalledWith({ where: { id: { in: ['rd-z'] } }, data: { lostAt: day(IMPORT_DATE) } });
+            expect(prisma.seoOffpageMetricSnapshots.upsert.mock.calls[0][0].update).toEqual({
+                referringDomains: 2,
+                newReferringDomains: 1,
+                lostReferringDomains: 1,
+            });
+        });
+    });
+
+    describe('anchors and overview', () => {
+        it('should replace the day anchors with traffic shares', async () => {
+            const csv = 'Anchor,Referring domains,Links to target,Dofollow links,Traffic\nrunning shoes,10,40,30,75\nshop,4,6,6,25\n,1,1,1,0';
+
+            const result = await service.import(TENANT_ID, 'anchors', csv, { date: IMPORT_DATE });
+
+            expect(result).toMatchObject({ imported: 2, skipped: 1 });
+            expect(prisma.seoAnchorText.deleteMany).toHaveBeenCalledWith({ where: { tenantId: TENANT_ID, date: day(IMPORT_DATE) } });
+            expect(prisma.seoAnchorText.createMany.mock.calls[0][0].data[0]).toMatchObject({
+                anchorText: 'running shoes',
+                referringDomains: 10,
+                totalBacklinks: 40,
+                dofollowBacklinks: 30,
+                trafficPercentage: 75,
+            });
+        });
+
+        it('should start a new snapshot from the previous day metrics', async () => {
+            prisma.seoOffpageMetricSnapshots.findFirst.mockResolvedValue({
+                ur: 20, dr: 41, backlinks: 900, referringDomains: 120, keywords: 300, trafficCost: 50, organicTraffic: 800, organicTrafficValue: 50,
+            });
+
+            await service.import(TENANT_ID, 'overview', 'Domain Rating,Organic keywords,Organic traffic,Traffic value\n43,"1,250",900,120', { date: IMPORT_DATE });
+
+            const { create, update } = prisma.seoOffpageMetricSnapshots.upsert.mock.calls[0][0];
+            expect(update).toEqual({ dr: 43, keywords: 1250, organicTraffic: 900, organicTrafficValue: 120, trafficCost: 120 });
+            expect(create).toMatchObject({ ur: 20, dr: 43, backlinks: 900, referringDomains: 120, keywords: 1250 });
+            expect(create).not.toHaveProperty('newBacklinks');
+        });
+    });
+});
@@ -0,0 +1,450 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { TimezoneUtil } from '../../common/utils/timezone.util';
+import { parseCsv } from '../../common/utils/csv.util';
+import { BacklinkQueryDto, OffpageImportResult } from './dto';
+import {
+    OffpageImportType,
+    ParsedAnchor,
+    ParsedBacklink,
+    ParsedOffpageExport,
+    ParsedOverview,
+    ParsedReferringDomain,
+    parseAnchorsExport,
+    parseBacklinksExport,
+    parseOverviewExport,
+    parseReferringDomainsExport,
+} from './offpage-import.parser';
+
+const MAX_IMPORT_ROWS = 100000;
+/** Rows per createMany / ids per updateMany, well below the Postgres bind parameter limit */
+const WRITE_CHUNK = 1000;
+
+type SnapshotFields = Partial<Pick<
+    Prisma.SeoOffpageMetricSnapshotsUncheckedCreateInput,
+    | 'ur' | 'dr' | 'backlinks' | 'referringDomains' | 'keywords' | 'trafficCost' | 'organicTraffic' | 'organicTrafficValue'
+    | 'newBacklinks' | 'lostBacklinks' | 'newReferringDomains' | 'lostReferringDomains'
+>>;
+
+const chunk = <T>(items: T[], size = WRITE_CHUNK): T[][] =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Off-page data from Ahrefs / Semrush CSV exports
+ *
+ * Backlink and referring-domain exports are treated as complete lists: anything
+ * live before and missing from the new file is marked lost on the import date,
+ * anything not live before is new. Anchors replace that day's anchor rows and
+ * overview rows set authority/traffic metrics. Every import also writes the
+ * day's SeoOffpageMetricSnapshots row, carrying forward metrics it doesn't cover.
+ */
+@Injectable()
+export class OffpageImportService {
+    private readonly logger = new Logger(OffpageImportService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly tenantTimezone: TenantTimezoneService,
+    ) { }
+
+    async import(
+        tenantId: string,
+        type: OffpageImportType,
+        csv: string,
+        options: { date?: string; fileName?: string } = {},
+        userId?: string,
+    ): Promise<OffpageImportResult> {
+        const rows = parseCsv(csv);
+        if (rows.length === 0) {
+            throw new BadRequestException('CSV has no data rows');
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            throw new BadRequestException(`CSV has ${rows.length} rows; the limit is ${MAX_IMPORT_ROWS} per import`);
+        }
+
+        const date = await this.resolveImportDate(tenantId, type, options.date);
+        const parsed = this.parse(type, rows);
+
+        let changes = { imported: parsed.records.length, new: 0, lost: 0 };
+        switch (type) {
+            case 'backlinks':
+                changes = await this.importBacklinks(tenantId, date, parsed.records as ParsedBacklink[]);
+                break;
+            case 'referring_domains':
+                changes = await this.importReferringDomains(tenantId, date, parsed.records as ParsedReferringDomain[]);
+                break;
+            case 'anchors':
+                await this.importAnchors(tenantId, date, parsed.records as ParsedAnchor[]);
+                break;
+            case 'overview':
+                await this.importOverview(tenantId, date, parsed.records as ParsedOverview[]);
+                break;
+        }
+
+        const record = await this.prisma.seoOffpageImport.create({
+            data: {
+                tenantId,
+                type,
+                source: parsed.source,
+                date,
+                fileName: options.fileName?.slice(0, 255),
+                createdBy: userId,
+                totalRows: rows.length,
+                importedRows: changes.imported,
+                duplicateRows: parsed.duplicates,
+                skippedRows: parsed.errors.length,
+                newCount: changes.new,
+                lostCount: changes.lost,
+            },
+        });
+
+        this.logger.log(
+            `Imported ${type} (${parsed.source}) for tenant ${tenantId} on ${dayKey(date)}: `
+            + `${changes.imported} rows, ${changes.new} new, ${changes.lost} lost`,
+        );
+
+        return {
+            importId: record.id,
+            type,
+            source: parsed.source,
+            date: dayKey(date),
+            total: rows.length,
+            imported: changes.imported,
+            duplicates: parsed.duplicates,
+            skipped: parsed.errors.length,
+            new: changes.new,
+            lost: changes.lost,
+            errors: parsed.errors,
+        };
+    }
+
+    async getImports(tenantId: string, limit = 50) {
+        return this.prisma.seoOffpageImport.findMany({
+            where: { tenantId },
+            orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+            take: limit,
+        });
+    }
+
+    /**
+     * Live backlinks, or the ones found / lost by the latest backlinks import
+     */
+    async getBacklinks(tenantId: string, query: BacklinkQueryDto = {}) {
+        const status = query.status ?? 'live';
+        const latest = await this.prisma.seoOffpageImport.findFirst({
+            where: { tenantId, type: 'backlinks' },
+            orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+            select: { date: true },
+        });
+        if (!latest) {
+            return { date: null, status, total: 0, backlinks: [] };
+        }
+
+        const where: Prisma.SeoBacklinkWhereInput = { tenantId };
+        if (status === 'live') where.lostAt = null;
+        if (status === 'new') Object.assign(where, { foundAt: latest.date, lostAt: null });
+        if (status === 'lost') where.lostAt = latest.date;
+
+        const [total, backlinks] = await Promise.all([
+            this.prisma.seoBacklink.count({ where }),
+            this.prisma.seoBacklink.findMany({
+                where,
+                orderBy: [{ domainRating: { sort: 'desc', nulls: 'last' } }, { sourceUrl: 'asc' }],
+                skip: query.offset ?? 0,
+                take: query.limit ?? 100,
+                select: {
+                    id: true,
+                    sourceUrl: true,
+                    targetUrl: true,
+                    sourceDomain: true,
+                    anchorText: true,
+                    domainRating: true,
+                    urlRating: true,
+                    isDofollow: true,
+                    firstSeenAt: true,
+                    foundAt: true,
+                    lastSeenAt: true,
+                    lostAt: true,
+                },
+            }),
+        ]);
+
+        return { date: dayKey(latest.date), status, total, backlinks };
+    }
+
+    // ========================================================================
+    // Import types
+    // ========================================================================
+
+    private parse(type: OffpageImportType, rows: Record<string, string>[]): ParsedOffpageExport<unknown> {
+        try {
+            switch (type) {
+                case 'backlinks': return parseBacklinksExport(rows);
+                case 'referring_domains': return parseReferringDomainsExport(rows);
+                case 'anchors': return parseAnchorsExport(rows);
+                case 'overview': return parseOverviewExport(rows);
+            }
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    private async importBacklinks(tenantId: string, date: Date, links: ParsedBacklink[]) {
+        const existing = await this.prisma.seoBacklink.findMany({
+            where: { tenantId },
+            select: { id: true, linkHash: true, lostAt: true, anchorText: true, domainRating: true, urlRating: true, isDofollow: true },
+        });
+        const byHash = new Map(existing.map((link) => [link.linkHash, link]));
+        const incoming = new Set(links.map((link) => link.linkHash));
+
+        const creates: Prisma.SeoBacklinkCreateManyInput[] = [];
+        const seenIds: string[] = [];
+        const foundAgainIds: string[] = [];
+        const updates: Prisma.PrismaPromise<unknown>[] = [];
+
+        for (const link of links) {
+            const previous = byHash.get(link.linkHash);
+            if (!previous) {
+                creates.push({ tenantId, ...link, foundAt: date, lastSeenAt: date });
+                continue;
+            }
+
+            this.classifySeen(previous.lostAt, date, previous.id, seenIds, foundAgainIds);
+            if (
+                previous.anchorText !== link.anchorText
+                || previous.domainRating !== link.domainRating
+                || previous.urlRating !== link.urlRating
+                || previous.isDofollow !== link.isDofollow
+            ) {
+                updates.push(this.prisma.seoBacklink.update({
+                    where: { id: previous.id },
+                    data: {
+                        anchorText: link.anchorText,
+                        domainRating: link.domainRating,
+                        urlRating: link.urlRating,
+                        isDofollow: link.isDofollow,
+                    },
+                }));
+            }
+        }
+
+        const lostIds = existing.filter((link) => !link.lostAt && !incoming.has(link.linkHash)).map((link) => link.id);
+
+        await this.prisma.$transaction([
+            ...chunk(creates).map((data) => this.prisma.seoBacklink.createMany({ data, skipDuplicates: true })),
+            ...chunk(seenIds).map((ids) => this.prisma.seoBacklink.updateMany({
+                where: { id: { in: ids } },
+                data: { lastSeenAt: date, lostAt: null },
+            })),
+            ...chunk(foundAgainIds).map((ids) => this.prisma.seoBacklink.updateMany({
+                where: { id: { in: ids } },
+                data: { foundAt: date, lastSeenAt: date, lostAt: null },
+            })),
+            ...chunk(lostIds).map((ids) => this.prisma.seoBacklink.updateMany({
+                where: { id: { in: ids } },
+                data: { lostAt: date },
+            })),
+            ...updates,
+        ]);
+
+        const [live, found, lost] = await Promise.all([
+            this.prisma.seoBacklink.findMany({ where: { tenantId, lostAt: null }, select: { sourceDomain: true, foundAt: true } }),
+            this.prisma.seoBacklink.count({ where: { tenantId, foundAt: date, lostAt: null } }),
+            this.prisma.seoBacklink.findMany({ where: { tenantId, lostAt: date }, select: { sourceDomain: true } }),
+        ]);
+
+        const snapshot: SnapshotFields = { backlinks: live.length, newBacklinks: found, lostBacklinks: lost.length };
+
+        // Without a referring-domains export, derive the domain counts from the links
+        const hasDomainImports = await this.prisma.seoReferringDomain.count({ where: { tenantId } }) > 0;
+        if (!hasDomainImports) {
+            const liveDomains = new Set(live.map((link) => link.sourceDomain));
+            const domainsBefore = new Set([
+                ...live.filter((link) => link.foundAt < date).map((link) => link.sourceDomain),
+                ...lost.map((link) => link.sourceDomain),
+            ]);
+            snapshot.referringDomains = liveDomains.size;
+            snapshot.newReferringDomains = [...liveDomains].filter((domain) => !domainsBefore.has(domain)).length;
+            snapshot.lostReferringDomains = new Set(lost.map((link) => link.sourceDomain).filter((domain) => !liveDomains.has(domain))).size;
+        }
+
+        await this.writeSnapshot(tenantId, date, snapshot);
+        return { imported: links.length, new: found, lost: lost.length };
+    }
+
+    private async importReferringDomains(tenantId: string, date: Date, domains: ParsedReferringDomain[]) {
+        const existing = await this.prisma.seoReferringDomain.findMany({
+            where: { tenantId },
+            select: { id: true, domain: true, lostAt: true },
+        });
+        const byDomain = new Map(existing.map((row) => [row.domain, row]));
+        const incoming = new Set(domains.map((row) => row.domain));
+
+        const creates: Prisma.SeoReferringDomainCreateManyInput[] = [];
+        const seenIds: string[] = [];
+        const foundAgainIds: string[] = [];
+        const updates: Prisma.PrismaPromise<unknown>[] = [];
+
+        for (const row of domains) {
+            const previous = byDomain.get(row.domain);
+            if (!previous) {
+                creates.push({ tenantId, ...row, foundAt: date, lastSeenAt: date });
+                continue;
+            }
+
+            this.classifySeen(previous.lostAt, date, previous.id, seenIds, foundAgainIds);
+            updates.push(this.prisma.seoReferringDomain.update({
+                where: { id: previous.id },
+                data: { domainRating: row.domainRating, backlinks: row.backlinks, dofollowBacklinks: row.dofollowBacklinks },
+            }));
+        }
+
+        const lostIds = existing.filter((row) => !row.lostAt && !incoming.has(row.domain)).map((row) => row.id);
+
+        await this.prisma.$transaction([
+            ...chunk(creates).map((data) => this.prisma.seoReferringDomain.createMany({ data, skipDuplicates: true })),
+            ...chunk(seenIds).map((ids) => this.prisma.seoReferringDomain.updateMany({
+                where: { id: { in: ids } },
+                data: { lastSeenAt: date, lostAt: null },
+            })),
+            ...chunk(foundAgainIds).map((ids) => this.prisma.seoReferringDomain.updateMany({
+                where: { id: { in: ids } },
+                data: { foundAt: date, lastSeenAt: date, lostAt: null },
+            })),
+            ...chunk(lostIds).map((ids) => this.prisma.seoReferringDomain.updateMany({
+                where: { id: { in: ids } },
+                data: { lostAt: date },
+            })),
+            ...updates,
+        ]);
+
+        const [live, found, lost] = await Promise.all([
+            this.prisma.seoReferringDomain.count({ where: { tenantId, lostAt: null } }),
+            this.prisma.seoReferringDomain.count({ where: { tenantId, foundAt: date, lostAt: null } }),
+            this.prisma.seoReferringDomain.count({ where: { tenantId, lostAt: date } }),
+        ]);
+
+        await this.writeSnapshot(tenantId, date, {
+            referringDomains: live,
+            newReferringDomains: found,
+            lostReferringDomains: lost,
+        });
+        return { imported: domains.length, new: found, lost };
+    }
+
+    private async importAnchors(tenantId: string, date: Date, anchors: ParsedAnchor[]) {
+        const totalTraffic = anchors.reduce((sum, anchor) => sum + anchor.traffic, 0);
+
+        await this.prisma.$transaction([
+            this.prisma.seoAnchorText.deleteMany({ where: { tenantId, date } }),
+            ...chunk(anchors).map((batch) => this.prisma.seoAnchorText.createMany({
+                data: batch.map((anchor) => ({
+                    tenantId,
+                    date,
+                    anchorText: anchor.anchorText,
+                    domains: anchor.referringDomains,
+                    referringDomains: anchor.referringDomains,
+                    totalBacklinks: anchor.backlinks,
+                    dofollowBacklinks: anchor.dofollowBacklinks,
+                    traffic: anchor.traffic,
+                    trafficPercentage: totalTraffic > 0 ? Number(((anchor.traffic / totalTraffic) * 100).toFixed(1)) : 0,
+                })),
+            })),
+        ]);
+    }
+
+    private async importOverview(tenantId: string, date: Date, rows: ParsedOverview[]) {
+        for (const row of rows) {
+            const day = row.date ? new Date(`${row.date}T00:00:00.000Z`) : date;
+            const snapshot: SnapshotFields = {};
+            if (row.dr !== null) snapshot.dr = row.dr;
+            if (row.ur !== null) snapshot.ur = row.ur;
+            if (row.backlinks !== null) snapshot.backlinks = Math.round(row.backlinks);
+            if (row.referringDomains !== null) snapshot.referringDomains = Math.round(row.referringDomains);
+            if (row.keywords !== null) snapshot.keywords = Math.round(row.keywords);
+            if (row.organicTraffic !== null) snapshot.organicTraffic = Math.round(row.organicTraffic);
+            if (row.trafficValue !== null) {
+                snapshot.organicTrafficValue = Math.round(row.trafficValue);
+                snapshot.trafficCost = Math.round(row.trafficValue);
+            }
+            await this.writeSnapshot(tenantId, day, snapshot);
+        }
+    }
+
+    // ========================================================================
+    // Helpers
+    // ========================================================================
+
+    /**
+     * A row in the new export was either live already, or is found again. Rows
+     * marked lost by an earlier import of the same day never really left.
+     */
+    private classifySeen(lostAt: Date | null, date: Date, id: string, seenIds: string[], foundAgainIds: string[]) {
+        if (lostAt && lostAt.getTime() !== date.getTime()) {
+            foundAgainIds.push(id);
+        } else {
+            seenIds.push(id);
+        }
+    }
+
+    /**
+     * Upsert the day's snapshot. A new day starts from the previous snapshot's
+     * metrics (authority doesn't reset because only one export was uploaded);
+     * new/lost counts always start at zero.
+     */
+    private async writeSnapshot(tenantId: string, date: Date, fields: SnapshotFields) {
+        const previous = await this.prisma.seoOffpageMetricSnapshots.findFirst({
+            where: { tenantId, date: { lt: date } },
+            orderBy: { date: 'desc' },
+        });
+
+        await this.prisma.seoOffpageMetricSnapshots.upsert({
+            where: { seo_offpage_unique: { tenantId, date } },
+            create: {
+                tenantId,
+                date,
+                ur: previous?.ur ?? 0,
+                dr: previous?.dr ?? 0,
+                backlinks: previous?.backlinks ?? 0,
+                referringDomains: previous?.referringDomains ?? 0,
+                keywords: previous?.keywords ?? 0,
+                trafficCost: previous?.trafficCost ?? 0,
+                organicTraffic: previous?.organicTraffic ?? 0,
+                organicTrafficValue: previous?.organicTrafficValue ?? 0,
+                ...fields,
+            },
+            update: fields,
+        });
+    }
+
+    /**
+     * Default to today on the tenant calendar. Backlink and domain diffs compare
+     * with the current list, so those imports cannot go back before the latest one.
+     */
+    private async resolveImportDate(tenantId: string, type: OffpageImportType, date?: string): Promise<Date> {
+        const today = TimezoneUtil.getZonedToday(await this.tenantTimezone.getTimezone(tenantId));
+        const day = date ? new Date(`${date}T00:00:00.000Z`) : today;
+        if (isNaN(day.getTime())) {
+            throw new BadRequestException('date must be a valid YYYY-MM-DD date');
+        }
+        if (day > today) {
+            throw new BadRequestException('Import date cannot be in the future');
+        }
+
+        if (type === 'backlinks' || type === 'referring_domains') {
+            const latest = await this.prisma.seoOffpageImport.findFirst({
+                where: { tenantId, type, date: { gt: day } },
+                select: { date: true },
+            });
+            if (latest) {
+                throw new BadRequestException(`A ${type.replace('_', ' ')} import for ${dayKey(latest.date)} already exists; import dates cannot go back`);
+            }
+        }
+
+        return day;
+    }
+}
@@ -0,0 +1,91 @@
+import { Controller, Get, Post, Query, Req, Res, UseGuards, Body, BadRequestException, Logger } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { SearchConsoleOAuthService } from './search-console-oauth.service';
+import { CompleteSearchConsoleConnectionDto } from './dto';
+import { EntitlementsService } from '../entitlements/entitlements.service';
+
+@ApiTags('auth/google/search-console')
+@Controller('auth/google/search-console')
+export class SearchConsoleAuthController {
+    private readonly frontendUrl: string;
+    private readonly logger = new Logger(SearchConsoleAuthController.name);
+
+    constructor(
+        private readonly oauthService: SearchConsoleOAuthService,
+        private readonly configService: ConfigService,
+        private readonly entitlements: EntitlementsService,
+    ) {
+        this.frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:5173');
+    }
+
+    @Get('url')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get Google Search Console OAuth authorization URL' })
+    async getAuthUrl(@Req() req: any) {
+        const authUrl = this.oauthService.generateAuthUrl(req.user.id, req.user.tenantId);
+
+        return {
+            authUrl,
+            message: 'Open this URL in a browser to authorize Google Search Console access',
+        };
+    }
+
+    @Get('callback')
+    @ApiOperation({ summary: 'OAuth callback endpoint' })
+    async handleCallback(
+        @Query('code') code: string,
+        @Res() res: Response,
+    ) {
+        try {
+            if (!code) {
+                return res.redirect(`${this.frontendUrl}/data-sources?error=missing_code`);
+            }
+
+            const result = await this.oauthService.handleCallback(code);
+
+            return res.redirect(
+                `${this.frontendUrl}/data-sources?status=${result.status}&tempToken=${result.tempToken}&platform=gsc`,
+            );
+        } catch (error) {
+            this.logger.error(`OAuth callback error: ${error.message}`);
+            return res.redirect(
+                `${this.frontendUrl}/data-sources?error=${encodeURIComponent(error.message)}`,
+            );
+        }
+    }
+
+    @Get('temp-accounts')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get Search Console properties available for selection' })
+    async getTempAccounts(@Query('tempToken') tempToken: string) {
+        if (!tempToken) {
+            throw new BadRequestException('Missing tempToken');
+        }
+        const sites = await this.oauthService.getTempSites(tempToken);
+        return sites.map((site) => ({ id: site.siteUrl, name: site.siteUrl, status: site.permissionLevel }));
+    }
+
+    @Post('complete')
+    @UseGuards(JwtAuthGuard, PermissionsGuard)
+    @RequirePermissions('integrations:connect')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Complete Search Console connection with the selected properties' })
+    async completeConnection(
+        @Req() req: any,
+        @Body() dto: CompleteSearchConsoleConnectionDto,
+    ) {
+        // All selected properties share one Search Console account
+        await this.entitlements.assertCanConnect(req.user.tenant, 'SEARCH_CONSOLE');
+
+        return this.oauthService.completeConnection(dto.tempToken, dto.siteUrls, req.user.tenantId);
+    }
+}
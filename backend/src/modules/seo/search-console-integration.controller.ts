@@ -0,0 +1,64 @@
+import { Body, Controller, Delete, Get, Put, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { SearchConsoleOAuthService } from './search-console-oauth.service';
+import { SearchConsoleSitesDto } from './dto';
+
+/**
+ * Google Search Console Integration Controller
+ *
+ * Status, property selection and disconnect for the tenant's Search Console connection.
+ * Status follows the standardized IntegrationStatusResponse format, one account per property.
+ */
+@ApiTags('integrations/google-search-console')
+@ApiBearerAuth()
+@Controller('integrations/google-search-console')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('integrations:read')
+export class SearchConsoleIntegrationController {
+    constructor(private readonly oauthService: SearchConsoleOAuthService) { }
+
+    @Get('status')
+    @ApiOperation({ summary: 'Check Google Search Console integration status' })
+    async getStatus(@CurrentUser('tenantId') tenantId: string) {
+        const account = await this.oauthService.getConnectedAccount(tenantId);
+
+        return {
+            isConnected: !!account,
+            lastSyncAt: account?.lastSyncAt ?? null,
+            accounts: (account?.siteUrls ?? []).map((siteUrl) => ({
+                id: account!.id,
+                externalId: siteUrl,
+                name: siteUrl,
+                status: account!.status,
+            })),
+        };
+    }
+
+    @Get('sites')
+    @ApiOperation({ summary: 'List Search Console properties the connected Google user can read' })
+    async getSites(@CurrentUser('tenantId') tenantId: string) {
+        return this.oauthService.getAvailableSites(tenantId);
+    }
+
+    @Put('sites')
+    @RequirePermissions('integrations:connect')
+    @ApiOperation({ summary: 'Choose which Search Console properties are synced' })
+    async updateSites(
+        @CurrentUser('tenantId') tenantId: string,
+        @Body() dto: SearchConsoleSitesDto,
+    ) {
+        return this.oauthService.updateSites(tenantId, dto.siteUrls);
+    }
+
+    @Delete()
+    @RequirePermissions('integrations:connect')
+    @ApiOperation({ summary: 'Disconnect Google Search Console' })
+    async disconnect(@CurrentUser('tenantId') tenantId: string) {
+        await this.oauthService.disconnect(tenantId);
+        return { success: true, message: 'Google Search Console disconnected successfully' };
+    }
+}
@@ -0,0 +1,200 @@
+/**
+ * Search Console Connection Unit Tests
+ * @module search-console-oauth.service.spec
+ * @description Per-tenant Google Search Console OAuth with several properties:
+ *   - Completing the flow stores the tenant's own refresh token in the credential vault and the chosen properties
+ *   - Properties the Google user cannot read are rejected
+ *   - Syncs query every selected property with the tenant's credentials
+ *   - Reports cover all selected properties or the one in the siteUrl filter
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { SearchConsoleOAuthService } from './search-console-oauth.service';
+import { GoogleSearchConsoleService } from './google-search-console.service';
+import { SeoService } from './seo.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CredentialVaultService } from '../credential-vault/credential-vault.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { KeywordTrackingService } from './keyword-tracking.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const SHOP = 'https://shop.example.com/';
+const BLOG = 'sc-domain:blog.example.com';
+
+const sites = [
+    { siteUrl: BLOG, permissionLevel: 'siteOwner' },
+    { siteUrl: SHOP, permissionLevel: 'siteFullUser' },
+];
+
+const account = {
+    id: 'gsc-account-001',
+    tenantId: TENANT_ID,
+    siteUrls: [SHOP, BLOG],
+    status: 'ACTIVE',
+    lastSyncAt: null,
+};
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('SearchConsoleOAuthService', () => {
+    let service: SearchConsoleOAuthService;
+    let seoService: SeoService;
+    let cache: Map<string, unknown>;
+    let prisma: {
+        searchConsoleAccount: { upsert: jest.Mock; findFirst: jest.Mock; update: jest.Mock; deleteMany: jest.Mock };
+        searchConsolePerformance: {
+            count: jest.Mock;
+            findFirst: jest.Mock;
+            aggregate: jest.Mock;
+            deleteMany: jest.Mock;
+            createMany: jest.Mock;
+        };
+        googleAnalyticsAccount: { findFirst: jest.Mock };
+        webAnalyticsDaily: { aggregate: jest.Mock };
+    };
+    let gsc: { listSites: jest.Mock; querySearchAnalytics: jest.Mock; getAccountAuth: jest.Mock; createOAuthClient: jest.Mock };
+    let vault: { store: jest.Mock; remove: jest.Mock };
+
+    beforeEach(async () => {
+        cache = new Map<string, unknown>([
+            ['gsc_temp_token:temp-1', 'refresh-token'],
+            ['gsc_temp_sites:temp-1', sites],
+        ]);
+        prisma = {
+            searchConsoleAccount: {
+                upsert: jest.fn().mockResolvedValue(account),
+                findFirst: jest.fn().mockResolvedValue(account),
+                update: jest.fn(),
+                deleteMany: jest.fn(),
+            },
+            searchConsolePerformance: {
+                count: jest.fn().mockResolvedValue(10),
+                findFirst: jest.fn(),
+                aggregate: jest.fn().mockResolvedValue({ _sum: { clicks: 5, impressions: 50 }, _avg: { position: 4 } }),
+                deleteMany: jest.fn(),
+                createMany: jest.fn(),
+            },
+            googleAnalyticsAccount: { findFirst: jest.fn().mockResolvedValue(null) },
+            webAnalyticsDaily: { aggregate: jest.fn().mockResolvedValue({ _sum: {}, _avg: {} }) },
+        };
+        gsc = {
+            listSites: jest.fn().mockResolvedValue(sites),
+            querySearchAnalytics: jest.fn().mockResolvedValue({
+                rows: [{ keys: ['2026-03-01', '/p', 'shoes', 'MOBILE', 'tha'], clicks: 3, impressions: 30, ctr: 0.1, position: 2 }],
+            }),
+            getAccountAuth: jest.fn().mockResolvedValue({ tenant: TENANT_ID }),
+            createOAuthClient: jest.fn(),
+        };
+        vault = { store: jest.fn(), remove: jest.fn() };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SearchConsoleOAuthService,
+                SeoService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: GoogleSearchConsoleService, useValue: gsc },
+                { provide: KeywordTrackingService, useValue: { rebuildHistory: jest.fn().mockResolvedValue(0) } },
+                { provide: CredentialVaultService, useValue: vault },
+                { provide: TenantTimezoneService, useValue: { getTimezone: jest.fn().mockResolvedValue('Asia/Bangkok') } },
+                {
+                    provide: CACHE_MANAGER,
+                    useValue: {
+                        get: jest.fn(async (key: string) => cache.get(key)),
+                        set: jest.fn(async (key: string, value: unknown) => cache.set(key, value)),
+                        del: jest.fn(async (key: string) => cache.delete(key)),
+                    },
+                },
+            ],
+        }).compile();
+
+        service = module.get(SearchConsoleOAuthService);
+        seoService = module.get(SeoService);
+        jest.spyOn(seoService, 'syncGscForTenant').mockResolvedValue({ success: false, message: 'skipped' });
+    });
+
+    describe('completeConnection', () => {
+        it('should store the tenant token and every chosen property', async () => {
+            const result = await service.completeConnection('temp-1', [SHOP, BLOG], TENANT_ID);
+
+            expect(result).toEqual({ success: true, accountId: account.id, siteUrls: [SHOP, BLOG] });
+            expect(prisma.searchConsoleAccount.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                where: { tenantId: TENANT_ID },
+                create: expect.objectContaining({ siteUrls: [SHOP, BLOG] }),
+            }));
+            expect(vault.store).toHaveBeenCalledWith(
+                { tenantId: TENANT_ID, platform: 'SEARCH_CONSOLE', accountId: account.id },
+                { refreshToken: 'refresh-token', accessToken: null },
+            );
+            expect(seoService.syncGscForTenant).toHaveBeenCalledWith(TENANT_ID, { days: 30, siteUrl: SHOP });
+            expect(seoService.syncGscForTenant).toHaveBeenCalledWith(TENANT_ID, { days: 30, siteUrl: BLOG });
+            expect(cache.has('gsc_temp_token:temp-1')).toBe(false);
+        });
+
+        it('should reject properties the Google user cannot read', async () => {
+            await expect(service.completeConnection('temp-1', [SHOP, 'https://other.example.com/'], TENANT_ID))
+                .rejects.toThrow(BadRequestException);
+            expect(prisma.searchConsoleAccount.upsert).not.toHaveBeenCalled();
+            expect(vault.store).not.toHaveBeenCalled();
+        });
+
+        it('should reject an expired session', async () => {
+            await expect(service.completeConnection('temp-2', [SHOP], TENANT_ID)).rejects.toThrow('Session expired');
+        });
+    });
+
+    describe('updateSites', () => {
+        it('should only sync properties that were not selected before', async () => {
+            prisma.searchConsoleAccount.findFirst.mockResolvedValue({ ...account, siteUrls: [SHOP] });
+
+            await service.updateSites(TENANT_ID, [SHOP, BLOG]);
+
+            expect(prisma.searchConsoleAccount.update).toHaveBeenCalledWith({
+                where: { id: account.id },
+                data: { siteUrls: [SHOP, BLOG] },
+            });
+            expect(seoService.syncGscForTenant).toHaveBeenCalledTimes(1);
+            expect(seoService.syncGscForTenant).toHaveBeenCalledWith(TENANT_ID, { days: 30, siteUrl: BLOG });
+        });
+    });
+
+    describe('SeoService with a per-tenant connection', () => {
+        beforeEach(() => {
+            (seoService.syncGscForTenant as jest.Mock).mockRestore();
+        });
+
+        it('should sync each selected property with the tenant credentials', async () => {
+            const result = await seoService.syncGscForTenant(TENANT_ID, { days: 7 });
+
+            expect(gsc.getAccountAuth).toHaveBeenCalledWith(account);
+            expect(gsc.querySearchAnalytics).toHaveBeenCalledTimes(2);
+            expect(gsc.querySearchAnalytics.mock.calls.map(([, params]) => params.siteUrl)).toEqual([SHOP, BLOG]);
+            expect(result).toMatchObject({ success: true, inserted: 2 });
+            expect(prisma.searchConsolePerformance.createMany.mock.calls[1][0].data[0]).toMatchObject({ tenantId: TENANT_ID, siteUrl: BLOG });
+        });
+
+        it('should refuse to sync without a connection', async () => {
+            prisma.searchConsoleAccount.findFirst.mockResolvedValue(null);
+
+            await expect(seoService.syncGscForTenant(TENANT_ID)).resolves.toEqual({ success: false, message: 'GSC not connected' });
+            expect(gsc.querySearchAnalytics).not.toHaveBeenCalled();
+        });
+
+        it('should report on all selected properties unless filtered by site', async () => {
+            const all = await seoService.getOverview(TENANT_ID, '7d');
+            expect(all.gsc).toMatchObject({ siteUrl: null, siteUrls: [SHOP, BLOG], clicks: 5 });
+            expect(prisma.searchConsolePerformance.aggregate.mock.calls[0][0].where.siteUrl).toEqual({ in: [SHOP, BLOG] });
+
+            const one = await seoService.getOverview(TENANT_ID, '7d', BLOG);
+            expect(one.gsc).toMatchObject({ siteUrl: BLOG, siteUrls: [BLOG] });
+            expect(prisma.searchConsolePerformance.aggregate.mock.calls[1][0].where.siteUrl).toEqual({ in: [BLOG] });
+        });
+    });
+});
@@ -0,0 +1,179 @@
+import { Injectable, BadRequestException, Logger, Inject } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { v4 as uuidv4 } from 'uuid';
+import { AdPlatform } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CredentialVaultService } from '../credential-vault/credential-vault.service';
+import { GoogleSearchConsoleService, SearchConsoleSite } from './google-search-console.service';
+import { SeoService } from './seo.service';
+
+const TEMP_TTL_MS = 600000; // 10 minutes
+
+/**
+ * Search Console OAuth Service
+ *
+ * Per-tenant Google Search Console connection: the tenant's own Google user authorizes
+ * read access, then picks which of its properties to sync.
+ */
+@Injectable()
+export class SearchConsoleOAuthService {
+    private readonly logger = new Logger(SearchConsoleOAuthService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        @Inject(CACHE_MANAGER) private cacheManager: Cache,
+        private readonly gscService: GoogleSearchConsoleService,
+        private readonly seoService: SeoService,
+        private readonly credentialVault: CredentialVaultService,
+    ) { }
+
+    generateAuthUrl(userId: string, tenantId: string): string {
+        const state = Buffer.from(
+            JSON.stringify({ userId, tenantId, timestamp: Date.now() }),
+        ).toString('base64');
+
+        return this.gscService.createOAuthClient().generateAuthUrl({
+            access_type: 'offline',
+            scope: GoogleSearchConsoleService.SCOPES,
+            state,
+            prompt: 'consent',
+        });
+    }
+
+    async handleCallback(code: string) {
+        try {
+            const client = this.gscService.createOAuthClient();
+            const { tokens } = await client.getToken(code);
+
+            if (!tokens.access_token || !tokens.refresh_token) {
+                throw new BadRequestException('Failed to get tokens from Google');
+            }
+
+            client.setCredentials(tokens);
+            const sites = await this.gscService.listSites(client);
+
+            const tempToken = uuidv4();
+            await this.cacheManager.set(`gsc_temp_token:${tempToken}`, tokens.refresh_token, TEMP_TTL_MS);
+            await this.cacheManager.set(`gsc_temp_sites:${tempToken}`, sites, TEMP_TTL_MS);
+
+            return { status: 'select_account', tempToken };
+        } catch (error) {
+            this.logger.error(`Error in handleCallback: ${error.message}`);
+            throw new BadRequestException(`OAuth callback failed: ${error.message}`);
+        }
+    }
+
+    async getTempSites(tempToken: string): Promise<SearchConsoleSite[]> {
+        const sites = await this.cacheManager.get<SearchConsoleSite[]>(`gsc_temp_sites:${tempToken}`);
+        if (!sites) {
+            throw new BadRequestException('Session expired or invalid token');
+        }
+        return sites;
+    }
+
+    async completeConnection(tempToken: string, siteUrls: string[], tenantId: string) {
+        const refreshToken = await this.cacheManager.get<string>(`gsc_temp_token:${tempToken}`);
+        if (!refreshToken) {
+            throw new BadRequestException('Session expired or invalid token');
+        }
+
+        const selected = this.pickSites(await this.getTempSites(tempToken), siteUrls);
+
+        const account = await this.prisma.searchConsoleAccount.upsert({
+            where: { tenantId },
+            create: {
+                tenantId,
+                siteUrls: selected,
+                status: 'ACTIVE',
+            },
+            update: {
+                tokenExpiresAt: null,
+                siteUrls: selected,
+                status: 'ACTIVE',
+            },
+        });
+
+        await this.credentialVault.store(
+            { tenantId, platform: AdPlatform.SEARCH_CONSOLE, accountId: account.id },
+            { refreshToken, accessToken: null },
+        );
+
+        await this.cacheManager.del(`gsc_temp_token:${tempToken}`);
+        await this.cacheManager.del(`gsc_temp_sites:${tempToken}`);
+
+        this.triggerSync(tenantId, selected);
+
+        return { success: true, accountId: account.id, siteUrls: selected };
+    }
+
+    async getConnectedAccount(tenantId: string) {
+        return this.prisma.searchConsoleAccount.findFirst({
+            where: { tenantId, status: 'ACTIVE' },
+            select: { id: true, siteUrls: true, status: true, lastSyncAt: true, createdAt: true },
+        });
+    }
+
+    /**
+     * Every property the connected Google user can read, flagged when it is synced
+     */
+    async getAvailableSites(tenantId: string) {
+        const account = await this.requireAccount(tenantId);
+        const sites = await this.gscService.listSites(await this.gscService.getAccountAuth(account));
+
+        return sites.map((site) => ({ ...site, selected: account.siteUrls.includes(site.siteUrl) }));
+    }
+
+    async updateSites(tenantId: string, siteUrls: string[]) {
+        const account = await this.requireAccount(tenantId);
+        const sites = await this.gscService.listSites(await this.gscService.getAccountAuth(account));
+        const selected = this.pickSites(sites, siteUrls);
+
+        await this.prisma.searchConsoleAccount.update({
+            where: { id: account.id },
+            data: { siteUrls: selected },
+        });
+
+        this.triggerSync(tenantId, selected.filter((url) => !account.siteUrls.includes(url)));
+
+        return { success: true, siteUrls: selected };
+    }
+
+    /**
+     * Remove the connection; rows already synced are kept
+     */
+    async disconnect(tenantId: string) {
+        await this.prisma.searchConsoleAccount.deleteMany({ where: { tenantId } });
+        await this.credentialVault.remove(tenantId, AdPlatform.SEARCH_CONSOLE);
+    }
+
+    private async requireAccount(tenantId: string) {
+        const account = await this.prisma.searchConsoleAccount.findFirst({
+            where: { tenantId, status: 'ACTIVE' },
+        });
+        if (!account) {
+            throw new BadRequestException('Google Search Console is not connected');
+        }
+        return account;
+    }
+
+    private pickSites(available: SearchConsoleSite[], siteUrls: string[]): string[] {
+        const known = new Set(available.map((s) => s.siteUrl));
+        const unknown = siteUrls.filter((url) => !known.has(url));
+        if (unknown.length) {
+            throw new BadRequestException(`No Search Console access to: ${unknown.join(', ')}`);
+        }
+        return [...new Set(siteUrls)];
+    }
+
+    /**
+     * Initial sync for newly selected properties (non-blocking)
+     */
+    private triggerSync(tenantId: string, siteUrls: string[]) {
+        for (const siteUrl of siteUrls) {
+            this.seoService.syncGscForTenant(tenantId, { days: 30, siteUrl })
+                .then((result) => this.logger.log(`[Initial Sync] GSC ${siteUrl} for tenant ${tenantId}: ${JSON.stringify(result)}`))
+                .catch((error) => this.logger.error(`[Initial Sync] GSC ${siteUrl} failed for tenant ${tenantId}: ${error.message}`));
+        }
+    }
+}
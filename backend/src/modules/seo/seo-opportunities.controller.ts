@@ -0,0 +1,73 @@
+import { Controller, Get, Param, Query, StreamableFile, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
+import { EntitlementsGuard } from '../../common/guards/entitlements.guard';
+import { RequireEntitlements } from '../../common/decorators/require-entitlements.decorator';
+import { SeoOpportunitiesService } from './seo-opportunities.service';
+import { SEO_OPPORTUNITY_REPORTS, SeoOpportunityQueryDto } from './dto';
+
+@ApiTags('SEO')
+@ApiBearerAuth()
+@Controller('seo/opportunities')
+@UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementsGuard)
+@RequirePermissions('seo:read')
+export class SeoOpportunitiesController {
+    constructor(private readonly opportunities: SeoOpportunitiesService) { }
+
+    @Get('cannibalisation')
+    @ApiOperation({ summary: 'Queries where several pages of the site compete for impressions' })
+    async getCannibalisation(
+        @CurrentUser('tenantId') tenantId: string,
+        @Query() query: SeoOpportunityQueryDto,
+    ) {
+        return this.opportunities.getCannibalisation(tenantId, query);
+    }
+
+    @Get('low-ctr')
+    @ApiOperation({ summary: 'High-impression pages with a CTR below what their position usually earns' })
+    async getLowCtr(
+        @CurrentUser('tenantId') tenantId: string,
+        @Query() query: SeoOpportunityQueryDto,
+    ) {
+        return this.opportunities.getLowCtr(tenantId, query);
+    }
+
+    @Get('ctr-decline')
+    @ApiOperation({ summary: 'Pages whose CTR fell while their position stayed stable' })
+    async getCtrDecline(
+        @CurrentUser('tenantId') tenantId: string,
+        @Query() query: SeoOpportunityQueryDto,
+    ) {
+        return this.opportunities.getCtrDecline(tenantId, query);
+    }
+
+    @Get('page-trends')
+    @ApiOperation({ summary: 'Per-page click change split into impression and CTR effects' })
+    async getPageTrends(
+        @CurrentUser('tenantId') tenantId: string,
+        @Query() query: SeoOpportunityQueryDto,
+    ) {
+        return this.opportunities.getPageTrends(tenantId, query);
+    }
+
+    @Get(':report/export')
+    @RequirePermissions('seo:read', 'export:csv')
+    @RequireEntitlements('EXPORT_CSV')
+    @ApiOperation({ summary: 'Download an opportunity report as CSV' })
+    @ApiParam({ name: 'report', enum: SEO_OPPORTUNITY_REPORTS })
+    async export(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('report') report: string,
+        @Query() query: SeoOpportunityQueryDto,
+    ) {
+        const file = await this.opportunities.exportCsv(tenantId, report, query);
+        return new StreamableFile(file.content, {
+            type: 'text/csv; charset=utf-8',
+            disposition: `attachment; filename="${file.filename}"`,
+            length: file.content.length,
+        });
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * SEO Opportunities Unit Tests
+ * @module seo-opportunities.service.spec
+ * @description Page × query reports over Search Console rows:
+ *   - Cannibalisation: several pages holding a real share of one query
+ *   - Low CTR: snippets below the CTR their position usually earns
+ *   - CTR decline: CTR dropped while the position stayed put
+ *   - Page trends: click change split into impression and CTR effects
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { SeoOpportunitiesService, expectedCtr } from './seo-opportunities.service';
+import { SeoService } from './seo.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const SITE = 'https://shop.example.com/';
+
+const row = (page: string, query: string, clicks: number, impressions: number, position: number) => ({
+    page: `${SITE}${page}`,
+    query,
+    clicks: BigInt(clicks),
+    impressions: BigInt(impressions),
+    position,
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('SeoOpportunitiesService', () => {
+    let service: SeoOpportunitiesService;
+    let prisma: { searchConsolePerformance: { aggregate: jest.Mock }; $queryRaw: jest.Mock };
+
+    beforeEach(async () => {
+        prisma = {
+            searchConsolePerformance: {
+                aggregate: jest.fn().mockResolvedValue({ _max: { date: new Date('2026-03-28T00:00:00.000Z') } }),
+            },
+            $queryRaw: jest.fn().mockResolvedValue([]),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SeoOpportunitiesService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: SeoService, useValue: { resolveGscSites: jest.fn().mockResolvedValue({ accountConnected: true, siteUrls: [SITE] }) } },
+            ],
+        }).compile();
+
+        service = module.get(SeoOpportunitiesService);
+    });
+
+    it('should end the window on the latest synced day', async () => {
+        const { dateRange } = await service.getPageTrends(TENANT_ID, { period: '28d' });
+
+        expect(dateRange).toEqual({ from: '2026-03-01', to: '2026-03-28', previousFrom: '2026-02-01', previousTo: '2026-02-28' });
+        expect(prisma.$queryRaw).toHaveBeenCalledTimes(2);
+    });
+
+    it('should flag queries split between several pages', async () => {
+        prisma.$queryRaw.mockResolvedValue([
+            row('shoes', 'running shoes', 40, 600, 4),
+            row('blog/best-running-shoes', 'running shoes', 10, 350, 9),
+            row('about', 'running shoes', 0, 50, 40),
+            row('trail', 'trail shoes', 30, 400, 3),
+        ]);
+
+        const { rows } = await service.getCannibalisation(TENANT_ID);
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toMatchObject({ query: 'running shoes', impressions: 1000, primaryPage: `${SITE}shoes` });
+        expect(rows[0].pages.map((p) => p.share)).toEqual([0.6, 0.35]);
+    });
+
+    it('should rank snippets by clicks missed against the expected CTR', async () => {
+        prisma.$queryRaw.mockResolvedValue([
+            row('shoes', 'running shoes', 20, 1000, 1.2),
+            row('shoes', 'buy running shoes', 10, 1000, 2.8),
+            row('trail', 'trail shoes', 300, 1000, 1),
+            row('deep', 'boots', 0, 5000, 35),
+        ]);
+
+        const { rows } = await service.getLowCtr(TENANT_ID);
+
+        // shoes: position 2 → expected 15%, actual 1.5% of 2000 impressions
+        expect(rows).toEqual([expect.objectContaining({
+            page: `${SITE}shoes`,
+            position: 2,
+            expectedCtr: expectedCtr(2),
+            missedClicks: 270,
+            topQueries: ['running shoes', 'buy running shoes'],
+        })]);
+    });
+
+    it('should find pages with falling CTR at a stable position', async () => {
+        prisma.$queryRaw
+            .mockResolvedValueOnce([
+                row('shoes', 'running shoes', 30, 1000, 3.2),
+                row('trail', 'trail shoes', 20, 1000, 9),
+            ])
+            .mockResolvedValueOnce([
+                row('shoes', 'running shoes', 80, 1000, 3),
+                row('trail', 'trail shoes', 60, 1000, 4),
+            ]);
+
+        const { rows } = await service.getCtrDecline(TENANT_ID);
+
+        expect(rows).toEqual([expect.objectContaining({
+            page: `${SITE}shoes`,
+            ctr: 0.03,
+            previousCtr: 0.08,
+            ctrChange: -62.5,
+            lostClicks: 50,
+        })]);
+    });
+
+    it('should split the click change into impression and CTR effects', async () => {
+        prisma.$queryRaw
+            .mockResolvedValueOnce([row('shoes', 'running shoes', 90, 3000, 3)])
+            .mockResolvedValueOnce([row('shoes', 'running shoes', 100, 2000, 3)]);
+
+        const { rows } = await service.getPageTrends(TENANT_ID);
+
+        expect(rows[0]).toMatchObject({
+            clicksChange: -10,
+            impressionEffect: 50,
+            ctrEffect: -40,
+            interactionEffect: -20,
+            driver: 'impressions',
+        });
+    });
+
+    it('should export a report as CSV', async () => {
+        prisma.$queryRaw.mockResolvedValue([
+            row('shoes', 'running shoes', 40, 600, 4),
+            row('blog', 'running shoes', 10, 400, 9),
+        ]);
+
+        const file = await service.exportCsv(TENANT_ID, 'cannibalisation');
+        const lines = file.content.toString('utf8').replace(/^\uFEFF/, '').trim().split('\n');
+
+        expect(file.filename).toBe('seo-cannibalisation-2026-03-01-to-2026-03-28.csv');
+        expect(lines[0]).toBe('query,queryImpressions,queryClicks,primaryPage,page,clicks,impressions,ctr,position,impressionShare');
+        expect(lines).toHaveLength(3);
+        await expect(service.exportCsv(TENANT_ID, 'everything')).rejects.toThrow(BadRequestException);
+    });
+});
@@ -0,0 +1,398 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { stringify } from 'csv-stringify';
+import { PrismaService } from '../prisma/prisma.service';
+import { DateRangeUtil } from '../../common/utils/date-range.util';
+import { SeoService } from './seo.service';
+import { SEO_OPPORTUNITY_REPORTS, SeoOpportunityQueryDto, SeoOpportunityReport } from './dto';
+
+/**
+ * Typical organic CTR by rounded position (desktop + mobile blend). Used as the
+ * bar a snippet should reach; below it the title/description is worth rewriting.
+ */
+const EXPECTED_CTR_BY_POSITION = [0.28, 0.15, 0.10, 0.07, 0.05, 0.04, 0.03, 0.025, 0.02, 0.02];
+const EXPECTED_CTR_PAGE_TWO = 0.01;
+
+/** A page must hold this share of a query's impressions to count as competing for it */
+const CANNIBALISATION_MIN_SHARE = 0.1;
+/** Position change (either way) still considered "stable" */
+const STABLE_POSITION_DELTA = 1;
+/** Relative CTR drop that flags a page */
+const CTR_DROP_THRESHOLD = 0.2;
+
+const DEFAULT_MIN_IMPRESSIONS: Record<SeoOpportunityReport, number> = {
+    'cannibalisation': 50,
+    'low-ctr': 500,
+    'ctr-decline': 200,
+    'page-trends': 100,
+};
+
+const MAX_EXPORT_ROWS = 5000;
+const UTF8_BOM = '\uFEFF';
+
+interface PageQueryStats {
+    page: string;
+    query: string;
+    clicks: number;
+    impressions: number;
+    position: number;
+}
+
+interface PageStats {
+    page: string;
+    clicks: number;
+    impressions: number;
+    ctr: number;
+    position: number;
+    /** Queries by impressions, most first */
+    queries: PageQueryStats[];
+}
+
+interface ReportWindow {
+    siteUrls: string[];
+    dateRange: { from: string; to: string; previousFrom: string; previousTo: string } | null;
+    current: PageQueryStats[];
+    previous: PageQueryStats[];
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+const ctrOf = (clicks: number, impressions: number) => (impressions > 0 ? clicks / impressions : 0);
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+export function expectedCtr(position: number): number {
+    const rounded = Math.max(1, Math.round(position));
+    if (rounded <= EXPECTED_CTR_BY_POSITION.length) return EXPECTED_CTR_BY_POSITION[rounded - 1];
+    return rounded <= 20 ? EXPECTED_CTR_PAGE_TWO : 0;
+}
+
+/**
+ * SEO Opportunities Service
+ *
+ * Page × query analysis of the synced Search Console rows. Each report returns an
+ * actionable list (what to fix, how many clicks are at stake) and can be exported
+ * as CSV. Windows end on the latest synced day so GSC reporting lag does not
+ * show up as a drop.
+ */
+@Injectable()
+export class SeoOpportunitiesService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly seoService: SeoService,
+    ) { }
+
+    /**
+     * Queries where several of the site's pages split the impressions
+     */
+    async getCannibalisation(tenantId: string, query: SeoOpportunityQueryDto = {}) {
+        const window = await this.loadWindow(tenantId, query, false);
+        const minImpressions = query.minImpressions ?? DEFAULT_MIN_IMPRESSIONS['cannibalisation'];
+
+        const byQuery = new Map<string, PageQueryStats[]>();
+        for (const row of window.current) {
+            const rows = byQuery.get(row.query) ?? [];
+            rows.push(row);
+            byQuery.set(row.query, rows);
+        }
+
+        const rows = [...byQuery.entries()].flatMap(([keyword, pages]) => {
+            const impressions = pages.reduce((sum, p) => sum + p.impressions, 0);
+            if (impressions < minImpressions) return [];
+
+            const competing = pages
+                .filter((p) => p.impressions / impressions >= CANNIBALISATION_MIN_SHARE)
+                .sort((a, b) => b.clicks - a.clicks || b.impressions - a.impressions);
+            if (competing.length < 2) return [];
+
+            const clicks = pages.reduce((sum, p) => sum + p.clicks, 0);
+            return [{
+                query: keyword,
+                clicks,
+                impressions,
+                ctr: round(ctrOf(clicks, impressions), 4),
+                position: round(pages.reduce((sum, p) => sum + p.position * p.impressions, 0) / impressions),
+                primaryPage: competing[0].page,
+                pages: competing.map((p) => ({
+                    page: p.page,
+                    clicks: p.clicks,
+                    impressions: p.impressions,
+                    ctr: round(ctrOf(p.clicks, p.impressions), 4),
+                    position: round(p.position),
+                    share: round(p.impressions / impressions, 4),
+                })),
+            }];
+        }).sort((a, b) => b.impressions - a.impressions);
+
+        return this.result(window, rows, query.limit);
+    }
+
+    /**
+     * Pages whose CTR is below what their position usually earns: rewrite the snippet
+     */
+    async getLowCtr(tenantId: string, query: SeoOpportunityQueryDto = {}) {
+        const window = await this.loadWindow(tenantId, query, false);
+        const minImpressions = query.minImpressions ?? DEFAULT_MIN_IMPRESSIONS['low-ctr'];
+
+        const rows = this.toPages(window.current).flatMap((page) => {
+            const expected = expectedCtr(page.position);
+            const missedClicks = Math.round(page.impressions * (expected - page.ctr));
+            if (page.impressions < minImpressions || page.position > 20 || missedClicks < 1) return [];
+
+            return [{
+                page: page.page,
+                clicks: page.clicks,
+                impressions: page.impressions,
+                ctr: round(page.ctr, 4),
+                expectedCtr: expected,
+                position: round(page.position),
+                missedClicks,
+                topQueries: page.queries.slice(0, 3).map((q) => q.query),
+            }];
+        }).sort((a, b) => b.missedClicks - a.missedClicks);
+
+        return this.result(window, rows, query.limit);
+    }
+
+    /**
+     * Pages that kept their position but lost CTR (a competitor's rich result,
+     * a changed title, a SERP feature above them)
+     */
+    async getCtrDecline(tenantId: string, query: SeoOpportunityQueryDto = {}) {
+        const window = await this.loadWindow(tenantId, query, true);
+        const minImpressions = query.minImpressions ?? DEFAULT_MIN_IMPRESSIONS['ctr-decline'];
+        const previous = new Map(this.toPages(window.previous).map((p) => [p.page, p]));
+
+        const rows = this.toPages(window.current).flatMap((page) => {
+            const before = previous.get(page.page);
+            if (!before || page.impressions < minImpressions || before.impressions < minImpressions) return [];
+            if (Math.abs(page.position - before.position) > STABLE_POSITION_DELTA) return [];
+            if (before.ctr <= 0 || (before.ctr - page.ctr) / before.ctr < CTR_DROP_THRESHOLD) return [];
+
+            return [{
+                page: page.page,
+                clicks: page.clicks,
+                impressions: page.impressions,
+                ctr: round(page.ctr, 4),
+                previousCtr: round(before.ctr, 4),
+                ctrChange: round(((page.ctr - before.ctr) / before.ctr) * 100, 1),
+                position: round(page.position),
+                previousPosition: round(before.position),
+                lostClicks: Math.round(page.impressions * (before.ctr - page.ctr)),
+            }];
+        }).sort((a, b) => b.lostClicks - a.lostClicks);
+
+        return this.result(window, rows, query.limit);
+    }
+
+    /**
+     * Click change per page split into what impressions (demand / rankings) and
+     * CTR (snippet / SERP) contributed: Δclicks = ΔI·CTR₀ + ΔCTR·I₀ + ΔI·ΔCTR
+     */
+    async getPageTrends(tenantId: string, query: SeoOpportunityQueryDto = {}) {
+        const window = await this.loadWindow(tenantId, query, true);
+        const minImpressions = query.minImpressions ?? DEFAULT_MIN_IMPRESSIONS['page-trends'];
+        const current = new Map(this.toPages(window.current).map((p) => [p.page, p]));
+        const previous = new Map(this.toPages(window.previous).map((p) => [p.page, p]));
+
+        const rows = [...new Set([...current.keys(), ...previous.keys()])].flatMap((url) => {
+            const now = current.get(url);
+            const before = previous.get(url);
+            const impressions = now?.impressions ?? 0;
+            const previousImpressions = before?.impressions ?? 0;
+            if (Math.max(impressions, previousImpressions) < minImpressions) return [];
+
+            const clicks = now?.clicks ?? 0;
+            const previousClicks = before?.clicks ?? 0;
+            const deltaImpressions = impressions - previousImpressions;
+            const deltaCtr = (now?.ctr ?? 0) - (before?.ctr ?? 0);
+            const impressionEffect = deltaImpressions * (before?.ctr ?? 0);
+            const ctrEffect = deltaCtr * previousImpressions;
+
+            return [{
+                page: url,
+                clicks,
+                previousClicks,
+                clicksChange: clicks - previousClicks,
+                impressions,
+                previousImpressions,
+                ctr: round(now?.ctr ?? 0, 4),
+                previousCtr: round(before?.ctr ?? 0, 4),
+                position: now ? round(now.position) : null,
+                previousPosition: before ? round(before.position) : null,
+                impressionEffect: round(impressionEffect, 1),
+                ctrEffect: round(ctrEffect, 1),
+                interactionEffect: round(deltaImpressions * deltaCtr, 1),
+                driver: Math.abs(impressionEffect) >= Math.abs(ctrEffect) ? 'impressions' : 'ctr',
+            }];
+        }).sort((a, b) => Math.abs(b.clicksChange) - Math.abs(a.clicksChange));
+
+        return this.result(window, rows, query.limit);
+    }
+
+    /**
+     * One report as CSV (cannibalisation is flattened to one line per query × page)
+     */
+    async exportCsv(tenantId: string, report: string, query: SeoOpportunityQueryDto = {}) {
+        if (!SEO_OPPORTUNITY_REPORTS.includes(report as SeoOpportunityReport)) {
+            throw new BadRequestException(`Unknown report "${report}". Use one of: ${SEO_OPPORTUNITY_REPORTS.join(', ')}`);
+        }
+
+        const options = { ...query, limit: MAX_EXPORT_ROWS };
+        let records: Record<string, unknown>[];
+        let dateRange: ReportWindow['dateRange'];
+
+        switch (report as SeoOpportunityReport) {
+            case 'cannibalisation': {
+                const result = await this.getCannibalisation(tenantId, options);
+                dateRange = result.dateRange;
+                records = result.rows.flatMap(({ pages, ...row }) => pages.map((page) => ({
+                    query: row.query,
+                    queryImpressions: row.impressions,
+                    queryClicks: row.clicks,
+                    primaryPage: row.primaryPage,
+                    page: page.page,
+                    clicks: page.clicks,
+                    impressions: page.impressions,
+                    ctr: page.ctr,
+                    position: page.position,
+                    impressionShare: page.share,
+                })));
+                break;
+            }
+            case 'low-ctr': {
+                const result = await this.getLowCtr(tenantId, options);
+                dateRange = result.dateRange;
+                records = result.rows.map(({ topQueries, ...row }) => ({ ...row, topQueries: topQueries.join(' | ') }));
+                break;
+            }
+            case 'ctr-decline': {
+                const result = await this.getCtrDecline(tenantId, options);
+                dateRange = result.dateRange;
+                records = result.rows;
+                break;
+            }
+            case 'page-trends': {
+                const result = await this.getPageTrends(tenantId, options);
+                dateRange = result.dateRange;
+                records = result.rows;
+                break;
+            }
+        }
+
+        const content = await this.toCsv(records);
+        const suffix = dateRange ? `${dateRange.from}-to-${dateRange.to}` : 'no-data';
+        return { filename: `seo-${report}-${suffix}.csv`, content };
+    }
+
+    // ========================================================================
+    // Data
+    // ========================================================================
+
+    private async loadWindow(tenantId: string, query: SeoOpportunityQueryDto, withPrevious: boolean): Promise<ReportWindow> {
+        const days = Math.min(180, Math.max(1, DateRangeUtil.parsePeriodDays(query.period || '28d')));
+        const { siteUrls } = await this.seoService.resolveGscSites(tenantId, query.siteUrl);
+        if (siteUrls.length === 0) {
+            return { siteUrls, dateRange: null, current: [], previous: [] };
+        }
+
+        const latest = await this.prisma.searchConsolePerformance.aggregate({
+            where: { tenantId, siteUrl: { in: siteUrls } },
+            _max: { date: true },
+        });
+        const endDate = latest._max.date;
+        if (!endDate) {
+            return { siteUrls, dateRange: null, current: [], previous: [] };
+        }
+
+        const startDate = new Date(endDate);
+        startDate.setUTCDate(startDate.getUTCDate() - (days - 1));
+        const previous = DateRangeUtil.getPreviousPeriodDateRange(startDate, days);
+
+        const [current, previousRows] = await Promise.all([
+            this.loadPageQueries(tenantId, siteUrls, startDate, endDate),
+            withPrevious ? this.loadPageQueries(tenantId, siteUrls, previous.startDate, previous.endDate) : Promise.resolve([]),
+        ]);
+
+        return {
+            siteUrls,
+            dateRange: {
+                from: dayKey(startDate),
+                to: dayKey(endDate),
+                previousFrom: dayKey(previous.startDate),
+                previousTo: dayKey(previous.endDate),
+            },
+            current,
+            previous: previousRows,
+        };
+    }
+
+    /**
+     * Page × query totals over all devices and countries; position weighted by impressions
+     */
+    private async loadPageQueries(tenantId: string, siteUrls: string[], startDate: Date, endDate: Date): Promise<PageQueryStats[]> {
+        const rows = await this.prisma.$queryRaw<Array<{
+            page: string;
+            query: string;
+            clicks: bigint | number;
+            impressions: bigint | number;
+            position: Prisma.Decimal | number | null;
+        }>>`
+            SELECT page, query,
+                SUM(clicks) AS clicks,
+                SUM(impressions) AS impressions,
+                SUM(position * impressions) / NULLIF(SUM(impressions), 0) AS position
+            FROM search_console_performance
+            WHERE tenant_id = ${tenantId}::uuid
+            AND site_url IN (${Prisma.join(siteUrls)})
+            AND date >= ${startDate}
+            AND date <= ${endDate}
+            AND page IS NOT NULL
+            AND query IS NOT NULL
+            GROUP BY page, query
+        `;
+
+        return rows.map((row) => ({
+            page: row.page,
+            query: row.query,
+            clicks: Number(row.clicks),
+            impressions: Number(row.impressions),
+            position: Number(row.position ?? 0),
+        }));
+    }
+
+    private toPages(rows: PageQueryStats[]): PageStats[] {
+        const pages = new Map<string, PageStats & { weightedPosition: number }>();
+        for (const row of rows) {
+            const page = pages.get(row.page) ?? { page: row.page, clicks: 0, impressions: 0, ctr: 0, position: 0, weightedPosition: 0, queries: [] };
+            page.clicks += row.clicks;
+            page.impressions += row.impressions;
+            page.weightedPosition += row.position * row.impressions;
+            page.queries.push(row);
+            pages.set(row.page, page);
+        }
+
+        return [...pages.values()].map(({ weightedPosition, ...page }) => ({
+            ...page,
+            ctr: ctrOf(page.clicks, page.impressions),
+            position: page.impressions > 0 ? weightedPosition / page.impressions : 0,
+            queries: page.queries.sort((a, b) => b.impressions - a.impressions),
+        }));
+    }
+
+    private result<T>(window: ReportWindow, rows: T[], limit = 50) {
+        return {
+            siteUrls: window.siteUrls,
+            dateRange: window.dateRange,
+            total: rows.length,
+            rows: rows.slice(0, limit),
+        };
+    }
+
+    private toCsv(records: Record<string, unknown>[]): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            stringify(records, { header: true }, (error, output) => {
+                if (error) return reject(error);
+                resolve(Buffer.from(UTF8_BOM + output, 'utf8'));
+            });
+        });
+    }
+}
@@ -1,12 +1,24 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../modules/prisma/prisma.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { TimezoneUtil } from '../../common/utils/timezone.util';
 
 @Injectable()
 export class SeoRollupService {
     private readonly logger = new Logger(SeoRollupService.name);
 
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly tenantTimezone: TenantTimezoneService,
+    ) { }
+
+    /** Yesterday on the tenant's calendar (the last complete day), as UTC midnight */
+    private yesterdayIn(timezone: string | null | undefined, now: Date = new Date()): Date {
+        const day = TimezoneUtil.getZonedToday(timezone, now);
+        day.setUTCDate(day.getUTCDate() - 1);
+        return day;
+    }
 
     private dateKey(d: Date): string {
         const yyyy = d.getUTCFullYear();
@@ -31,9 +43,7 @@ export class SeoRollupService {
     async backfillLastNDaysForTenant(tenantId: string, days: number = 30) {
         const safeDays = Math.max(1, Math.floor(days));
 
-        const end = new Date();
-        end.setUTCHours(0, 0, 0, 0);
-        end.setUTCDate(end.getUTCDate() - 1);
+        const end = this.yesterdayIn(await this.tenantTimezone.getTimezone(tenantId));
 
         const start = new Date(end);
         start.setUTCDate(start.getUTCDate() - (safeDays - 1));
@@ -54,15 +64,11 @@ export class SeoRollupService {
         }
     }
 
-    async upsertYesterdayForAllTenants() {
-        const yesterday = new Date();
-        yesterday.setUTCHours(0, 0, 0, 0);
-        yesterday.setUTCDate(yesterday.getUTCDate() - 1);
-
-        const tenants = await this.prisma.tenant.findMany({ select: { id: true, name: true } });
+    async upsertYesterdayForAllTenants(now: Date = new Date()) {
+        const tenants = await this.prisma.tenant.findMany({ select: { id: true, name: true, timezone: true } });
         for (const t of tenants) {
             try {
-                await this.upsertDailySeoForTenant(t.id, yesterday);
+                await this.upsertDailySeoForTenant(t.id, this.yesterdayIn(t.timezone, now));
             } catch (e) {
                 this.logger.error(`Failed SEO rollup for tenant ${t.id} (${t.name})`, e instanceof Error ? e.stack : e);
             }
@@ -123,48 +129,9 @@ export class SeoRollupService {
         }
 
         const keywordsTotal = Math.floor(3000 + this.stableNumber(`${tenantId}:${key}:kwtotal`) * 12000);
-        const trafficCost = Math.floor((sessions * 0.8) * (0.4 + this.stableNumber(`${tenantId}:${key}:tcc`) * 1.2));
-
-        const ur = this.clamp(10 + this.stableNumber(`${tenantId}:${key}:ur`) * 70, 0, 100);
-        const dr = this.clamp(8 + this.stableNumber(`${tenantId}:${key}:dr`) * 75, 0, 100);
-        const backlinks = Math.floor(200 + this.stableNumber(`${tenantId}:${key}:bl`) * 2500);
-        const referringDomains = Math.floor(50 + this.stableNumber(`${tenantId}:${key}:rd`) * 800);
-
-        const existingOffpage = await this.prisma.seoOffpageMetricSnapshots.findFirst({
-            where: { tenantId, date: day },
-            select: { id: true },
-        });
-
-        const offpageData = {
-            ur,
-            dr,
-            backlinks,
-            referringDomains,
-            keywords: keywordsTotal,
-            trafficCost,
-            organicTraffic: sessions,
-            organicTrafficValue: trafficCost,
-            newReferringDomains: Math.floor(referringDomains * 0.01),
-            newBacklinks: Math.floor(backlinks * 0.01),
-            lostReferringDomains: Math.floor(referringDomains * 0.006),
-            lostBacklinks: Math.floor(backlinks * 0.006),
-        };
-
-        if (existingOffpage) {
-            await this.prisma.seoOffpageMetricSnapshots.update({
-                where: { id: existingOffpage.id },
-                data: offpageData,
-            });
-        } else {
-            await this.prisma.seoOffpageMetricSnapshots.create({
-                data: {
-                    tenantId,
-                    date: day,
-                    ...offpageData,
-                },
-            });
-        }
 
+        // Off-page snapshots and anchor texts are not generated here: they come from
+        // imported Ahrefs/Semrush exports (OffpageImportService)
         const intents = [
             { type: 'branded', kwShare: 0.18, trShare: 0.28 },
             { type: 'non_branded', kwShare: 0.82, trShare: 0.72 },
@@ -239,45 +206,6 @@ export class SeoRollupService {
         await this.prisma.seoTopKeywords.deleteMany({ where: { tenantId, date: day } });
         await this.prisma.seoTopKeywords.createMany({ data: topKeywordsFinal });
 
-        const anchorsBase = [
-            'rga',
-            'marketing',
-            'seo',
-            'analytics',
-            'dashboard',
-            'report',
-            'pricing',
-            'contact',
-            'case study',
-            'learn more',
-        ];
-
-        const anchorRows = anchorsBase.map((a, i) => {
-            const domains = Math.floor(5 + this.stableNumber(`${tenantId}:${key}:adom:${i}`) * (referringDomains * 0.25));
-            const totalBacklinks = Math.floor(domains * (1 + this.stableNumber(`${tenantId}:${key}:ablm:${i}`) * 8));
-            const dofollowBacklinks = Math.floor(totalBacklinks * this.clamp(0.55 + this.stableNumber(`${tenantId}:${key}:adof:${i}`) * 0.35, 0, 1));
-            const traffic = Math.floor((sessions * 0.08) * (1 - i * 0.06) * (0.9 + this.stableNumber(`${tenantId}:${key}:atr:${i}`) * 0.2));
-            return {
-                tenantId,
-                date: day,
-                anchorText: a,
-                domains,
-                totalBacklinks,
-                dofollowBacklinks,
-                referringDomains: domains,
-                traffic: Math.max(0, traffic),
-            };
-        });
-
-        const anchorTrafficTotal = anchorRows.reduce((s, r) => s + r.traffic, 0) || 1;
-        const anchorFinal = anchorRows.map(r => ({
-            ...r,
-            trafficPercentage: Number(((r.traffic / anchorTrafficTotal) * 100).toFixed(1)),
-        }));
-
-        await this.prisma.seoAnchorText.deleteMany({ where: { tenantId, date: day } });
-        await this.prisma.seoAnchorText.createMany({ data: anchorFinal });
-
         const locations = [
             { location: 'Bangkok, TH', share: 0.28 },
             { location: 'Chiang Mai, TH', share: 0.08 },
@@ -14,16 +14,17 @@ export class SeoSyncSchedulerService {
 
     @Cron(CronExpression.EVERY_6_HOURS)
     async scheduledGscSync() {
-        const tenants = await this.prisma.tenant.findMany({
-            select: { id: true },
+        const accounts = await this.prisma.searchConsoleAccount.findMany({
+            where: { status: 'ACTIVE', NOT: { siteUrls: { isEmpty: true } } },
+            select: { tenantId: true },
         });
 
-        for (const t of tenants) {
+        for (const { tenantId } of accounts) {
             try {
-                await this.seoService.syncGscForTenant(t.id, { days: 30 });
-                this.logger.log(`[GSC Sync] Completed for tenant ${t.id}`);
+                await this.seoService.syncGscForTenant(tenantId, { days: 30 });
+                this.logger.log(`[GSC Sync] Completed for tenant ${tenantId}`);
             } catch (error: any) {
-                this.logger.error(`[GSC Sync] Failed for tenant ${t.id}: ${error.message}`);
+                this.logger.error(`[GSC Sync] Failed for tenant ${tenantId}: ${error.message}`);
             }
         }
     }
@@ -3,11 +3,14 @@ import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger'
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { SeoService } from './seo.service';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
 
 @ApiTags('SEO')
 @ApiBearerAuth()
 @Controller('seo')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('seo:read')
 export class SeoController {
     constructor(private readonly seoService: SeoService) { }
 
@@ -42,35 +45,47 @@ export class SeoController {
     @Get('overview')
     @ApiOperation({ summary: 'Get SEO overview (GA4 + GSC)' })
     @ApiQuery({ name: 'period', required: false, description: 'Time period (7d, 14d, 30d, 90d). Default: 30d' })
+    @ApiQuery({ name: 'siteUrl', required: false, description: 'Search Console property. Default: all selected properties' })
     async getSeoOverview(
         @CurrentUser('tenantId') tenantId: string,
         @Query('period') period?: string,
+        @Query('siteUrl') siteUrl?: string,
     ) {
-        return this.seoService.getOverview(tenantId, period);
+        return this.seoService.getOverview(tenantId, period, siteUrl || undefined);
     }
 
     @Get('dashboard')
     @ApiOperation({ summary: 'Get SEO dashboard details (trends + top breakdown)' })
     @ApiQuery({ name: 'period', required: false, description: 'Time period (7d, 14d, 30d, 90d). Default: 30d' })
     @ApiQuery({ name: 'limit', required: false, description: 'Top N breakdown rows. Default: 10' })
+    @ApiQuery({ name: 'siteUrl', required: false, description: 'Search Console property. Default: all selected properties' })
     async getSeoDashboard(
         @CurrentUser('tenantId') tenantId: string,
         @Query('period') period?: string,
         @Query('limit') limit?: string,
+        @Query('siteUrl') siteUrl?: string,
     ) {
         const limitNum = limit ? Math.max(1, parseInt(limit, 10) || 10) : 10;
-        return this.seoService.getDashboard(tenantId, period, limitNum);
+        return this.seoService.getDashboard(tenantId, period, limitNum, siteUrl || undefined);
+    }
+
+    @Get('sites')
+    @ApiOperation({ summary: 'Get the Search Console properties synced for the tenant' })
+    async getSites(@CurrentUser('tenantId') tenantId: string) {
+        return this.seoService.getGscSites(tenantId);
     }
 
     @Post('sync/gsc')
     @ApiOperation({ summary: 'Manually sync Google Search Console data into DB' })
     @ApiQuery({ name: 'days', required: false, description: 'How many days back to sync. Default: 30' })
+    @ApiQuery({ name: 'siteUrl', required: false, description: 'Sync one selected property. Default: all selected properties' })
     async syncGsc(
         @CurrentUser('tenantId') tenantId: string,
         @Query('days') days?: string,
+        @Query('siteUrl') siteUrl?: string,
     ) {
         const daysNum = days ? Math.max(1, parseInt(days, 10) || 30) : 30;
-        return this.seoService.syncGscForTenant(tenantId, { days: daysNum });
+        return this.seoService.syncGscForTenant(tenantId, { days: daysNum, siteUrl: siteUrl || undefined });
     }
     @Get('top-keywords')
     @ApiOperation({ summary: 'Get top organic keywords' })
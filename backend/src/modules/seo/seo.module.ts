@@ -5,11 +5,35 @@ import { SeoController } from './seo.controller';
 import { SeoService } from './seo.service';
 import { GoogleSearchConsoleService } from './google-search-console.service';
 import { SeoSyncSchedulerService } from './seo-sync-scheduler.service';
+import { SearchConsoleOAuthService } from './search-console-oauth.service';
+import { SearchConsoleAuthController } from './search-console-auth.controller';
+import { SearchConsoleIntegrationController } from './search-console-integration.controller';
+import { KeywordTrackingService } from './keyword-tracking.service';
+import { KeywordTrackingController } from './keyword-tracking.controller';
+import { OffpageImportService } from './offpage-import.service';
+import { OffpageImportController } from './offpage-import.controller';
+import { SeoOpportunitiesService } from './seo-opportunities.service';
+import { SeoOpportunitiesController } from './seo-opportunities.controller';
 
 @Module({
     imports: [PrismaModule, ConfigModule],
-    controllers: [SeoController],
-    providers: [SeoService, GoogleSearchConsoleService, SeoSyncSchedulerService],
-    exports: [SeoService],
+    controllers: [
+        SeoController,
+        KeywordTrackingController,
+        OffpageImportController,
+        SeoOpportunitiesController,
+        SearchConsoleAuthController,
+        SearchConsoleIntegrationController,
+    ],
+    providers: [
+        SeoService,
+        GoogleSearchConsoleService,
+        SeoSyncSchedulerService,
+        SearchConsoleOAuthService,
+        KeywordTrackingService,
+        OffpageImportService,
+        SeoOpportunitiesService,
+    ],
+    exports: [SeoService, GoogleSearchConsoleService],
 })
 export class SeoModule { }
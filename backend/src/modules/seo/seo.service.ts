@@ -3,6 +3,8 @@ import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { DateRangeUtil } from '../../common/utils/date-range.util';
 import { GoogleSearchConsoleService } from './google-search-console.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { KeywordTrackingService } from './keyword-tracking.service';
 
 function toNumber(value: Prisma.Decimal | number | string | null | undefined, defaultValue = 0): number {
     if (value === null || value === undefined) return defaultValue;
@@ -35,23 +37,27 @@ export class SeoService {
     constructor(
         private readonly prisma: PrismaService,
         private readonly gscService: GoogleSearchConsoleService,
+        private readonly tenantTimezone: TenantTimezoneService,
+        private readonly keywordTracking: KeywordTrackingService,
     ) { }
 
+    /**
+     * Last `days` days on the tenant's calendar plus the preceding window of the same length
+     */
+    private async tenantRanges(tenantId: string, days: number) {
+        const { startDate, endDate } = DateRangeUtil.getDateRange(days, await this.tenantTimezone.getTimezone(tenantId));
+        const previous = DateRangeUtil.getPreviousPeriodDateRange(startDate, days);
+        return { startDate, endDate, previousStartDate: previous.startDate, previousEndDate: previous.endDate };
+    }
+
     // ========================================================================
     // HEAD Methods (Legacy/Simple Aggregations)
     // ========================================================================
 
     async getSeoSummary(tenantId: string) {
         try {
-            // Current Period (Last 30 days)
-            const endDate = new Date();
-            const startDate = new Date();
-            startDate.setDate(startDate.getDate() - 30);
-
-            // Previous Period (30-60 days ago)
-            const previousStartDate = new Date(startDate);
-            previousStartDate.setDate(previousStartDate.getDate() - 30);
-            const previousEndDate = new Date(startDate);
+            // Current Period (Last 30 days) and Previous Period (30-60 days ago)
+            const { startDate, endDate, previousStartDate, previousEndDate } = await this.tenantRanges(tenantId, 30);
 
             // 1. Get web analytics data (Current & Previous)
             const webAnalyticsData = await this.prisma.webAnalyticsDaily.findMany({
@@ -242,9 +248,7 @@ export class SeoService {
     }
 
     async getSeoHistory(tenantId: string, days: number = 30) {
-        const endDate = new Date();
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - days);
+        const { startDate, endDate } = await this.tenantRanges(tenantId, days);
 
         // 1. Fetch Organic Data (WebAnalyticsDaily) - aggregate for 30 days
         const organicData = await this.prisma.webAnalyticsDaily.findMany({
@@ -387,15 +391,8 @@ export class SeoService {
     }
 
     async getSeoKeywordIntent(tenantId: string) {
-        // Current Period (Last 30 days)
-        const endDate = new Date();
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - 30);
-
-        // Previous Period (30-60 days ago)
-        const previousStartDate = new Date(startDate);
-        previousStartDate.setDate(previousStartDate.getDate() - 30);
-        const previousEndDate = new Date(startDate);
+        // Current Period (Last 30 days) and Previous Period (30-60 days ago)
+        const { startDate, endDate, previousStartDate, previousEndDate } = await this.tenantRanges(tenantId, 30);
 
         try {
             // 1. Fetch Current Data
@@ -460,9 +457,7 @@ export class SeoService {
 
     async getSeoTrafficByLocation(tenantId: string) {
         // Calculate date range (last 30 days)
-        const endDate = new Date();
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - 30);
+        const { startDate, endDate } = await this.tenantRanges(tenantId, 30);
 
         try {
             // Fetch traffic by location from dedicated table
@@ -537,83 +532,54 @@ export class SeoService {
     // WIP Methods (GSC Integration & New Dashboard)
     // ========================================================================
 
-    async getOverview(tenantId: string, period?: string) {
-        const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
-        const days = DateRangeUtil.parsePeriodDays(period || '30d');
-        const { startDate, endDate } = DateRangeUtil.getDateRange(days);
-
-        const tenant = await this.prisma.tenant.findUnique({
-            where: { id: tenantId },
-            select: { settings: true },
+    /**
+     * Search Console properties a report covers: the requested one, else every property selected
+     * on the tenant's connection, else (not connected) the property with the latest synced rows
+     */
+    async resolveGscSites(tenantId: string, siteUrl?: string) {
+        const account = await this.prisma.searchConsoleAccount.findFirst({
+            where: { tenantId, status: 'ACTIVE' },
+            select: { siteUrls: true },
         });
 
-        const configuredSiteUrl = this.gscService.getSiteUrl(tenant?.settings);
-        const hasCredentials = this.gscService.hasCredentials();
-        let siteUrl = configuredSiteUrl;
-        let gscDataCount = 0;
+        if (siteUrl) return { accountConnected: !!account, siteUrls: [siteUrl] };
+        if (account?.siteUrls.length) return { accountConnected: true, siteUrls: account.siteUrls };
 
-        if (!hideMockData) {
-            if (siteUrl) {
-                gscDataCount = await this.prisma.searchConsolePerformance.count({
-                    where: { tenantId, siteUrl, date: { gte: startDate, lte: endDate } },
-                });
+        // GSC rows have no isMockData flag; they are only written by a sync, so this is safe with HIDE_MOCK_DATA
+        const latest = await this.prisma.searchConsolePerformance.findFirst({
+            where: { tenantId },
+            orderBy: { date: 'desc' },
+            select: { siteUrl: true },
+        });
+        return { accountConnected: !!account, siteUrls: latest ? [latest.siteUrl] : [] };
+    }
 
-                if (gscDataCount === 0) {
-                    const latest = await this.prisma.searchConsolePerformance.findFirst({
-                        where: { tenantId },
-                        orderBy: { date: 'desc' },
-                        select: { siteUrl: true },
-                    });
+    async getGscSites(tenantId: string) {
+        const account = await this.prisma.searchConsoleAccount.findFirst({
+            where: { tenantId, status: 'ACTIVE' },
+            select: { siteUrls: true, lastSyncAt: true },
+        });
 
-                    if (latest?.siteUrl && latest.siteUrl !== siteUrl) {
-                        siteUrl = latest.siteUrl;
-                        gscDataCount = await this.prisma.searchConsolePerformance.count({
-                            where: { tenantId, siteUrl, date: { gte: startDate, lte: endDate } },
-                        });
-                    }
-                }
-            } else {
-                const latest = await this.prisma.searchConsolePerformance.findFirst({
-                    where: { tenantId },
-                    orderBy: { date: 'desc' },
-                    select: { siteUrl: true },
-                });
+        return {
+            connected: !!account,
+            siteUrls: account?.siteUrls ?? [],
+            lastSyncAt: account?.lastSyncAt ?? null,
+        };
+    }
 
-                if (latest?.siteUrl) {
-                    siteUrl = latest.siteUrl;
-                    gscDataCount = await this.prisma.searchConsolePerformance.count({
-                        where: { tenantId, siteUrl, date: { gte: startDate, lte: endDate } },
-                    });
-                }
-            }
-        } else {
-            // When hiding mock data, do NOT attempt DB fallback for GSC siteUrl.
-            // GSC rows have no isMockData flag, so fallback could surface demo data.
-            if (siteUrl) {
-                gscDataCount = await this.prisma.searchConsolePerformance.count({
-                    where: { tenantId, siteUrl, date: { gte: startDate, lte: endDate } },
-                });
-            } else {
-                // Fallback to latest siteUrl even when HIDE_MOCK_DATA=true
-                // GSC table has no is_mock_data flag, so this is safe
-                const latest = await this.prisma.searchConsolePerformance.findFirst({
-                    where: { tenantId },
-                    orderBy: { date: 'desc' },
-                    select: { siteUrl: true },
-                });
+    async getOverview(tenantId: string, period?: string, siteUrl?: string) {
+        const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
+        const days = DateRangeUtil.parsePeriodDays(period || '30d');
+        const { startDate, endDate } = await this.tenantRanges(tenantId, days);
 
-                if (latest?.siteUrl) {
-                    siteUrl = latest.siteUrl;
-                    gscDataCount = await this.prisma.searchConsolePerformance.count({
-                        where: { tenantId, siteUrl, date: { gte: startDate, lte: endDate } },
-                    });
-                }
-            }
-        }
+        const { accountConnected, siteUrls } = await this.resolveGscSites(tenantId, siteUrl);
+        const gscDataCount = siteUrls.length
+            ? await this.prisma.searchConsolePerformance.count({
+                where: { tenantId, siteUrl: { in: siteUrls }, date: { gte: startDate, lte: endDate } },
+            })
+            : 0;
 
-        const gscConnected = hideMockData
-            ? (gscDataCount > 0)
-            : ((!!configuredSiteUrl && hasCredentials) || gscDataCount > 0);
+        const gscConnected = accountConnected || gscDataCount > 0;
 
         const ga4Account = await this.prisma.googleAnalyticsAccount.findFirst({
             where: { tenantId, status: 'ACTIVE' },
@@ -640,9 +606,9 @@ export class SeoService {
         let gscImpressions = 0;
         let gscPositionAvg = 0;
 
-        if (gscConnected) {
+        if (gscConnected && siteUrls.length) {
             const gscAgg = await this.prisma.searchConsolePerformance.aggregate({
-                where: { tenantId, siteUrl: siteUrl!, date: { gte: startDate, lte: endDate } },
+                where: { tenantId, siteUrl: { in: siteUrls }, date: { gte: startDate, lte: endDate } },
                 _sum: { clicks: true, impressions: true },
                 _avg: { position: true },
             });
@@ -672,7 +638,8 @@ export class SeoService {
                 avgSessionDurationAvg: toNumber(ga4Agg._avg.avgSessionDuration),
             },
             gsc: {
-                siteUrl: siteUrl,
+                siteUrl: siteUrls.length === 1 ? siteUrls[0] : null,
+                siteUrls,
                 clicks: gscClicks,
                 impressions: gscImpressions,
                 ctr: calculateCtr(gscClicks, gscImpressions),
@@ -681,12 +648,12 @@ export class SeoService {
         };
     }
 
-    async getDashboard(tenantId: string, period?: string, limit: number = 10) {
+    async getDashboard(tenantId: string, period?: string, limit: number = 10, siteUrl?: string) {
         const hideMockData = process.env.HIDE_MOCK_DATA === 'true';
         const days = DateRangeUtil.parsePeriodDays(period || '30d');
-        const { startDate, endDate } = DateRangeUtil.getDateRange(days);
+        const { startDate, endDate } = await this.tenantRanges(tenantId, days);
 
-        const overview = await this.getOverview(tenantId, period);
+        const overview = await this.getOverview(tenantId, period, siteUrl);
 
         const ga4Daily = await this.prisma.webAnalyticsDaily.findMany({
             where: { tenantId, date: { gte: startDate, lte: endDate }, ...(hideMockData ? { isMockData: false } : {}) },
@@ -709,8 +676,8 @@ export class SeoService {
         let topCountries: Array<any> = [];
         let topDevices: Array<any> = [];
 
-        if (overview.connected.gsc && overview.gsc.siteUrl) {
-            const siteUrl = overview.gsc.siteUrl;
+        if (overview.connected.gsc && overview.gsc.siteUrls.length) {
+            const siteUrl = { in: overview.gsc.siteUrls };
 
             const dailyRows = await this.prisma.searchConsolePerformance.groupBy({
                 by: ['date'],
@@ -824,20 +791,55 @@ export class SeoService {
         };
     }
 
-    async syncGscForTenant(tenantId: string, options?: { days?: number }) {
+    /**
+     * Pull the last `days` days of Search Console rows for every selected property
+     * (or just `siteUrl`) with the tenant's own OAuth connection
+     */
+    async syncGscForTenant(tenantId: string, options?: { days?: number; siteUrl?: string }) {
         const days = options?.days ?? 30;
 
-        const tenant = await this.prisma.tenant.findUnique({
-            where: { id: tenantId },
-            select: { settings: true },
+        const account = await this.prisma.searchConsoleAccount.findFirst({
+            where: { tenantId, status: 'ACTIVE' },
         });
+        if (!account || account.siteUrls.length === 0) {
+            return { success: false, message: 'GSC not connected' };
+        }
 
-        const siteUrl = this.gscService.getSiteUrl(tenant?.settings);
-        if (!siteUrl || !this.gscService.hasCredentials()) {
-            return { success: false, message: 'GSC not configured' };
+        const siteUrls = options?.siteUrl ? account.siteUrls.filter((u) => u === options.siteUrl) : account.siteUrls;
+        if (siteUrls.length === 0) {
+            return { success: false, message: `GSC property ${options?.siteUrl} is not selected` };
         }
 
-        const { startDate, endDate } = DateRangeUtil.getDateRange(days);
+        const { startDate, endDate } = await this.tenantRanges(tenantId, days);
+        const auth = await this.gscService.getAccountAuth(account);
+
+        const sites = [];
+        for (const siteUrl of siteUrls) {
+            sites.push(await this.syncGscSite(auth, tenantId, siteUrl, startDate, endDate));
+        }
+
+        await this.prisma.searchConsoleAccount.update({
+            where: { id: account.id },
+            data: { lastSyncAt: new Date() },
+        });
+        await this.keywordTracking.rebuildHistory(tenantId, days);
+
+        return {
+            success: true,
+            fetched: sites.reduce((sum, site) => sum + site.fetched, 0),
+            inserted: sites.reduce((sum, site) => sum + site.inserted, 0),
+            dateRange: { from: toIsoDateOnly(startDate), to: toIsoDateOnly(endDate) },
+            sites,
+        };
+    }
+
+    private async syncGscSite(
+        auth: Awaited<ReturnType<GoogleSearchConsoleService['getAccountAuth']>>,
+        tenantId: string,
+        siteUrl: string,
+        startDate: Date,
+        endDate: Date,
+    ) {
         const startDateStr = toIsoDateOnly(startDate);
         const endDateStr = toIsoDateOnly(endDate);
 
@@ -846,7 +848,7 @@ export class SeoService {
         const allRows: any[] = [];
 
         while (true) {
-            const report = await this.gscService.querySearchAnalytics({
+            const report = await this.gscService.querySearchAnalytics(auth, {
                 siteUrl,
                 startDate: startDateStr,
                 endDate: endDateStr,
@@ -911,16 +913,11 @@ export class SeoService {
             });
         }
 
-        this.logger.log(`[GSC Sync] Tenant ${tenantId}: inserted ${data.length} rows (${startDateStr}..${endDateStr})`);
+        this.logger.log(`[GSC Sync] Tenant ${tenantId} ${siteUrl}: inserted ${data.length} rows (${startDateStr}..${endDateStr})`);
 
-        return {
-            success: true,
-            fetched: allRows.length,
-            inserted: data.length,
-            dateRange: { from: startDateStr, to: endDateStr },
-            siteUrl,
-        };
+        return { siteUrl, fetched: allRows.length, inserted: data.length };
     }
+
     async getTopKeywords(tenantId: string) {
         try {
             // Fetch top keywords from SeoTopKeywords table
@@ -991,10 +988,18 @@ export class SeoService {
 
     async getAnchorTexts(tenantId: string) {
         try {
-            // Fetch anchor texts from SeoAnchorText table
+            // Anchors are stored per import date: only show the latest one
+            const latest = await this.prisma.seoAnchorText.findFirst({
+                where: { tenantId },
+                orderBy: { date: 'desc' },
+                select: { date: true }
+            });
+            if (!latest) return [];
+
             const anchorTexts = await this.prisma.seoAnchorText.findMany({
                 where: {
-                    tenantId
+                    tenantId,
+                    date: latest.date
                 },
                 orderBy: {
                     referringDomains: 'desc'
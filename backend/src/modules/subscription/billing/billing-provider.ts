@@ -0,0 +1,37 @@
+import type { SubscriptionPlan } from '@prisma/client';
+import type { IncomingHttpHeaders } from 'http';
+
+/** Billing events the subscription lifecycle reacts to */
+export type BillingEventType =
+    | 'subscription.activated'
+    | 'subscription.renewed'
+    | 'subscription.updated'
+    | 'subscription.canceled'
+    | 'subscription.expired'
+    | 'invoice.payment_failed';
+
+/** A verified webhook delivery, normalized from the provider's format */
+export interface BillingEvent {
+    /** Provider's event id; redeliveries reuse it */
+    id: string;
+    type: BillingEventType | string;
+    tenantId?: string;
+    customerId?: string;
+    plan?: SubscriptionPlan;
+    /** End of the paid period (or of the subscription once canceled) */
+    currentPeriodEnd?: Date;
+    /** When the provider created the event; used to skip deliveries that arrive out of order */
+    occurredAt?: Date;
+    payload: Record<string, unknown>;
+}
+
+/**
+ * A billing provider integration. verifyAndParse must reject deliveries whose
+ * signature does not match the raw request body.
+ */
+export interface BillingProvider {
+    readonly name: string;
+    verifyAndParse(rawBody: Buffer, headers: IncomingHttpHeaders): BillingEvent;
+}
+
+export const BILLING_PROVIDERS = Symbol('BILLING_PROVIDERS');
@@ -0,0 +1,29 @@
+import { Controller, Post, Param, Req, HttpCode, HttpStatus, RawBodyRequest, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiHeader, ApiResponse } from '@nestjs/swagger';
+import { Request } from 'express';
+import { BillingWebhookService } from './billing-webhook.service';
+import { SIGNATURE_HEADER } from './hmac-billing-provider';
+
+/**
+ * Inbound billing provider events.
+ * Not behind JWT: deliveries are authenticated by their signature over the raw body.
+ */
+@ApiTags('Billing')
+@Controller('billing/webhooks')
+export class BillingWebhookController {
+    constructor(private readonly webhookService: BillingWebhookService) { }
+
+    @Post(':provider')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Receive a subscription event from the billing provider' })
+    @ApiParam({ name: 'provider', description: 'Billing provider, e.g. generic' })
+    @ApiHeader({ name: SIGNATURE_HEADER, description: 't=<unix seconds>,v1=<HMAC-SHA256 hex> (generic provider)' })
+    @ApiResponse({ status: 200, description: 'Event received (duplicates are acknowledged)' })
+    @ApiResponse({ status: 401, description: 'Invalid or expired signature' })
+    receive(@Param('provider') provider: string, @Req() req: RawBodyRequest<Request>) {
+        if (!req.rawBody) {
+            throw new BadRequestException('Billing webhooks need the raw request body');
+        }
+        return this.webhookService.handle(provider, req.rawBody, req.headers);
+    }
+}
@@ -0,0 +1,155 @@
+/**
+ * Billing Webhook Unit Tests
+ * @module billing-webhook.service.spec
+ * @description Signed billing provider events:
+ *   - Signatures are checked over the raw body and expire after 5 minutes
+ *   - Fixture payloads map to lifecycle changes
+ *   - Redelivered events are applied once, also when two deliveries race
+ *   - Subscription events older than an applied one are recorded but not applied
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { BillingWebhookService } from './billing-webhook.service';
+import { HmacBillingProvider, SIGNATURE_HEADER, signBillingPayload } from './hmac-billing-provider';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const SECRET = 'whsec_test';
+const TENANT_ID = '5b0f1a3e-8c2d-4a44-9a31-0f6f3c2b7d11';
+
+function fixture(name: string, tenantId = TENANT_ID): Buffer {
+    const event = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf8'));
+    event.data.tenantId = tenantId;
+    return Buffer.from(JSON.stringify(event));
+}
+
+const signed = (body: Buffer, timestamp?: number) => ({ [SIGNATURE_HEADER]: signBillingPayload(body, SECRET, timestamp) });
+
+function setup(existingEvent: Record<string, any> | null = null) {
+    const prisma = {
+        billingEvent: {
+            findUnique: jest.fn().mockResolvedValue(existingEvent),
+            create: jest.fn().mockResolvedValue({ id: 'billing-event-001' }),
+            update: jest.fn(),
+            findFirst: jest.fn().mockResolvedValue(null),
+        },
+        tenant: {
+            findUnique: jest.fn().mockResolvedValue({ id: TENANT_ID }),
+        },
+    };
+    const lifecycle = {
+        activate: jest.fn(),
+        cancelAtPeriodEnd: jest.fn(),
+        expireNow: jest.fn(),
+    };
+    const auditLogsService = { createLog: jest.fn() };
+    const provider = new HmacBillingProvider(new ConfigService({ BILLING_WEBHOOK_SECRET: SECRET }));
+    const service = new BillingWebhookService(prisma as any, auditLogsService as any, lifecycle as any, [provider]);
+
+    return { service, prisma, lifecycle, provider };
+}
+
+describe('HmacBillingProvider', () => {
+    it('accepts a signed fixture and normalizes it', () => {
+        const { provider } = setup();
+        const body = fixture('subscription-activated');
+
+        expect(provider.verifyAndParse(body, signed(body))).toMatchObject({
+            id: 'evt_fixture_activated',
+            type: 'subscription.activated',
+            tenantId: TENANT_ID,
+            customerId: 'cus_fixture_001',
+            plan: 'STANDARD',
+            currentPeriodEnd: new Date('2026-12-01T00:00:00.000Z'),
+            occurredAt: new Date('2026-10-18T00:00:00.000Z'),
+        });
+    });
+
+    it('rejects tampered bodies and stale signatures', () => {
+        const { provider } = setup();
+        const body = fixture('subscription-activated');
+        const tampered = Buffer.from(body.toString().replace('STANDARD', 'ENTERPRISE'));
+        const tenMinutesAgo = Math.floor(Date.now() / 1000) - 600;
+
+        expect(() => provider.verifyAndParse(tampered, signed(body))).toThrow(UnauthorizedException);
+        expect(() => provider.verifyAndParse(body, signed(body, tenMinutesAgo))).toThrow('expired');
+        expect(() => provider.verifyAndParse(body, {})).toThrow('Missing billing signature');
+    });
+});
+
+describe('BillingWebhookService', () => {
+    it('applies an activation and records the event as processed', async () => {
+        const { service, prisma, lifecycle } = setup();
+        const body = fixture('subscription-activated');
+
+        await expect(service.handle('generic', body, signed(body))).resolves.toEqual({ received: true, processed: true });
+
+        expect(lifecycle.activate).toHaveBeenCalledWith(TENANT_ID, {
+            plan: 'STANDARD',
+            endsAt: new Date('2026-12-01T00:00:00.000Z'),
+            billingCustomerId: 'cus_fixture_001',
+        });
+        expect(prisma.billingEvent.update).toHaveBeenCalledWith({
+            where: { id: 'billing-event-001' },
+            data: { tenantId: TENANT_ID, processedAt: expect.any(Date), error: null },
+        });
+    });
+
+    it('schedules cancellation at the end of the paid period', async () => {
+        const { service, lifecycle } = setup();
+        const body = fixture('subscription-canceled');
+
+        await service.handle('generic', body, signed(body));
+
+        expect(lifecycle.cancelAtPeriodEnd).toHaveBeenCalledWith(TENANT_ID, new Date('2026-12-01T00:00:00.000Z'));
+    });
+
+    it('acknowledges redelivered events without applying them again', async () => {
+        const { service, prisma, lifecycle } = setup({ id: 'billing-event-001', processedAt: new Date() });
+        const body = fixture('subscription-expired');
+
+        await expect(service.handle('generic', body, signed(body))).resolves.toMatchObject({ duplicate: true });
+
+        expect(lifecycle.expireNow).not.toHaveBeenCalled();
+        expect(prisma.billingEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('treats a concurrent delivery that stored the event first as a duplicate', async () => {
+        const { service, prisma, lifecycle } = setup();
+        prisma.billingEvent.create.mockRejectedValue(
+            new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' }),
+        );
+        const body = fixture('subscription-expired');
+
+        await expect(service.handle('generic', body, signed(body))).resolves.toEqual({
+            received: true,
+            duplicate: true,
+            processed: false,
+        });
+        expect(lifecycle.expireNow).not.toHaveBeenCalled();
+    });
+
+    it('records but does not apply a subscription event older than one already applied', async () => {
+        const { service, prisma, lifecycle } = setup();
+        prisma.billingEvent.findFirst.mockResolvedValue({ eventId: 'evt_renewed_later' });
+        const body = fixture('subscription-canceled');
+
+        await expect(service.handle('generic', body, signed(body))).resolves.toEqual({ received: true, processed: false });
+
+        expect(prisma.billingEvent.findFirst.mock.calls[0][0].where).toMatchObject({
+            tenantId: TENANT_ID,
+            occurredAt: { gt: new Date('2026-10-20T00:00:00.000Z') },
+        });
+        expect(lifecycle.cancelAtPeriodEnd).not.toHaveBeenCalled();
+        expect(prisma.billingEvent.update).toHaveBeenCalledWith({
+            where: { id: 'billing-event-001' },
+            data: { tenantId: TENANT_ID, processedAt: expect.any(Date), error: 'Superseded by event evt_renewed_later' },
+        });
+    });
+});
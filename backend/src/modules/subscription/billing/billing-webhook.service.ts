@@ -0,0 +1,182 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { isUUID } from 'class-validator';
+import type { IncomingHttpHeaders } from 'http';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuditLogsService } from '../../audit-logs/audit-logs.service';
+import { SubscriptionLifecycleService } from '../subscription-lifecycle.service';
+import { BILLING_PROVIDERS, BillingEvent, BillingProvider } from './billing-provider';
+
+export interface BillingWebhookResult {
+    received: true;
+    duplicate?: boolean;
+    processed: boolean;
+}
+
+/**
+ * Billing Webhooks - verifies deliveries with the provider, stores each event
+ * once and applies it to the tenant's subscription. Subscription events that
+ * arrive after a newer one was applied are recorded but not applied.
+ */
+@Injectable()
+export class BillingWebhookService {
+    private readonly logger = new Logger(BillingWebhookService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly auditLogsService: AuditLogsService,
+        private readonly lifecycle: SubscriptionLifecycleService,
+        @Inject(BILLING_PROVIDERS) private readonly providers: BillingProvider[],
+    ) { }
+
+    async handle(providerName: string, rawBody: Buffer, headers: IncomingHttpHeaders): Promise<BillingWebhookResult> {
+        const provider = this.providers.find((p) => p.name === providerName);
+        if (!provider) {
+            throw new NotFoundException(`Unknown billing provider "${providerName}"`);
+        }
+
+        const event = provider.verifyAndParse(rawBody, headers);
+        const key = { provider: provider.name, eventId: event.id };
+
+        // Redeliveries of applied events are acknowledged without side effects;
+        // failed ones are retried
+        const existing = await this.prisma.billingEvent.findUnique({
+            where: { billing_events_provider_event_unique: key },
+        });
+        if (existing?.processedAt) {
+            return { received: true, duplicate: true, processed: true };
+        }
+
+        const tenantId = await this.resolveTenantId(event);
+        const record = existing ?? await this.record(event, key, tenantId);
+        if (!record) {
+            // A concurrent delivery of the same event stored it first and is applying it
+            return { received: true, duplicate: true, processed: false };
+        }
+
+        if (!tenantId) {
+            // Nothing to retry for: acknowledge so the provider stops redelivering
+            await this.prisma.billingEvent.update({
+                where: { id: record.id },
+                data: { error: 'No tenant matches this event' },
+            });
+            this.logger.warn(`[Billing] ${provider.name} event ${event.id} (${event.type}) matches no tenant`);
+            return { received: true, processed: false };
+        }
+
+        const newer = await this.findNewerEvent(event, tenantId);
+        if (newer) {
+            await this.prisma.billingEvent.update({
+                where: { id: record.id },
+                data: { tenantId, processedAt: new Date(), error: `Superseded by event ${newer.eventId}` },
+            });
+            this.logger.warn(`[Billing] Skipping ${provider.name} event ${event.id} (${event.type}): ${newer.eventId} is newer`);
+            return { received: true, processed: false };
+        }
+
+        try {
+            await this.apply(event, tenantId);
+        } catch (error: any) {
+            await this.prisma.billingEvent.update({
+                where: { id: record.id },
+                data: { tenantId, error: error.message },
+            });
+            throw error;
+        }
+
+        await this.prisma.billingEvent.update({
+            where: { id: record.id },
+            data: { tenantId, processedAt: new Date(), error: null },
+        });
+        return { received: true, processed: true };
+    }
+
+    /**
+     * Store the delivery; null when a concurrent delivery inserted it first
+     */
+    private async record(event: BillingEvent, key: { provider: string; eventId: string }, tenantId: string | null) {
+        try {
+            return await this.prisma.billingEvent.create({
+                data: {
+                    ...key,
+                    type: event.type,
+                    tenantId,
+                    occurredAt: event.occurredAt,
+                    payload: event.payload as Prisma.InputJsonValue,
+                },
+            });
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * An applied subscription event for the tenant created after this one,
+     * e.g. a renewal that already replaced the state a late cancellation describes
+     */
+    private async findNewerEvent(event: BillingEvent, tenantId: string) {
+        if (!event.occurredAt || !event.type.startsWith('subscription.')) return null;
+
+        return this.prisma.billingEvent.findFirst({
+            where: {
+                tenantId,
+                type: { startsWith: 'subscription.' },
+                occurredAt: { gt: event.occurredAt },
+                processedAt: { not: null },
+                error: null,
+            },
+            orderBy: { occurredAt: 'desc' },
+            select: { eventId: true },
+        });
+    }
+
+    private async apply(event: BillingEvent, tenantId: string): Promise<void> {
+        switch (event.type) {
+            case 'subscription.activated':
+            case 'subscription.renewed':
+            case 'subscription.updated':
+                await this.lifecycle.activate(tenantId, {
+                    plan: event.plan,
+                    endsAt: event.currentPeriodEnd,
+                    billingCustomerId: event.customerId,
+                });
+                return;
+            case 'subscription.canceled':
+                await this.lifecycle.cancelAtPeriodEnd(tenantId, event.currentPeriodEnd ?? new Date());
+                return;
+            case 'subscription.expired':
+                await this.lifecycle.expireNow(tenantId);
+                return;
+            case 'invoice.payment_failed':
+                // The provider retries the charge; expiry follows from its subscription events
+                await this.auditLogsService.createLog({
+                    tenantId,
+                    action: 'SUBSCRIPTION_PAYMENT_FAILED',
+                    resource: 'subscription',
+                    entityId: tenantId,
+                    details: { eventId: event.id },
+                });
+                return;
+            default:
+                this.logger.log(`[Billing] Ignoring event type ${event.type}`);
+        }
+    }
+
+    private async resolveTenantId(event: BillingEvent): Promise<string | null> {
+        if (event.tenantId && isUUID(event.tenantId)) {
+            const tenant = await this.prisma.tenant.findUnique({ where: { id: event.tenantId }, select: { id: true } });
+            if (tenant) return tenant.id;
+        }
+        if (event.customerId) {
+            const tenant = await this.prisma.tenant.findUnique({
+                where: { billingCustomerId: event.customerId },
+                select: { id: true },
+            });
+            if (tenant) return tenant.id;
+        }
+        return null;
+    }
+}
@@ -0,0 +1,107 @@
+import { Injectable, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SubscriptionPlan } from '@prisma/client';
+import * as crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { BillingEvent, BillingProvider } from './billing-provider';
+
+export const SIGNATURE_HEADER = 'x-billing-signature';
+
+/** Deliveries older than this are rejected to stop replays */
+const TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Sign a payload the way HmacBillingProvider expects:
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export function signBillingPayload(body: string | Buffer, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body.toString()}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Generic provider: JSON events signed with a shared secret
+ * (BILLING_WEBHOOK_SECRET), in the Stripe-style `t=...,v1=...` scheme.
+ *
+ * Payload: { id, type, created?, data: { tenantId?, customerId?, plan?, currentPeriodEnd? } }
+ * (`created` is the event's unix timestamp, used to order late deliveries)
+ */
+@Injectable()
+export class HmacBillingProvider implements BillingProvider {
+    readonly name = 'generic';
+
+    constructor(private readonly config: ConfigService) { }
+
+    verifyAndParse(rawBody: Buffer, headers: IncomingHttpHeaders, now = Date.now()): BillingEvent {
+        const secret = this.config.get<string>('BILLING_WEBHOOK_SECRET');
+        if (!secret) {
+            throw new UnauthorizedException('Billing webhooks are not configured');
+        }
+
+        const header = headers[SIGNATURE_HEADER];
+        const parts = Object.fromEntries(
+            String(Array.isArray(header) ? header[0] : header ?? '')
+                .split(',')
+                .map((part) => part.split('=') as [string, string]),
+        );
+        const timestamp = Number(parts.t);
+        if (!parts.v1 || !Number.isFinite(timestamp)) {
+            throw new UnauthorizedException('Missing billing signature');
+        }
+        if (Math.abs(now / 1000 - timestamp) > TOLERANCE_SECONDS) {
+            throw new UnauthorizedException('Billing signature has expired');
+        }
+
+        const expected = signBillingPayload(rawBody, secret, timestamp).split('v1=')[1];
+        const received = Buffer.from(parts.v1, 'hex');
+        if (received.length !== expected.length / 2 || !crypto.timingSafeEqual(received, Buffer.from(expected, 'hex'))) {
+            throw new UnauthorizedException('Invalid billing signature');
+        }
+
+        return this.parse(rawBody);
+    }
+
+    private parse(rawBody: Buffer): BillingEvent {
+        let payload: unknown;
+        try {
+            payload = JSON.parse(rawBody.toString('utf8'));
+        } catch {
+            throw new BadRequestException('Billing event is not valid JSON');
+        }
+        if (!isRecord(payload) || typeof payload.id !== 'string' || typeof payload.type !== 'string') {
+            throw new BadRequestException('Billing event needs an id and a type');
+        }
+
+        const data = isRecord(payload.data) ? payload.data : {};
+        const plan = typeof data.plan === 'string' ? data.plan.toUpperCase() : undefined;
+        if (plan && !(plan in SubscriptionPlan)) {
+            throw new BadRequestException(`Unknown plan "${data.plan}"`);
+        }
+        const periodEnd = data.currentPeriodEnd;
+        const currentPeriodEnd = typeof periodEnd === 'string' || typeof periodEnd === 'number'
+            ? new Date(periodEnd)
+            : undefined;
+        if (currentPeriodEnd && Number.isNaN(currentPeriodEnd.getTime())) {
+            throw new BadRequestException('currentPeriodEnd is not a valid date');
+        }
+        const occurredAt = typeof payload.created === 'number' ? new Date(payload.created * 1000) : undefined;
+        if (payload.created !== undefined && (!occurredAt || Number.isNaN(occurredAt.getTime()))) {
+            throw new BadRequestException('created is not a valid unix timestamp');
+        }
+
+        return {
+            id: payload.id,
+            type: payload.type,
+            tenantId: typeof data.tenantId === 'string' ? data.tenantId : undefined,
+            customerId: typeof data.customerId === 'string' ? data.customerId : undefined,
+            plan: plan as SubscriptionPlan | undefined,
+            currentPeriodEnd,
+            occurredAt,
+            payload,
+        };
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,210 @@
+/**
+ * Subscription Lifecycle Unit Tests
+ * @module subscription-lifecycle.service.spec
+ * @description Tenant subscription states over time:
+ *   - Registration starts a trial on the trial plan
+ *   - T-7 and T-1 reminders are emailed once per end date
+ *   - Ended subscriptions expire and admins learn about the read-only grace period
+ *   - Plan changes pause the newest accounts over the limit and resume them after an upgrade
+ *   - Resumed accounts get back the status they had when paused; disconnected accounts are ignored
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { SubscriptionPlan, SubscriptionStatus } from '@prisma/client';
+import { EntitlementsService } from '../entitlements/entitlements.service';
+import { dueReminder, PLAN_LIMIT_STATUS, SubscriptionLifecycleService } from './subscription-lifecycle.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const NOW = new Date('2026-10-18T09:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const inDays = (days: number) => new Date(NOW.getTime() + days * DAY_MS);
+
+function tenant(overrides: Record<string, any> = {}) {
+    return {
+        id: TENANT_ID,
+        name: 'Acme',
+        subscriptionPlan: SubscriptionPlan.STANDARD,
+        subscriptionStatus: SubscriptionStatus.TRIAL,
+        subscriptionEndsAt: inDays(6),
+        subscriptionReminderDays: null,
+        deletedAt: null,
+        ...overrides,
+    };
+}
+
+const accountModel = (rows: any[] = []) => ({
+    findMany: jest.fn().mockResolvedValue(rows),
+    update: jest.fn(),
+});
+
+function setup(current = tenant(), accounts: Record<string, any[]> = {}, pauses: any[] = []) {
+    const prisma = {
+        integrationLimitPause: {
+            upsert: jest.fn(),
+            findUnique: jest.fn().mockImplementation(async ({ where }) => {
+                const { platform, accountId } = where.integration_limit_pauses_platform_account_unique;
+                return pauses.find((pause) => pause.platform === platform && pause.accountId === accountId) ?? null;
+            }),
+            delete: jest.fn(),
+        },
+        tenant: {
+            findUnique: jest.fn().mockResolvedValue(current),
+            findMany: jest.fn().mockResolvedValue([current]),
+            update: jest.fn().mockImplementation(async ({ data }) => ({ ...current, ...data })),
+        },
+        user: {
+            findMany: jest.fn().mockResolvedValue([{ email: 'owner@acme.test' }]),
+        },
+        googleAdsAccount: accountModel(accounts.googleAdsAccount),
+        googleAnalyticsAccount: accountModel(accounts.googleAnalyticsAccount),
+        searchConsoleAccount: accountModel(accounts.searchConsoleAccount),
+        facebookAdsAccount: accountModel(accounts.facebookAdsAccount),
+        tikTokAdsAccount: accountModel(accounts.tikTokAdsAccount),
+        lineAdsAccount: accountModel(accounts.lineAdsAccount),
+        shopeeAccount: accountModel(accounts.shopeeAccount),
+        lazadaAccount: accountModel(accounts.lazadaAccount),
+    };
+    const config = new ConfigService({ SUBSCRIPTION_GRACE_DAYS: 7 });
+    const mailService = { sendMail: jest.fn() };
+    const auditLogsService = { createLog: jest.fn() };
+    const service = new SubscriptionLifecycleService(
+        prisma as any,
+        config,
+        mailService as any,
+        auditLogsService as any,
+        new EntitlementsService(prisma as any, config),
+    );
+
+    return { service, prisma, mailService, auditLogsService };
+}
+
+describe('SubscriptionLifecycleService', () => {
+    describe('startTrial', () => {
+        it('puts a new tenant on a 14-day STANDARD trial', async () => {
+            const { service, prisma } = setup();
+
+            await service.startTrial(TENANT_ID, NOW);
+
+            expect(prisma.tenant.update).toHaveBeenCalledWith({
+                where: { id: TENANT_ID },
+                data: {
+                    subscriptionPlan: SubscriptionPlan.STANDARD,
+                    subscriptionStatus: SubscriptionStatus.TRIAL,
+                    subscriptionEndsAt: inDays(14),
+                    subscriptionReminderDays: null,
+                },
+            });
+        });
+    });
+
+    describe('reminders', () => {
+        it.each([
+            [10, null, null],
+            [7, null, 7],
+            [3, null, 7],
+            [3, 7, null],
+            [1, 7, 1],
+            [1, 1, null],
+        ])('%i days left, last sent %p -> %p', (daysLeft, lastSent, expected) => {
+            expect(dueReminder(daysLeft, lastSent)).toBe(expected);
+        });
+
+        it('emails admins and records the reminder so it is sent once', async () => {
+            const { service, prisma, mailService } = setup(tenant({ subscriptionEndsAt: inDays(6.5) }));
+
+            await expect(service.sendExpiryReminders(NOW)).resolves.toBe(1);
+
+            expect(mailService.sendMail).toHaveBeenCalledWith(expect.objectContaining({
+                to: 'owner@acme.test',
+                subject: 'Your free trial ends in 7 days',
+            }));
+            expect(prisma.tenant.update).toHaveBeenCalledWith({
+                where: { id: TENANT_ID },
+                data: { subscriptionReminderDays: 7 },
+            });
+        });
+
+        it('escapes the tenant name in the email body', async () => {
+            const { service, mailService } = setup(tenant({ name: '<b>Acme</b> & Co', subscriptionEndsAt: inDays(6.5) }));
+
+            await service.sendExpiryReminders(NOW);
+
+            expect(mailService.sendMail.mock.calls[0][0].html).toContain('&lt;b&gt;Acme&lt;/b&gt; &amp; Co');
+        });
+    });
+
+    describe('expireSubscriptions', () => {
+        it('expires ended subscriptions and announces the read-only grace period', async () => {
+            const { service, prisma, mailService, auditLogsService } = setup(tenant({ subscriptionEndsAt: inDays(-0.5) }));
+
+            await expect(service.expireSubscriptions(NOW)).resolves.toBe(1);
+
+            expect(prisma.tenant.update).toHaveBeenCalledWith({
+                where: { id: TENANT_ID },
+                data: { subscriptionStatus: SubscriptionStatus.EXPIRED, subscriptionEndsAt: inDays(-0.5) },
+            });
+            expect(auditLogsService.createLog).toHaveBeenCalledWith(expect.objectContaining({
+                action: 'SUBSCRIPTION_EXPIRED',
+                details: expect.objectContaining({ graceEndsAt: inDays(6.5).toISOString() }),
+            }));
+            expect(mailService.sendMail.mock.calls[0][0].html).toContain('read-only until 2026-10-24');
+        });
+    });
+
+    describe('enforceIntegrationLimit', () => {
+        const account = (id: string, daysOld: number, status = 'ACTIVE') => ({ id, status, createdAt: inDays(-daysOld) });
+
+        it('pauses the newest accounts above the BASIC limit', async () => {
+            const { service, prisma, auditLogsService } = setup(tenant({ subscriptionPlan: SubscriptionPlan.BASIC }), {
+                googleAdsAccount: [account('gads-1', 30, 'ENABLED')],
+                facebookAdsAccount: [account('fb-1', 20), account('fb-2', 2)],
+                shopeeAccount: [account('shop-1', 1)],
+            });
+
+            const result = await service.enforceIntegrationLimit(TENANT_ID);
+
+            expect(result.limit).toBe(2);
+            expect(result.paused.map((a) => a.id)).toEqual(['fb-2', 'shop-1']);
+            expect(prisma.facebookAdsAccount.update).toHaveBeenCalledWith({ where: { id: 'fb-2' }, data: { status: PLAN_LIMIT_STATUS } });
+            expect(prisma.shopeeAccount.update).toHaveBeenCalledWith({ where: { id: 'shop-1' }, data: { status: PLAN_LIMIT_STATUS } });
+            expect(prisma.integrationLimitPause.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                create: { tenantId: TENANT_ID, platform: 'FACEBOOK', accountId: 'fb-2', previousStatus: 'ACTIVE' },
+            }));
+            expect(prisma.googleAdsAccount.update).not.toHaveBeenCalled();
+            expect(auditLogsService.createLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'SUBSCRIPTION_INTEGRATION_LIMIT_APPLIED' }));
+        });
+
+        it('resumes paused accounts with their previous status after an upgrade', async () => {
+            const { service, prisma } = setup(
+                tenant({ subscriptionPlan: SubscriptionPlan.ENTERPRISE }),
+                {
+                    googleAdsAccount: [account('gads-1', 30, PLAN_LIMIT_STATUS)],
+                    facebookAdsAccount: [account('fb-1', 20, PLAN_LIMIT_STATUS)],
+                },
+                [{ id: 'pause-1', platform: 'FACEBOOK', accountId: 'fb-1', previousStatus: 'ENABLED' }],
+            );
+
+            const result = await service.enforceIntegrationLimit(TENANT_ID);
+
+            expect(result.limit).toBeNull();
+            expect(prisma.facebookAdsAccount.update).toHaveBeenCalledWith({ where: { id: 'fb-1' }, data: { status: 'ENABLED' } });
+            expect(prisma.integrationLimitPause.delete).toHaveBeenCalledWith({ where: { id: 'pause-1' } });
+            // No recorded status: falls back to the platform's active status
+            expect(prisma.googleAdsAccount.update).toHaveBeenCalledWith({ where: { id: 'gads-1' }, data: { status: 'ENABLED' } });
+        });
+
+        it('only considers connected and plan-paused accounts', async () => {
+            const { service, prisma } = setup(tenant({ subscriptionPlan: SubscriptionPlan.BASIC }));
+
+            await service.enforceIntegrationLimit(TENANT_ID);
+
+            expect(prisma.facebookAdsAccount.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { tenantId: TENANT_ID, status: { in: ['ACTIVE', 'ENABLED', PLAN_LIMIT_STATUS] } },
+            }));
+        });
+    });
+});
@@ -0,0 +1,408 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SubscriptionPlan, SubscriptionStatus, Tenant, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../../common/services/mail.service';
+import { AuditLogsService } from '../audit-logs/audit-logs.service';
+import { CONNECTED_ACCOUNT_STATUSES, EntitlementsService } from '../entitlements/entitlements.service';
+import type { ConnectablePlatform } from '../entitlements/entitlements.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TRIAL_DAYS = 14;
+
+/** Reminder emails go out this many days before the end date */
+export const REMINDER_DAYS = [7, 1];
+
+/** Account status set when a plan change leaves the tenant over its integration limit */
+export const PLAN_LIMIT_STATUS = 'PLAN_LIMIT';
+
+/** Subscriptions that run until subscriptionEndsAt */
+export const RUNNING_STATUSES: SubscriptionStatus[] = [SubscriptionStatus.TRIAL, SubscriptionStatus.ACTIVE];
+
+export interface ConnectedAccount {
+    platform: ConnectablePlatform;
+    id: string;
+    status: string;
+    createdAt: Date;
+}
+
+export interface IntegrationLimitResult {
+    limit: number | null;
+    paused: ConnectedAccount[];
+    resumed: ConnectedAccount[];
+}
+
+/**
+ * Subscription Lifecycle - moves tenants between trial, active and expired.
+ *
+ * - Registration starts a trial
+ * - Admins are emailed 7 days and 1 day before the end date
+ * - Ended subscriptions become EXPIRED; EntitlementsService then makes the
+ *   tenant read-only for the grace period
+ * - Plan changes pause the newest accounts above the plan's integration limit
+ *   and resume them with their previous status after an upgrade
+ */
+@Injectable()
+export class SubscriptionLifecycleService {
+    private readonly logger = new Logger(SubscriptionLifecycleService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly config: ConfigService,
+        private readonly mailService: MailService,
+        private readonly auditLogsService: AuditLogsService,
+        private readonly entitlements: EntitlementsService,
+    ) { }
+
+    async startTrial(tenantId: string, now = new Date()): Promise<Tenant> {
+        const trialDays = Number(this.config.get('TRIAL_DAYS')) || DEFAULT_TRIAL_DAYS;
+        const plan = this.config.get<SubscriptionPlan>('TRIAL_PLAN') ?? SubscriptionPlan.STANDARD;
+        const endsAt = new Date(now.getTime() + trialDays * DAY_MS);
+
+        const tenant = await this.prisma.tenant.update({
+            where: { id: tenantId },
+            data: {
+                subscriptionPlan: plan,
+                subscriptionStatus: SubscriptionStatus.TRIAL,
+                subscriptionEndsAt: endsAt,
+                subscriptionReminderDays: null,
+            },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            action: 'SUBSCRIPTION_TRIAL_STARTED',
+            resource: 'subscription',
+            entityId: tenantId,
+            details: { plan, endsAt },
+        });
+        return tenant;
+    }
+
+    /**
+     * Email tenant admins when a running subscription reaches T-7 and T-1.
+     * Each reminder is sent once per end date, including when the scheduler
+     * first sees a tenant after a threshold already passed.
+     */
+    async sendExpiryReminders(now = new Date()): Promise<number> {
+        const horizon = new Date(now.getTime() + Math.max(...REMINDER_DAYS) * DAY_MS);
+        const tenants = await this.prisma.tenant.findMany({
+            where: {
+                deletedAt: null,
+                subscriptionStatus: { in: RUNNING_STATUSES },
+                subscriptionEndsAt: { gt: now, lte: horizon },
+            },
+        });
+
+        let sent = 0;
+        for (const tenant of tenants) {
+            const daysLeft = Math.ceil((tenant.subscriptionEndsAt!.getTime() - now.getTime()) / DAY_MS);
+            const due = dueReminder(daysLeft, tenant.subscriptionReminderDays);
+            if (due === null) continue;
+
+            await this.emailAdmins(tenant.id, reminderMail(tenant, daysLeft));
+            await this.prisma.tenant.update({
+                where: { id: tenant.id },
+                data: { subscriptionReminderDays: due },
+            });
+            sent++;
+        }
+        return sent;
+    }
+
+    /**
+     * Mark running subscriptions past their end date as EXPIRED and tell the
+     * tenant admins about the read-only grace period
+     */
+    async expireSubscriptions(now = new Date()): Promise<number> {
+        const tenants = await this.prisma.tenant.findMany({
+            where: {
+                deletedAt: null,
+                subscriptionStatus: { in: RUNNING_STATUSES },
+                subscriptionEndsAt: { lte: now },
+            },
+        });
+
+        for (const tenant of tenants) {
+            await this.expire(tenant, now);
+        }
+        return tenants.length;
+    }
+
+    /**
+     * Paid subscription started, renewed or changed (billing provider).
+     * Omitted fields keep their current value.
+     */
+    async activate(
+        tenantId: string,
+        params: { plan?: SubscriptionPlan; endsAt?: Date | null; billingCustomerId?: string },
+    ): Promise<IntegrationLimitResult> {
+        const existing = await this.findTenantOrThrow(tenantId);
+        const plan = params.plan ?? existing.subscriptionPlan ?? SubscriptionPlan.BASIC;
+        const endsAt = params.endsAt === undefined ? existing.subscriptionEndsAt : params.endsAt;
+
+        await this.prisma.tenant.update({
+            where: { id: tenantId },
+            data: {
+                subscriptionPlan: plan,
+                subscriptionStatus: SubscriptionStatus.ACTIVE,
+                subscriptionEndsAt: endsAt,
+                subscriptionReminderDays: null,
+                billingCustomerId: params.billingCustomerId,
+            },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            action: 'SUBSCRIPTION_ACTIVATED',
+            resource: 'subscription',
+            entityId: tenantId,
+            details: {
+                before: { plan: existing.subscriptionPlan, status: existing.subscriptionStatus, endsAt: existing.subscriptionEndsAt },
+                after: { plan, status: SubscriptionStatus.ACTIVE, endsAt },
+            },
+        });
+
+        return this.enforceIntegrationLimit(tenantId);
+    }
+
+    /**
+     * Subscription will not renew: it keeps running until endsAt, then expires
+     */
+    async cancelAtPeriodEnd(tenantId: string, endsAt: Date): Promise<void> {
+        await this.findTenantOrThrow(tenantId);
+        await this.prisma.tenant.update({
+            where: { id: tenantId },
+            data: { subscriptionEndsAt: endsAt, subscriptionReminderDays: null },
+        });
+
+        await this.auditLogsService.createLog({
+            tenantId,
+            action: 'SUBSCRIPTION_CANCELED',
+            resource: 'subscription',
+            entityId: tenantId,
+            details: { endsAt },
+        });
+    }
+
+    /**
+     * Expire immediately (billing provider ended the subscription)
+     */
+    async expireNow(tenantId: string, now = new Date()): Promise<void> {
+        const tenant = await this.findTenantOrThrow(tenantId);
+        if (tenant.subscriptionStatus === SubscriptionStatus.EXPIRED) return;
+        await this.expire(tenant, now);
+    }
+
+    /**
+     * Apply the tenant's current plan to its connected accounts. Over the limit,
+     * the newest accounts are paused (sync skips them) until the tenant
+     * disconnects accounts or upgrades; under it, paused accounts resume
+     * oldest first with the status they had when paused.
+     */
+    async enforceIntegrationLimit(tenantId: string, actorId?: string): Promise<IntegrationLimitResult> {
+        const tenant = await this.findTenantOrThrow(tenantId);
+        const { maxIntegrations } = this.entitlements.buildEntitlements({
+            plan: tenant.subscriptionPlan,
+            status: SubscriptionStatus.ACTIVE,
+            endsAt: null,
+        });
+
+        const accounts = (await this.findConnectedAccounts(tenantId))
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        const kept = Number.isFinite(maxIntegrations) ? accounts.slice(0, maxIntegrations) : accounts;
+        const excess = accounts.slice(kept.length);
+
+        const paused = excess.filter((account) => account.status !== PLAN_LIMIT_STATUS);
+        const resumed = kept.filter((account) => account.status === PLAN_LIMIT_STATUS);
+
+        for (const account of paused) {
+            await this.pauseAccount(tenantId, account);
+        }
+        for (const account of resumed) {
+            await this.resumeAccount(account);
+        }
+
+        if (paused.length > 0 || resumed.length > 0) {
+            await this.auditLogsService.createLog({
+                tenantId,
+                userId: actorId,
+                action: 'SUBSCRIPTION_INTEGRATION_LIMIT_APPLIED',
+                resource: 'subscription',
+                entityId: tenantId,
+                details: {
+                    plan: tenant.subscriptionPlan,
+                    limit: maxIntegrations,
+                    paused: paused.map(({ platform, id }) => ({ platform, id })),
+                    resumed: resumed.map(({ platform, id }) => ({ platform, id })),
+                },
+            });
+        }
+
+        return {
+            limit: Number.isFinite(maxIntegrations) ? maxIntegrations : null,
+            paused,
+            resumed,
+        };
+    }
+
+    private async expire(tenant: Tenant, now: Date): Promise<void> {
+        const endsAt = tenant.subscriptionEndsAt && tenant.subscriptionEndsAt < now ? tenant.subscriptionEndsAt : now;
+        const updated = await this.prisma.tenant.update({
+            where: { id: tenant.id },
+            data: { subscriptionStatus: SubscriptionStatus.EXPIRED, subscriptionEndsAt: endsAt },
+        });
+        const { graceEndsAt } = this.entitlements.forTenant(updated, now);
+
+        await this.auditLogsService.createLog({
+            tenantId: tenant.id,
+            action: 'SUBSCRIPTION_EXPIRED',
+            resource: 'subscription',
+            entityId: tenant.id,
+            details: { previousStatus: tenant.subscriptionStatus, endsAt, graceEndsAt },
+        });
+
+        await this.emailAdmins(tenant.id, expiredMail(tenant, graceEndsAt));
+    }
+
+    private async emailAdmins(tenantId: string, mail: { subject: string; html: string }): Promise<void> {
+        const admins = await this.prisma.user.findMany({
+            where: { tenantId, role: UserRole.ADMIN, isActive: true },
+            select: { email: true },
+        });
+
+        for (const admin of admins) {
+            try {
+                await this.mailService.sendMail({ to: admin.email, ...mail });
+            } catch (error: any) {
+                this.logger.warn(`[Subscription] Email to ${admin.email} failed: ${error.message}`);
+            }
+        }
+    }
+
+    private async findTenantOrThrow(tenantId: string): Promise<Tenant> {
+        const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId } });
+        if (!tenant || tenant.deletedAt) {
+            throw new NotFoundException('Tenant not found');
+        }
+        return tenant;
+    }
+
+    /**
+     * Accounts that use or may take a slot: connected and plan-paused ones.
+     * Disconnected and otherwise suspended accounts are left alone.
+     */
+    private async findConnectedAccounts(tenantId: string): Promise<ConnectedAccount[]> {
+        const where = { tenantId, status: { in: [...CONNECTED_ACCOUNT_STATUSES, PLAN_LIMIT_STATUS] } };
+        const select = { id: true, status: true, createdAt: true };
+        const tag = (platform: ConnectablePlatform) =>
+            (rows: Omit<ConnectedAccount, 'platform'>[]) => rows.map((row) => ({ ...row, platform }));
+
+        const groups = await Promise.all([
+            this.prisma.googleAdsAccount.findMany({ where, select }).then(tag('GOOGLE_ADS')),
+            this.prisma.googleAnalyticsAccount.findMany({ where, select }).then(tag('GOOGLE_ANALYTICS')),
+            this.prisma.searchConsoleAccount.findMany({ where, select }).then(tag('SEARCH_CONSOLE')),
+            this.prisma.facebookAdsAccount.findMany({ where, select }).then(tag('FACEBOOK')),
+            this.prisma.tikTokAdsAccount.findMany({ where, select }).then(tag('TIKTOK')),
+            this.prisma.lineAdsAccount.findMany({ where, select }).then(tag('LINE_ADS')),
+            this.prisma.shopeeAccount.findMany({ where, select }).then(tag('SHOPEE')),
+            this.prisma.lazadaAccount.findMany({ where, select }).then(tag('LAZADA')),
+        ]);
+        return groups.flat();
+    }
+
+    private async pauseAccount(tenantId: string, account: ConnectedAccount): Promise<void> {
+        const key = { platform: account.platform, accountId: account.id };
+        await this.prisma.integrationLimitPause.upsert({
+            where: { integration_limit_pauses_platform_account_unique: key },
+            create: { tenantId, ...key, previousStatus: account.status },
+            update: { previousStatus: account.status, pausedAt: new Date() },
+        });
+        await this.setAccountStatus(account, PLAN_LIMIT_STATUS);
+    }
+
+    private async resumeAccount(account: ConnectedAccount): Promise<void> {
+        const key = { platform: account.platform, accountId: account.id };
+        const pause = await this.prisma.integrationLimitPause.findUnique({
+            where: { integration_limit_pauses_platform_account_unique: key },
+        });
+        await this.setAccountStatus(account, pause?.previousStatus ?? activeStatus(account.platform));
+        if (pause) {
+            await this.prisma.integrationLimitPause.delete({ where: { id: pause.id } });
+        }
+    }
+
+    private async setAccountStatus(account: ConnectedAccount, status: string): Promise<void> {
+        const args = { where: { id: account.id }, data: { status } };
+        switch (account.platform) {
+            case 'GOOGLE_ADS':
+                await this.prisma.googleAdsAccount.update(args);
+                return;
+            case 'GOOGLE_ANALYTICS':
+                await this.prisma.googleAnalyticsAccount.update(args);
+                return;
+            case 'SEARCH_CONSOLE':
+                await this.prisma.searchConsoleAccount.update(args);
+                return;
+            case 'FACEBOOK':
+                await this.prisma.facebookAdsAccount.update(args);
+                return;
+            case 'TIKTOK':
+                await this.prisma.tikTokAdsAccount.update(args);
+                return;
+            case 'LINE_ADS':
+                await this.prisma.lineAdsAccount.update(args);
+                return;
+            case 'SHOPEE':
+                await this.prisma.shopeeAccount.update(args);
+                return;
+            case 'LAZADA':
+                await this.prisma.lazadaAccount.update(args);
+                return;
+        }
+    }
+}
+
+/**
+ * The reminder to send now, if any: the nearest threshold at or above daysLeft
+ * that has not been sent for this end date
+ */
+export function dueReminder(daysLeft: number, lastSent: number | null): number | null {
+    const due = [...REMINDER_DAYS].sort((a, b) => a - b).find((days) => daysLeft <= days);
+    if (due === undefined) return null;
+    if (lastSent !== null && lastSent <= due) return null;
+    return due;
+}
+
+/**
+ * Status the sync jobs pick up; Google Ads uses its own API's wording.
+ * Fallback for paused accounts without a recorded previous status.
+ */
+function activeStatus(platform: ConnectablePlatform): string {
+    return platform === 'GOOGLE_ADS' ? 'ENABLED' : 'ACTIVE';
+}
+
+function reminderMail(tenant: Tenant, daysLeft: number) {
+    const what = tenant.subscriptionStatus === SubscriptionStatus.TRIAL ? 'free trial' : 'subscription';
+    const when = daysLeft <= 1 ? 'tomorrow' : `in ${daysLeft} days`;
+    return {
+        subject: `Your ${what} ends ${when}`,
+        html: `<p>The ${what} for <strong>${escapeHtml(tenant.name)}</strong> ends ${when} `
+            + `(${tenant.subscriptionEndsAt!.toISOString().slice(0, 10)}).</p>`
+            + '<p>Renew your plan to keep syncing data and making changes without interruption.</p>',
+    };
+}
+
+function expiredMail(tenant: Tenant, graceEndsAt: string | undefined) {
+    const until = graceEndsAt ? ` until ${graceEndsAt.slice(0, 10)}` : '';
+    return {
+        subject: 'Your subscription has expired',
+        html: `<p>The subscription for <strong>${escapeHtml(tenant.name)}</strong> has expired.</p>`
+            + `<p>Your workspace is read-only${until}: dashboards and reports stay available, `
+            + 'but changes are disabled. Renew your plan to restore full access.</p>',
+    };
+}
+
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
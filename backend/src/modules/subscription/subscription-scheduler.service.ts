@@ -0,0 +1,30 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SubscriptionLifecycleService } from './subscription-lifecycle.service';
+
+@Injectable()
+export class SubscriptionSchedulerService {
+    private readonly logger = new Logger(SubscriptionSchedulerService.name);
+
+    constructor(private readonly lifecycle: SubscriptionLifecycleService) { }
+
+    /**
+     * Expire subscriptions past their end date, then send T-7/T-1 reminders
+     */
+    @Cron(CronExpression.EVERY_HOUR)
+    async scheduledLifecycleRun() {
+        try {
+            const expired = await this.lifecycle.expireSubscriptions();
+            if (expired > 0) {
+                this.logger.log(`[Subscription] Expired ${expired} subscriptions`);
+            }
+
+            const reminded = await this.lifecycle.sendExpiryReminders();
+            if (reminded > 0) {
+                this.logger.log(`[Subscription] Sent ${reminded} expiry reminders`);
+            }
+        } catch (error: any) {
+            this.logger.error(`[Subscription] Run failed: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SubscriptionLifecycleService } from './subscription-lifecycle.service';
+import { SubscriptionSchedulerService } from './subscription-scheduler.service';
+import { BillingWebhookController } from './billing/billing-webhook.controller';
+import { BillingWebhookService } from './billing/billing-webhook.service';
+import { HmacBillingProvider } from './billing/hmac-billing-provider';
+import { BILLING_PROVIDERS, BillingProvider } from './billing/billing-provider';
+
+@Module({
+    imports: [PrismaModule],
+    controllers: [BillingWebhookController],
+    providers: [
+        SubscriptionLifecycleService,
+        SubscriptionSchedulerService,
+        BillingWebhookService,
+        HmacBillingProvider,
+        {
+            // Add further providers here; each handles /billing/webhooks/<name>
+            provide: BILLING_PROVIDERS,
+            useFactory: (...providers: BillingProvider[]) => providers,
+            inject: [HmacBillingProvider],
+        },
+    ],
+    exports: [SubscriptionLifecycleService],
+})
+export class SubscriptionModule { }
@@ -0,0 +1,128 @@
+/**
+ * Ad Level Sync Unit Tests
+ * @module ad-level-sync.service.spec
+ * @description Ad groups, ads and per-ad daily metrics of one campaign:
+ *   - Ad groups are upserted by external id within the campaign, ads within their ad group
+ *   - Ad metrics are written to ad_metrics keyed by ad and day
+ *   - Ads whose ad group was not returned, and metrics of unknown ads, are skipped
+ *   - Adapters without ad-level support are left alone
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { AdGroupStatus, AdPlatform } from '@prisma/client';
+import { AdLevelSyncService } from './ad-level-sync.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MarketingPlatformAdapter, PlatformCredentials } from '../integrations/common/marketing-platform.adapter';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const CAMPAIGN = { id: 'campaign-001', tenantId: TENANT_ID, externalId: '120001' };
+const CREDENTIALS: PlatformCredentials = { accessToken: 'token', accountId: 'act_1' };
+const RANGE = { startDate: new Date('2026-03-01'), endDate: new Date('2026-03-02') };
+
+const buildAdapter = (overrides: Partial<MarketingPlatformAdapter> = {}): MarketingPlatformAdapter => ({
+    fetchCampaigns: jest.fn(),
+    fetchMetrics: jest.fn(),
+    validateCredentials: jest.fn(),
+    fetchAdGroups: jest.fn().mockResolvedValue([
+        { externalId: 'as-1', name: 'Prospecting', status: AdGroupStatus.ACTIVE, budget: 500, bidAmount: null, bidType: 'LOWEST_COST' },
+        { externalId: 'as-2', name: 'Retargeting', status: AdGroupStatus.PAUSED, budget: 200 },
+    ]),
+    fetchAds: jest.fn().mockResolvedValue([
+        { externalId: 'ad-1', adGroupExternalId: 'as-1', name: 'Video A', status: AdGroupStatus.ACTIVE, creative: { title: 'Summer' } },
+        { externalId: 'ad-2', adGroupExternalId: 'as-2', name: 'Carousel', status: AdGroupStatus.PAUSED },
+        { externalId: 'ad-3', adGroupExternalId: 'as-unknown', name: 'Orphan', status: AdGroupStatus.ACTIVE },
+    ]),
+    fetchAdMetrics: jest.fn().mockResolvedValue([
+        { adExternalId: 'ad-1', date: new Date('2026-03-01T00:00:00Z'), impressions: 1000, clicks: 40, spend: 120.5, conversions: 3.7, revenue: 480 },
+        { adExternalId: 'ad-2', date: new Date('2026-03-01T00:00:00Z'), impressions: 300, clicks: 5, spend: 20, conversions: 0, revenue: 0 },
+        { adExternalId: 'ad-9', date: new Date('2026-03-01T00:00:00Z'), impressions: 1, clicks: 1, spend: 1, conversions: 0, revenue: 0 },
+    ]),
+    ...overrides,
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('AdLevelSyncService', () => {
+    let service: AdLevelSyncService;
+    let prisma: {
+        adGroup: { upsert: jest.Mock };
+        ad: { upsert: jest.Mock };
+        adMetric: { upsert: jest.Mock };
+    };
+
+    beforeEach(async () => {
+        prisma = {
+            adGroup: { upsert: jest.fn(({ create }) => Promise.resolve({ id: `db-${create.externalId}` })) },
+            ad: { upsert: jest.fn(({ create }) => Promise.resolve({ id: `db-${create.externalId}` })) },
+            adMetric: { upsert: jest.fn().mockResolvedValue({}) },
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                AdLevelSyncService,
+                { provide: PrismaService, useValue: prisma },
+            ],
+        }).compile();
+
+        service = module.get(AdLevelSyncService);
+    });
+
+    it('should upsert ad groups by external id within the campaign', async () => {
+        await service.syncCampaign(buildAdapter(), CREDENTIALS, AdPlatform.FACEBOOK, CAMPAIGN, RANGE);
+
+        expect(prisma.adGroup.upsert).toHaveBeenCalledTimes(2);
+        expect(prisma.adGroup.upsert.mock.calls[0][0]).toMatchObject({
+            where: {
+                ad_groups_tenant_campaign_external_unique: { tenantId: TENANT_ID, campaignId: 'campaign-001', externalId: 'as-1' },
+            },
+            create: { tenantId: TENANT_ID, campaignId: 'campaign-001', name: 'Prospecting', budget: 500, bidType: 'LOWEST_COST' },
+            update: { name: 'Prospecting', status: AdGroupStatus.ACTIVE },
+        });
+    });
+
+    it('should link ads to their ad group and skip ads of unknown ad groups', async () => {
+        const result = await service.syncCampaign(buildAdapter(), CREDENTIALS, AdPlatform.FACEBOOK, CAMPAIGN, RANGE);
+
+        expect(result).toEqual({ adGroups: 2, ads: 2, metricRows: 2 });
+        expect(prisma.ad.upsert).toHaveBeenCalledTimes(2);
+        expect(prisma.ad.upsert.mock.calls[1][0]).toMatchObject({
+            where: { ads_tenant_ad_group_external_unique: { tenantId: TENANT_ID, adGroupId: 'db-as-2', externalId: 'ad-2' } },
+            create: { campaignId: 'campaign-001', adGroupId: 'db-as-2', name: 'Carousel' },
+        });
+    });
+
+    it('should write one ad_metrics row per ad and day', async () => {
+        await service.syncCampaign(buildAdapter(), CREDENTIALS, AdPlatform.FACEBOOK, CAMPAIGN, RANGE);
+
+        expect(prisma.adMetric.upsert).toHaveBeenCalledTimes(2);
+        expect(prisma.adMetric.upsert.mock.calls[0][0]).toMatchObject({
+            where: { ad_metrics_ad_date_unique: { adId: 'db-ad-1', date: new Date('2026-03-01T00:00:00Z') } },
+            create: {
+                tenantId: TENANT_ID,
+                campaignId: 'campaign-001',
+                adGroupId: 'db-as-1',
+                platform: AdPlatform.FACEBOOK,
+                impressions: 1000,
+                clicks: 40,
+                conversions: 3,
+                spend: 120.5,
+                revenue: 480,
+            },
+        });
+    });
+
+    it('should do nothing for adapters without ad-level support', async () => {
+        const adapter = buildAdapter({ fetchAdGroups: undefined, fetchAds: undefined });
+
+        const result = await service.syncCampaign(adapter, CREDENTIALS, AdPlatform.LINE_ADS, CAMPAIGN, RANGE);
+
+        expect(result).toEqual({ adGroups: 0, ads: 0, metricRows: 0 });
+        expect(prisma.adGroup.upsert).not.toHaveBeenCalled();
+    });
+});
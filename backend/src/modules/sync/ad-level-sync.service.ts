@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AdPlatform, Campaign, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+    DateRange,
+    MarketingPlatformAdapter,
+    PlatformCredentials,
+} from '../integrations/common/marketing-platform.adapter';
+import { toUTCDateOnly } from './sync-window';
+
+export interface AdLevelSyncResult {
+    adGroups: number;
+    ads: number;
+    metricRows: number;
+}
+
+/**
+ * Ad Level Sync Service
+ *
+ * Pulls the ad groups, ads and per-ad daily metrics of one campaign for adapters
+ * that expose them. Ad metrics go to `ad_metrics` rather than `metrics`, so
+ * campaign totals are never counted twice.
+ */
+@Injectable()
+export class AdLevelSyncService {
+    private readonly logger = new Logger(AdLevelSyncService.name);
+
+    constructor(private readonly prisma: PrismaService) { }
+
+    supportsAdLevel(adapter: MarketingPlatformAdapter): boolean {
+        return !!adapter.fetchAdGroups && !!adapter.fetchAds;
+    }
+
+    async syncCampaign(
+        adapter: MarketingPlatformAdapter,
+        credentials: PlatformCredentials,
+        platform: AdPlatform,
+        campaign: Pick<Campaign, 'id' | 'tenantId' | 'externalId'>,
+        dateRange: DateRange,
+    ): Promise<AdLevelSyncResult> {
+        const result: AdLevelSyncResult = { adGroups: 0, ads: 0, metricRows: 0 };
+        if (!campaign.externalId || !this.supportsAdLevel(adapter)) return result;
+
+        const { id: campaignId, tenantId } = campaign;
+
+        // 1. Ad groups
+        const adGroupIds = new Map<string, string>();
+        for (const g of await adapter.fetchAdGroups!(credentials, campaign.externalId)) {
+            const data = {
+                name: g.name,
+                status: g.status,
+                budget: g.budget ?? null,
+                bidAmount: g.bidAmount ?? null,
+                bidType: g.bidType ?? null,
+            };
+            const saved = await this.prisma.adGroup.upsert({
+                where: {
+                    ad_groups_tenant_campaign_external_unique: { tenantId, campaignId, externalId: g.externalId },
+                },
+                create: { tenantId, campaignId, externalId: g.externalId, ...data },
+                update: data,
+                select: { id: true },
+            });
+            adGroupIds.set(g.externalId, saved.id);
+        }
+        result.adGroups = adGroupIds.size;
+
+        // 2. Ads
+        const ads = new Map<string, { id: string; adGroupId: string }>();
+        for (const ad of await adapter.fetchAds!(credentials, campaign.externalId)) {
+            const adGroupId = adGroupIds.get(ad.adGroupExternalId);
+            if (!adGroupId) {
+                this.logger.warn(`Skipping ad ${ad.externalId}: ad group ${ad.adGroupExternalId} was not returned`);
+                continue;
+            }
+
+            const data = {
+                name: ad.name,
+                status: ad.status,
+                creative: (ad.creative ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+            };
+            const saved = await this.prisma.ad.upsert({
+                where: {
+                    ads_tenant_ad_group_external_unique: { tenantId, adGroupId, externalId: ad.externalId },
+                },
+                create: { tenantId, campaignId, adGroupId, externalId: ad.externalId, ...data },
+                update: data,
+                select: { id: true },
+            });
+            ads.set(ad.externalId, { id: saved.id, adGroupId });
+        }
+        result.ads = ads.size;
+
+        // 3. Per-ad daily metrics
+        if (!adapter.fetchAdMetrics || ads.size === 0) return result;
+
+        for (const m of await adapter.fetchAdMetrics(credentials, campaign.externalId, dateRange)) {
+            const ad = ads.get(m.adExternalId);
+            if (!ad) continue;
+
+            const date = toUTCDateOnly(new Date(m.date));
+            const values = {
+                impressions: Math.trunc(m.impressions),
+                clicks: Math.trunc(m.clicks),
+                conversions: Math.trunc(m.conversions),
+                spend: m.spend,
+                revenue: m.revenue,
+            };
+
+            await this.prisma.adMetric.upsert({
+                where: { ad_metrics_ad_date_unique: { adId: ad.id, date } },
+                create: {
+                    tenantId,
+                    campaignId,
+                    adGroupId: ad.adGroupId,
+                    adId: ad.id,
+                    platform,
+                    date,
+                    ...values,
+                },
+                update: values,
+            });
+            result.metricRows++;
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString } from 'class-validator';
+
+export class StartBackfillDto {
+    @ApiProperty({ example: '2025-01-01', description: 'First day to sync (inclusive)' })
+    @IsDateString()
+    startDate: string;
+
+    @ApiProperty({ example: '2025-06-30', description: 'Last day to sync (inclusive)' })
+    @IsDateString()
+    endDate: string;
+}
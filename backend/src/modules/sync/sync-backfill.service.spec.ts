@@ -0,0 +1,259 @@
+/**
+ * Incremental Sync & Backfill Unit Tests
+ * @module sync-backfill.service.spec
+ * @description Cursor-based sync windows and chunked backfills:
+ *   - Scheduled syncs start at the high-water mark minus the lookback
+ *   - Backfill ranges are split into inclusive chunks
+ *   - Progress is saved after every chunk and a failure keeps the resume point
+ *   - Resume continues from the first unsynced chunk
+ *   - Backfill chunks never create the cursor or move it past unsynced days
+ *   - Backfills interrupted by a restart are resumed on boot by a single instance
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { AdPlatform, SyncStatus, SyncType } from '@prisma/client';
+import { SyncBackfillService, BackfillProgress } from './sync-backfill.service';
+import { UnifiedSyncService } from './unified-sync.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { chunkDateRange, formatDateOnly, incrementalSyncRange, nextHighWaterMark } from './sync-window';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const TENANT_ID = 'tenant-001';
+const ACCOUNT_ID = 'account-001';
+
+const buildLog = (progress: Partial<BackfillProgress>, status: SyncStatus = SyncStatus.PENDING) => ({
+    id: 'backfill-001',
+    tenantId: TENANT_ID,
+    platform: AdPlatform.GOOGLE_ADS,
+    accountId: ACCOUNT_ID,
+    syncType: SyncType.BACKFILL,
+    status,
+    recordsSync: 0,
+    errorMessage: null,
+    startedAt: new Date(),
+    completedAt: null,
+    data: {
+        mode: 'backfill',
+        startDate: '2025-01-01',
+        endDate: '2025-01-25',
+        chunkDays: 10,
+        totalChunks: 3,
+        completedChunks: 0,
+        nextStartDate: '2025-01-01',
+        metricRows: 0,
+        ...progress,
+    },
+});
+
+const dates = (chunks: { startDate: Date; endDate: Date }[]) =>
+    chunks.map((c) => [formatDateOnly(c.startDate), formatDateOnly(c.endDate)]);
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('Incremental sync', () => {
+    describe('incrementalSyncRange', () => {
+        const now = new Date('2025-03-10T05:30:00Z');
+
+        it('should refetch the lookback window before the high-water mark', () => {
+            const range = incrementalSyncRange(new Date('2025-03-09'), now, { lookbackDays: 3, initialDays: 30 });
+
+            expect(formatDateOnly(range.startDate)).toBe('2025-03-06');
+            expect(formatDateOnly(range.endDate)).toBe('2025-03-10');
+        });
+
+        it('should fall back to the initial window for accounts never synced', () => {
+            const range = incrementalSyncRange(null, now, { lookbackDays: 3, initialDays: 30 });
+
+            expect(formatDateOnly(range.startDate)).toBe('2025-02-08');
+        });
+
+        it('should end on today in the tenant timezone', () => {
+            // 2025-03-10 20:00 UTC is already 2025-03-11 in Bangkok, still 2025-03-10 in Los Angeles
+            const evening = new Date('2025-03-10T20:00:00Z');
+
+            expect(formatDateOnly(incrementalSyncRange(null, evening, { lookbackDays: 3, initialDays: 30, timezone: 'Asia/Bangkok' }).endDate))
+                .toBe('2025-03-11');
+            expect(formatDateOnly(incrementalSyncRange(null, evening, { lookbackDays: 3, initialDays: 30, timezone: 'America/Los_Angeles' }).endDate))
+                .toBe('2025-03-10');
+        });
+    });
+
+    describe('nextHighWaterMark', () => {
+        const range = (startDate: string, endDate: string) => ({ startDate: new Date(startDate), endDate: new Date(endDate) });
+
+        it('should create and advance the cursor for scheduled syncs', () => {
+            expect(nextHighWaterMark(null, range('2025-01-01', '2025-01-30'), false)).toEqual(new Date('2025-01-30'));
+            expect(nextHighWaterMark(new Date('2025-01-30'), range('2025-01-27', '2025-02-02'), false))
+                .toEqual(new Date('2025-02-02'));
+        });
+
+        it('should never rewind the cursor', () => {
+            expect(nextHighWaterMark(new Date('2025-01-30'), range('2025-01-01', '2025-01-10'), false)).toBeNull();
+            expect(nextHighWaterMark(new Date('2025-01-30'), range('2024-12-01', '2024-12-30'), true)).toBeNull();
+        });
+
+        it('should not create the cursor from a backfill chunk', () => {
+            expect(nextHighWaterMark(null, range('2024-01-01', '2024-01-30'), true)).toBeNull();
+        });
+
+        it('should only extend the cursor with a backfill chunk that continues it', () => {
+            const cursor = new Date('2025-01-10');
+
+            expect(nextHighWaterMark(cursor, range('2025-01-11', '2025-01-20'), true)).toEqual(new Date('2025-01-20'));
+            expect(nextHighWaterMark(cursor, range('2025-01-15', '2025-01-20'), true)).toBeNull();
+        });
+    });
+
+    describe('chunkDateRange', () => {
+        it('should split a range into inclusive chunks with a shorter last chunk', () => {
+            const chunks = chunkDateRange({ startDate: new Date('2025-01-01'), endDate: new Date('2025-01-25') }, 10);
+
+            expect(dates(chunks)).toEqual([
+                ['2025-01-01', '2025-01-10'],
+                ['2025-01-11', '2025-01-20'],
+                ['2025-01-21', '2025-01-25'],
+            ]);
+        });
+    });
+});
+
+describe('SyncBackfillService', () => {
+    let service: SyncBackfillService;
+    let prisma: any;
+    let unifiedSync: { syncAccount: jest.Mock };
+
+    beforeEach(async () => {
+        prisma = {
+            syncLog: {
+                create: jest.fn(),
+                findUnique: jest.fn(),
+                findFirst: jest.fn(),
+                findMany: jest.fn(),
+                update: jest.fn(),
+                updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+        };
+        unifiedSync = { syncAccount: jest.fn().mockResolvedValue({ metricRows: 5 }) };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SyncBackfillService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: UnifiedSyncService, useValue: unifiedSync },
+                { provide: ConfigService, useValue: { get: jest.fn((_key: string, fallback: unknown) => fallback) } },
+                { provide: TenantTimezoneService, useValue: { getTimezone: jest.fn().mockResolvedValue('Asia/Bangkok') } },
+            ],
+        }).compile();
+
+        service = module.get(SyncBackfillService);
+    });
+
+    it('should sync every chunk and record progress', async () => {
+        prisma.syncLog.findUnique.mockResolvedValue(buildLog({}));
+
+        await service.run('backfill-001');
+
+        expect(unifiedSync.syncAccount).toHaveBeenCalledTimes(3);
+        expect(unifiedSync.syncAccount.mock.calls[2][4].dateRange.startDate).toEqual(new Date('2025-01-21'));
+
+        const updates = prisma.syncLog.update.mock.calls.map(([args]) => args.data);
+        expect(updates[0].status).toBe(SyncStatus.IN_PROGRESS);
+        expect(updates[3].data).toMatchObject({ completedChunks: 3, metricRows: 15, nextStartDate: null });
+        expect(updates[3].recordsSync).toBe(15);
+        expect(updates[4].status).toBe(SyncStatus.COMPLETED);
+    });
+
+    it('should keep the resume point when a chunk fails', async () => {
+        prisma.syncLog.findUnique.mockResolvedValue(buildLog({}));
+        unifiedSync.syncAccount
+            .mockResolvedValueOnce({ metricRows: 5 })
+            .mockRejectedValueOnce(new Error('Rate limited'));
+
+        await service.run('backfill-001');
+
+        const failed = prisma.syncLog.update.mock.calls.at(-1)[0].data;
+        expect(failed.status).toBe(SyncStatus.FAILED);
+        expect(failed.errorMessage).toBe('Rate limited');
+        expect(failed.data).toMatchObject({ completedChunks: 1, nextStartDate: '2025-01-11', lastError: 'Rate limited' });
+    });
+
+    it('should resume from the first unsynced chunk', async () => {
+        const log = buildLog({ completedChunks: 1, nextStartDate: '2025-01-11', metricRows: 5 }, SyncStatus.FAILED);
+        prisma.syncLog.findFirst.mockResolvedValue(log);
+        prisma.syncLog.findUnique.mockResolvedValue(log);
+
+        await service.resume(TENANT_ID, 'backfill-001');
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(unifiedSync.syncAccount).toHaveBeenCalledTimes(2);
+        expect(unifiedSync.syncAccount.mock.calls[0][4].dateRange.startDate).toEqual(new Date('2025-01-11'));
+    });
+
+    it('should not resume a completed backfill', async () => {
+        prisma.syncLog.findFirst.mockResolvedValue(buildLog({ nextStartDate: null }, SyncStatus.COMPLETED));
+
+        await expect(service.resume(TENANT_ID, 'backfill-001')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a second run of a backfill that is still running', async () => {
+        let release: () => void = () => undefined;
+        unifiedSync.syncAccount.mockReturnValueOnce(new Promise((resolve) => {
+            release = () => resolve({ metricRows: 0 });
+        }));
+        const log = buildLog({}, SyncStatus.IN_PROGRESS);
+        prisma.syncLog.findUnique.mockResolvedValue(log);
+        prisma.syncLog.findFirst.mockResolvedValue(log);
+
+        const running = service.run('backfill-001');
+        await new Promise((resolve) => setImmediate(resolve));
+
+        await expect(service.resume(TENANT_ID, 'backfill-001')).rejects.toThrow(ConflictException);
+        release();
+        await running;
+    });
+
+    it('should resume interrupted backfills on boot', async () => {
+        const startedAt = new Date('2025-02-01T00:00:00Z');
+        prisma.syncLog.findMany.mockResolvedValue([{ id: 'backfill-001', startedAt }]);
+        prisma.syncLog.findUnique.mockResolvedValue(buildLog({}, SyncStatus.IN_PROGRESS));
+
+        await service.onApplicationBootstrap();
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(prisma.syncLog.findMany.mock.calls[0][0].where).toEqual({
+            syncType: SyncType.BACKFILL,
+            status: { in: [SyncStatus.PENDING, SyncStatus.IN_PROGRESS] },
+        });
+        expect(prisma.syncLog.updateMany.mock.calls[0][0].where).toEqual({ id: 'backfill-001', startedAt });
+        expect(unifiedSync.syncAccount).toHaveBeenCalled();
+    });
+
+    it('should leave a backfill claimed by another instance alone on boot', async () => {
+        prisma.syncLog.findMany.mockResolvedValue([{ id: 'backfill-001', startedAt: new Date() }]);
+        prisma.syncLog.updateMany.mockResolvedValue({ count: 0 });
+
+        await service.onApplicationBootstrap();
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(prisma.syncLog.findUnique).not.toHaveBeenCalled();
+        expect(unifiedSync.syncAccount).not.toHaveBeenCalled();
+    });
+
+    it('should reject ranges longer than the configured maximum', async () => {
+        await expect(
+            service.start(TENANT_ID, AdPlatform.GOOGLE_ADS, ACCOUNT_ID, {
+                startDate: new Date('2020-01-01'),
+                endDate: new Date('2025-01-01'),
+            }),
+        ).rejects.toThrow(BadRequestException);
+        expect(prisma.syncLog.create).not.toHaveBeenCalled();
+    });
+});
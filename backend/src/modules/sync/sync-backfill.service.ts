@@ -0,0 +1,256 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    Logger,
+    NotFoundException,
+    OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdPlatform, Prisma, SyncLog, SyncStatus, SyncType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { UnifiedSyncService } from './unified-sync.service';
+import { SyncDateRange, addDays, chunkDateRange, countDays, formatDateOnly, toUTCDateOnly } from './sync-window';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { TimezoneUtil } from '../../common/utils/timezone.util';
+
+/**
+ * Backfill progress, stored in SyncLog.data
+ * `nextStartDate` is the resume point; null once every chunk has synced.
+ */
+export interface BackfillProgress {
+    mode: 'backfill';
+    startDate: string;
+    endDate: string;
+    chunkDays: number;
+    totalChunks: number;
+    completedChunks: number;
+    nextStartDate: string | null;
+    metricRows: number;
+    lastError?: string;
+}
+
+const RESUMABLE_STATUSES: SyncStatus[] = [SyncStatus.PENDING, SyncStatus.IN_PROGRESS, SyncStatus.FAILED];
+
+/** Jobs that were queued or running when the process stopped */
+const INTERRUPTED_STATUSES: SyncStatus[] = [SyncStatus.PENDING, SyncStatus.IN_PROGRESS];
+
+@Injectable()
+export class SyncBackfillService implements OnApplicationBootstrap {
+    private readonly logger = new Logger(SyncBackfillService.name);
+    /** Jobs running in this process, so a resume can't start a second copy */
+    private readonly running = new Set<string>();
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly unifiedSyncService: UnifiedSyncService,
+        private readonly config: ConfigService,
+        private readonly tenantTimezone: TenantTimezoneService,
+    ) { }
+
+    /**
+     * Pick up backfills interrupted by a restart. Each job is claimed with a compare-and-set on startedAt,
+     * so only one instance resumes it; a chunk repeated after the interruption just re-upserts its metrics.
+     * FAILED jobs are left for a manual POST /sync/backfills/:id/resume.
+     */
+    async onApplicationBootstrap() {
+        try {
+            const interrupted = await this.prisma.syncLog.findMany({
+                where: { syncType: SyncType.BACKFILL, status: { in: INTERRUPTED_STATUSES } },
+                select: { id: true, startedAt: true },
+            });
+
+            for (const log of interrupted) {
+                const claimed = await this.prisma.syncLog.updateMany({
+                    where: { id: log.id, startedAt: log.startedAt },
+                    data: { startedAt: new Date() },
+                });
+                if (claimed.count === 1) {
+                    this.logger.log(`Resuming interrupted backfill ${log.id}`);
+                    this.runInBackground(log.id);
+                }
+            }
+        } catch (error) {
+            this.logger.error(`Failed to resume interrupted backfills: ${error.message}`);
+        }
+    }
+
+    /**
+     * Queue a backfill of [startDate, endDate] for one account and start it in the background
+     */
+    async start(tenantId: string, platform: AdPlatform, accountId: string, range: SyncDateRange) {
+        const startDate = toUTCDateOnly(range.startDate);
+        const endDate = toUTCDateOnly(range.endDate);
+        const maxDays = Number(this.config.get('SYNC_BACKFILL_MAX_DAYS', 730));
+        const chunkDays = Number(this.config.get('SYNC_BACKFILL_CHUNK_DAYS', 30));
+
+        if (startDate > endDate) {
+            throw new BadRequestException('startDate must be before or equal to endDate');
+        }
+        if (endDate > TimezoneUtil.getZonedToday(await this.tenantTimezone.getTimezone(tenantId))) {
+            throw new BadRequestException('endDate cannot be in the future');
+        }
+        if (countDays({ startDate, endDate }) > maxDays) {
+            throw new BadRequestException(`Backfill range cannot exceed ${maxDays} days`);
+        }
+
+        const progress: BackfillProgress = {
+            mode: 'backfill',
+            startDate: formatDateOnly(startDate),
+            endDate: formatDateOnly(endDate),
+            chunkDays,
+            totalChunks: chunkDateRange({ startDate, endDate }, chunkDays).length,
+            completedChunks: 0,
+            nextStartDate: formatDateOnly(startDate),
+            metricRows: 0,
+        };
+
+        const log = await this.prisma.syncLog.create({
+            data: {
+                tenantId,
+                platform,
+                accountId,
+                syncType: SyncType.BACKFILL,
+                status: SyncStatus.PENDING,
+                data: progress as unknown as Prisma.InputJsonObject,
+            },
+        });
+
+        this.runInBackground(log.id);
+        return this.toResponse(log);
+    }
+
+    /**
+     * Continue a failed or interrupted backfill from its next unsynced chunk
+     */
+    async resume(tenantId: string, id: string) {
+        const log = await this.findOneOrThrow(tenantId, id);
+        if (!RESUMABLE_STATUSES.includes(log.status)) {
+            throw new BadRequestException(`Backfill is ${log.status.toLowerCase()} and cannot be resumed`);
+        }
+        if (this.running.has(id)) {
+            throw new ConflictException('Backfill is already running');
+        }
+
+        this.runInBackground(id);
+        return this.toResponse(log);
+    }
+
+    async findAll(tenantId: string) {
+        const logs = await this.prisma.syncLog.findMany({
+            where: { tenantId, syncType: SyncType.BACKFILL },
+            orderBy: { createdAt: 'desc' },
+            take: 20,
+        });
+
+        return logs.map((log) => this.toResponse(log));
+    }
+
+    /**
+     * Sync the remaining chunks one by one, saving progress after each so a failure resumes where it stopped
+     */
+    async run(id: string): Promise<void> {
+        if (this.running.has(id)) return;
+        this.running.add(id);
+
+        try {
+            const log = await this.prisma.syncLog.findUnique({ where: { id } });
+            if (!log || !log.accountId) return;
+
+            let progress = log.data as unknown as BackfillProgress;
+            if (!progress.nextStartDate) return;
+
+            await this.prisma.syncLog.update({
+                where: { id },
+                data: { status: SyncStatus.IN_PROGRESS, errorMessage: null, completedAt: null },
+            });
+
+            const remaining = chunkDateRange(
+                { startDate: new Date(progress.nextStartDate), endDate: new Date(progress.endDate) },
+                progress.chunkDays,
+            );
+
+            for (const chunk of remaining) {
+                try {
+                    const result = await this.unifiedSyncService.syncAccount(
+                        log.platform,
+                        log.accountId,
+                        log.tenantId,
+                        undefined,
+                        { dateRange: chunk },
+                    );
+                    const next = addDays(chunk.endDate, 1);
+                    progress = {
+                        ...progress,
+                        completedChunks: progress.completedChunks + 1,
+                        metricRows: progress.metricRows + result.metricRows,
+                        nextStartDate: next > new Date(progress.endDate) ? null : formatDateOnly(next),
+                        lastError: undefined,
+                    };
+                    await this.saveProgress(id, progress);
+                } catch (error) {
+                    this.logger.error(`Backfill ${id} failed at ${formatDateOnly(chunk.startDate)}: ${error.message}`);
+                    await this.prisma.syncLog.update({
+                        where: { id },
+                        data: {
+                            status: SyncStatus.FAILED,
+                            completedAt: new Date(),
+                            errorMessage: error.message,
+                            data: { ...progress, lastError: error.message } as unknown as Prisma.InputJsonObject,
+                        },
+                    });
+                    return;
+                }
+            }
+
+            await this.prisma.syncLog.update({
+                where: { id },
+                data: { status: SyncStatus.COMPLETED, completedAt: new Date() },
+            });
+            this.logger.log(`Backfill ${id} completed: ${progress.totalChunks} chunks, ${progress.metricRows} metric rows`);
+        } finally {
+            this.running.delete(id);
+        }
+    }
+
+    private runInBackground(id: string) {
+        this.run(id).catch((error) => this.logger.error(`Backfill ${id} crashed: ${error.message}`));
+    }
+
+    private saveProgress(id: string, progress: BackfillProgress) {
+        return this.prisma.syncLog.update({
+            where: { id },
+            data: {
+                recordsSync: progress.metricRows,
+                data: JSON.parse(JSON.stringify(progress)) as Prisma.InputJsonObject,
+            },
+        });
+    }
+
+    private async findOneOrThrow(tenantId: string, id: string) {
+        const log = await this.prisma.syncLog.findFirst({
+            where: { id, tenantId, syncType: SyncType.BACKFILL },
+        });
+        if (!log) {
+            throw new NotFoundException('Backfill not found');
+        }
+        return log;
+    }
+
+    private toResponse(log: SyncLog) {
+        const progress = log.data as unknown as BackfillProgress;
+        return {
+            id: log.id,
+            platform: log.platform,
+            accountId: log.accountId,
+            status: log.status,
+            startedAt: log.startedAt,
+            completedAt: log.completedAt,
+            errorMessage: log.errorMessage,
+            progress,
+            percent: progress.totalChunks > 0
+                ? Math.round((progress.completedChunks / progress.totalChunks) * 100)
+                : 100,
+        };
+    }
+}
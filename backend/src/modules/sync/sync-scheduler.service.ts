@@ -63,6 +63,17 @@ export class SyncSchedulerService {
         this.logger.log('Scheduled LINE Ads sync completed');
     }
 
+    /**
+     * Scheduled sync for Shopee and Lazada (ads + daily sales) - runs every 6 hours
+     */
+    @Cron(CronExpression.EVERY_6_HOURS)
+    async scheduledMarketplaceSync() {
+        this.logger.log('Starting scheduled marketplace sync (Unified Engine)...');
+        await this.unifiedSyncService.syncPlatform(AdPlatform.SHOPEE);
+        await this.unifiedSyncService.syncPlatform(AdPlatform.LAZADA);
+        this.logger.log('Scheduled marketplace sync completed');
+    }
+
     /**
      * Get sync status for a tenant
      */
@@ -78,6 +89,8 @@ export class SyncSchedulerService {
         const facebookLog = latestLogs.find(log => log.platform === AdPlatform.FACEBOOK);
         const tiktokLog = latestLogs.find(log => log.platform === AdPlatform.TIKTOK);
         const lineLog = latestLogs.find(log => log.platform === AdPlatform.LINE_ADS);
+        const shopeeLog = latestLogs.find(log => log.platform === AdPlatform.SHOPEE);
+        const lazadaLog = latestLogs.find(log => log.platform === AdPlatform.LAZADA);
 
         const formatStatus = (log: any) => log ? {
             lastSyncAt: log.completedAt,
@@ -91,6 +104,8 @@ export class SyncSchedulerService {
             facebook: formatStatus(facebookLog),
             tiktok: formatStatus(tiktokLog),
             line: formatStatus(lineLog),
+            shopee: formatStatus(shopeeLog),
+            lazada: formatStatus(lazadaLog),
             recentLogs: latestLogs,
         };
     }
@@ -0,0 +1,74 @@
+import { TimezoneUtil } from '../../common/utils/timezone.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SyncDateRange {
+    startDate: Date;
+    endDate: Date;
+}
+
+export function toUTCDateOnly(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function formatDateOnly(date: Date): string {
+    return date.toISOString().split('T')[0];
+}
+
+/** Inclusive number of days in a range */
+export function countDays(range: SyncDateRange): number {
+    return Math.round((toUTCDateOnly(range.endDate).getTime() - toUTCDateOnly(range.startDate).getTime()) / DAY_MS) + 1;
+}
+
+/**
+ * Window for a scheduled sync, ending today (in `options.timezone` when given, else UTC)
+ * - Known high-water mark: refetch `lookbackDays` before it so late conversions are picked up
+ * - Never synced: the last `initialDays` days
+ */
+export function incrementalSyncRange(
+    highWaterMark: Date | null,
+    now: Date,
+    options: { lookbackDays: number; initialDays: number; timezone?: string | null },
+): SyncDateRange {
+    const endDate = options.timezone ? TimezoneUtil.getZonedToday(options.timezone, now) : toUTCDateOnly(now);
+    const startDate = highWaterMark
+        ? addDays(toUTCDateOnly(highWaterMark), -options.lookbackDays)
+        : addDays(endDate, -options.initialDays);
+
+    return { startDate: startDate > endDate ? endDate : startDate, endDate };
+}
+
+/**
+ * High-water mark after syncing `synced`, or null to leave the cursor as it is
+ * - Scheduled syncs create the cursor and move it forward
+ * - Backfill chunks never create it, and only extend it when they start at or before the day after it,
+ *   so the next incremental window cannot skip days that were never synced
+ */
+export function nextHighWaterMark(current: Date | null, synced: SyncDateRange, backfill: boolean): Date | null {
+    const syncedUntil = toUTCDateOnly(synced.endDate);
+
+    if (!current) return backfill ? null : syncedUntil;
+    if (syncedUntil <= current) return null;
+    if (backfill && toUTCDateOnly(synced.startDate) > addDays(current, 1)) return null;
+
+    return syncedUntil;
+}
+
+/**
+ * Split an inclusive date range into consecutive chunks of at most `chunkDays` days
+ */
+export function chunkDateRange(range: SyncDateRange, chunkDays: number): SyncDateRange[] {
+    const chunks: SyncDateRange[] = [];
+    const last = toUTCDateOnly(range.endDate);
+
+    for (let start = toUTCDateOnly(range.startDate); start <= last; start = addDays(start, chunkDays)) {
+        const end = addDays(start, chunkDays - 1);
+        chunks.push({ startDate: start, endDate: end > last ? last : end });
+    }
+
+    return chunks;
+}
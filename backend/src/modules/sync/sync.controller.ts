@@ -1,18 +1,23 @@
-import { BadRequestException, Controller, Param, Post, UseGuards } from '@nestjs/common';
+import { BadRequestException, Body, Controller, Get, Param, ParseUUIDPipe, Post, UseGuards } from '@nestjs/common';
 import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
-import { AdPlatform } from '@prisma/client';
+import { AdPlatform, SyncType } from '@prisma/client';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../common/decorators/require-permissions.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { PrismaService } from '../prisma/prisma.service';
 import { UnifiedSyncService } from './unified-sync.service';
+import { SyncBackfillService } from './sync-backfill.service';
+import { StartBackfillDto } from './dto/start-backfill.dto';
 
 @ApiTags('Sync')
 @ApiBearerAuth()
 @Controller('sync')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class SyncController {
     constructor(
         private readonly unifiedSyncService: UnifiedSyncService,
+        private readonly syncBackfillService: SyncBackfillService,
         private readonly prisma: PrismaService,
     ) { }
 
@@ -49,11 +54,49 @@ export class SyncController {
         }
 
         await this.assertAccountOwnership(normalized as AdPlatform, accountId, tenantId);
-        await this.unifiedSyncService.syncAccount(normalized as AdPlatform, accountId, tenantId);
+        await this.unifiedSyncService.syncAccountLogged(normalized as AdPlatform, accountId, tenantId, SyncType.MANUAL);
 
         return { success: true, message: 'Sync started' };
     }
 
+    @Post(':platform/accounts/:accountId/backfill')
+    @RequirePermissions('integrations:connect')
+    @ApiOperation({ summary: 'Start a chunked backfill of an account for a date range (tenant-scoped)' })
+    async startBackfill(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('platform') platform: string,
+        @Param('accountId') accountId: string,
+        @Body() dto: StartBackfillDto,
+    ) {
+        const normalized = platform.toUpperCase();
+        if (!(normalized in AdPlatform)) {
+            throw new BadRequestException(`Invalid platform: ${platform}`);
+        }
+
+        await this.assertAccountOwnership(normalized as AdPlatform, accountId, tenantId);
+        return this.syncBackfillService.start(tenantId, normalized as AdPlatform, accountId, {
+            startDate: new Date(dto.startDate),
+            endDate: new Date(dto.endDate),
+        });
+    }
+
+    @Get('backfills')
+    @RequirePermissions('integrations:read')
+    @ApiOperation({ summary: 'List recent backfill jobs with progress (tenant-scoped)' })
+    async getBackfills(@CurrentUser('tenantId') tenantId: string) {
+        return this.syncBackfillService.findAll(tenantId);
+    }
+
+    @Post('backfills/:id/resume')
+    @RequirePermissions('integrations:connect')
+    @ApiOperation({ summary: 'Resume a failed or interrupted backfill from its last completed chunk' })
+    async resumeBackfill(
+        @CurrentUser('tenantId') tenantId: string,
+        @Param('id', ParseUUIDPipe) id: string,
+    ) {
+        return this.syncBackfillService.resume(tenantId, id);
+    }
+
     private async assertAccountOwnership(platform: AdPlatform, accountId: string, tenantId: string) {
         switch (platform) {
             case AdPlatform.GOOGLE_ADS: {
@@ -81,6 +124,16 @@ export class SyncController {
                 if (!account) throw new BadRequestException('Account not found for this tenant');
                 return;
             }
+            case AdPlatform.SHOPEE: {
+                const account = await this.prisma.shopeeAccount.findFirst({ where: { id: accountId, tenantId } });
+                if (!account) throw new BadRequestException('Account not found for this tenant');
+                return;
+            }
+            case AdPlatform.LAZADA: {
+                const account = await this.prisma.lazadaAccount.findFirst({ where: { id: accountId, tenantId } });
+                if (!account) throw new BadRequestException('Account not found for this tenant');
+                return;
+            }
             default:
                 throw new BadRequestException(`Platform not supported: ${platform}`);
         }
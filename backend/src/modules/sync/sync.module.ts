@@ -8,8 +8,13 @@ import { GoogleAdsModule } from '../integrations/google-ads/google-ads.module';
 import { FacebookAdsModule } from '../integrations/facebook/facebook-ads.module';
 import { TikTokAdsModule } from '../integrations/tiktok/tiktok-ads.module';
 import { LineAdsModule } from '../integrations/line-ads/line-ads.module';
+import { ShopeeModule } from '../integrations/shopee/shopee.module';
+import { LazadaModule } from '../integrations/lazada/lazada.module';
+import { MarketplaceModule } from '../integrations/marketplace/marketplace.module';
 import { IntegrationFactory } from '../integrations/common/integration.factory';
 import { SyncController } from './sync.controller';
+import { SyncBackfillService } from './sync-backfill.service';
+import { AdLevelSyncService } from './ad-level-sync.service';
 
 @Module({
     imports: [
@@ -20,16 +25,22 @@ import { SyncController } from './sync.controller';
         FacebookAdsModule,
         TikTokAdsModule,
         LineAdsModule,
+        ShopeeModule,
+        LazadaModule,
+        MarketplaceModule,
     ],
     controllers: [SyncController],
     providers: [
         SyncSchedulerService,
         UnifiedSyncService,
+        SyncBackfillService,
+        AdLevelSyncService,
         IntegrationFactory,
     ],
     exports: [
         SyncSchedulerService,
         UnifiedSyncService,
+        IntegrationFactory,
     ],
 })
 export class SyncModule { }
@@ -1,8 +1,17 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
 import { IntegrationFactory } from '../integrations/common/integration.factory';
-import { AdPlatform, Prisma } from '@prisma/client';
-import { MarketingPlatformAdapter } from '../integrations/common/marketing-platform.adapter';
+import { AdPlatform, SyncStatus, SyncType } from '@prisma/client';
+import { MarketingPlatformAdapter, PlatformCredentials } from '../integrations/common/marketing-platform.adapter';
+import { isMarketplaceAdapter } from '../integrations/common/marketplace.adapter';
+import { MarketplaceSalesService } from '../integrations/marketplace/marketplace-sales.service';
+import { SyncDateRange, formatDateOnly, incrementalSyncRange, nextHighWaterMark, toUTCDateOnly } from './sync-window';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
+import { ACTIVE_TENANT_WHERE } from '../../common/constants/app.constants';
+import { AdLevelSyncService } from './ad-level-sync.service';
+import { CredentialVaultService } from '../credential-vault/credential-vault.service';
+import { classifyTokenFailure } from '../credential-vault/token-failure';
 
 function toNumber(value: any, defaultValue = 0): number {
     if (value === null || value === undefined) return defaultValue;
@@ -18,8 +27,27 @@ function toNumber(value: any, defaultValue = 0): number {
     return Number.isFinite(n) ? n : defaultValue;
 }
 
-function toUTCDateOnly(date: Date): Date {
-    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+/** Campaign column that links a campaign to its platform account */
+const CAMPAIGN_ACCOUNT_FK: Partial<Record<AdPlatform, string>> = {
+    [AdPlatform.GOOGLE_ADS]: 'googleAdsAccountId',
+    [AdPlatform.FACEBOOK]: 'facebookAdsAccountId',
+    [AdPlatform.INSTAGRAM]: 'facebookAdsAccountId',
+    [AdPlatform.TIKTOK]: 'tiktokAdsAccountId',
+    [AdPlatform.LINE_ADS]: 'lineAdsAccountId',
+    [AdPlatform.SHOPEE]: 'shopeeAccountId',
+    [AdPlatform.LAZADA]: 'lazadaAccountId',
+};
+
+export interface SyncAccountOptions {
+    /** Explicit window (backfill chunk); defaults to the incremental window from the account's cursor */
+    dateRange?: SyncDateRange;
+}
+
+export interface SyncAccountResult {
+    startDate: Date;
+    endDate: Date;
+    campaigns: number;
+    metricRows: number;
 }
 
 @Injectable()
@@ -29,6 +57,11 @@ export class UnifiedSyncService {
     constructor(
         private readonly prisma: PrismaService,
         private readonly integrationFactory: IntegrationFactory,
+        private readonly marketplaceSalesService: MarketplaceSalesService,
+        private readonly config: ConfigService,
+        private readonly adLevelSyncService: AdLevelSyncService,
+        private readonly tenantTimezone: TenantTimezoneService,
+        private readonly credentialVault: CredentialVaultService,
     ) { }
 
     private async resolveIntegrationId(
@@ -66,6 +99,8 @@ export class UnifiedSyncService {
             [AdPlatform.GOOGLE_ANALYTICS]: await this.syncPlatform(AdPlatform.GOOGLE_ANALYTICS),
             [AdPlatform.TIKTOK]: await this.syncPlatform(AdPlatform.TIKTOK),
             [AdPlatform.LINE_ADS]: await this.syncPlatform(AdPlatform.LINE_ADS),
+            [AdPlatform.SHOPEE]: await this.syncPlatform(AdPlatform.SHOPEE),
+            [AdPlatform.LAZADA]: await this.syncPlatform(AdPlatform.LAZADA),
         };
 
         this.logger.log('Unified sync completed', results);
@@ -81,6 +116,8 @@ export class UnifiedSyncService {
             [AdPlatform.GOOGLE_ANALYTICS]: await this.syncPlatformForTenant(AdPlatform.GOOGLE_ANALYTICS, tenantId),
             [AdPlatform.TIKTOK]: await this.syncPlatformForTenant(AdPlatform.TIKTOK, tenantId),
             [AdPlatform.LINE_ADS]: await this.syncPlatformForTenant(AdPlatform.LINE_ADS, tenantId),
+            [AdPlatform.SHOPEE]: await this.syncPlatformForTenant(AdPlatform.SHOPEE, tenantId),
+            [AdPlatform.LAZADA]: await this.syncPlatformForTenant(AdPlatform.LAZADA, tenantId),
         };
 
         return results;
@@ -93,24 +130,31 @@ export class UnifiedSyncService {
         this.logger.log(`Syncing all accounts for platform: ${platform}`);
         let accounts: any[] = [];
 
-        // Fetch accounts based on platform
+        // Fetch accounts based on platform, skipping deleted and suspended tenants
         // TODO: In the future, we should have a unified Account table or a polymorphic relation
         switch (platform) {
             case AdPlatform.GOOGLE_ADS:
-                accounts = await this.prisma.googleAdsAccount.findMany({ where: { status: 'ENABLED' } });
+                accounts = await this.prisma.googleAdsAccount.findMany({ where: { tenant: ACTIVE_TENANT_WHERE, status: 'ENABLED' } });
                 break;
             case AdPlatform.FACEBOOK:
             case 'INSTAGRAM' as any:
-                accounts = await this.prisma.facebookAdsAccount.findMany({ where: { status: 'ACTIVE' } });
+                accounts = await this.prisma.facebookAdsAccount.findMany({ where: { tenant: ACTIVE_TENANT_WHERE, status: 'ACTIVE' } });
                 break;
             case AdPlatform.GOOGLE_ANALYTICS:
-                accounts = await this.prisma.googleAnalyticsAccount.findMany({ where: { status: 'ACTIVE' } });
+                accounts = await this.prisma.googleAnalyticsAccount.findMany({ where: { tenant: ACTIVE_TENANT_WHERE, status: 'ACTIVE' } });
                 break;
             case AdPlatform.TIKTOK:
-                accounts = await this.prisma.tikTokAdsAccount.findMany({ where: { status: 'ACTIVE' } });
+                accounts = await this.prisma.tikTokAdsAccount.findMany({ where: { tenant: ACTIVE_TENANT_WHERE, status: 'ACTIVE' } });
                 break;
             case AdPlatform.LINE_ADS:
-                accounts = await this.prisma.lineAdsAccount.findMany({ where: { status: 'ACTIVE' } });
+                // Accounts linked through LINE Login only have no API keys to sync with
+                accounts = await this.prisma.lineAdsAccount.findMany({ where: { tenant: ACTIVE_TENANT_WHERE, status: 'ACTIVE', accessKey: { not: null } } });
+                break;
+            case AdPlatform.SHOPEE:
+                accounts = await this.prisma.shopeeAccount.findMany({ where: { tenant: ACTIVE_TENANT_WHERE, status: 'ACTIVE' } });
+                break;
+            case AdPlatform.LAZADA:
+                accounts = await this.prisma.lazadaAccount.findMany({ where: { tenant: ACTIVE_TENANT_WHERE, status: 'ACTIVE' } });
                 break;
             default:
                 this.logger.warn(`Platform ${platform} not supported for batch sync`);
@@ -122,7 +166,7 @@ export class UnifiedSyncService {
 
         for (const account of accounts) {
             try {
-                await this.syncAccount(platform, account.id, account.tenantId, account);
+                await this.syncAccountLogged(platform, account.id, account.tenantId, SyncType.SCHEDULED, account);
                 success++;
             } catch (error) {
                 this.logger.error(`Failed to sync account ${account.id} (${platform}): ${error.message}`);
@@ -151,7 +195,13 @@ export class UnifiedSyncService {
                 accounts = await this.prisma.tikTokAdsAccount.findMany({ where: { tenantId, status: 'ACTIVE' } });
                 break;
             case AdPlatform.LINE_ADS:
-                accounts = await this.prisma.lineAdsAccount.findMany({ where: { tenantId, status: 'ACTIVE' } });
+                accounts = await this.prisma.lineAdsAccount.findMany({ where: { tenantId, status: 'ACTIVE', accessKey: { not: null } } });
+                break;
+            case AdPlatform.SHOPEE:
+                accounts = await this.prisma.shopeeAccount.findMany({ where: { tenantId, status: 'ACTIVE' } });
+                break;
+            case AdPlatform.LAZADA:
+                accounts = await this.prisma.lazadaAccount.findMany({ where: { tenantId, status: 'ACTIVE' } });
                 break;
             default:
                 this.logger.warn(`Platform ${platform} not supported for tenant sync`);
@@ -163,7 +213,7 @@ export class UnifiedSyncService {
 
         for (const account of accounts) {
             try {
-                await this.syncAccount(platform, account.id, tenantId, account);
+                await this.syncAccountLogged(platform, account.id, tenantId, SyncType.MANUAL, account);
                 success++;
             } catch (error) {
                 this.logger.error(`Failed to sync account ${account.id} (${platform}, tenant ${tenantId}): ${error.message}`);
@@ -174,10 +224,85 @@ export class UnifiedSyncService {
         return { success, failed };
     }
 
+    /**
+     * Sync an account and record the run (window, campaigns, metric rows) in SyncLog
+     */
+    async syncAccountLogged(
+        platform: AdPlatform,
+        accountId: string,
+        tenantId: string,
+        syncType: SyncType,
+        account?: any,
+    ): Promise<SyncAccountResult> {
+        const log = await this.prisma.syncLog.create({
+            data: {
+                tenantId,
+                platform,
+                accountId,
+                syncType,
+                status: SyncStatus.STARTED,
+                data: { mode: 'incremental' },
+            },
+        });
+
+        try {
+            const result = await this.syncAccount(platform, accountId, tenantId, account);
+            await this.prisma.syncLog.update({
+                where: { id: log.id },
+                data: {
+                    status: SyncStatus.COMPLETED,
+                    completedAt: new Date(),
+                    recordsSync: result.metricRows,
+                    data: {
+                        mode: 'incremental',
+                        startDate: formatDateOnly(result.startDate),
+                        endDate: formatDateOnly(result.endDate),
+                        campaigns: result.campaigns,
+                        metricRows: result.metricRows,
+                    },
+                },
+            });
+            return result;
+        } catch (error) {
+            await this.prisma.syncLog.update({
+                where: { id: log.id },
+                data: { status: SyncStatus.FAILED, completedAt: new Date(), errorMessage: error.message },
+            });
+            await this.recordAuthFailure(platform, accountId, tenantId, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Mark the account's token invalid when a sync failed on authorization,
+     * so the token health scheduler asks tenant admins to reconnect
+     */
+    private async recordAuthFailure(platform: AdPlatform, accountId: string, tenantId: string, error: any): Promise<void> {
+        const reason = classifyTokenFailure(error);
+        if (reason === 'TRANSIENT') return;
+
+        try {
+            await this.credentialVault.recordFailure(
+                { tenantId, platform: this.vaultPlatform(platform), accountId },
+                reason,
+                error.message,
+            );
+        } catch (recordError) {
+            this.logger.error(`Failed to record token failure for ${platform} account ${accountId}: ${recordError.message}`);
+        }
+    }
+
     /**
      * Sync a specific account using the Adapter Pattern
+     * Fetches the incremental window unless `options.dateRange` is given, then advances the account's cursor.
      */
-    async syncAccount(platform: AdPlatform, accountId: string, tenantId: string, account?: any) {
+    async syncAccount(
+        platform: AdPlatform,
+        accountId: string,
+        tenantId: string,
+        account?: any,
+        options: SyncAccountOptions = {},
+    ): Promise<SyncAccountResult> {
         this.logger.log(`Syncing ${platform} account: ${accountId} (tenant ${tenantId})`);
 
         // 1. Prepare Credentials
@@ -192,26 +317,10 @@ export class UnifiedSyncService {
 
         const adapter = this.integrationFactory.getAdapter(platform);
 
-        const credentials = {
-            accessToken: accountData.accessToken,
-            refreshToken: accountData.refreshToken,
-            accountId: (() => {
-                switch (platform) {
-                    case AdPlatform.GOOGLE_ANALYTICS:
-                        return accountData.propertyId;
-                    case AdPlatform.GOOGLE_ADS:
-                        return accountData.customerId;
-                    case AdPlatform.FACEBOOK:
-                        return accountData.accountId;
-                    case AdPlatform.TIKTOK:
-                        return accountData.advertiserId;
-                    case AdPlatform.LINE_ADS:
-                        return accountData.channelId;
-                    default:
-                        return accountData.accountId;
-                }
-            })(),
-        };
+        // Marketplace tokens expire within hours, so they are refreshed and decrypted up front
+        const credentials: PlatformCredentials = this.marketplaceSalesService.isMarketplace(platform)
+            ? await this.marketplaceSalesService.getCredentials(platform, accountData)
+            : await this.buildCredentials(platform, accountData);
 
         // 2. Fetch Campaigns
         const campaigns = await adapter.fetchCampaigns(credentials);
@@ -221,45 +330,161 @@ export class UnifiedSyncService {
         }
 
         // 4. Fetch & Save Metrics
+        const dateRange = options.dateRange ?? (await this.resolveIncrementalRange(tenantId, platform, accountId));
+        let metricRows = 0;
+
         if (platform === AdPlatform.GOOGLE_ANALYTICS) {
             // GA4 Logic: Fetch Account Level Metrics
-            const dateRange = {
-                startDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Last 30 days
-                endDate: new Date(),
-            };
-
             const metrics = await adapter.fetchMetrics(credentials, credentials.accountId, dateRange);
             await this.saveWebAnalytics(tenantId, credentials.accountId, metrics);
+            metricRows += metrics.length;
 
         } else {
             // Ads Logic: Fetch Campaign Level Metrics
-            const campaignPlatforms = platform === ('INSTAGRAM' as any as AdPlatform) ? [AdPlatform.FACEBOOK] : [platform];
+            const campaignPlatforms = platform === AdPlatform.INSTAGRAM ? [AdPlatform.FACEBOOK] : [platform];
             const dbCampaigns = await this.prisma.campaign.findMany({
                 where: {
                     tenantId,
                     platform: { in: campaignPlatforms },
-                    OR: [
-                        { googleAdsAccountId: accountId },
-                        { facebookAdsAccountId: accountId }
-                    ]
+                    [this.accountFkField(platform)]: accountId,
                 }
             });
 
             for (const campaign of dbCampaigns) {
                 if (!campaign.externalId) continue;
 
-                const dateRange = {
-                    startDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Last 30 days
-                    endDate: new Date(),
-                };
-
                 const metrics = await adapter.fetchMetrics(credentials, campaign.externalId, dateRange);
                 await this.saveCampaignMetrics(tenantId, platform, campaign.id, metrics);
+                metricRows += metrics.length;
+
+                // Ad groups, ads and per-ad metrics are best effort; a failure here keeps the campaign data
+                try {
+                    await this.adLevelSyncService.syncCampaign(adapter, credentials, platform, campaign, dateRange);
+                } catch (error) {
+                    this.logger.warn(`Ad level sync failed for campaign ${campaign.externalId}: ${error.message}`);
+                }
             }
         }
 
+        // 5. Marketplaces: Orders & GMV
+        if (isMarketplaceAdapter(adapter)) {
+            await this.marketplaceSalesService.syncDailySales(
+                platform,
+                { id: accountId, tenantId },
+                dateRange,
+                credentials,
+            );
+        }
+
         // Update Last Sync Time
         await this.updateLastSync(platform, accountId);
+        await this.advanceCursor(tenantId, platform, accountId, dateRange, !!options.dateRange);
+
+        return { ...dateRange, campaigns: campaigns.length, metricRows };
+    }
+
+    /**
+     * Credentials of a connected account, built the same way as for a sync run
+     */
+    async getAccountCredentials(platform: AdPlatform, accountId: string): Promise<PlatformCredentials> {
+        const accountData = await this.fetchAccountData(platform, accountId);
+        if (!accountData) {
+            throw new Error(`Account not found: ${platform} ${accountId}`);
+        }
+
+        return this.marketplaceSalesService.isMarketplace(platform)
+            ? this.marketplaceSalesService.getCredentials(platform, accountData)
+            : this.buildCredentials(platform, accountData);
+    }
+
+    /**
+     * Window from the account's high-water mark minus SYNC_LOOKBACK_DAYS, or SYNC_INITIAL_DAYS for new accounts,
+     * up to today in the tenant's timezone
+     */
+    private async resolveIncrementalRange(tenantId: string, platform: AdPlatform, accountId: string): Promise<SyncDateRange> {
+        const cursor = await this.prisma.syncCursor.findUnique({
+            where: { sync_cursors_platform_account_unique: { platform, accountId } },
+        });
+
+        return incrementalSyncRange(cursor?.highWaterMark ?? null, new Date(), {
+            lookbackDays: Number(this.config.get('SYNC_LOOKBACK_DAYS', 3)),
+            initialDays: Number(this.config.get('SYNC_INITIAL_DAYS', 30)),
+            timezone: await this.tenantTimezone.getTimezone(tenantId),
+        });
+    }
+
+    /**
+     * Move the high-water mark forward only - backfilling old ranges must not rewind it (see nextHighWaterMark)
+     */
+    private async advanceCursor(
+        tenantId: string,
+        platform: AdPlatform,
+        accountId: string,
+        synced: SyncDateRange,
+        backfill: boolean,
+    ) {
+        const key = { sync_cursors_platform_account_unique: { platform, accountId } };
+        const existing = await this.prisma.syncCursor.findUnique({ where: key });
+        const highWaterMark = nextHighWaterMark(existing?.highWaterMark ?? null, synced, backfill);
+
+        if (!existing) {
+            if (highWaterMark) {
+                await this.prisma.syncCursor.create({ data: { tenantId, platform, accountId, highWaterMark } });
+            }
+            return;
+        }
+
+        await this.prisma.syncCursor.update({
+            where: key,
+            data: {
+                lastSyncedAt: new Date(),
+                ...(highWaterMark ? { highWaterMark } : {}),
+            },
+        });
+    }
+
+    /**
+     * Adapter credentials with the account's tokens decrypted from the credential vault
+     */
+    private async buildCredentials(platform: AdPlatform, accountData: any): Promise<PlatformCredentials> {
+        const stored = await this.credentialVault.get({
+            tenantId: accountData.tenantId,
+            platform: this.vaultPlatform(platform),
+            accountId: accountData.id,
+        });
+
+        // LINE Ads signs requests with an access key / secret key pair instead of an OAuth token
+        if (platform === AdPlatform.LINE_ADS) {
+            return { accessToken: accountData.accessKey, secretKey: stored?.secret ?? undefined, accountId: accountData.channelId };
+        }
+
+        return {
+            accessToken: stored?.accessToken ?? undefined,
+            refreshToken: stored?.refreshToken ?? undefined,
+            accountId: (() => {
+                switch (platform) {
+                    case AdPlatform.GOOGLE_ANALYTICS:
+                        return accountData.propertyId;
+                    case AdPlatform.GOOGLE_ADS:
+                        return accountData.customerId;
+                    case AdPlatform.FACEBOOK:
+                        return accountData.accountId;
+                    case AdPlatform.TIKTOK:
+                        return accountData.advertiserId;
+                    default:
+                        return accountData.accountId;
+                }
+            })(),
+        };
+    }
+
+    /** Instagram runs on the Facebook account and its token */
+    private vaultPlatform(platform: AdPlatform): AdPlatform {
+        return platform === ('INSTAGRAM' as any) ? AdPlatform.FACEBOOK : platform;
+    }
+
+    private accountFkField(platform: AdPlatform): string {
+        return CAMPAIGN_ACCOUNT_FK[platform] ?? 'lineAdsAccountId';
     }
 
     private async fetchAccountData(platform: AdPlatform, accountId: string) {
@@ -275,6 +500,10 @@ export class UnifiedSyncService {
                 return this.prisma.tikTokAdsAccount.findUnique({ where: { id: accountId } });
             case AdPlatform.LINE_ADS:
                 return this.prisma.lineAdsAccount.findUnique({ where: { id: accountId } });
+            case AdPlatform.SHOPEE:
+                return this.prisma.shopeeAccount.findUnique({ where: { id: accountId } });
+            case AdPlatform.LAZADA:
+                return this.prisma.lazadaAccount.findUnique({ where: { id: accountId } });
             default:
                 throw new Error(`Unknown platform ${platform}`);
         }
@@ -288,14 +517,7 @@ export class UnifiedSyncService {
         integrationId: string | null,
     ) {
         // Common logic to upsert campaign
-        const fkField =
-            platform === AdPlatform.GOOGLE_ADS
-                ? 'googleAdsAccountId'
-                : platform === AdPlatform.FACEBOOK
-                    ? 'facebookAdsAccountId'
-                    : platform === AdPlatform.TIKTOK
-                        ? 'tiktokAdsAccountId'
-                        : 'lineAdsAccountId';
+        const fkField = this.accountFkField(platform);
 
         // Check existence
         const existing = await this.prisma.campaign.findFirst({
@@ -310,6 +532,7 @@ export class UnifiedSyncService {
             name: data.name,
             status: data.status,
             budget: data.budget,
+            currency: data.currency,
             startDate: data.startDate,
             endDate: data.endDate,
             [fkField]: accountId,
@@ -444,6 +667,12 @@ export class UnifiedSyncService {
             case AdPlatform.LINE_ADS:
                 await this.prisma.lineAdsAccount.update({ where: { id: accountId }, data: { lastSyncAt: now } });
                 break;
+            case AdPlatform.SHOPEE:
+                await this.prisma.shopeeAccount.update({ where: { id: accountId }, data: { lastSyncAt: now } });
+                break;
+            case AdPlatform.LAZADA:
+                await this.prisma.lazadaAccount.update({ where: { id: accountId }, data: { lastSyncAt: now } });
+                break;
         }
     }
 }
@@ -0,0 +1,74 @@
+/**
+ * Move tokens from the per-platform account tables into the credential vault
+ *
+ * Before the vault, tokens lived in the access_token / refresh_token /
+ * secret_key columns of each account table - some in plaintext, some encrypted
+ * with EncryptionService (AES-256-CBC, "ivHex:ciphertextHex"). This script
+ * stores them encrypted in platform_tokens and clears the old columns.
+ * Safe to re-run: accounts with empty legacy columns are skipped.
+ * CredentialVaultService also seals an account on its first read; this script
+ * moves every account at once, e.g. before the legacy columns are dropped.
+ *
+ *   npm run credentials:encrypt-legacy            # migrate
+ *   npm run credentials:encrypt-legacy -- --dry-run
+ */
+import * as dotenv from 'dotenv';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../modules/prisma/prisma.service';
+import { EncryptionService } from '../common/services/encryption.service';
+import { CredentialVaultService } from '../modules/credential-vault/credential-vault.service';
+import { legacySecrets, legacySources } from '../modules/credential-vault/legacy-credentials';
+
+dotenv.config();
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const config = new ConfigService();
+  const prisma = new PrismaService();
+  const vault = new CredentialVaultService(prisma, config);
+  const encryption = new EncryptionService(config);
+
+  const decrypt = (value: string) => encryption.decrypt(value);
+  let failed = 0;
+
+  try {
+    for (const { platform, delegate, columns } of legacySources(prisma)) {
+      const rows = await delegate.findMany({
+        where: { OR: columns.map((column) => ({ [column]: { not: null } })) },
+        select: { id: true, tenantId: true, ...Object.fromEntries(columns.map((column) => [column, true])) },
+      });
+
+      let moved = 0;
+      for (const row of rows) {
+        try {
+          const secrets = legacySecrets(row, columns, decrypt);
+
+          if (!dryRun) {
+            if (Object.keys(secrets).length > 0) {
+              await vault.store({ tenantId: row.tenantId, platform, accountId: row.id }, secrets);
+            }
+            await delegate.update({
+              where: { id: row.id },
+              data: Object.fromEntries(columns.map((column) => [column, null])),
+            });
+          }
+          moved += 1;
+        } catch (error) {
+          failed += 1;
+          console.error(`  ${platform} ${row.id}: ${error.message}`);
+        }
+      }
+
+      console.log(`${platform}: ${moved}/${rows.length} accounts ${dryRun ? 'would be migrated' : 'migrated'}`);
+    }
+
+    if (failed > 0) process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
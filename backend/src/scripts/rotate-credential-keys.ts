@@ -0,0 +1,38 @@
+/**
+ * Re-encrypt platform tokens with the active credential key
+ *
+ * 1. Add the new key to CREDENTIAL_KEYS and set CREDENTIAL_ACTIVE_KEY to its id
+ * 2. Deploy, so new tokens are written with the new key
+ * 3. npm run credentials:rotate-keys
+ * 4. Remove the old key from CREDENTIAL_KEYS once no row uses it
+ */
+import * as dotenv from 'dotenv';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../modules/prisma/prisma.service';
+import { CredentialVaultService } from '../modules/credential-vault/credential-vault.service';
+
+dotenv.config();
+
+async function main() {
+  const prisma = new PrismaService();
+  const vault = new CredentialVaultService(prisma, new ConfigService());
+
+  try {
+    const { rotated, failed } = await vault.rotateKeys();
+    console.log(`Rotated ${rotated} credential rows, ${failed} failed`);
+
+    const remaining = await prisma.platformToken.groupBy({ by: ['keyId'], _count: { _all: true } });
+    for (const row of remaining) {
+      console.log(`  ${row.keyId}: ${row._count._all} rows`);
+    }
+
+    if (failed > 0) process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
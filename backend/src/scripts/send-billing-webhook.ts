@@ -0,0 +1,60 @@
+/**
+ * Send a signed billing fixture to a running backend
+ *
+ *   npm run billing:send-fixture -- <fixture> [tenantId] [--same-id]
+ *
+ * <fixture> is a file name from src/modules/subscription/billing/fixtures
+ * (with or without .json). tenantId replaces the fixture's data.tenantId.
+ * A fresh event id is used unless --same-id is given (to try redelivery).
+ * Uses BILLING_WEBHOOK_SECRET and API_URL (default http://localhost:3000/api/v1).
+ */
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import { signBillingPayload, SIGNATURE_HEADER } from '../modules/subscription/billing/hmac-billing-provider';
+
+dotenv.config();
+
+const FIXTURES_DIR = path.join(__dirname, '../modules/subscription/billing/fixtures');
+
+async function main() {
+  const args = process.argv.slice(2);
+  const sameId = args.includes('--same-id');
+  const [fixtureName, tenantId] = args.filter((arg) => !arg.startsWith('--'));
+
+  if (!fixtureName) {
+    const available = fs.readdirSync(FIXTURES_DIR).map((file) => file.replace(/\.json$/, ''));
+    console.error(`Usage: npm run billing:send-fixture -- <fixture> [tenantId] [--same-id]\nFixtures: ${available.join(', ')}`);
+    process.exit(1);
+  }
+
+  const secret = process.env.BILLING_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('BILLING_WEBHOOK_SECRET is not set');
+  }
+
+  const file = path.join(FIXTURES_DIR, fixtureName.endsWith('.json') ? fixtureName : `${fixtureName}.json`);
+  const event = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!sameId) event.id = `${event.id}_${Date.now()}`;
+  if (tenantId) event.data = { ...event.data, tenantId };
+
+  const body = JSON.stringify(event);
+  const apiUrl = (process.env.API_URL || 'http://localhost:3000/api/v1').replace(/\/+$/, '');
+  const response = await axios.post(`${apiUrl}/billing/webhooks/generic`, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      [SIGNATURE_HEADER]: signBillingPayload(body, secret),
+    },
+    validateStatus: () => true,
+  });
+
+  console.log(`${event.type} (${event.id}) -> ${response.status}`);
+  console.log(JSON.stringify(response.data, null, 2));
+  if (response.status >= 300) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
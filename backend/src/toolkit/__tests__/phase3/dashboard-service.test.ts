@@ -3,6 +3,9 @@ import { test, describe, beforeEach } from 'node:test';
 import * as assert from 'node:assert';
 import { DashboardService } from '../../../modules/dashboard/dashboard.service';
 import { PrismaService } from '../../../modules/prisma/prisma.service';
+import { ReportingCurrencyService } from '../../../modules/currency/reporting-currency.service';
+import { ExchangeRatesService } from '../../../modules/currency/exchange-rates.service';
+import { TenantTimezoneService } from '../../../common/services/tenant-timezone.service';
 import { ProvenanceMode } from '../../../common/provenance.constants';
 import { BadRequestException } from '@nestjs/common';
 
@@ -28,7 +31,9 @@ describe('DashboardService (T1: PROD Invariant)', () => {
             user: { count: async () => 0 },
             webAnalyticsDaily: { aggregate: async () => ({ _sum: {} }) }
         };
-        dashboardService = new DashboardService(mockPrisma as PrismaService);
+        const reportingCurrency = new ReportingCurrencyService(mockPrisma as PrismaService, {} as ExchangeRatesService);
+        const tenantTimezone = new TenantTimezoneService(mockPrisma as PrismaService);
+        dashboardService = new DashboardService(mockPrisma as PrismaService, reportingCurrency, tenantTimezone);
     });
 
     test('getSummary should filter isMockData: false for campaign counts (Active & Total)', async () => {
@@ -172,7 +177,7 @@ describe('DashboardService (T1: PROD Invariant)', () => {
         mockPrisma.campaign.findMany = async () => [];
         mockPrisma.webAnalyticsDaily.aggregate = async () => ({ _sum: {} });
 
-        const rows = await dashboardService.getPerformanceByPlatform('tenant-1', 30, ProvenanceMode.REAL);
+        const { data: rows } = await dashboardService.getPerformanceByPlatform('tenant-1', 30, ProvenanceMode.REAL);
         const platforms = rows.map((row: any) => row.platform);
 
         assert.ok(platforms.includes('GOOGLE_ADS'));
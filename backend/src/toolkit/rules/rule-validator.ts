@@ -254,6 +254,7 @@ export class RuleValidator {
                 break;
 
             case 'DROP_PERCENT':
+            case 'INCREASE_PERCENT':
                 errors.push(...this.validateDropPercentCondition(condition));
                 break;
 
@@ -261,6 +262,10 @@ export class RuleValidator {
                 errors.push(...this.validateZeroConversionsCondition(condition));
                 break;
 
+            case 'BUDGET_PERCENT':
+                errors.push(...this.validateBudgetPercentCondition(condition));
+                break;
+
             default:
                 errors.push({
                     field: 'condition.type',
@@ -326,7 +331,7 @@ export class RuleValidator {
     }
 
     private validateDropPercentCondition(
-        condition: Extract<AlertCondition, { type: 'DROP_PERCENT' }>
+        condition: Extract<AlertCondition, { type: 'DROP_PERCENT' | 'INCREASE_PERCENT' }>
     ): RuleValidationError[] {
         const errors: RuleValidationError[] = [];
 
@@ -335,7 +340,7 @@ export class RuleValidator {
             errors.push({
                 field: 'condition.metric',
                 code: 'REQUIRED_FIELD_MISSING',
-                message: 'DROP_PERCENT condition requires a "metric" field',
+                message: `${condition.type} condition requires a "metric" field`,
             });
         } else if (!VALID_METRICS.includes(condition.metric)) {
             errors.push({
@@ -350,24 +355,45 @@ export class RuleValidator {
             errors.push({
                 field: 'condition.thresholdPercent',
                 code: 'REQUIRED_FIELD_MISSING',
-                message: 'DROP_PERCENT condition requires a "thresholdPercent" field',
+                message: `${condition.type} condition requires a "thresholdPercent" field`,
             });
         } else if (
             typeof condition.thresholdPercent !== 'number' ||
             isNaN(condition.thresholdPercent) ||
             condition.thresholdPercent < 0 ||
-            condition.thresholdPercent > 100
+            // A drop can never exceed 100%; an increase can
+            (condition.type === 'DROP_PERCENT' && condition.thresholdPercent > 100)
         ) {
             errors.push({
                 field: 'condition.thresholdPercent',
                 code: 'INVALID_VALUE',
-                message: 'DROP_PERCENT "thresholdPercent" must be a number between 0 and 100',
+                message: condition.type === 'DROP_PERCENT'
+                    ? 'DROP_PERCENT "thresholdPercent" must be a number between 0 and 100'
+                    : `${condition.type} "thresholdPercent" must be a non-negative number`,
             });
         }
 
         return errors;
     }
 
+    private validateBudgetPercentCondition(
+        condition: Extract<AlertCondition, { type: 'BUDGET_PERCENT' }>
+    ): RuleValidationError[] {
+        if (
+            typeof condition.thresholdPercent !== 'number' ||
+            isNaN(condition.thresholdPercent) ||
+            condition.thresholdPercent <= 0
+        ) {
+            return [{
+                field: 'condition.thresholdPercent',
+                code: 'INVALID_VALUE',
+                message: 'BUDGET_PERCENT "thresholdPercent" must be a positive number',
+            }];
+        }
+
+        return [];
+    }
+
     private validateZeroConversionsCondition(
         condition: Extract<AlertCondition, { type: 'ZERO_CONVERSIONS' }>
     ): RuleValidationError[] {
@@ -16,6 +16,10 @@
  * - Real triggerCheck() implementation
  * - THRESHOLD, ZERO_CONVERSIONS, DROP_PERCENT conditions
  * - Deterministic, explainable results
+ *
+ * Production Scope:
+ * - INCREASE_PERCENT (baseline-relative rise, e.g. CPC spike)
+ * - BUDGET_PERCENT (spend as % of budget, replaces name-based Overspend check)
  * =============================================================================
  */
 
@@ -33,6 +37,7 @@ export interface MetricSnapshot {
     readonly campaignId: string;
     readonly date: Date;
     readonly platform: string;
+    readonly budget?: number; // Used by BUDGET_PERCENT; absent when no budget is set
     readonly metrics: {
         readonly impressions: number;
         readonly clicks: number;
@@ -90,7 +95,9 @@ export interface AlertRule {
 export type AlertCondition =
     | { type: 'THRESHOLD'; metric: keyof MetricSnapshot['metrics']; operator: 'GT' | 'LT' | 'GTE' | 'LTE' | 'EQ'; value: number }
     | { type: 'DROP_PERCENT'; metric: keyof MetricSnapshot['metrics']; thresholdPercent: number }
-    | { type: 'ZERO_CONVERSIONS'; minSpend: number };
+    | { type: 'INCREASE_PERCENT'; metric: keyof MetricSnapshot['metrics']; thresholdPercent: number }
+    | { type: 'ZERO_CONVERSIONS'; minSpend: number }
+    | { type: 'BUDGET_PERCENT'; thresholdPercent: number };
 
 /**
  * Result of evaluating a single alert rule
@@ -108,6 +115,8 @@ export interface AlertTriggerResult {
         readonly baseline?: number;
         readonly threshold?: number;
         readonly dropPercent?: number;
+        readonly increasePercent?: number;
+        readonly budget?: number;
     };
 }
 
@@ -256,12 +265,16 @@ export class AlertEngine {
                 return this.evaluateThreshold(snapshot, rule, condition, evaluatedAt);
 
             case 'DROP_PERCENT':
-                // DROP_PERCENT requires baseline - if not provided, cannot trigger
+            case 'INCREASE_PERCENT':
+                // Percent-change conditions require baseline - if not provided, cannot trigger
                 return this.evaluateDropPercentWithoutBaseline(snapshot, rule, condition, evaluatedAt);
 
             case 'ZERO_CONVERSIONS':
                 return this.evaluateZeroConversions(snapshot, rule, condition, evaluatedAt);
 
+            case 'BUDGET_PERCENT':
+                return this.evaluateBudgetPercent(snapshot, rule, condition, evaluatedAt);
+
             default:
                 // Unknown condition type - fail safe (not triggered)
                 return {
@@ -299,9 +312,18 @@ export class AlertEngine {
                 }
                 return this.evaluateDropPercentWithoutBaseline(snapshot, rule, condition, evaluatedAt);
 
+            case 'INCREASE_PERCENT':
+                if (baseline) {
+                    return this.evaluateIncreasePercent(snapshot, baseline, rule, condition, evaluatedAt);
+                }
+                return this.evaluateDropPercentWithoutBaseline(snapshot, rule, condition, evaluatedAt);
+
             case 'ZERO_CONVERSIONS':
                 return this.evaluateZeroConversions(snapshot, rule, condition, evaluatedAt);
 
+            case 'BUDGET_PERCENT':
+                return this.evaluateBudgetPercent(snapshot, rule, condition, evaluatedAt);
+
             default:
                 return {
                     ruleId: rule.id,
@@ -495,7 +517,109 @@ export class AlertEngine {
     }
 
     /**
-     * Evaluate DROP_PERCENT without baseline
+     * Evaluate INCREASE_PERCENT condition with baseline
+     *
+     * Logic: Mirror of DROP_PERCENT for rising metrics (CPC, spend spikes)
+     * Trigger if: ((current - baseline) / baseline) * 100 >= thresholdPercent
+     */
+    private evaluateIncreasePercent(
+        snapshot: MetricSnapshot,
+        baseline: BaselineSnapshot,
+        rule: AlertRule,
+        condition: Extract<AlertCondition, { type: 'INCREASE_PERCENT' }>,
+        evaluatedAt: Date
+    ): AlertTriggerResult {
+        const currentValue = snapshot.metrics[condition.metric];
+        const baselineValue = baseline.metrics[condition.metric];
+        const base = {
+            ruleId: rule.id,
+            ruleName: rule.name,
+            condition,
+            severity: rule.severity,
+            evaluatedAt,
+        };
+
+        if (currentValue === undefined || baselineValue === undefined) {
+            return {
+                ...base,
+                triggered: false,
+                reason: `Metric "${condition.metric}" is missing in current or baseline`,
+                values: { current: currentValue, baseline: baselineValue },
+            };
+        }
+
+        if (baselineValue <= 0) {
+            return {
+                ...base,
+                triggered: false,
+                reason: `Cannot calculate increase: baseline ${condition.metric} is ${baselineValue} (must be positive)`,
+                values: { current: currentValue, baseline: baselineValue },
+            };
+        }
+
+        const increasePercent = Math.max(0, ((currentValue - baselineValue) / baselineValue) * 100);
+        const triggered = increasePercent >= condition.thresholdPercent;
+
+        return {
+            ...base,
+            triggered,
+            reason: `${condition.metric} rose ${this.formatNumber(increasePercent)}% (${this.formatNumber(baselineValue)} → ${this.formatNumber(currentValue)}), ${triggered ? 'exceeds' : 'below'} threshold of ${condition.thresholdPercent}%`,
+            values: {
+                current: currentValue,
+                baseline: baselineValue,
+                increasePercent,
+            },
+        };
+    }
+
+    /**
+     * Evaluate BUDGET_PERCENT condition
+     *
+     * Logic: Trigger if spend >= budget * thresholdPercent / 100
+     * Snapshots without a positive budget never trigger.
+     */
+    private evaluateBudgetPercent(
+        snapshot: MetricSnapshot,
+        rule: AlertRule,
+        condition: Extract<AlertCondition, { type: 'BUDGET_PERCENT' }>,
+        evaluatedAt: Date
+    ): AlertTriggerResult {
+        const spend = snapshot.metrics.spend;
+        const budget = snapshot.budget;
+        const base = {
+            ruleId: rule.id,
+            ruleName: rule.name,
+            condition,
+            severity: rule.severity,
+            evaluatedAt,
+        };
+
+        if (!budget || budget <= 0) {
+            return {
+                ...base,
+                triggered: false,
+                reason: 'No budget set - cannot evaluate budget usage',
+                values: { current: spend },
+            };
+        }
+
+        const usedPercent = (spend / budget) * 100;
+        const triggered = usedPercent >= condition.thresholdPercent;
+
+        return {
+            ...base,
+            triggered,
+            reason: `Spend ${this.formatCurrency(spend)} is ${this.formatNumber(usedPercent)}% of budget ${this.formatCurrency(budget)} (threshold: ${condition.thresholdPercent}%)`,
+            values: {
+                current: spend,
+                budget,
+                threshold: (budget * condition.thresholdPercent) / 100,
+            },
+        };
+    }
+
+    /**
+     * Evaluate DROP_PERCENT / INCREASE_PERCENT without baseline
      * 
      * When baseline is not available, we cannot evaluate the condition.
      * Returns not triggered with explanatory reason.
@@ -503,7 +627,7 @@ export class AlertEngine {
     private evaluateDropPercentWithoutBaseline(
         snapshot: MetricSnapshot,
         rule: AlertRule,
-        condition: Extract<AlertCondition, { type: 'DROP_PERCENT' }>,
+        condition: Extract<AlertCondition, { type: 'DROP_PERCENT' | 'INCREASE_PERCENT' }>,
         evaluatedAt: Date
     ): AlertTriggerResult {
         const currentValue = snapshot.metrics[condition.metric];
@@ -514,7 +638,7 @@ export class AlertEngine {
             condition,
             severity: rule.severity,
             triggered: false,
-            reason: `DROP_PERCENT condition requires baseline data (not provided)`,
+            reason: `${condition.type} condition requires baseline data (not provided)`,
             evaluatedAt,
             values: {
                 current: currentValue,
@@ -8,15 +8,24 @@ let mockPrisma: any;
 
 // Mock DashboardService dependencies manually
 import { DashboardService } from '../../modules/dashboard/dashboard.service';
+import { ReportingCurrencyService } from '../../modules/currency/reporting-currency.service';
+import { ExchangeRatesService } from '../../modules/currency/exchange-rates.service';
+import { TenantTimezoneService } from '../../common/services/tenant-timezone.service';
 import { AlertService } from '../../modules/alerts/alert.service';
+import { AlertEvaluationService } from '../../modules/alerts/alert-evaluation.service';
+import { AlertEngine } from '../services/alert-engine.service';
 
 const createDashboardService = () => {
-    return new DashboardService(mockPrisma);
+    return new DashboardService(
+        mockPrisma,
+        new ReportingCurrencyService(mockPrisma, {} as ExchangeRatesService),
+        new TenantTimezoneService(mockPrisma),
+    );
 };
 
 const createAlertService = () => {
-    const mockNotify = { triggerFromAlert: mock.fn() } as any;
-    return new AlertService(mockPrisma, mockNotify);
+    const mockDelivery = { deliverAlert: mock.fn() } as any;
+    return new AlertService(mockPrisma, new AlertEvaluationService(mockPrisma, new AlertEngine(), new TenantTimezoneService(mockPrisma)), mockDelivery);
 }
 
 describe('Phase 1B: Data Provenance Contract', () => {
@@ -73,19 +82,18 @@ describe('Phase 1B: Data Provenance Contract', () => {
     });
 
     describe('AlertService (Readers)', () => {
-        it('checkAlerts should apply REAL_DATA_FILTER to metrics include', async () => {
+        it('checkAlerts should apply REAL_DATA_FILTER to metric aggregation', async () => {
             const service = createAlertService();
             // Mock alert rules
             mockPrisma.alertRule.findMany = mock.fn(() => Promise.resolve([
-                { id: 'r1', name: 'Rule 1', metric: 'spend', operator: 'gt', threshold: 100, isActive: true }
+                { id: 'r1', name: 'Rule 1', metric: 'spend', operator: 'gt', threshold: 100, isActive: true, lookbackDays: 7 }
             ]));
 
             await service.checkAlerts('t1');
 
-            const call = mockPrisma.campaign.findMany.mock.calls[0];
-            assert.ok(call, 'campaign.findMany called');
-            const include = call.arguments[0].include.metrics;
-            assert.strictEqual(include.where.isMockData, false, 'Must filter metrics by isMockData: false');
+            const call = mockPrisma.metric.groupBy.mock.calls[0];
+            assert.ok(call, 'metric.groupBy called');
+            assert.strictEqual(call.arguments[0].where.isMockData, false, 'Must filter metrics by isMockData: false');
         });
     });
 });
@@ -69,8 +69,6 @@ describe('Google Ads Integration E2E Tests', () => {
                     tenantId,
                     customerId: '1234567890',
                     accountName: 'Test Account',
-                    accessToken: 'test-access-token',
-                    refreshToken: 'test-refresh-token',
                     status: 'ENABLED',
                 },
             });
@@ -17,6 +17,7 @@ import { DashboardPage } from "@/features/dashboard";
 import { CampaignsPage, CampaignDetailsPage } from "@/features/campaigns";
 // ✅ NEW: Import from feature module (replaces legacy pages/Integrations)
 import { DataSourcesPage } from "@/features/data-sources";
+import { AdminTenantsPage } from "@/features/admin-tenants";
 // ✅ NEW: Import from feature module (replaces legacy pages/SeoWebAnalytics)
 import { SeoPage } from "@/features/seo";
 import { AiInsightsPage } from "@/features/ai-insights";
@@ -31,6 +32,7 @@ import CrmLeadsInsights from "./pages/CrmLeadsInsights";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { useAuthStore, selectUser } from '@/stores/auth-store';
 import { useAuthEventListener } from '@/lib/auth-events';
+import { UpgradePrompt } from '@/components/common/UpgradePrompt';
 
 function Router() {
   return (
@@ -62,6 +64,9 @@ function Router() {
         {() => <ProtectedRoute><DataSourcesPage /></ProtectedRoute>}
       </Route>
       <Route path="/users" component={Users} />
+      <Route path="/admin/tenants">
+        {() => <ProtectedRoute requiredRole="SUPER_ADMIN"><AdminTenantsPage /></ProtectedRoute>}
+      </Route>
       {/* Legacy integrations page - kept for backward compatibility */}
       <Route path="/integrations" component={Integrations} />
       <Route path="/settings" component={Settings} />
@@ -123,6 +128,7 @@ function App() {
           {/* ✅ REMOVED: AuthProvider - Zustand doesn't need a Provider */}
           <TooltipProvider>
             <Toaster />
+            <UpgradePrompt />
             <Router />
           </TooltipProvider>
         </ThemeProvider>
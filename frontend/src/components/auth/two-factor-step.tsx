@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, ShieldCheck, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuthStore, selectIsLoading, selectTwoFactorChallenge } from '@/stores/auth-store';
+import type { TwoFactorSetup } from '@/stores/auth-store';
+
+interface TwoFactorStepProps {
+  /** Called once the user is signed in (after recovery codes were acknowledged) */
+  onComplete: () => void;
+}
+
+/**
+ * Second login step: enter a TOTP/recovery code, or enrol when the tenant requires 2FA
+ */
+export function TwoFactorStep({ onComplete }: TwoFactorStepProps) {
+  const challenge = useAuthStore(selectTwoFactorChallenge);
+  const isLoading = useAuthStore(selectIsLoading);
+  const verifyTwoFactor = useAuthStore((state) => state.verifyTwoFactor);
+  const beginTwoFactorSetup = useAuthStore((state) => state.beginTwoFactorSetup);
+  const confirmTwoFactorSetup = useAuthStore((state) => state.confirmTwoFactorSetup);
+  const cancelTwoFactor = useAuthStore((state) => state.cancelTwoFactor);
+
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const mode = challenge?.mode;
+
+  useEffect(() => {
+    if (mode === 'setup' && !setup) {
+      beginTwoFactorSetup().then(setSetup).catch(() => undefined);
+    }
+  }, [mode, setup, beginTwoFactorSetup]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (mode === 'setup') {
+        setRecoveryCodes(await confirmTwoFactorSetup(code.trim()));
+      } else {
+        await verifyTwoFactor(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() });
+        onComplete();
+      }
+    } catch {
+      setCode('');
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast.success('Recovery codes copied');
+  };
+
+  // Enrolment finished: the session is active, show the one-time recovery codes
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <div className="text-center">
+          <ShieldCheck className="mx-auto h-8 w-8 text-green-600" />
+          <h2 className="mt-2 text-lg font-semibold text-slate-900">Save your recovery codes</h2>
+          <p className="text-[13px] text-slate-500">
+            Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-2 rounded-lg bg-slate-50 p-3 font-mono text-sm text-slate-700">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <Button type="button" variant="outline" className="flex-1 rounded-lg" onClick={copyRecoveryCodes}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button type="button" className="flex-1 rounded-lg bg-slate-900 text-white hover:bg-slate-800" onClick={onComplete}>
+            Continue
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="text-center">
+        <h2 className="text-lg font-semibold text-slate-900">
+          {mode === 'setup' ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+        </h2>
+        <p className="text-[13px] text-slate-500">
+          {mode === 'setup'
+            ? 'Your organization requires 2FA. Scan the QR code with an authenticator app, then enter the 6-digit code.'
+            : useRecoveryCode
+              ? 'Enter one of your recovery codes.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      {mode === 'setup' && (
+        <div className="flex flex-col items-center gap-2">
+          {setup ? (
+            <>
+              <img src={setup.qrCodeDataUrl} alt="Authenticator QR code" className="h-44 w-44" />
+              <code className="break-all text-center text-xs text-slate-500">{setup.secret}</code>
+            </>
+          ) : (
+            <Loader2 className="my-16 h-6 w-6 animate-spin text-slate-400" />
+          )}
+        </div>
+      )}
+
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        autoFocus
+        disabled={isLoading}
+        className="h-11 rounded-lg text-center font-mono tracking-widest"
+      />
+
+      <Button
+        type="submit"
+        className="w-full h-11 bg-slate-900 hover:bg-slate-800 text-white font-medium rounded-xl"
+        disabled={isLoading || !code.trim() || (mode === 'setup' && !setup)}
+      >
+        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Verify'}
+      </Button>
+
+      <div className="flex justify-between text-[13px]">
+        <button type="button" onClick={cancelTwoFactor} className="text-slate-500 hover:text-slate-700">
+          Back to sign in
+        </button>
+        {mode === 'verify' && (
+          <button
+            type="button"
+            onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); }}
+            className="font-medium text-orange-600 hover:text-orange-700"
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,105 @@
+// =============================================================================
+// UpgradePrompt - Turns 402 entitlement errors into an upgrade dialog
+// =============================================================================
+
+import { useCallback, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { FACEBOOK_URL } from '@/components/ui/ContactButton';
+import { formatDate } from '@/lib/formatters';
+import {
+    useUpgradeRequiredListener,
+    type UpgradeRequiredCode,
+    type UpgradeRequiredDetail,
+} from '@/lib/entitlement-events';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const TITLES: Record<UpgradeRequiredCode, string> = {
+    ENTITLEMENT_REQUIRED: 'Upgrade to unlock this feature',
+    INTEGRATION_LIMIT_REACHED: 'Connected account limit reached',
+    SUBSCRIPTION_EXPIRED: 'Your subscription has expired',
+    SUBSCRIPTION_READ_ONLY: 'Your workspace is read-only',
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+    EXPORT_CSV: 'CSV export',
+    EXPORT_PDF: 'PDF export',
+    ALERTS: 'Alerts',
+    AI_SUMMARY: 'AI insights and assistant',
+    MULTI_USER: 'Team members',
+    INTEGRATIONS: 'Integrations',
+};
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function UpgradePrompt() {
+    const [detail, setDetail] = useState<UpgradeRequiredDetail | null>(null);
+
+    // Keep the first prompt open; parallel requests failing the same way would replace it
+    const handleUpgradeRequired = useCallback((next: UpgradeRequiredDetail) => {
+        setDetail((current) => current ?? next);
+    }, []);
+    useUpgradeRequiredListener(handleUpgradeRequired);
+
+    const meta = detail?.meta;
+
+    return (
+        <AlertDialog open={!!detail} onOpenChange={(open) => !open && setDetail(null)}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle className="flex items-center gap-2">
+                        <Sparkles className="h-5 w-5 text-amber-500" />
+                        {detail ? TITLES[detail.error] : ''}
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>{detail?.message}</AlertDialogDescription>
+                </AlertDialogHeader>
+
+                {meta && (
+                    <div className="rounded-lg border bg-muted/30 p-3 text-sm space-y-1">
+                        {meta.plan && (
+                            <div>
+                                Current plan: <span className="font-medium">{meta.plan}</span>
+                            </div>
+                        )}
+                        {meta.missing && meta.missing.length > 0 && (
+                            <div>
+                                Not included: {meta.missing.map((key) => FEATURE_LABELS[key] ?? key).join(', ')}
+                            </div>
+                        )}
+                        {meta.limit !== undefined && (
+                            <div>
+                                Connected accounts: {meta.used ?? 0} of {meta.limit}
+                            </div>
+                        )}
+                        {meta.graceEndsAt && (
+                            <div>Grace period ended {formatDate(meta.graceEndsAt)}</div>
+                        )}
+                    </div>
+                )}
+
+                <AlertDialogFooter>
+                    <AlertDialogCancel>Not now</AlertDialogCancel>
+                    <AlertDialogAction asChild>
+                        <a href={FACEBOOK_URL} target="_blank" rel="noopener noreferrer">
+                            {detail?.error === 'SUBSCRIPTION_EXPIRED' ? 'Renew subscription' : 'Contact us to upgrade'}
+                        </a>
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
@@ -0,0 +1,153 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { History, RotateCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StatusBadge, StatusVariant } from '@/components/ui/StatusBadge';
+import { syncService } from '@/services/sync-service';
+import { showApiError, showSuccess } from '@/lib/errorHandler';
+import { formatDate, formatNumber } from '@/lib/formatters';
+import { BackfillJob } from '@/types/api';
+
+export interface BackfillAccountOption {
+  platform: string;
+  id: string;
+  name: string;
+}
+
+interface BackfillJobsCardProps {
+  accounts: BackfillAccountOption[];
+}
+
+const RUNNING_STATUSES = ['PENDING', 'IN_PROGRESS'];
+
+const STATUS_VARIANTS: Record<string, StatusVariant> = {
+  PENDING: 'default',
+  IN_PROGRESS: 'info',
+  COMPLETED: 'success',
+  FAILED: 'error',
+};
+
+/**
+ * Start historical backfills and follow their chunk-by-chunk progress
+ */
+export function BackfillJobsCard({ accounts }: BackfillJobsCardProps) {
+  const queryClient = useQueryClient();
+  const [accountKey, setAccountKey] = React.useState('');
+  const [startDate, setStartDate] = React.useState('');
+  const [endDate, setEndDate] = React.useState('');
+
+  const backfillsQuery = useQuery({
+    queryKey: ['sync', 'backfills'],
+    queryFn: async () => (await syncService.getBackfills()).data,
+    // Poll while a job is moving so the progress bar stays current
+    refetchInterval: (data?: BackfillJob[]) =>
+      data?.some((job) => RUNNING_STATUSES.includes(job.status)) ? 5000 : false,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['sync', 'backfills'] });
+
+  const startMutation = useMutation({
+    mutationFn: () => {
+      const account = accounts.find((a) => `${a.platform}:${a.id}` === accountKey)!;
+      return syncService.startBackfill(account.platform, account.id, { startDate, endDate });
+    },
+    onSuccess: () => {
+      showSuccess('Backfill started');
+      invalidate();
+    },
+    onError: (error) => showApiError(error, 'Failed to start backfill'),
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: (id: string) => syncService.resumeBackfill(id),
+    onSuccess: () => {
+      showSuccess('Backfill resumed');
+      invalidate();
+    },
+    onError: (error) => showApiError(error, 'Failed to resume backfill'),
+  });
+
+  const accountName = (job: BackfillJob) =>
+    accounts.find((a) => a.platform === job.platform && a.id === job.accountId)?.name ?? job.accountId;
+
+  const jobs = backfillsQuery.data ?? [];
+  const canStart = !!accountKey && !!startDate && !!endDate && !startMutation.isLoading;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Historical Backfill
+        </CardTitle>
+        <CardDescription>
+          Re-import older data for an ad account. Large ranges are synced in chunks and can be resumed if a chunk fails.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-2 md:grid-cols-4">
+          <Select value={accountKey} onValueChange={setAccountKey}>
+            <SelectTrigger>
+              <SelectValue placeholder={accounts.length ? 'Select account' : 'No connected accounts'} />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account) => (
+                <SelectItem key={`${account.platform}:${account.id}`} value={`${account.platform}:${account.id}`}>
+                  {account.name} ({account.platform})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} aria-label="Start date" />
+          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} aria-label="End date" />
+          <Button disabled={!canStart} onClick={() => startMutation.mutate()}>
+            Start Backfill
+          </Button>
+        </div>
+
+        {jobs.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">No backfills yet</p>
+        ) : (
+          <div className="space-y-3">
+            {jobs.map((job) => (
+              <div key={job.id} className="space-y-2 rounded-md border p-3">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{accountName(job)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(job.progress.startDate)} – {formatDate(job.progress.endDate)}
+                      {' · '}
+                      {job.progress.completedChunks}/{job.progress.totalChunks} chunks
+                      {' · '}
+                      {formatNumber(job.progress.metricRows)} rows
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <StatusBadge status={job.status.replace('_', ' ')} variant={STATUS_VARIANTS[job.status]} />
+                    {job.status === 'FAILED' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={resumeMutation.isLoading}
+                        onClick={() => resumeMutation.mutate(job.id)}
+                      >
+                        <RotateCw className="mr-1 h-3 w-3" />
+                        Resume
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <Progress value={job.percent} />
+                {job.errorMessage && <p className="text-xs text-red-600">{job.errorMessage}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,10 +3,10 @@ import { useSearch } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Loader2 } from 'lucide-react';
 import { PlatformConfig } from '@/constants/platforms';
-import { apiClient } from '@/services/api-client';
 import { toast } from 'sonner';
 import { useIntegrationStatus } from '@/hooks/useIntegrationStatus';
 import { DataSourceCard } from '../DataSourceCard';
+import { LineAdsConnectDialog } from './LineAdsConnectDialog';
 
 interface LineAdsCardProps {
     platform: PlatformConfig;
@@ -17,7 +17,7 @@ export function LineAdsCard({ platform }: LineAdsCardProps) {
     const searchParams = useMemo(() => new URLSearchParams(search), [search]);
 
     const { status, lineAdsAccounts, isLoading, disconnectLineAds, refetch } = useIntegrationStatus();
-    const [isConnecting, setIsConnecting] = useState(false);
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
 
     const isConnected = status.lineAds;
 
@@ -41,22 +41,8 @@ export function LineAdsCard({ platform }: LineAdsCardProps) {
         }
     }, [searchParams, refetch]);
 
-    const handleConnect = async () => {
-        try {
-            setIsConnecting(true);
-            const response = await apiClient.get<{ url: string }>('/auth/line/url');
-
-            if (response.data && response.data.url) {
-                window.location.href = response.data.url;
-            } else {
-                throw new Error('Failed to get auth URL');
-            }
-        } catch (error) {
-            console.error('LINE Ads Connect Error:', error);
-            toast.error('Failed to initiate LINE Ads connection');
-            setIsConnecting(false);
-        }
-    };
+    // LINE Ads API access is key-based, so connecting opens the key form instead of an OAuth redirect
+    const handleConnect = () => setIsDialogOpen(true);
 
     const handleDisconnect = async () => {
         if (confirm('Are you sure you want to disconnect LINE Ads? This will stop data syncing.')) {
@@ -79,7 +65,7 @@ export function LineAdsCard({ platform }: LineAdsCardProps) {
             icon={platform.icon}
             color={platform.color}
             isConnected={isConnected}
-            isConnecting={isConnecting || isLoading}
+            isConnecting={isLoading}
             onConnect={handleConnect}
             onDisconnect={handleDisconnect}
         >
@@ -117,6 +103,7 @@ export function LineAdsCard({ platform }: LineAdsCardProps) {
                     </div>
                 </div>
             )}
+            <LineAdsConnectDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} onConnected={refetch} />
         </DataSourceCard>
     );
 }
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { integrationService } from '@/services/integration-service';
+
+interface LineAdsConnectDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onConnected: () => void;
+}
+
+/**
+ * Connect a LINE Ads ad account with the API access key / secret key pair
+ * issued in LINE Ads Manager (Settings → API). The keys are verified before saving.
+ */
+export function LineAdsConnectDialog({ open, onOpenChange, onConnected }: LineAdsConnectDialogProps) {
+    const [adAccountId, setAdAccountId] = useState('');
+    const [accessKey, setAccessKey] = useState('');
+    const [secretKey, setSecretKey] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const canSubmit = !!adAccountId.trim() && !!accessKey.trim() && !!secretKey.trim() && !isSubmitting;
+
+    const reset = () => {
+        setAdAccountId('');
+        setAccessKey('');
+        setSecretKey('');
+    };
+
+    const handleSubmit = async () => {
+        try {
+            setIsSubmitting(true);
+            const response = await integrationService.connectLineAdsAccount({
+                adAccountId: adAccountId.trim(),
+                accessKey: accessKey.trim(),
+                secretKey: secretKey.trim(),
+            });
+            toast.success(`Connected LINE Ads account ${response.data.accountName}`);
+            reset();
+            onOpenChange(false);
+            onConnected();
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to connect LINE Ads');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[450px]">
+                <DialogHeader>
+                    <DialogTitle>Connect LINE Ads</DialogTitle>
+                    <DialogDescription>
+                        Enter the ad account ID and the API keys from LINE Ads Manager.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="line-ad-account-id">Ad Account ID</Label>
+                        <Input
+                            id="line-ad-account-id"
+                            value={adAccountId}
+                            onChange={(e) => setAdAccountId(e.target.value)}
+                            placeholder="A12345678901"
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="line-access-key">Access Key</Label>
+                        <Input id="line-access-key" value={accessKey} onChange={(e) => setAccessKey(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="line-secret-key">Secret Key</Label>
+                        <Input
+                            id="line-secret-key"
+                            type="password"
+                            autoComplete="off"
+                            value={secretKey}
+                            onChange={(e) => setSecretKey(e.target.value)}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={!canSubmit}>
+                        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Connect
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
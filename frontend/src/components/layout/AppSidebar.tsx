@@ -20,6 +20,7 @@ import {
     TrendingUp,
     Users,
     Zap,
+    Building2,
     ChevronRight,
     Sparkles
 } from 'lucide-react';
@@ -102,6 +103,15 @@ export function AppSidebar() {
                     ],
                 };
             }
+            if (group.title === 'System' && user?.role === UserRole.SUPER_ADMIN) {
+                return {
+                    ...group,
+                    items: [
+                        ...group.items,
+                        { label: 'Tenants', href: '/admin/tenants', icon: Building2, adminOnly: true },
+                    ],
+                };
+            }
             return group;
         });
     };
@@ -8,6 +8,7 @@ import { SidebarProvider, SidebarTrigger, SidebarInset } from '@/components/ui/s
 import { AppSidebar } from '@/components/layout/AppSidebar';
 import { ChatWidget } from '@/features/chat';
 import { TopRightPanel } from '@/components/layout/TopRightPanel';
+import { ImpersonationBanner } from '@/components/layout/ImpersonationBanner';
 import { TutorialOverlay } from '@/components/tutorial/tutorial-overlay';
 
 interface DashboardLayoutProps {
@@ -22,6 +23,9 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
       {/* Main Content Area */}
       <SidebarInset>
+        {/* Super admin acting as a tenant admin */}
+        <ImpersonationBanner />
+
         {/* Mobile Header with Trigger */}
         <header className="flex h-14 items-center gap-4 border-b bg-background px-4 md:hidden">
           <SidebarTrigger />
@@ -0,0 +1,46 @@
+// frontend/src/components/layout/ImpersonationBanner.tsx
+// =============================================================================
+// Impersonation Banner - shown while a super admin acts as a tenant admin
+// =============================================================================
+
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useAuthStore, selectImpersonation } from '@/stores/auth-store';
+import { Button } from '@/components/ui/button';
+import { Loader2, UserCog } from 'lucide-react';
+
+export function ImpersonationBanner() {
+    const impersonation = useAuthStore(selectImpersonation);
+    const endImpersonation = useAuthStore((state) => state.endImpersonation);
+    const [isEnding, setIsEnding] = useState(false);
+    const [, setLocation] = useLocation();
+
+    if (!impersonation) return null;
+
+    const handleEnd = async () => {
+        setIsEnding(true);
+        try {
+            await endImpersonation();
+            setLocation('/admin/tenants');
+        } finally {
+            setIsEnding(false);
+        }
+    };
+
+    return (
+        <div className="sticky top-0 z-40 flex items-center justify-between gap-4 bg-amber-500 px-4 py-2 text-sm text-white">
+            <div className="flex items-center gap-2">
+                <UserCog className="h-4 w-4" />
+                <span>
+                    Impersonating <strong>{impersonation.tenantName}</strong> until{' '}
+                    {new Date(impersonation.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+                    All actions are recorded in the tenant's audit log.
+                </span>
+            </div>
+            <Button size="sm" variant="secondary" onClick={handleEnd} disabled={isEnding}>
+                {isEnding && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                End impersonation
+            </Button>
+        </div>
+    );
+}
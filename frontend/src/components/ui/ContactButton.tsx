@@ -1,7 +1,7 @@
 import { Mail } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
-const FACEBOOK_URL = 'https://www.facebook.com/risegroupasia';
+export const FACEBOOK_URL = 'https://www.facebook.com/risegroupasia';
 
 export function ContactButton() {
     return (
@@ -0,0 +1,114 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { FormDialog } from '@/components/ui/FormDialog';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { SearchInput } from '@/components/ui/SearchInput';
+import { campaignService } from '@/services/campaign-service';
+import { campaignScopeService } from '@/services/campaign-scope-service';
+import { showApiError, showSuccess } from '@/lib/errorHandler';
+import { User } from '@/types/api';
+
+interface CampaignScopeDialogProps {
+  user: User | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Limit a CLIENT / VIEWER user to selected campaigns (admin only)
+ */
+export function CampaignScopeDialog({ user, onOpenChange }: CampaignScopeDialogProps) {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = React.useState<string[]>([]);
+  const [search, setSearch] = React.useState('');
+
+  const scopeQuery = useQuery({
+    queryKey: ['campaign-scopes', user?.id],
+    queryFn: async () => (await campaignScopeService.get(user!.id)).data,
+    enabled: !!user,
+  });
+
+  const campaignsQuery = useQuery({
+    queryKey: ['campaigns', 'scope-options'],
+    queryFn: async () => (await campaignService.getAll({ limit: 200, sortBy: 'name', sortOrder: 'asc' })).data.data,
+    enabled: !!user,
+  });
+
+  React.useEffect(() => {
+    setSelected(scopeQuery.data?.campaignIds ?? []);
+  }, [scopeQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      campaignScopeService.update(user!.id, {
+        campaignIds: selected,
+        accounts: scopeQuery.data?.accounts ?? [],
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-scopes', user?.id] });
+      showSuccess('Campaign access updated');
+      onOpenChange(false);
+    },
+    onError: (error) => showApiError(error, 'Failed to update campaign access'),
+  });
+
+  const campaigns = React.useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const all = campaignsQuery.data ?? [];
+    return term ? all.filter((c) => c.name.toLowerCase().includes(term)) : all;
+  }, [campaignsQuery.data, search]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, id] : prev.filter((c) => c !== id)));
+  };
+
+  const accountCount = scopeQuery.data?.accounts.length ?? 0;
+
+  return (
+    <FormDialog
+      open={!!user}
+      onOpenChange={onOpenChange}
+      title="Campaign Access"
+      description={`Choose the campaigns ${user?.name ?? 'this user'} can see. Leave everything unchecked to allow all campaigns.`}
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate();
+      }}
+      isSubmitting={saveMutation.isLoading}
+      submitLabel="Save Access"
+    >
+      {scopeQuery.isLoading || campaignsQuery.isLoading ? (
+        <LoadingSpinner text="" />
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <SearchInput value={search} onChange={setSearch} placeholder="Search campaigns..." />
+            <Badge variant="secondary">{selected.length === 0 ? 'All campaigns' : `${selected.length} selected`}</Badge>
+          </div>
+          {accountCount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Also includes every campaign of {accountCount} assigned ad account{accountCount > 1 ? 's' : ''}.
+            </p>
+          )}
+          <div className="max-h-72 space-y-2 overflow-y-auto pr-1">
+            {campaigns.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No campaigns found</p>
+            ) : (
+              campaigns.map((campaign) => (
+                <label key={campaign.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selected.includes(campaign.id)}
+                    onCheckedChange={(checked) => toggle(campaign.id, checked === true)}
+                  />
+                  <span className="flex-1 truncate">{campaign.name}</span>
+                  <span className="text-xs text-muted-foreground">{campaign.platform}</span>
+                </label>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </FormDialog>
+  );
+}
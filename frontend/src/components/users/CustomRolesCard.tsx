@@ -0,0 +1,199 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { FormDialog } from '@/components/ui/FormDialog';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Edit2, Trash2 } from 'lucide-react';
+import { useCustomRoles } from '@/hooks/useCustomRoles';
+import { CustomRole, PermissionDefinition } from '@/types/api';
+
+const EMPTY_FORM = { name: '', description: '', permissions: [] as string[] };
+
+export function CustomRolesCard() {
+  const { roles, permissions, isLoading, saveRole, isSaving, deleteRole } = useCustomRoles();
+
+  const [dialogOpen, setDialogOpen] = React.useState(false);
+  const [editingRole, setEditingRole] = React.useState<CustomRole | null>(null);
+  const [formData, setFormData] = React.useState(EMPTY_FORM);
+  const [nameError, setNameError] = React.useState('');
+
+  const permissionGroups = React.useMemo(() => {
+    const groups = new Map<string, PermissionDefinition[]>();
+    permissions.forEach((permission) => {
+      groups.set(permission.group, [...(groups.get(permission.group) ?? []), permission]);
+    });
+    return Array.from(groups.entries());
+  }, [permissions]);
+
+  const openDialog = (role: CustomRole | null) => {
+    setEditingRole(role);
+    setFormData(role
+      ? { name: role.name, description: role.description ?? '', permissions: role.permissions }
+      : EMPTY_FORM);
+    setNameError('');
+    setDialogOpen(true);
+  };
+
+  const togglePermission = (key: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      permissions: checked ? [...prev.permissions, key] : prev.permissions.filter((p) => p !== key),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      setNameError('Name is required');
+      return;
+    }
+    await saveRole({
+      id: editingRole?.id,
+      data: {
+        name: formData.name.trim(),
+        description: formData.description.trim() || undefined,
+        permissions: formData.permissions,
+      },
+    });
+    setDialogOpen(false);
+  };
+
+  const handleDelete = (role: CustomRole) => {
+    // The API refuses roles that are still assigned and explains why
+    if (!confirm(`Delete role "${role.name}"?`)) return;
+    deleteRole(role.id);
+  };
+
+  return (
+    <Card className="border-slate-200 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="space-y-1">
+          <CardTitle>Custom Roles</CardTitle>
+          <CardDescription>
+            Limit users to selected features. Users without a custom role keep the default access of their role.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Role
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingSpinner text="" />
+        ) : roles.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No custom roles yet. Create one to give clients read-only access, for example.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Permissions</TableHead>
+                  <TableHead className="text-right">Users</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roles.map((role) => (
+                  <TableRow key={role.id}>
+                    <TableCell>
+                      <div className="font-medium">{role.name}</div>
+                      {role.description && <div className="text-xs text-muted-foreground">{role.description}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {role.permissions.length === 0 ? (
+                          <span className="text-xs text-muted-foreground">No access</span>
+                        ) : (
+                          role.permissions.map((permission) => (
+                            <Badge key={permission} variant="secondary" className="font-mono text-[11px]">
+                              {permission}
+                            </Badge>
+                          ))
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{role.userCount ?? 0}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="icon-sm" variant="ghost" onClick={() => openDialog(role)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon-sm" variant="ghost" onClick={() => handleDelete(role)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <FormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        title={editingRole ? 'Edit Role' : 'New Role'}
+        description="Choose the features users with this role can access"
+        onSubmit={handleSubmit}
+        isSubmitting={isSaving}
+        submitLabel={editingRole ? 'Save Changes' : 'Create Role'}
+      >
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="role-name">Name <span className="text-destructive">*</span></Label>
+            <Input
+              id="role-name"
+              value={formData.name}
+              onChange={(e) => { setFormData({ ...formData, name: e.target.value }); setNameError(''); }}
+              placeholder="e.g. Client (read-only)"
+              className={nameError ? 'border-destructive' : ''}
+            />
+            {nameError && <p className="text-sm text-destructive">{nameError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="role-description">Description</Label>
+            <Input
+              id="role-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="max-h-72 space-y-3 overflow-y-auto pr-1">
+            {permissionGroups.map(([group, groupPermissions]) => (
+              <div key={group} className="space-y-2">
+                <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{group}</p>
+                {groupPermissions.map((permission) => (
+                  <label key={permission.key} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.permissions.includes(permission.key)}
+                      onCheckedChange={(checked) => togglePermission(permission.key, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-mono text-xs">{permission.key}</span>
+                      <span className="block text-xs text-muted-foreground">{permission.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </FormDialog>
+    </Card>
+  );
+}
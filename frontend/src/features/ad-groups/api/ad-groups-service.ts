@@ -3,8 +3,12 @@
 
 import { apiClient } from '@/services/api-client';
 import type {
+    Ad,
     AdGroup,
+    AdGroupAdsResponse,
     AdGroupStatus,
+    AdGroupWithMetrics,
+    AdPerformanceMetrics,
     CreateAdGroupFormValues,
     UpdateAdGroupFormValues,
     AdGroupListResponse,
@@ -34,6 +38,15 @@ interface BackendAdGroup {
     };
 }
 
+interface BackendAdGroupWithMetrics extends BackendAdGroup {
+    metrics: AdPerformanceMetrics;
+}
+
+interface BackendAd extends Omit<Ad, 'status' | 'externalId'> {
+    status: string;
+    externalId?: string | null;
+}
+
 // =============================================================================
 // Adapter: Status Mapping (Backend -> Frontend)
 // =============================================================================
@@ -147,6 +160,31 @@ export const AdGroupService = {
         return items.map(normalizeAdGroup);
     },
 
+    /**
+     * Fetch a campaign's ad groups with metrics summed from their ads
+     */
+    async getAdGroupsWithMetrics(campaignId: string): Promise<AdGroupWithMetrics[]> {
+        const response = await apiClient.get<BackendAdGroupWithMetrics[]>(`/campaigns/${campaignId}/ad-groups`);
+        return response.data.map((raw) => ({ ...normalizeAdGroup(raw), metrics: raw.metrics }));
+    },
+
+    /**
+     * Fetch the ads (creatives) of one ad group with their metrics
+     */
+    async getAdGroupAds(campaignId: string, adGroupId: string): Promise<AdGroupAdsResponse> {
+        const response = await apiClient.get<{ adGroup: BackendAdGroup; ads: BackendAd[] }>(
+            `/campaigns/${campaignId}/ad-groups/${adGroupId}/ads`,
+        );
+        return {
+            adGroup: normalizeAdGroup(response.data.adGroup),
+            ads: response.data.ads.map((raw) => ({
+                ...raw,
+                status: STATUS_MAP[raw.status] || 'active',
+                externalId: raw.externalId ?? undefined,
+            })),
+        };
+    },
+
     /**
      * Fetch single ad group by ID
      */
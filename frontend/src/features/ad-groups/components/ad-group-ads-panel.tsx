@@ -0,0 +1,163 @@
+// Ad Group Ads Panel Component
+// Drill-down from an ad group to its ads (creatives) with synced metrics
+
+import { ExternalLink, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+
+import type { AdCreative } from '../types';
+import { useAdGroupAds } from '../hooks/use-ad-groups';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+const statusVariants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    active: 'default',
+    paused: 'secondary',
+    deleted: 'destructive',
+    archived: 'outline',
+};
+
+const formatCurrency = (value: number): string =>
+    new Intl.NumberFormat('th-TH', {
+        style: 'currency',
+        currency: 'THB',
+        minimumFractionDigits: 2,
+    }).format(value);
+
+const formatNumber = (value: number): string => new Intl.NumberFormat('en-US').format(value);
+
+/** Headline / body / landing URL, whichever the platform reported */
+function describeCreative(creative?: AdCreative | null) {
+    if (!creative) return { headline: null, body: null, url: null };
+    return {
+        headline: creative.title || creative.headlines?.[0] || null,
+        body: creative.body || creative.text || null,
+        url: creative.url || creative.finalUrls?.[0] || null,
+    };
+}
+
+// =============================================================================
+// Props
+// =============================================================================
+interface AdGroupAdsPanelProps {
+    campaignId: string;
+    adGroupId: string;
+    onClose: () => void;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+export function AdGroupAdsPanel({ campaignId, adGroupId, onClose }: AdGroupAdsPanelProps) {
+    const { data, isLoading, error } = useAdGroupAds(campaignId, adGroupId);
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="text-base">
+                        {data?.adGroup.name ?? 'Ads'}
+                    </CardTitle>
+                    <CardDescription>Ads and creatives in this ad group</CardDescription>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Close</span>
+                </Button>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="space-y-3">
+                        {[1, 2].map((i) => (
+                            <Skeleton key={i} className="h-12 w-full" />
+                        ))}
+                    </div>
+                ) : error ? (
+                    <p className="py-4 text-center text-sm text-destructive">{error.message}</p>
+                ) : !data || data.ads.length === 0 ? (
+                    <p className="py-4 text-center text-sm text-muted-foreground">
+                        No ads synced for this ad group yet
+                    </p>
+                ) : (
+                    <div className="rounded-md border">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Ad</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="text-right">Spend</TableHead>
+                                    <TableHead className="text-right">Impressions</TableHead>
+                                    <TableHead className="text-right">Clicks</TableHead>
+                                    <TableHead className="text-right">CTR</TableHead>
+                                    <TableHead className="text-right">Conversions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {data.ads.map((ad) => {
+                                    const creative = describeCreative(ad.creative);
+                                    return (
+                                        <TableRow key={ad.id}>
+                                            <TableCell className="max-w-[320px]">
+                                                <div className="flex items-start gap-3">
+                                                    {ad.creative?.thumbnailUrl && (
+                                                        <img
+                                                            src={ad.creative.thumbnailUrl}
+                                                            alt=""
+                                                            className="h-10 w-10 shrink-0 rounded object-cover"
+                                                        />
+                                                    )}
+                                                    <div className="min-w-0 space-y-0.5">
+                                                        <p className="truncate font-medium">{ad.name}</p>
+                                                        {creative.headline && (
+                                                            <p className="truncate text-sm">{creative.headline}</p>
+                                                        )}
+                                                        {creative.body && (
+                                                            <p className="truncate text-xs text-muted-foreground">{creative.body}</p>
+                                                        )}
+                                                        {creative.url && (
+                                                            <a
+                                                                href={creative.url}
+                                                                target="_blank"
+                                                                rel="noopener noreferrer"
+                                                                className="flex items-center gap-1 truncate text-xs text-muted-foreground hover:underline"
+                                                            >
+                                                                <ExternalLink className="h-3 w-3 shrink-0" />
+                                                                {creative.url}
+                                                            </a>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant={statusVariants[ad.status] ?? 'outline'} className="capitalize">
+                                                    {ad.status}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="text-right">{formatCurrency(ad.metrics.spend)}</TableCell>
+                                            <TableCell className="text-right">{formatNumber(ad.metrics.impressions)}</TableCell>
+                                            <TableCell className="text-right">{formatNumber(ad.metrics.clicks)}</TableCell>
+                                            <TableCell className="text-right">{ad.metrics.ctr.toFixed(2)}%</TableCell>
+                                            <TableCell className="text-right">{formatNumber(ad.metrics.conversions)}</TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
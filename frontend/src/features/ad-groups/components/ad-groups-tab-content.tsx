@@ -1,5 +1,5 @@
 // Ad Groups Tab Content - Container Component
-// Manages state for dialog and renders table
+// Manages state for dialog and ad drill-down, renders table
 
 import { useState } from 'react';
 import { Plus } from 'lucide-react';
@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import type { AdGroup } from '../types';
 import { AdGroupDialog } from './ad-group-dialog';
 import { AdGroupsTable } from './ad-groups-table';
+import { AdGroupAdsPanel } from './ad-group-ads-panel';
 
 // =============================================================================
 // Props
@@ -24,6 +25,8 @@ export function AdGroupsTabContent({ campaignId }: AdGroupsTabContentProps) {
     // Dialog state
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [selectedAdGroup, setSelectedAdGroup] = useState<AdGroup | null>(null);
+    // Drill-down state (ad group whose ads are shown)
+    const [viewedAdGroupId, setViewedAdGroupId] = useState<string | null>(null);
 
     // Handlers
     const handleCreate = () => {
@@ -51,7 +54,7 @@ export function AdGroupsTabContent({ campaignId }: AdGroupsTabContentProps) {
                 <div>
                     <h3 className="text-lg font-semibold">Ad Groups</h3>
                     <p className="text-sm text-muted-foreground">
-                        Manage ad groups for this campaign
+                        Manage ad groups for this campaign and drill down into their ads
                     </p>
                 </div>
                 <Button onClick={handleCreate}>
@@ -65,8 +68,19 @@ export function AdGroupsTabContent({ campaignId }: AdGroupsTabContentProps) {
                 campaignId={campaignId}
                 onEdit={handleEdit}
                 onCreate={handleCreate}
+                onSelect={(adGroup) => setViewedAdGroupId(adGroup.id)}
+                selectedAdGroupId={viewedAdGroupId}
             />
 
+            {/* Ads of the selected ad group */}
+            {viewedAdGroupId && (
+                <AdGroupAdsPanel
+                    campaignId={campaignId}
+                    adGroupId={viewedAdGroupId}
+                    onClose={() => setViewedAdGroupId(null)}
+                />
+            )}
+
             {/* Dialog (Create/Edit) */}
             <AdGroupDialog
                 open={isDialogOpen}
@@ -1,8 +1,8 @@
 // Ad Groups Table Component
-// Displays ad groups with actions (edit, delete, toggle status)
+// Displays ad groups with synced metrics and actions (edit, delete, toggle status)
 
 import { useState } from 'react';
-import { MoreHorizontal, Edit, Trash2, Play, Pause } from 'lucide-react';
+import { MoreHorizontal, Edit, Trash2, Play, Pause, ChevronRight } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -35,7 +35,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 
 import type { AdGroup } from '../types';
 import {
-    useAdGroups,
+    useAdGroupsWithMetrics,
     useDeleteAdGroup,
     useToggleAdGroupStatus,
 } from '../hooks/use-ad-groups';
@@ -62,6 +62,8 @@ const formatCurrency = (value: number | null | undefined): string => {
     }).format(value);
 };
 
+const formatNumber = (value: number): string => new Intl.NumberFormat('en-US').format(value);
+
 // =============================================================================
 // Props
 // =============================================================================
@@ -69,13 +71,15 @@ interface AdGroupsTableProps {
     campaignId: string;
     onEdit: (adGroup: AdGroup) => void;
     onCreate?: () => void; // Optional: for empty state button
+    onSelect?: (adGroup: AdGroup) => void; // Optional: drill down into the ad group's ads
+    selectedAdGroupId?: string | null;
 }
 
 // =============================================================================
 // Component
 // =============================================================================
-export function AdGroupsTable({ campaignId, onEdit, onCreate }: AdGroupsTableProps) {
-    const { data: adGroups, isLoading, error } = useAdGroups(campaignId);
+export function AdGroupsTable({ campaignId, onEdit, onCreate, onSelect, selectedAdGroupId }: AdGroupsTableProps) {
+    const { data: adGroups, isLoading, error } = useAdGroupsWithMetrics(campaignId);
     const deleteMutation = useDeleteAdGroup();
     const toggleMutation = useToggleAdGroupStatus();
 
@@ -169,6 +173,10 @@ export function AdGroupsTable({ campaignId, onEdit, onCreate }: AdGroupsTablePro
                             <TableHead>Status</TableHead>
                             <TableHead>Bid Amount</TableHead>
                             <TableHead>Bid Type</TableHead>
+                            <TableHead className="text-right">Spend</TableHead>
+                            <TableHead className="text-right">Impressions</TableHead>
+                            <TableHead className="text-right">Clicks</TableHead>
+                            <TableHead className="text-right">Conversions</TableHead>
                             <TableHead className="w-[70px]">Actions</TableHead>
                         </TableRow>
                     </TableHeader>
@@ -176,8 +184,24 @@ export function AdGroupsTable({ campaignId, onEdit, onCreate }: AdGroupsTablePro
                         {adGroups.map((adGroup) => {
                             const status = statusStyles[adGroup.status] || statusStyles.active;
                             return (
-                                <TableRow key={adGroup.id}>
-                                    <TableCell className="font-medium">{adGroup.name}</TableCell>
+                                <TableRow
+                                    key={adGroup.id}
+                                    data-state={adGroup.id === selectedAdGroupId ? 'selected' : undefined}
+                                >
+                                    <TableCell className="font-medium">
+                                        {onSelect ? (
+                                            <button
+                                                type="button"
+                                                className="flex items-center gap-1 text-left hover:underline"
+                                                onClick={() => onSelect(adGroup)}
+                                            >
+                                                {adGroup.name}
+                                                <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                                            </button>
+                                        ) : (
+                                            adGroup.name
+                                        )}
+                                    </TableCell>
                                     <TableCell>
                                         <Badge variant={status.variant}>{status.label}</Badge>
                                     </TableCell>
@@ -185,6 +209,10 @@ export function AdGroupsTable({ campaignId, onEdit, onCreate }: AdGroupsTablePro
                                     <TableCell>
                                         {adGroup.bidType || <span className="text-muted-foreground">-</span>}
                                     </TableCell>
+                                    <TableCell className="text-right">{formatCurrency(adGroup.metrics.spend)}</TableCell>
+                                    <TableCell className="text-right">{formatNumber(adGroup.metrics.impressions)}</TableCell>
+                                    <TableCell className="text-right">{formatNumber(adGroup.metrics.clicks)}</TableCell>
+                                    <TableCell className="text-right">{formatNumber(adGroup.metrics.conversions)}</TableCell>
                                     <TableCell>
                                         <DropdownMenu>
                                             <DropdownMenuTrigger asChild>
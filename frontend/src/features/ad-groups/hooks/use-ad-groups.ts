@@ -6,6 +6,8 @@ import { AdGroupService } from '../api/ad-groups-service';
 import { useAuthStore, selectUser } from '@/stores/auth-store';
 import type {
     AdGroup,
+    AdGroupAdsResponse,
+    AdGroupWithMetrics,
     CreateAdGroupFormValues,
     UpdateAdGroupFormValues,
 } from '../types';
@@ -42,6 +44,38 @@ export function useAdGroups(campaignId?: string) {
     });
 }
 
+/**
+ * Hook for fetching a campaign's ad groups with ad-level metrics
+ * Shares the campaign key prefix so ad group mutations refresh it too
+ */
+export function useAdGroupsWithMetrics(campaignId: string) {
+    const user = useAuthStore(selectUser);
+    const tenantId = user?.tenantId;
+
+    return useQuery<AdGroupWithMetrics[], Error>({
+        queryKey: [...getAdGroupsQueryKey(campaignId, tenantId), 'metrics'],
+        queryFn: () => AdGroupService.getAdGroupsWithMetrics(campaignId),
+        enabled: !!campaignId,
+        staleTime: 1000 * 60 * 5,
+        refetchOnWindowFocus: true,
+    });
+}
+
+/**
+ * Hook for fetching the ads (creatives) of one ad group
+ */
+export function useAdGroupAds(campaignId: string, adGroupId?: string) {
+    const user = useAuthStore(selectUser);
+    const tenantId = user?.tenantId;
+
+    return useQuery<AdGroupAdsResponse, Error>({
+        queryKey: [...getAdGroupsQueryKey(campaignId, tenantId), 'ads', adGroupId],
+        queryFn: () => AdGroupService.getAdGroupAds(campaignId, adGroupId!),
+        enabled: !!campaignId && !!adGroupId,
+        staleTime: 1000 * 60 * 5,
+    });
+}
+
 /**
  * Hook for fetching all ad groups (no campaign filter)
  */
@@ -11,6 +11,8 @@ export {
     AD_GROUPS_QUERY_KEY,
     getAdGroupsQueryKey,
     useAdGroups,
+    useAdGroupsWithMetrics,
+    useAdGroupAds,
     useAllAdGroups,
     useAdGroup,
     useCreateAdGroup,
@@ -22,4 +24,5 @@ export {
 // Components
 export { AdGroupDialog } from './components/ad-group-dialog';
 export { AdGroupsTable } from './components/ad-groups-table';
+export { AdGroupAdsPanel } from './components/ad-group-ads-panel';
 export { AdGroupsTabContent } from './components/ad-groups-tab-content';
@@ -33,6 +33,53 @@ export interface AdGroup {
     };
 }
 
+// =============================================================================
+// Performance (synced from the ad platform)
+// =============================================================================
+
+/** Metrics summed from ad-level daily rows; ctr in %, roas as a ratio */
+export interface AdPerformanceMetrics {
+    impressions: number;
+    clicks: number;
+    conversions: number;
+    spend: number;
+    revenue: number;
+    ctr: number;
+    cpc: number;
+    roas: number;
+}
+
+export interface AdGroupWithMetrics extends AdGroup {
+    metrics: AdPerformanceMetrics;
+}
+
+/** Creative details as reported by the platform; fields vary per platform */
+export interface AdCreative {
+    title?: string | null;
+    headlines?: string[];
+    body?: string | null;
+    text?: string | null;
+    thumbnailUrl?: string | null;
+    url?: string | null;
+    finalUrls?: string[];
+    [key: string]: unknown;
+}
+
+export interface Ad {
+    id: string;
+    name: string;
+    status: AdGroupStatus;
+    adGroupId: string;
+    externalId?: string;
+    creative?: AdCreative | null;
+    metrics: AdPerformanceMetrics;
+}
+
+export interface AdGroupAdsResponse {
+    adGroup: AdGroup;
+    ads: Ad[];
+}
+
 // =============================================================================
 // Form Value Interfaces
 // =============================================================================
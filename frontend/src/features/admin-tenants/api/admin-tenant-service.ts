@@ -0,0 +1,51 @@
+/**
+ * Admin Tenant Service
+ *
+ * Super-admin tenant console: listing with usage, subscription changes,
+ * suspension, soft delete and the tenant's audit trail.
+ */
+
+import { apiClient } from '@/services/api-client';
+import type {
+    AdminTenant,
+    AdminTenantsQuery,
+    AdminTenantsResponse,
+    CreateTenantInput,
+    TenantAuditLog,
+    TenantImpersonationSession,
+    UpdateSubscriptionInput,
+} from '../types';
+
+export const adminTenantService = {
+    getTenants: async (query: AdminTenantsQuery): Promise<AdminTenantsResponse> => {
+        const response = await apiClient.get('/admin/tenants', { params: query });
+        return response.data;
+    },
+    createTenant: async (input: CreateTenantInput): Promise<AdminTenant> => {
+        const response = await apiClient.post('/admin/tenants', input);
+        return response.data;
+    },
+    updateSubscription: async (id: string, input: UpdateSubscriptionInput): Promise<AdminTenant> => {
+        const response = await apiClient.patch(`/admin/tenants/${id}/subscription`, input);
+        return response.data;
+    },
+    suspend: async (id: string, reason: string): Promise<AdminTenant> => {
+        const response = await apiClient.post(`/admin/tenants/${id}/suspend`, { reason });
+        return response.data;
+    },
+    reactivate: async (id: string): Promise<AdminTenant> => {
+        const response = await apiClient.post(`/admin/tenants/${id}/reactivate`);
+        return response.data;
+    },
+    remove: async (id: string): Promise<void> => {
+        await apiClient.delete(`/admin/tenants/${id}`);
+    },
+    getAuditLogs: async (id: string): Promise<TenantAuditLog[]> => {
+        const response = await apiClient.get(`/admin/tenants/${id}/audit-logs`);
+        return response.data;
+    },
+    getImpersonations: async (id: string): Promise<TenantImpersonationSession[]> => {
+        const response = await apiClient.get(`/admin/tenants/${id}/impersonations`);
+        return response.data;
+    },
+};
@@ -0,0 +1,134 @@
+/**
+ * Create Tenant Dialog
+ *
+ * Creates an empty tenant with its initial plan; users are invited afterwards.
+ */
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCreateTenant } from '../hooks/use-admin-tenants';
+import { SUBSCRIPTION_PLANS, SUBSCRIPTION_STATUSES, type CreateTenantInput } from '../types';
+
+const EMPTY_FORM: CreateTenantInput = {
+    name: '',
+    slug: '',
+    domain: '',
+    subscriptionPlan: 'BASIC',
+    subscriptionStatus: 'TRIAL',
+};
+
+interface CreateTenantDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function CreateTenantDialog({ open, onOpenChange }: CreateTenantDialogProps) {
+    const [form, setForm] = useState<CreateTenantInput>(EMPTY_FORM);
+    const createTenant = useCreateTenant();
+
+    const update = (changes: Partial<CreateTenantInput>) => setForm((current) => ({ ...current, ...changes }));
+
+    const handleSubmit = async () => {
+        try {
+            await createTenant.mutateAsync({
+                ...form,
+                slug: form.slug || undefined,
+                domain: form.domain || undefined,
+            });
+            toast.success(`Tenant "${form.name}" created`);
+            setForm(EMPTY_FORM);
+            onOpenChange(false);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to create tenant');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>New Tenant</DialogTitle>
+                    <DialogDescription>Create an organization and choose its starting plan.</DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-4 py-2">
+                    <div className="grid gap-2">
+                        <Label htmlFor="tenant-name">Name *</Label>
+                        <Input id="tenant-name" value={form.name} onChange={(e) => update({ name: e.target.value })} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="tenant-slug">Slug</Label>
+                            <Input
+                                id="tenant-slug"
+                                placeholder="acme"
+                                value={form.slug}
+                                onChange={(e) => update({ slug: e.target.value.toLowerCase() })}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="tenant-domain">Domain</Label>
+                            <Input
+                                id="tenant-domain"
+                                placeholder="acme.co.th"
+                                value={form.domain}
+                                onChange={(e) => update({ domain: e.target.value })}
+                            />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                            <Label>Plan</Label>
+                            <Select
+                                value={form.subscriptionPlan}
+                                onValueChange={(value) => update({ subscriptionPlan: value as CreateTenantInput['subscriptionPlan'] })}
+                            >
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {SUBSCRIPTION_PLANS.map((plan) => (
+                                        <SelectItem key={plan} value={plan}>{plan}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label>Status</Label>
+                            <Select
+                                value={form.subscriptionStatus}
+                                onValueChange={(value) => update({ subscriptionStatus: value as CreateTenantInput['subscriptionStatus'] })}
+                            >
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {SUBSCRIPTION_STATUSES.map((status) => (
+                                        <SelectItem key={status} value={status}>{status}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                    <Button onClick={handleSubmit} disabled={!form.name.trim() || createTenant.isLoading}>
+                        {createTenant.isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Create
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
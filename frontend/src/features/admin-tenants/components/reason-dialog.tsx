@@ -0,0 +1,92 @@
+/**
+ * Reason Dialog
+ *
+ * Asks for the justification that suspensions and impersonation sessions
+ * require before they are recorded in the tenant's audit log.
+ */
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+
+interface ReasonDialogProps {
+    open: boolean;
+    title: string;
+    description: string;
+    confirmLabel: string;
+    destructive?: boolean;
+    onOpenChange: (open: boolean) => void;
+    onConfirm: (reason: string) => Promise<void>;
+}
+
+export function ReasonDialog({
+    open,
+    title,
+    description,
+    confirmLabel,
+    destructive,
+    onOpenChange,
+    onConfirm,
+}: ReasonDialogProps) {
+    const [reason, setReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        if (!next) setReason('');
+        onOpenChange(next);
+    };
+
+    const handleConfirm = async () => {
+        setIsSubmitting(true);
+        try {
+            await onConfirm(reason.trim());
+            handleOpenChange(false);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>{title}</DialogTitle>
+                    <DialogDescription>{description}</DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-2 py-2">
+                    <Label htmlFor="reason">Reason *</Label>
+                    <Textarea
+                        id="reason"
+                        rows={3}
+                        placeholder="e.g. Support ticket #1234"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                    />
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+                    <Button
+                        variant={destructive ? 'destructive' : 'default'}
+                        onClick={handleConfirm}
+                        disabled={reason.trim().length < 3 || isSubmitting}
+                    >
+                        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {confirmLabel}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,119 @@
+/**
+ * Subscription Dialog
+ *
+ * Change a tenant's plan, status or end date. The change is audited with the
+ * values before and after.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useUpdateTenantSubscription } from '../hooks/use-admin-tenants';
+import {
+    SUBSCRIPTION_PLANS,
+    SUBSCRIPTION_STATUSES,
+    type AdminTenant,
+    type SubscriptionPlan,
+    type SubscriptionStatus,
+} from '../types';
+
+interface SubscriptionDialogProps {
+    tenant: AdminTenant | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function SubscriptionDialog({ tenant, onOpenChange }: SubscriptionDialogProps) {
+    const [plan, setPlan] = useState<SubscriptionPlan>('BASIC');
+    const [status, setStatus] = useState<SubscriptionStatus>('ACTIVE');
+    const [endsAt, setEndsAt] = useState('');
+    const updateSubscription = useUpdateTenantSubscription();
+
+    useEffect(() => {
+        if (!tenant) return;
+        setPlan(tenant.subscriptionPlan);
+        setStatus(tenant.subscriptionStatus);
+        setEndsAt(tenant.subscriptionEndsAt ? tenant.subscriptionEndsAt.slice(0, 10) : '');
+    }, [tenant]);
+
+    const handleSave = async () => {
+        if (!tenant) return;
+        try {
+            await updateSubscription.mutateAsync({
+                id: tenant.id,
+                input: { plan, status, endsAt: endsAt ? new Date(endsAt).toISOString() : null },
+            });
+            toast.success(`Subscription of "${tenant.name}" updated`);
+            onOpenChange(false);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to update subscription');
+        }
+    };
+
+    return (
+        <Dialog open={!!tenant} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Subscription</DialogTitle>
+                    <DialogDescription>{tenant?.name}</DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-4 py-2">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                            <Label>Plan</Label>
+                            <Select value={plan} onValueChange={(value) => setPlan(value as SubscriptionPlan)}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {SUBSCRIPTION_PLANS.map((option) => (
+                                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label>Status</Label>
+                            <Select value={status} onValueChange={(value) => setStatus(value as SubscriptionStatus)}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {SUBSCRIPTION_STATUSES.map((option) => (
+                                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="subscription-ends-at">Ends on</Label>
+                        <Input
+                            id="subscription-ends-at"
+                            type="date"
+                            value={endsAt}
+                            onChange={(e) => setEndsAt(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground">Leave empty for no end date.</p>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                    <Button onClick={handleSave} disabled={updateSubscription.isLoading}>
+                        {updateSubscription.isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
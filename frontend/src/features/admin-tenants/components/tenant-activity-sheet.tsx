@@ -0,0 +1,113 @@
+/**
+ * Tenant Activity Sheet
+ *
+ * Audit trail of a tenant (console actions, impersonation and every request
+ * made while impersonating) next to the list of impersonation sessions.
+ */
+
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { useTenantAuditLogs, useTenantImpersonations } from '../hooks/use-admin-tenants';
+import type { AdminTenant, TenantAuditLog } from '../types';
+
+function formatDateTime(value: string): string {
+    return new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function actorName(actor: { email: string; firstName: string | null; lastName: string | null } | null): string {
+    if (!actor) return 'System';
+    const name = `${actor.firstName ?? ''} ${actor.lastName ?? ''}`.trim();
+    return name || actor.email;
+}
+
+/** One-line summary of the audit details, e.g. the request of an impersonated call */
+function describe(log: TenantAuditLog): string {
+    const details = log.details ?? {};
+    if (log.action === 'IMPERSONATED_REQUEST') {
+        return `${details.method} ${details.path} → ${details.statusCode}`;
+    }
+    if (typeof details.reason === 'string') return details.reason;
+    return '';
+}
+
+interface TenantActivitySheetProps {
+    tenant: AdminTenant | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function TenantActivitySheet({ tenant, onOpenChange }: TenantActivitySheetProps) {
+    const tenantId = tenant?.id ?? null;
+    const { data: logs, isLoading: isLoadingLogs } = useTenantAuditLogs(tenantId);
+    const { data: sessions, isLoading: isLoadingSessions } = useTenantImpersonations(tenantId);
+
+    const spinner = (
+        <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+    );
+
+    return (
+        <Sheet open={!!tenant} onOpenChange={onOpenChange}>
+            <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+                <SheetHeader>
+                    <SheetTitle>{tenant?.name}</SheetTitle>
+                    <SheetDescription>Audit trail and impersonation sessions</SheetDescription>
+                </SheetHeader>
+
+                <Tabs defaultValue="audit" className="mt-4 px-4">
+                    <TabsList>
+                        <TabsTrigger value="audit">Audit Log</TabsTrigger>
+                        <TabsTrigger value="impersonation">Impersonation</TabsTrigger>
+                    </TabsList>
+
+                    <TabsContent value="audit">
+                        {isLoadingLogs ? spinner : !logs?.length ? (
+                            <p className="py-4 text-sm text-muted-foreground">No activity recorded.</p>
+                        ) : (
+                            <ul className="divide-y text-sm">
+                                {logs.map((log) => (
+                                    <li key={log.id} className="py-2">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="font-medium">{log.action}</span>
+                                            <span className="text-xs text-muted-foreground">{formatDateTime(log.createdAt)}</span>
+                                        </div>
+                                        <div className="text-xs text-muted-foreground">
+                                            {actorName(log.user)}
+                                            {describe(log) && <> · {describe(log)}</>}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </TabsContent>
+
+                    <TabsContent value="impersonation">
+                        {isLoadingSessions ? spinner : !sessions?.length ? (
+                            <p className="py-4 text-sm text-muted-foreground">No impersonation sessions.</p>
+                        ) : (
+                            <ul className="divide-y text-sm">
+                                {sessions.map((session) => {
+                                    const isOpen = !session.endedAt && new Date(session.expiresAt) > new Date();
+                                    return (
+                                        <li key={session.id} className="py-2">
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="font-medium">{actorName(session.adminUser)}</span>
+                                                {isOpen ? <Badge>Active</Badge> : <Badge variant="secondary">Ended</Badge>}
+                                            </div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {formatDateTime(session.startedAt)} · {session.reason}
+                                                {session.ipAddress && <> · {session.ipAddress}</>}
+                                            </div>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </TabsContent>
+                </Tabs>
+            </SheetContent>
+        </Sheet>
+    );
+}
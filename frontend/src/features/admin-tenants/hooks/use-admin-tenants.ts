@@ -0,0 +1,87 @@
+/**
+ * Admin Tenant Hooks
+ *
+ * Queries and mutations for the super-admin tenant console.
+ * Every mutation refreshes the tenant list and the affected tenant's audit trail.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { adminTenantService } from '../api/admin-tenant-service';
+import type { AdminTenantsQuery, CreateTenantInput, UpdateSubscriptionInput } from '../types';
+
+export const adminTenantQueryKeys = {
+    all: ['admin-tenants'] as const,
+    list: (query: AdminTenantsQuery) => [...adminTenantQueryKeys.all, 'list', query] as const,
+    auditLogs: (id: string) => [...adminTenantQueryKeys.all, id, 'audit-logs'] as const,
+    impersonations: (id: string) => [...adminTenantQueryKeys.all, id, 'impersonations'] as const,
+};
+
+export function useAdminTenants(query: AdminTenantsQuery) {
+    return useQuery({
+        queryKey: adminTenantQueryKeys.list(query),
+        queryFn: () => adminTenantService.getTenants(query),
+        keepPreviousData: true,
+    });
+}
+
+export function useTenantAuditLogs(id: string | null) {
+    return useQuery({
+        queryKey: adminTenantQueryKeys.auditLogs(id ?? ''),
+        queryFn: () => adminTenantService.getAuditLogs(id!),
+        enabled: !!id,
+    });
+}
+
+export function useTenantImpersonations(id: string | null) {
+    return useQuery({
+        queryKey: adminTenantQueryKeys.impersonations(id ?? ''),
+        queryFn: () => adminTenantService.getImpersonations(id!),
+        enabled: !!id,
+    });
+}
+
+function useInvalidateTenants() {
+    const queryClient = useQueryClient();
+    return () => queryClient.invalidateQueries({ queryKey: adminTenantQueryKeys.all });
+}
+
+export function useCreateTenant() {
+    const invalidate = useInvalidateTenants();
+    return useMutation({
+        mutationFn: (input: CreateTenantInput) => adminTenantService.createTenant(input),
+        onSuccess: invalidate,
+    });
+}
+
+export function useUpdateTenantSubscription() {
+    const invalidate = useInvalidateTenants();
+    return useMutation({
+        mutationFn: ({ id, input }: { id: string; input: UpdateSubscriptionInput }) =>
+            adminTenantService.updateSubscription(id, input),
+        onSuccess: invalidate,
+    });
+}
+
+export function useSuspendTenant() {
+    const invalidate = useInvalidateTenants();
+    return useMutation({
+        mutationFn: ({ id, reason }: { id: string; reason: string }) => adminTenantService.suspend(id, reason),
+        onSuccess: invalidate,
+    });
+}
+
+export function useReactivateTenant() {
+    const invalidate = useInvalidateTenants();
+    return useMutation({
+        mutationFn: (id: string) => adminTenantService.reactivate(id),
+        onSuccess: invalidate,
+    });
+}
+
+export function useDeleteTenant() {
+    const invalidate = useInvalidateTenants();
+    return useMutation({
+        mutationFn: (id: string) => adminTenantService.remove(id),
+        onSuccess: invalidate,
+    });
+}
@@ -0,0 +1,31 @@
+/**
+ * Admin Tenants Feature - Barrel Export
+ */
+
+// Types
+export * from './types';
+
+// API Services
+export { adminTenantService } from './api/admin-tenant-service';
+
+// Hooks
+export {
+    useAdminTenants,
+    useTenantAuditLogs,
+    useTenantImpersonations,
+    useCreateTenant,
+    useUpdateTenantSubscription,
+    useSuspendTenant,
+    useReactivateTenant,
+    useDeleteTenant,
+    adminTenantQueryKeys,
+} from './hooks/use-admin-tenants';
+
+// Components
+export { CreateTenantDialog } from './components/create-tenant-dialog';
+export { SubscriptionDialog } from './components/subscription-dialog';
+export { ReasonDialog } from './components/reason-dialog';
+export { TenantActivitySheet } from './components/tenant-activity-sheet';
+
+// Pages
+export { default as AdminTenantsPage } from './pages/admin-tenants-page';
@@ -0,0 +1,356 @@
+/**
+ * Admin Tenants Page
+ *
+ * Super-admin console: every tenant with its plan, lifecycle state and usage.
+ * Subscription changes, suspension, soft delete and impersonation are audited
+ * on the tenant.
+ */
+
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { SearchInput } from '@/components/ui/SearchInput';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useDebounce } from '@/hooks/use-debounce';
+import { formatDate, formatNumber } from '@/lib/formatters';
+import { useAuthStore, selectUser } from '@/stores/auth-store';
+import { Building2, Loader2, MoreHorizontal, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { CreateTenantDialog } from '../components/create-tenant-dialog';
+import { SubscriptionDialog } from '../components/subscription-dialog';
+import { ReasonDialog } from '../components/reason-dialog';
+import { TenantActivitySheet } from '../components/tenant-activity-sheet';
+import {
+    useAdminTenants,
+    useDeleteTenant,
+    useReactivateTenant,
+    useSuspendTenant,
+} from '../hooks/use-admin-tenants';
+import { SUBSCRIPTION_PLANS, type AdminTenant, type SubscriptionPlan, type TenantState } from '../types';
+
+const ALL = 'all';
+const PAGE_SIZE = 20;
+
+function stateOf(tenant: AdminTenant): TenantState {
+    if (tenant.deletedAt) return 'deleted';
+    if (tenant.suspendedAt) return 'suspended';
+    return 'active';
+}
+
+const STATE_VARIANTS = { active: 'active', suspended: 'warning', deleted: 'error' } as const;
+
+export default function AdminTenantsPage() {
+    const [, setLocation] = useLocation();
+    const currentUser = useAuthStore(selectUser);
+    const startImpersonation = useAuthStore((state) => state.startImpersonation);
+
+    const [search, setSearch] = useState('');
+    const [state, setState] = useState<TenantState | typeof ALL>(ALL);
+    const [plan, setPlan] = useState<SubscriptionPlan | typeof ALL>(ALL);
+    const [page, setPage] = useState(1);
+    const debouncedSearch = useDebounce(search, 300);
+
+    const [isCreateOpen, setIsCreateOpen] = useState(false);
+    const [subscriptionTarget, setSubscriptionTarget] = useState<AdminTenant | null>(null);
+    const [activityTarget, setActivityTarget] = useState<AdminTenant | null>(null);
+    const [suspendTarget, setSuspendTarget] = useState<AdminTenant | null>(null);
+    const [impersonateTarget, setImpersonateTarget] = useState<AdminTenant | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<AdminTenant | null>(null);
+
+    const { data, isLoading, isFetching } = useAdminTenants({
+        search: debouncedSearch || undefined,
+        state: state === ALL ? undefined : state,
+        plan: plan === ALL ? undefined : plan,
+        page,
+        limit: PAGE_SIZE,
+    });
+    const suspendTenant = useSuspendTenant();
+    const reactivateTenant = useReactivateTenant();
+    const deleteTenant = useDeleteTenant();
+
+    const tenants = data?.data ?? [];
+    const meta = data?.meta;
+
+    const handleSuspend = async (reason: string) => {
+        if (!suspendTarget) return;
+        try {
+            await suspendTenant.mutateAsync({ id: suspendTarget.id, reason });
+            toast.success(`"${suspendTarget.name}" suspended`);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to suspend tenant');
+            throw error;
+        }
+    };
+
+    const handleReactivate = async (tenant: AdminTenant) => {
+        try {
+            await reactivateTenant.mutateAsync(tenant.id);
+            toast.success(`"${tenant.name}" reactivated`);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to reactivate tenant');
+        }
+    };
+
+    const handleImpersonate = async (reason: string) => {
+        if (!impersonateTarget) return;
+        try {
+            await startImpersonation(impersonateTarget.id, reason);
+            toast.success(`Now acting as an admin of "${impersonateTarget.name}"`);
+            setLocation('/dashboard');
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to start impersonation');
+            throw error;
+        }
+    };
+
+    const confirmDelete = async () => {
+        if (!deleteTarget) return;
+        try {
+            await deleteTenant.mutateAsync(deleteTarget.id);
+            toast.success(`"${deleteTarget.name}" deleted`);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to delete tenant');
+        } finally {
+            setDeleteTarget(null);
+        }
+    };
+
+    return (
+        <DashboardLayout>
+            <div className="space-y-6">
+                <div className="flex items-start justify-between">
+                    <div>
+                        <h1 className="text-2xl font-bold tracking-tight">Tenants</h1>
+                        <p className="text-muted-foreground">Manage organizations, subscriptions and access across the platform.</p>
+                    </div>
+                    <Button onClick={() => setIsCreateOpen(true)}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        New Tenant
+                    </Button>
+                </div>
+
+                <Card>
+                    <CardHeader className="space-y-4">
+                        <div className="space-y-1">
+                            <CardTitle className="flex items-center gap-2 text-lg">
+                                <Building2 className="h-5 w-5" />
+                                All Tenants
+                                {isFetching && !isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                            </CardTitle>
+                            <CardDescription>{formatNumber(meta?.total ?? 0)} tenants</CardDescription>
+                        </div>
+                        <div className="flex flex-wrap gap-3">
+                            <SearchInput
+                                className="w-full sm:w-72"
+                                placeholder="Search name, slug or domain..."
+                                value={search}
+                                onChange={(value) => { setSearch(value); setPage(1); }}
+                            />
+                            <Select value={state} onValueChange={(value) => { setState(value as TenantState | typeof ALL); setPage(1); }}>
+                                <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>All (not deleted)</SelectItem>
+                                    <SelectItem value="active">Active</SelectItem>
+                                    <SelectItem value="suspended">Suspended</SelectItem>
+                                    <SelectItem value="deleted">Deleted</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Select value={plan} onValueChange={(value) => { setPlan(value as SubscriptionPlan | typeof ALL); setPage(1); }}>
+                                <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>All plans</SelectItem>
+                                    {SUBSCRIPTION_PLANS.map((option) => (
+                                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        {isLoading ? (
+                            <div className="flex justify-center py-10">
+                                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : !tenants.length ? (
+                            <p className="py-6 text-center text-sm text-muted-foreground">No tenants match these filters.</p>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Tenant</TableHead>
+                                        <TableHead>Subscription</TableHead>
+                                        <TableHead>State</TableHead>
+                                        <TableHead className="text-right">Users</TableHead>
+                                        <TableHead className="text-right">Integrations</TableHead>
+                                        <TableHead className="text-right">Campaigns</TableHead>
+                                        <TableHead className="text-right">Metric Rows</TableHead>
+                                        <TableHead>Last Sync</TableHead>
+                                        <TableHead className="w-10" />
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {tenants.map((tenant) => {
+                                        const tenantState = stateOf(tenant);
+                                        const isOwnTenant = tenant.id === currentUser?.tenantId;
+                                        return (
+                                            <TableRow key={tenant.id}>
+                                                <TableCell>
+                                                    <div className="font-medium">{tenant.name}</div>
+                                                    <div className="text-xs text-muted-foreground">
+                                                        {tenant.slug ?? tenant.domain ?? tenant.id.slice(0, 8)}
+                                                    </div>
+                                                </TableCell>
+                                                <TableCell>
+                                                    <div>{tenant.subscriptionPlan}</div>
+                                                    <div className="text-xs text-muted-foreground">
+                                                        {tenant.subscriptionStatus}
+                                                        {tenant.subscriptionEndsAt && ` · until ${formatDate(tenant.subscriptionEndsAt)}`}
+                                                    </div>
+                                                </TableCell>
+                                                <TableCell>
+                                                    <StatusBadge status={tenantState} variant={STATE_VARIANTS[tenantState]} />
+                                                    {tenant.suspendedReason && tenantState === 'suspended' && (
+                                                        <div className="mt-1 max-w-[180px] truncate text-xs text-muted-foreground" title={tenant.suspendedReason}>
+                                                            {tenant.suspendedReason}
+                                                        </div>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="text-right">{formatNumber(tenant.usage.users)}</TableCell>
+                                                <TableCell className="text-right">{formatNumber(tenant.usage.integrations)}</TableCell>
+                                                <TableCell className="text-right">{formatNumber(tenant.usage.campaigns)}</TableCell>
+                                                <TableCell className="text-right">{formatNumber(tenant.usage.metricRows)}</TableCell>
+                                                <TableCell className="text-muted-foreground">
+                                                    {tenant.usage.lastSyncAt ? formatDate(tenant.usage.lastSyncAt) : 'Never'}
+                                                </TableCell>
+                                                <TableCell>
+                                                    <DropdownMenu>
+                                                        <DropdownMenuTrigger asChild>
+                                                            <Button variant="ghost" size="icon" aria-label={`Actions for ${tenant.name}`}>
+                                                                <MoreHorizontal className="h-4 w-4" />
+                                                            </Button>
+                                                        </DropdownMenuTrigger>
+                                                        <DropdownMenuContent align="end">
+                                                            <DropdownMenuItem onClick={() => setActivityTarget(tenant)}>
+                                                                Audit log
+                                                            </DropdownMenuItem>
+                                                            {tenantState !== 'deleted' && (
+                                                                <>
+                                                                    <DropdownMenuItem onClick={() => setSubscriptionTarget(tenant)}>
+                                                                        Change subscription
+                                                                    </DropdownMenuItem>
+                                                                    {!isOwnTenant && (
+                                                                        <DropdownMenuItem onClick={() => setImpersonateTarget(tenant)}>
+                                                                            Impersonate
+                                                                        </DropdownMenuItem>
+                                                                    )}
+                                                                    <DropdownMenuSeparator />
+                                                                    {tenantState === 'suspended' ? (
+                                                                        <DropdownMenuItem onClick={() => handleReactivate(tenant)}>
+                                                                            Reactivate
+                                                                        </DropdownMenuItem>
+                                                                    ) : !isOwnTenant && (
+                                                                        <DropdownMenuItem onClick={() => setSuspendTarget(tenant)}>
+                                                                            Suspend
+                                                                        </DropdownMenuItem>
+                                                                    )}
+                                                                    {!isOwnTenant && (
+                                                                        <DropdownMenuItem
+                                                                            className="text-destructive"
+                                                                            onClick={() => setDeleteTarget(tenant)}
+                                                                        >
+                                                                            Delete
+                                                                        </DropdownMenuItem>
+                                                                    )}
+                                                                </>
+                                                            )}
+                                                        </DropdownMenuContent>
+                                                    </DropdownMenu>
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        )}
+
+                        {meta && meta.totalPages > 1 && (
+                            <div className="flex items-center justify-end gap-2 pt-4">
+                                <span className="text-sm text-muted-foreground">Page {meta.page} of {meta.totalPages}</span>
+                                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                                    Previous
+                                </Button>
+                                <Button variant="outline" size="sm" disabled={page >= meta.totalPages} onClick={() => setPage(page + 1)}>
+                                    Next
+                                </Button>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            <CreateTenantDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+            <SubscriptionDialog tenant={subscriptionTarget} onOpenChange={(open) => !open && setSubscriptionTarget(null)} />
+            <TenantActivitySheet tenant={activityTarget} onOpenChange={(open) => !open && setActivityTarget(null)} />
+
+            <ReasonDialog
+                open={!!suspendTarget}
+                title={`Suspend ${suspendTarget?.name ?? ''}`}
+                description="Users of this tenant will be signed out and cannot sign in until it is reactivated. Data and integrations are kept."
+                confirmLabel="Suspend"
+                destructive
+                onOpenChange={(open) => !open && setSuspendTarget(null)}
+                onConfirm={handleSuspend}
+            />
+            <ReasonDialog
+                open={!!impersonateTarget}
+                title={`Impersonate ${impersonateTarget?.name ?? ''}`}
+                description="You will act as an admin of this tenant for up to one hour. The session and every request you make are recorded in the tenant's audit log."
+                confirmLabel="Start session"
+                onOpenChange={(open) => !open && setImpersonateTarget(null)}
+                onConfirm={handleImpersonate}
+            />
+
+            <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {deleteTarget?.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            The tenant is hidden from the console and its users can no longer sign in.
+                            Its data is kept and the deletion is recorded in the audit log.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            onClick={confirmDelete}
+                        >
+                            Delete
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </DashboardLayout>
+    );
+}
@@ -0,0 +1,97 @@
+/**
+ * Admin Tenants Feature - Type Definitions
+ *
+ * Mirrors the super-admin tenant console API (/admin/tenants).
+ */
+
+export type SubscriptionPlan = 'BASIC' | 'STANDARD' | 'ENTERPRISE';
+export type SubscriptionStatus = 'ACTIVE' | 'INACTIVE' | 'TRIAL' | 'EXPIRED';
+export type TenantState = 'active' | 'suspended' | 'deleted';
+
+export const SUBSCRIPTION_PLANS: SubscriptionPlan[] = ['BASIC', 'STANDARD', 'ENTERPRISE'];
+export const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ['ACTIVE', 'TRIAL', 'INACTIVE', 'EXPIRED'];
+
+export interface TenantUsage {
+    users: number;
+    integrations: number;
+    campaigns: number;
+    metricRows: number;
+    lastSyncAt: string | null;
+}
+
+export interface AdminTenant {
+    id: string;
+    name: string;
+    slug: string | null;
+    domain: string | null;
+    timezone: string;
+    currency: string;
+    subscriptionPlan: SubscriptionPlan;
+    subscriptionStatus: SubscriptionStatus;
+    subscriptionEndsAt: string | null;
+    suspendedAt: string | null;
+    suspendedReason: string | null;
+    createdAt: string;
+    deletedAt: string | null;
+    usage: TenantUsage;
+}
+
+export interface AdminTenantsQuery {
+    search?: string;
+    state?: TenantState;
+    plan?: SubscriptionPlan;
+    status?: SubscriptionStatus;
+    page?: number;
+    limit?: number;
+}
+
+export interface AdminTenantsResponse {
+    data: AdminTenant[];
+    meta: { total: number; page: number; limit: number; totalPages: number };
+}
+
+export interface CreateTenantInput {
+    name: string;
+    slug?: string;
+    domain?: string;
+    timezone?: string;
+    currency?: string;
+    subscriptionPlan?: SubscriptionPlan;
+    subscriptionStatus?: SubscriptionStatus;
+    subscriptionEndsAt?: string;
+}
+
+export interface UpdateSubscriptionInput {
+    plan?: SubscriptionPlan;
+    status?: SubscriptionStatus;
+    /** null removes the end date */
+    endsAt?: string | null;
+}
+
+interface ActorSummary {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+}
+
+export interface TenantAuditLog {
+    id: string;
+    action: string;
+    resource: string;
+    entityId: string | null;
+    details: Record<string, unknown> | null;
+    ipAddress: string | null;
+    createdAt: string;
+    user: ActorSummary | null;
+}
+
+export interface TenantImpersonationSession {
+    id: string;
+    reason: string;
+    ipAddress: string | null;
+    startedAt: string;
+    expiresAt: string;
+    endedAt: string | null;
+    adminUser: ActorSummary;
+}
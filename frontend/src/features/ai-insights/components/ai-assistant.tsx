@@ -210,36 +210,21 @@ export function AiAssistant() {
             // Wait, I am replacing a huge chunk. Let me be precise. 
             // I need to replace lines 160-185 mainly.
 
-            // 4. Send User Message to API
-            await sendMessageMutation.mutateAsync({
+            // 4. Send User Message to API (the server answers from live tenant data)
+            const sent = await sendMessageMutation.mutateAsync({
                 sessionId: currentSessionId!,
                 role: 'user',
                 content: savedQuery
             });
 
-            // 5. Determine Response Logic (Mock AI + API storage)
-            const lowerQ = savedQuery.toLowerCase();
-            let responseText = "";
-
-            if (lowerQ.includes('caption')) {
-                responseText = "Here are a few caption options:\n\n1. 🚀 **Boost your ROI** with AI! #Marketing\n2. Stop guessing, start scaling. 📈\n3. Connect better with smart targeting. 🎯";
-            } else if (lowerQ.includes('performance')) {
-                responseText = "Recent data:\n\n- 🟢 **CTR +15%**\n- 🔴 **CPC $1.35**\n- 💡 **Suggestion:** Pause 'Mobile_Feed_B'.";
-            } else if (lowerQ.includes('trend')) {
-                responseText = "🔥 **Trending:**\n\n1. *Short-form video* (2x engagement)\n2. *Sustainability messaging*\n3. *Interactive polls*";
-            } else if (lowerQ.includes('lead') || lowerQ.includes('summarize') || lowerQ.includes('summary')) {
-                responseText = "📊 **AI Summary Report:**\n\n- **Overall Performance:** Strong growth in Q3.\n- **Key Driver:** Organic traffic increased by 22%.\n- **Risk:** CPA is trending up in paid channels.\n- **Recommendation:** Reallocate budget to high-performing ad sets.";
-            } else {
-                responseText = `Analyzed "${savedQuery}".Metrics stable.\nRecommendation: Improve ad relevance to lower CPA.`;
-            }
-
-            // 6. Simulate AI Thinking (reduced delay 400ms)
-            await new Promise(resolve => setTimeout(resolve, 400));
+            // 5. Assistant reply generated and saved by the server
+            const responseText = sent.reply?.content
+                ?? "Sorry, I couldn't generate an answer right now. Please try again.";
 
             setIsStreaming(true); // Lock useEffect
             setIsThinking(false);
 
-            // 7. Optimistic AI Message & Streaming Effect
+            // 6. Optimistic AI Message & Streaming Effect
             const aiMsgId = (Date.now() + 1).toString();
             const aiMsg: Message = {
                 id: aiMsgId,
@@ -267,25 +252,15 @@ export function AiAssistant() {
                         streamIntervalRef.current = null;
                     }
 
-                    // 8. Save AI message THEN unlock
-                    sendMessageMutation.mutateAsync({
-                        sessionId: currentSessionId!,
-                        role: 'assistant',
-                        content: responseText
-                    }).then(async () => {
-                        // Critical: Wait for refetch to complete so we don't flash stale data
-                        await queryClient.invalidateQueries({ queryKey: ['chat-session', currentSessionId] });
-
-                        // Small buffer to ensure React renders the new data
-                        setTimeout(() => {
-                            setIsStreaming(false);
-                            isProcessingRef.current = false;
-                        }, 100);
-                    }).catch(err => {
-                        console.error("Failed to save AI message:", err);
-                        setIsStreaming(false);
-                        isProcessingRef.current = false;
-                    });
+                    // 7. Reply is already persisted; refetch THEN unlock
+                    queryClient.invalidateQueries({ queryKey: ['chat-session', currentSessionId] })
+                        .finally(() => {
+                            // Small buffer to ensure React renders the new data
+                            setTimeout(() => {
+                                setIsStreaming(false);
+                                isProcessingRef.current = false;
+                            }, 100);
+                        });
                 }
             }, 30);
 
@@ -5,8 +5,17 @@ export interface ChatMessage {
     role: 'user' | 'assistant';
     content: string;
     createdAt: string;
+    metadata?: {
+        intent?: string;
+        period?: string;
+        dateRange?: { from: string; to: string } | null;
+        evidence?: Array<{ label: string; value: string }>;
+    } | null;
 }
 
+// User messages come back with the assistant reply generated on the server
+export type SendChatMessageResponse = ChatMessage & { reply?: ChatMessage };
+
 export interface ChatSession {
     id: string;
     title: string;
@@ -45,9 +54,9 @@ export const chatService = {
         return response.data;
     },
 
-    // Send a message
-    sendMessage: async (sessionId: string, role: 'user' | 'assistant', content: string) => {
-        const response = await apiClient.post<ChatMessage>('/chat/messages', { sessionId, role, content });
+    // Send a message (user messages are answered by the server)
+    sendMessage: async (sessionId: string, role: 'user' | 'assistant', content: string, period?: string) => {
+        const response = await apiClient.post<SendChatMessageResponse>('/chat/messages', { sessionId, role, content, period });
         return response.data;
     },
 
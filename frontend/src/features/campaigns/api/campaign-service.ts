@@ -85,6 +85,8 @@ interface BackendCampaign {
     roi?: number;
     revenue?: number;
     conversions?: number;
+    // Set when a CLIENT edit was queued for approval instead of pushed to the platform
+    pendingChangeRequest?: { id: string };
 }
 
 // =============================================================================
@@ -155,6 +157,7 @@ function normalizeCampaign(raw: BackendCampaign): Campaign {
         roi: raw.roi ?? 0,
         revenue: raw.revenue ?? 0,
         conversions: raw.conversions ?? 0,
+        pendingApproval: !!raw.pendingChangeRequest,
     };
 }
 
@@ -337,10 +340,18 @@ export const CampaignService = {
     /**
      * Toggle campaign status (active <-> paused)
      */
-    async toggleCampaignStatus(id: string, currentStatus: CampaignStatus): Promise<Campaign> {
-        const newStatus = currentStatus === 'active' ? 'PAUSED' : 'ACTIVE';
-        const response = await apiClient.patch<BackendCampaign>(`/campaigns/${id}`, {
-            status: newStatus,
+    async toggleCampaignStatus(id: string, currentStatus: CampaignStatus, force?: boolean): Promise<Campaign> {
+        return CampaignService.setCampaignStatus(id, currentStatus === 'active' ? 'paused' : 'active', force);
+    },
+
+    /**
+     * Set campaign status; synced campaigns are pushed to the ad platform
+     * `force` overwrites a value that changed on the platform since the last sync (409 otherwise)
+     */
+    async setCampaignStatus(id: string, status: CampaignStatus, force?: boolean): Promise<Campaign> {
+        const response = await apiClient.put<BackendCampaign>(`/campaigns/${id}`, {
+            status: STATUS_REVERSE_MAP[status],
+            ...(force && { force: true }),
         });
         return normalizeCampaign(response.data);
     },
@@ -0,0 +1,84 @@
+// Campaign Change Request Service
+// CLIENT edits to synced campaigns wait here until an admin or manager approves them
+
+import { apiClient } from '@/services/api-client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CampaignChangeStatus = 'PENDING' | 'APPLYING' | 'APPLIED' | 'REJECTED' | 'FAILED';
+
+export interface CampaignChangeSet {
+    status?: string;
+    budget?: number;
+    endDate?: string | null;
+}
+
+interface ChangeRequestUser {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string;
+}
+
+export interface CampaignChangeRequest {
+    id: string;
+    campaignId: string;
+    status: CampaignChangeStatus;
+    changes: CampaignChangeSet;
+    baseline: CampaignChangeSet;
+    errorMessage: string | null;
+    createdAt: string;
+    reviewedAt: string | null;
+    campaign: { id: string; name: string; platform: string };
+    requestedBy: ChangeRequestUser | null;
+    reviewedBy: ChangeRequestUser | null;
+}
+
+export interface ChangeApprovalSettings {
+    clientChangeApproval: boolean;
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+export const ChangeRequestService = {
+    async getChangeRequests(status?: CampaignChangeStatus): Promise<CampaignChangeRequest[]> {
+        const response = await apiClient.get<CampaignChangeRequest[]>('/campaign-change-requests', {
+            params: status ? { status } : undefined,
+        });
+        return response.data;
+    },
+
+    /**
+     * Approve and push to the ad platform
+     * `force` overwrites a value that changed on the platform since the request was made (409 otherwise)
+     */
+    async approveChangeRequest(id: string, force?: boolean): Promise<CampaignChangeRequest> {
+        const response = await apiClient.post<CampaignChangeRequest>(
+            `/campaign-change-requests/${id}/approve`,
+            force ? { force: true } : {},
+        );
+        return response.data;
+    },
+
+    async rejectChangeRequest(id: string, reason?: string): Promise<CampaignChangeRequest> {
+        const response = await apiClient.post<CampaignChangeRequest>(
+            `/campaign-change-requests/${id}/reject`,
+            reason ? { reason } : {},
+        );
+        return response.data;
+    },
+
+    async getSettings(): Promise<ChangeApprovalSettings> {
+        const response = await apiClient.get<ChangeApprovalSettings>('/campaign-change-requests/settings');
+        return response.data;
+    },
+
+    async updateSettings(settings: ChangeApprovalSettings): Promise<ChangeApprovalSettings> {
+        const response = await apiClient.put<ChangeApprovalSettings>('/campaign-change-requests/settings', settings);
+        return response.data;
+    },
+};
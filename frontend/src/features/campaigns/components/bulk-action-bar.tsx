@@ -15,12 +15,14 @@ export interface BulkActionBarProps {
     selectedCount: number;
     /** Clear all selections */
     onClearSelection: () => void;
-    /** Pause selected campaigns (optional - visual only for now) */
+    /** Pause selected campaigns (pushed to the ad platforms) */
     onPause?: () => void;
-    /** Enable selected campaigns (optional - visual only for now) */
+    /** Enable selected campaigns (pushed to the ad platforms) */
     onEnable?: () => void;
     /** Delete selected campaigns (optional - visual only for now) */
     onDelete?: () => void;
+    /** A bulk status change is in flight */
+    isUpdating?: boolean;
 }
 
 // =============================================================================
@@ -33,6 +35,7 @@ export function BulkActionBar({
     onPause,
     onEnable,
     onDelete,
+    isUpdating = false,
 }: BulkActionBarProps) {
     if (selectedCount === 0) {
         return null;
@@ -57,7 +60,20 @@ export function BulkActionBar({
             </div>
 
             {/* Bulk Actions - Wrap on mobile */}
-
+            <div className="flex flex-wrap items-center gap-2">
+                {onPause && (
+                    <Button variant="outline" size="sm" onClick={onPause} disabled={isUpdating}>
+                        <Pause className="mr-2 h-4 w-4" />
+                        Pause
+                    </Button>
+                )}
+                {onEnable && (
+                    <Button variant="outline" size="sm" onClick={onEnable} disabled={isUpdating}>
+                        <Play className="mr-2 h-4 w-4" />
+                        Enable
+                    </Button>
+                )}
+            </div>
         </div>
     );
 }
@@ -0,0 +1,185 @@
+/**
+ * Change Requests Panel
+ * Pending CLIENT edits to synced campaigns, approved or rejected by admins and managers
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, ShieldCheck, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { showApiError, showSuccess } from '@/lib/errorHandler';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { ChangeRequestService } from '../api/change-request-service';
+import type { CampaignChangeRequest, CampaignChangeSet } from '../api/change-request-service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ChangeRequestsPanelProps {
+    /** Only admins can switch the approval requirement on or off */
+    canEditSettings: boolean;
+}
+
+const CHANGE_REQUESTS_QUERY_KEY = ['campaign-change-requests'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function describeChanges(changes: CampaignChangeSet, baseline: CampaignChangeSet): string[] {
+    const lines: string[] = [];
+    if (changes.status !== undefined) {
+        lines.push(`Status: ${baseline.status ?? '—'} → ${changes.status}`);
+    }
+    if (changes.budget !== undefined) {
+        lines.push(`Budget: ${baseline.budget != null ? formatCurrency(baseline.budget) : '—'} → ${formatCurrency(changes.budget)}`);
+    }
+    if (changes.endDate !== undefined) {
+        const from = baseline.endDate ? formatDate(baseline.endDate) : 'none';
+        lines.push(`End date: ${from} → ${changes.endDate ? formatDate(changes.endDate) : 'none'}`);
+    }
+    return lines;
+}
+
+function requesterName(request: CampaignChangeRequest): string {
+    const user = request.requestedBy;
+    if (!user) return 'Unknown user';
+    return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function ChangeRequestsPanel({ canEditSettings }: ChangeRequestsPanelProps) {
+    const queryClient = useQueryClient();
+
+    const requestsQuery = useQuery({
+        queryKey: [...CHANGE_REQUESTS_QUERY_KEY, 'PENDING'],
+        queryFn: () => ChangeRequestService.getChangeRequests('PENDING'),
+    });
+
+    const settingsQuery = useQuery({
+        queryKey: [...CHANGE_REQUESTS_QUERY_KEY, 'settings'],
+        queryFn: () => ChangeRequestService.getSettings(),
+    });
+
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: CHANGE_REQUESTS_QUERY_KEY });
+        queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+    };
+
+    const approveMutation = useMutation({
+        mutationFn: ({ id, force }: { id: string; force?: boolean }) =>
+            ChangeRequestService.approveChangeRequest(id, force),
+        onSuccess: () => {
+            showSuccess('Change approved', 'The ad platform has been updated.');
+            invalidate();
+        },
+        onError: (error: any, variables) => {
+            if (error?.response?.status === 409) {
+                toast.error('Changed on the ad platform', {
+                    description: `${error.response.data?.message}. Overwrite it with the requested change?`,
+                    action: { label: 'Overwrite', onClick: () => approveMutation.mutate({ ...variables, force: true }) },
+                });
+                return;
+            }
+            showApiError(error, 'Failed to apply change');
+            invalidate();
+        },
+    });
+
+    const rejectMutation = useMutation({
+        mutationFn: (id: string) => ChangeRequestService.rejectChangeRequest(id),
+        onSuccess: () => {
+            showSuccess('Change rejected');
+            invalidate();
+        },
+        onError: (error) => showApiError(error, 'Failed to reject change'),
+    });
+
+    const settingsMutation = useMutation({
+        mutationFn: (clientChangeApproval: boolean) => ChangeRequestService.updateSettings({ clientChangeApproval }),
+        onSuccess: () => invalidate(),
+        onError: (error) => showApiError(error, 'Failed to update approval setting'),
+    });
+
+    const requests = requestsQuery.data ?? [];
+    const isBusy = approveMutation.isLoading || rejectMutation.isLoading;
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                        <ShieldCheck className="h-4 w-4" />
+                        Pending Changes
+                    </CardTitle>
+                    <CardDescription>
+                        Client edits to status, budget and end date wait here before they reach the ad platform.
+                    </CardDescription>
+                </div>
+                {canEditSettings && settingsQuery.data && (
+                    <div className="flex items-center gap-2">
+                        <Switch
+                            id="client-change-approval"
+                            checked={settingsQuery.data.clientChangeApproval}
+                            disabled={settingsMutation.isLoading}
+                            onCheckedChange={(checked) => settingsMutation.mutate(checked)}
+                        />
+                        <Label htmlFor="client-change-approval" className="text-sm">
+                            Require approval
+                        </Label>
+                    </div>
+                )}
+            </CardHeader>
+            <CardContent>
+                {requests.length === 0 ? (
+                    <p className="py-4 text-center text-sm text-muted-foreground">No changes waiting for approval</p>
+                ) : (
+                    <div className="space-y-3">
+                        {requests.map((request) => (
+                            <div key={request.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+                                <div className="min-w-0 space-y-1 text-sm">
+                                    <p className="truncate font-medium">
+                                        {request.campaign.name}{' '}
+                                        <span className="text-xs text-muted-foreground">({request.campaign.platform})</span>
+                                    </p>
+                                    {describeChanges(request.changes, request.baseline).map((line) => (
+                                        <p key={line} className="text-muted-foreground">{line}</p>
+                                    ))}
+                                    <p className="text-xs text-muted-foreground">
+                                        Requested by {requesterName(request)} on {formatDate(request.createdAt)}
+                                    </p>
+                                </div>
+                                <div className="flex shrink-0 items-center gap-2">
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        disabled={isBusy}
+                                        onClick={() => rejectMutation.mutate(request.id)}
+                                    >
+                                        <X className="mr-1 h-3 w-3" />
+                                        Reject
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        disabled={isBusy}
+                                        onClick={() => approveMutation.mutate({ id: request.id })}
+                                    >
+                                        <Check className="mr-1 h-3 w-3" />
+                                        Approve
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -5,7 +5,7 @@ import { toast } from 'sonner';
 import { CampaignService } from '../api/campaign-service';
 import { CAMPAIGNS_QUERY_KEY } from './use-campaigns';
 import type { CreateCampaignFormData } from '../types/schema';
-import type { Campaign } from '../types';
+import type { Campaign, CampaignStatus } from '../types';
 
 // =============================================================================
 // Shared Types
@@ -20,6 +20,25 @@ interface DeleteMutationOptions {
     onError?: (error: Error) => void;
 }
 
+// =============================================================================
+// Write-back helpers
+// =============================================================================
+
+/** 409 from write-back: the ad platform value changed since the last sync */
+function isRemoteConflict(error: unknown): boolean {
+    return (error as any)?.response?.status === 409;
+}
+
+function apiMessage(error: unknown): string {
+    return (error as any)?.response?.data?.message || (error as Error)?.message || 'An unexpected error occurred.';
+}
+
+function notifyPendingApproval(campaign: Campaign) {
+    toast.info('Sent for approval', {
+        description: `Changes to "${campaign.name}" will reach the ad platform once an admin approves them.`,
+    });
+}
+
 // =============================================================================
 // Create Campaign
 // =============================================================================
@@ -98,20 +117,62 @@ export function useDeleteCampaign(options?: DeleteMutationOptions) {
 export function useToggleCampaignStatus(options?: MutationOptions) {
     const queryClient = useQueryClient();
 
-    return useMutation<Campaign, Error, { id: string; currentStatus: Campaign['status'] }>({
-        mutationFn: ({ id, currentStatus }) => CampaignService.toggleCampaignStatus(id, currentStatus),
+    const mutation = useMutation<Campaign, Error, { id: string; currentStatus: Campaign['status']; force?: boolean }>({
+        mutationFn: ({ id, currentStatus, force }) => CampaignService.toggleCampaignStatus(id, currentStatus, force),
         onSuccess: (campaign) => {
             queryClient.invalidateQueries({ queryKey: CAMPAIGNS_QUERY_KEY });
-            toast.success(`Campaign ${campaign.status === 'active' ? 'activated' : 'paused'}`, {
-                description: `"${campaign.name}" is now ${campaign.status}.`,
-            });
+            if (campaign.pendingApproval) {
+                notifyPendingApproval(campaign);
+            } else {
+                toast.success(`Campaign ${campaign.status === 'active' ? 'activated' : 'paused'}`, {
+                    description: `"${campaign.name}" is now ${campaign.status}.`,
+                });
+            }
             options?.onSuccess?.(campaign);
         },
-        onError: (error) => {
-            toast.error('Failed to update status', {
-                description: error.message || 'An unexpected error occurred.',
-            });
+        onError: (error, variables) => {
+            if (isRemoteConflict(error)) {
+                toast.error('Changed on the ad platform', {
+                    description: `${apiMessage(error)}. Overwrite it with your change?`,
+                    action: { label: 'Overwrite', onClick: () => mutation.mutate({ ...variables, force: true }) },
+                });
+            } else {
+                toast.error('Failed to update status', { description: apiMessage(error) });
+            }
             options?.onError?.(error);
         },
     });
+
+    return mutation;
+}
+
+// =============================================================================
+// Bulk Status Change (pause / enable selected campaigns)
+// =============================================================================
+export function useBulkCampaignStatus(options?: { onSuccess?: () => void }) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ ids, status }: { ids: string[]; status: CampaignStatus }) => {
+            const results = await Promise.allSettled(ids.map((id) => CampaignService.setCampaignStatus(id, status)));
+            return {
+                updated: results.filter((r) => r.status === 'fulfilled' && !r.value.pendingApproval).length,
+                pending: results.filter((r) => r.status === 'fulfilled' && r.value.pendingApproval).length,
+                conflicts: results.filter((r) => r.status === 'rejected' && isRemoteConflict(r.reason)).length,
+                failed: results.filter((r) => r.status === 'rejected' && !isRemoteConflict(r.reason)).length,
+            };
+        },
+        onSuccess: ({ updated, pending, conflicts, failed }) => {
+            queryClient.invalidateQueries({ queryKey: CAMPAIGNS_QUERY_KEY });
+
+            const parts = [
+                updated && `${updated} updated`,
+                pending && `${pending} sent for approval`,
+                conflicts && `${conflicts} changed on the platform since the last sync`,
+                failed && `${failed} failed`,
+            ].filter(Boolean);
+            (conflicts || failed ? toast.warning : toast.success)('Bulk update finished', { description: parts.join(', ') });
+            options?.onSuccess?.();
+        },
+    });
 }
@@ -25,11 +25,13 @@ import { CampaignAnalytics } from '../components/campaign-analytics';
 import { CampaignVisualization } from '../components/campaign-visualization';
 
 import { BulkActionBar } from '../components/bulk-action-bar';
+import { ChangeRequestsPanel } from '../components/change-requests-panel';
 import { DashboardDateFilter } from '@/features/dashboard/components/dashboard-date-filter';
 import { useDebounce } from '@/hooks/use-debounce';
 import { useFileDownload } from '@/hooks/use-file-download';
+import { useAuthStore, selectUser } from '@/stores/auth-store';
 import { useCampaigns } from '../hooks/use-campaigns';
-import { useDeleteCampaign, useToggleCampaignStatus } from '../hooks/use-campaign-mutations';
+import { useBulkCampaignStatus, useDeleteCampaign, useToggleCampaignStatus } from '../hooks/use-campaign-mutations';
 import { exportService } from '@/features/dashboard/services/export-service';
 import type { Campaign } from '../types';
 import type { PeriodEnum } from '@/features/dashboard/schemas';
@@ -245,6 +247,14 @@ export function CampaignsPage() {
 
     const toggleStatusMutation = useToggleCampaignStatus();
 
+    // Admins and managers review client edits before they reach the ad platforms
+    const user = useAuthStore(selectUser);
+    const canReviewChanges = ['SUPER_ADMIN', 'ADMIN', 'MANAGER'].includes(user?.role ?? '');
+
+    const bulkStatusMutation = useBulkCampaignStatus({
+        onSuccess: () => setSelectedIds(new Set()),
+    });
+
     // ==========================================================================
     // Filtered Campaigns for Display
     // ==========================================================================
@@ -324,17 +334,15 @@ export function CampaignsPage() {
     }, []);
 
     // ==========================================================================
-    // Bulk Action Handlers (TODO: Implement API)
+    // Bulk Action Handlers
     // ==========================================================================
     const handleBulkPause = useCallback(() => {
-        toast.info('Bulk Pause', { description: 'This feature is coming soon.' });
-        // TODO: Implement bulk pause API call
-    }, []);
+        bulkStatusMutation.mutate({ ids: Array.from(selectedIds), status: 'paused' });
+    }, [bulkStatusMutation, selectedIds]);
 
     const handleBulkEnable = useCallback(() => {
-        toast.info('Bulk Enable', { description: 'This feature is coming soon.' });
-        // TODO: Implement bulk enable API call
-    }, []);
+        bulkStatusMutation.mutate({ ids: Array.from(selectedIds), status: 'active' });
+    }, [bulkStatusMutation, selectedIds]);
 
     const handleBulkDelete = useCallback(() => {
         toast.info('Bulk Delete', { description: 'This feature is coming soon.' });
@@ -540,8 +548,13 @@ export function CampaignsPage() {
                     onPause={handleBulkPause}
                     onEnable={handleBulkEnable}
                     onDelete={handleBulkDelete}
+                    isUpdating={bulkStatusMutation.isLoading}
                 />
 
+                {canReviewChanges && (
+                    <ChangeRequestsPanel canEditSettings={user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN'} />
+                )}
+
                 {/* Pagination Header (Removed - Moved to Table) */}
 
                 {/* Campaigns Table with Sorting and Selection */}
@@ -22,6 +22,8 @@ export interface Campaign {
     ctr?: number;
     cpc?: number;
     cpm?: number;
+    /** Status / budget / end date change waiting for an admin before it reaches the ad platform */
+    pendingApproval?: boolean;
 }
 
 // Status badge styling configuration
@@ -1,5 +1,29 @@
 import { apiClient } from '@/services/api-client';
 
+export type LeadStage = 'NEW' | 'CONTACTED' | 'QUALIFIED' | 'PROPOSAL' | 'WON' | 'LOST';
+
+export interface CrmFunnelStage {
+    stage: LeadStage;
+    /** Leads from the period's cohort that reached this stage or beyond */
+    count: number;
+    rate: number;
+    stepRate: number;
+}
+
+export interface CrmCampaignBreakdown {
+    campaignId: string | null;
+    campaignName: string;
+    platform: string | null;
+    leads: number;
+    qualifiedLeads: number;
+    wonDeals: number;
+    wonValue: number;
+    spend: number;
+    conversionRate: number;
+    costPerLead: number;
+    costPerQualifiedLead: number;
+}
+
 export interface CrmSummary {
     totalLeads: number;
     leadsTrend: number;
@@ -9,14 +33,23 @@ export interface CrmSummary {
     conversionTrend: number;
     costPerLead: number;
     cplTrend: number;
+    costPerQualifiedLead: number;
+    cpqlTrend: number;
     pipelineValue: number;
     pipelineTrend: number;
+    wonDeals: number;
+    wonValue: number;
+    funnel: CrmFunnelStage[];
+    campaigns: CrmCampaignBreakdown[];
 }
 
 export interface PipelineTrend {
     date: string;
     leads: number;
+    qualified: number;
+    won: number;
     value: number;
+    wonValue: number;
 }
 
 export const CrmApi = {
@@ -0,0 +1,73 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrency, formatNumber } from '@/lib/formatters';
+import type { CrmCampaignBreakdown } from '../api';
+
+interface CampaignLeadsTableProps {
+  campaigns: CrmCampaignBreakdown[];
+}
+
+export function CampaignLeadsTable({ campaigns }: CampaignLeadsTableProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Leads by Campaign</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {campaigns.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No leads attributed to campaigns in this period.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Campaign</TableHead>
+                <TableHead className="text-right">Spend</TableHead>
+                <TableHead className="text-right">Leads</TableHead>
+                <TableHead className="text-right">Qualified</TableHead>
+                <TableHead className="text-right">Lead → Qualified</TableHead>
+                <TableHead className="text-right">CPL</TableHead>
+                <TableHead className="text-right">CPQL</TableHead>
+                <TableHead className="text-right">Won</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map((row) => (
+                <TableRow key={row.campaignId ?? 'unattributed'}>
+                  <TableCell>
+                    <div className="font-medium">{row.campaignName}</div>
+                    {row.platform && (
+                      <div className="text-xs text-muted-foreground">{row.platform.replace(/_/g, ' ')}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.spend)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(row.leads)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(row.qualifiedLeads)}</TableCell>
+                  <TableCell className="text-right">{row.conversionRate.toFixed(1)}%</TableCell>
+                  <TableCell className="text-right">{row.leads > 0 && row.spend > 0 ? formatCurrency(row.costPerLead) : '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {row.qualifiedLeads > 0 && row.spend > 0 ? formatCurrency(row.costPerQualifiedLead) : '—'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(row.wonDeals)}
+                    {row.wonValue > 0 && (
+                      <span className="ml-1 text-xs text-muted-foreground">({formatCurrency(row.wonValue)})</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
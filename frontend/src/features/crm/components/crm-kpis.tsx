@@ -1,19 +1,10 @@
-import { TrendingUp, TrendingDown, Users, Target, MousePointer, DollarSign } from 'lucide-react';
+import { TrendingUp, TrendingDown, Users, Target, MousePointer, BadgeCheck, DollarSign } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatCurrency, formatNumber } from '@/lib/formatters';
+import type { CrmSummary } from '../api';
 
 interface CrmKPIProps {
-  summary: {
-    totalLeads: number;
-    leadsTrend: number;
-    qualifiedLeads: number;
-    qualifiedTrend: number;
-    conversionRate: number;
-    costPerLead: number;
-    cplTrend: number;
-    pipelineValue: number;
-    pipelineTrend: number;
-  };
+  summary: CrmSummary;
 }
 
 export function CrmKPIs({ summary }: CrmKPIProps) {
@@ -37,6 +28,13 @@ export function CrmKPIs({ summary }: CrmKPIProps) {
       icon: <MousePointer className="h-4 w-4 text-muted-foreground" />,
       reverseTrend: true, // Lower CPL is better
     },
+    {
+      title: 'Cost per Qualified Lead',
+      value: formatCurrency(summary.costPerQualifiedLead),
+      trend: summary.cpqlTrend,
+      icon: <BadgeCheck className="h-4 w-4 text-muted-foreground" />,
+      reverseTrend: true,
+    },
     {
       title: 'Pipeline Value',
       value: formatCurrency(summary.pipelineValue),
@@ -46,7 +44,7 @@ export function CrmKPIs({ summary }: CrmKPIProps) {
   ];
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
       {kpis.map((kpi) => {
         const isPositive = kpi.reverseTrend ? kpi.trend < 0 : kpi.trend > 0;
         const trendColor = isPositive ? 'text-green-500' : 'text-red-500';
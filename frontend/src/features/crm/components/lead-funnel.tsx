@@ -0,0 +1,65 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatNumber } from '@/lib/formatters';
+import type { CrmFunnelStage, LeadStage } from '../api';
+
+interface LeadFunnelProps {
+  funnel: CrmFunnelStage[];
+}
+
+const STAGE_LABELS: Record<LeadStage, string> = {
+  NEW: 'New',
+  CONTACTED: 'Contacted',
+  QUALIFIED: 'Qualified',
+  PROPOSAL: 'Proposal',
+  WON: 'Won',
+  LOST: 'Lost',
+};
+
+const STAGE_COLORS: Record<LeadStage, string> = {
+  NEW: 'bg-slate-400',
+  CONTACTED: 'bg-blue-400',
+  QUALIFIED: 'bg-blue-600',
+  PROPOSAL: 'bg-amber-500',
+  WON: 'bg-green-500',
+  LOST: 'bg-red-400',
+};
+
+export function LeadFunnel({ funnel }: LeadFunnelProps) {
+  const hasLeads = funnel.some((stage) => stage.count > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Pipeline Funnel</CardTitle>
+        <p className="text-xs text-muted-foreground">Leads created this period, by furthest stage reached</p>
+      </CardHeader>
+      <CardContent>
+        {!hasLeads ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">No leads in this period.</div>
+        ) : (
+          <div className="space-y-4">
+            {funnel.map((stage, index) => (
+              <div key={stage.stage} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>{STAGE_LABELS[stage.stage]}</span>
+                  <span className="font-medium">
+                    {formatNumber(stage.count)}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {index === 0 ? `${stage.rate.toFixed(0)}%` : `${stage.stepRate.toFixed(1)}% of prev.`}
+                    </span>
+                  </span>
+                </div>
+                <div className="h-2 w-full bg-secondary rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${STAGE_COLORS[stage.stage]}`}
+                    style={{ width: `${Math.min(stage.rate, 100)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,13 +12,10 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatCurrency, formatCompactNumber } from '@/lib/formatters';
 import { format } from 'date-fns';
+import type { PipelineTrend } from '../api';
 
 interface PipelineChartProps {
-  data: Array<{
-    date: string;
-    leads: number;
-    value: number;
-  }>;
+  data: PipelineTrend[];
 }
 
 export function PipelineChart({ data }: PipelineChartProps) {
@@ -71,8 +68,8 @@ export function PipelineChart({ data }: PipelineChartProps) {
                   borderRadius: '12px',
                 }}
                 formatter={(value: number, name: string) => [
-                  name === 'value' ? formatCurrency(value) : value,
-                  name.charAt(0).toUpperCase() + name.slice(1),
+                  name === 'Pipeline Value' ? formatCurrency(value) : value,
+                  name,
                 ]}
               />
               <Legend />
@@ -90,6 +87,13 @@ export function PipelineChart({ data }: PipelineChartProps) {
                 fill="#10b981"
                 radius={[4, 4, 0, 0]}
               />
+              <Bar
+                yAxisId="right"
+                dataKey="qualified"
+                name="Qualified"
+                fill="#f59e0b"
+                radius={[4, 4, 0, 0]}
+              />
             </BarChart>
           </ResponsiveContainer>
         </div>
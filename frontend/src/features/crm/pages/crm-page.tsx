@@ -1,5 +1,7 @@
 import { CrmKPIs } from '../components/crm-kpis';
 import { PipelineChart } from '../components/pipeline-chart';
+import { LeadFunnel } from '../components/lead-funnel';
+import { CampaignLeadsTable } from '../components/campaign-leads-table';
 import { useCrmSummary, useCrmTrends } from '../hooks';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
@@ -35,8 +37,8 @@ export function CrmPage() {
             </div>
 
             {isSummaryLoading ? (
-                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-                    {[...Array(4)].map((_, i) => (
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+                    {[...Array(5)].map((_, i) => (
                         <Skeleton key={i} className="h-32 w-full rounded-xl" />
                     ))}
                 </div>
@@ -62,40 +64,15 @@ export function CrmPage() {
                 </div>
 
                 <div className="col-span-2 space-y-6">
-                    <div className="p-6 border rounded-xl bg-card">
-                        <h3 className="font-semibold mb-4">Lead Distribution</h3>
-                        <div className="space-y-4">
-                            <div className="space-y-2">
-                                <div className="flex justify-between text-sm">
-                                    <span>Hot Leads</span>
-                                    <span className="font-medium">40%</span>
-                                </div>
-                                <div className="h-2 w-full bg-secondary rounded-full overflow-hidden">
-                                    <div className="h-full bg-blue-500 w-[40%]" />
-                                </div>
-                            </div>
-                            <div className="space-y-2">
-                                <div className="flex justify-between text-sm">
-                                    <span>Warm Leads</span>
-                                    <span className="font-medium">35%</span>
-                                </div>
-                                <div className="h-2 w-full bg-secondary rounded-full overflow-hidden">
-                                    <div className="h-full bg-green-500 w-[35%]" />
-                                </div>
-                            </div>
-                            <div className="space-y-2">
-                                <div className="flex justify-between text-sm">
-                                    <span>Cold Leads</span>
-                                    <span className="font-medium">25%</span>
-                                </div>
-                                <div className="h-2 w-full bg-secondary rounded-full overflow-hidden">
-                                    <div className="h-full bg-slate-400 w-[25%]" />
-                                </div>
-                            </div>
-                        </div>
-                    </div>
+                    {isSummaryLoading ? (
+                        <Skeleton className="h-[450px] w-full rounded-xl" />
+                    ) : summary ? (
+                        <LeadFunnel funnel={summary.funnel} />
+                    ) : null}
                 </div>
             </div>
+
+            {summary && <CampaignLeadsTable campaigns={summary.campaigns} />}
         </div>
     );
 }
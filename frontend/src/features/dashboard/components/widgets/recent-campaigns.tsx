@@ -43,6 +43,7 @@ const PLATFORM_NAMES: Record<AdPlatform, string> = {
     GOOGLE_ANALYTICS: 'Analytics',
     SHOPEE: 'Shopee',
     LAZADA: 'Lazada',
+    OFFLINE: 'Offline',
 };
 
 // =============================================================================
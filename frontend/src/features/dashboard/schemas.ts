@@ -32,6 +32,7 @@ export const AdPlatformSchema = z.enum([
     'GOOGLE_ANALYTICS',
     'SHOPEE',
     'LAZADA',
+    'OFFLINE',
 ]);
 export type AdPlatform = z.infer<typeof AdPlatformSchema>;
 
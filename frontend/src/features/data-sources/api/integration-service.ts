@@ -18,6 +18,8 @@ import type {
     AuthUrlResponse,
     CompleteConnectionResponse,
     DisconnectResponse,
+    SearchConsoleSite,
+    IntegrationsSummaryResponse,
 } from '../types';
 
 // ============================================
@@ -30,7 +32,7 @@ interface PlatformRoutes {
     /** Integration base URL (e.g., /integrations/google-ads) */
     integrationBaseUrl: string;
     /** Field name for externalId in complete request */
-    externalIdField: 'customerId' | 'accountId' | 'advertiserId';
+    externalIdField: 'customerId' | 'accountId' | 'advertiserId' | 'shopId' | 'sellerId' | 'siteUrls';
 }
 
 /**
@@ -59,6 +61,21 @@ const PLATFORM_ROUTES: Record<PlatformId, PlatformRoutes> = {
         integrationBaseUrl: '/integrations/line-ads',
         externalIdField: 'accountId', // Placeholder, LINE OAuth not implemented
     },
+    shopee: {
+        authBaseUrl: '/auth/shopee',
+        integrationBaseUrl: '/integrations/shopee',
+        externalIdField: 'shopId',
+    },
+    lazada: {
+        authBaseUrl: '/auth/lazada',
+        integrationBaseUrl: '/integrations/lazada',
+        externalIdField: 'sellerId',
+    },
+    gsc: {
+        authBaseUrl: '/auth/google/search-console',
+        integrationBaseUrl: '/integrations/google-search-console',
+        externalIdField: 'siteUrls', // Several properties can be selected
+    },
 };
 
 // ============================================
@@ -129,18 +146,18 @@ export const integrationService = {
     },
 
     /**
-     * Complete connection with selected account
+     * Complete connection with selected account (or accounts, for multi-select platforms)
      * Normalizes externalId to platform-specific field name
      */
     async completeConnection(
         platform: PlatformId,
         tempToken: string,
-        externalId: string
+        externalId: string | string[]
     ): Promise<CompleteConnectionResponse> {
         const routes = PLATFORM_ROUTES[platform];
 
         // Build request payload with correct field name
-        const payload: Record<string, string> = {
+        const payload: Record<string, string | string[]> = {
             tempToken,
             [routes.externalIdField]: externalId,
         };
@@ -178,12 +195,15 @@ export const integrationService = {
      * Useful for dashboard/overview
      */
     async getAllStatuses(): Promise<Record<PlatformId, IntegrationStatusResponse | null>> {
-        const platforms: PlatformId[] = ['google', 'facebook', 'tiktok', 'line'];
+        const platforms: PlatformId[] = ['google', 'facebook', 'tiktok', 'line', 'shopee', 'lazada', 'gsc'];
         const results: Record<PlatformId, IntegrationStatusResponse | null> = {
             google: null,
             facebook: null,
             tiktok: null,
             line: null,
+            shopee: null,
+            lazada: null,
+            gsc: null,
         };
 
         // Fetch all in parallel, handle individual failures gracefully
@@ -222,6 +242,36 @@ export const integrationService = {
         return response.data;
     },
 
+    /**
+     * Connection summary, including accounts that must be reconnected
+     */
+    async getSummary(): Promise<IntegrationsSummaryResponse> {
+        const response = await apiClient.get<IntegrationsSummaryResponse>('/integrations/summary');
+        return response.data;
+    },
+
+    // ============================================
+    // Platform-Specific Methods (Search Console)
+    // ============================================
+
+    /**
+     * List Search Console properties of the connected Google user
+     */
+    async getSearchConsoleSites(): Promise<SearchConsoleSite[]> {
+        const response = await apiClient.get<SearchConsoleSite[]>(
+            `${PLATFORM_ROUTES.gsc.integrationBaseUrl}/sites`
+        );
+        return response.data;
+    },
+
+    /**
+     * Choose which Search Console properties are synced
+     */
+    async updateSearchConsoleSites(siteUrls: string[]): Promise<{ success: boolean; siteUrls: string[] }> {
+        const response = await apiClient.put(`${PLATFORM_ROUTES.gsc.integrationBaseUrl}/sites`, { siteUrls });
+        return response.data;
+    },
+
     // ============================================
     // Sync Operations
     // ============================================
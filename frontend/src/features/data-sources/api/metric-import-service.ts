@@ -0,0 +1,63 @@
+/**
+ * Metric Import Service
+ *
+ * Offline metric uploads (CSV / XLSX) for channels without a connector:
+ * mapping templates, preview, import and rollback.
+ */
+
+import { apiClient } from '@/services/api-client';
+import type {
+    MetricImportBatch,
+    MetricImportDefaults,
+    MetricImportMapping,
+    MetricImportPreview,
+    MetricImportRequest,
+    MetricImportResult,
+    MetricImportTemplate,
+} from '../types';
+
+/** Multipart body; mapping and defaults travel as JSON fields */
+function toFormData({ file, templateId, mapping, defaults }: MetricImportRequest): FormData {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (templateId) formData.append('templateId', templateId);
+    if (mapping) formData.append('mapping', JSON.stringify(mapping));
+    if (defaults) formData.append('defaults', JSON.stringify(defaults));
+    return formData;
+}
+
+const MULTIPART = { headers: { 'Content-Type': 'multipart/form-data' } };
+
+export const metricImportService = {
+    getTemplates: async (): Promise<MetricImportTemplate[]> => {
+        const response = await apiClient.get('/metric-imports/templates');
+        return response.data;
+    },
+    createTemplate: async (input: {
+        name: string;
+        mapping: MetricImportMapping;
+        defaults?: MetricImportDefaults;
+    }): Promise<MetricImportTemplate> => {
+        const response = await apiClient.post('/metric-imports/templates', input);
+        return response.data;
+    },
+    deleteTemplate: async (id: string): Promise<void> => {
+        await apiClient.delete(`/metric-imports/templates/${id}`);
+    },
+    preview: async (request: MetricImportRequest): Promise<MetricImportPreview> => {
+        const response = await apiClient.post('/metric-imports/preview', toFormData(request), MULTIPART);
+        return response.data;
+    },
+    import: async (request: MetricImportRequest): Promise<MetricImportResult> => {
+        const response = await apiClient.post('/metric-imports', toFormData(request), MULTIPART);
+        return response.data;
+    },
+    getBatches: async (): Promise<MetricImportBatch[]> => {
+        const response = await apiClient.get('/metric-imports');
+        return response.data;
+    },
+    rollback: async (batchId: string): Promise<{ deleted: number; restored: number; campaignsRemoved: number }> => {
+        const response = await apiClient.post(`/metric-imports/${batchId}/rollback`);
+        return response.data;
+    },
+};
@@ -3,6 +3,7 @@
  * 
  * Displays integration status for a single platform.
  * Shows connection state, connected account, and action buttons.
+ * Connected accounts whose token can no longer be refreshed get a reconnect prompt.
  */
 
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -15,8 +16,12 @@ import {
     Unlink,
     RefreshCw,
     ExternalLink,
+    ShoppingBag,
+    Search,
+    Settings2,
+    AlertTriangle,
 } from 'lucide-react';
-import type { PlatformId, IntegrationStatusResponse, PlatformConfig } from '../types';
+import type { PlatformId, IntegrationStatusResponse, PlatformConfig, ReauthRequirement } from '../types';
 import { PLATFORM_CONFIGS } from '../types';
 
 // Platform-specific icons (inline SVGs for better control)
@@ -44,6 +49,26 @@ const PlatformIcons: Record<PlatformId, React.ReactNode> = {
             <path d="M19.365 9.863c.349 0 .63.285.63.631 0 .345-.281.63-.63.63H17.61v1.125h1.755c.349 0 .63.283.63.63 0 .344-.281.629-.63.629h-2.386c-.345 0-.627-.285-.627-.629V8.108c0-.345.282-.63.63-.63h2.386c.346 0 .627.285.627.63 0 .349-.281.63-.63.63H17.61v1.125h1.755zm-3.855 3.016c0 .27-.174.51-.432.596-.064.021-.133.031-.199.031-.211 0-.391-.09-.51-.25l-2.443-3.317v2.94c0 .344-.279.629-.631.629-.346 0-.626-.285-.626-.629V8.108c0-.27.173-.51.43-.595.06-.023.136-.033.194-.033.195 0 .375.105.495.254l2.462 3.33V8.108c0-.345.282-.63.63-.63.345 0 .63.285.63.63v4.771zm-5.741 0c0 .344-.282.629-.631.629-.345 0-.627-.285-.627-.629V8.108c0-.345.282-.63.63-.63.346 0 .628.285.628.63v4.771zm-2.466.629H4.917c-.345 0-.63-.285-.63-.629V8.108c0-.345.285-.63.63-.63.348 0 .63.285.63.63v4.141h1.756c.348 0 .629.283.629.63 0 .344-.282.629-.629.629M24 10.314C24 4.943 18.615.572 12 .572S0 4.943 0 10.314c0 4.811 4.27 8.842 10.035 9.608.391.082.923.258 1.058.59.12.301.079.766.038 1.08l-.164 1.02c-.045.301-.24 1.186 1.049.645 1.291-.539 6.916-4.078 9.436-6.975C23.176 14.393 24 12.458 24 10.314" />
         </svg>
     ),
+    shopee: <ShoppingBag className="h-8 w-8" color="#EE4D2D" />,
+    lazada: <ShoppingBag className="h-8 w-8" color="#0F146D" />,
+    gsc: <Search className="h-8 w-8" color="#458CF5" />,
+};
+
+// Seller/advertiser console opened by "Open Dashboard"
+const PlatformDashboardHosts: Record<PlatformId, string> = {
+    google: 'ads.google.com',
+    facebook: 'business.facebook.com',
+    tiktok: 'ads.tiktok.com',
+    line: 'manager.line.biz',
+    shopee: 'seller.shopee.co.th',
+    lazada: 'sellercenter.lazada.co.th',
+    gsc: 'search.google.com/search-console',
+};
+
+const REAUTH_REASONS: Record<NonNullable<ReauthRequirement['reason']>, string> = {
+    REVOKED: 'Access was revoked on the platform.',
+    SCOPE_MISSING: 'A required permission is missing.',
+    EXPIRED: 'The authorization has expired.',
 };
 
 interface DataSourceCardProps {
@@ -57,8 +82,12 @@ interface DataSourceCardProps {
     onConnect: () => void;
     /** Callback when disconnect button clicked */
     onDisconnect: () => void;
+    /** Callback to change the selected accounts while connected (multi-select platforms) */
+    onManage?: () => void;
     /** Whether connect/disconnect is in progress */
     isPending?: boolean;
+    /** Accounts that must be reconnected (token revoked, expired, ...) */
+    reauthRequired?: ReauthRequirement[];
 }
 
 export function DataSourceCard({
@@ -67,10 +96,13 @@ export function DataSourceCard({
     isLoading = false,
     onConnect,
     onDisconnect,
+    onManage,
     isPending = false,
+    reauthRequired = [],
 }: DataSourceCardProps) {
     const config = PLATFORM_CONFIGS[platform];
     const isConnected = status?.isConnected ?? false;
+    const needsReauth = isConnected && reauthRequired.length > 0;
     const primaryAccount = status?.accounts?.[0];
 
     // Format last sync date
@@ -111,7 +143,7 @@ export function DataSourceCard({
         <Card id={`tutorial-datasource-card-${platform}`} className="relative overflow-hidden">
             {/* Status indicator stripe */}
             <div
-                className={`absolute top-0 left-0 right-0 h-1 ${isConnected ? 'bg-green-500' : 'bg-gray-300'
+                className={`absolute top-0 left-0 right-0 h-1 ${needsReauth ? 'bg-amber-500' : isConnected ? 'bg-green-500' : 'bg-gray-300'
                     }`}
             />
 
@@ -131,9 +163,13 @@ export function DataSourceCard({
                             </CardDescription>
                         </div>
                     </div>
-                    <Badge variant={isConnected ? 'default' : 'secondary'}>
-                        {isConnected ? 'Connected' : 'Not Connected'}
-                    </Badge>
+                    {needsReauth ? (
+                        <Badge variant="destructive">Reconnect Required</Badge>
+                    ) : (
+                        <Badge variant={isConnected ? 'default' : 'secondary'}>
+                            {isConnected ? 'Connected' : 'Not Connected'}
+                        </Badge>
+                    )}
                 </div>
             </CardHeader>
 
@@ -143,9 +179,11 @@ export function DataSourceCard({
                         <div className="flex items-center gap-2">
                             <LinkIcon className="h-4 w-4 text-muted-foreground" />
                             <span className="font-medium">{primaryAccount.name}</span>
-                            <span className="text-muted-foreground">
-                                ({primaryAccount.externalId})
-                            </span>
+                            {primaryAccount.externalId !== primaryAccount.name && (
+                                <span className="text-muted-foreground">
+                                    ({primaryAccount.externalId})
+                                </span>
+                            )}
                         </div>
                         <div className="flex items-center gap-2 text-muted-foreground">
                             <RefreshCw className="h-4 w-4" />
@@ -156,6 +194,14 @@ export function DataSourceCard({
                                 +{status.accounts.length - 1} more account(s)
                             </div>
                         )}
+                        {needsReauth && (
+                            <div className="flex items-start gap-2 text-amber-700">
+                                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                                <span>
+                                    {REAUTH_REASONS[reauthRequired[0].reason ?? 'EXPIRED']} Syncing is paused until you reconnect.
+                                </span>
+                            </div>
+                        )}
                     </div>
                 ) : (
                     <div className="text-sm text-muted-foreground">
@@ -167,6 +213,16 @@ export function DataSourceCard({
             <CardFooter className="gap-2">
                 {isConnected ? (
                     <>
+                        {needsReauth && (
+                            <Button size="sm" onClick={onConnect} disabled={isPending}>
+                                {isPending ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                    <RefreshCw className="mr-2 h-4 w-4" />
+                                )}
+                                Reconnect
+                            </Button>
+                        )}
                         <Button
                             id={`tutorial-datasource-disconnect-btn-${platform}`}
                             variant="outline"
@@ -181,9 +237,15 @@ export function DataSourceCard({
                             )}
                             Disconnect
                         </Button>
+                        {onManage && (
+                            <Button variant="outline" size="sm" onClick={onManage} disabled={isPending}>
+                                <Settings2 className="mr-2 h-4 w-4" />
+                                Properties
+                            </Button>
+                        )}
                         <Button variant="ghost" size="sm" asChild>
                             <a
-                                href={`https://${platform === 'google' ? 'ads.google.com' : platform === 'facebook' ? 'business.facebook.com' : platform === 'tiktok' ? 'ads.tiktok.com' : 'manager.line.biz'}`}
+                                href={`https://${PlatformDashboardHosts[platform]}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                             >
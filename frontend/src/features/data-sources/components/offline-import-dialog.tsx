@@ -0,0 +1,347 @@
+/**
+ * Offline Import Dialog
+ *
+ * Upload a CSV/XLSX file, map its columns to metric fields (or pick a saved
+ * template), check the preview and row errors, then import.
+ */
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatNumber } from '@/lib/formatters';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+    useMetricImportTemplates,
+    usePreviewMetricImport,
+    useRunMetricImport,
+    useSaveMetricImportTemplate,
+} from '../hooks/use-metric-imports';
+import type {
+    MetricImportDateFormat,
+    MetricImportDefaults,
+    MetricImportField,
+    MetricImportMapping,
+    MetricImportPreview,
+} from '../types';
+
+const NONE = '__none__';
+
+const FIELDS: { value: MetricImportField; label: string }[] = [
+    { value: 'date', label: 'Date *' },
+    { value: 'campaign', label: 'Campaign' },
+    { value: 'source', label: 'Channel / source' },
+    { value: 'platform', label: 'Platform' },
+    { value: 'hour', label: 'Hour' },
+    { value: 'impressions', label: 'Impressions / reach' },
+    { value: 'clicks', label: 'Clicks / visits' },
+    { value: 'conversions', label: 'Conversions / leads' },
+    { value: 'spend', label: 'Spend' },
+    { value: 'revenue', label: 'Revenue' },
+    { value: 'orders', label: 'Orders' },
+];
+
+const DATE_FORMATS: MetricImportDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+interface OfflineImportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function OfflineImportDialog({ open, onOpenChange }: OfflineImportDialogProps) {
+    const [file, setFile] = useState<File | null>(null);
+    const [templateId, setTemplateId] = useState<string>(NONE);
+    const [mapping, setMapping] = useState<MetricImportMapping | undefined>();
+    const [defaults, setDefaults] = useState<MetricImportDefaults>({});
+    const [preview, setPreview] = useState<MetricImportPreview | null>(null);
+    const [templateName, setTemplateName] = useState('');
+
+    const templates = useMetricImportTemplates(open);
+    const previewImport = usePreviewMetricImport();
+    const runImport = useRunMetricImport();
+    const saveTemplate = useSaveMetricImportTemplate();
+
+    const reset = () => {
+        setFile(null);
+        setTemplateId(NONE);
+        setMapping(undefined);
+        setDefaults({});
+        setPreview(null);
+        setTemplateName('');
+    };
+
+    const handleOpenChange = (next: boolean) => {
+        onOpenChange(next);
+        if (!next) reset();
+    };
+
+    const request = (overrides: { mapping?: MetricImportMapping; defaults?: MetricImportDefaults } = {}) => ({
+        file: file!,
+        templateId: templateId === NONE ? undefined : templateId,
+        mapping: overrides.mapping ?? mapping,
+        defaults: overrides.defaults ?? (Object.keys(defaults).length > 0 ? defaults : undefined),
+    });
+
+    const runPreview = async (overrides?: { mapping?: MetricImportMapping; defaults?: MetricImportDefaults }) => {
+        if (!file) return;
+        try {
+            const data = await previewImport.mutateAsync(request(overrides));
+            setPreview(data);
+            setMapping(data.mapping);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Could not read the file');
+        }
+    };
+
+    const selectTemplate = (value: string) => {
+        setTemplateId(value);
+        const template = templates.data?.find((t) => t.id === value);
+        // A template replaces whatever was mapped by hand
+        setMapping(template?.mapping);
+        setDefaults(template?.defaults ?? {});
+        setPreview(null);
+    };
+
+    const updateMapping = (field: MetricImportField, header: string) => {
+        const next = { ...mapping };
+        if (header === NONE) delete next[field];
+        else next[field] = header;
+        setMapping(next);
+    };
+
+    const updateDefault = (key: keyof MetricImportDefaults, value: string) => {
+        setDefaults((current) => ({ ...current, [key]: value || undefined }));
+    };
+
+    const handleSaveTemplate = async () => {
+        if (!mapping || !templateName.trim()) return;
+        try {
+            const template = await saveTemplate.mutateAsync({ name: templateName.trim(), mapping, defaults });
+            setTemplateId(template.id);
+            setTemplateName('');
+            toast.success(`Saved template "${template.name}"`);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to save template');
+        }
+    };
+
+    const handleImport = async () => {
+        try {
+            const result = await runImport.mutateAsync(request());
+            toast.success(
+                `Imported ${formatNumber(result.created + result.updated)} rows`
+                + (result.skipped ? `, skipped ${formatNumber(result.skipped)}` : ''),
+            );
+            handleOpenChange(false);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Import failed');
+        }
+    };
+
+    const canImport = !!preview && preview.problems.length === 0 && preview.valid > 0 && !previewImport.isPending;
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import offline data</DialogTitle>
+                    <DialogDescription>
+                        Upload a CSV or Excel file with daily results for a channel we have no connector for.
+                        Re-importing the same rows updates them instead of adding duplicates.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="grid gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="offline-import-file">File</Label>
+                            <Input
+                                id="offline-import-file"
+                                type="file"
+                                accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                                onChange={(e) => {
+                                    setFile(e.target.files?.[0] ?? null);
+                                    setPreview(null);
+                                }}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Template</Label>
+                            <Select value={templateId} onValueChange={selectTemplate}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NONE}>Detect columns</SelectItem>
+                                    {templates.data?.map((template) => (
+                                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    {preview && (
+                        <>
+                            <div className="space-y-2">
+                                <Label>Column mapping</Label>
+                                <div className="grid gap-2 sm:grid-cols-3">
+                                    {FIELDS.map((field) => (
+                                        <div key={field.value} className="space-y-1">
+                                            <span className="text-xs text-muted-foreground">{field.label}</span>
+                                            <Select
+                                                value={mapping?.[field.value] ?? NONE}
+                                                onValueChange={(value) => updateMapping(field.value, value)}
+                                            >
+                                                <SelectTrigger className="h-8 text-xs">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={NONE}>—</SelectItem>
+                                                    {preview.headers.map((header) => (
+                                                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="grid gap-2 sm:grid-cols-3">
+                                <div className="space-y-1">
+                                    <span className="text-xs text-muted-foreground">Default campaign</span>
+                                    <Input
+                                        className="h-8 text-xs"
+                                        value={defaults.campaign ?? ''}
+                                        placeholder="Used when no campaign column"
+                                        onChange={(e) => updateDefault('campaign', e.target.value)}
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <span className="text-xs text-muted-foreground">Default channel</span>
+                                    <Input
+                                        className="h-8 text-xs"
+                                        value={defaults.source ?? ''}
+                                        placeholder="e.g. radio"
+                                        onChange={(e) => updateDefault('source', e.target.value)}
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <span className="text-xs text-muted-foreground">Date format</span>
+                                    <Select
+                                        value={defaults.dateFormat ?? 'YYYY-MM-DD'}
+                                        onValueChange={(value) => updateDefault('dateFormat', value)}
+                                    >
+                                        <SelectTrigger className="h-8 text-xs">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {DATE_FORMATS.map((format) => (
+                                                <SelectItem key={format} value={format}>{format}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+
+                            <div className="rounded-lg border bg-muted/30 p-3 text-sm space-y-1">
+                                <div>
+                                    <span className="font-medium">{formatNumber(preview.valid)}</span> of {formatNumber(preview.total)} rows ready
+                                    {preview.newCampaigns.length > 0 && (
+                                        <span className="text-muted-foreground">
+                                            {' · '}new campaigns: {preview.newCampaigns.slice(0, 5).join(', ')}
+                                            {preview.newCampaigns.length > 5 ? ` +${preview.newCampaigns.length - 5}` : ''}
+                                        </span>
+                                    )}
+                                </div>
+                                {preview.problems.map((problem) => (
+                                    <div key={problem} className="text-red-600">{problem}</div>
+                                ))}
+                                {preview.errors.slice(0, 8).map((error) => (
+                                    <div key={error.row} className="text-xs text-muted-foreground">
+                                        Row {error.row}: {error.message}
+                                    </div>
+                                ))}
+                                {preview.errors.length > 8 && (
+                                    <div className="text-xs text-muted-foreground">…and {preview.errors.length - 8} more</div>
+                                )}
+                            </div>
+
+                            {preview.rows.length > 0 && (
+                                <div className="max-h-48 overflow-auto rounded-lg border">
+                                    <table className="w-full text-xs text-left">
+                                        <thead className="bg-muted/30 sticky top-0">
+                                            <tr className="border-b">
+                                                <th className="h-7 px-3 font-medium text-muted-foreground">Date</th>
+                                                <th className="h-7 px-3 font-medium text-muted-foreground">Campaign</th>
+                                                <th className="h-7 px-3 font-medium text-muted-foreground">Channel</th>
+                                                <th className="h-7 px-3 font-medium text-muted-foreground">Impr.</th>
+                                                <th className="h-7 px-3 font-medium text-muted-foreground">Clicks</th>
+                                                <th className="h-7 px-3 font-medium text-muted-foreground">Conv.</th>
+                                                <th className="h-7 px-3 font-medium text-muted-foreground">Spend</th>
+                                                <th className="h-7 px-3 font-medium text-muted-foreground">Revenue</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {preview.rows.map((row) => (
+                                                <tr key={row.row} className="border-b last:border-0">
+                                                    <td className="px-3 py-1.5">{row.date}</td>
+                                                    <td className="px-3 py-1.5 truncate max-w-[160px]">{row.campaign}</td>
+                                                    <td className="px-3 py-1.5">{row.source}</td>
+                                                    <td className="px-3 py-1.5">{formatNumber(row.impressions)}</td>
+                                                    <td className="px-3 py-1.5">{formatNumber(row.clicks)}</td>
+                                                    <td className="px-3 py-1.5">{formatNumber(row.conversions)}</td>
+                                                    <td className="px-3 py-1.5">{formatNumber(row.spend)}</td>
+                                                    <td className="px-3 py-1.5">{formatNumber(row.revenue)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    className="h-8 text-xs max-w-xs"
+                                    value={templateName}
+                                    placeholder="Template name"
+                                    onChange={(e) => setTemplateName(e.target.value)}
+                                />
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleSaveTemplate}
+                                    disabled={!templateName.trim() || saveTemplate.isPending || preview.problems.length > 0}
+                                >
+                                    Save mapping as template
+                                </Button>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => runPreview()} disabled={!file || previewImport.isPending}>
+                        {previewImport.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {preview ? 'Refresh preview' : 'Preview'}
+                    </Button>
+                    <Button onClick={handleImport} disabled={!canImport || runImport.isPending}>
+                        {runImport.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Import {preview ? formatNumber(preview.valid) : ''} rows
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,152 @@
+/**
+ * Offline Imports Card
+ *
+ * Entry point for CSV/XLSX metric uploads and the history of import batches,
+ * each of which can be rolled back.
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatDate, formatNumber } from '@/lib/formatters';
+import { FileSpreadsheet, Loader2, Undo2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { OfflineImportDialog } from './offline-import-dialog';
+import { useMetricImportBatches, useRollbackMetricImport } from '../hooks/use-metric-imports';
+import type { MetricImportBatch } from '../types';
+
+export function OfflineImportsCard() {
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const [rollbackTarget, setRollbackTarget] = useState<MetricImportBatch | null>(null);
+
+    const { data: batches, isLoading } = useMetricImportBatches();
+    const rollback = useRollbackMetricImport();
+
+    const confirmRollback = async () => {
+        if (!rollbackTarget) return;
+        try {
+            const result = await rollback.mutateAsync(rollbackTarget.id);
+            toast.success(
+                `Rolled back: ${formatNumber(result.deleted)} rows removed, ${formatNumber(result.restored)} restored`,
+            );
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Rollback failed');
+        } finally {
+            setRollbackTarget(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                        <FileSpreadsheet className="h-5 w-5" />
+                        Offline Data
+                    </CardTitle>
+                    <CardDescription>
+                        Upload daily results from channels without a connector (events, print, radio) as CSV or Excel.
+                    </CardDescription>
+                </div>
+                <Button size="sm" onClick={() => setIsImportOpen(true)}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import File
+                </Button>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="flex justify-center py-6">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : !batches?.length ? (
+                    <p className="text-sm text-muted-foreground">No imports yet.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead>
+                                <tr className="border-b">
+                                    <th className="h-9 px-3 font-medium text-muted-foreground">Imported</th>
+                                    <th className="h-9 px-3 font-medium text-muted-foreground">File</th>
+                                    <th className="h-9 px-3 font-medium text-muted-foreground">Rows</th>
+                                    <th className="h-9 px-3 font-medium text-muted-foreground">Status</th>
+                                    <th className="h-9 px-3" />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {batches.map((batch) => (
+                                    <tr key={batch.id} className="border-b last:border-0">
+                                        <td className="px-3 py-2 whitespace-nowrap">{formatDate(batch.createdAt)}</td>
+                                        <td className="px-3 py-2">
+                                            <div className="truncate max-w-[220px]">{batch.fileName ?? '—'}</div>
+                                            {batch.templateName && (
+                                                <div className="text-xs text-muted-foreground">{batch.templateName}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-3 py-2 text-muted-foreground whitespace-nowrap">
+                                            {formatNumber(batch.createdRows)} new · {formatNumber(batch.updatedRows)} updated
+                                            {batch.skippedRows > 0 && ` · ${formatNumber(batch.skippedRows)} skipped`}
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            {batch.status === 'rolled_back' ? (
+                                                <Badge variant="secondary">Rolled back</Badge>
+                                            ) : (
+                                                <Badge variant="outline">Completed</Badge>
+                                            )}
+                                        </td>
+                                        <td className="px-3 py-2 text-right">
+                                            {batch.status === 'completed' && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => setRollbackTarget(batch)}
+                                                    disabled={rollback.isPending}
+                                                >
+                                                    <Undo2 className="mr-1 h-4 w-4" />
+                                                    Roll back
+                                                </Button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </CardContent>
+
+            <OfflineImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+            <AlertDialog open={!!rollbackTarget} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            Rows added by {rollbackTarget?.fileName ?? 'this import'} are deleted and rows it overwrote
+                            get their previous values back. Campaigns it created are removed if nothing else uses them.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={confirmRollback}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                            Roll back
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </Card>
+    );
+}
@@ -0,0 +1,133 @@
+/**
+ * Site Selection Dialog
+ *
+ * Modal for choosing several Search Console properties, after the OAuth callback
+ * or later from the connected card. Shows the available properties with checkboxes.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import type { TempAccount } from '../types';
+
+interface SiteSelectionDialogProps {
+    /** Whether dialog is open */
+    isOpen: boolean;
+    /** Callback when open state changes */
+    onOpenChange: (open: boolean) => void;
+    /** Properties available to the connected user (id = site URL) */
+    sites: TempAccount[];
+    /** Properties checked when the dialog opens */
+    initialSelected?: string[];
+    /** Callback when user confirms selection */
+    onConfirm: (siteUrls: string[]) => void;
+    /** Whether the list is loading */
+    isLoading?: boolean;
+    /** Whether confirmation is in progress */
+    isPending?: boolean;
+    /** Confirm button label */
+    confirmLabel?: string;
+}
+
+export function SiteSelectionDialog({
+    isOpen,
+    onOpenChange,
+    sites,
+    initialSelected = [],
+    onConfirm,
+    isLoading = false,
+    isPending = false,
+    confirmLabel = 'Connect Properties',
+}: SiteSelectionDialogProps) {
+    const [selected, setSelected] = useState<string[]>(initialSelected);
+
+    // Reset to the current selection whenever the dialog opens or the list loads
+    useEffect(() => {
+        if (isOpen) setSelected(initialSelected);
+    }, [isOpen, initialSelected.join('|')]);
+
+    const toggle = (siteUrl: string, checked: boolean) => {
+        setSelected((prev) =>
+            checked ? [...prev, siteUrl] : prev.filter((url) => url !== siteUrl)
+        );
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Select Search Console Properties</DialogTitle>
+                    <DialogDescription>
+                        Choose the sites to sync. You can change this later from the data source card.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="py-4 max-h-80 overflow-y-auto">
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : sites.length === 0 ? (
+                        <div className="text-center py-8 text-muted-foreground">
+                            No properties found. Please check your Search Console permissions.
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {sites.map((site) => (
+                                <div
+                                    key={site.id}
+                                    className="flex items-center space-x-3 rounded-lg border p-4 hover:bg-muted/50 transition-colors"
+                                >
+                                    <Checkbox
+                                        id={`gsc-site-${site.id}`}
+                                        checked={selected.includes(site.id)}
+                                        onCheckedChange={(checked) => toggle(site.id, checked === true)}
+                                    />
+                                    <Label htmlFor={`gsc-site-${site.id}`} className="flex-1 cursor-pointer">
+                                        <div className="font-medium break-all">{site.name}</div>
+                                        {site.status && (
+                                            <div className="text-sm text-muted-foreground">{site.status}</div>
+                                        )}
+                                    </Label>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={() => onConfirm(selected)}
+                        disabled={selected.length === 0 || isPending}
+                    >
+                        {isPending ? (
+                            <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Saving...
+                            </>
+                        ) : (
+                            `${confirmLabel} (${selected.length})`
+                        )}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -8,6 +8,7 @@
  * - Handling OAuth callback (detect URL params, fetch accounts)
  * - Completing connection with selected account
  * - Disconnecting integrations
+ * - Accounts that must be reconnected (`?reconnect=<platform>` starts the flow)
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -21,6 +22,7 @@ import type {
     PlatformId,
     IntegrationStatusResponse,
     TempAccount,
+    ReauthRequirement,
 } from '../types';
 import { PLATFORM_CONFIGS } from '../types';
 
@@ -32,6 +34,18 @@ export const integrationQueryKeys = {
     all: ['integrations'] as const,
     status: (tenantId: string | undefined, platform: PlatformId) => ['integrations', tenantId, 'status', platform] as const,
     allStatuses: (tenantId: string | undefined) => ['integrations', tenantId, 'statuses', 'all'] as const,
+    summary: (tenantId: string | undefined) => ['integrations', tenantId, 'summary'] as const,
+};
+
+// Backend AdPlatform -> data-sources platform
+const BACKEND_PLATFORM_IDS: Record<string, PlatformId> = {
+    GOOGLE_ADS: 'google',
+    FACEBOOK: 'facebook',
+    TIKTOK: 'tiktok',
+    LINE_ADS: 'line',
+    SHOPEE: 'shopee',
+    LAZADA: 'lazada',
+    SEARCH_CONSOLE: 'gsc',
 };
 
 // ============================================
@@ -76,6 +90,16 @@ export function useIntegrationAuth() {
         refetchOnWindowFocus: true,
     });
 
+    // ============================================
+    // Accounts Needing Re-auth
+    // ============================================
+    const { data: summary } = useQuery({
+        queryKey: integrationQueryKeys.summary(tenantId),
+        queryFn: () => integrationService.getSummary(),
+        staleTime: 30000,
+        refetchOnWindowFocus: true,
+    });
+
     // ============================================
     // Handle OAuth Callback (URL Detection)
     // ============================================
@@ -131,7 +155,8 @@ export function useIntegrationAuth() {
 
             // If only one account, auto-connect
             if (accounts.length === 1) {
-                await handleCompleteConnection(platform, tempToken, accounts[0].id);
+                const only = accounts[0].id;
+                await handleCompleteConnection(platform, tempToken, PLATFORM_CONFIGS[platform].multiSelect ? [only] : only);
                 return;
             }
 
@@ -159,7 +184,7 @@ export function useIntegrationAuth() {
         }: {
             platform: PlatformId;
             tempToken: string;
-            externalId: string;
+            externalId: string | string[];
         }) => {
             return integrationService.completeConnection(platform, tempToken, externalId);
         },
@@ -177,6 +202,7 @@ export function useIntegrationAuth() {
 
             // Refresh statuses
             queryClient.invalidateQueries({ queryKey: integrationQueryKeys.allStatuses(tenantId) });
+            queryClient.invalidateQueries({ queryKey: integrationQueryKeys.summary(tenantId) });
 
             // Refresh dashboard data (demo -> live switch)
             queryClient.invalidateQueries({ queryKey: dashboardKeys.overview() });
@@ -190,7 +216,7 @@ export function useIntegrationAuth() {
     const handleCompleteConnection = async (
         platform: PlatformId,
         tempToken: string,
-        externalId: string
+        externalId: string | string[]
     ) => {
         await completeConnectionMutation.mutateAsync({ platform, tempToken, externalId });
     };
@@ -211,6 +237,7 @@ export function useIntegrationAuth() {
                     const result = await integrationService.connectTikTokSandbox();
                     toast.success('TikTok Sandbox connected successfully!');
                     queryClient.invalidateQueries({ queryKey: integrationQueryKeys.allStatuses(tenantId) });
+                    queryClient.invalidateQueries({ queryKey: integrationQueryKeys.summary(tenantId) });
                     setPendingPlatform(null);
                     return;
                 }
@@ -239,6 +266,25 @@ export function useIntegrationAuth() {
         }
     }, [queryClient]);
 
+    // ============================================
+    // Reconnect Link (?reconnect=<platform> from re-auth notices)
+    // ============================================
+    useEffect(() => {
+        const searchParams = new URLSearchParams(window.location.search);
+        const requested = searchParams.get('reconnect');
+        if (!requested) {
+            return;
+        }
+
+        // Clean URL so a refresh does not start another OAuth flow
+        window.history.replaceState({}, '', '/data-sources');
+
+        const platform = normalizePlatformId(requested);
+        if (platform) {
+            handleConnect(platform);
+        }
+    }, [handleConnect]);
+
     // ============================================
     // Disconnect Mutation
     // ============================================
@@ -249,6 +295,7 @@ export function useIntegrationAuth() {
         onSuccess: (data, platform) => {
             toast.success(`${PLATFORM_CONFIGS[platform].name} disconnected`);
             queryClient.invalidateQueries({ queryKey: integrationQueryKeys.allStatuses(tenantId) });
+            queryClient.invalidateQueries({ queryKey: integrationQueryKeys.summary(tenantId) });
 
             // Refresh dashboard data (live -> demo switch)
             queryClient.invalidateQueries({ queryKey: dashboardKeys.overview() });
@@ -279,7 +326,7 @@ export function useIntegrationAuth() {
         });
     }, []);
 
-    const confirmAccountSelection = useCallback((accountId: string) => {
+    const confirmAccountSelection = useCallback((accountId: string | string[]) => {
         if (callbackState.platform && callbackState.tempToken) {
             handleCompleteConnection(
                 callbackState.platform,
@@ -303,6 +350,11 @@ export function useIntegrationAuth() {
             return statuses?.[platform] ?? null;
         },
 
+        // Accounts of a platform whose token must be renewed by reconnecting
+        getReauthRequired: (platform: PlatformId): ReauthRequirement[] => {
+            return (summary?.reauthRequired ?? []).filter((r) => BACKEND_PLATFORM_IDS[r.platform] === platform);
+        },
+
         // Actions
         handleConnect,
         handleDisconnect,
@@ -315,6 +367,7 @@ export function useIntegrationAuth() {
         accountSelectionDialog: {
             isOpen: callbackState.isDialogOpen,
             platform: callbackState.platform,
+            multiSelect: !!(callbackState.platform && PLATFORM_CONFIGS[callbackState.platform].multiSelect),
             accounts: callbackState.tempAccounts,
             onOpenChange: (open: boolean) => {
                 if (!open) closeDialog();
@@ -339,6 +392,9 @@ function normalizePlatformId(platform: string): PlatformId | null {
         'facebook': 'facebook',
         'tiktok': 'tiktok',
         'line': 'line',
+        'shopee': 'shopee',
+        'lazada': 'lazada',
+        'gsc': 'gsc',
     };
     return map[platform.toLowerCase()] ?? null;
 }
@@ -0,0 +1,66 @@
+/**
+ * Metric Import Hooks
+ *
+ * Templates, preview/import and batch history for offline metric uploads.
+ * Imports and rollbacks change campaign metrics, so every cached query is refreshed.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { metricImportService } from '../api/metric-import-service';
+import type { MetricImportDefaults, MetricImportMapping, MetricImportRequest } from '../types';
+import { useAuthStore, selectUser } from '@/stores/auth-store';
+
+export const metricImportQueryKeys = {
+    all: (tenantId: string | undefined) => ['metric-imports', tenantId] as const,
+    templates: (tenantId: string | undefined) => [...metricImportQueryKeys.all(tenantId), 'templates'] as const,
+    batches: (tenantId: string | undefined) => [...metricImportQueryKeys.all(tenantId), 'batches'] as const,
+};
+
+export function useMetricImportTemplates(enabled = true) {
+    const tenantId = useAuthStore(selectUser)?.tenantId;
+    return useQuery({
+        queryKey: metricImportQueryKeys.templates(tenantId),
+        queryFn: metricImportService.getTemplates,
+        enabled,
+    });
+}
+
+export function useMetricImportBatches() {
+    const tenantId = useAuthStore(selectUser)?.tenantId;
+    return useQuery({
+        queryKey: metricImportQueryKeys.batches(tenantId),
+        queryFn: metricImportService.getBatches,
+    });
+}
+
+export function useSaveMetricImportTemplate() {
+    const queryClient = useQueryClient();
+    const tenantId = useAuthStore(selectUser)?.tenantId;
+    return useMutation({
+        mutationFn: (input: { name: string; mapping: MetricImportMapping; defaults?: MetricImportDefaults }) =>
+            metricImportService.createTemplate(input),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: metricImportQueryKeys.templates(tenantId) }),
+    });
+}
+
+export function usePreviewMetricImport() {
+    return useMutation({
+        mutationFn: (request: MetricImportRequest) => metricImportService.preview(request),
+    });
+}
+
+export function useRunMetricImport() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (request: MetricImportRequest) => metricImportService.import(request),
+        onSuccess: () => queryClient.invalidateQueries(),
+    });
+}
+
+export function useRollbackMetricImport() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (batchId: string) => metricImportService.rollback(batchId),
+        onSuccess: () => queryClient.invalidateQueries(),
+    });
+}
@@ -0,0 +1,45 @@
+/**
+ * Search Console Sites Hook
+ *
+ * Lists the properties of the connected Google user and updates which ones are synced.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { integrationService } from '../api/integration-service';
+import { integrationQueryKeys } from './use-integration-auth';
+import { useAuthStore, selectUser } from '@/stores/auth-store';
+
+export const searchConsoleQueryKeys = {
+    sites: (tenantId: string | undefined) => ['integrations', tenantId, 'gsc', 'sites'] as const,
+};
+
+export function useSearchConsoleSites(enabled: boolean) {
+    const queryClient = useQueryClient();
+    const tenantId = useAuthStore(selectUser)?.tenantId;
+
+    const sitesQuery = useQuery({
+        queryKey: searchConsoleQueryKeys.sites(tenantId),
+        queryFn: () => integrationService.getSearchConsoleSites(),
+        enabled,
+    });
+
+    const updateMutation = useMutation({
+        mutationFn: (siteUrls: string[]) => integrationService.updateSearchConsoleSites(siteUrls),
+        onSuccess: (data) => {
+            toast.success(`Syncing ${data.siteUrls.length} Search Console propert${data.siteUrls.length === 1 ? 'y' : 'ies'}`);
+            queryClient.invalidateQueries({ queryKey: searchConsoleQueryKeys.sites(tenantId) });
+            queryClient.invalidateQueries({ queryKey: integrationQueryKeys.allStatuses(tenantId) });
+        },
+        onError: (error: Error) => {
+            toast.error(`Failed to update Search Console properties: ${error.message}`);
+        },
+    });
+
+    return {
+        sites: sitesQuery.data ?? [],
+        isLoading: sitesQuery.isLoading,
+        updateSites: updateMutation.mutateAsync,
+        isUpdating: updateMutation.isPending,
+    };
+}
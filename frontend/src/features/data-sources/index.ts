@@ -7,13 +7,27 @@ export * from './types';
 
 // API Services
 export { integrationService, parseOAuthCallback, isOAuthCallback } from './api/integration-service';
+export { metricImportService } from './api/metric-import-service';
 
 // Hooks
 export { useIntegrationAuth, integrationQueryKeys } from './hooks/use-integration-auth';
+export { useSearchConsoleSites, searchConsoleQueryKeys } from './hooks/use-search-console-sites';
+export {
+    useMetricImportTemplates,
+    useMetricImportBatches,
+    useSaveMetricImportTemplate,
+    usePreviewMetricImport,
+    useRunMetricImport,
+    useRollbackMetricImport,
+    metricImportQueryKeys,
+} from './hooks/use-metric-imports';
 
 // Components
 export { AccountSelectionDialog } from './components/account-selection-dialog';
+export { SiteSelectionDialog } from './components/site-selection-dialog';
 export { DataSourceCard } from './components/data-source-card';
+export { OfflineImportDialog } from './components/offline-import-dialog';
+export { OfflineImportsCard } from './components/offline-imports-card';
 
 // Pages
 export { default as DataSourcesPage } from './pages/data-sources-page';
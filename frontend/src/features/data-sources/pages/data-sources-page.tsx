@@ -9,7 +9,10 @@
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { DataSourceCard } from '../components/data-source-card';
 import { AccountSelectionDialog } from '../components/account-selection-dialog';
+import { SiteSelectionDialog } from '../components/site-selection-dialog';
+import { OfflineImportsCard } from '../components/offline-imports-card';
 import { useIntegrationAuth } from '../hooks/use-integration-auth';
+import { useSearchConsoleSites } from '../hooks/use-search-console-sites';
 import { PLATFORM_CONFIGS, type PlatformId } from '../types';
 import {
     AlertDialog,
@@ -24,13 +27,14 @@ import {
 import { useState } from 'react';
 
 // Platforms to display (in order)
-const DISPLAY_PLATFORMS: PlatformId[] = ['google', 'facebook', 'tiktok'];
+const DISPLAY_PLATFORMS: PlatformId[] = ['google', 'facebook', 'tiktok', 'shopee', 'lazada', 'gsc'];
 
 export default function DataSourcesPage() {
     const {
         statuses,
         isLoadingStatuses,
         getStatus,
+        getReauthRequired,
         handleConnect,
         handleDisconnect,
         isPending,
@@ -46,6 +50,15 @@ export default function DataSourcesPage() {
         platform: null,
     });
 
+    // Search Console property management (connected card)
+    const [isManagingSites, setIsManagingSites] = useState(false);
+    const searchConsole = useSearchConsoleSites(isManagingSites);
+
+    const saveSites = async (siteUrls: string[]) => {
+        await searchConsole.updateSites(siteUrls);
+        setIsManagingSites(false);
+    };
+
     const openDisconnectConfirm = (platform: PlatformId) => {
         setDisconnectConfirm({ isOpen: true, platform });
     };
@@ -84,11 +97,16 @@ export default function DataSourcesPage() {
                             isLoading={isLoadingStatuses}
                             onConnect={() => handleConnect(platform)}
                             onDisconnect={() => openDisconnectConfirm(platform)}
+                            onManage={platform === 'gsc' ? () => setIsManagingSites(true) : undefined}
                             isPending={isPending(platform)}
+                            reauthRequired={getReauthRequired(platform)}
                         />
                     ))}
                 </div>
 
+                {/* Offline Data (CSV/XLSX uploads) */}
+                <OfflineImportsCard />
+
                 {/* Info Section */}
                 <div id="tutorial-datasources-help" className="rounded-lg border bg-muted/50 p-4">
                     <h3 className="font-medium mb-2">Need Help?</h3>
@@ -102,7 +120,7 @@ export default function DataSourcesPage() {
 
             {/* Account Selection Dialog */}
             <AccountSelectionDialog
-                isOpen={accountSelectionDialog.isOpen}
+                isOpen={accountSelectionDialog.isOpen && !accountSelectionDialog.multiSelect}
                 onOpenChange={accountSelectionDialog.onOpenChange}
                 accounts={accountSelectionDialog.accounts}
                 onConfirm={accountSelectionDialog.onConfirm}
@@ -114,6 +132,31 @@ export default function DataSourcesPage() {
                 }
             />
 
+            {/* Property Selection Dialog (Search Console, after OAuth) */}
+            <SiteSelectionDialog
+                isOpen={accountSelectionDialog.isOpen && accountSelectionDialog.multiSelect}
+                onOpenChange={accountSelectionDialog.onOpenChange}
+                sites={accountSelectionDialog.accounts}
+                onConfirm={accountSelectionDialog.onConfirm}
+                isPending={accountSelectionDialog.isPending}
+            />
+
+            {/* Property Selection Dialog (Search Console, connected) */}
+            <SiteSelectionDialog
+                isOpen={isManagingSites}
+                onOpenChange={setIsManagingSites}
+                sites={searchConsole.sites.map((site) => ({
+                    id: site.siteUrl,
+                    name: site.siteUrl,
+                    status: site.permissionLevel,
+                }))}
+                initialSelected={searchConsole.sites.filter((site) => site.selected).map((site) => site.siteUrl)}
+                onConfirm={saveSites}
+                isLoading={searchConsole.isLoading}
+                isPending={searchConsole.isUpdating}
+                confirmLabel="Save Properties"
+            />
+
             {/* Disconnect Confirmation Dialog */}
             <AlertDialog
                 open={disconnectConfirm.isOpen}
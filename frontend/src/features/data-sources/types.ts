@@ -12,7 +12,7 @@
 /**
  * Supported integration platforms
  */
-export type PlatformId = 'google' | 'facebook' | 'tiktok' | 'line';
+export type PlatformId = 'google' | 'facebook' | 'tiktok' | 'line' | 'shopee' | 'lazada' | 'gsc';
 
 /**
  * Platform display configuration
@@ -23,6 +23,8 @@ export interface PlatformConfig {
     icon: string;
     description: string;
     color: string;
+    /** Several accounts (e.g. Search Console properties) can be selected at once */
+    multiSelect?: boolean;
 }
 
 /**
@@ -57,6 +59,28 @@ export const PLATFORM_CONFIGS: Record<PlatformId, PlatformConfig> = {
         description: 'Connect your LINE Ads account to sync campaigns',
         color: '#00C300',
     },
+    shopee: {
+        id: 'shopee',
+        name: 'Shopee',
+        icon: 'shopee',
+        description: 'Connect your Shopee shop to sync ads, orders and sales',
+        color: '#EE4D2D',
+    },
+    lazada: {
+        id: 'lazada',
+        name: 'Lazada',
+        icon: 'lazada',
+        description: 'Connect your Lazada seller account to sync ads, orders and sales',
+        color: '#0F146D',
+    },
+    gsc: {
+        id: 'gsc',
+        name: 'Google Search Console',
+        icon: 'gsc',
+        description: 'Connect Search Console to sync organic queries and pages for your sites',
+        color: '#458CF5',
+        multiSelect: true,
+    },
 };
 
 // ============================================
@@ -108,6 +132,30 @@ export interface IntegrationStatusResponse {
     accounts: IntegrationAccount[];
 }
 
+/**
+ * Connected account whose token can no longer be refreshed
+ * (from GET /integrations/summary)
+ */
+export interface ReauthRequirement {
+    /** Backend platform enum (GOOGLE_ADS, FACEBOOK, ...) */
+    platform: string;
+    accountId: string;
+    reason: 'REVOKED' | 'SCOPE_MISSING' | 'EXPIRED' | null;
+    message: string | null;
+    failedAt: string;
+    /** Data-sources path that starts the reconnect */
+    reconnectUrl: string;
+}
+
+/**
+ * Integrations summary response
+ */
+export interface IntegrationsSummaryResponse {
+    hasAnyConnected: boolean;
+    connectedPlatforms: string[];
+    reauthRequired: ReauthRequirement[];
+}
+
 /**
  * Auth URL response (varies by platform)
  */
@@ -133,6 +181,16 @@ export interface CompleteConnectionResponse {
     accountName?: string;
 }
 
+/**
+ * Search Console property available to the connected Google user
+ */
+export interface SearchConsoleSite {
+    siteUrl: string;
+    permissionLevel: string;
+    /** Whether the property is synced */
+    selected: boolean;
+}
+
 /**
  * Disconnect response
  */
@@ -165,3 +223,102 @@ export interface OAuthFlowState {
     tempAccounts: TempAccount[];
     error: string | null;
 }
+
+// ============================================
+// Offline Metric Imports
+// ============================================
+
+export type MetricImportField =
+    | 'date'
+    | 'hour'
+    | 'campaign'
+    | 'platform'
+    | 'source'
+    | 'impressions'
+    | 'clicks'
+    | 'conversions'
+    | 'spend'
+    | 'revenue'
+    | 'orders';
+
+/** Metric field → column header in the uploaded file */
+export type MetricImportMapping = Partial<Record<MetricImportField, string>>;
+
+export type MetricImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface MetricImportDefaults {
+    platform?: string;
+    source?: string;
+    campaign?: string;
+    currency?: string;
+    dateFormat?: MetricImportDateFormat;
+}
+
+export interface MetricImportTemplate {
+    id: string;
+    name: string;
+    mapping: MetricImportMapping;
+    defaults: MetricImportDefaults | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface MetricImportRowError {
+    row: number;
+    message: string;
+}
+
+export interface MetricImportPreview {
+    headers: string[];
+    mapping: MetricImportMapping;
+    problems: string[];
+    total: number;
+    valid: number;
+    newCampaigns: string[];
+    rows: {
+        row: number;
+        date: string;
+        hour: number;
+        campaign: string;
+        platform: string;
+        source: string;
+        impressions: number;
+        clicks: number;
+        conversions: number;
+        spend: number;
+        revenue: number;
+        orders: number;
+    }[];
+    errors: MetricImportRowError[];
+}
+
+export interface MetricImportResult {
+    batchId: string;
+    total: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    campaignsCreated: number;
+    errors: MetricImportRowError[];
+}
+
+export interface MetricImportBatch {
+    id: string;
+    fileName: string | null;
+    templateName: string | null;
+    status: 'completed' | 'rolled_back';
+    totalRows: number;
+    createdRows: number;
+    updatedRows: number;
+    skippedRows: number;
+    campaignsCreated: number;
+    createdAt: string;
+    rolledBackAt: string | null;
+}
+
+export interface MetricImportRequest {
+    file: File;
+    templateId?: string;
+    mapping?: MetricImportMapping;
+    defaults?: MetricImportDefaults;
+}
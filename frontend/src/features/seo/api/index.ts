@@ -1,7 +1,19 @@
 // SEO API Service exports
 import { apiClient } from '@/services/api-client';
 
-import { SeoMetricSummary } from '../types';
+import {
+    CreateTrackedKeywordsInput,
+    KeywordMoversResponse,
+    OffpageImportResult,
+    OffpageImportType,
+    SeoMetricSummary,
+    SeoOpportunityQuery,
+    SeoOpportunityReport,
+    SeoOpportunityResponse,
+    SeoOpportunityRows,
+    TrackedKeywordQuery,
+    TrackedKeywordsResponse,
+} from '../types';
 
 export const SeoService = {
     getSummary: async (): Promise<SeoMetricSummary> => {
@@ -40,6 +52,53 @@ export const SeoService = {
     getAiInsights: async (): Promise<{ id: string, type: string, source: string, title: string, message: string, payload: any, status: string, occurredAt: string, createdAt: string, updatedAt: string }[]> => {
         const response = await apiClient.get('/seo/ai-insights');
         return response.data;
+    },
+    getTrackedKeywords: async (params?: TrackedKeywordQuery): Promise<TrackedKeywordsResponse> => {
+        const response = await apiClient.get('/seo/keywords/tracked', { params });
+        return response.data;
+    },
+    getKeywordMovers: async (params?: TrackedKeywordQuery): Promise<KeywordMoversResponse> => {
+        const response = await apiClient.get('/seo/keywords/tracked/movers', { params });
+        return response.data;
+    },
+    getStrikingDistance: async (params?: TrackedKeywordQuery): Promise<TrackedKeywordsResponse> => {
+        const response = await apiClient.get('/seo/keywords/tracked/striking-distance', { params });
+        return response.data;
+    },
+    getLostKeywords: async (params?: TrackedKeywordQuery): Promise<TrackedKeywordsResponse> => {
+        const response = await apiClient.get('/seo/keywords/tracked/lost', { params });
+        return response.data;
+    },
+    addTrackedKeywords: async (input: CreateTrackedKeywordsInput): Promise<{ created: number, skipped: number }> => {
+        const response = await apiClient.post('/seo/keywords/tracked', input);
+        return response.data;
+    },
+    deleteTrackedKeyword: async (id: string): Promise<void> => {
+        await apiClient.delete(`/seo/keywords/tracked/${id}`);
+    },
+    importOffpageCsv: async (type: OffpageImportType, file: File, date?: string): Promise<OffpageImportResult> => {
+        const formData = new FormData();
+        formData.append('type', type);
+        formData.append('file', file);
+        if (date) formData.append('date', date);
+        const response = await apiClient.post('/seo/offpage/import', formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return response.data;
+    },
+    getOpportunities: async <R extends SeoOpportunityReport>(
+        report: R,
+        params?: SeoOpportunityQuery,
+    ): Promise<SeoOpportunityResponse<SeoOpportunityRows[R]>> => {
+        const response = await apiClient.get(`/seo/opportunities/${report}`, { params });
+        return response.data;
+    },
+    exportOpportunities: async (report: SeoOpportunityReport, params?: SeoOpportunityQuery): Promise<Blob> => {
+        const response = await apiClient.get(`/seo/opportunities/${report}/export`, {
+            params,
+            responseType: 'blob',
+        });
+        return response.data;
     }
 };
 
@@ -3,3 +3,6 @@ export * from './seo-premium-cards';
 export * from './traffic-by-location';
 export * from './seo-performance-chart';
 export * from './organic-keywords-by-intent';
+export * from './tracked-keywords-table';
+export * from './offpage-import-dialog';
+export * from './seo-opportunities';
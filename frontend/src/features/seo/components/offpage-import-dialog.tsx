@@ -0,0 +1,142 @@
+import { useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useImportOffpageCsv } from "../hooks";
+import { OffpageImportResult, OffpageImportType } from "../types";
+
+const IMPORT_TYPES: { value: OffpageImportType; label: string }[] = [
+    { value: 'backlinks', label: 'Backlinks' },
+    { value: 'referring_domains', label: 'Referring domains' },
+    { value: 'anchors', label: 'Anchors' },
+    { value: 'overview', label: 'Overview' },
+];
+
+interface OffpageImportDialogProps {
+    /** Called after a successful import so off-page widgets can reload */
+    onImported?: (result: OffpageImportResult) => void;
+}
+
+export function OffpageImportDialog({ onImported }: OffpageImportDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [type, setType] = useState<OffpageImportType>('backlinks');
+    const [file, setFile] = useState<File | null>(null);
+    const [date, setDate] = useState('');
+    const [result, setResult] = useState<OffpageImportResult | null>(null);
+    const importCsv = useImportOffpageCsv();
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (!next) {
+            setFile(null);
+            setResult(null);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!file) return;
+        try {
+            const data = await importCsv.mutateAsync({ type, file, date: date || undefined });
+            setResult(data);
+            toast.success(`Imported ${data.imported} rows from ${data.source === 'unknown' ? 'CSV' : data.source}`);
+            onImported?.(data);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Import failed');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import Ahrefs / Semrush CSV
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Import off-page data</DialogTitle>
+                    <DialogDescription>
+                        Upload a full export. Backlinks and referring domains missing from a new export are counted as lost.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label>Export type</Label>
+                        <Select value={type} onValueChange={(value) => setType(value as OffpageImportType)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {IMPORT_TYPES.map((item) => (
+                                    <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="offpage-import-file">CSV file</Label>
+                        <Input
+                            id="offpage-import-file"
+                            type="file"
+                            accept=".csv,.txt,text/csv"
+                            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="offpage-import-date">Snapshot date (optional)</Label>
+                        <Input
+                            id="offpage-import-date"
+                            type="date"
+                            value={date}
+                            onChange={(e) => setDate(e.target.value)}
+                        />
+                    </div>
+
+                    {result && (
+                        <div className="rounded-lg border bg-muted/30 p-3 text-sm space-y-1">
+                            <div>
+                                {result.imported} imported · {result.duplicates} duplicates · {result.skipped} skipped
+                            </div>
+                            {(result.type === 'backlinks' || result.type === 'referring_domains') && (
+                                <div>
+                                    <span className="text-green-600 font-medium">+{result.new} new</span>
+                                    {' · '}
+                                    <span className="text-red-600 font-medium">-{result.lost} lost</span>
+                                </div>
+                            )}
+                            {result.errors.slice(0, 5).map((error) => (
+                                <div key={error.row} className="text-xs text-muted-foreground">
+                                    Row {error.row}: {error.message}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importCsv.isPending}>
+                        Close
+                    </Button>
+                    <Button onClick={handleImport} disabled={!file || importCsv.isPending}>
+                        {importCsv.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Import
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,256 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { downloadBlob } from "@/hooks/use-file-download";
+import { formatCompactNumber, formatPercentage } from "@/lib/formatters";
+import { Download, Loader2 } from "lucide-react";
+import { ComponentType, ReactNode, useState } from "react";
+import { toast } from "sonner";
+import { SeoService } from "../api";
+import { useSeoOpportunities } from "../hooks";
+import { SeoOpportunityReport } from "../types";
+
+const REPORTS: { value: SeoOpportunityReport; label: string; empty: string }[] = [
+    { value: 'cannibalisation', label: 'Cannibalisation', empty: 'No queries split between several pages.' },
+    { value: 'low-ctr', label: 'Low CTR', empty: 'Every page earns the CTR its position usually gets.' },
+    { value: 'ctr-decline', label: 'CTR decline', empty: 'No page lost CTR at a stable position.' },
+    { value: 'page-trends', label: 'Page trends', empty: 'Not enough page data for this period.' },
+];
+
+const ctr = (value: number) => `${(value * 100).toFixed(1)}%`;
+const path = (url: string) => {
+    try {
+        const { pathname, search } = new URL(url);
+        return `${pathname}${search}`;
+    } catch {
+        return url;
+    }
+};
+
+const Th = ({ children, className = '' }: { children?: ReactNode; className?: string }) => (
+    <th className={`h-8 px-4 text-left align-middle font-medium text-muted-foreground ${className}`}>{children}</th>
+);
+const Td = ({ children, className = '' }: { children?: ReactNode; className?: string }) => (
+    <td className={`p-2 px-4 align-middle text-gray-700 ${className}`}>{children}</td>
+);
+const PageCell = ({ url }: { url: string }) => (
+    <Td>
+        <span className="block truncate max-w-[280px] text-blue-600" title={url}>{path(url)}</span>
+    </Td>
+);
+const Signed = ({ value }: { value: number }) => (
+    <span className={value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-muted-foreground'}>
+        {value > 0 ? '+' : ''}{formatCompactNumber(value)}
+    </span>
+);
+
+function CannibalisationTable() {
+    const { data } = useSeoOpportunities('cannibalisation');
+    return (
+        <table className="w-full caption-bottom text-xs text-left">
+            <thead className="bg-muted/30 sticky top-0 z-10 backdrop-blur-sm">
+                <tr className="border-b border-border">
+                    <Th className="w-[30%]">Query</Th>
+                    <Th>Impr.</Th>
+                    <Th>Clicks</Th>
+                    <Th className="w-[45%]">Competing pages (impression share)</Th>
+                </tr>
+            </thead>
+            <tbody className="[&_tr:last-child]:border-0">
+                {data?.rows.map((row) => (
+                    <tr key={row.query} className="border-b border-border transition-colors hover:bg-muted/30">
+                        <Td className="font-medium text-gray-800">{row.query}</Td>
+                        <Td>{formatCompactNumber(row.impressions)}</Td>
+                        <Td>{formatCompactNumber(row.clicks)}</Td>
+                        <Td>
+                            {row.pages.map((page) => (
+                                <div key={page.page} className="flex items-center justify-between gap-2">
+                                    <span
+                                        className={`truncate max-w-[280px] ${page.page === row.primaryPage ? 'text-blue-600' : 'text-amber-600'}`}
+                                        title={page.page}
+                                    >
+                                        {path(page.page)}
+                                    </span>
+                                    <span className="text-muted-foreground shrink-0">
+                                        {Math.round(page.share * 100)}% · pos. {page.position}
+                                    </span>
+                                </div>
+                            ))}
+                        </Td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+function LowCtrTable() {
+    const { data } = useSeoOpportunities('low-ctr');
+    return (
+        <table className="w-full caption-bottom text-xs text-left">
+            <thead className="bg-muted/30 sticky top-0 z-10 backdrop-blur-sm">
+                <tr className="border-b border-border">
+                    <Th className="w-[35%]">Page</Th>
+                    <Th>pos.</Th>
+                    <Th>Impr.</Th>
+                    <Th>CTR</Th>
+                    <Th>Expected</Th>
+                    <Th>Missed clicks</Th>
+                    <Th className="w-[25%]">Top queries</Th>
+                </tr>
+            </thead>
+            <tbody className="[&_tr:last-child]:border-0">
+                {data?.rows.map((row) => (
+                    <tr key={row.page} className="border-b border-border transition-colors hover:bg-muted/30">
+                        <PageCell url={row.page} />
+                        <Td>{row.position}</Td>
+                        <Td>{formatCompactNumber(row.impressions)}</Td>
+                        <Td className="text-red-600">{ctr(row.ctr)}</Td>
+                        <Td>{ctr(row.expectedCtr)}</Td>
+                        <Td className="font-medium">{formatCompactNumber(row.missedClicks)}</Td>
+                        <Td className="text-muted-foreground truncate max-w-[220px]">{row.topQueries.join(', ')}</Td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+function CtrDeclineTable() {
+    const { data } = useSeoOpportunities('ctr-decline');
+    return (
+        <table className="w-full caption-bottom text-xs text-left">
+            <thead className="bg-muted/30 sticky top-0 z-10 backdrop-blur-sm">
+                <tr className="border-b border-border">
+                    <Th className="w-[40%]">Page</Th>
+                    <Th>pos.</Th>
+                    <Th>prev.</Th>
+                    <Th>CTR</Th>
+                    <Th>prev.</Th>
+                    <Th>Change</Th>
+                    <Th>Lost clicks</Th>
+                </tr>
+            </thead>
+            <tbody className="[&_tr:last-child]:border-0">
+                {data?.rows.map((row) => (
+                    <tr key={row.page} className="border-b border-border transition-colors hover:bg-muted/30">
+                        <PageCell url={row.page} />
+                        <Td>{row.position}</Td>
+                        <Td className="text-gray-500">{row.previousPosition}</Td>
+                        <Td>{ctr(row.ctr)}</Td>
+                        <Td className="text-gray-500">{ctr(row.previousCtr)}</Td>
+                        <Td className="text-red-600">{formatPercentage(row.ctrChange)}</Td>
+                        <Td className="font-medium">{formatCompactNumber(row.lostClicks)}</Td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+function PageTrendsTable() {
+    const { data } = useSeoOpportunities('page-trends');
+    return (
+        <table className="w-full caption-bottom text-xs text-left">
+            <thead className="bg-muted/30 sticky top-0 z-10 backdrop-blur-sm">
+                <tr className="border-b border-border">
+                    <Th className="w-[40%]">Page</Th>
+                    <Th>Clicks</Th>
+                    <Th>Change</Th>
+                    <Th>From impressions</Th>
+                    <Th>From CTR</Th>
+                    <Th>Driver</Th>
+                </tr>
+            </thead>
+            <tbody className="[&_tr:last-child]:border-0">
+                {data?.rows.map((row) => (
+                    <tr key={row.page} className="border-b border-border transition-colors hover:bg-muted/30">
+                        <PageCell url={row.page} />
+                        <Td>{formatCompactNumber(row.clicks)}</Td>
+                        <Td><Signed value={row.clicksChange} /></Td>
+                        <Td><Signed value={Math.round(row.impressionEffect)} /></Td>
+                        <Td><Signed value={Math.round(row.ctrEffect)} /></Td>
+                        <Td className="text-muted-foreground">{row.driver === 'ctr' ? 'CTR' : 'Impressions'}</Td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+const TABLES: Record<SeoOpportunityReport, ComponentType> = {
+    'cannibalisation': CannibalisationTable,
+    'low-ctr': LowCtrTable,
+    'ctr-decline': CtrDeclineTable,
+    'page-trends': PageTrendsTable,
+};
+
+export function SeoOpportunities() {
+    const [report, setReport] = useState<SeoOpportunityReport>('cannibalisation');
+    const [exporting, setExporting] = useState(false);
+    const { data, isLoading } = useSeoOpportunities(report);
+    const active = REPORTS.find((item) => item.value === report)!;
+    const Table = TABLES[report];
+
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const blob = await SeoService.exportOpportunities(report);
+            const range = data?.dateRange ? `-${data.dateRange.from}-to-${data.dateRange.to}` : '';
+            downloadBlob(blob, `seo-${report}${range}.csv`);
+        } catch (error: any) {
+            toast.error(error?.response?.status === 403 ? 'You do not have permission to export' : 'Export failed');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <Card className="flex flex-col shadow-sm">
+            <CardHeader className="px-4 py-3 border-b shrink-0 flex flex-row items-center justify-between gap-2 space-y-0">
+                <div>
+                    <CardTitle className="text-base font-semibold text-gray-800">Opportunities</CardTitle>
+                    {data?.dateRange && (
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                            {data.dateRange.from} – {data.dateRange.to}
+                            {report === 'ctr-decline' || report === 'page-trends'
+                                ? ` vs ${data.dateRange.previousFrom} – ${data.dateRange.previousTo}`
+                                : ''}
+                            {data.total > data.rows.length ? ` · top ${data.rows.length} of ${data.total}` : ''}
+                        </p>
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    <Tabs value={report} onValueChange={(value) => setReport(value as SeoOpportunityReport)}>
+                        <TabsList className="h-8">
+                            {REPORTS.map((item) => (
+                                <TabsTrigger key={item.value} value={item.value} className="text-xs">{item.label}</TabsTrigger>
+                            ))}
+                        </TabsList>
+                    </Tabs>
+                    <Button variant="outline" size="sm" className="h-8" onClick={handleExport} disabled={exporting || !data?.total}>
+                        {exporting ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Download className="h-3.5 w-3.5 mr-1" />}
+                        Export CSV
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="p-0">
+                <div className="max-h-[420px] overflow-auto">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center h-32">
+                            <div className="text-sm text-muted-foreground">Loading...</div>
+                        </div>
+                    ) : !data?.rows.length ? (
+                        <div className="flex items-center justify-center h-32">
+                            <div className="text-sm text-muted-foreground">
+                                {data?.dateRange ? active.empty : 'Connect Search Console to see opportunities.'}
+                            </div>
+                        </div>
+                    ) : (
+                        <Table />
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,214 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatCompactNumber } from "@/lib/formatters";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+import {
+    useAddTrackedKeywords,
+    useDeleteTrackedKeyword,
+    useKeywordMovers,
+    useLostKeywords,
+    useStrikingDistanceKeywords,
+    useTrackedKeywords,
+} from "../hooks";
+import { TrackedKeyword } from "../types";
+
+type TrackedTab = 'all' | 'winners' | 'losers' | 'striking' | 'lost';
+
+const splitList = (value: string, separator: RegExp) =>
+    value.split(separator).map((item) => item.trim()).filter(Boolean);
+
+function PositionChange({ change }: { change: number | null }) {
+    if (change === null || change === 0) {
+        return <span className="text-muted-foreground">-</span>;
+    }
+    const up = change > 0;
+    return (
+        <span className={`inline-flex items-center gap-0.5 font-medium ${up ? 'text-green-600' : 'text-red-600'}`}>
+            {up ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+            {Math.abs(change)}
+        </span>
+    );
+}
+
+export function TrackedKeywordsTable() {
+    const [tab, setTab] = useState<TrackedTab>('all');
+    const [keywordInput, setKeywordInput] = useState('');
+    const [tagInput, setTagInput] = useState('');
+    const [targetUrl, setTargetUrl] = useState('');
+
+    const tracked = useTrackedKeywords();
+    const movers = useKeywordMovers();
+    const striking = useStrikingDistanceKeywords();
+    const lost = useLostKeywords();
+    const addKeywords = useAddTrackedKeywords();
+    const deleteKeyword = useDeleteTrackedKeyword();
+
+    const rowsByTab: Record<TrackedTab, TrackedKeyword[] | undefined> = {
+        all: tracked.data?.keywords,
+        winners: movers.data?.winners,
+        losers: movers.data?.losers,
+        striking: striking.data?.keywords,
+        lost: lost.data?.keywords,
+    };
+    const rows = rowsByTab[tab] ?? [];
+    const isLoading = tracked.isLoading || movers.isLoading || striking.isLoading || lost.isLoading;
+    const dateRange = tracked.data?.dateRange;
+
+    const handleAdd = async (e: FormEvent) => {
+        e.preventDefault();
+        const keywords = splitList(keywordInput, /[\n,]/);
+        if (keywords.length === 0) return;
+
+        try {
+            const result = await addKeywords.mutateAsync({
+                keywords,
+                tags: tagInput ? splitList(tagInput, /,/) : undefined,
+                targetUrl: targetUrl.trim() || undefined,
+            });
+            toast.success(`Tracking ${result.created} keyword(s)${result.skipped ? `, ${result.skipped} already tracked` : ''}`);
+            setKeywordInput('');
+            setTagInput('');
+            setTargetUrl('');
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to add keywords');
+        }
+    };
+
+    const handleDelete = async (item: TrackedKeyword) => {
+        try {
+            await deleteKeyword.mutateAsync(item.id);
+            toast.success(`Stopped tracking "${item.keyword}"`);
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'Failed to remove keyword');
+        }
+    };
+
+    return (
+        <Card className="flex flex-col shadow-sm">
+            <CardHeader className="px-4 py-3 border-b shrink-0 flex flex-row items-center justify-between gap-2 space-y-0">
+                <div>
+                    <CardTitle className="text-base font-semibold text-gray-800">Tracked Keywords</CardTitle>
+                    {dateRange && (
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                            {dateRange.from} – {dateRange.to} vs {dateRange.previousFrom} – {dateRange.previousTo}
+                        </p>
+                    )}
+                </div>
+                <Tabs value={tab} onValueChange={(value) => setTab(value as TrackedTab)}>
+                    <TabsList className="h-8">
+                        <TabsTrigger value="all" className="text-xs">All</TabsTrigger>
+                        <TabsTrigger value="winners" className="text-xs">Winners</TabsTrigger>
+                        <TabsTrigger value="losers" className="text-xs">Losers</TabsTrigger>
+                        <TabsTrigger value="striking" className="text-xs">Striking distance</TabsTrigger>
+                        <TabsTrigger value="lost" className="text-xs">Lost</TabsTrigger>
+                    </TabsList>
+                </Tabs>
+            </CardHeader>
+            <CardContent className="p-0">
+                <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2 px-4 py-3 border-b">
+                    <Input
+                        value={keywordInput}
+                        onChange={(e) => setKeywordInput(e.target.value)}
+                        placeholder="Keywords, comma separated"
+                        className="h-8 text-xs flex-[2] min-w-[200px]"
+                    />
+                    <Input
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        placeholder="Tags"
+                        className="h-8 text-xs flex-1 min-w-[120px]"
+                    />
+                    <Input
+                        value={targetUrl}
+                        onChange={(e) => setTargetUrl(e.target.value)}
+                        placeholder="Target URL (optional)"
+                        className="h-8 text-xs flex-[2] min-w-[180px]"
+                    />
+                    <Button type="submit" size="sm" className="h-8" disabled={addKeywords.isPending || !keywordInput.trim()}>
+                        <Plus className="h-3.5 w-3.5 mr-1" />
+                        Track
+                    </Button>
+                </form>
+
+                <div className="max-h-[420px] overflow-auto">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center h-32">
+                            <div className="text-sm text-muted-foreground">Loading...</div>
+                        </div>
+                    ) : rows.length === 0 ? (
+                        <div className="flex items-center justify-center h-32">
+                            <div className="text-sm text-muted-foreground">
+                                {tab === 'all' ? 'No tracked keywords yet. Add the queries you want to follow.' : 'No keywords in this report.'}
+                            </div>
+                        </div>
+                    ) : (
+                        <table className="w-full caption-bottom text-xs text-left">
+                            <thead className="bg-muted/30 sticky top-0 z-10 backdrop-blur-sm">
+                                <tr className="border-b border-border">
+                                    <th className="h-8 px-4 text-left align-middle font-medium text-muted-foreground w-[30%]">Keyword</th>
+                                    <th className="h-8 px-4 text-left align-middle font-medium text-muted-foreground">pos.</th>
+                                    <th className="h-8 px-4 text-left align-middle font-medium text-muted-foreground">prev.</th>
+                                    <th className="h-8 px-4 text-left align-middle font-medium text-muted-foreground">Change</th>
+                                    <th className="h-8 px-4 text-left align-middle font-medium text-muted-foreground">Clicks</th>
+                                    <th className="h-8 px-4 text-left align-middle font-medium text-muted-foreground">Impr.</th>
+                                    <th className="h-8 px-4 text-left align-middle font-medium text-muted-foreground w-[25%]">Ranking URL</th>
+                                    <th className="h-8 px-4" />
+                                </tr>
+                            </thead>
+                            <tbody className="[&_tr:last-child]:border-0 text-xs">
+                                {rows.map((item) => (
+                                    <tr key={item.id} className="border-b border-border transition-colors hover:bg-muted/30">
+                                        <td className="p-2 px-4 align-middle">
+                                            <div className="font-medium text-gray-800 truncate max-w-[220px]">{item.keyword}</div>
+                                            {item.tags.length > 0 && (
+                                                <div className="flex flex-wrap gap-1 mt-0.5">
+                                                    {item.tags.map((tag) => (
+                                                        <span key={tag} className="bg-muted px-1.5 py-0.5 rounded text-[10px] text-muted-foreground">
+                                                            {tag}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="p-2 px-4 align-middle text-gray-700">{item.position ?? '-'}</td>
+                                        <td className="p-2 px-4 align-middle text-gray-500">{item.previousPosition ?? '-'}</td>
+                                        <td className="p-2 px-4 align-middle"><PositionChange change={item.change} /></td>
+                                        <td className="p-2 px-4 align-middle text-gray-700">{formatCompactNumber(item.clicks)}</td>
+                                        <td className="p-2 px-4 align-middle text-gray-700">{formatCompactNumber(item.impressions)}</td>
+                                        <td className="p-2 px-4 align-middle">
+                                            {item.rankingUrl ? (
+                                                <span
+                                                    className={`block truncate max-w-[240px] ${item.onTarget === false ? 'text-amber-600' : 'text-blue-600'}`}
+                                                    title={item.onTarget === false ? `Target: ${item.targetUrl}` : item.rankingUrl}
+                                                >
+                                                    {item.rankingUrl}
+                                                </span>
+                                            ) : (
+                                                <span className="text-muted-foreground">-</span>
+                                            )}
+                                        </td>
+                                        <td className="p-2 px-4 align-middle text-right">
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-7 w-7"
+                                                onClick={() => handleDelete(item)}
+                                                disabled={deleteKeyword.isPending}
+                                            >
+                                                <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                                            </Button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
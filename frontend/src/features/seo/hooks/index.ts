@@ -1,10 +1,20 @@
 // SEO Hooks exports
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { SeoService } from '../api';
+import type {
+    CreateTrackedKeywordsInput,
+    OffpageImportType,
+    SeoOpportunityQuery,
+    SeoOpportunityReport,
+    TrackedKeywordQuery,
+} from '../types';
 
 export const SEO_KEYS = {
     all: ['seo'] as const,
     summary: () => [...SEO_KEYS.all, 'summary'] as const,
+    tracked: () => [...SEO_KEYS.all, 'tracked'] as const,
+    trackedReport: (report: string, params?: TrackedKeywordQuery) => [...SEO_KEYS.tracked(), report, params] as const,
+    opportunities: (report: SeoOpportunityReport, params?: SeoOpportunityQuery) => [...SEO_KEYS.all, 'opportunities', report, params] as const,
 };
 
 export function useSeoSummary() {
@@ -13,3 +23,63 @@ export function useSeoSummary() {
         queryFn: SeoService.getSummary,
     });
 }
+
+export function useTrackedKeywords(params?: TrackedKeywordQuery) {
+    return useQuery({
+        queryKey: SEO_KEYS.trackedReport('all', params),
+        queryFn: () => SeoService.getTrackedKeywords(params),
+    });
+}
+
+export function useKeywordMovers(params?: TrackedKeywordQuery) {
+    return useQuery({
+        queryKey: SEO_KEYS.trackedReport('movers', params),
+        queryFn: () => SeoService.getKeywordMovers(params),
+    });
+}
+
+export function useStrikingDistanceKeywords(params?: TrackedKeywordQuery) {
+    return useQuery({
+        queryKey: SEO_KEYS.trackedReport('striking-distance', params),
+        queryFn: () => SeoService.getStrikingDistance(params),
+    });
+}
+
+export function useLostKeywords(params?: TrackedKeywordQuery) {
+    return useQuery({
+        queryKey: SEO_KEYS.trackedReport('lost', params),
+        queryFn: () => SeoService.getLostKeywords(params),
+    });
+}
+
+export function useAddTrackedKeywords() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (input: CreateTrackedKeywordsInput) => SeoService.addTrackedKeywords(input),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: SEO_KEYS.tracked() }),
+    });
+}
+
+export function useDeleteTrackedKeyword() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (id: string) => SeoService.deleteTrackedKeyword(id),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: SEO_KEYS.tracked() }),
+    });
+}
+
+export function useImportOffpageCsv() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ type, file, date }: { type: OffpageImportType; file: File; date?: string }) =>
+            SeoService.importOffpageCsv(type, file, date),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: SEO_KEYS.all }),
+    });
+}
+
+export function useSeoOpportunities<R extends SeoOpportunityReport>(report: R, params?: SeoOpportunityQuery) {
+    return useQuery({
+        queryKey: SEO_KEYS.opportunities(report, params),
+        queryFn: () => SeoService.getOpportunities(report, params),
+    });
+}
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { SeoPremiumCards } from '../components/seo-premium-cards';
 import { SeoSummaryCards } from '../components/seo-summary-cards';
@@ -11,9 +12,14 @@ import { OrganicKeywordsByIntent } from '../components/organic-keywords-by-inten
 import { SeoAnchorText } from '../components/seo-anchor-text';
 import { TopOrganicKeywords } from '../components/top-organic-keywords';
 import { SeoOffPageMetrics } from '../components/seo-offpage-metrics';
+import { TrackedKeywordsTable } from '../components/tracked-keywords-table';
+import { OffpageImportDialog } from '../components/offpage-import-dialog';
+import { SeoOpportunities } from '../components/seo-opportunities';
 
 export function SeoPage() {
     const { data, isLoading } = useSeoSummary();
+    // Off-page widgets load once on mount; bump to reload them after an import
+    const [offpageVersion, setOffpageVersion] = useState(0);
 
     // Default fallback data if API fails or is loading (to prevent crash)
     const displayData: SeoMetricSummary = data || {
@@ -44,6 +50,7 @@ export function SeoPage() {
                             Track your organic search performance and website engagement.
                         </p>
                     </div>
+                    <OffpageImportDialog onImported={() => setOffpageVersion((v) => v + 1)} />
                 </div>
 
                 {/* Standard Summary Cards */}
@@ -75,14 +82,24 @@ export function SeoPage() {
                             <OrganicKeywordsByIntent isLoading={isLoading} />
                         </div>
                         <div id="tutorial-seo-anchor">
-                            <SeoAnchorText />
+                            <SeoAnchorText key={offpageVersion} />
                         </div>
                     </div>
                 </div>
 
+                {/* Rank Tracking */}
+                <div id="tutorial-seo-tracked-keywords">
+                    <TrackedKeywordsTable />
+                </div>
+
+                {/* Page × query opportunities */}
+                <div id="tutorial-seo-opportunities">
+                    <SeoOpportunities />
+                </div>
+
                 {/* Off-page Metrics */}
                 <div id="tutorial-seo-offpage">
-                    <SeoOffPageMetrics />
+                    <SeoOffPageMetrics key={offpageVersion} />
                 </div>
             </div>
         </DashboardLayout>
@@ -26,3 +26,146 @@ export interface SeoTrendData {
     traffic: number;
     position: number | null;
 }
+
+export interface TrackedKeyword {
+    id: string;
+    keyword: string;
+    tags: string[];
+    targetUrl: string | null;
+    position: number | null;
+    previousPosition: number | null;
+    /** Positive means the keyword moved up */
+    change: number | null;
+    clicks: number;
+    impressions: number;
+    rankingUrl: string | null;
+    onTarget: boolean | null;
+}
+
+export interface TrackedKeywordDateRange {
+    from: string;
+    to: string;
+    previousFrom: string;
+    previousTo: string;
+}
+
+export interface TrackedKeywordsResponse {
+    keywords: TrackedKeyword[];
+    dateRange: TrackedKeywordDateRange | null;
+}
+
+export interface KeywordMoversResponse {
+    winners: TrackedKeyword[];
+    losers: TrackedKeyword[];
+    dateRange: TrackedKeywordDateRange | null;
+}
+
+export interface TrackedKeywordQuery {
+    days?: number;
+    tag?: string;
+    limit?: number;
+}
+
+export interface CreateTrackedKeywordsInput {
+    keywords: string[];
+    tags?: string[];
+    targetUrl?: string;
+}
+
+export type OffpageImportType = 'backlinks' | 'referring_domains' | 'anchors' | 'overview';
+
+export interface OffpageImportResult {
+    importId: string;
+    type: OffpageImportType;
+    source: 'ahrefs' | 'semrush' | 'unknown';
+    date: string;
+    total: number;
+    imported: number;
+    duplicates: number;
+    skipped: number;
+    new: number;
+    lost: number;
+    errors: { row: number; message: string }[];
+}
+
+export type SeoOpportunityReport = 'cannibalisation' | 'low-ctr' | 'ctr-decline' | 'page-trends';
+
+export interface SeoOpportunityQuery {
+    /** e.g. "28d" */
+    period?: string;
+    siteUrl?: string;
+    minImpressions?: number;
+    limit?: number;
+}
+
+export interface CannibalisationRow {
+    query: string;
+    clicks: number;
+    impressions: number;
+    ctr: number;
+    position: number;
+    primaryPage: string;
+    pages: {
+        page: string;
+        clicks: number;
+        impressions: number;
+        ctr: number;
+        position: number;
+        share: number;
+    }[];
+}
+
+export interface LowCtrRow {
+    page: string;
+    clicks: number;
+    impressions: number;
+    ctr: number;
+    expectedCtr: number;
+    position: number;
+    missedClicks: number;
+    topQueries: string[];
+}
+
+export interface CtrDeclineRow {
+    page: string;
+    clicks: number;
+    impressions: number;
+    ctr: number;
+    previousCtr: number;
+    /** Percent */
+    ctrChange: number;
+    position: number;
+    previousPosition: number;
+    lostClicks: number;
+}
+
+export interface PageTrendRow {
+    page: string;
+    clicks: number;
+    previousClicks: number;
+    clicksChange: number;
+    impressions: number;
+    previousImpressions: number;
+    ctr: number;
+    previousCtr: number;
+    position: number | null;
+    previousPosition: number | null;
+    impressionEffect: number;
+    ctrEffect: number;
+    interactionEffect: number;
+    driver: 'impressions' | 'ctr';
+}
+
+export interface SeoOpportunityRows {
+    'cannibalisation': CannibalisationRow;
+    'low-ctr': LowCtrRow;
+    'ctr-decline': CtrDeclineRow;
+    'page-trends': PageTrendRow;
+}
+
+export interface SeoOpportunityResponse<T> {
+    siteUrls: string[];
+    dateRange: TrackedKeywordDateRange | null;
+    total: number;
+    rows: T[];
+}
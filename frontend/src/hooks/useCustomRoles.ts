@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { roleService, RoleInput } from '@/services/role-service';
+import { showApiError, showSuccess } from '@/lib/errorHandler';
+
+const ROLES_KEY = ['roles'];
+
+/**
+ * Custom roles and the permission catalogue (admin only)
+ */
+export function useCustomRoles(enabled = true) {
+    const queryClient = useQueryClient();
+
+    const rolesQuery = useQuery({
+        queryKey: ROLES_KEY,
+        queryFn: async () => (await roleService.getAll()).data,
+        enabled,
+    });
+
+    const permissionsQuery = useQuery({
+        queryKey: ['roles', 'permissions'],
+        queryFn: async () => (await roleService.getPermissions()).data,
+        staleTime: Infinity,
+        enabled,
+    });
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ROLES_KEY });
+
+    const saveMutation = useMutation({
+        mutationFn: ({ id, data }: { id?: string; data: RoleInput }) =>
+            id ? roleService.update(id, data) : roleService.create(data),
+        onSuccess: (_, { id }) => {
+            invalidate();
+            showSuccess(id ? 'Role updated' : 'Role created');
+        },
+        onError: (error) => showApiError(error, 'Failed to save role'),
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: (id: string) => roleService.delete(id),
+        onSuccess: () => {
+            invalidate();
+            queryClient.invalidateQueries({ queryKey: ['users'] });
+            showSuccess('Role deleted');
+        },
+        onError: (error) => showApiError(error, 'Failed to delete role'),
+    });
+
+    const assignMutation = useMutation({
+        mutationFn: ({ userId, roleId }: { userId: string; roleId: string | null }) =>
+            roleService.assign(userId, roleId),
+        onSuccess: () => {
+            invalidate();
+            queryClient.invalidateQueries({ queryKey: ['users'] });
+            showSuccess('Custom role updated');
+        },
+        onError: (error) => showApiError(error, 'Failed to assign role'),
+    });
+
+    return {
+        roles: rolesQuery.data ?? [],
+        permissions: permissionsQuery.data ?? [],
+        isLoading: rolesQuery.isLoading,
+        saveRole: saveMutation.mutateAsync,
+        isSaving: saveMutation.isLoading,
+        deleteRole: deleteMutation.mutate,
+        assignRole: assignMutation.mutate,
+    };
+}
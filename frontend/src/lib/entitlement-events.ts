@@ -0,0 +1,86 @@
+// src/lib/entitlement-events.ts
+// 402 Payment Required responses from plan entitlement checks.
+// api-client dispatches them; UpgradePrompt turns them into an upgrade dialog.
+
+import { useEffect } from 'react';
+
+// =============================================================================
+// Types
+// =============================================================================
+export type UpgradeRequiredCode =
+  | 'ENTITLEMENT_REQUIRED'
+  | 'INTEGRATION_LIMIT_REACHED'
+  | 'SUBSCRIPTION_EXPIRED'
+  | 'SUBSCRIPTION_READ_ONLY';
+
+export interface UpgradeRequiredDetail {
+  error: UpgradeRequiredCode;
+  message: string;
+  meta?: {
+    plan?: string;
+    status?: string;
+    missing?: string[];
+    used?: number;
+    limit?: number;
+    endsAt?: string;
+    graceEndsAt?: string;
+  };
+}
+
+const UPGRADE_CODES: UpgradeRequiredCode[] = [
+  'ENTITLEMENT_REQUIRED',
+  'INTEGRATION_LIMIT_REACHED',
+  'SUBSCRIPTION_EXPIRED',
+  'SUBSCRIPTION_READ_ONLY',
+];
+
+// =============================================================================
+// Emitter
+// =============================================================================
+type Listener = (detail: UpgradeRequiredDetail) => void;
+
+const listeners = new Set<Listener>();
+
+/**
+ * Notify listeners about a 402 response - use this in api-client
+ */
+export function dispatchUpgradeRequired(detail: UpgradeRequiredDetail): void {
+  listeners.forEach((listener) => {
+    try {
+      listener(detail);
+    } catch (error) {
+      console.error('Error in upgrade-required listener:', error);
+    }
+  });
+}
+
+/**
+ * Subscribe to upgrade-required events; returns the unsubscribe function
+ */
+export function onUpgradeRequired(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Read the structured body of a 402 response, or null for any other error
+ */
+export function parseUpgradeRequired(body: unknown): UpgradeRequiredDetail | null {
+  if (!body || typeof body !== 'object') return null;
+  const { error, message, meta } = body as Record<string, any>;
+  if (!UPGRADE_CODES.includes(error)) return null;
+  return { error, message: typeof message === 'string' ? message : 'Upgrade required', meta };
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+/**
+ * Subscribe to upgrade-required events for the lifetime of a component
+ */
+export function useUpgradeRequiredListener(listener: Listener): void {
+  useEffect(() => onUpgradeRequired(listener), [listener]);
+}
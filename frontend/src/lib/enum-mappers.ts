@@ -118,6 +118,7 @@ export const userRoleConfig: Record<
         variant: 'default' | 'secondary' | 'destructive';
     }
 > = {
+    [UserRole.SUPER_ADMIN]: { label: 'Super Admin', variant: 'destructive' },
     [UserRole.ADMIN]: { label: 'Admin', variant: 'destructive' },
     [UserRole.MANAGER]: { label: 'Manager', variant: 'default' },
     [UserRole.CLIENT]: { label: 'Client', variant: 'secondary' },
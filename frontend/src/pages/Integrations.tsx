@@ -9,6 +9,7 @@ import { FacebookAccountSelectModal } from '@/components/integrations/facebook/F
 import { TikTokAdsCard } from '@/components/integrations/tiktok/TikTokAdsCard';
 import { TikTokAccountSelectModal } from '@/components/integrations/tiktok/TikTokAccountSelectModal';
 import { LineAdsCard } from '@/components/integrations/line/LineAdsCard';
+import { BackfillJobsCard, BackfillAccountOption } from '@/components/integrations/BackfillJobsCard';
 import { useIntegrationCallback } from '@/hooks/useIntegrationCallback';
 import { useIntegrationStatus } from '@/hooks/useIntegrationStatus';
 
@@ -39,11 +40,20 @@ export default function Integrations() {
   // Fetch and manage integration statuses
   const {
     status,
+    accounts: googleAdsAccounts,
+    lineAdsAccounts,
     tiktokAdsAccounts,
     disconnectTikTokAds,
     refetch
   } = useIntegrationStatus();
 
+  // Connected ad accounts that can be backfilled
+  const backfillAccounts: BackfillAccountOption[] = [
+    ...googleAdsAccounts.map((a) => ({ platform: 'GOOGLE_ADS', id: a.id, name: a.name })),
+    ...tiktokAdsAccounts.map((a) => ({ platform: 'TIKTOK', id: a.id, name: a.name })),
+    ...lineAdsAccounts.map((a) => ({ platform: 'LINE_ADS', id: a.id, name: a.name })),
+  ];
+
   /**
    * Handle successful Facebook account connection
    */
@@ -127,6 +137,9 @@ export default function Integrations() {
               );
             })}
           </div>
+
+          {/* Historical backfills */}
+          <BackfillJobsCard accounts={backfillAccounts} />
         </div>
 
         {/* Facebook Account Selection Modal */}
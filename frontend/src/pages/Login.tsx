@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useAuthStore, selectIsLoading, selectError } from '@/stores/auth-store';
+import { useAuthStore, selectIsLoading, selectError, selectTwoFactorChallenge } from '@/stores/auth-store';
 import { useLocation, useSearch } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,6 +11,7 @@ import { ParticleCanvas } from '@/components/ui/particle-canvas';
 import { Starfield } from '@/components/ui/starfield';
 import logo from '@/components/layout/LOGO-RGA-B2.png';
 import { apiClient } from '@/services/api-client';
+import { TwoFactorStep } from '@/components/auth/two-factor-step';
 
 // Inline field error component with smooth animation
 function FieldError({ message }: { message?: string }) {
@@ -51,6 +52,7 @@ export default function Login() {
   const clearError = useAuthStore((state) => state.clearError);
   const isLoading = useAuthStore(selectIsLoading);
   const storeError = useAuthStore(selectError);
+  const twoFactorChallenge = useAuthStore(selectTwoFactorChallenge);
 
   useEffect(() => {
     const params = new URLSearchParams(searchString);
@@ -121,6 +123,8 @@ export default function Login() {
 
     try {
       await login(email, password);
+      // A second factor is still needed; the TwoFactorStep takes over
+      if (useAuthStore.getState().twoFactorChallenge) return;
       toast.success('Login successful!');
       setLocation('/dashboard');
     } catch (err: any) {
@@ -161,6 +165,11 @@ export default function Login() {
     }
   };
 
+  const handleTwoFactorComplete = () => {
+    toast.success('Login successful!');
+    setLocation('/dashboard');
+  };
+
   const displayError = localError || storeError;
 
   return (
@@ -268,104 +277,108 @@ export default function Login() {
             )}
 
             {/* Form — noValidate disables browser-native tooltips */}
-            <motion.form
-              onSubmit={handleSubmit}
-              noValidate
-              className="space-y-4"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              transition={{ delay: 0.25, duration: 0.5 }}
-            >
-              {/* Email Field */}
-              <div className="space-y-1.5">
-                <label htmlFor="email" className="block text-[13px] font-medium text-slate-600">
-                  Email address
-                </label>
-                <div className="relative">
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder="you@company.com"
-                    value={email}
-                    onChange={(e) => { setEmail(e.target.value); if (fieldErrors.email) setFieldErrors(prev => { const c = { ...prev }; delete c.email; return c; }); }}
-                    onFocus={() => setFocused('email')}
-                    onBlur={() => setFocused(null)}
-                    disabled={isLoading}
-                    autoComplete="email"
-                    className={`h-10 rounded-lg bg-slate-50/80 focus-visible:ring-orange-500/20 focus-visible:border-orange-400 placeholder:text-slate-300 transition-all duration-200 ${fieldErrors.email ? 'border-red-300 focus-visible:border-red-400 focus-visible:ring-red-500/20' : 'border-slate-200'}`}
-                  />
-                  {/* Active indicator dot */}
-                  <motion.div
-                    className="absolute right-3 top-1/2 -translate-y-1/2 w-1.5 h-1.5 rounded-full bg-orange-500"
-                    initial={false}
-                    animate={{ scale: focused === 'email' ? 1 : 0, opacity: focused === 'email' ? 1 : 0 }}
-                    transition={{ duration: 0.2 }}
-                  />
+            {twoFactorChallenge ? (
+              <TwoFactorStep onComplete={handleTwoFactorComplete} />
+            ) : (
+              <motion.form
+                onSubmit={handleSubmit}
+                noValidate
+                className="space-y-4"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.25, duration: 0.5 }}
+              >
+                {/* Email Field */}
+                <div className="space-y-1.5">
+                  <label htmlFor="email" className="block text-[13px] font-medium text-slate-600">
+                    Email address
+                  </label>
+                  <div className="relative">
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="you@company.com"
+                      value={email}
+                      onChange={(e) => { setEmail(e.target.value); if (fieldErrors.email) setFieldErrors(prev => { const c = { ...prev }; delete c.email; return c; }); }}
+                      onFocus={() => setFocused('email')}
+                      onBlur={() => setFocused(null)}
+                      disabled={isLoading}
+                      autoComplete="email"
+                      className={`h-10 rounded-lg bg-slate-50/80 focus-visible:ring-orange-500/20 focus-visible:border-orange-400 placeholder:text-slate-300 transition-all duration-200 ${fieldErrors.email ? 'border-red-300 focus-visible:border-red-400 focus-visible:ring-red-500/20' : 'border-slate-200'}`}
+                    />
+                    {/* Active indicator dot */}
+                    <motion.div
+                      className="absolute right-3 top-1/2 -translate-y-1/2 w-1.5 h-1.5 rounded-full bg-orange-500"
+                      initial={false}
+                      animate={{ scale: focused === 'email' ? 1 : 0, opacity: focused === 'email' ? 1 : 0 }}
+                      transition={{ duration: 0.2 }}
+                    />
+                  </div>
+                  <FieldError message={fieldErrors.email} />
                 </div>
-                <FieldError message={fieldErrors.email} />
-              </div>
 
-              {/* Password Field */}
-              <div className="space-y-1.5">
-                <label htmlFor="password" className="block text-[13px] font-medium text-slate-600">
-                  Password
-                </label>
-                <div className="relative">
-                  <Input
-                    id="password"
-                    type="password"
-                    placeholder="••••••••"
-                    value={password}
-                    onChange={(e) => { setPassword(e.target.value); if (fieldErrors.password) setFieldErrors(prev => { const c = { ...prev }; delete c.password; return c; }); }}
-                    onFocus={() => setFocused('password')}
-                    onBlur={() => setFocused(null)}
-                    disabled={isLoading}
-                    autoComplete="current-password"
-                    className={`h-10 rounded-lg bg-slate-50/80 focus-visible:ring-orange-500/20 focus-visible:border-orange-400 placeholder:text-slate-300 transition-all duration-200 ${fieldErrors.password ? 'border-red-300 focus-visible:border-red-400 focus-visible:ring-red-500/20' : 'border-slate-200'}`}
-                  />
-                  <motion.div
-                    className="absolute right-3 top-1/2 -translate-y-1/2 w-1.5 h-1.5 rounded-full bg-orange-500"
-                    initial={false}
-                    animate={{ scale: focused === 'password' ? 1 : 0, opacity: focused === 'password' ? 1 : 0 }}
-                    transition={{ duration: 0.2 }}
-                  />
-                </div>
-                <FieldError message={fieldErrors.password} />
-                <div className="flex justify-end mt-1">
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setIsForgotPassword(true);
-                      setForgotEmail(email);
-                    }}
-                    className="text-[13px] font-medium text-orange-600 hover:text-orange-700 transition-colors"
-                  >
-                    Forgot Password?
-                  </button>
+                {/* Password Field */}
+                <div className="space-y-1.5">
+                  <label htmlFor="password" className="block text-[13px] font-medium text-slate-600">
+                    Password
+                  </label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="••••••••"
+                      value={password}
+                      onChange={(e) => { setPassword(e.target.value); if (fieldErrors.password) setFieldErrors(prev => { const c = { ...prev }; delete c.password; return c; }); }}
+                      onFocus={() => setFocused('password')}
+                      onBlur={() => setFocused(null)}
+                      disabled={isLoading}
+                      autoComplete="current-password"
+                      className={`h-10 rounded-lg bg-slate-50/80 focus-visible:ring-orange-500/20 focus-visible:border-orange-400 placeholder:text-slate-300 transition-all duration-200 ${fieldErrors.password ? 'border-red-300 focus-visible:border-red-400 focus-visible:ring-red-500/20' : 'border-slate-200'}`}
+                    />
+                    <motion.div
+                      className="absolute right-3 top-1/2 -translate-y-1/2 w-1.5 h-1.5 rounded-full bg-orange-500"
+                      initial={false}
+                      animate={{ scale: focused === 'password' ? 1 : 0, opacity: focused === 'password' ? 1 : 0 }}
+                      transition={{ duration: 0.2 }}
+                    />
+                  </div>
+                  <FieldError message={fieldErrors.password} />
+                  <div className="flex justify-end mt-1">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setIsForgotPassword(true);
+                        setForgotEmail(email);
+                      }}
+                      className="text-[13px] font-medium text-orange-600 hover:text-orange-700 transition-colors"
+                    >
+                      Forgot Password?
+                    </button>
+                  </div>
                 </div>
-              </div>
 
-              {/* Submit Button */}
-              <motion.div whileHover={{ scale: 1.01 }} whileTap={{ scale: 0.98 }}>
-                <Button
-                  type="submit"
-                  className="w-full h-11 mt-1 bg-slate-900 hover:bg-slate-800 text-white font-medium rounded-xl tracking-wide transition-all group"
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Signing in…
-                    </>
-                  ) : (
-                    <span className="flex items-center">
-                      Sign In
-                      <ArrowRight className="ml-2 h-4 w-4 transition-transform group-hover:translate-x-1" />
-                    </span>
-                  )}
-                </Button>
-              </motion.div>
-            </motion.form>
+                {/* Submit Button */}
+                <motion.div whileHover={{ scale: 1.01 }} whileTap={{ scale: 0.98 }}>
+                  <Button
+                    type="submit"
+                    className="w-full h-11 mt-1 bg-slate-900 hover:bg-slate-800 text-white font-medium rounded-xl tracking-wide transition-all group"
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Signing in…
+                      </>
+                    ) : (
+                      <span className="flex items-center">
+                        Sign In
+                        <ArrowRight className="ml-2 h-4 w-4 transition-transform group-hover:translate-x-1" />
+                      </span>
+                    )}
+                  </Button>
+                </motion.div>
+              </motion.form>
+            )}
 
             {/* Divider */}
             <div className="relative mt-6 mb-5">
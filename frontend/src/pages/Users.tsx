@@ -7,7 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { userService } from '@/services/user-service';
-import { Plus, Trash2, Edit2, Users as UsersIcon, ShieldCheck, UserCog, User as UserIcon } from 'lucide-react';
+import { Plus, Trash2, Edit2, Users as UsersIcon, ShieldCheck, UserCog, User as UserIcon, FolderLock } from 'lucide-react';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { SearchInput } from '@/components/ui/SearchInput';
@@ -17,6 +17,10 @@ import { useCrudOperations } from '@/hooks/useCrudOperations';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { MetricGrid } from '@/features/dashboard/components/MetricGrid';
+import { CustomRolesCard } from '@/components/users/CustomRolesCard';
+import { CampaignScopeDialog } from '@/components/users/CampaignScopeDialog';
+import { useCustomRoles } from '@/hooks/useCustomRoles';
+import { useAuthStore, selectUser } from '@/stores/auth-store';
 
 import { User } from '@/types/api';
 
@@ -88,6 +92,12 @@ export default function Users() {
 
   const [roleFilter, setRoleFilter] = React.useState<string>('all');
 
+  // Custom roles are managed by tenant admins only
+  const currentUser = useAuthStore(selectUser);
+  const canManageRoles = currentUser?.role === 'ADMIN' || currentUser?.role === 'SUPER_ADMIN';
+  const { roles: customRoles, assignRole } = useCustomRoles(canManageRoles);
+  const [scopeUser, setScopeUser] = React.useState<User | null>(null);
+
   const filteredUsers = React.useMemo(() => {
     let result = users || [];
     // Client-side filtering for Role only (Search is now server-side via hook)
@@ -294,6 +304,7 @@ export default function Users() {
                           <TableHead>Name</TableHead>
                           <TableHead>Email</TableHead>
                           <TableHead>Role</TableHead>
+                          {canManageRoles && <TableHead>Custom Role</TableHead>}
                           <TableHead>Created At</TableHead>
                           <TableHead className="text-right">Actions</TableHead>
                         </TableRow>
@@ -316,11 +327,43 @@ export default function Users() {
                             <TableCell>
                               <StatusBadge status={user.role} />
                             </TableCell>
+                            {canManageRoles && (
+                              <TableCell>
+                                {user.role === 'ADMIN' || user.role === 'SUPER_ADMIN' ? (
+                                  <span className="text-xs text-muted-foreground">Full access</span>
+                                ) : (
+                                  <Select
+                                    value={user.customRoleId ?? 'none'}
+                                    onValueChange={(value) => assignRole({ userId: user.id, roleId: value === 'none' ? null : value })}
+                                  >
+                                    <SelectTrigger className="h-8 w-44">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="none">Default access</SelectItem>
+                                      {customRoles.map((role) => (
+                                        <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                              </TableCell>
+                            )}
                             <TableCell>
                               {user.createdAt ? new Date(user.createdAt).toLocaleDateString() : '-'}
                             </TableCell>
                             <TableCell className="text-right">
                               <div className="flex justify-end gap-2">
+                                {canManageRoles && (user.role === 'CLIENT' || user.role === 'VIEWER') && (
+                                  <Button
+                                    size="icon-sm"
+                                    variant="ghost"
+                                    title="Campaign access"
+                                    onClick={() => setScopeUser(user)}
+                                  >
+                                    <FolderLock className="h-4 w-4" />
+                                  </Button>
+                                )}
                                 <Button
                                   size="icon-sm"
                                   variant="ghost"
@@ -376,6 +419,11 @@ export default function Users() {
               )}
             </CardContent>
           </Card>
+
+          {canManageRoles && <CustomRolesCard />}
+          {canManageRoles && (
+            <CampaignScopeDialog user={scopeUser} onOpenChange={(open) => !open && setScopeUser(null)} />
+          )}
         </div>
       </DashboardLayout>
     </ProtectedRoute>
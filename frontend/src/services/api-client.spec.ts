@@ -130,6 +130,37 @@ describe('API Client Interceptor', () => {
         });
     });
 
+    describe('402 Response Handling', () => {
+        it('should dispatch upgrade-required with the structured error body', async () => {
+            const { onUpgradeRequired } = await import('@/lib/entitlement-events');
+            const listener = vi.fn();
+            const unsubscribe = onUpgradeRequired(listener);
+
+            const responseInterceptor = apiClient.interceptors.response.handlers[0]?.rejected;
+            const body = {
+                success: false,
+                data: null,
+                statusCode: 402,
+                error: 'INTEGRATION_LIMIT_REACHED',
+                message: 'Your BASIC plan allows 2 connected accounts.',
+                meta: { used: 2, limit: 2, plan: 'BASIC' },
+            };
+            const error: AxiosError = {
+                config: { headers: {} as any, url: '/auth/google/ads/complete' } as any,
+                response: { status: 402, data: new Blob([JSON.stringify(body)]) } as any,
+                isAxiosError: true, message: 'Payment Required', name: 'AxiosError', toJSON: () => ({}),
+            };
+
+            await expect(responseInterceptor(error)).rejects.toBe(error);
+            expect(listener).toHaveBeenCalledWith({
+                error: 'INTEGRATION_LIMIT_REACHED',
+                message: body.message,
+                meta: body.meta,
+            });
+            unsubscribe();
+        });
+    });
+
     describe('extractApiData', () => {
         it('should return data.data when success is true', async () => {
             await resetModule();
@@ -70,6 +70,10 @@ import { dispatchSessionExpired } from '@/lib/auth-events';
 
 
 
+import { dispatchUpgradeRequired, parseUpgradeRequired } from '@/lib/entitlement-events';
+
+
+
 
 
 
@@ -900,6 +904,74 @@ apiClient.interceptors.response.use(
 
 
 
+        // 402 = Plan entitlement missing, integration limit reached or subscription expired
+
+
+
+        if (error.response?.status === 402) {
+
+
+
+            let body: unknown = error.response.data;
+
+
+
+            // Blob downloads (CSV/PDF exports) carry the JSON error body as a Blob
+
+
+
+            if (typeof Blob !== 'undefined' && body instanceof Blob) {
+
+
+
+                try {
+
+
+
+                    body = JSON.parse(await body.text());
+
+
+
+                } catch {
+
+
+
+                    body = null;
+
+
+
+                }
+
+
+
+            }
+
+
+
+            const detail = parseUpgradeRequired(body);
+
+
+
+            if (detail) {
+
+
+
+                dispatchUpgradeRequired(detail);
+
+
+
+            }
+
+
+
+        }
+
+
+
+
+
+
+
         return Promise.reject(error);
 
 
@@ -0,0 +1,8 @@
+import { apiClient } from './api-client';
+import { CampaignScopeAssignment } from '@/types/api';
+
+export const campaignScopeService = {
+    get: (userId: string) => apiClient.get<CampaignScopeAssignment>(`/campaign-scopes/users/${userId}`),
+    update: (userId: string, data: Omit<CampaignScopeAssignment, 'userId'>) =>
+        apiClient.put<CampaignScopeAssignment>(`/campaign-scopes/users/${userId}`, data),
+};
@@ -30,6 +30,18 @@ export interface TikTokTempAccountsResponse {
     count: number;
 }
 
+export interface LineAdsConnectRequest {
+    adAccountId: string;
+    accessKey: string;
+    secretKey: string;
+}
+
+export interface LineAdsConnectResponse {
+    success: boolean;
+    accountId: string;
+    accountName: string;
+}
+
 export interface TikTokCompleteResponse {
     success: boolean;
     accountId: string;
@@ -64,6 +76,11 @@ export const integrationService = {
     // ============================================
     // LINE Ads
     // ============================================
+    /**
+     * Connect an ad account with the API keys from LINE Ads Manager
+     */
+    connectLineAdsAccount: (data: LineAdsConnectRequest) =>
+        apiClient.post<LineAdsConnectResponse>('/integrations/line-ads/accounts', data),
     disconnectLineAds: () => apiClient.delete('/integrations/line-ads'),
 
     // ============================================
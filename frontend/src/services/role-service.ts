@@ -0,0 +1,18 @@
+import { apiClient } from './api-client';
+import { CustomRole, PermissionDefinition } from '@/types/api';
+
+export interface RoleInput {
+    name: string;
+    description?: string;
+    permissions: string[];
+}
+
+export const roleService = {
+    getPermissions: () => apiClient.get<PermissionDefinition[]>('/roles/permissions'),
+    getAll: () => apiClient.get<CustomRole[]>('/roles'),
+    create: (data: RoleInput) => apiClient.post<CustomRole>('/roles', data),
+    update: (id: string, data: Partial<RoleInput>) => apiClient.put<CustomRole>(`/roles/${id}`, data),
+    delete: (id: string) => apiClient.delete<{ message: string }>(`/roles/${id}`),
+    assign: (userId: string, roleId: string | null) =>
+        apiClient.put<{ userId: string; customRoleId: string | null }>(`/roles/users/${userId}`, { roleId }),
+};
@@ -0,0 +1,9 @@
+import { apiClient } from './api-client';
+import { BackfillJob } from '@/types/api';
+
+export const syncService = {
+    getBackfills: () => apiClient.get<BackfillJob[]>('/sync/backfills'),
+    startBackfill: (platform: string, accountId: string, range: { startDate: string; endDate: string }) =>
+        apiClient.post<BackfillJob>(`/sync/${platform}/accounts/${accountId}/backfill`, range),
+    resumeBackfill: (id: string) => apiClient.post<BackfillJob>(`/sync/backfills/${id}/resume`),
+};
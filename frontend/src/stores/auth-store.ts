@@ -29,6 +29,28 @@ interface RegisterData {
     termsAccepted: boolean;
 }
 
+export interface TwoFactorChallenge {
+    challengeToken: string;
+    /** 'verify' = enter a code, 'setup' = enrolment is required before signing in */
+    mode: 'verify' | 'setup';
+}
+
+export interface TwoFactorSetup {
+    secret: string;
+    otpauthUrl: string;
+    qrCodeDataUrl: string;
+}
+
+/** A super admin acting as an ADMIN of another tenant; their own session is kept aside */
+export interface ImpersonationSession {
+    sessionId: string;
+    tenantName: string;
+    expiresAt: string;
+    adminUser: User;
+    adminAccessToken: string | null;
+    adminRefreshToken: string | null;
+}
+
 interface AuthState {
     // State
     user: User | null;
@@ -38,9 +60,17 @@ interface AuthState {
     isLoading: boolean;
     isInitialized: boolean;
     error: string | null;
+    twoFactorChallenge: TwoFactorChallenge | null;
+    impersonation: ImpersonationSession | null;
 
     // Actions
     login: (email: string, password: string) => Promise<void>;
+    verifyTwoFactor: (input: { code?: string; recoveryCode?: string }) => Promise<void>;
+    beginTwoFactorSetup: () => Promise<TwoFactorSetup>;
+    confirmTwoFactorSetup: (code: string) => Promise<string[]>;
+    cancelTwoFactor: () => void;
+    startImpersonation: (tenantId: string, reason: string) => Promise<void>;
+    endImpersonation: () => Promise<void>;
     register: (data: RegisterData) => Promise<void>;
     logout: () => void;
     setUser: (user: User | null) => void;
@@ -48,6 +78,53 @@ interface AuthState {
     initializeAuth: () => void;
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+// Normalizes the login payload and stores tokens via token-manager
+function startSession(data: { accessToken: string; refreshToken: string; user: unknown }) {
+    const rawUser = data.user as any;
+    const user: User = {
+        ...(rawUser as User),
+        name:
+            rawUser.name ??
+            `${rawUser.firstName ?? ''} ${rawUser.lastName ?? ''}`.trim() ??
+            rawUser.email,
+        tenantId: rawUser.tenantId ?? rawUser.tenant?.id,
+    };
+
+    // ✅ Use token-manager (single source of truth)
+    setTokens(data.accessToken, data.refreshToken);
+
+    return {
+        user,
+        accessToken: data.accessToken,
+        refreshToken: data.refreshToken,
+        isAuthenticated: true,
+        isLoading: false,
+        error: null,
+        twoFactorChallenge: null,
+    };
+}
+
+function twoFactorErrorMessage(error: unknown): string {
+    const errorData = (error as { response?: { data?: Partial<ApiErrorResponse> } }).response?.data;
+    const meta = errorData?.meta as ApiErrorMeta | undefined;
+
+    switch (errorData?.error) {
+        case 'ACCOUNT_LOCKED':
+            return `Account is locked. Please try again in ${meta?.lockoutMinutes || 30} minutes.`;
+        case 'TWO_FACTOR_CHALLENGE_INVALID':
+            return 'Your sign-in session expired. Please enter your password again.';
+        case 'INVALID_TWO_FACTOR_CODE':
+            return meta?.remainingAttempts !== undefined
+                ? `Invalid code. ${meta.remainingAttempts} attempts remaining.`
+                : 'Invalid code.';
+        default:
+            return errorData?.message || 'Verification failed';
+    }
+}
+
 // =============================================================================
 // Store
 // =============================================================================
@@ -62,6 +139,8 @@ export const useAuthStore = create<AuthState>()(
             isLoading: false,
             isInitialized: false,
             error: null,
+            twoFactorChallenge: null,
+            impersonation: null,
 
             // Login Action
             login: async (email, password) => {
@@ -73,29 +152,21 @@ export const useAuthStore = create<AuthState>()(
                     });
 
                     // ✅ Contract: api-client interceptor auto-unwraps { success, data }
-                    // So response.data already contains { user, accessToken, refreshToken }
-                    const { accessToken, refreshToken, user: rawUser } = response.data;
-
-                    const user: User = {
-                        ...(rawUser as User),
-                        name:
-                            (rawUser as any).name ??
-                            `${(rawUser as any).firstName ?? ''} ${(rawUser as any).lastName ?? ''}`.trim() ??
-                            (rawUser as any).email,
-                        tenantId: (rawUser as any).tenantId ?? (rawUser as any).tenant?.id,
-                    };
-
-                    // ✅ Use token-manager (single source of truth)
-                    setTokens(accessToken, refreshToken);
+                    // So response.data contains { user, accessToken, refreshToken },
+                    // or a challenge when a second factor is needed
+                    const data = response.data;
+                    if (data.twoFactorRequired || data.twoFactorSetupRequired) {
+                        set({
+                            twoFactorChallenge: {
+                                challengeToken: data.challengeToken,
+                                mode: data.twoFactorRequired ? 'verify' : 'setup',
+                            },
+                            isLoading: false,
+                        });
+                        return;
+                    }
 
-                    set({
-                        user,
-                        accessToken,
-                        refreshToken,
-                        isAuthenticated: true,
-                        isLoading: false,
-                        error: null,
-                    });
+                    set(startSession(data));
                 } catch (error: unknown) {
                     // ✅ Type-safe error handling with ApiErrorResponse
                     const err = error as {
@@ -126,6 +197,9 @@ export const useAuthStore = create<AuthState>()(
                         case 'ACCOUNT_INACTIVE':
                             message = 'Account is deactivated. Please contact support.';
                             break;
+                        case 'TENANT_SUSPENDED':
+                            message = 'Your organization has been suspended. Please contact support.';
+                            break;
                     }
 
                     set({ error: message, isLoading: false });
@@ -133,6 +207,108 @@ export const useAuthStore = create<AuthState>()(
                 }
             },
 
+            // Two-Factor: complete login with a TOTP or recovery code
+            verifyTwoFactor: async (input) => {
+                const challenge = get().twoFactorChallenge;
+                if (!challenge) throw new Error('No two-factor challenge in progress');
+
+                set({ isLoading: true, error: null });
+                try {
+                    const response = await apiClient.post('/auth/2fa/verify', {
+                        challengeToken: challenge.challengeToken,
+                        ...input,
+                    });
+                    set(startSession(response.data));
+                } catch (error: unknown) {
+                    set({ error: twoFactorErrorMessage(error), isLoading: false });
+                    throw error;
+                }
+            },
+
+            // Two-Factor: enrolment required by the tenant policy
+            beginTwoFactorSetup: async () => {
+                const challenge = get().twoFactorChallenge;
+                if (!challenge) throw new Error('No two-factor challenge in progress');
+
+                set({ isLoading: true, error: null });
+                try {
+                    const response = await apiClient.post('/auth/2fa/challenge/setup', {
+                        challengeToken: challenge.challengeToken,
+                    });
+                    set({ isLoading: false });
+                    return response.data as TwoFactorSetup;
+                } catch (error: unknown) {
+                    set({ error: twoFactorErrorMessage(error), isLoading: false });
+                    throw error;
+                }
+            },
+
+            // Two-Factor: confirm enrolment, sign in and return one-time recovery codes
+            confirmTwoFactorSetup: async (code) => {
+                const challenge = get().twoFactorChallenge;
+                if (!challenge) throw new Error('No two-factor challenge in progress');
+
+                set({ isLoading: true, error: null });
+                try {
+                    const response = await apiClient.post('/auth/2fa/challenge/confirm', {
+                        challengeToken: challenge.challengeToken,
+                        code,
+                    });
+                    const { recoveryCodes, ...session } = response.data;
+                    set(startSession(session));
+                    return recoveryCodes as string[];
+                } catch (error: unknown) {
+                    set({ error: twoFactorErrorMessage(error), isLoading: false });
+                    throw error;
+                }
+            },
+
+            cancelTwoFactor: () => set({ twoFactorChallenge: null, error: null }),
+
+            // Impersonation: swap to a short-lived tenant token (no refresh token)
+            startImpersonation: async (tenantId, reason) => {
+                const { user, accessToken, refreshToken, impersonation } = get();
+                if (!user || impersonation) throw new Error('Cannot start impersonation');
+
+                const response = await apiClient.post(`/admin/tenants/${tenantId}/impersonate`, { reason });
+                const data = response.data;
+                const session = startSession({ ...data, refreshToken: '' });
+
+                set({
+                    ...session,
+                    refreshToken: null,
+                    impersonation: {
+                        sessionId: data.sessionId,
+                        tenantName: data.user.tenant.name,
+                        expiresAt: data.expiresAt,
+                        adminUser: user,
+                        adminAccessToken: accessToken ?? getAccessToken(),
+                        adminRefreshToken: refreshToken ?? getRefreshToken(),
+                    },
+                });
+            },
+
+            // Impersonation: end the session server-side and restore the super admin
+            endImpersonation: async () => {
+                const { impersonation } = get();
+                if (!impersonation) return;
+
+                try {
+                    await apiClient.post('/admin/impersonation/end');
+                } catch {
+                    // Token already expired or revoked; the session is closed either way
+                }
+
+                setTokens(impersonation.adminAccessToken ?? '', impersonation.adminRefreshToken ?? '');
+                set({
+                    user: impersonation.adminUser,
+                    accessToken: impersonation.adminAccessToken,
+                    refreshToken: impersonation.adminRefreshToken,
+                    isAuthenticated: !!impersonation.adminAccessToken,
+                    impersonation: null,
+                });
+            },
+
             // Register Action
             register: async (data) => {
                 set({ isLoading: true, error: null });
@@ -187,6 +363,8 @@ export const useAuthStore = create<AuthState>()(
                     refreshToken: null,
                     isAuthenticated: false,
                     error: null,
+                    twoFactorChallenge: null,
+                    impersonation: null,
                 });
             },
 
@@ -228,6 +406,7 @@ export const useAuthStore = create<AuthState>()(
             partialize: (state) => ({
                 user: state.user,
                 isAuthenticated: state.isAuthenticated,
+                impersonation: state.impersonation,
             }),
             onRehydrateStorage: () => {
                 // Called when store is rehydrated from localStorage
@@ -265,3 +444,5 @@ export const selectIsAuthenticated = (state: AuthState) => state.isAuthenticated
 export const selectIsLoading = (state: AuthState) => state.isLoading;
 export const selectIsInitialized = (state: AuthState) => state.isInitialized;
 export const selectError = (state: AuthState) => state.error;
+export const selectTwoFactorChallenge = (state: AuthState) => state.twoFactorChallenge;
+export const selectImpersonation = (state: AuthState) => state.impersonation;
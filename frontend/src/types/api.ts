@@ -119,6 +119,7 @@ export interface User {
   bio?: string | null;
   social?: Record<string, string> | null;
   role: UserRole | string; // 🔄 Prefer UserRole, string for backward compat
+  customRoleId?: string | null;
   tenantId: string;
   tenant?: TenantInfo;
   companyName?: string;
@@ -136,6 +137,52 @@ export interface User {
   notificationPreferences?: Record<string, boolean>;
 }
 
+// Custom roles (tenant-defined permission sets)
+export interface PermissionDefinition {
+  key: string;
+  group: string;
+  description: string;
+}
+
+export interface CustomRole {
+  id: string;
+  name: string;
+  description?: string | null;
+  permissions: string[];
+  userCount?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Campaigns / ad accounts a CLIENT or VIEWER user is limited to (empty = all campaigns)
+export interface CampaignScopeAssignment {
+  userId: string;
+  campaignIds: string[];
+  accounts: { platform: AdPlatform | string; accountId: string }[];
+}
+
+// Chunked historical sync of one ad account (progress lives in SyncLog.data)
+export interface BackfillJob {
+  id: string;
+  platform: AdPlatform | string;
+  accountId: string;
+  status: SyncStatus;
+  startedAt: string;
+  completedAt: string | null;
+  errorMessage: string | null;
+  percent: number;
+  progress: {
+    startDate: string;
+    endDate: string;
+    chunkDays: number;
+    totalChunks: number;
+    completedChunks: number;
+    nextStartDate: string | null;
+    metricRows: number;
+    lastError?: string;
+  };
+}
+
 export interface AuthResponse {
   token: string;
   user: User;
@@ -254,6 +301,7 @@ export type ApiErrorCode =
   | 'TOKEN_REVOKED'
   | 'USER_NOT_FOUND'
   | 'ACCOUNT_INACTIVE'
+  | 'TENANT_SUSPENDED'
   | 'VALIDATION_ERROR'
   | 'UNAUTHORIZED'
   | 'FORBIDDEN'
@@ -5,6 +5,7 @@
 // USER ROLES
 // =============================================================================
 export const UserRole = {
+  SUPER_ADMIN: 'SUPER_ADMIN',
   ADMIN: 'ADMIN',
   MANAGER: 'MANAGER',
   CLIENT: 'CLIENT',
@@ -89,6 +90,7 @@ export const SyncType = {
   INITIAL: 'INITIAL',
   SCHEDULED: 'SCHEDULED',
   MANUAL: 'MANUAL',
+  BACKFILL: 'BACKFILL',
 } as const;
 export type SyncType = (typeof SyncType)[keyof typeof SyncType];
 